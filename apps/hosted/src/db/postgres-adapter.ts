@@ -1,21 +1,35 @@
 import { drizzle } from 'drizzle-orm/postgres-js';
 import postgres from 'postgres';
-import { eq, and, sql, desc } from 'drizzle-orm';
+import { eq, and, sql, desc, asc, gte, lte, lt, inArray, isNull } from 'drizzle-orm';
 import type {
   DatabaseAdapter,
   UpsertResult,
   GetEntitiesOptions,
   ConnectionRecord,
   CanonicalEntityRecord,
+  GetSIEAccountsOptions,
+  GetSIEBalancesOptions,
+  GetSIETransactionsOptions,
+  SIEAccountTotal,
+  EntityRecordVersion,
   EntityType,
   SyncProgress,
   SyncState,
+  SyncJobRecord,
+  SyncSchedule,
   SIEUpload,
   SIEFullData,
+  SIEBudgetRecord,
+  SIEAccount,
+  SIEMetadata,
+  SIEStoredBalance,
+  SIEStoredTransaction,
   ConsentRecord,
   ConsentTokenRecord,
   OneTimeCode,
   ProviderName,
+  WebhookEndpoint,
+  WebhookDelivery,
 } from '@arcim-sync/core';
 import { ConsentStatus } from '@arcim-sync/core';
 import * as schema from './schema-postgres.js';
@@ -36,7 +50,7 @@ export class PostgresAdapter implements DatabaseAdapter {
   // Entity Records — not used in hosted gateway mode
   // ============================================
   async upsertEntities(): Promise<UpsertResult> {
-    return { inserted: 0, updated: 0, unchanged: 0 };
+    return { inserted: 0, updated: 0, unchanged: 0, insertedIds: [], updatedIds: [] };
   }
 
   async getEntities(): Promise<CanonicalEntityRecord[]> {
@@ -47,6 +61,15 @@ export class PostgresAdapter implements DatabaseAdapter {
     return 0;
   }
 
+  async tombstoneMissingEntities(): Promise<number> {
+    return 0;
+  }
+
+  // Entity records are not stored here, so an empty history would be wrong rather than empty
+  async getEntityVersions(): Promise<EntityRecordVersion[]> {
+    throw new Error('Entity version history is not supported in hosted gateway mode');
+  }
+
   // ============================================
   // Sync State — not used in hosted gateway mode
   // ============================================
@@ -70,7 +93,65 @@ export class PostgresAdapter implements DatabaseAdapter {
   }
 
   // ============================================
-  // SIE Data — not used in hosted gateway mode
+  // Sync Job Queue — not used in hosted gateway mode
+  // ============================================
+  async enqueueSyncJob(): Promise<SyncJobRecord> {
+    throw new Error('Sync jobs are not supported in hosted gateway mode');
+  }
+
+  async getSyncJob(): Promise<SyncJobRecord | null> {
+    return null;
+  }
+
+  async claimSyncJob(): Promise<SyncJobRecord | null> {
+    return null;
+  }
+
+  async heartbeatSyncJob(): Promise<SyncJobRecord | null> {
+    return null;
+  }
+
+  async completeSyncJob(): Promise<void> {}
+
+  async requestSyncJobCancel(): Promise<SyncJobRecord | null> {
+    return null;
+  }
+
+  async recoverStaleSyncJobs(): Promise<SyncJobRecord[]> {
+    return [];
+  }
+
+  // ============================================
+  // Sync Schedules — not used in hosted gateway mode
+  // ============================================
+  async upsertSyncSchedule(): Promise<void> {
+    throw new Error('Sync schedules are not supported in hosted gateway mode');
+  }
+
+  async getSyncSchedule(): Promise<SyncSchedule | null> {
+    return null;
+  }
+
+  async getSyncSchedules(): Promise<SyncSchedule[]> {
+    return [];
+  }
+
+  async deleteSyncSchedule(): Promise<void> {}
+
+  async getDueSyncSchedules(): Promise<SyncSchedule[]> {
+    return [];
+  }
+
+  async recordSyncScheduleRun(): Promise<boolean> {
+    return false;
+  }
+
+  async setSyncSchedulePaused(): Promise<boolean> {
+    return false;
+  }
+
+  // ============================================
+  // SIE Uploads — not used in hosted gateway mode
   // ============================================
   async storeSIEData(): Promise<string> {
     return '';
@@ -84,6 +165,244 @@ export class PostgresAdapter implements DatabaseAdapter {
     return null;
   }
 
+  async getSIEMetadata(): Promise<SIEMetadata | null> {
+    return null;
+  }
+
+  async storeSIEBudget(): Promise<void> {}
+
+  async getSIEBudget(): Promise<SIEBudgetRecord | null> {
+    return null;
+  }
+
+  // ============================================
+  // SIE Accounts, Balances and Transactions
+  // ============================================
+  async getSIEAccounts(connectionId: string, options?: GetSIEAccountsOptions): Promise<SIEAccount[]> {
+    const conditions = [eq(schema.sieAccounts.connectionId, connectionId)];
+    if (options?.fiscalYear != null) {
+      conditions.push(eq(schema.sieAccounts.fiscalYear, options.fiscalYear));
+    }
+    if (options?.uploadId) {
+      conditions.push(eq(schema.sieAccounts.uploadId, options.uploadId));
+    }
+    if (options?.fromAccount) {
+      conditions.push(gte(schema.sieAccounts.accountNumber, options.fromAccount));
+    }
+    if (options?.toAccount) {
+      conditions.push(lte(schema.sieAccounts.accountNumber, options.toAccount));
+    }
+
+    const rows = await this.db
+      .select()
+      .from(schema.sieAccounts)
+      .where(and(...conditions))
+      .orderBy(asc(schema.sieAccounts.accountNumber), asc(schema.sieAccounts.id));
+
+    return rows.map((row) => ({
+      accountNumber: row.accountNumber,
+      accountName: row.accountName,
+      accountGroup: row.accountGroup,
+      ...(row.taxCode != null && { taxCode: row.taxCode }),
+    }));
+  }
+
+  async getSIETransactions(
+    connectionId: string,
+    options?: GetSIETransactionsOptions,
+  ): Promise<SIEStoredTransaction[]> {
+    const page = options?.page ?? 1;
+    const pageSize = options?.pageSize ?? 100;
+
+    const rows = await this.db
+      .select()
+      .from(schema.sieTransactions)
+      .where(and(...this.sieTransactionConditions(connectionId, options)))
+      .orderBy(asc(schema.sieTransactions.verificationDate), asc(schema.sieTransactions.id))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize);
+
+    return rows.map((row) => this.rowToSIETransaction(row));
+  }
+
+  async getSIETransactionCount(
+    connectionId: string,
+    options?: Omit<GetSIETransactionsOptions, 'page' | 'pageSize'>,
+  ): Promise<number> {
+    const result = await this.db
+      .select({ count: sql<number>`count(*)`.mapWith(Number) })
+      .from(schema.sieTransactions)
+      .where(and(...this.sieTransactionConditions(connectionId, options)));
+
+    return result[0]?.count ?? 0;
+  }
+
+  async getSIETransactionTotals(
+    connectionId: string,
+    options?: Omit<GetSIETransactionsOptions, 'page' | 'pageSize'>,
+  ): Promise<SIEAccountTotal[]> {
+    return this.db
+      .select({
+        accountNumber: schema.sieTransactions.accountNumber,
+        amount: sql<number>`sum(${schema.sieTransactions.amount})`.mapWith(Number),
+        count: sql<number>`count(*)`.mapWith(Number),
+      })
+      .from(schema.sieTransactions)
+      .where(and(...this.sieTransactionConditions(connectionId, options)))
+      .groupBy(schema.sieTransactions.accountNumber)
+      .orderBy(asc(schema.sieTransactions.accountNumber));
+  }
+
+  async getSIEVoucherRows(
+    connectionId: string,
+    options?: GetSIETransactionsOptions,
+  ): Promise<SIEStoredTransaction[]> {
+    const page = options?.page ?? 1;
+    const pageSize = options?.pageSize ?? 100;
+    const t = schema.sieTransactions;
+
+    const vouchers = this.db
+      .select({ uploadId: t.uploadId, series: t.verificationSeries, number: t.verificationNumber })
+      .from(t)
+      .where(and(...this.sieTransactionConditions(connectionId, options)))
+      .groupBy(t.uploadId, t.verificationSeries, t.verificationNumber)
+      .orderBy(...this.sieVoucherOrder())
+      .limit(pageSize)
+      .offset((page - 1) * pageSize);
+
+    // All rows of the page's vouchers, also those outside the account and object filters
+    const rows = await this.db
+      .select()
+      .from(t)
+      .where(sql`(${t.uploadId}, ${t.verificationSeries}, ${t.verificationNumber}) IN ${vouchers}`)
+      .orderBy(...this.sieVoucherOrder(), asc(t.id));
+
+    return rows.map((row) => this.rowToSIETransaction(row));
+  }
+
+  async getSIEVoucherCount(
+    connectionId: string,
+    options?: Omit<GetSIETransactionsOptions, 'page' | 'pageSize'>,
+  ): Promise<number> {
+    const t = schema.sieTransactions;
+    const vouchers = this.db
+      .select({ uploadId: t.uploadId })
+      .from(t)
+      .where(and(...this.sieTransactionConditions(connectionId, options)))
+      .groupBy(t.uploadId, t.verificationSeries, t.verificationNumber)
+      .as('vouchers');
+
+    const result = await this.db
+      .select({ count: sql<number>`count(*)`.mapWith(Number) })
+      .from(vouchers);
+
+    return result[0]?.count ?? 0;
+  }
+
+  async getSIEBalances(connectionId: string, options?: GetSIEBalancesOptions): Promise<SIEStoredBalance[]> {
+    const conditions = [eq(schema.sieBalances.connectionId, connectionId)];
+    if (options?.fiscalYear != null) {
+      conditions.push(eq(schema.sieBalances.fiscalYear, options.fiscalYear));
+    }
+    if (options?.uploadId) {
+      conditions.push(eq(schema.sieBalances.uploadId, options.uploadId));
+    }
+    if (options?.fromAccount) {
+      conditions.push(gte(schema.sieBalances.accountNumber, options.fromAccount));
+    }
+    if (options?.toAccount) {
+      conditions.push(lte(schema.sieBalances.accountNumber, options.toAccount));
+    }
+    if (options?.balanceType) {
+      conditions.push(eq(schema.sieBalances.balanceType, options.balanceType));
+    }
+    if (options?.yearIndex != null) {
+      conditions.push(eq(schema.sieBalances.yearIndex, options.yearIndex));
+    }
+
+    const rows = await this.db
+      .select()
+      .from(schema.sieBalances)
+      .where(and(...conditions))
+      .orderBy(asc(schema.sieBalances.accountNumber), asc(schema.sieBalances.id));
+
+    return rows.map((row) => ({
+      accountNumber: row.accountNumber,
+      balanceType: row.balanceType as SIEStoredBalance['balanceType'],
+      yearIndex: row.yearIndex,
+      amount: row.amount,
+      ...(row.quantity != null && { quantity: row.quantity }),
+      uploadId: row.uploadId,
+      fiscalYear: row.fiscalYear,
+    }));
+  }
+
+  private sieTransactionConditions(
+    connectionId: string,
+    options?: Omit<GetSIETransactionsOptions, 'page' | 'pageSize'>,
+  ) {
+    const conditions = [eq(schema.sieTransactions.connectionId, connectionId)];
+    if (options?.fiscalYear != null) {
+      conditions.push(eq(schema.sieTransactions.fiscalYear, options.fiscalYear));
+    }
+    if (options?.uploadId) {
+      conditions.push(eq(schema.sieTransactions.uploadId, options.uploadId));
+    }
+    if (options?.fromAccount) {
+      conditions.push(gte(schema.sieTransactions.accountNumber, options.fromAccount));
+    }
+    if (options?.toAccount) {
+      conditions.push(lte(schema.sieTransactions.accountNumber, options.toAccount));
+    }
+    // Dates are stored as YYYYMMDD
+    if (options?.fromDate) {
+      conditions.push(gte(schema.sieTransactions.verificationDate, options.fromDate.replace(/-/g, '')));
+    }
+    if (options?.toDate) {
+      conditions.push(lte(schema.sieTransactions.verificationDate, options.toDate.replace(/-/g, '')));
+    }
+    if (options?.costCenter) {
+      conditions.push(eq(schema.sieTransactions.costCenter, options.costCenter));
+    }
+    if (options?.project) {
+      conditions.push(eq(schema.sieTransactions.project, options.project));
+    }
+    if (options?.accountNumbers) {
+      conditions.push(inArray(schema.sieTransactions.accountNumber, options.accountNumbers));
+    }
+    return conditions;
+  }
+
+  /** By series, then number; shorter first, so that A9 comes before A10 */
+  private sieVoucherOrder() {
+    const t = schema.sieTransactions;
+    return [
+      asc(sql`length(${t.verificationSeries})`),
+      asc(t.verificationSeries),
+      asc(sql`length(${t.verificationNumber})`),
+      asc(t.verificationNumber),
+    ];
+  }
+
+  private rowToSIETransaction(row: typeof schema.sieTransactions.$inferSelect): SIEStoredTransaction {
+    return {
+      verificationSeries: row.verificationSeries,
+      verificationNumber: row.verificationNumber,
+      verificationDate: row.verificationDate,
+      verificationText: row.verificationText,
+      accountNumber: row.accountNumber,
+      amount: row.amount,
+      costCenter: row.costCenter,
+      project: row.project,
+      objects: JSON.parse(row.objects) as SIEStoredTransaction['objects'],
+      rowText: row.rowText,
+      ...(row.quantity != null && { quantity: row.quantity }),
+      ...(row.registrationDate != null && { registrationDate: row.registrationDate }),
+      uploadId: row.uploadId,
+      fiscalYear: row.fiscalYear,
+    };
+  }
+
   // ============================================
   // Connections
   // ============================================
@@ -312,6 +631,33 @@ export class PostgresAdapter implements DatabaseAdapter {
     }
   }
 
+  async replaceConsentTokens(
+    tokens: ConsentTokenRecord,
+    expected: Pick<ConsentTokenRecord, 'accessToken' | 'refreshToken'>,
+  ): Promise<boolean> {
+    const updated = await this.db
+      .update(schema.consentTokens)
+      .set({
+        accessToken: tokens.accessToken,
+        refreshToken: tokens.refreshToken ?? null,
+        tokenExpiresAt: tokens.tokenExpiresAt ?? null,
+        scopes: tokens.scopes ?? null,
+        encryptedAt: tokens.encryptedAt ?? null,
+      })
+      .where(
+        and(
+          eq(schema.consentTokens.consentId, tokens.consentId),
+          eq(schema.consentTokens.accessToken, expected.accessToken),
+          expected.refreshToken === undefined
+            ? isNull(schema.consentTokens.refreshToken)
+            : eq(schema.consentTokens.refreshToken, expected.refreshToken),
+        ),
+      )
+      .returning({ consentId: schema.consentTokens.consentId });
+
+    return updated.length > 0;
+  }
+
   async getConsentTokens(consentId: string): Promise<ConsentTokenRecord | null> {
     const rows = await this.db
       .select()
@@ -333,6 +679,30 @@ export class PostgresAdapter implements DatabaseAdapter {
     };
   }
 
+  async getExpiringConsentTokens(expiresBefore: string): Promise<ConsentTokenRecord[]> {
+    const rows = await this.db
+      .select({ tokens: schema.consentTokens })
+      .from(schema.consentTokens)
+      .innerJoin(schema.consents, eq(schema.consents.id, schema.consentTokens.consentId))
+      .where(
+        and(
+          eq(schema.consents.status, ConsentStatus.Accepted),
+          lt(schema.consentTokens.tokenExpiresAt, expiresBefore),
+        ),
+      )
+      .orderBy(asc(schema.consentTokens.tokenExpiresAt));
+
+    return rows.map(({ tokens: row }) => ({
+      consentId: row.consentId,
+      provider: row.provider as ProviderName,
+      accessToken: row.accessToken,
+      refreshToken: row.refreshToken ?? undefined,
+      tokenExpiresAt: row.tokenExpiresAt ?? undefined,
+      scopes: row.scopes ?? undefined,
+      encryptedAt: row.encryptedAt ?? undefined,
+    }));
+  }
+
   async deleteConsentTokens(consentId: string): Promise<void> {
     await this.db.delete(schema.consentTokens).where(eq(schema.consentTokens.consentId, consentId));
   }
@@ -375,4 +745,31 @@ export class PostgresAdapter implements DatabaseAdapter {
       usedAt: now,
     };
   }
+
+  // ============================================
+  // Webhooks — not used in hosted gateway mode
+  // ============================================
+  async upsertWebhookEndpoint(): Promise<void> {
+    throw new Error('Webhooks are not supported in hosted gateway mode');
+  }
+
+  async getWebhookEndpoint(): Promise<WebhookEndpoint | null> {
+    return null;
+  }
+
+  async getWebhookEndpoints(): Promise<WebhookEndpoint[]> {
+    return [];
+  }
+
+  async deleteWebhookEndpoint(): Promise<void> {}
+
+  async upsertWebhookDelivery(): Promise<void> {}
+
+  async getWebhookDelivery(): Promise<WebhookDelivery | null> {
+    return null;
+  }
+
+  async getWebhookDeliveries(): Promise<WebhookDelivery[]> {
+    return [];
+  }
 }
@@ -96,3 +96,59 @@ export const oneTimeCodes = pgTable('one_time_codes', {
 }, (table) => [
   index('otc_consent').on(table.consentId),
 ]);
+
+// ============================================
+// SIE ACCOUNTS, BALANCES AND TRANSACTIONS
+// ============================================
+export const sieAccounts = pgTable('sie_accounts', {
+  id: serial('id').primaryKey(),
+  uploadId: text('upload_id').notNull(),
+  connectionId: text('connection_id').notNull(),
+  fiscalYear: integer('fiscal_year').notNull(),
+  accountNumber: text('account_number').notNull(),
+  accountName: text('account_name').notNull(),
+  accountGroup: text('account_group').notNull(),
+  taxCode: text('tax_code'),
+}, (table) => [
+  index('sie_accounts_upload').on(table.uploadId),
+  index('sie_accounts_account').on(table.connectionId, table.fiscalYear, table.accountNumber),
+]);
+
+export const sieBalances = pgTable('sie_balances', {
+  id: serial('id').primaryKey(),
+  uploadId: text('upload_id').notNull(),
+  connectionId: text('connection_id').notNull(),
+  fiscalYear: integer('fiscal_year').notNull(),
+  accountNumber: text('account_number').notNull(),
+  balanceType: text('balance_type').notNull(),
+  yearIndex: integer('year_index').notNull(),
+  amount: real('amount').notNull(),
+  quantity: real('quantity'),
+}, (table) => [
+  index('sie_balances_upload').on(table.uploadId),
+  index('sie_balances_account').on(table.connectionId, table.fiscalYear, table.accountNumber),
+]);
+
+export const sieTransactions = pgTable('sie_transactions', {
+  id: serial('id').primaryKey(),
+  uploadId: text('upload_id').notNull(),
+  connectionId: text('connection_id').notNull(),
+  fiscalYear: integer('fiscal_year').notNull(),
+  verificationSeries: text('verification_series').notNull(),
+  verificationNumber: text('verification_number').notNull(),
+  /** YYYYMMDD, as written in SIE files */
+  verificationDate: text('verification_date').notNull(),
+  verificationText: text('verification_text').notNull(),
+  registrationDate: text('registration_date'),
+  accountNumber: text('account_number').notNull(),
+  amount: real('amount').notNull(),
+  costCenter: text('cost_center').notNull(),
+  project: text('project').notNull(),
+  objects: text('objects').notNull(),
+  rowText: text('row_text').notNull(),
+  quantity: real('quantity'),
+}, (table) => [
+  index('sie_transactions_upload').on(table.uploadId),
+  index('sie_transactions_account').on(table.connectionId, table.fiscalYear, table.accountNumber),
+  index('sie_transactions_date').on(table.connectionId, table.fiscalYear, table.verificationDate),
+]);
@@ -60,6 +60,11 @@ app.all('/api/*', async (c) => {
     mode: 'hosted',
     tokenEncryptionKey: encryptionKey,
     rateLimits: { maxRequests: 60, windowMs: 60_000 },
+    // A server is built per request here — never start background loops on it,
+    // and webhook retries would not outlive the request
+    syncWorker: false,
+    syncScheduler: false,
+    webhooks: false,
     fortnoxOAuth: process.env['FORTNOX_CLIENT_ID']
       ? {
           clientId: process.env['FORTNOX_CLIENT_ID']!,
@@ -74,6 +79,15 @@ app.all('/api/*', async (c) => {
           redirectUri: process.env['VISMA_REDIRECT_URI']!,
         }
       : undefined,
+    brioxOAuth: process.env['BRIOX_CLIENT_ID']
+      ? { clientId: process.env['BRIOX_CLIENT_ID']! }
+      : undefined,
+    bjornLundenOAuth: process.env['BJORN_LUNDEN_CLIENT_ID']
+      ? {
+          clientId: process.env['BJORN_LUNDEN_CLIENT_ID']!,
+          clientSecret: process.env['BJORN_LUNDEN_CLIENT_SECRET']!,
+        }
+      : undefined,
   });
 
   return server.fetch(c.req.raw);
@@ -1,8 +1,42 @@
 // Supabase Edge Function — Cron: Refresh expiring OAuth tokens
 // Schedule: every 15 minutes
+// Refreshes access tokens of accepted consents that expire within 30 minutes.
+// Consents whose refresh token the provider rejects are marked Inactive.
 
 import { PostgresAdapter } from '../../src/db/postgres-adapter.js';
-import { createAESEncryption } from '@arcim-sync/core';
+import { createAESEncryption, consoleLogger, refreshExpiringTokens } from '@arcim-sync/core';
+import type { ProviderOAuthConfigs } from '@arcim-sync/core';
+
+function oauthConfigsFromEnv(): ProviderOAuthConfigs {
+  const env = (name: string) => Deno.env.get(name) ?? '';
+  const configs: ProviderOAuthConfigs = {};
+
+  if (env('FORTNOX_CLIENT_ID')) {
+    configs.fortnox = {
+      clientId: env('FORTNOX_CLIENT_ID'),
+      clientSecret: env('FORTNOX_CLIENT_SECRET'),
+      redirectUri: env('FORTNOX_REDIRECT_URI'),
+    };
+  }
+  if (env('VISMA_CLIENT_ID')) {
+    configs.visma = {
+      clientId: env('VISMA_CLIENT_ID'),
+      clientSecret: env('VISMA_CLIENT_SECRET'),
+      redirectUri: env('VISMA_REDIRECT_URI'),
+    };
+  }
+  if (env('BRIOX_CLIENT_ID')) {
+    configs.briox = { clientId: env('BRIOX_CLIENT_ID') };
+  }
+  if (env('BJORN_LUNDEN_CLIENT_ID')) {
+    configs.bjornlunden = {
+      clientId: env('BJORN_LUNDEN_CLIENT_ID'),
+      clientSecret: env('BJORN_LUNDEN_CLIENT_SECRET'),
+    };
+  }
+
+  return configs;
+}
 
 Deno.serve(async (_req: Request) => {
   const databaseUrl = Deno.env.get('DATABASE_URL');
@@ -13,21 +47,22 @@ Deno.serve(async (_req: Request) => {
   }
 
   const db = new PostgresAdapter(databaseUrl);
-  const encryption = createAESEncryption(encryptionKey);
-
-  // Find tokens expiring in the next 30 minutes
-  // In a real implementation, this would:
-  // 1. Query consent_tokens WHERE token_expires_at < now() + interval '30 minutes'
-  // 2. Decrypt the refresh token
-  // 3. Call the provider's refresh endpoint
-  // 4. Encrypt and store the new tokens
-  // 5. Update token_expires_at
-
-  // Placeholder — actual implementation depends on provider OAuth modules
-  const refreshed = 0;
-
-  return new Response(
-    JSON.stringify({ success: true, refreshed, timestamp: new Date().toISOString() }),
-    { headers: { 'Content-Type': 'application/json' } },
-  );
+
+  try {
+    const summary = await refreshExpiringTokens(db, {
+      oauth: oauthConfigsFromEnv(),
+      tokenEncryption: createAESEncryption(encryptionKey),
+      logger: consoleLogger,
+    });
+
+    return new Response(
+      JSON.stringify({ success: true, ...summary, timestamp: new Date().toISOString() }),
+      { headers: { 'Content-Type': 'application/json' } },
+    );
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: String(error) }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } },
+    );
+  }
 });
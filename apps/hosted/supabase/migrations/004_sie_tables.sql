@@ -0,0 +1,86 @@
+-- SIE accounts, balances and transactions, one row each, so that queries
+-- read only the rows they need
+
+CREATE TABLE IF NOT EXISTS sie_accounts (
+  id SERIAL PRIMARY KEY,
+  upload_id TEXT NOT NULL,
+  connection_id TEXT NOT NULL REFERENCES connections(connection_id) ON DELETE CASCADE,
+  fiscal_year INTEGER NOT NULL,
+  account_number TEXT NOT NULL,
+  account_name TEXT NOT NULL,
+  account_group TEXT NOT NULL,
+  tax_code TEXT
+);
+
+CREATE INDEX IF NOT EXISTS sie_accounts_upload ON sie_accounts (upload_id);
+CREATE INDEX IF NOT EXISTS sie_accounts_account ON sie_accounts (connection_id, fiscal_year, account_number);
+
+CREATE TABLE IF NOT EXISTS sie_balances (
+  id SERIAL PRIMARY KEY,
+  upload_id TEXT NOT NULL,
+  connection_id TEXT NOT NULL REFERENCES connections(connection_id) ON DELETE CASCADE,
+  fiscal_year INTEGER NOT NULL,
+  account_number TEXT NOT NULL,
+  balance_type TEXT NOT NULL,
+  year_index INTEGER NOT NULL,
+  amount REAL NOT NULL,
+  quantity REAL
+);
+
+CREATE INDEX IF NOT EXISTS sie_balances_upload ON sie_balances (upload_id);
+CREATE INDEX IF NOT EXISTS sie_balances_account ON sie_balances (connection_id, fiscal_year, account_number);
+
+CREATE TABLE IF NOT EXISTS sie_transactions (
+  id SERIAL PRIMARY KEY,
+  upload_id TEXT NOT NULL,
+  connection_id TEXT NOT NULL REFERENCES connections(connection_id) ON DELETE CASCADE,
+  fiscal_year INTEGER NOT NULL,
+  verification_series TEXT NOT NULL,
+  verification_number TEXT NOT NULL,
+  verification_date TEXT NOT NULL,
+  verification_text TEXT NOT NULL,
+  registration_date TEXT,
+  account_number TEXT NOT NULL,
+  amount REAL NOT NULL,
+  cost_center TEXT NOT NULL,
+  project TEXT NOT NULL,
+  objects TEXT NOT NULL,
+  row_text TEXT NOT NULL,
+  quantity REAL
+);
+
+CREATE INDEX IF NOT EXISTS sie_transactions_upload ON sie_transactions (upload_id);
+CREATE INDEX IF NOT EXISTS sie_transactions_account ON sie_transactions (connection_id, fiscal_year, account_number);
+CREATE INDEX IF NOT EXISTS sie_transactions_date ON sie_transactions (connection_id, fiscal_year, verification_date);
+
+-- RLS: accessible only through connection ownership
+ALTER TABLE sie_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sie_balances ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sie_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY sie_accounts_isolation ON sie_accounts
+  FOR ALL
+  USING (
+    connection_id IN (
+      SELECT connection_id FROM connections
+      WHERE tenant_id = current_setting('app.tenant_id', true)
+    )
+  );
+
+CREATE POLICY sie_balances_isolation ON sie_balances
+  FOR ALL
+  USING (
+    connection_id IN (
+      SELECT connection_id FROM connections
+      WHERE tenant_id = current_setting('app.tenant_id', true)
+    )
+  );
+
+CREATE POLICY sie_transactions_isolation ON sie_transactions
+  FOR ALL
+  USING (
+    connection_id IN (
+      SELECT connection_id FROM connections
+      WHERE tenant_id = current_setting('app.tenant_id', true)
+    )
+  );
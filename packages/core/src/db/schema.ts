@@ -1,3 +1,4 @@
+import { sql } from 'drizzle-orm';
 import { sqliteTable, text, integer, real, uniqueIndex, index } from 'drizzle-orm/sqlite-core';
 
 // ============================================
@@ -36,6 +37,7 @@ export const entityRecords = sqliteTable(
     rawData: text('raw_data', { mode: 'json' }).notNull().$type<Record<string, unknown>>(),
     lastModified: text('last_modified'),
     contentHash: text('content_hash').notNull(),
+    deletedAt: text('deleted_at'),
     createdAt: text('created_at').notNull(),
     updatedAt: text('updated_at').notNull(),
   },
@@ -56,6 +58,48 @@ export const entityRecords = sqliteTable(
   ],
 );
 
+// ============================================
+// ENTITY RECORD VERSIONS (append-only history)
+// ============================================
+export const entityRecordVersions = sqliteTable(
+  'entity_record_versions',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    connectionId: text('connection_id').notNull(),
+    entityType: text('entity_type').notNull(),
+    externalId: text('external_id').notNull(),
+    version: integer('version').notNull(),
+    changeType: text('change_type').notNull(),
+    provider: text('provider').notNull(),
+    fiscalYear: integer('fiscal_year'),
+    documentDate: text('document_date'),
+    dueDate: text('due_date'),
+    counterpartyNumber: text('counterparty_number'),
+    counterpartyName: text('counterparty_name'),
+    amount: real('amount'),
+    currency: text('currency').notNull().default('SEK'),
+    status: text('status'),
+    rawData: text('raw_data', { mode: 'json' }).notNull().$type<Record<string, unknown>>(),
+    lastModified: text('last_modified'),
+    contentHash: text('content_hash').notNull(),
+    deletedAt: text('deleted_at'),
+    recordedAt: text('recorded_at').notNull(),
+  },
+  (table) => [
+    uniqueIndex('entity_record_versions_unique').on(
+      table.connectionId,
+      table.entityType,
+      table.externalId,
+      table.version,
+    ),
+    index('entity_record_versions_recorded').on(
+      table.connectionId,
+      table.entityType,
+      table.recordedAt,
+    ),
+  ],
+);
+
 // ============================================
 // SYNC STATE
 // ============================================
@@ -71,6 +115,7 @@ export const syncState = sqliteTable(
     recordsUpdated: integer('records_updated').notNull().default(0),
     lastError: text('last_error'),
     lastErrorAt: text('last_error_at'),
+    checkpoint: text('checkpoint', { mode: 'json' }).$type<Record<string, unknown>>(),
   },
   (table) => [
     uniqueIndex('sync_state_unique').on(table.connectionId, table.entityType),
@@ -94,6 +139,62 @@ export const syncProgress = sqliteTable('sync_progress', {
   totalDurationMs: integer('total_duration_ms'),
 });
 
+// ============================================
+// SYNC JOBS (durable queue)
+// ============================================
+export const syncJobs = sqliteTable(
+  'sync_jobs',
+  {
+    jobId: text('job_id').primaryKey(),
+    connectionId: text('connection_id').notNull(),
+    provider: text('provider').notNull(),
+    status: text('status').notNull(),
+    payload: text('payload', { mode: 'json' }).notNull().$type<Record<string, unknown>>(),
+    attempts: integer('attempts').notNull().default(0),
+    workerId: text('worker_id'),
+    leaseExpiresAt: text('lease_expires_at'),
+    heartbeatAt: text('heartbeat_at'),
+    cancelRequested: integer('cancel_requested', { mode: 'boolean' }).notNull().default(false),
+    error: text('error'),
+    createdAt: text('created_at').notNull(),
+    updatedAt: text('updated_at').notNull(),
+  },
+  (table) => [
+    index('sync_jobs_status').on(table.status, table.createdAt),
+    uniqueIndex('sync_jobs_running_connection')
+      .on(table.connectionId)
+      .where(sql`status = 'running'`),
+  ],
+);
+
+// ============================================
+// SYNC SCHEDULES
+// ============================================
+export const syncSchedules = sqliteTable(
+  'sync_schedules',
+  {
+    scheduleId: text('schedule_id').primaryKey(),
+    connectionId: text('connection_id').notNull(),
+    provider: text('provider').notNull(),
+    consentId: text('consent_id').notNull(),
+    cronExpression: text('cron_expression'),
+    intervalMinutes: integer('interval_minutes'),
+    entityTypes: text('entity_types', { mode: 'json' }).$type<string[]>(),
+    includeSIE: integer('include_sie', { mode: 'boolean' }).notNull().default(false),
+    sieOptions: text('sie_options', { mode: 'json' }).$type<Record<string, unknown>>(),
+    paused: integer('paused', { mode: 'boolean' }).notNull().default(false),
+    nextRunAt: text('next_run_at'),
+    lastRunAt: text('last_run_at'),
+    lastJobId: text('last_job_id'),
+    createdAt: text('created_at').notNull(),
+    updatedAt: text('updated_at').notNull(),
+  },
+  (table) => [
+    index('sync_schedules_connection').on(table.connectionId),
+    index('sync_schedules_next_run').on(table.paused, table.nextRunAt),
+  ],
+);
+
 // ============================================
 // SIE UPLOADS
 // ============================================
@@ -129,8 +230,98 @@ export const sieData = sqliteTable('sie_data', {
   parsed: text('parsed', { mode: 'json' }).notNull().$type<Record<string, unknown>>(),
   kpis: text('kpis', { mode: 'json' }).notNull().$type<Record<string, unknown>>(),
   rawContent: text('raw_content'),
+  validation: text('validation', { mode: 'json' }).$type<Record<string, unknown>>(),
 });
 
+// ============================================
+// SIE ACCOUNTS, BALANCES AND TRANSACTIONS
+// ============================================
+// The rows of an upload that grow with the file. The rest of the parse
+// result stays in sie_data.parsed.
+export const sieAccounts = sqliteTable(
+  'sie_accounts',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    uploadId: text('upload_id').notNull(),
+    connectionId: text('connection_id').notNull(),
+    fiscalYear: integer('fiscal_year').notNull(),
+    accountNumber: text('account_number').notNull(),
+    accountName: text('account_name').notNull(),
+    accountGroup: text('account_group').notNull(),
+    taxCode: text('tax_code'),
+  },
+  (table) => [
+    index('sie_accounts_upload').on(table.uploadId),
+    index('sie_accounts_account').on(table.connectionId, table.fiscalYear, table.accountNumber),
+  ],
+);
+
+export const sieBalances = sqliteTable(
+  'sie_balances',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    uploadId: text('upload_id').notNull(),
+    connectionId: text('connection_id').notNull(),
+    fiscalYear: integer('fiscal_year').notNull(),
+    accountNumber: text('account_number').notNull(),
+    balanceType: text('balance_type').notNull(),
+    yearIndex: integer('year_index').notNull(),
+    amount: real('amount').notNull(),
+    quantity: real('quantity'),
+  },
+  (table) => [
+    index('sie_balances_upload').on(table.uploadId),
+    index('sie_balances_account').on(table.connectionId, table.fiscalYear, table.accountNumber),
+  ],
+);
+
+export const sieTransactions = sqliteTable(
+  'sie_transactions',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    uploadId: text('upload_id').notNull(),
+    connectionId: text('connection_id').notNull(),
+    fiscalYear: integer('fiscal_year').notNull(),
+    verificationSeries: text('verification_series').notNull(),
+    verificationNumber: text('verification_number').notNull(),
+    /** YYYYMMDD, as written in SIE files */
+    verificationDate: text('verification_date').notNull(),
+    verificationText: text('verification_text').notNull(),
+    registrationDate: text('registration_date'),
+    accountNumber: text('account_number').notNull(),
+    amount: real('amount').notNull(),
+    costCenter: text('cost_center').notNull(),
+    project: text('project').notNull(),
+    objects: text('objects', { mode: 'json' }).notNull().$type<unknown[]>(),
+    rowText: text('row_text').notNull(),
+    quantity: real('quantity'),
+  },
+  (table) => [
+    index('sie_transactions_upload').on(table.uploadId),
+    index('sie_transactions_account').on(table.connectionId, table.fiscalYear, table.accountNumber),
+    index('sie_transactions_date').on(table.connectionId, table.fiscalYear, table.verificationDate),
+  ],
+);
+
+// ============================================
+// SIE BUDGETS
+// ============================================
+export const sieBudgets = sqliteTable(
+  'sie_budgets',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    connectionId: text('connection_id').notNull(),
+    fiscalYear: integer('fiscal_year').notNull(),
+    source: text('source').notNull(),
+    fileName: text('file_name'),
+    lines: text('lines', { mode: 'json' }).notNull().$type<unknown[]>(),
+    updatedAt: text('updated_at').notNull(),
+  },
+  (table) => [
+    uniqueIndex('sie_budgets_unique').on(table.connectionId, table.fiscalYear),
+  ],
+);
+
 // ============================================
 // CONSENTS
 // ============================================
@@ -176,3 +367,40 @@ export const oneTimeCodes = sqliteTable('one_time_codes', {
 }, (table) => [
   index('otc_consent').on(table.consentId),
 ]);
+
+// ============================================
+// WEBHOOK ENDPOINTS
+// ============================================
+export const webhookEndpoints = sqliteTable('webhook_endpoints', {
+  endpointId: text('endpoint_id').primaryKey(),
+  tenantId: text('tenant_id').notNull(),
+  url: text('url').notNull(),
+  secret: text('secret').notNull(),
+  events: text('events', { mode: 'json' }).notNull().$type<string[]>(),
+  description: text('description'),
+  active: integer('active', { mode: 'boolean' }).notNull().default(true),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+}, (table) => [
+  index('webhook_endpoints_tenant').on(table.tenantId),
+]);
+
+// ============================================
+// WEBHOOK DELIVERIES
+// ============================================
+export const webhookDeliveries = sqliteTable('webhook_deliveries', {
+  deliveryId: text('delivery_id').primaryKey(),
+  endpointId: text('endpoint_id').notNull(),
+  tenantId: text('tenant_id').notNull(),
+  event: text('event', { mode: 'json' }).notNull().$type<Record<string, unknown>>(),
+  status: text('status').notNull(),
+  attempts: integer('attempts').notNull().default(0),
+  responseStatus: integer('response_status'),
+  error: text('error'),
+  replayOf: text('replay_of'),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+  deliveredAt: text('delivered_at'),
+}, (table) => [
+  index('webhook_deliveries_endpoint').on(table.endpointId, table.createdAt),
+]);
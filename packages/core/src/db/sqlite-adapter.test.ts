@@ -1,9 +1,13 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Database from 'better-sqlite3';
+import { drizzle } from 'drizzle-orm/better-sqlite3';
 import { SQLiteAdapter } from './sqlite-adapter.js';
+import * as schema from './schema.js';
 import type { CanonicalEntityRecord } from '../types/entity.js';
-import type { SyncProgress } from '../types/sync.js';
-import type { SIEFullData, SIEKPIs, SIEParseResult } from '../types/sie.js';
+import type { SyncJob, SyncProgress, SyncSchedule } from '../types/sync.js';
+import type { SIEFullData, SIEKPIs, SIEParseResult, SIETransaction } from '../types/sie.js';
 import type { ConnectionRecord } from '../types/database.js';
+import type { WebhookDelivery, WebhookEndpoint } from '../types/webhook.js';
 import { contentHash } from '../utils/hash.js';
 
 function makeEntity(overrides?: Partial<CanonicalEntityRecord>): CanonicalEntityRecord {
@@ -40,6 +44,35 @@ function makeConnection(overrides?: Partial<ConnectionRecord>): ConnectionRecord
   };
 }
 
+function makeSyncJob(overrides?: Partial<SyncJob>): SyncJob {
+  return {
+    connectionId: 'conn-1',
+    provider: 'fortnox',
+    credentials: { accessToken: 'test-token' },
+    ...overrides,
+  };
+}
+
+function makeSchedule(overrides?: Partial<SyncSchedule>): SyncSchedule {
+  return {
+    scheduleId: 'sched-1',
+    connectionId: 'conn-1',
+    provider: 'fortnox',
+    consentId: 'consent-1',
+    cronExpression: '0 3 * * *',
+    intervalMinutes: null,
+    includeSIE: true,
+    sieOptions: { sieType: 4 },
+    paused: false,
+    nextRunAt: '2024-03-16T03:00:00.000Z',
+    lastRunAt: null,
+    lastJobId: null,
+    createdAt: '2024-03-15T10:00:00.000Z',
+    updatedAt: '2024-03-15T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
 function makeSIEData(overrides?: Partial<SIEFullData>): SIEFullData {
   return {
     connectionId: 'conn-1',
@@ -175,6 +208,7 @@ describe('SQLiteAdapter', () => {
       expect(result.inserted).toBe(2);
       expect(result.updated).toBe(0);
       expect(result.unchanged).toBe(0);
+      expect(result.insertedIds).toEqual(['1001', '1002']);
     });
 
     it('detects unchanged entities by hash', async () => {
@@ -202,11 +236,12 @@ describe('SQLiteAdapter', () => {
       expect(result.inserted).toBe(0);
       expect(result.updated).toBe(1);
       expect(result.unchanged).toBe(0);
+      expect(result.updatedIds).toEqual(['1001']);
     });
 
     it('returns empty array for no entities', async () => {
       const result = await adapter.upsertEntities('conn-1', 'invoice', []);
-      expect(result).toEqual({ inserted: 0, updated: 0, unchanged: 0 });
+      expect(result).toEqual({ inserted: 0, updated: 0, unchanged: 0, insertedIds: [], updatedIds: [] });
     });
 
     it('retrieves entities with pagination', async () => {
@@ -266,6 +301,123 @@ describe('SQLiteAdapter', () => {
       const invoiceCount = await adapter.getEntityCount('conn-1', 'invoice');
       expect(invoiceCount).toBe(2);
     });
+
+    it('tombstones records missing from the live ID set and hides them by default', async () => {
+      await adapter.upsertEntities('conn-1', 'invoice', [
+        makeEntity({ external_id: '1001' }),
+        makeEntity({ external_id: '1002' }),
+        makeEntity({ external_id: '1003' }),
+      ]);
+      await adapter.upsertEntities('conn-1', 'customer', [
+        makeEntity({ external_id: 'C001', entity_type: 'customer' }),
+      ]);
+
+      const tombstoned = await adapter.tombstoneMissingEntities('conn-1', 'invoice', ['1001', '1003']);
+      expect(tombstoned).toBe(1);
+
+      const live = await adapter.getEntities('conn-1', 'invoice');
+      expect(live.map((e) => e.external_id)).toEqual(['1001', '1003']);
+      expect(await adapter.getEntityCount('conn-1')).toBe(3);
+      expect(await adapter.getEntityCount('conn-1', 'invoice', { includeDeleted: true })).toBe(3);
+
+      const all = await adapter.getEntities('conn-1', 'invoice', { includeDeleted: true });
+      expect(all.find((e) => e.external_id === '1002')!.deleted_at).toBeTruthy();
+
+      // Already tombstoned records are not counted twice
+      expect(await adapter.tombstoneMissingEntities('conn-1', 'invoice', ['1001', '1003'])).toBe(0);
+    });
+
+    it('restores a tombstoned record when it is upserted again', async () => {
+      const entity = makeEntity({ external_id: '1001' });
+      await adapter.upsertEntities('conn-1', 'invoice', [entity]);
+      await adapter.tombstoneMissingEntities('conn-1', 'invoice', []);
+
+      const result = await adapter.upsertEntities('conn-1', 'invoice', [entity]);
+      expect(result).toEqual({ inserted: 0, updated: 1, unchanged: 0, insertedIds: [], updatedIds: ['1001'] });
+
+      const [restored] = await adapter.getEntities('conn-1', 'invoice');
+      expect(restored!.deleted_at).toBeNull();
+    });
+  });
+
+  // ============================================
+  // Entity record versions
+  // ============================================
+
+  describe('entity versions', () => {
+    const credited = () => {
+      const raw = { DocumentNumber: '1001', Total: 5000, Credit: true };
+      return makeEntity({ status: 'credited', raw_data: raw, content_hash: contentHash(raw) });
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('appends a version for every insert, change, tombstone and restore', async () => {
+      vi.setSystemTime(new Date('2024-03-01T00:00:00Z'));
+      await adapter.upsertEntities('conn-1', 'invoice', [makeEntity()]);
+      await adapter.upsertEntities('conn-1', 'invoice', [makeEntity()]); // unchanged
+      vi.setSystemTime(new Date('2024-04-01T00:00:00Z'));
+      await adapter.upsertEntities('conn-1', 'invoice', [credited()]);
+      vi.setSystemTime(new Date('2024-05-01T00:00:00Z'));
+      await adapter.tombstoneMissingEntities('conn-1', 'invoice', []);
+      vi.setSystemTime(new Date('2024-06-01T00:00:00Z'));
+      await adapter.upsertEntities('conn-1', 'invoice', [credited()]);
+
+      const versions = await adapter.getEntityVersions('conn-1', 'invoice', '1001');
+      expect(versions.map((v) => [v.version, v.changeType, v.recordedAt])).toEqual([
+        [1, 'created', '2024-03-01T00:00:00.000Z'],
+        [2, 'updated', '2024-04-01T00:00:00.000Z'],
+        [3, 'deleted', '2024-05-01T00:00:00.000Z'],
+        [4, 'restored', '2024-06-01T00:00:00.000Z'],
+      ]);
+      expect(versions[0]!.record.status).toBe('booked');
+      expect(versions[1]!.record.raw_data).toEqual({ DocumentNumber: '1001', Total: 5000, Credit: true });
+      expect(versions[2]!.record.deleted_at).toBe('2024-05-01T00:00:00.000Z');
+      expect(versions[3]!.record.deleted_at).toBeNull();
+    });
+
+    it('returns records as they were at asOf', async () => {
+      vi.setSystemTime(new Date('2024-03-01T00:00:00Z'));
+      await adapter.upsertEntities('conn-1', 'invoice', [makeEntity()]);
+      vi.setSystemTime(new Date('2024-04-01T00:00:00Z'));
+      await adapter.upsertEntities('conn-1', 'invoice', [credited(), makeEntity({ external_id: '1002' })]);
+      vi.setSystemTime(new Date('2024-05-01T00:00:00Z'));
+      await adapter.tombstoneMissingEntities('conn-1', 'invoice', ['1002']);
+
+      const before = await adapter.getEntities('conn-1', 'invoice', { asOf: '2024-03-15T00:00:00Z' });
+      expect(before.map((e) => [e.external_id, e.status])).toEqual([['1001', 'booked']]);
+      expect(await adapter.getEntityCount('conn-1', 'invoice', { asOf: '2024-03-15T00:00:00Z' })).toBe(1);
+
+      const april = await adapter.getEntities('conn-1', 'invoice', { asOf: '2024-04-01T00:00:00.000Z' });
+      expect(april.map((e) => [e.external_id, e.status])).toEqual([
+        ['1001', 'credited'],
+        ['1002', 'booked'],
+      ]);
+
+      const may = await adapter.getEntities('conn-1', 'invoice', { asOf: '2024-05-15T00:00:00Z' });
+      expect(may.map((e) => e.external_id)).toEqual(['1002']);
+      const mayAll = await adapter.getEntities('conn-1', 'invoice', {
+        asOf: '2024-05-15T00:00:00Z',
+        includeDeleted: true,
+      });
+      expect(mayAll).toHaveLength(2);
+
+      expect(await adapter.getEntities('conn-1', 'invoice', { asOf: '2024-01-01T00:00:00Z' })).toEqual([]);
+    });
+
+    it('removes history when the connection is deleted', async () => {
+      await adapter.upsertConnection(makeConnection());
+      await adapter.upsertEntities('conn-1', 'invoice', [makeEntity()]);
+      await adapter.deleteConnection('conn-1');
+
+      expect(await adapter.getEntityVersions('conn-1', 'invoice', '1001')).toEqual([]);
+    });
   });
 
   // ============================================
@@ -404,6 +556,186 @@ describe('SQLiteAdapter', () => {
     });
   });
 
+  // ============================================
+  // Sync Job Queue
+  // ============================================
+
+  describe('sync job queue', () => {
+    it('enqueues a pending job with its payload', async () => {
+      const job = makeSyncJob({ entityTypes: ['invoice'] });
+      const record = await adapter.enqueueSyncJob('job-1', job);
+
+      expect(record.status).toBe('pending');
+      expect(record.attempts).toBe(0);
+      expect(record.cancelRequested).toBe(false);
+      expect((await adapter.getSyncJob('job-1'))!.job).toEqual(job);
+    });
+
+    it('claims jobs oldest first and leases them to the worker', async () => {
+      await adapter.enqueueSyncJob('job-1', makeSyncJob());
+      await adapter.enqueueSyncJob('job-2', makeSyncJob({ connectionId: 'conn-2' }));
+
+      const claimed = await adapter.claimSyncJob('worker-a', 30_000);
+      expect(claimed!.jobId).toBe('job-1');
+      expect(claimed!.status).toBe('running');
+      expect(claimed!.workerId).toBe('worker-a');
+      expect(claimed!.attempts).toBe(1);
+      expect(claimed!.leaseExpiresAt! > new Date().toISOString()).toBe(true);
+    });
+
+    it('never runs two jobs for the same connection at once', async () => {
+      await adapter.enqueueSyncJob('job-1', makeSyncJob());
+      await adapter.enqueueSyncJob('job-2', makeSyncJob());
+      await adapter.enqueueSyncJob('job-3', makeSyncJob({ connectionId: 'conn-2' }));
+
+      expect((await adapter.claimSyncJob('worker-a', 30_000))!.jobId).toBe('job-1');
+      expect((await adapter.claimSyncJob('worker-b', 30_000))!.jobId).toBe('job-3');
+      expect(await adapter.claimSyncJob('worker-c', 30_000)).toBeNull();
+
+      await adapter.completeSyncJob('job-1', 'worker-a', 'completed');
+      expect((await adapter.claimSyncJob('worker-c', 30_000))!.jobId).toBe('job-2');
+    });
+
+    it('only extends the lease for the owning worker', async () => {
+      await adapter.enqueueSyncJob('job-1', makeSyncJob());
+      await adapter.claimSyncJob('worker-a', 30_000);
+
+      expect(await adapter.heartbeatSyncJob('job-1', 'worker-b', 30_000)).toBeNull();
+      const beat = await adapter.heartbeatSyncJob('job-1', 'worker-a', 30_000);
+      expect(beat!.heartbeatAt).not.toBeNull();
+    });
+
+    it('drops inline credentials once a job finishes', async () => {
+      await adapter.enqueueSyncJob('job-1', makeSyncJob());
+      await adapter.enqueueSyncJob('job-2', makeSyncJob({ connectionId: 'conn-2' }));
+      await adapter.claimSyncJob('worker-a', 30_000);
+
+      await adapter.completeSyncJob('job-1', 'worker-a', 'completed');
+      await adapter.requestSyncJobCancel('job-2');
+
+      for (const jobId of ['job-1', 'job-2']) {
+        const { job } = (await adapter.getSyncJob(jobId))!;
+        expect(job.credentials).toBeUndefined();
+        expect(job.connectionId).toBeDefined();
+      }
+    });
+
+    it('cancels pending jobs outright and flags running ones', async () => {
+      await adapter.enqueueSyncJob('job-1', makeSyncJob());
+      await adapter.enqueueSyncJob('job-2', makeSyncJob({ connectionId: 'conn-2' }));
+      await adapter.claimSyncJob('worker-a', 30_000);
+
+      const running = await adapter.requestSyncJobCancel('job-1');
+      expect(running!.status).toBe('running');
+      expect(running!.cancelRequested).toBe(true);
+
+      const pending = await adapter.requestSyncJobCancel('job-2');
+      expect(pending!.status).toBe('cancelled');
+      expect(await adapter.claimSyncJob('worker-b', 30_000)).toBeNull();
+
+      expect(await adapter.requestSyncJobCancel('nonexistent')).toBeNull();
+    });
+
+    it('re-queues jobs whose lease expired', async () => {
+      await adapter.enqueueSyncJob('job-1', makeSyncJob());
+      await adapter.claimSyncJob('worker-a', -1000);
+
+      const recovered = await adapter.recoverStaleSyncJobs(3);
+      expect(recovered).toHaveLength(1);
+      expect(recovered[0]!.status).toBe('pending');
+      expect(recovered[0]!.workerId).toBeNull();
+
+      // The stale worker can no longer heartbeat or complete the job
+      expect(await adapter.heartbeatSyncJob('job-1', 'worker-a', 30_000)).toBeNull();
+      const reclaimed = await adapter.claimSyncJob('worker-b', 30_000);
+      expect(reclaimed!.attempts).toBe(2);
+    });
+
+    it('fails stuck jobs once attempts are exhausted', async () => {
+      await adapter.enqueueSyncJob('job-1', makeSyncJob());
+      await adapter.claimSyncJob('worker-a', -1000);
+
+      const recovered = await adapter.recoverStaleSyncJobs(1);
+      expect(recovered[0]!.status).toBe('failed');
+      expect(recovered[0]!.error).toContain('lease expired');
+      expect(await adapter.recoverStaleSyncJobs(1)).toHaveLength(0);
+    });
+
+    it('leaves jobs with a live lease alone', async () => {
+      await adapter.enqueueSyncJob('job-1', makeSyncJob());
+      await adapter.claimSyncJob('worker-a', 30_000);
+
+      expect(await adapter.recoverStaleSyncJobs(3)).toHaveLength(0);
+    });
+  });
+
+  // ============================================
+  // Sync Schedules
+  // ============================================
+
+  describe('sync schedules', () => {
+    it('upserts and retrieves a schedule', async () => {
+      await adapter.upsertSyncSchedule(makeSchedule());
+      await adapter.upsertSyncSchedule(makeSchedule({ paused: true, updatedAt: '2024-03-15T11:00:00.000Z' }));
+
+      const result = await adapter.getSyncSchedule('sched-1');
+      expect(result).toEqual(makeSchedule({ paused: true, updatedAt: '2024-03-15T11:00:00.000Z' }));
+    });
+
+    it('lists schedules, optionally by connection', async () => {
+      await adapter.upsertSyncSchedule(makeSchedule());
+      await adapter.upsertSyncSchedule(makeSchedule({ scheduleId: 'sched-2', connectionId: 'conn-2' }));
+
+      expect(await adapter.getSyncSchedules()).toHaveLength(2);
+      const forConn = await adapter.getSyncSchedules({ connectionId: 'conn-2' });
+      expect(forConn.map((s) => s.scheduleId)).toEqual(['sched-2']);
+    });
+
+    it('returns only unpaused schedules that are due', async () => {
+      await adapter.upsertSyncSchedule(makeSchedule({ scheduleId: 'due', nextRunAt: '2024-03-16T02:00:00.000Z' }));
+      await adapter.upsertSyncSchedule(makeSchedule({ scheduleId: 'later' }));
+      await adapter.upsertSyncSchedule(makeSchedule({ scheduleId: 'paused', paused: true, nextRunAt: '2024-03-16T01:00:00.000Z' }));
+
+      const due = await adapter.getDueSyncSchedules('2024-03-16T02:30:00.000Z');
+      expect(due.map((s) => s.scheduleId)).toEqual(['due']);
+    });
+
+    it('records a run only when nextRunAt is unchanged', async () => {
+      await adapter.upsertSyncSchedule(makeSchedule());
+      const run = { lastRunAt: '2024-03-16T03:00:10.000Z', lastJobId: 'job-1', nextRunAt: '2024-03-17T03:00:00.000Z' };
+
+      expect(await adapter.recordSyncScheduleRun('sched-1', '2024-03-16T03:00:00.000Z', run)).toBe(true);
+      expect(await adapter.recordSyncScheduleRun('sched-1', '2024-03-16T03:00:00.000Z', run)).toBe(false);
+
+      const result = await adapter.getSyncSchedule('sched-1');
+      expect(result!.lastJobId).toBe('job-1');
+      expect(result!.nextRunAt).toBe('2024-03-17T03:00:00.000Z');
+    });
+
+    it('pauses and resumes without touching the recorded run', async () => {
+      await adapter.upsertSyncSchedule(makeSchedule());
+      const run = { lastRunAt: '2024-03-16T03:00:10.000Z', lastJobId: 'job-1', nextRunAt: '2024-03-17T03:00:00.000Z' };
+      await adapter.recordSyncScheduleRun('sched-1', '2024-03-16T03:00:00.000Z', run);
+
+      expect(await adapter.setSyncSchedulePaused('sched-1', { paused: true })).toBe(true);
+      expect(await adapter.getSyncSchedule('sched-1')).toMatchObject({ paused: true, ...run });
+
+      await adapter.setSyncSchedulePaused('sched-1', { paused: false, nextRunAt: '2024-03-20T03:00:00.000Z' });
+      expect(await adapter.getSyncSchedule('sched-1')).toMatchObject({
+        paused: false,
+        lastJobId: 'job-1',
+        nextRunAt: '2024-03-20T03:00:00.000Z',
+      });
+      expect(await adapter.setSyncSchedulePaused('missing', { paused: true })).toBe(false);
+    });
+
+    it('deletes a schedule', async () => {
+      await adapter.upsertSyncSchedule(makeSchedule());
+      await adapter.deleteSyncSchedule('sched-1');
+      expect(await adapter.getSyncSchedule('sched-1')).toBeNull();
+    });
+  });
+
   // ============================================
   // SIE Data
   // ============================================
@@ -454,6 +786,173 @@ describe('SQLiteAdapter', () => {
       const result = await adapter.getSIEData('nonexistent');
       expect(result).toBeNull();
     });
+
+    const transaction = (overrides: Partial<SIETransaction>): SIETransaction => ({
+      verificationSeries: 'A',
+      verificationNumber: '1',
+      verificationDate: '20240115',
+      verificationText: 'Försäljning',
+      accountNumber: '1930',
+      amount: 1000,
+      costCenter: '',
+      project: '',
+      objects: [],
+      rowText: '',
+      ...overrides,
+    });
+
+    function makeLedgerData(): SIEFullData {
+      const data = makeSIEData();
+      data.parsed = {
+        ...data.parsed,
+        accounts: [
+          { accountNumber: '1930', accountName: 'Företagskonto', accountGroup: '1 - Tillgångar' },
+          { accountNumber: '3010', accountName: 'Försäljning', accountGroup: '3 - Intäkter', taxCode: '7410' },
+        ],
+        balances: [
+          { accountNumber: '1930', balanceType: 'IB', yearIndex: 0, amount: 5000 },
+          { accountNumber: '1930', balanceType: 'UB', yearIndex: 0, amount: 6000 },
+          { accountNumber: '3010', balanceType: 'RES', yearIndex: 0, amount: -1000, quantity: 2 },
+        ],
+        transactions: [
+          transaction({}),
+          transaction({
+            accountNumber: '3010',
+            amount: -1000,
+            costCenter: '10',
+            objects: [{ dimensionType: 1, code: '10' }],
+            rowText: 'Faktura 1001',
+            quantity: 2,
+          }),
+          transaction({ verificationNumber: '2', verificationDate: '20240301', registrationDate: '20240302' }),
+        ],
+      };
+      return data;
+    }
+
+    it('stores accounts, balances and transactions in their own tables', async () => {
+      const data = makeLedgerData();
+      const uploadId = await adapter.storeSIEData('conn-1', data);
+
+      const retrieved = await adapter.getSIEData(uploadId);
+      expect(retrieved!.parsed).toEqual(data.parsed);
+
+      const sqlite = (adapter as unknown as { sqlite: Database.Database }).sqlite;
+      const { parsed } = sqlite.prepare('SELECT parsed FROM sie_data').get() as { parsed: string };
+      expect(Object.keys(JSON.parse(parsed))).not.toContain('transactions');
+      expect(sqlite.prepare('SELECT count(*) AS n FROM sie_transactions').get()).toEqual({ n: 3 });
+    });
+
+    it('replaces the rows of an upload', async () => {
+      const uploadId = await adapter.storeSIEData('conn-1', makeLedgerData());
+      const data = makeLedgerData();
+      data.parsed.transactions = data.parsed.transactions.slice(0, 2);
+      await adapter.storeSIEData('conn-1', data);
+
+      expect((await adapter.getSIEData(uploadId))!.parsed.transactions).toHaveLength(2);
+      expect(await adapter.getSIETransactionCount('conn-1')).toBe(2);
+      expect(await adapter.getSIEBalances('conn-1')).toHaveLength(3);
+    });
+
+    it('filters and pages stored transactions', async () => {
+      const uploadId = await adapter.storeSIEData('conn-1', makeLedgerData());
+      await adapter.storeSIEData('conn-1', { ...makeLedgerData(), fiscalYear: 2023 });
+
+      const march = await adapter.getSIETransactions('conn-1', { fiscalYear: 2024, fromDate: '2024-02-01' });
+      expect(march).toHaveLength(1);
+      expect(march[0]).toMatchObject({ uploadId, fiscalYear: 2024, verificationNumber: '2', registrationDate: '20240302' });
+
+      expect(await adapter.getSIETransactionCount('conn-1', { fromAccount: '3000', toAccount: '3999' })).toBe(2);
+      expect(await adapter.getSIETransactions('conn-1', { costCenter: '10', fiscalYear: 2023 })).toHaveLength(1);
+      expect(await adapter.getSIETransactions('conn-1', { toDate: '2024-01-15', pageSize: 3, page: 2 })).toHaveLength(1);
+      expect(await adapter.getSIETransactions('conn-2')).toHaveLength(0);
+    });
+
+    it('sums stored transactions per account', async () => {
+      await adapter.storeSIEData('conn-1', makeLedgerData());
+
+      expect(await adapter.getSIETransactionTotals('conn-1')).toEqual([
+        { accountNumber: '1930', amount: 2000, count: 2 },
+        { accountNumber: '3010', amount: -1000, count: 1 },
+      ]);
+      const january = await adapter.getSIETransactionTotals('conn-1', { toDate: '2024-01-31', accountNumbers: ['1930'] });
+      expect(january).toEqual([{ accountNumber: '1930', amount: 1000, count: 1 }]);
+    });
+
+    it('pages whole vouchers that have a matching row', async () => {
+      const data = makeLedgerData();
+      data.parsed.transactions.push(
+        transaction({ verificationNumber: '10', verificationDate: '20240401' }),
+        transaction({ verificationNumber: '9', verificationDate: '20240402' }),
+      );
+      const uploadId = await adapter.storeSIEData('conn-1', data);
+
+      const firstPage = await adapter.getSIEVoucherRows('conn-1', { uploadId, pageSize: 3 });
+      expect(firstPage.map((t) => t.verificationNumber)).toEqual(['1', '1', '2', '9']);
+      const secondPage = await adapter.getSIEVoucherRows('conn-1', { uploadId, pageSize: 3, page: 2 });
+      expect(secondPage.map((t) => t.verificationNumber)).toEqual(['10']);
+      expect(await adapter.getSIEVoucherCount('conn-1', { uploadId })).toBe(4);
+
+      const byCostCenter = await adapter.getSIEVoucherRows('conn-1', { uploadId, costCenter: '10' });
+      expect(byCostCenter.map((t) => t.accountNumber)).toEqual(['1930', '3010']);
+      expect(await adapter.getSIEVoucherCount('conn-1', { uploadId, costCenter: '10' })).toBe(1);
+    });
+
+    it('filters stored balances', async () => {
+      await adapter.storeSIEData('conn-1', makeLedgerData());
+
+      const balances = await adapter.getSIEBalances('conn-1', { fiscalYear: 2024, balanceType: 'RES', yearIndex: 0 });
+      expect(balances).toEqual([
+        { accountNumber: '3010', balanceType: 'RES', yearIndex: 0, amount: -1000, quantity: 2, uploadId: expect.any(String), fiscalYear: 2024 },
+      ]);
+      expect(await adapter.getSIEBalances('conn-1', { toAccount: '1999' })).toHaveLength(2);
+    });
+
+    it('reads accounts and metadata of an upload without its rows', async () => {
+      const data = makeLedgerData();
+      const uploadId = await adapter.storeSIEData('conn-1', data);
+
+      expect(await adapter.getSIEMetadata(uploadId)).toEqual(data.parsed.metadata);
+      expect(await adapter.getSIEMetadata('missing')).toBeNull();
+      const accounts = await adapter.getSIEAccounts('conn-1', { uploadId, fromAccount: '3000' });
+      expect(accounts).toEqual([
+        { accountNumber: '3010', accountName: 'Försäljning', accountGroup: '3 - Intäkter', taxCode: '7410' },
+      ]);
+    });
+
+    it('removes stored rows with their connection', async () => {
+      await adapter.storeSIEData('conn-1', makeLedgerData());
+      await adapter.deleteConnection('conn-1');
+
+      expect(await adapter.getSIETransactionCount('conn-1')).toBe(0);
+      expect(await adapter.getSIEBalances('conn-1')).toHaveLength(0);
+    });
+  });
+
+  describe('SIE budgets', () => {
+    const budget = {
+      connectionId: 'conn-1',
+      fiscalYear: 2024,
+      source: 'sie' as const,
+      lines: [{ accountNumber: '3010', period: '202401', amount: -50000 }],
+      updatedAt: '2024-02-01T00:00:00.000Z',
+    };
+
+    it('stores and replaces the budget for a fiscal year', async () => {
+      await adapter.storeSIEBudget(budget);
+      expect(await adapter.getSIEBudget('conn-1', 2024)).toEqual(budget);
+
+      const csv = { ...budget, source: 'csv' as const, fileName: 'budget.csv', lines: [{ accountNumber: '5010', amount: 120000 }] };
+      await adapter.storeSIEBudget(csv);
+      expect(await adapter.getSIEBudget('conn-1', 2024)).toEqual(csv);
+      expect(await adapter.getSIEBudget('conn-1', 2023)).toBeNull();
+    });
+
+    it('removes budgets with their connection', async () => {
+      await adapter.storeSIEBudget(budget);
+      await adapter.deleteConnection('conn-1');
+      expect(await adapter.getSIEBudget('conn-1', 2024)).toBeNull();
+    });
   });
 
   // ============================================
@@ -461,11 +960,179 @@ describe('SQLiteAdapter', () => {
   // ============================================
 
   describe('migration', () => {
+    it('moves the rows of older SIE uploads out of sie_data', async () => {
+      const data = makeSIEData();
+      data.parsed.transactions = [
+        {
+          verificationSeries: 'A',
+          verificationNumber: '1',
+          verificationDate: '2024-01-15',
+          verificationText: 'Test',
+          accountNumber: '1910',
+          amount: 1000,
+          costCenter: '',
+          project: '',
+          objects: [],
+          rowText: '',
+        },
+      ];
+      const uploadId = await adapter.storeSIEData('conn-1', data);
+
+      // Put the upload back the way it was stored before the SIE tables existed
+      const sqlite = (adapter as unknown as { sqlite: Database.Database }).sqlite;
+      sqlite.prepare('UPDATE sie_data SET parsed = ?').run(JSON.stringify(data.parsed));
+      sqlite.exec('DELETE FROM sie_accounts; DELETE FROM sie_balances; DELETE FROM sie_transactions');
+
+      await adapter.migrate();
+      await adapter.migrate();
+
+      const retrieved = await adapter.getSIEData(uploadId);
+      expect(retrieved!.parsed.accounts).toEqual(data.parsed.accounts);
+      expect(retrieved!.parsed.transactions).toEqual([{ ...data.parsed.transactions[0], verificationDate: '20240115' }]);
+      expect(await adapter.getSIETransactionCount('conn-1', { fiscalYear: 2024 })).toBe(1);
+    });
+
     it('can be called multiple times without error', async () => {
       await adapter.migrate();
       await adapter.migrate();
       // Should not throw
     });
+
+    it('adds the checkpoint column to an existing sync_state table', async () => {
+      const sqlite = new Database(':memory:');
+      sqlite.exec(`CREATE TABLE sync_state (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        connection_id TEXT NOT NULL,
+        entity_type TEXT NOT NULL,
+        last_sync_at TEXT,
+        last_modified_cursor TEXT,
+        records_fetched INTEGER NOT NULL DEFAULT 0,
+        records_updated INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        last_error_at TEXT
+      )`);
+      const legacy = new SQLiteAdapter(drizzle(sqlite, { schema }));
+      await legacy.migrate();
+
+      await legacy.updateSyncState('conn-1', 'invoice', {
+        checkpoint: {
+          page: 3,
+          baseCursor: null,
+          latestModified: null,
+          recordsFetched: 300,
+          recordsInserted: 300,
+          recordsUpdated: 0,
+          recordsUnchanged: 0,
+        },
+      });
+      const state = await legacy.getSyncState('conn-1', 'invoice');
+      expect(state!.checkpoint!.page).toBe(3);
+    });
+
+    it('seeds version history for records stored before versioning', async () => {
+      await adapter.upsertEntities('conn-1', 'invoice', [makeEntity()]);
+      const sqlite = (adapter as unknown as { sqlite: Database.Database }).sqlite;
+      sqlite.exec('DELETE FROM entity_record_versions');
+      const { updated_at: updatedAt } = sqlite
+        .prepare('SELECT updated_at FROM entity_records')
+        .get() as { updated_at: string };
+
+      await adapter.migrate();
+      await adapter.migrate();
+
+      const versions = await adapter.getEntityVersions('conn-1', 'invoice', '1001');
+      expect(versions).toHaveLength(1);
+      expect(versions[0]).toMatchObject({ version: 1, changeType: 'created', recordedAt: updatedAt });
+      expect(versions[0]!.record.raw_data).toEqual({ DocumentNumber: '1001', Total: 5000 });
+    });
+  });
+
+  // ============================================
+  // Webhooks
+  // ============================================
+
+  describe('webhooks', () => {
+    function makeEndpoint(overrides?: Partial<WebhookEndpoint>): WebhookEndpoint {
+      return {
+        endpointId: 'wh-1',
+        tenantId: 'tenant-1',
+        url: 'https://example.com/hooks',
+        secret: 'whsec_test',
+        events: ['sync.completed', 'sync.failed'],
+        description: null,
+        active: true,
+        createdAt: '2024-03-15T10:00:00Z',
+        updatedAt: '2024-03-15T10:00:00Z',
+        ...overrides,
+      };
+    }
+
+    function makeDelivery(overrides?: Partial<WebhookDelivery>): WebhookDelivery {
+      return {
+        deliveryId: 'del-1',
+        endpointId: 'wh-1',
+        tenantId: 'tenant-1',
+        event: {
+          id: 'evt-1',
+          type: 'sync.completed',
+          createdAt: '2024-03-15T10:00:00Z',
+          data: { jobId: 'job-1' },
+        },
+        status: 'pending',
+        attempts: 0,
+        responseStatus: null,
+        error: null,
+        replayOf: null,
+        createdAt: '2024-03-15T10:00:00Z',
+        updatedAt: '2024-03-15T10:00:00Z',
+        deliveredAt: null,
+        ...overrides,
+      };
+    }
+
+    it('stores, updates and lists endpoints per tenant', async () => {
+      await adapter.upsertWebhookEndpoint(makeEndpoint());
+      await adapter.upsertWebhookEndpoint(makeEndpoint({ endpointId: 'wh-2', tenantId: 'tenant-2' }));
+      await adapter.upsertWebhookEndpoint(makeEndpoint({ active: false, events: ['entity.changed'] }));
+
+      const endpoint = await adapter.getWebhookEndpoint('wh-1');
+      expect(endpoint).toEqual(makeEndpoint({ active: false, events: ['entity.changed'] }));
+
+      const endpoints = await adapter.getWebhookEndpoints('tenant-1');
+      expect(endpoints.map((e) => e.endpointId)).toEqual(['wh-1']);
+    });
+
+    it('records delivery attempts and lists newest first', async () => {
+      await adapter.upsertWebhookEndpoint(makeEndpoint());
+      await adapter.upsertWebhookDelivery(makeDelivery());
+      await adapter.upsertWebhookDelivery(
+        makeDelivery({ deliveryId: 'del-2', createdAt: '2024-03-15T11:00:00Z', replayOf: 'del-1' }),
+      );
+      await adapter.upsertWebhookDelivery(
+        makeDelivery({ status: 'failed', attempts: 3, responseStatus: 500, error: 'HTTP 500' }),
+      );
+
+      const delivery = await adapter.getWebhookDelivery('del-1');
+      expect(delivery).toMatchObject({ status: 'failed', attempts: 3, responseStatus: 500 });
+      expect(delivery!.event.data).toEqual({ jobId: 'job-1' });
+
+      const deliveries = await adapter.getWebhookDeliveries('wh-1');
+      expect(deliveries.map((d) => [d.deliveryId, d.replayOf])).toEqual([
+        ['del-2', 'del-1'],
+        ['del-1', null],
+      ]);
+      expect(await adapter.getWebhookDeliveries('wh-1', 1)).toHaveLength(1);
+    });
+
+    it('deletes an endpoint together with its delivery log', async () => {
+      await adapter.upsertWebhookEndpoint(makeEndpoint());
+      await adapter.upsertWebhookDelivery(makeDelivery());
+
+      await adapter.deleteWebhookEndpoint('wh-1');
+
+      expect(await adapter.getWebhookEndpoint('wh-1')).toBeNull();
+      expect(await adapter.getWebhookDelivery('del-1')).toBeNull();
+    });
   });
 
   // ============================================
@@ -639,6 +1306,27 @@ describe('SQLiteAdapter', () => {
       expect(result!.refreshToken).toBe('new-refresh-token');
     });
 
+    // --- replaceConsentTokens ---
+
+    it('replaceConsentTokens only overwrites the tokens it expects', async () => {
+      await adapter.upsertConsent(makeConsent());
+      await adapter.storeConsentTokens(makeTokens());
+      const rotated = makeTokens({ accessToken: 'access-2', refreshToken: 'refresh-2' });
+
+      expect(await adapter.replaceConsentTokens(rotated, {
+        accessToken: 'access-token-abc',
+        refreshToken: 'refresh-token-xyz',
+      })).toBe(true);
+      expect(await adapter.replaceConsentTokens(makeTokens({ accessToken: 'access-3' }), {
+        accessToken: 'access-token-abc',
+        refreshToken: 'refresh-token-xyz',
+      })).toBe(false);
+
+      const result = await adapter.getConsentTokens('consent-1');
+      expect(result!.accessToken).toBe('access-2');
+      expect(result!.refreshToken).toBe('refresh-2');
+    });
+
     // --- getConsentTokens ---
 
     it('getConsentTokens returns null when no tokens stored', async () => {
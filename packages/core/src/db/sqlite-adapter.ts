@@ -1,19 +1,61 @@
 import Database from 'better-sqlite3';
 import { drizzle, type BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
-import { eq, and, sql, desc, asc, gte, lte } from 'drizzle-orm';
+import { eq, and, sql, desc, asc, gte, lte, lt, inArray, isNull } from 'drizzle-orm';
 import type {
   DatabaseAdapter,
   UpsertResult,
   GetEntitiesOptions,
+  GetSIETransactionsOptions,
+  GetSIEAccountsOptions,
+  GetSIEBalancesOptions,
+  SIEAccountTotal,
   ConnectionRecord,
 } from '../types/database.js';
-import type { CanonicalEntityRecord, EntityType } from '../types/entity.js';
-import type { SyncProgress, SyncState } from '../types/sync.js';
-import type { SIEUpload, SIEFullData } from '../types/sie.js';
+import type {
+  CanonicalEntityRecord,
+  EntityChangeType,
+  EntityRecordVersion,
+  EntityType,
+} from '../types/entity.js';
+import type {
+  SyncCheckpoint,
+  SyncJob,
+  SyncJobRecord,
+  SyncProgress,
+  SyncSchedule,
+  SyncState,
+  SyncStatus,
+} from '../types/sync.js';
+import type {
+  SIEUpload,
+  SIEFullData,
+  SIEBudgetRecord,
+  SIEAccount,
+  SIEMetadata,
+  SIEBalance,
+  SIETransaction,
+  SIEStoredBalance,
+  SIEStoredTransaction,
+} from '../types/sie.js';
 import type { ProviderName } from '../types/provider.js';
-import type { ConsentRecord, ConsentTokenRecord, OneTimeCode, ConsentStatus } from '../types/consent.js';
+import type { ConsentRecord, ConsentTokenRecord, OneTimeCode } from '../types/consent.js';
+import { ConsentStatus } from '../types/consent.js';
+import type {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEndpoint,
+  WebhookEvent,
+  WebhookEventType,
+} from '../types/webhook.js';
 import * as schema from './schema.js';
 
+/** Rows per multi-row INSERT, well below SQLite's limit on bound parameters */
+const INSERT_CHUNK_SIZE = 500;
+
+function* chunks<T>(rows: T[]): Generator<T[]> {
+  for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) yield rows.slice(i, i + INSERT_CHUNK_SIZE);
+}
+
 export class SQLiteAdapter implements DatabaseAdapter {
   private readonly db: BetterSQLite3Database<typeof schema>;
   private readonly sqlite: Database.Database | null;
@@ -60,6 +102,7 @@ export class SQLiteAdapter implements DatabaseAdapter {
         raw_data TEXT NOT NULL,
         last_modified TEXT,
         content_hash TEXT NOT NULL,
+        deleted_at TEXT,
         created_at TEXT NOT NULL,
         updated_at TEXT NOT NULL
       )`,
@@ -68,6 +111,30 @@ export class SQLiteAdapter implements DatabaseAdapter {
       `CREATE INDEX IF NOT EXISTS entity_records_connection_type ON entity_records (connection_id, entity_type)`,
       `CREATE INDEX IF NOT EXISTS entity_records_document_date ON entity_records (document_date)`,
       `CREATE INDEX IF NOT EXISTS entity_records_connection_type_fy ON entity_records (connection_id, entity_type, fiscal_year)`,
+      `CREATE TABLE IF NOT EXISTS entity_record_versions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        connection_id TEXT NOT NULL,
+        entity_type TEXT NOT NULL,
+        external_id TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        change_type TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        fiscal_year INTEGER,
+        document_date TEXT,
+        due_date TEXT,
+        counterparty_number TEXT,
+        counterparty_name TEXT,
+        amount REAL,
+        currency TEXT NOT NULL DEFAULT 'SEK',
+        status TEXT,
+        raw_data TEXT NOT NULL,
+        last_modified TEXT,
+        content_hash TEXT NOT NULL,
+        deleted_at TEXT,
+        recorded_at TEXT NOT NULL
+      )`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS entity_record_versions_unique ON entity_record_versions (connection_id, entity_type, external_id, version)`,
+      `CREATE INDEX IF NOT EXISTS entity_record_versions_recorded ON entity_record_versions (connection_id, entity_type, recorded_at)`,
       `CREATE TABLE IF NOT EXISTS sync_state (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
         connection_id TEXT NOT NULL,
@@ -77,7 +144,8 @@ export class SQLiteAdapter implements DatabaseAdapter {
         records_fetched INTEGER NOT NULL DEFAULT 0,
         records_updated INTEGER NOT NULL DEFAULT 0,
         last_error TEXT,
-        last_error_at TEXT
+        last_error_at TEXT,
+        checkpoint TEXT
       )`,
       `CREATE UNIQUE INDEX IF NOT EXISTS sync_state_unique ON sync_state (connection_id, entity_type)`,
       `CREATE TABLE IF NOT EXISTS sync_progress (
@@ -93,6 +161,42 @@ export class SQLiteAdapter implements DatabaseAdapter {
         completed_at TEXT,
         total_duration_ms INTEGER
       )`,
+      `CREATE TABLE IF NOT EXISTS sync_jobs (
+        job_id TEXT PRIMARY KEY,
+        connection_id TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        status TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        worker_id TEXT,
+        lease_expires_at TEXT,
+        heartbeat_at TEXT,
+        cancel_requested INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS sync_jobs_status ON sync_jobs (status, created_at)`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS sync_jobs_running_connection ON sync_jobs (connection_id) WHERE status = 'running'`,
+      `CREATE TABLE IF NOT EXISTS sync_schedules (
+        schedule_id TEXT PRIMARY KEY,
+        connection_id TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        consent_id TEXT NOT NULL,
+        cron_expression TEXT,
+        interval_minutes INTEGER,
+        entity_types TEXT,
+        include_sie INTEGER NOT NULL DEFAULT 0,
+        sie_options TEXT,
+        paused INTEGER NOT NULL DEFAULT 0,
+        next_run_at TEXT,
+        last_run_at TEXT,
+        last_job_id TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS sync_schedules_connection ON sync_schedules (connection_id)`,
+      `CREATE INDEX IF NOT EXISTS sync_schedules_next_run ON sync_schedules (paused, next_run_at)`,
       `CREATE TABLE IF NOT EXISTS sie_uploads (
         upload_id TEXT PRIMARY KEY,
         connection_id TEXT NOT NULL,
@@ -111,8 +215,65 @@ export class SQLiteAdapter implements DatabaseAdapter {
         sie_type INTEGER NOT NULL,
         parsed TEXT NOT NULL,
         kpis TEXT NOT NULL,
-        raw_content TEXT
+        raw_content TEXT,
+        validation TEXT
+      )`,
+      `CREATE TABLE IF NOT EXISTS sie_accounts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        upload_id TEXT NOT NULL,
+        connection_id TEXT NOT NULL,
+        fiscal_year INTEGER NOT NULL,
+        account_number TEXT NOT NULL,
+        account_name TEXT NOT NULL,
+        account_group TEXT NOT NULL,
+        tax_code TEXT
+      )`,
+      `CREATE INDEX IF NOT EXISTS sie_accounts_upload ON sie_accounts (upload_id)`,
+      `CREATE INDEX IF NOT EXISTS sie_accounts_account ON sie_accounts (connection_id, fiscal_year, account_number)`,
+      `CREATE TABLE IF NOT EXISTS sie_balances (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        upload_id TEXT NOT NULL,
+        connection_id TEXT NOT NULL,
+        fiscal_year INTEGER NOT NULL,
+        account_number TEXT NOT NULL,
+        balance_type TEXT NOT NULL,
+        year_index INTEGER NOT NULL,
+        amount REAL NOT NULL,
+        quantity REAL
+      )`,
+      `CREATE INDEX IF NOT EXISTS sie_balances_upload ON sie_balances (upload_id)`,
+      `CREATE INDEX IF NOT EXISTS sie_balances_account ON sie_balances (connection_id, fiscal_year, account_number)`,
+      `CREATE TABLE IF NOT EXISTS sie_transactions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        upload_id TEXT NOT NULL,
+        connection_id TEXT NOT NULL,
+        fiscal_year INTEGER NOT NULL,
+        verification_series TEXT NOT NULL,
+        verification_number TEXT NOT NULL,
+        verification_date TEXT NOT NULL,
+        verification_text TEXT NOT NULL,
+        registration_date TEXT,
+        account_number TEXT NOT NULL,
+        amount REAL NOT NULL,
+        cost_center TEXT NOT NULL,
+        project TEXT NOT NULL,
+        objects TEXT NOT NULL,
+        row_text TEXT NOT NULL,
+        quantity REAL
+      )`,
+      `CREATE INDEX IF NOT EXISTS sie_transactions_upload ON sie_transactions (upload_id)`,
+      `CREATE INDEX IF NOT EXISTS sie_transactions_account ON sie_transactions (connection_id, fiscal_year, account_number)`,
+      `CREATE INDEX IF NOT EXISTS sie_transactions_date ON sie_transactions (connection_id, fiscal_year, verification_date)`,
+      `CREATE TABLE IF NOT EXISTS sie_budgets (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        connection_id TEXT NOT NULL,
+        fiscal_year INTEGER NOT NULL,
+        source TEXT NOT NULL,
+        file_name TEXT,
+        lines TEXT NOT NULL,
+        updated_at TEXT NOT NULL
       )`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS sie_budgets_unique ON sie_budgets (connection_id, fiscal_year)`,
       `CREATE TABLE IF NOT EXISTS consents (
         id TEXT PRIMARY KEY,
         tenant_id TEXT NOT NULL,
@@ -145,11 +306,116 @@ export class SQLiteAdapter implements DatabaseAdapter {
         used_at TEXT
       )`,
       `CREATE INDEX IF NOT EXISTS otc_consent ON one_time_codes (consent_id)`,
+      `CREATE TABLE IF NOT EXISTS webhook_endpoints (
+        endpoint_id TEXT PRIMARY KEY,
+        tenant_id TEXT NOT NULL,
+        url TEXT NOT NULL,
+        secret TEXT NOT NULL,
+        events TEXT NOT NULL,
+        description TEXT,
+        active INTEGER NOT NULL DEFAULT 1,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS webhook_endpoints_tenant ON webhook_endpoints (tenant_id)`,
+      `CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        delivery_id TEXT PRIMARY KEY,
+        endpoint_id TEXT NOT NULL,
+        tenant_id TEXT NOT NULL,
+        event TEXT NOT NULL,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        response_status INTEGER,
+        error TEXT,
+        replay_of TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        delivered_at TEXT
+      )`,
+      `CREATE INDEX IF NOT EXISTS webhook_deliveries_endpoint ON webhook_deliveries (endpoint_id, created_at)`,
     ];
 
     for (const stmt of statements) {
       this.db.run(sql.raw(stmt));
     }
+
+    // Columns added after a table was first released
+    this.addColumnIfMissing('sync_state', 'checkpoint', 'TEXT');
+    this.addColumnIfMissing('entity_records', 'deleted_at', 'TEXT');
+    this.addColumnIfMissing('sie_data', 'validation', 'TEXT');
+
+    this.moveSIERowsOutOfParsed();
+
+    // Records stored before version history existed get their current state as
+    // version 1. Their earlier states are unknown, so it is dated updated_at.
+    this.db.run(sql.raw(`INSERT INTO entity_record_versions (
+        connection_id, entity_type, external_id, version, change_type, provider, fiscal_year,
+        document_date, due_date, counterparty_number, counterparty_name, amount, currency,
+        status, raw_data, last_modified, content_hash, deleted_at, recorded_at
+      )
+      SELECT e.connection_id, e.entity_type, e.external_id, 1,
+        CASE WHEN e.deleted_at IS NULL THEN 'created' ELSE 'deleted' END,
+        e.provider, e.fiscal_year, e.document_date, e.due_date, e.counterparty_number,
+        e.counterparty_name, e.amount, e.currency, e.status, e.raw_data, e.last_modified,
+        e.content_hash, e.deleted_at, e.updated_at
+      FROM entity_records e
+      WHERE NOT EXISTS (
+        SELECT 1 FROM entity_record_versions v
+        WHERE v.connection_id = e.connection_id
+          AND v.entity_type = e.entity_type
+          AND v.external_id = e.external_id
+      )`));
+  }
+
+  /**
+   * Uploads stored before sie_accounts, sie_balances and sie_transactions
+   * existed keep those rows in sie_data.parsed. Move them to their tables.
+   */
+  private moveSIERowsOutOfParsed(): void {
+    const blobs = `FROM sie_data d, json_each(d.parsed, '$.%s') r
+      WHERE json_type(d.parsed, '$.transactions') IS NOT NULL
+      ORDER BY d.upload_id, r.key`;
+    const statements = [
+      `INSERT INTO sie_accounts (
+          upload_id, connection_id, fiscal_year, account_number, account_name, account_group, tax_code
+        )
+        SELECT d.upload_id, d.connection_id, d.fiscal_year,
+          json_extract(r.value, '$.accountNumber'), json_extract(r.value, '$.accountName'),
+          COALESCE(json_extract(r.value, '$.accountGroup'), ''), json_extract(r.value, '$.taxCode')
+        ${blobs.replace('%s', 'accounts')}`,
+      `INSERT INTO sie_balances (
+          upload_id, connection_id, fiscal_year, account_number, balance_type, year_index, amount, quantity
+        )
+        SELECT d.upload_id, d.connection_id, d.fiscal_year,
+          json_extract(r.value, '$.accountNumber'), json_extract(r.value, '$.balanceType'),
+          json_extract(r.value, '$.yearIndex'), json_extract(r.value, '$.amount'), json_extract(r.value, '$.quantity')
+        ${blobs.replace('%s', 'balances')}`,
+      `INSERT INTO sie_transactions (
+          upload_id, connection_id, fiscal_year, verification_series, verification_number,
+          verification_date, verification_text, registration_date, account_number, amount,
+          cost_center, project, objects, row_text, quantity
+        )
+        SELECT d.upload_id, d.connection_id, d.fiscal_year,
+          json_extract(r.value, '$.verificationSeries'), json_extract(r.value, '$.verificationNumber'),
+          replace(json_extract(r.value, '$.verificationDate'), '-', ''), json_extract(r.value, '$.verificationText'),
+          json_extract(r.value, '$.registrationDate'), json_extract(r.value, '$.accountNumber'),
+          json_extract(r.value, '$.amount'), COALESCE(json_extract(r.value, '$.costCenter'), ''),
+          COALESCE(json_extract(r.value, '$.project'), ''), COALESCE(json_extract(r.value, '$.objects'), '[]'),
+          COALESCE(json_extract(r.value, '$.rowText'), ''), json_extract(r.value, '$.quantity')
+        ${blobs.replace('%s', 'transactions')}`,
+      `UPDATE sie_data SET parsed = json_remove(parsed, '$.accounts', '$.balances', '$.transactions')
+        WHERE json_type(parsed, '$.transactions') IS NOT NULL`,
+    ];
+    this.db.transaction((tx) => {
+      for (const stmt of statements) tx.run(sql.raw(stmt));
+    });
+  }
+
+  private addColumnIfMissing(table: string, column: string, definition: string): void {
+    const columns = this.db.all<{ name: string }>(sql.raw(`PRAGMA table_info(${table})`));
+    if (!columns.some((c) => c.name === column)) {
+      this.db.run(sql.raw(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`));
+    }
   }
 
   // ============================================
@@ -162,12 +428,12 @@ export class SQLiteAdapter implements DatabaseAdapter {
     entities: CanonicalEntityRecord[],
   ): Promise<UpsertResult> {
     if (entities.length === 0) {
-      return { inserted: 0, updated: 0, unchanged: 0 };
+      return { inserted: 0, updated: 0, unchanged: 0, insertedIds: [], updatedIds: [] };
     }
 
-    let inserted = 0;
-    let updated = 0;
     let unchanged = 0;
+    const insertedIds: string[] = [];
+    const updatedIds: string[] = [];
     const now = new Date().toISOString();
 
     // Use a transaction for batch upsert
@@ -175,7 +441,10 @@ export class SQLiteAdapter implements DatabaseAdapter {
       for (const entity of entities) {
         // Check existing record's hash
         const existing = this.db
-          .select({ contentHash: schema.entityRecords.contentHash })
+          .select({
+            contentHash: schema.entityRecords.contentHash,
+            deletedAt: schema.entityRecords.deletedAt,
+          })
           .from(schema.entityRecords)
           .where(
             and(
@@ -187,7 +456,8 @@ export class SQLiteAdapter implements DatabaseAdapter {
           .get();
 
         if (existing) {
-          if (existing.contentHash === entity.content_hash) {
+          // A tombstoned record that shows up again is restored even if unchanged
+          if (existing.contentHash === entity.content_hash && !existing.deletedAt) {
             unchanged++;
           } else {
             this.db
@@ -205,6 +475,7 @@ export class SQLiteAdapter implements DatabaseAdapter {
                 rawData: entity.raw_data,
                 lastModified: entity.last_modified,
                 contentHash: entity.content_hash,
+                deletedAt: null,
                 updatedAt: now,
               })
               .where(
@@ -215,7 +486,14 @@ export class SQLiteAdapter implements DatabaseAdapter {
                 ),
               )
               .run();
-            updated++;
+            this.appendEntityVersion(
+              connectionId,
+              entityType,
+              { ...entity, deleted_at: null },
+              existing.deletedAt ? 'restored' : 'updated',
+              now,
+            );
+            updatedIds.push(entity.external_id);
           }
         } else {
           this.db
@@ -240,7 +518,8 @@ export class SQLiteAdapter implements DatabaseAdapter {
               updatedAt: now,
             })
             .run();
-          inserted++;
+          this.appendEntityVersion(connectionId, entityType, { ...entity, deleted_at: null }, 'created', now);
+          insertedIds.push(entity.external_id);
         }
       }
     };
@@ -252,7 +531,13 @@ export class SQLiteAdapter implements DatabaseAdapter {
       upsertFn();
     }
 
-    return { inserted, updated, unchanged };
+    return {
+      inserted: insertedIds.length,
+      updated: updatedIds.length,
+      unchanged,
+      insertedIds,
+      updatedIds,
+    };
   }
 
   async getEntities(
@@ -260,6 +545,10 @@ export class SQLiteAdapter implements DatabaseAdapter {
     entityType: EntityType,
     options?: GetEntitiesOptions,
   ): Promise<CanonicalEntityRecord[]> {
+    if (options?.asOf) {
+      return this.getEntitiesAsOf(connectionId, entityType, options.asOf, options);
+    }
+
     const page = options?.page ?? 1;
     const pageSize = options?.pageSize ?? 100;
     const offset = (page - 1) * pageSize;
@@ -269,6 +558,9 @@ export class SQLiteAdapter implements DatabaseAdapter {
       eq(schema.entityRecords.entityType, entityType),
     ];
 
+    if (!options?.includeDeleted) {
+      conditions.push(isNull(schema.entityRecords.deletedAt));
+    }
     if (options?.fiscalYear != null) {
       conditions.push(eq(schema.entityRecords.fiscalYear, options.fiscalYear));
     }
@@ -310,11 +602,24 @@ export class SQLiteAdapter implements DatabaseAdapter {
   async getEntityCount(
     connectionId: string,
     entityType?: EntityType,
+    options?: Pick<GetEntitiesOptions, 'includeDeleted' | 'asOf'>,
   ): Promise<number> {
+    if (options?.asOf) {
+      const result = this.db
+        .select({ count: sql<number>`count(*)` })
+        .from(schema.entityRecordVersions)
+        .where(and(...this.asOfConditions(connectionId, entityType, options.asOf, options.includeDeleted)))
+        .get();
+      return result?.count ?? 0;
+    }
+
     const conditions = [eq(schema.entityRecords.connectionId, connectionId)];
     if (entityType) {
       conditions.push(eq(schema.entityRecords.entityType, entityType));
     }
+    if (!options?.includeDeleted) {
+      conditions.push(isNull(schema.entityRecords.deletedAt));
+    }
 
     const result = this.db
       .select({ count: sql<number>`count(*)` })
@@ -325,6 +630,191 @@ export class SQLiteAdapter implements DatabaseAdapter {
     return result?.count ?? 0;
   }
 
+  async tombstoneMissingEntities(
+    connectionId: string,
+    entityType: EntityType,
+    liveExternalIds: string[],
+  ): Promise<number> {
+    const live = new Set(liveExternalIds);
+    const now = new Date().toISOString();
+    let tombstoned = 0;
+
+    // Diff in memory rather than NOT IN (...) to stay clear of SQLite's bound-parameter limit
+    const tombstoneFn = () => {
+      const stored = this.db
+        .select()
+        .from(schema.entityRecords)
+        .where(
+          and(
+            eq(schema.entityRecords.connectionId, connectionId),
+            eq(schema.entityRecords.entityType, entityType),
+            isNull(schema.entityRecords.deletedAt),
+          ),
+        )
+        .all();
+
+      for (const row of stored) {
+        if (live.has(row.externalId)) continue;
+        this.db
+          .update(schema.entityRecords)
+          .set({ deletedAt: now, updatedAt: now })
+          .where(eq(schema.entityRecords.id, row.id))
+          .run();
+        this.appendEntityVersion(
+          connectionId,
+          entityType,
+          { ...this.rowToCanonicalEntity(row), deleted_at: now },
+          'deleted',
+          now,
+        );
+        tombstoned++;
+      }
+    };
+
+    if (this.sqlite) {
+      this.sqlite.transaction(tombstoneFn)();
+    } else {
+      tombstoneFn();
+    }
+
+    return tombstoned;
+  }
+
+  async getEntityVersions(
+    connectionId: string,
+    entityType: EntityType,
+    externalId: string,
+  ): Promise<EntityRecordVersion[]> {
+    const rows = this.db
+      .select()
+      .from(schema.entityRecordVersions)
+      .where(
+        and(
+          eq(schema.entityRecordVersions.connectionId, connectionId),
+          eq(schema.entityRecordVersions.entityType, entityType),
+          eq(schema.entityRecordVersions.externalId, externalId),
+        ),
+      )
+      .orderBy(asc(schema.entityRecordVersions.version))
+      .all();
+
+    return rows.map((row) => this.rowToEntityVersion(row));
+  }
+
+  private getEntitiesAsOf(
+    connectionId: string,
+    entityType: EntityType,
+    asOf: string,
+    options: GetEntitiesOptions,
+  ): CanonicalEntityRecord[] {
+    const v = schema.entityRecordVersions;
+    const page = options.page ?? 1;
+    const pageSize = options.pageSize ?? 100;
+
+    const conditions = this.asOfConditions(connectionId, entityType, asOf, options.includeDeleted);
+    if (options.fiscalYear != null) {
+      conditions.push(eq(v.fiscalYear, options.fiscalYear));
+    }
+    if (options.fromDate) {
+      conditions.push(gte(v.documentDate, options.fromDate));
+    }
+    if (options.toDate) {
+      conditions.push(lte(v.documentDate, options.toDate));
+    }
+
+    const dir = options.orderDirection === 'desc' ? desc : asc;
+    const orderByClause =
+      options.orderBy === 'document_date'
+        ? dir(v.documentDate)
+        : options.orderBy === 'last_modified'
+          ? dir(v.lastModified)
+          : dir(v.externalId);
+
+    const rows = this.db
+      .select()
+      .from(v)
+      .where(and(...conditions))
+      .orderBy(orderByClause)
+      .limit(pageSize)
+      .offset((page - 1) * pageSize)
+      .all();
+
+    return rows.map((row) => this.rowToEntityVersion(row).record);
+  }
+
+  /** Matches the version of each record that was current at `asOf`. */
+  private asOfConditions(
+    connectionId: string,
+    entityType: EntityType | undefined,
+    asOf: string,
+    includeDeleted: boolean | undefined,
+  ) {
+    const v = schema.entityRecordVersions;
+    const conditions = [
+      eq(v.connectionId, connectionId),
+      sql`${v.version} = (
+        SELECT MAX(latest.version) FROM entity_record_versions latest
+        WHERE latest.connection_id = ${v.connectionId}
+          AND latest.entity_type = ${v.entityType}
+          AND latest.external_id = ${v.externalId}
+          AND latest.recorded_at <= ${asOf}
+      )`,
+    ];
+    if (entityType) {
+      conditions.push(eq(v.entityType, entityType));
+    }
+    if (!includeDeleted) {
+      conditions.push(isNull(v.deletedAt));
+    }
+    return conditions;
+  }
+
+  /** Append the next version of a record. Must run inside the caller's transaction. */
+  private appendEntityVersion(
+    connectionId: string,
+    entityType: EntityType,
+    entity: CanonicalEntityRecord,
+    changeType: EntityChangeType,
+    recordedAt: string,
+  ): void {
+    const latest = this.db
+      .select({ version: sql<number | null>`max(${schema.entityRecordVersions.version})` })
+      .from(schema.entityRecordVersions)
+      .where(
+        and(
+          eq(schema.entityRecordVersions.connectionId, connectionId),
+          eq(schema.entityRecordVersions.entityType, entityType),
+          eq(schema.entityRecordVersions.externalId, entity.external_id),
+        ),
+      )
+      .get();
+
+    this.db
+      .insert(schema.entityRecordVersions)
+      .values({
+        connectionId,
+        entityType,
+        externalId: entity.external_id,
+        version: (latest?.version ?? 0) + 1,
+        changeType,
+        provider: entity.provider,
+        fiscalYear: entity.fiscal_year,
+        documentDate: entity.document_date,
+        dueDate: entity.due_date,
+        counterpartyNumber: entity.counterparty_number,
+        counterpartyName: entity.counterparty_name,
+        amount: entity.amount,
+        currency: entity.currency,
+        status: entity.status,
+        rawData: entity.raw_data,
+        lastModified: entity.last_modified,
+        contentHash: entity.content_hash,
+        deletedAt: entity.deleted_at ?? null,
+        recordedAt,
+      })
+      .run();
+  }
+
   // ============================================
   // Sync State
   // ============================================
@@ -355,6 +845,7 @@ export class SQLiteAdapter implements DatabaseAdapter {
       recordsUpdated: row.recordsUpdated,
       lastError: row.lastError,
       lastErrorAt: row.lastErrorAt,
+      checkpoint: (row.checkpoint as unknown as SyncCheckpoint | null) ?? null,
     };
   }
 
@@ -376,6 +867,7 @@ export class SQLiteAdapter implements DatabaseAdapter {
           recordsUpdated: merged.recordsUpdated,
           lastError: merged.lastError,
           lastErrorAt: merged.lastErrorAt,
+          checkpoint: merged.checkpoint as unknown as Record<string, unknown> | null,
         })
         .where(
           and(
@@ -396,6 +888,7 @@ export class SQLiteAdapter implements DatabaseAdapter {
           recordsUpdated: update.recordsUpdated ?? 0,
           lastError: update.lastError ?? null,
           lastErrorAt: update.lastErrorAt ?? null,
+          checkpoint: (update.checkpoint as unknown as Record<string, unknown> | null) ?? null,
         })
         .run();
     }
@@ -498,109 +991,470 @@ export class SQLiteAdapter implements DatabaseAdapter {
   }
 
   // ============================================
-  // SIE Data
+  // Sync Job Queue
   // ============================================
 
-  async storeSIEData(
-    connectionId: string,
-    data: SIEFullData,
-  ): Promise<string> {
-    const uploadId = data.uploadId ?? crypto.randomUUID();
+  async enqueueSyncJob(jobId: string, job: SyncJob): Promise<SyncJobRecord> {
     const now = new Date().toISOString();
+    this.db
+      .insert(schema.syncJobs)
+      .values({
+        jobId,
+        connectionId: job.connectionId,
+        provider: job.provider,
+        status: 'pending',
+        payload: job as unknown as Record<string, unknown>,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .run();
 
-    // Check if exists for this (connectionId, fiscalYear, sieType)
-    const existing = this.db
+    return (await this.getSyncJob(jobId))!;
+  }
+
+  async getSyncJob(jobId: string): Promise<SyncJobRecord | null> {
+    const row = this.db
       .select()
-      .from(schema.sieUploads)
-      .where(
-        and(
-          eq(schema.sieUploads.connectionId, connectionId),
-          eq(schema.sieUploads.fiscalYear, data.fiscalYear),
-          eq(schema.sieUploads.sieType, data.sieType),
-        ),
-      )
+      .from(schema.syncJobs)
+      .where(eq(schema.syncJobs.jobId, jobId))
       .get();
 
-    if (existing) {
-      // Update existing upload
-      this.db
-        .update(schema.sieUploads)
-        .set({
-          accountCount: data.parsed.accounts.length,
-          transactionCount: data.parsed.transactions.length,
-          uploadedAt: now,
-        })
-        .where(eq(schema.sieUploads.uploadId, existing.uploadId))
-        .run();
+    return row ? this.rowToSyncJob(row) : null;
+  }
 
-      this.db
-        .update(schema.sieData)
+  async claimSyncJob(workerId: string, leaseMs: number): Promise<SyncJobRecord | null> {
+    const claimFn = (): string | null => {
+      // Oldest pending job whose connection has nothing running
+      const candidate = this.db
+        .select({ jobId: schema.syncJobs.jobId })
+        .from(schema.syncJobs)
+        .where(
+          and(
+            eq(schema.syncJobs.status, 'pending'),
+            sql`NOT EXISTS (
+              SELECT 1 FROM sync_jobs r
+              WHERE r.connection_id = ${schema.syncJobs.connectionId} AND r.status = 'running'
+            )`,
+          ),
+        )
+        .orderBy(asc(schema.syncJobs.createdAt), asc(sql`rowid`))
+        .limit(1)
+        .get();
+
+      if (!candidate) return null;
+
+      const now = new Date();
+      const claimed = this.db
+        .update(schema.syncJobs)
         .set({
-          parsed: data.parsed as unknown as Record<string, unknown>,
-          kpis: data.kpis as unknown as Record<string, unknown>,
-          rawContent: data.rawContent ?? null,
+          status: 'running',
+          workerId,
+          leaseExpiresAt: new Date(now.getTime() + leaseMs).toISOString(),
+          heartbeatAt: now.toISOString(),
+          attempts: sql`${schema.syncJobs.attempts} + 1`,
+          updatedAt: now.toISOString(),
         })
-        .where(eq(schema.sieData.uploadId, existing.uploadId))
+        .where(
+          and(
+            eq(schema.syncJobs.jobId, candidate.jobId),
+            eq(schema.syncJobs.status, 'pending'),
+          ),
+        )
         .run();
 
-      return existing.uploadId;
-    }
+      return claimed.changes > 0 ? candidate.jobId : null;
+    };
+
+    const jobId = this.sqlite ? this.sqlite.transaction(claimFn).immediate() : claimFn();
+    return jobId ? this.getSyncJob(jobId) : null;
+  }
+
+  async heartbeatSyncJob(
+    jobId: string,
+    workerId: string,
+    leaseMs: number,
+  ): Promise<SyncJobRecord | null> {
+    const now = new Date();
+    const result = this.db
+      .update(schema.syncJobs)
+      .set({
+        leaseExpiresAt: new Date(now.getTime() + leaseMs).toISOString(),
+        heartbeatAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+      })
+      .where(
+        and(
+          eq(schema.syncJobs.jobId, jobId),
+          eq(schema.syncJobs.workerId, workerId),
+          eq(schema.syncJobs.status, 'running'),
+        ),
+      )
+      .run();
+
+    return result.changes > 0 ? this.getSyncJob(jobId) : null;
+  }
 
-    // Insert new upload
+  async completeSyncJob(
+    jobId: string,
+    workerId: string,
+    status: SyncStatus,
+    error?: string,
+  ): Promise<void> {
     this.db
-      .insert(schema.sieUploads)
-      .values({
-        uploadId,
-        connectionId,
-        fiscalYear: data.fiscalYear,
-        sieType: data.sieType,
-        accountCount: data.parsed.accounts.length,
-        transactionCount: data.parsed.transactions.length,
-        uploadedAt: now,
+      .update(schema.syncJobs)
+      .set({
+        status,
+        error: error ?? null,
+        leaseExpiresAt: null,
+        payload: this.payloadWithoutCredentials(),
+        updatedAt: new Date().toISOString(),
       })
+      .where(
+        and(
+          eq(schema.syncJobs.jobId, jobId),
+          eq(schema.syncJobs.workerId, workerId),
+          eq(schema.syncJobs.status, 'running'),
+        ),
+      )
       .run();
+  }
 
+  async requestSyncJobCancel(jobId: string): Promise<SyncJobRecord | null> {
+    const now = new Date().toISOString();
+
+    // Pending jobs have no worker to notify — cancel them in place
     this.db
-      .insert(schema.sieData)
-      .values({
-        uploadId,
-        connectionId,
-        fiscalYear: data.fiscalYear,
-        sieType: data.sieType,
-        parsed: data.parsed as unknown as Record<string, unknown>,
-        kpis: data.kpis as unknown as Record<string, unknown>,
-        rawContent: data.rawContent ?? null,
+      .update(schema.syncJobs)
+      .set({
+        status: 'cancelled',
+        cancelRequested: true,
+        payload: this.payloadWithoutCredentials(),
+        updatedAt: now,
       })
+      .where(and(eq(schema.syncJobs.jobId, jobId), eq(schema.syncJobs.status, 'pending')))
+      .run();
+
+    this.db
+      .update(schema.syncJobs)
+      .set({ cancelRequested: true, updatedAt: now })
+      .where(and(eq(schema.syncJobs.jobId, jobId), eq(schema.syncJobs.status, 'running')))
       .run();
 
-    return uploadId;
+    return this.getSyncJob(jobId);
   }
 
-  async getSIEUploads(connectionId: string): Promise<SIEUpload[]> {
-    const rows = this.db
+  async recoverStaleSyncJobs(maxAttempts: number): Promise<SyncJobRecord[]> {
+    const now = new Date().toISOString();
+    const stale = this.db
       .select()
-      .from(schema.sieUploads)
-      .where(eq(schema.sieUploads.connectionId, connectionId))
+      .from(schema.syncJobs)
+      .where(
+        and(
+          eq(schema.syncJobs.status, 'running'),
+          lt(schema.syncJobs.leaseExpiresAt, now),
+        ),
+      )
       .all();
 
-    return rows.map((row) => ({
-      uploadId: row.uploadId,
-      connectionId: row.connectionId,
-      fiscalYear: row.fiscalYear,
-      sieType: row.sieType as SIEUpload['sieType'],
-      fileName: row.fileName ?? undefined,
-      accountCount: row.accountCount,
-      transactionCount: row.transactionCount,
-      uploadedAt: row.uploadedAt,
-    }));
-  }
+    if (stale.length === 0) return [];
 
-  async getSIEData(uploadId: string): Promise<SIEFullData | null> {
-    const upload = this.db
-      .select()
-      .from(schema.sieUploads)
-      .where(eq(schema.sieUploads.uploadId, uploadId))
-      .get();
+    for (const row of stale) {
+      let status: SyncStatus = 'pending';
+      let error: string | null = null;
+      if (row.cancelRequested) {
+        status = 'cancelled';
+      } else if (row.attempts >= maxAttempts) {
+        status = 'failed';
+        error = `Worker lease expired after ${row.attempts} attempt(s)`;
+      }
+
+      this.db
+        .update(schema.syncJobs)
+        .set({
+          status,
+          error,
+          workerId: null,
+          leaseExpiresAt: null,
+          ...(status === 'pending' ? {} : { payload: this.payloadWithoutCredentials() }),
+          updatedAt: now,
+        })
+        .where(
+          and(
+            eq(schema.syncJobs.jobId, row.jobId),
+            eq(schema.syncJobs.status, 'running'),
+          ),
+        )
+        .run();
+    }
+
+    const rows = this.db
+      .select()
+      .from(schema.syncJobs)
+      .where(inArray(schema.syncJobs.jobId, stale.map((row) => row.jobId)))
+      .all();
+
+    return rows.map((row) => this.rowToSyncJob(row));
+  }
+
+  // ============================================
+  // Sync Schedules
+  // ============================================
+
+  async upsertSyncSchedule(schedule: SyncSchedule): Promise<void> {
+    const values = {
+      connectionId: schedule.connectionId,
+      provider: schedule.provider,
+      consentId: schedule.consentId,
+      cronExpression: schedule.cronExpression,
+      intervalMinutes: schedule.intervalMinutes,
+      entityTypes: schedule.entityTypes ?? null,
+      includeSIE: schedule.includeSIE,
+      sieOptions: (schedule.sieOptions as Record<string, unknown> | undefined) ?? null,
+      paused: schedule.paused,
+      nextRunAt: schedule.nextRunAt,
+      lastRunAt: schedule.lastRunAt,
+      lastJobId: schedule.lastJobId,
+      updatedAt: schedule.updatedAt,
+    };
+
+    const existing = this.db
+      .select({ scheduleId: schema.syncSchedules.scheduleId })
+      .from(schema.syncSchedules)
+      .where(eq(schema.syncSchedules.scheduleId, schedule.scheduleId))
+      .get();
+
+    if (existing) {
+      this.db
+        .update(schema.syncSchedules)
+        .set(values)
+        .where(eq(schema.syncSchedules.scheduleId, schedule.scheduleId))
+        .run();
+    } else {
+      this.db
+        .insert(schema.syncSchedules)
+        .values({ scheduleId: schedule.scheduleId, createdAt: schedule.createdAt, ...values })
+        .run();
+    }
+  }
+
+  async getSyncSchedule(scheduleId: string): Promise<SyncSchedule | null> {
+    const row = this.db
+      .select()
+      .from(schema.syncSchedules)
+      .where(eq(schema.syncSchedules.scheduleId, scheduleId))
+      .get();
+
+    return row ? this.rowToSyncSchedule(row) : null;
+  }
+
+  async getSyncSchedules(options?: { connectionId?: string }): Promise<SyncSchedule[]> {
+    const rows = this.db
+      .select()
+      .from(schema.syncSchedules)
+      .where(
+        options?.connectionId
+          ? eq(schema.syncSchedules.connectionId, options.connectionId)
+          : undefined,
+      )
+      .orderBy(asc(schema.syncSchedules.createdAt))
+      .all();
+
+    return rows.map((row) => this.rowToSyncSchedule(row));
+  }
+
+  async deleteSyncSchedule(scheduleId: string): Promise<void> {
+    this.db
+      .delete(schema.syncSchedules)
+      .where(eq(schema.syncSchedules.scheduleId, scheduleId))
+      .run();
+  }
+
+  async getDueSyncSchedules(now: string): Promise<SyncSchedule[]> {
+    const rows = this.db
+      .select()
+      .from(schema.syncSchedules)
+      .where(
+        and(
+          eq(schema.syncSchedules.paused, false),
+          lte(schema.syncSchedules.nextRunAt, now),
+        ),
+      )
+      .orderBy(asc(schema.syncSchedules.nextRunAt))
+      .all();
+
+    return rows.map((row) => this.rowToSyncSchedule(row));
+  }
+
+  async recordSyncScheduleRun(
+    scheduleId: string,
+    expectedNextRunAt: string,
+    run: { lastRunAt: string | null; lastJobId: string | null; nextRunAt: string | null },
+  ): Promise<boolean> {
+    const result = this.db
+      .update(schema.syncSchedules)
+      .set({
+        lastRunAt: run.lastRunAt,
+        lastJobId: run.lastJobId,
+        nextRunAt: run.nextRunAt,
+        updatedAt: new Date().toISOString(),
+      })
+      .where(
+        and(
+          eq(schema.syncSchedules.scheduleId, scheduleId),
+          eq(schema.syncSchedules.nextRunAt, expectedNextRunAt),
+        ),
+      )
+      .run();
+
+    return result.changes > 0;
+  }
+
+  async setSyncSchedulePaused(
+    scheduleId: string,
+    update: { paused: boolean; nextRunAt?: string | null },
+  ): Promise<boolean> {
+    const result = this.db
+      .update(schema.syncSchedules)
+      .set({
+        paused: update.paused,
+        ...(update.nextRunAt !== undefined && { nextRunAt: update.nextRunAt }),
+        updatedAt: new Date().toISOString(),
+      })
+      .where(eq(schema.syncSchedules.scheduleId, scheduleId))
+      .run();
+
+    return result.changes > 0;
+  }
+
+  // ============================================
+  // SIE Data
+  // ============================================
+
+  async storeSIEData(
+    connectionId: string,
+    data: SIEFullData,
+  ): Promise<string> {
+    const now = new Date().toISOString();
+    const { accounts, balances, transactions, ...rest } = data.parsed;
+
+    // Replace the upload and all of its rows in one transaction, so readers
+    // never see a mix of the old and the new file
+    return this.db.transaction((tx) => {
+      // Check if exists for this (connectionId, fiscalYear, sieType)
+      const existing = tx
+        .select()
+        .from(schema.sieUploads)
+        .where(
+          and(
+            eq(schema.sieUploads.connectionId, connectionId),
+            eq(schema.sieUploads.fiscalYear, data.fiscalYear),
+            eq(schema.sieUploads.sieType, data.sieType),
+          ),
+        )
+        .get();
+      const uploadId = existing?.uploadId ?? data.uploadId ?? crypto.randomUUID();
+
+      const upload = {
+        accountCount: accounts.length,
+        transactionCount: transactions.length,
+        fileName: data.fileName ?? null,
+        uploadedAt: now,
+      };
+      const blob = {
+        parsed: rest as unknown as Record<string, unknown>,
+        kpis: data.kpis as unknown as Record<string, unknown>,
+        rawContent: data.rawContent ?? null,
+        validation: (data.validation ?? null) as Record<string, unknown> | null,
+      };
+
+      if (existing) {
+        tx.update(schema.sieUploads).set(upload).where(eq(schema.sieUploads.uploadId, uploadId)).run();
+        tx.update(schema.sieData).set(blob).where(eq(schema.sieData.uploadId, uploadId)).run();
+        tx.delete(schema.sieAccounts).where(eq(schema.sieAccounts.uploadId, uploadId)).run();
+        tx.delete(schema.sieBalances).where(eq(schema.sieBalances.uploadId, uploadId)).run();
+        tx.delete(schema.sieTransactions).where(eq(schema.sieTransactions.uploadId, uploadId)).run();
+      } else {
+        tx.insert(schema.sieUploads)
+          .values({ uploadId, connectionId, fiscalYear: data.fiscalYear, sieType: data.sieType, ...upload })
+          .run();
+        tx.insert(schema.sieData)
+          .values({ uploadId, connectionId, fiscalYear: data.fiscalYear, sieType: data.sieType, ...blob })
+          .run();
+      }
+
+      const owner = { uploadId, connectionId, fiscalYear: data.fiscalYear };
+      for (const chunk of chunks(accounts)) {
+        tx.insert(schema.sieAccounts)
+          .values(chunk.map((a) => ({
+            ...owner,
+            accountNumber: a.accountNumber,
+            accountName: a.accountName,
+            accountGroup: a.accountGroup,
+            taxCode: a.taxCode ?? null,
+          })))
+          .run();
+      }
+      for (const chunk of chunks(balances)) {
+        tx.insert(schema.sieBalances)
+          .values(chunk.map((b) => ({
+            ...owner,
+            accountNumber: b.accountNumber,
+            balanceType: b.balanceType,
+            yearIndex: b.yearIndex,
+            amount: b.amount,
+            quantity: b.quantity ?? null,
+          })))
+          .run();
+      }
+      for (const chunk of chunks(transactions)) {
+        tx.insert(schema.sieTransactions)
+          .values(chunk.map((t) => ({
+            ...owner,
+            verificationSeries: t.verificationSeries,
+            verificationNumber: t.verificationNumber,
+            verificationDate: t.verificationDate.replace(/-/g, ''),
+            verificationText: t.verificationText,
+            registrationDate: t.registrationDate ?? null,
+            accountNumber: t.accountNumber,
+            amount: t.amount,
+            costCenter: t.costCenter,
+            project: t.project,
+            objects: t.objects,
+            rowText: t.rowText,
+            quantity: t.quantity ?? null,
+          })))
+          .run();
+      }
+
+      return uploadId;
+    });
+  }
+
+  async getSIEUploads(connectionId: string): Promise<SIEUpload[]> {
+    const rows = this.db
+      .select()
+      .from(schema.sieUploads)
+      .where(eq(schema.sieUploads.connectionId, connectionId))
+      .all();
+
+    return rows.map((row) => ({
+      uploadId: row.uploadId,
+      connectionId: row.connectionId,
+      fiscalYear: row.fiscalYear,
+      sieType: row.sieType as SIEUpload['sieType'],
+      fileName: row.fileName ?? undefined,
+      accountCount: row.accountCount,
+      transactionCount: row.transactionCount,
+      uploadedAt: row.uploadedAt,
+    }));
+  }
+
+  async getSIEData(uploadId: string): Promise<SIEFullData | null> {
+    const upload = this.db
+      .select()
+      .from(schema.sieUploads)
+      .where(eq(schema.sieUploads.uploadId, uploadId))
+      .get();
 
     if (!upload) return null;
 
@@ -612,14 +1466,351 @@ export class SQLiteAdapter implements DatabaseAdapter {
 
     if (!data) return null;
 
+    const accounts = this.db
+      .select()
+      .from(schema.sieAccounts)
+      .where(eq(schema.sieAccounts.uploadId, uploadId))
+      .orderBy(asc(schema.sieAccounts.id))
+      .all();
+    const balances = this.db
+      .select()
+      .from(schema.sieBalances)
+      .where(eq(schema.sieBalances.uploadId, uploadId))
+      .orderBy(asc(schema.sieBalances.id))
+      .all();
+    const transactions = this.db
+      .select()
+      .from(schema.sieTransactions)
+      .where(eq(schema.sieTransactions.uploadId, uploadId))
+      .orderBy(asc(schema.sieTransactions.id))
+      .all();
+
     return {
       uploadId: upload.uploadId,
       connectionId: upload.connectionId,
       fiscalYear: upload.fiscalYear,
       sieType: upload.sieType as SIEFullData['sieType'],
-      parsed: data.parsed as unknown as SIEFullData['parsed'],
+      parsed: {
+        ...(data.parsed as unknown as SIEFullData['parsed']),
+        accounts: accounts.map((row) => this.rowToSIEAccount(row)),
+        balances: balances.map((row) => this.rowToSIEBalance(row)),
+        transactions: transactions.map((row) => this.rowToSIETransaction(row)),
+      },
       kpis: data.kpis as unknown as SIEFullData['kpis'],
       rawContent: data.rawContent ?? undefined,
+      fileName: upload.fileName ?? undefined,
+      validation: (data.validation ?? undefined) as SIEFullData['validation'],
+    };
+  }
+
+  async getSIEMetadata(uploadId: string): Promise<SIEMetadata | null> {
+    const row = this.db
+      .select({ metadata: sql<string | null>`json_extract(${schema.sieData.parsed}, '$.metadata')` })
+      .from(schema.sieData)
+      .where(eq(schema.sieData.uploadId, uploadId))
+      .get();
+
+    return row?.metadata ? (JSON.parse(row.metadata) as SIEMetadata) : null;
+  }
+
+  async getSIEAccounts(connectionId: string, options?: GetSIEAccountsOptions): Promise<SIEAccount[]> {
+    const conditions = [eq(schema.sieAccounts.connectionId, connectionId)];
+    if (options?.fiscalYear != null) {
+      conditions.push(eq(schema.sieAccounts.fiscalYear, options.fiscalYear));
+    }
+    if (options?.uploadId) {
+      conditions.push(eq(schema.sieAccounts.uploadId, options.uploadId));
+    }
+    if (options?.fromAccount) {
+      conditions.push(gte(schema.sieAccounts.accountNumber, options.fromAccount));
+    }
+    if (options?.toAccount) {
+      conditions.push(lte(schema.sieAccounts.accountNumber, options.toAccount));
+    }
+
+    const rows = this.db
+      .select()
+      .from(schema.sieAccounts)
+      .where(and(...conditions))
+      .orderBy(asc(schema.sieAccounts.accountNumber), asc(schema.sieAccounts.id))
+      .all();
+
+    return rows.map((row) => this.rowToSIEAccount(row));
+  }
+
+  async getSIETransactions(
+    connectionId: string,
+    options?: GetSIETransactionsOptions,
+  ): Promise<SIEStoredTransaction[]> {
+    const page = options?.page ?? 1;
+    const pageSize = options?.pageSize ?? 100;
+
+    const rows = this.db
+      .select()
+      .from(schema.sieTransactions)
+      .where(and(...this.sieTransactionConditions(connectionId, options)))
+      .orderBy(asc(schema.sieTransactions.verificationDate), asc(schema.sieTransactions.id))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize)
+      .all();
+
+    return rows.map((row) => ({
+      ...this.rowToSIETransaction(row),
+      uploadId: row.uploadId,
+      fiscalYear: row.fiscalYear,
+    }));
+  }
+
+  async getSIETransactionCount(
+    connectionId: string,
+    options?: Omit<GetSIETransactionsOptions, 'page' | 'pageSize'>,
+  ): Promise<number> {
+    const result = this.db
+      .select({ count: sql<number>`count(*)` })
+      .from(schema.sieTransactions)
+      .where(and(...this.sieTransactionConditions(connectionId, options)))
+      .get();
+
+    return result?.count ?? 0;
+  }
+
+  async getSIETransactionTotals(
+    connectionId: string,
+    options?: Omit<GetSIETransactionsOptions, 'page' | 'pageSize'>,
+  ): Promise<SIEAccountTotal[]> {
+    return this.db
+      .select({
+        accountNumber: schema.sieTransactions.accountNumber,
+        amount: sql<number>`sum(${schema.sieTransactions.amount})`,
+        count: sql<number>`count(*)`,
+      })
+      .from(schema.sieTransactions)
+      .where(and(...this.sieTransactionConditions(connectionId, options)))
+      .groupBy(schema.sieTransactions.accountNumber)
+      .orderBy(asc(schema.sieTransactions.accountNumber))
+      .all();
+  }
+
+  async getSIEVoucherRows(
+    connectionId: string,
+    options?: GetSIETransactionsOptions,
+  ): Promise<SIEStoredTransaction[]> {
+    const page = options?.page ?? 1;
+    const pageSize = options?.pageSize ?? 100;
+    const t = schema.sieTransactions;
+
+    const vouchers = this.db
+      .select({ uploadId: t.uploadId, series: t.verificationSeries, number: t.verificationNumber })
+      .from(t)
+      .where(and(...this.sieTransactionConditions(connectionId, options)))
+      .groupBy(t.uploadId, t.verificationSeries, t.verificationNumber)
+      .orderBy(...this.sieVoucherOrder())
+      .limit(pageSize)
+      .offset((page - 1) * pageSize);
+
+    // All rows of the page's vouchers, also those outside the account and object filters
+    const rows = this.db
+      .select()
+      .from(t)
+      .where(sql`(${t.uploadId}, ${t.verificationSeries}, ${t.verificationNumber}) IN ${vouchers}`)
+      .orderBy(...this.sieVoucherOrder(), asc(t.id))
+      .all();
+
+    return rows.map((row) => ({
+      ...this.rowToSIETransaction(row),
+      uploadId: row.uploadId,
+      fiscalYear: row.fiscalYear,
+    }));
+  }
+
+  async getSIEVoucherCount(
+    connectionId: string,
+    options?: Omit<GetSIETransactionsOptions, 'page' | 'pageSize'>,
+  ): Promise<number> {
+    const t = schema.sieTransactions;
+    const vouchers = this.db
+      .select({ uploadId: t.uploadId })
+      .from(t)
+      .where(and(...this.sieTransactionConditions(connectionId, options)))
+      .groupBy(t.uploadId, t.verificationSeries, t.verificationNumber)
+      .as('vouchers');
+
+    const result = this.db
+      .select({ count: sql<number>`count(*)` })
+      .from(vouchers)
+      .get();
+
+    return result?.count ?? 0;
+  }
+
+  async getSIEBalances(connectionId: string, options?: GetSIEBalancesOptions): Promise<SIEStoredBalance[]> {
+    const conditions = [eq(schema.sieBalances.connectionId, connectionId)];
+    if (options?.fiscalYear != null) {
+      conditions.push(eq(schema.sieBalances.fiscalYear, options.fiscalYear));
+    }
+    if (options?.uploadId) {
+      conditions.push(eq(schema.sieBalances.uploadId, options.uploadId));
+    }
+    if (options?.fromAccount) {
+      conditions.push(gte(schema.sieBalances.accountNumber, options.fromAccount));
+    }
+    if (options?.toAccount) {
+      conditions.push(lte(schema.sieBalances.accountNumber, options.toAccount));
+    }
+    if (options?.balanceType) {
+      conditions.push(eq(schema.sieBalances.balanceType, options.balanceType));
+    }
+    if (options?.yearIndex != null) {
+      conditions.push(eq(schema.sieBalances.yearIndex, options.yearIndex));
+    }
+
+    const rows = this.db
+      .select()
+      .from(schema.sieBalances)
+      .where(and(...conditions))
+      .orderBy(asc(schema.sieBalances.accountNumber), asc(schema.sieBalances.id))
+      .all();
+
+    return rows.map((row) => ({
+      ...this.rowToSIEBalance(row),
+      uploadId: row.uploadId,
+      fiscalYear: row.fiscalYear,
+    }));
+  }
+
+  private sieTransactionConditions(
+    connectionId: string,
+    options?: Omit<GetSIETransactionsOptions, 'page' | 'pageSize'>,
+  ) {
+    const conditions = [eq(schema.sieTransactions.connectionId, connectionId)];
+    if (options?.fiscalYear != null) {
+      conditions.push(eq(schema.sieTransactions.fiscalYear, options.fiscalYear));
+    }
+    if (options?.uploadId) {
+      conditions.push(eq(schema.sieTransactions.uploadId, options.uploadId));
+    }
+    // Account numbers are compared as text, which orders 4-digit BAS accounts correctly
+    if (options?.fromAccount) {
+      conditions.push(gte(schema.sieTransactions.accountNumber, options.fromAccount));
+    }
+    if (options?.toAccount) {
+      conditions.push(lte(schema.sieTransactions.accountNumber, options.toAccount));
+    }
+    if (options?.fromDate) {
+      conditions.push(gte(schema.sieTransactions.verificationDate, options.fromDate.replace(/-/g, '')));
+    }
+    if (options?.toDate) {
+      conditions.push(lte(schema.sieTransactions.verificationDate, options.toDate.replace(/-/g, '')));
+    }
+    if (options?.costCenter) {
+      conditions.push(eq(schema.sieTransactions.costCenter, options.costCenter));
+    }
+    if (options?.project) {
+      conditions.push(eq(schema.sieTransactions.project, options.project));
+    }
+    if (options?.accountNumbers) {
+      conditions.push(inArray(schema.sieTransactions.accountNumber, options.accountNumbers));
+    }
+    return conditions;
+  }
+
+  /** By series, then number; shorter first, so that A9 comes before A10 */
+  private sieVoucherOrder() {
+    const t = schema.sieTransactions;
+    return [
+      asc(sql`length(${t.verificationSeries})`),
+      asc(t.verificationSeries),
+      asc(sql`length(${t.verificationNumber})`),
+      asc(t.verificationNumber),
+    ];
+  }
+
+  private rowToSIEAccount(row: typeof schema.sieAccounts.$inferSelect): SIEAccount {
+    return {
+      accountNumber: row.accountNumber,
+      accountName: row.accountName,
+      accountGroup: row.accountGroup,
+      ...(row.taxCode != null && { taxCode: row.taxCode }),
+    };
+  }
+
+  private rowToSIEBalance(row: typeof schema.sieBalances.$inferSelect): SIEBalance {
+    return {
+      accountNumber: row.accountNumber,
+      balanceType: row.balanceType as SIEBalance['balanceType'],
+      yearIndex: row.yearIndex,
+      amount: row.amount,
+      ...(row.quantity != null && { quantity: row.quantity }),
+    };
+  }
+
+  private rowToSIETransaction(row: typeof schema.sieTransactions.$inferSelect): SIETransaction {
+    return {
+      verificationSeries: row.verificationSeries,
+      verificationNumber: row.verificationNumber,
+      verificationDate: row.verificationDate,
+      verificationText: row.verificationText,
+      accountNumber: row.accountNumber,
+      amount: row.amount,
+      costCenter: row.costCenter,
+      project: row.project,
+      objects: row.objects as SIETransaction['objects'],
+      rowText: row.rowText,
+      ...(row.quantity != null && { quantity: row.quantity }),
+      ...(row.registrationDate != null && { registrationDate: row.registrationDate }),
+    };
+  }
+
+  async storeSIEBudget(budget: SIEBudgetRecord): Promise<void> {
+    const existing = await this.getSIEBudget(budget.connectionId, budget.fiscalYear);
+    const values = {
+      source: budget.source,
+      fileName: budget.fileName ?? null,
+      lines: budget.lines as unknown[],
+      updatedAt: budget.updatedAt,
+    };
+
+    if (existing) {
+      this.db
+        .update(schema.sieBudgets)
+        .set(values)
+        .where(
+          and(
+            eq(schema.sieBudgets.connectionId, budget.connectionId),
+            eq(schema.sieBudgets.fiscalYear, budget.fiscalYear),
+          ),
+        )
+        .run();
+      return;
+    }
+
+    this.db
+      .insert(schema.sieBudgets)
+      .values({ connectionId: budget.connectionId, fiscalYear: budget.fiscalYear, ...values })
+      .run();
+  }
+
+  async getSIEBudget(connectionId: string, fiscalYear: number): Promise<SIEBudgetRecord | null> {
+    const row = this.db
+      .select()
+      .from(schema.sieBudgets)
+      .where(
+        and(
+          eq(schema.sieBudgets.connectionId, connectionId),
+          eq(schema.sieBudgets.fiscalYear, fiscalYear),
+        ),
+      )
+      .get();
+
+    if (!row) return null;
+
+    return {
+      connectionId: row.connectionId,
+      fiscalYear: row.fiscalYear,
+      source: row.source as SIEBudgetRecord['source'],
+      lines: row.lines as SIEBudgetRecord['lines'],
+      fileName: row.fileName ?? undefined,
+      updatedAt: row.updatedAt,
     };
   }
 
@@ -721,6 +1912,11 @@ export class SQLiteAdapter implements DatabaseAdapter {
       .where(eq(schema.entityRecords.connectionId, connectionId))
       .run();
 
+    this.db
+      .delete(schema.entityRecordVersions)
+      .where(eq(schema.entityRecordVersions.connectionId, connectionId))
+      .run();
+
     this.db
       .delete(schema.syncState)
       .where(eq(schema.syncState.connectionId, connectionId))
@@ -731,6 +1927,16 @@ export class SQLiteAdapter implements DatabaseAdapter {
       .where(eq(schema.syncProgress.connectionId, connectionId))
       .run();
 
+    this.db
+      .delete(schema.syncJobs)
+      .where(eq(schema.syncJobs.connectionId, connectionId))
+      .run();
+
+    this.db
+      .delete(schema.syncSchedules)
+      .where(eq(schema.syncSchedules.connectionId, connectionId))
+      .run();
+
     // Delete SIE data first (references sie_uploads)
     const uploads = this.db
       .select({ uploadId: schema.sieUploads.uploadId })
@@ -745,11 +1951,20 @@ export class SQLiteAdapter implements DatabaseAdapter {
         .run();
     }
 
+    for (const table of [schema.sieAccounts, schema.sieBalances, schema.sieTransactions]) {
+      this.db.delete(table).where(eq(table.connectionId, connectionId)).run();
+    }
+
     this.db
       .delete(schema.sieUploads)
       .where(eq(schema.sieUploads.connectionId, connectionId))
       .run();
 
+    this.db
+      .delete(schema.sieBudgets)
+      .where(eq(schema.sieBudgets.connectionId, connectionId))
+      .run();
+
     this.db
       .delete(schema.connections)
       .where(eq(schema.connections.connectionId, connectionId))
@@ -919,6 +2134,33 @@ export class SQLiteAdapter implements DatabaseAdapter {
     }
   }
 
+  async replaceConsentTokens(
+    tokens: ConsentTokenRecord,
+    expected: Pick<ConsentTokenRecord, 'accessToken' | 'refreshToken'>,
+  ): Promise<boolean> {
+    const result = this.db
+      .update(schema.consentTokens)
+      .set({
+        accessToken: tokens.accessToken,
+        refreshToken: tokens.refreshToken ?? null,
+        tokenExpiresAt: tokens.tokenExpiresAt ?? null,
+        scopes: tokens.scopes ?? null,
+        encryptedAt: tokens.encryptedAt ?? null,
+      })
+      .where(
+        and(
+          eq(schema.consentTokens.consentId, tokens.consentId),
+          eq(schema.consentTokens.accessToken, expected.accessToken),
+          expected.refreshToken === undefined
+            ? isNull(schema.consentTokens.refreshToken)
+            : eq(schema.consentTokens.refreshToken, expected.refreshToken),
+        ),
+      )
+      .run();
+
+    return result.changes > 0;
+  }
+
   async getConsentTokens(consentId: string): Promise<ConsentTokenRecord | null> {
     const row = this.db
       .select()
@@ -928,15 +2170,24 @@ export class SQLiteAdapter implements DatabaseAdapter {
 
     if (!row) return null;
 
-    return {
-      consentId: row.consentId,
-      provider: row.provider as import('../types/provider.js').ProviderName,
-      accessToken: row.accessToken,
-      refreshToken: row.refreshToken ?? undefined,
-      tokenExpiresAt: row.tokenExpiresAt ?? undefined,
-      scopes: row.scopes ?? undefined,
-      encryptedAt: row.encryptedAt ?? undefined,
-    };
+    return this.rowToConsentTokens(row);
+  }
+
+  async getExpiringConsentTokens(expiresBefore: string): Promise<ConsentTokenRecord[]> {
+    const rows = this.db
+      .select({ tokens: schema.consentTokens })
+      .from(schema.consentTokens)
+      .innerJoin(schema.consents, eq(schema.consents.id, schema.consentTokens.consentId))
+      .where(
+        and(
+          eq(schema.consents.status, ConsentStatus.Accepted),
+          lt(schema.consentTokens.tokenExpiresAt, expiresBefore),
+        ),
+      )
+      .orderBy(asc(schema.consentTokens.tokenExpiresAt))
+      .all();
+
+    return rows.map((row) => this.rowToConsentTokens(row.tokens));
   }
 
   async deleteConsentTokens(consentId: string): Promise<void> {
@@ -993,6 +2244,220 @@ export class SQLiteAdapter implements DatabaseAdapter {
     };
   }
 
+  // ============================================
+  // Webhooks
+  // ============================================
+
+  async upsertWebhookEndpoint(endpoint: WebhookEndpoint): Promise<void> {
+    const existing = this.db
+      .select({ endpointId: schema.webhookEndpoints.endpointId })
+      .from(schema.webhookEndpoints)
+      .where(eq(schema.webhookEndpoints.endpointId, endpoint.endpointId))
+      .get();
+
+    const values = {
+      tenantId: endpoint.tenantId,
+      url: endpoint.url,
+      secret: endpoint.secret,
+      events: endpoint.events,
+      description: endpoint.description,
+      active: endpoint.active,
+      updatedAt: endpoint.updatedAt,
+    };
+
+    if (existing) {
+      this.db
+        .update(schema.webhookEndpoints)
+        .set(values)
+        .where(eq(schema.webhookEndpoints.endpointId, endpoint.endpointId))
+        .run();
+    } else {
+      this.db
+        .insert(schema.webhookEndpoints)
+        .values({ ...values, endpointId: endpoint.endpointId, createdAt: endpoint.createdAt })
+        .run();
+    }
+  }
+
+  async getWebhookEndpoint(endpointId: string): Promise<WebhookEndpoint | null> {
+    const row = this.db
+      .select()
+      .from(schema.webhookEndpoints)
+      .where(eq(schema.webhookEndpoints.endpointId, endpointId))
+      .get();
+
+    return row ? this.rowToWebhookEndpoint(row) : null;
+  }
+
+  async getWebhookEndpoints(tenantId: string): Promise<WebhookEndpoint[]> {
+    const rows = this.db
+      .select()
+      .from(schema.webhookEndpoints)
+      .where(eq(schema.webhookEndpoints.tenantId, tenantId))
+      .orderBy(asc(schema.webhookEndpoints.createdAt))
+      .all();
+
+    return rows.map((row) => this.rowToWebhookEndpoint(row));
+  }
+
+  async deleteWebhookEndpoint(endpointId: string): Promise<void> {
+    this.db
+      .delete(schema.webhookDeliveries)
+      .where(eq(schema.webhookDeliveries.endpointId, endpointId))
+      .run();
+
+    this.db
+      .delete(schema.webhookEndpoints)
+      .where(eq(schema.webhookEndpoints.endpointId, endpointId))
+      .run();
+  }
+
+  async upsertWebhookDelivery(delivery: WebhookDelivery): Promise<void> {
+    const existing = this.db
+      .select({ deliveryId: schema.webhookDeliveries.deliveryId })
+      .from(schema.webhookDeliveries)
+      .where(eq(schema.webhookDeliveries.deliveryId, delivery.deliveryId))
+      .get();
+
+    const values = {
+      status: delivery.status,
+      attempts: delivery.attempts,
+      responseStatus: delivery.responseStatus,
+      error: delivery.error,
+      updatedAt: delivery.updatedAt,
+      deliveredAt: delivery.deliveredAt,
+    };
+
+    if (existing) {
+      this.db
+        .update(schema.webhookDeliveries)
+        .set(values)
+        .where(eq(schema.webhookDeliveries.deliveryId, delivery.deliveryId))
+        .run();
+    } else {
+      this.db
+        .insert(schema.webhookDeliveries)
+        .values({
+          ...values,
+          deliveryId: delivery.deliveryId,
+          endpointId: delivery.endpointId,
+          tenantId: delivery.tenantId,
+          event: delivery.event as unknown as Record<string, unknown>,
+          replayOf: delivery.replayOf,
+          createdAt: delivery.createdAt,
+        })
+        .run();
+    }
+  }
+
+  async getWebhookDelivery(deliveryId: string): Promise<WebhookDelivery | null> {
+    const row = this.db
+      .select()
+      .from(schema.webhookDeliveries)
+      .where(eq(schema.webhookDeliveries.deliveryId, deliveryId))
+      .get();
+
+    return row ? this.rowToWebhookDelivery(row) : null;
+  }
+
+  async getWebhookDeliveries(endpointId: string, limit = 50): Promise<WebhookDelivery[]> {
+    const rows = this.db
+      .select()
+      .from(schema.webhookDeliveries)
+      .where(eq(schema.webhookDeliveries.endpointId, endpointId))
+      .orderBy(desc(schema.webhookDeliveries.createdAt))
+      .limit(limit)
+      .all();
+
+    return rows.map((row) => this.rowToWebhookDelivery(row));
+  }
+
+  private rowToConsentTokens(row: typeof schema.consentTokens.$inferSelect): ConsentTokenRecord {
+    return {
+      consentId: row.consentId,
+      provider: row.provider as ProviderName,
+      accessToken: row.accessToken,
+      refreshToken: row.refreshToken ?? undefined,
+      tokenExpiresAt: row.tokenExpiresAt ?? undefined,
+      scopes: row.scopes ?? undefined,
+      encryptedAt: row.encryptedAt ?? undefined,
+    };
+  }
+
+  private rowToWebhookEndpoint(row: typeof schema.webhookEndpoints.$inferSelect): WebhookEndpoint {
+    return {
+      endpointId: row.endpointId,
+      tenantId: row.tenantId,
+      url: row.url,
+      secret: row.secret,
+      events: row.events as WebhookEventType[],
+      description: row.description,
+      active: row.active,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+
+  private rowToWebhookDelivery(row: typeof schema.webhookDeliveries.$inferSelect): WebhookDelivery {
+    return {
+      deliveryId: row.deliveryId,
+      endpointId: row.endpointId,
+      tenantId: row.tenantId,
+      event: row.event as unknown as WebhookEvent,
+      status: row.status as WebhookDeliveryStatus,
+      attempts: row.attempts,
+      responseStatus: row.responseStatus,
+      error: row.error,
+      replayOf: row.replayOf,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+      deliveredAt: row.deliveredAt,
+    };
+  }
+
+  private rowToSyncSchedule(row: typeof schema.syncSchedules.$inferSelect): SyncSchedule {
+    return {
+      scheduleId: row.scheduleId,
+      connectionId: row.connectionId,
+      provider: row.provider as ProviderName,
+      consentId: row.consentId,
+      cronExpression: row.cronExpression,
+      intervalMinutes: row.intervalMinutes,
+      entityTypes: (row.entityTypes as EntityType[] | null) ?? undefined,
+      includeSIE: row.includeSIE,
+      sieOptions: (row.sieOptions as SyncSchedule['sieOptions'] | null) ?? undefined,
+      paused: row.paused,
+      nextRunAt: row.nextRunAt,
+      lastRunAt: row.lastRunAt,
+      lastJobId: row.lastJobId,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+
+  /** A finished job's payload keeps everything but inline provider credentials. */
+  private payloadWithoutCredentials() {
+    return sql`json_remove(${schema.syncJobs.payload}, '$.credentials')`;
+  }
+
+  private rowToSyncJob(row: typeof schema.syncJobs.$inferSelect): SyncJobRecord {
+    return {
+      jobId: row.jobId,
+      connectionId: row.connectionId,
+      provider: row.provider as ProviderName,
+      status: row.status as SyncStatus,
+      job: row.payload as unknown as SyncJob,
+      attempts: row.attempts,
+      workerId: row.workerId,
+      leaseExpiresAt: row.leaseExpiresAt,
+      heartbeatAt: row.heartbeatAt,
+      cancelRequested: row.cancelRequested,
+      error: row.error,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+
   private rowToCanonicalEntity(row: typeof schema.entityRecords.$inferSelect): CanonicalEntityRecord {
     return {
       external_id: row.externalId,
@@ -1009,6 +2474,32 @@ export class SQLiteAdapter implements DatabaseAdapter {
       raw_data: row.rawData,
       last_modified: row.lastModified,
       content_hash: row.contentHash,
+      deleted_at: row.deletedAt,
+    };
+  }
+
+  private rowToEntityVersion(row: typeof schema.entityRecordVersions.$inferSelect): EntityRecordVersion {
+    return {
+      version: row.version,
+      changeType: row.changeType as EntityChangeType,
+      recordedAt: row.recordedAt,
+      record: {
+        external_id: row.externalId,
+        entity_type: row.entityType as EntityType,
+        provider: row.provider as ProviderName,
+        fiscal_year: row.fiscalYear,
+        document_date: row.documentDate,
+        due_date: row.dueDate,
+        counterparty_number: row.counterpartyNumber,
+        counterparty_name: row.counterpartyName,
+        amount: row.amount,
+        currency: row.currency,
+        status: row.status,
+        raw_data: row.rawData,
+        last_modified: row.lastModified,
+        content_hash: row.contentHash,
+        deleted_at: row.deletedAt,
+      },
     };
   }
 }
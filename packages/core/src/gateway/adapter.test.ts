@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  buildProviderCredentials,
+  parseResourceQuery,
+  stripRaw,
+  listGatewayResource,
+  getGatewayResource,
+} from './adapter.js';
+import { GatewayHandler } from './handler.js';
+import { ResourceType } from '../types/dto/resource-type.js';
+import '../providers/fortnox/index.js';
+import '../providers/bokio/index.js';
+
+const originalFetch = globalThis.fetch;
+
+function mockResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+describe('buildProviderCredentials', () => {
+  it('passes the company ID as companyId for Bokio', () => {
+    expect(buildProviderCredentials('bokio', 'tok', 'c1')).toEqual({ accessToken: 'tok', companyId: 'c1' });
+  });
+
+  it('passes the company ID as userKey for Björn Lundén', () => {
+    expect(buildProviderCredentials('bjornlunden', 'tok', 'k1')).toEqual({ accessToken: 'tok', userKey: 'k1' });
+  });
+
+  it('ignores the company ID for OAuth providers', () => {
+    expect(buildProviderCredentials('fortnox', 'tok', 'ignored')).toEqual({ accessToken: 'tok' });
+  });
+});
+
+describe('parseResourceQuery', () => {
+  it('applies defaults', () => {
+    expect(parseResourceQuery({})).toEqual({ page: 1, pageSize: 50, includeEntries: true });
+  });
+
+  it('caps page size and ignores invalid numbers', () => {
+    const options = parseResourceQuery({ page: '-2', pageSize: '10000' });
+    expect(options.page).toBe(1);
+    expect(options.pageSize).toBe(500);
+  });
+
+  it('accepts legacy aliases', () => {
+    const options = parseResourceQuery({ financialyear: '3', modifiedSince: '2024-01-01' });
+    expect(options.fiscalYear).toBe(3);
+    expect(options.lastModified).toBe('2024-01-01');
+  });
+
+  it('maps includeEntries=false and the Bokio query filter', () => {
+    const options = parseResourceQuery({ includeEntries: 'false', query: 'status==paid' });
+    expect(options.includeEntries).toBe(false);
+    expect(options.filter).toEqual({ query: 'status==paid' });
+  });
+});
+
+describe('stripRaw', () => {
+  it('removes only the _raw field', () => {
+    expect(stripRaw({ id: '1', _raw: { a: 1 } })).toEqual({ id: '1' });
+  });
+});
+
+describe('gateway resource helpers', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  const handler = new GatewayHandler();
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    globalThis.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    vi.restoreAllMocks();
+  });
+
+  it('lists resources without _raw', async () => {
+    fetchMock.mockResolvedValueOnce(
+      mockResponse({
+        Customers: [{ CustomerNumber: '1', Name: 'Kund AB' }],
+        MetaInformation: { '@TotalResources': 1, '@TotalPages': 1, '@CurrentPage': 1 },
+      }),
+    );
+
+    const result = await listGatewayResource(
+      handler,
+      'fortnox',
+      { accessToken: 'tok' },
+      ResourceType.Customers,
+      { pageSize: '10' },
+    );
+
+    expect(result.data).toHaveLength(1);
+    expect(result.data[0]).not.toHaveProperty('_raw');
+    expect(result.data[0]!['customerNumber']).toBe('1');
+    expect(fetchMock.mock.calls[0]![0]).toContain('limit=10');
+  });
+
+  it('serves Bokio supplier resources as empty lists', async () => {
+    const result = await listGatewayResource(
+      handler,
+      'bokio',
+      buildProviderCredentials('bokio', 'tok', 'c1'),
+      ResourceType.Suppliers,
+    );
+
+    expect(result).toEqual({ data: [], page: 1, pageSize: 0, totalCount: 0, hasMore: false });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('returns null for a missing resource', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('Not Found', { status: 404 }));
+
+    const result = await getGatewayResource(
+      handler,
+      'fortnox',
+      { accessToken: 'tok' },
+      ResourceType.Customers,
+      '404',
+    );
+
+    expect(result).toBeNull();
+  });
+});
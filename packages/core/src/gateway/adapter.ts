@@ -0,0 +1,107 @@
+import type { ProviderCredentials, ProviderName } from '../types/provider.js';
+import type { ResourceQueryOptions } from '../providers/base-v2.js';
+import type { PaginatedResponse } from '../types/dto/common.js';
+import type { ResourceType } from '../types/dto/resource-type.js';
+import type { GatewayHandler } from './handler.js';
+
+type QueryParams = Record<string, string | undefined>;
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+function toPositiveInt(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? n : undefined;
+}
+
+/**
+ * Build provider credentials from a stored consent token.
+ * Bokio and Björn Lundén scope every call by a provider-side company
+ * identifier, stored next to the token as `provider_company_id`.
+ */
+export function buildProviderCredentials(
+  provider: ProviderName,
+  accessToken: string,
+  providerCompanyId?: string | null,
+): ProviderCredentials {
+  if (provider === 'bokio') {
+    return { accessToken, companyId: providerCompanyId ?? undefined };
+  }
+  if (provider === 'bjornlunden') {
+    return { accessToken, userKey: providerCompanyId ?? undefined };
+  }
+  return { accessToken };
+}
+
+/**
+ * Translate raw query-string parameters into ResourceQueryOptions.
+ * Accepts the legacy gateway aliases `financialyear` and `modifiedSince`.
+ */
+export function parseResourceQuery(query: QueryParams): ResourceQueryOptions {
+  const options: ResourceQueryOptions = {
+    page: toPositiveInt(query['page']) ?? 1,
+    pageSize: Math.min(toPositiveInt(query['pageSize']) ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE),
+    // Fortnox voucher rows are only returned by the detail endpoint; hydrate unless opted out
+    includeEntries: query['includeEntries'] !== 'false',
+  };
+
+  const lastModified = query['lastModified'] ?? query['modifiedSince'];
+  if (lastModified) options.lastModified = lastModified;
+  if (query['fromDate']) options.fromDate = query['fromDate'];
+  if (query['toDate']) options.toDate = query['toDate'];
+
+  const fiscalYear = toPositiveInt(query['fiscalYear'] ?? query['financialyear']);
+  if (fiscalYear) options.fiscalYear = fiscalYear;
+
+  if (query['query']) options.filter = { query: query['query'] };
+
+  return options;
+}
+
+/**
+ * Remove the `_raw` provider payload from a mapped DTO.
+ */
+export function stripRaw(dto: Record<string, unknown>): Record<string, unknown> {
+  const { _raw, ...rest } = dto;
+  return rest;
+}
+
+/**
+ * List a resource in the wire format served by the Supabase edge gateway:
+ * query parsing, provider dispatch and mapping all happen in core.
+ */
+export async function listGatewayResource(
+  handler: GatewayHandler,
+  provider: ProviderName,
+  credentials: ProviderCredentials,
+  resourceType: ResourceType,
+  query: QueryParams = {},
+): Promise<PaginatedResponse<Record<string, unknown>>> {
+  const result = await handler.listResource<Record<string, unknown>>(
+    provider,
+    credentials,
+    resourceType,
+    parseResourceQuery(query),
+  );
+  return { ...result, data: result.data.map((item) => stripRaw(item)) };
+}
+
+/**
+ * Fetch a single resource in wire format. Returns null when not found.
+ */
+export async function getGatewayResource(
+  handler: GatewayHandler,
+  provider: ProviderName,
+  credentials: ProviderCredentials,
+  resourceType: ResourceType,
+  resourceId: string,
+): Promise<Record<string, unknown> | null> {
+  const result = await handler.getResource<Record<string, unknown>>(
+    provider,
+    credentials,
+    resourceType,
+    resourceId,
+  );
+  return result ? stripRaw(result) : null;
+}
@@ -1,11 +1,18 @@
 import type { ProviderCredentials } from '../types/provider.js';
-import type { AccountingProviderV2, ResourceQueryOptions } from '../providers/base-v2.js';
+import type { AccountingProviderV2, ResourceCapabilities, ResourceQueryOptions } from '../providers/base-v2.js';
 import type { PaginatedResponse } from '../types/dto/common.js';
 import type { ResourceType } from '../types/dto/resource-type.js';
 import { getProvider } from '../providers/index.js';
 import type { ProviderName } from '../types/provider.js';
 
 export class GatewayHandler {
+  /**
+   * Describe which resource types a provider supports in gateway mode.
+   */
+  getResourceCapabilities(providerName: ProviderName): ResourceCapabilities {
+    return this.getV2Provider(providerName).getResourceCapabilities();
+  }
+
   /**
    * List resources from a provider in real-time (gateway mode).
    */
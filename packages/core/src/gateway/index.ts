@@ -1 +1,67 @@
+// Runtime-neutral entry point (`@arcim-sync/core/gateway`).
+// Nothing reachable from here may depend on SQLite or the filesystem, so the
+// Supabase edge function can load it under Deno.
+
 export { GatewayHandler } from './handler.js';
+export {
+  buildProviderCredentials,
+  parseResourceQuery,
+  stripRaw,
+  listGatewayResource,
+  getGatewayResource,
+} from './adapter.js';
+
+// Provider registry — each provider module registers itself on import
+export {
+  getProvider,
+  registerProvider,
+  getRegisteredProviders,
+  type AccountingProviderV2,
+  type ResourceCapabilities,
+  type ResourceQueryOptions,
+} from '../providers/index.js';
+
+export { FortnoxProvider } from '../providers/fortnox/index.js';
+export {
+  buildFortnoxAuthUrl,
+  exchangeFortnoxCode,
+  refreshFortnoxToken,
+  revokeFortnoxToken,
+} from '../providers/fortnox/oauth.js';
+
+export { VismaProvider } from '../providers/visma/index.js';
+export {
+  buildVismaAuthUrl,
+  exchangeVismaCode,
+  refreshVismaToken,
+  revokeVismaToken,
+} from '../providers/visma/oauth.js';
+
+export { BrioxProvider } from '../providers/briox/index.js';
+export { exchangeBrioxCode, refreshBrioxToken } from '../providers/briox/oauth.js';
+
+export { BokioProvider } from '../providers/bokio/index.js';
+
+export { BjornLundenProvider } from '../providers/bjornlunden/index.js';
+export { BjornLundenClient } from '../providers/bjornlunden/client.js';
+export { fetchBjornLundenToken } from '../providers/bjornlunden/oauth.js';
+export { OAuthTokenError } from '../providers/oauth-error.js';
+
+// Token refresh
+export {
+  refreshConsentTokens,
+  refreshExpiringTokens,
+  resolveConsentCredentials,
+  type ConsentTokenStore,
+  type ProviderOAuthConfigs,
+  type TokenRefreshOptions,
+  type RefreshExpiringTokensOptions,
+  type ResolveConsentCredentialsOptions,
+  type TokenRefreshSummary,
+} from './token-refresh.js';
+
+// Types
+export type { ProviderName, ProviderCredentials } from '../types/provider.js';
+export { ConsentStatus, type ConsentRecord, type ConsentTokenRecord } from '../types/consent.js';
+export { ProviderNameSchema } from '../types/provider.js';
+export * from '../types/dto/index.js';
@@ -0,0 +1,299 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { SQLiteAdapter } from '../db/sqlite-adapter.js';
+import { ConsentStatus, type ConsentRecord, type ConsentTokenRecord } from '../types/consent.js';
+import { createAESEncryption } from '../utils/crypto.js';
+import { OAuthTokenError } from '../providers/oauth-error.js';
+import { refreshConsentTokens, refreshExpiringTokens, type TokenRefreshOptions } from './token-refresh.js';
+
+const encryption = createAESEncryption('a'.repeat(64));
+
+interface TokenRequest {
+  path: string;
+  body: string;
+}
+
+/**
+ * Local stand-in for the providers' token endpoints. Accepts the refresh
+ * tokens in `validRefreshTokens`, answers 400 invalid_grant for any other,
+ * and 503 for every request while `unavailable` is set.
+ */
+async function startOAuthServer() {
+  const state = {
+    validRefreshTokens: new Set<string>(),
+    unavailable: false,
+    requests: [] as TokenRequest[],
+  };
+  let issued = 0;
+
+  const server: Server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      state.requests.push({ path: url.pathname, body });
+
+      if (state.unavailable) {
+        res.statusCode = 503;
+        res.end('maintenance');
+        return;
+      }
+
+      const params = url.pathname.endsWith('/tokenrefresh') ? url.searchParams : new URLSearchParams(body);
+      const grant = params.get('grant_type') ?? 'refresh_token';
+      const refreshToken = params.get('refresh_token') ?? params.get('refreshtoken');
+
+      if (grant === 'refresh_token' && !state.validRefreshTokens.has(refreshToken ?? '')) {
+        res.statusCode = 400;
+        res.end(JSON.stringify({ error: 'invalid_grant' }));
+        return;
+      }
+
+      issued++;
+      res.setHeader('Content-Type', 'application/json');
+      if (url.pathname.endsWith('/tokenrefresh')) {
+        res.end(JSON.stringify({
+          data: {
+            access_token: `access-${issued}`,
+            refresh_token: `refresh-${issued}`,
+            expire_timestamp: Math.floor(Date.now() / 1000) + 3600,
+          },
+        }));
+        return;
+      }
+      res.end(JSON.stringify({
+        access_token: `access-${issued}`,
+        refresh_token: grant === 'refresh_token' ? `refresh-${issued}` : undefined,
+        token_type: 'Bearer',
+        expires_in: 3600,
+      }));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  // Route every provider token URL to the local server, keeping path and query
+  const fetchFn: typeof fetch = (input, init) => {
+    const target = new URL(String(input));
+    return fetch(`http://127.0.0.1:${port}${target.pathname}${target.search}`, init);
+  };
+
+  return {
+    state,
+    fetchFn,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+describe('token refresh', () => {
+  let db: SQLiteAdapter;
+  let oauth: Awaited<ReturnType<typeof startOAuthServer>>;
+  let options: TokenRefreshOptions;
+
+  async function seedConsent(
+    id: string,
+    provider: ConsentRecord['provider'],
+    tokens: Partial<ConsentTokenRecord> & { accessToken: string },
+    status: ConsentStatus = ConsentStatus.Accepted,
+  ) {
+    await db.upsertConsent({
+      id,
+      tenantId: 'tenant-1',
+      name: id,
+      status,
+      provider,
+      etag: 'etag-1',
+      createdAt: '2024-03-15T10:00:00Z',
+      updatedAt: '2024-03-15T10:00:00Z',
+    });
+    await db.storeConsentTokens({
+      consentId: id,
+      provider,
+      ...tokens,
+      accessToken: encryption.encrypt(tokens.accessToken),
+      refreshToken: tokens.refreshToken ? encryption.encrypt(tokens.refreshToken) : undefined,
+      encryptedAt: '2024-03-15T10:00:00Z',
+    });
+  }
+
+  function minutesFromNow(minutes: number): string {
+    return new Date(Date.now() + minutes * 60_000).toISOString();
+  }
+
+  beforeEach(async () => {
+    db = new SQLiteAdapter(':memory:');
+    await db.migrate();
+    oauth = await startOAuthServer();
+    options = {
+      oauth: {
+        fortnox: { clientId: 'fx-id', clientSecret: 'fx-secret', redirectUri: 'https://app.example.com/cb' },
+        visma: { clientId: 'vi-id', clientSecret: 'vi-secret', redirectUri: 'https://app.example.com/cb' },
+        briox: { clientId: 'bx-id' },
+        bjornlunden: { clientId: 'bl-id', clientSecret: 'bl-secret' },
+      },
+      tokenEncryption: encryption,
+      fetchFn: oauth.fetchFn,
+    };
+  });
+
+  afterEach(async () => {
+    await oauth.close();
+  });
+
+  describe('refreshConsentTokens', () => {
+    it('refreshes with the decrypted refresh token and stores the new tokens encrypted', async () => {
+      oauth.state.validRefreshTokens.add('fx-refresh');
+      await seedConsent('c-1', 'fortnox', {
+        accessToken: 'fx-access',
+        refreshToken: 'fx-refresh',
+        tokenExpiresAt: minutesFromNow(5),
+      });
+
+      const refreshed = await refreshConsentTokens(db, (await db.getConsentTokens('c-1'))!, options);
+
+      expect(refreshed.accessToken).toBe('access-1');
+      expect(refreshed.refreshToken).toBe('refresh-1');
+      expect(oauth.state.requests[0]!.path).toBe('/oauth-v1/token');
+      expect(oauth.state.requests[0]!.body).toContain('refresh_token=fx-refresh');
+
+      const stored = (await db.getConsentTokens('c-1'))!;
+      expect(stored.accessToken).not.toBe('access-1');
+      expect(encryption.decrypt(stored.accessToken)).toBe('access-1');
+      expect(encryption.decrypt(stored.refreshToken!)).toBe('refresh-1');
+      expect(new Date(stored.tokenExpiresAt!).getTime()).toBeGreaterThan(Date.now() + 3500_000);
+    });
+
+    it('uses client credentials for Björn Lundén and keeps no refresh token', async () => {
+      await seedConsent('c-1', 'bjornlunden', { accessToken: 'bl-access', tokenExpiresAt: minutesFromNow(5) });
+
+      const refreshed = await refreshConsentTokens(db, (await db.getConsentTokens('c-1'))!, options);
+
+      expect(refreshed.accessToken).toBe('access-1');
+      expect(refreshed.refreshToken).toBeUndefined();
+      expect(oauth.state.requests[0]!.path).toBe('/auth/oauth/v2/token');
+      expect(oauth.state.requests[0]!.body).toContain('grant_type=client_credentials');
+    });
+
+    it('marks the consent inactive when the refresh token is rejected', async () => {
+      await seedConsent('c-1', 'visma', {
+        accessToken: 'vi-access',
+        refreshToken: 'revoked',
+        tokenExpiresAt: minutesFromNow(5),
+      });
+
+      const error = await refreshConsentTokens(db, (await db.getConsentTokens('c-1'))!, options)
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(OAuthTokenError);
+      expect((error as OAuthTokenError).statusCode).toBe(400);
+      const consent = (await db.getConsent('c-1'))!;
+      expect(consent.status).toBe(ConsentStatus.Inactive);
+      expect(consent.etag).not.toBe('etag-1');
+    });
+
+    it('returns the tokens another process rotated instead of deactivating the consent', async () => {
+      oauth.state.validRefreshTokens.add('fx-refresh');
+      await seedConsent('c-1', 'fortnox', {
+        accessToken: 'fx-access',
+        refreshToken: 'fx-refresh',
+        tokenExpiresAt: minutesFromNow(5),
+      });
+      const stale = (await db.getConsentTokens('c-1'))!;
+
+      await refreshConsentTokens(db, stale, options);
+      // Fortnox invalidates a refresh token once it has been used
+      oauth.state.validRefreshTokens.delete('fx-refresh');
+      const refreshed = await refreshConsentTokens(db, stale, options);
+
+      expect(refreshed.accessToken).toBe('access-1');
+      expect(refreshed.refreshToken).toBe('refresh-1');
+      expect((await db.getConsent('c-1'))!.status).toBe(ConsentStatus.Accepted);
+    });
+
+    it('keeps tokens that another process stored while the refresh was in flight', async () => {
+      oauth.state.validRefreshTokens.add('fx-refresh');
+      await seedConsent('c-1', 'fortnox', {
+        accessToken: 'fx-access',
+        refreshToken: 'fx-refresh',
+        tokenExpiresAt: minutesFromNow(5),
+      });
+      const stale = (await db.getConsentTokens('c-1'))!;
+      await db.storeConsentTokens({
+        ...stale,
+        accessToken: encryption.encrypt('other-access'),
+        refreshToken: encryption.encrypt('other-refresh'),
+      });
+
+      const refreshed = await refreshConsentTokens(db, stale, options);
+
+      expect(refreshed.accessToken).toBe('other-access');
+      expect(refreshed.refreshToken).toBe('other-refresh');
+      expect(encryption.decrypt((await db.getConsentTokens('c-1'))!.accessToken)).toBe('other-access');
+    });
+
+    it('leaves the consent active when the provider fails transiently', async () => {
+      oauth.state.unavailable = true;
+      await seedConsent('c-1', 'fortnox', {
+        accessToken: 'fx-access',
+        refreshToken: 'fx-refresh',
+        tokenExpiresAt: minutesFromNow(5),
+      });
+
+      await expect(
+        refreshConsentTokens(db, (await db.getConsentTokens('c-1'))!, options),
+      ).rejects.toThrow('Fortnox token refresh failed: 503');
+      expect((await db.getConsent('c-1'))!.status).toBe(ConsentStatus.Accepted);
+    });
+  });
+
+  describe('refreshExpiringTokens', () => {
+    it('refreshes only accepted consents that expire within the window', async () => {
+      oauth.state.validRefreshTokens.add('fx-refresh').add('bx-refresh').add('fx-later');
+      await seedConsent('expiring-fortnox', 'fortnox', {
+        accessToken: 'a', refreshToken: 'fx-refresh', tokenExpiresAt: minutesFromNow(10),
+      });
+      await seedConsent('expired-briox', 'briox', {
+        accessToken: 'b', refreshToken: 'bx-refresh', tokenExpiresAt: minutesFromNow(-60),
+      });
+      await seedConsent('later', 'fortnox', {
+        accessToken: 'c', refreshToken: 'fx-later', tokenExpiresAt: minutesFromNow(120),
+      });
+      await seedConsent('revoked', 'fortnox', {
+        accessToken: 'd', refreshToken: 'fx-refresh', tokenExpiresAt: minutesFromNow(10),
+      }, ConsentStatus.Revoked);
+      await seedConsent('bokio', 'bokio', { accessToken: 'e' });
+
+      const summary = await refreshExpiringTokens(db, options);
+
+      expect(summary).toEqual({ checked: 2, refreshed: 2, deactivated: 0, failed: 0, errors: [] });
+      expect(oauth.state.requests.map((r) => r.path).sort()).toEqual(['/oauth-v1/token', '/v2/tokenrefresh']);
+      expect(encryption.decrypt((await db.getConsentTokens('later'))!.accessToken)).toBe('c');
+      expect(encryption.decrypt((await db.getConsentTokens('revoked'))!.accessToken)).toBe('d');
+    });
+
+    it('keeps going past rejected and failing consents and reports them', async () => {
+      oauth.state.validRefreshTokens.add('fx-refresh');
+      await seedConsent('ok', 'fortnox', {
+        accessToken: 'a', refreshToken: 'fx-refresh', tokenExpiresAt: minutesFromNow(1),
+      });
+      await seedConsent('rejected', 'fortnox', {
+        accessToken: 'b', refreshToken: 'stale', tokenExpiresAt: minutesFromNow(2),
+      });
+      await seedConsent('no-refresh-token', 'visma', {
+        accessToken: 'c', tokenExpiresAt: minutesFromNow(3),
+      });
+
+      const summary = await refreshExpiringTokens(db, options);
+
+      expect(summary.checked).toBe(3);
+      expect(summary.refreshed).toBe(1);
+      expect(summary.deactivated).toBe(1);
+      expect(summary.failed).toBe(1);
+      expect(summary.errors.map((e) => e.consentId)).toEqual(['rejected', 'no-refresh-token']);
+      expect((await db.getConsent('rejected'))!.status).toBe(ConsentStatus.Inactive);
+      expect((await db.getConsent('no-refresh-token'))!.status).toBe(ConsentStatus.Accepted);
+    });
+  });
+});
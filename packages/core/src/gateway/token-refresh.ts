@@ -0,0 +1,289 @@
+import type { DatabaseAdapter } from '../types/database.js';
+import { ConsentStatus, type ConsentTokenRecord } from '../types/consent.js';
+import type { ProviderCredentials, ProviderName } from '../types/provider.js';
+import type { TokenEncryption } from '../utils/crypto.js';
+import { noopLogger, type Logger } from '../utils/logger.js';
+import { OAuthTokenError } from '../providers/oauth-error.js';
+import { refreshFortnoxToken } from '../providers/fortnox/oauth.js';
+import { refreshVismaToken } from '../providers/visma/oauth.js';
+import { refreshBrioxToken } from '../providers/briox/oauth.js';
+import { fetchBjornLundenToken } from '../providers/bjornlunden/oauth.js';
+import type { FortnoxOAuthConfig } from '../providers/fortnox/types.js';
+import type { VismaOAuthConfig } from '../providers/visma/types.js';
+import type { BrioxOAuthConfig } from '../providers/briox/types.js';
+import type { BLClientCredentialsConfig } from '../providers/bjornlunden/types.js';
+
+const DEFAULT_REFRESH_WINDOW_MS = 30 * 60 * 1000;
+const DEFAULT_RESOLVE_WINDOW_MS = 60 * 1000;
+
+/** OAuth client settings for each provider whose tokens can be refreshed. */
+export interface ProviderOAuthConfigs {
+  fortnox?: FortnoxOAuthConfig;
+  visma?: VismaOAuthConfig;
+  briox?: BrioxOAuthConfig;
+  bjornlunden?: BLClientCredentialsConfig;
+}
+
+export interface TokenRefreshOptions {
+  oauth: ProviderOAuthConfigs;
+  /** Decrypts stored tokens and encrypts refreshed ones. Omit when tokens are stored in plain text. */
+  tokenEncryption?: TokenEncryption;
+  fetchFn?: typeof fetch;
+}
+
+export interface RefreshExpiringTokensOptions extends TokenRefreshOptions {
+  /** Refresh access tokens that expire within this window. Default: 30 minutes */
+  windowMs?: number;
+  logger?: Logger;
+  now?: Date;
+}
+
+/**
+ * The storage token refresh needs. Every DatabaseAdapter provides it; runtimes
+ * without one, such as the Supabase gateway, can implement just these.
+ */
+export type ConsentTokenStore = Pick<
+  DatabaseAdapter,
+  'getConsent' | 'upsertConsent' | 'getConsentTokens' | 'replaceConsentTokens'
+>;
+
+export interface ResolveConsentCredentialsOptions extends TokenRefreshOptions {
+  /** Refresh first when the access token expires within this window. Default: 1 minute */
+  windowMs?: number;
+}
+
+export interface TokenRefreshSummary {
+  checked: number;
+  refreshed: number;
+  /** Consents marked Inactive because the provider rejected their refresh token */
+  deactivated: number;
+  failed: number;
+  errors: Array<{ consentId: string; error: string }>;
+}
+
+interface ProviderTokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in: number;
+}
+
+function requireConfig<T>(config: T | undefined, provider: ProviderName): T {
+  if (!config) {
+    throw new Error(`No OAuth client configured for provider: ${provider}`);
+  }
+  return config;
+}
+
+function requestNewTokens(
+  provider: ProviderName,
+  refreshToken: string | undefined,
+  options: TokenRefreshOptions,
+): Promise<ProviderTokenResponse> {
+  const fetchFn = options.fetchFn ?? fetch;
+
+  // Björn Lundén issues no refresh tokens — a new client credentials grant replaces the old token
+  if (provider === 'bjornlunden') {
+    return fetchBjornLundenToken(requireConfig(options.oauth.bjornlunden, provider), fetchFn);
+  }
+
+  if (!refreshToken) {
+    throw new Error('No refresh token stored for this consent');
+  }
+
+  switch (provider) {
+    case 'fortnox':
+      return refreshFortnoxToken(requireConfig(options.oauth.fortnox, provider), refreshToken, fetchFn);
+    case 'visma':
+      return refreshVismaToken(requireConfig(options.oauth.visma, provider), refreshToken, fetchFn);
+    case 'briox':
+      return refreshBrioxToken(requireConfig(options.oauth.briox, provider), refreshToken, fetchFn);
+    default:
+      throw new Error(`Token refresh is not supported for provider: ${provider}`);
+  }
+}
+
+/**
+ * A rejected client credentials grant means our own client is misconfigured,
+ * so only a rejected refresh token says anything about the consent itself.
+ */
+function isRefreshTokenRejected(provider: ProviderName, error: unknown): boolean {
+  return provider !== 'bjornlunden' && error instanceof OAuthTokenError && error.rejected;
+}
+
+function decryptTokens(tokens: ConsentTokenRecord, encryption: TokenEncryption | undefined): ConsentTokenRecord {
+  if (!encryption) return tokens;
+  return {
+    ...tokens,
+    accessToken: encryption.decrypt(tokens.accessToken),
+    refreshToken: tokens.refreshToken ? encryption.decrypt(tokens.refreshToken) : undefined,
+    encryptedAt: undefined,
+  };
+}
+
+/** Tokens stored by whoever rotated them after `stored` was read, or null if nobody did. */
+async function rotatedSince(
+  db: ConsentTokenStore,
+  stored: ConsentTokenRecord,
+): Promise<ConsentTokenRecord | null> {
+  const current = await db.getConsentTokens(stored.consentId);
+  if (!current) {
+    throw new Error(`No tokens stored for consent ${stored.consentId}`);
+  }
+  const unchanged = current.accessToken === stored.accessToken && current.refreshToken === stored.refreshToken;
+  return unchanged ? null : current;
+}
+
+async function deactivateConsent(db: ConsentTokenStore, consentId: string): Promise<void> {
+  const consent = await db.getConsent(consentId);
+  if (!consent || consent.status !== ConsentStatus.Accepted) return;
+
+  await db.upsertConsent({
+    ...consent,
+    status: ConsentStatus.Inactive,
+    etag: crypto.randomUUID(),
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Refresh the stored tokens of one consent and persist the new ones.
+ * Takes the record as stored (encrypted when `tokenEncryption` is set) and
+ * returns the refreshed tokens in plain text.
+ *
+ * Other processes refresh the same rotating tokens, so the new tokens are
+ * written with a compare-and-swap on the ones that were read. If another
+ * writer got there first, its tokens are returned instead. A rejected refresh
+ * token likewise only marks the consent Inactive (and rethrows the
+ * OAuthTokenError) when nobody has rotated it in the meantime.
+ */
+export async function refreshConsentTokens(
+  db: ConsentTokenStore,
+  stored: ConsentTokenRecord,
+  options: TokenRefreshOptions,
+): Promise<ConsentTokenRecord> {
+  const encryption = options.tokenEncryption;
+  const refreshToken = stored.refreshToken && encryption
+    ? encryption.decrypt(stored.refreshToken)
+    : stored.refreshToken;
+
+  let response: ProviderTokenResponse;
+  try {
+    response = await requestNewTokens(stored.provider, refreshToken, options);
+  } catch (error) {
+    if (isRefreshTokenRejected(stored.provider, error)) {
+      const current = await rotatedSince(db, stored);
+      if (current) return decryptTokens(current, encryption);
+      await deactivateConsent(db, stored.consentId);
+    }
+    throw error;
+  }
+
+  const refreshed: ConsentTokenRecord = {
+    ...stored,
+    accessToken: response.access_token,
+    // Keep the old refresh token if the provider did not rotate it
+    refreshToken: response.refresh_token || refreshToken,
+    tokenExpiresAt: new Date(Date.now() + response.expires_in * 1000).toISOString(),
+    encryptedAt: undefined,
+  };
+
+  const replaced = await db.replaceConsentTokens(
+    encryption
+      ? {
+        ...refreshed,
+        accessToken: encryption.encrypt(refreshed.accessToken),
+        refreshToken: refreshed.refreshToken ? encryption.encrypt(refreshed.refreshToken) : undefined,
+        encryptedAt: new Date().toISOString(),
+      }
+      : refreshed,
+    { accessToken: stored.accessToken, refreshToken: stored.refreshToken },
+  );
+  if (!replaced) {
+    const current = await rotatedSince(db, stored);
+    if (current) return decryptTokens(current, encryption);
+  }
+
+  return refreshed;
+}
+
+/**
+ * Credentials from the managed tokens of an accepted consent, refreshed first
+ * when the access token is about to expire. For work that runs outside a
+ * request, such as queued and scheduled syncs.
+ */
+export async function resolveConsentCredentials(
+  db: ConsentTokenStore,
+  consentId: string,
+  options: ResolveConsentCredentialsOptions,
+): Promise<ProviderCredentials> {
+  const consent = await db.getConsent(consentId);
+  if (!consent || consent.status !== ConsentStatus.Accepted) {
+    throw new Error(`Consent ${consentId} is not active`);
+  }
+
+  const stored = await db.getConsentTokens(consentId);
+  if (!stored) {
+    throw new Error(`No tokens stored for consent ${consentId}`);
+  }
+
+  const windowMs = options.windowMs ?? DEFAULT_RESOLVE_WINDOW_MS;
+  const expiresSoon = stored.provider !== 'bokio'
+    && stored.tokenExpiresAt !== undefined
+    && new Date(stored.tokenExpiresAt).getTime() - Date.now() < windowMs;
+  if (expiresSoon) {
+    const refreshed = await refreshConsentTokens(db, stored, options);
+    return { accessToken: refreshed.accessToken };
+  }
+
+  return { accessToken: decryptTokens(stored, options.tokenEncryption).accessToken };
+}
+
+/**
+ * Refresh every accepted consent whose access token expires within the window.
+ * Failures are collected per consent so one bad token does not stop the run.
+ */
+export async function refreshExpiringTokens(
+  db: DatabaseAdapter,
+  options: RefreshExpiringTokensOptions,
+): Promise<TokenRefreshSummary> {
+  const logger = options.logger ?? noopLogger;
+  const now = options.now ?? new Date();
+  const expiresBefore = new Date(now.getTime() + (options.windowMs ?? DEFAULT_REFRESH_WINDOW_MS)).toISOString();
+
+  const expiring = await db.getExpiringConsentTokens(expiresBefore);
+  const summary: TokenRefreshSummary = {
+    checked: expiring.length,
+    refreshed: 0,
+    deactivated: 0,
+    failed: 0,
+    errors: [],
+  };
+
+  for (const stored of expiring) {
+    try {
+      await refreshConsentTokens(db, stored, options);
+      summary.refreshed++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      summary.errors.push({ consentId: stored.consentId, error: message });
+
+      if (isRefreshTokenRejected(stored.provider, error)) {
+        summary.deactivated++;
+        logger.warn('Refresh token rejected, consent marked inactive', {
+          consentId: stored.consentId,
+          provider: stored.provider,
+        });
+      } else {
+        summary.failed++;
+        logger.error('Token refresh failed', {
+          consentId: stored.consentId,
+          provider: stored.provider,
+          error: message,
+        });
+      }
+    }
+  }
+
+  logger.info('Token refresh run finished', { ...summary, errors: summary.errors.length });
+  return summary;
+}
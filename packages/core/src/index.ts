@@ -30,15 +30,46 @@ export {
   revokeVismaToken,
 } from './providers/visma/oauth.js';
 
+// Briox provider
+export { BrioxProvider } from './providers/briox/index.js';
+export {
+  exchangeBrioxCode,
+  refreshBrioxToken,
+} from './providers/briox/oauth.js';
+
+// Bokio provider
+export { BokioProvider } from './providers/bokio/index.js';
+
+// Björn Lundén provider
+export { BjornLundenProvider } from './providers/bjornlunden/index.js';
+export { fetchBjornLundenToken } from './providers/bjornlunden/oauth.js';
+export { OAuthTokenError } from './providers/oauth-error.js';
+
 // Database adapters
 export { SQLiteAdapter } from './db/index.js';
 
 // Sync engine
-export { SyncEngine, type SyncEngineOptions } from './sync/index.js';
+export {
+  SyncEngine,
+  type SyncEngineOptions,
+  type ExecuteSyncOptions,
+  SyncLeaseLostError,
+  SyncWorker,
+  type SyncWorkerOptions,
+  enqueueSync,
+  SyncScheduler,
+  type SyncSchedulerOptions,
+  computeNextRunAt,
+  parseCronExpression,
+  isValidCronExpression,
+  nextCronRun,
+  type CronSchedule,
+} from './sync/index.js';
 
 // Utilities
 export {
   contentHash,
+  diffEntityRecords,
   withRetry,
   type RetryOptions,
   TokenBucketRateLimiter,
@@ -50,4 +81,20 @@ export {
 } from './utils/index.js';
 
 // Gateway
-export { GatewayHandler } from './gateway/index.js';
+export {
+  GatewayHandler,
+  buildProviderCredentials,
+  parseResourceQuery,
+  stripRaw,
+  listGatewayResource,
+  getGatewayResource,
+  refreshConsentTokens,
+  refreshExpiringTokens,
+  resolveConsentCredentials,
+  type ConsentTokenStore,
+  type ProviderOAuthConfigs,
+  type TokenRefreshOptions,
+  type RefreshExpiringTokensOptions,
+  type ResolveConsentCredentialsOptions,
+  type TokenRefreshSummary,
+} from './gateway/index.js';
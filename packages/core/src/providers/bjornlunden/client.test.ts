@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BjornLundenClient, BjornLundenApiError } from './client.js';
+
+const originalFetch = globalThis.fetch;
+
+function mockResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    statusText: status === 200 ? 'OK' : 'Error',
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+describe('BjornLundenClient', () => {
+  let client: BjornLundenClient;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    globalThis.fetch = fetchMock;
+    client = new BjornLundenClient('https://api.test.blinfo.se/sp');
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    vi.restoreAllMocks();
+  });
+
+  describe('get', () => {
+    it('sends Bearer token and User-Key headers', async () => {
+      fetchMock.mockResolvedValueOnce(mockResponse({ name: 'Test AB' }));
+
+      const result = await client.get('test-token', 'user-key-1', '/details');
+
+      const [url, init] = fetchMock.mock.calls[0]!;
+      expect(url).toBe('https://api.test.blinfo.se/sp/details');
+      expect(init.headers.Authorization).toBe('Bearer test-token');
+      expect(init.headers['User-Key']).toBe('user-key-1');
+      expect(result).toEqual({ name: 'Test AB' });
+    });
+
+    it('throws BjornLundenApiError on 401 without retry', async () => {
+      fetchMock.mockResolvedValueOnce(new Response('Unauthorized', { status: 401 }));
+
+      await expect(client.get('bad-token', 'key', '/details')).rejects.toThrow(BjornLundenApiError);
+      expect(fetchMock).toHaveBeenCalledOnce();
+    });
+
+    it('retries on 429 then succeeds', async () => {
+      fetchMock.mockResolvedValueOnce(new Response('Rate limited', { status: 429 }));
+      fetchMock.mockResolvedValueOnce(mockResponse({ ok: true }));
+
+      const result = await client.get('token', 'key', '/test');
+      expect(result).toEqual({ ok: true });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('custom transport', () => {
+    it('routes requests through the injected fetch', async () => {
+      const transport = vi.fn().mockResolvedValueOnce(mockResponse({ name: 'Test AB' }));
+      const custom = new BjornLundenClient('https://api.test.blinfo.se/sp', transport);
+
+      const result = await custom.get('token', 'key', '/details');
+
+      expect(result).toEqual({ name: 'Test AB' });
+      expect(transport).toHaveBeenCalledOnce();
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getPage', () => {
+    it('sends BL pagination params and unwraps data', async () => {
+      fetchMock.mockResolvedValueOnce(
+        mockResponse({ pageRequested: 2, totalPages: 4, totalRows: 35, data: [{ invoiceNumber: 1 }] }),
+      );
+
+      const result = await client.getPage('token', 'key', '/customerinvoice/batch', {
+        page: 2,
+        pageSize: 10,
+      });
+
+      expect(result).toEqual({ items: [{ invoiceNumber: 1 }], page: 2, totalPages: 4, totalCount: 35 });
+
+      const url = new URL(fetchMock.mock.calls[0]![0] as string);
+      expect(url.searchParams.get('pageRequested')).toBe('2');
+      expect(url.searchParams.get('rowsRequested')).toBe('10');
+      expect(url.searchParams.get('rows')).toBe('10');
+    });
+  });
+
+  describe('getPaginated', () => {
+    it('collects items across multiple pages', async () => {
+      fetchMock.mockResolvedValueOnce(
+        mockResponse({ pageRequested: 1, totalPages: 2, totalRows: 2, data: [{ id: 1 }] }),
+      );
+      fetchMock.mockResolvedValueOnce(
+        mockResponse({ pageRequested: 2, totalPages: 2, totalRows: 2, data: [{ id: 2 }] }),
+      );
+
+      const items = await client.getPaginated('token', 'key', '/supplierinvoice/batch');
+
+      expect(items).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('getAll', () => {
+    it('accepts a flat array response', async () => {
+      fetchMock.mockResolvedValueOnce(mockResponse([{ id: 'K1' }, { id: 'K2' }]));
+
+      const items = await client.getAll('token', 'key', '/customer');
+      expect(items).toHaveLength(2);
+    });
+
+    it('accepts a wrapped response', async () => {
+      fetchMock.mockResolvedValueOnce(mockResponse({ data: [{ id: 1 }] }));
+
+      const items = await client.getAll('token', 'key', '/financialyear');
+      expect(items).toEqual([{ id: 1 }]);
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { TokenBucketRateLimiter } from '../../utils/rate-limiter.js';
+import { withRetry } from '../../utils/retry.js';
+import { BL_BASE_URL, BL_RATE_LIMIT } from './config.js';
+import type { BLPaginatedResponse } from './types.js';
+
+export class BjornLundenApiError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number,
+    public readonly body?: string,
+  ) {
+    super(message);
+    this.name = 'BjornLundenApiError';
+  }
+}
+
+function isRetryableError(error: unknown): boolean {
+  if (error instanceof BjornLundenApiError) {
+    if (error.statusCode === 401 || error.statusCode === 403 || error.statusCode === 404) {
+      return false;
+    }
+    return error.statusCode === 429 || error.statusCode >= 500;
+  }
+  return false;
+}
+
+/**
+ * Björn Lundén client. Every call carries the company's User-Key header
+ * in addition to the client-credentials bearer token.
+ *
+ * `fetchFn` lets runtimes whose TLS stack cannot negotiate with the BL
+ * gateway (Deno's rustls) route requests through another transport.
+ */
+export class BjornLundenClient {
+  private readonly rateLimiter: TokenBucketRateLimiter;
+  private readonly baseUrl: string;
+  private readonly fetchFn: typeof fetch;
+
+  constructor(baseUrl?: string, fetchFn?: typeof fetch) {
+    this.baseUrl = baseUrl ?? BL_BASE_URL;
+    this.rateLimiter = new TokenBucketRateLimiter(BL_RATE_LIMIT);
+    this.fetchFn = fetchFn ?? ((input, init) => fetch(input, init));
+  }
+
+  async get<T>(accessToken: string, userKey: string, path: string): Promise<T> {
+    return withRetry(
+      async () => {
+        await this.rateLimiter.acquire();
+        const url = `${this.baseUrl}${path}`;
+        const response = await this.fetchFn(url, {
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            'User-Key': userKey,
+            Accept: 'application/json',
+          },
+        });
+
+        if (!response.ok) {
+          const body = await response.text().catch(() => '');
+          throw new BjornLundenApiError(
+            `Björn Lundén API error: ${response.status} ${response.statusText}`,
+            response.status,
+            body,
+          );
+        }
+
+        return response.json() as Promise<T>;
+      },
+      {
+        maxAttempts: 3,
+        initialDelayMs: 1000,
+        shouldRetry: isRetryableError,
+      },
+    );
+  }
+
+  /**
+   * Fetch a single page of a batch endpoint.
+   * BL returns `{ pageRequested, totalPages, totalRows, data }`.
+   */
+  async getPage<T>(
+    accessToken: string,
+    userKey: string,
+    relativePath: string,
+    options?: { page?: number; pageSize?: number },
+  ): Promise<{ items: T[]; page: number; totalPages: number; totalCount: number }> {
+    const params = new URLSearchParams();
+    params.set('pageRequested', String(options?.page ?? 1));
+    params.set('rowsRequested', String(options?.pageSize ?? 50));
+    // Journal batch uses 'rows' instead of 'rowsRequested' — send both
+    params.set('rows', String(options?.pageSize ?? 50));
+
+    const path = `${relativePath}?${params.toString()}`;
+    const response = await this.get<BLPaginatedResponse<T>>(accessToken, userKey, path);
+
+    return {
+      items: Array.isArray(response.data) ? response.data : [],
+      page: response.pageRequested ?? options?.page ?? 1,
+      totalPages: response.totalPages ?? 1,
+      totalCount: response.totalRows ?? 0,
+    };
+  }
+
+  /**
+   * Fetch all pages of a batch endpoint.
+   */
+  async getPaginated<T>(
+    accessToken: string,
+    userKey: string,
+    relativePath: string,
+    options?: { pageSize?: number },
+  ): Promise<T[]> {
+    const allItems: T[] = [];
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const result = await this.getPage<T>(accessToken, userKey, relativePath, {
+        page,
+        pageSize: options?.pageSize,
+      });
+
+      allItems.push(...result.items);
+      totalPages = result.totalPages;
+      page++;
+    } while (page <= totalPages);
+
+    return allItems;
+  }
+
+  /**
+   * Fetch a non-paginated list endpoint.
+   * Some BL endpoints return a flat array instead of the pagination wrapper.
+   */
+  async getAll<T>(accessToken: string, userKey: string, path: string): Promise<T[]> {
+    const response = await this.get<T[] | BLPaginatedResponse<T>>(accessToken, userKey, path);
+    if (Array.isArray(response)) {
+      return response;
+    }
+    return Array.isArray(response.data) ? response.data : [];
+  }
+
+  async getBinary(accessToken: string, userKey: string, path: string): Promise<Buffer> {
+    return withRetry(
+      async () => {
+        await this.rateLimiter.acquire();
+        const url = `${this.baseUrl}${path}`;
+        const response = await this.fetchFn(url, {
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            'User-Key': userKey,
+            Accept: 'application/octet-stream',
+          },
+        });
+
+        if (!response.ok) {
+          const body = await response.text().catch(() => '');
+          throw new BjornLundenApiError(
+            `Björn Lundén API error: ${response.status} ${response.statusText}`,
+            response.status,
+            body,
+          );
+        }
+
+        const arrayBuffer = await response.arrayBuffer();
+        return Buffer.from(arrayBuffer);
+      },
+      {
+        maxAttempts: 3,
+        initialDelayMs: 1000,
+        shouldRetry: isRetryableError,
+      },
+    );
+  }
+}
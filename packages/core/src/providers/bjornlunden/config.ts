@@ -0,0 +1,81 @@
+import type { EntityType } from '../../types/entity.js';
+
+export interface BLEntityConfig {
+  endpoint: string;
+  idField: string;
+  /** BL has no modified-since filter; change detection relies on content_hash */
+  incremental: boolean;
+  /** Batch endpoints are paginated, the register endpoints return a flat array */
+  paginated: boolean;
+  dateField?: string;
+  dueDateField?: string;
+  counterpartyNumberField?: string;
+  counterpartyNameField?: string;
+  amountField?: string;
+  currencyField?: string;
+  /** Whether this is a singleton resource (no pagination) */
+  singleton?: boolean;
+}
+
+export const BL_ENTITY_CONFIGS: Record<string, BLEntityConfig> = {
+  invoice: {
+    endpoint: '/customerinvoice/batch',
+    idField: 'invoiceNumber',
+    incremental: false,
+    paginated: true,
+    dateField: 'invoiceDate',
+    dueDateField: 'dueDate',
+    counterpartyNumberField: 'customerId',
+    counterpartyNameField: 'customerName',
+    amountField: 'amountInLocalCurrency',
+    currencyField: 'currency',
+  },
+  supplier_invoice: {
+    endpoint: '/supplierinvoice/batch',
+    idField: 'entityId',
+    incremental: false,
+    paginated: true,
+    dateField: 'invoiceDate',
+    dueDateField: 'dueDate',
+    counterpartyNumberField: 'supplierId',
+    counterpartyNameField: 'supplierName',
+    amountField: 'amountInLocalCurrency',
+    currencyField: 'currency',
+  },
+  customer: {
+    endpoint: '/customer',
+    idField: 'id',
+    incremental: false,
+    paginated: false,
+    counterpartyNumberField: 'id',
+    counterpartyNameField: 'name',
+  },
+  supplier: {
+    endpoint: '/supplier',
+    idField: 'id',
+    incremental: false,
+    paginated: false,
+    counterpartyNumberField: 'id',
+    counterpartyNameField: 'name',
+  },
+  company_info: {
+    endpoint: '/details',
+    idField: 'orgNumber',
+    incremental: false,
+    paginated: false,
+    counterpartyNameField: 'name',
+    singleton: true,
+  },
+} satisfies Record<string, BLEntityConfig>;
+
+export function getBLConfig(entityType: EntityType): BLEntityConfig {
+  const config = BL_ENTITY_CONFIGS[entityType];
+  if (!config) {
+    throw new Error(`No Björn Lundén config for entity type: ${entityType}`);
+  }
+  return config;
+}
+
+export const BL_BASE_URL = 'https://apigateway.blinfo.se/bla-api/v1/sp';
+export const BL_TOKEN_URL = 'https://apigateway.blinfo.se/auth/oauth/v2/token';
+export const BL_RATE_LIMIT = { maxRequests: 10, windowMs: 1000 };
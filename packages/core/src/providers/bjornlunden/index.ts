@@ -0,0 +1,337 @@
+import type { AccountingProviderV2, ResourceCapabilities, ResourceQueryOptions } from '../base-v2.js';
+import type { ProviderCapabilities, ProviderCredentials, CompanyInfo, FinancialYear } from '../../types/provider.js';
+import type { FetchEntitiesOptions, FetchEntitiesResult, CanonicalEntityRecord, EntityType, FetchProgressCallback } from '../../types/entity.js';
+import type { FetchSIEOptions, FetchSIEResult, SIEType } from '../../types/sie.js';
+import type { PaginatedResponse } from '../../types/dto/common.js';
+import type { ResourceType } from '../../types/dto/resource-type.js';
+import type { BLCompanyDetails, BLFinancialYear } from './types.js';
+import { BjornLundenClient } from './client.js';
+import { getBLConfig, BL_ENTITY_CONFIGS, BL_RATE_LIMIT } from './config.js';
+import { mapBLEntity } from './mapper.js';
+import { BL_RESOURCE_CONFIGS } from './resource-config.js';
+import { registerProvider } from '../index.js';
+import { decodeSIEBuffer } from '../../sie/encoding.js';
+import { parseSIE } from '../../sie/parser.js';
+import { calculateKPIs } from '../../sie/kpi.js';
+
+/**
+ * BL access tokens are issued per integration, not per company. The company
+ * is selected by its User-Key, passed alongside the token as `credentials.userKey`.
+ */
+function requireUserKey(credentials: ProviderCredentials): string {
+  const userKey = credentials['userKey'];
+  if (typeof userKey !== 'string' || !userKey) {
+    throw new Error('Björn Lundén credentials require a userKey');
+  }
+  return userKey;
+}
+
+export class BjornLundenProvider implements AccountingProviderV2 {
+  readonly name = 'bjornlunden' as const;
+  private readonly client: BjornLundenClient;
+
+  constructor(client?: BjornLundenClient) {
+    this.client = client ?? new BjornLundenClient();
+  }
+
+  getCapabilities(): ProviderCapabilities {
+    return {
+      name: 'bjornlunden',
+      displayName: 'Björn Lundén',
+      supportedEntityTypes: Object.keys(BL_ENTITY_CONFIGS) as EntityType[],
+      supportsSIE: true,
+      sieTypes: [4],
+      supportsIncrementalSync: false,
+      incrementalSyncEntities: [],
+      authType: 'client_credentials',
+      rateLimits: BL_RATE_LIMIT,
+    };
+  }
+
+  async validateCredentials(credentials: ProviderCredentials): Promise<boolean> {
+    try {
+      const userKey = requireUserKey(credentials);
+      await this.client.get<BLCompanyDetails>(credentials.accessToken, userKey, '/details');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async getCompanyInfo(credentials: ProviderCredentials): Promise<CompanyInfo> {
+    const userKey = requireUserKey(credentials);
+    const details = await this.client.get<BLCompanyDetails>(
+      credentials.accessToken,
+      userKey,
+      '/details',
+    );
+
+    return {
+      companyName: details.name ?? '',
+      organizationNumber: details.orgNumber ?? null,
+      address: details.street ?? null,
+      city: details.city ?? null,
+      country: details.country ?? null,
+      email: details.email ?? null,
+      phone: details.phone ?? null,
+      raw: details,
+    };
+  }
+
+  async getFinancialYears(credentials: ProviderCredentials): Promise<FinancialYear[]> {
+    const userKey = requireUserKey(credentials);
+    const years = await this.client.getAll<BLFinancialYear>(
+      credentials.accessToken,
+      userKey,
+      '/financialyear',
+    );
+
+    return years.map((fy) => ({
+      id: fy.id,
+      fromDate: fy.fromDate,
+      toDate: fy.toDate,
+      year: parseInt(fy.toDate.slice(0, 4), 10),
+    }));
+  }
+
+  async fetchEntities(
+    credentials: ProviderCredentials,
+    options: FetchEntitiesOptions & { entityType: EntityType },
+  ): Promise<FetchEntitiesResult> {
+    const config = getBLConfig(options.entityType);
+    const userKey = requireUserKey(credentials);
+
+    // company_info is a singleton
+    if (config.singleton) {
+      const raw = await this.client.get<Record<string, unknown>>(
+        credentials.accessToken,
+        userKey,
+        config.endpoint,
+      );
+      const entity = mapBLEntity(raw, options.entityType, config);
+      return {
+        entities: [entity],
+        nextCursor: null,
+        totalCount: 1,
+        hasMore: false,
+      };
+    }
+
+    let items: Record<string, unknown>[];
+    let totalCount: number | undefined;
+    let hasMore = false;
+    if (!config.paginated) {
+      items = await this.client.getAll<Record<string, unknown>>(
+        credentials.accessToken,
+        userKey,
+        config.endpoint,
+      );
+    } else if (options.page !== undefined) {
+      const result = await this.client.getPage<Record<string, unknown>>(
+        credentials.accessToken,
+        userKey,
+        config.endpoint,
+        { page: options.page, pageSize: options.pageSize },
+      );
+      items = result.items;
+      totalCount = result.totalCount;
+      hasMore = result.page < result.totalPages;
+    } else {
+      items = await this.client.getPaginated<Record<string, unknown>>(
+        credentials.accessToken,
+        userKey,
+        config.endpoint,
+        { pageSize: options.pageSize },
+      );
+    }
+
+    const entities = items.map((item) =>
+      mapBLEntity(item, options.entityType, config),
+    );
+
+    return {
+      entities,
+      nextCursor: null,
+      totalCount: totalCount ?? entities.length,
+      hasMore,
+    };
+  }
+
+  async fetchAllEntities(
+    credentials: ProviderCredentials,
+    options: FetchEntitiesOptions & { entityType: EntityType },
+    onProgress?: FetchProgressCallback,
+  ): Promise<CanonicalEntityRecord[]> {
+    const result = await this.fetchEntities(credentials, options);
+    onProgress?.(result.entities.length, result.totalCount ?? result.entities.length, options.entityType);
+    return result.entities;
+  }
+
+  async fetchSIE(
+    credentials: ProviderCredentials,
+    options: FetchSIEOptions,
+  ): Promise<FetchSIEResult> {
+    const sieType: SIEType = options.sieType ?? 4;
+    const userKey = requireUserKey(credentials);
+
+    const financialYears = await this.getFinancialYears(credentials);
+    const targetYears = options.fiscalYears
+      ? financialYears.filter((fy) => options.fiscalYears!.includes(fy.year))
+      : financialYears;
+
+    const files: FetchSIEResult['files'] = [];
+
+    for (const fy of targetYears) {
+      try {
+        const buffer = await this.client.getBinary(
+          credentials.accessToken,
+          userKey,
+          `/sie/${fy.id}`,
+        );
+
+        const rawContent = decodeSIEBuffer(buffer);
+        const parsed = parseSIE(rawContent);
+        const kpis = calculateKPIs(parsed);
+
+        files.push({
+          fiscalYear: fy.year,
+          sieType,
+          rawContent,
+          parsed,
+          kpis,
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`Failed to fetch SIE for fiscal year ${fy.year}: ${message}`);
+      }
+    }
+
+    return { files };
+  }
+
+  // ============================================
+  // V2 Interface — Typed Resource Operations
+  // ============================================
+
+  getResourceCapabilities(): ResourceCapabilities {
+    const readTypes = Object.keys(BL_RESOURCE_CONFIGS) as ResourceType[];
+    return {
+      read: readTypes,
+      write: [],
+      subResources: {},
+    };
+  }
+
+  async listResource<T>(
+    credentials: ProviderCredentials,
+    resourceType: ResourceType,
+    options?: ResourceQueryOptions,
+  ): Promise<PaginatedResponse<T>> {
+    const config = BL_RESOURCE_CONFIGS[resourceType];
+    if (!config) {
+      throw new Error(`Resource type "${resourceType}" is not supported by Björn Lundén`);
+    }
+
+    const userKey = requireUserKey(credentials);
+
+    if (config.singleton) {
+      const raw = await this.client.get<Record<string, unknown>>(
+        credentials.accessToken,
+        userKey,
+        config.listEndpoint,
+      );
+      const mapped = config.mapper(raw) as T;
+      return { data: [mapped], page: 1, pageSize: 1, totalCount: 1, hasMore: false };
+    }
+
+    if (!config.paginated) {
+      const items = await this.client.getAll<Record<string, unknown>>(
+        credentials.accessToken,
+        userKey,
+        config.listEndpoint,
+      );
+      return {
+        data: items.map((item) => config.mapper(item) as T),
+        page: 1,
+        pageSize: items.length,
+        totalCount: items.length,
+        hasMore: false,
+      };
+    }
+
+    const pageSize = options?.pageSize ?? 50;
+    const result = await this.client.getPage<Record<string, unknown>>(
+      credentials.accessToken,
+      userKey,
+      config.listEndpoint,
+      { page: options?.page ?? 1, pageSize },
+    );
+
+    return {
+      data: result.items.map((item) => config.mapper(item) as T),
+      page: result.page,
+      pageSize,
+      totalCount: result.totalCount,
+      hasMore: result.page < result.totalPages,
+    };
+  }
+
+  async getResource<T>(
+    credentials: ProviderCredentials,
+    resourceType: ResourceType,
+    resourceId: string,
+  ): Promise<T | null> {
+    const config = BL_RESOURCE_CONFIGS[resourceType];
+    if (!config) {
+      throw new Error(`Resource type "${resourceType}" is not supported by Björn Lundén`);
+    }
+
+    const userKey = requireUserKey(credentials);
+
+    try {
+      const path = config.detailEndpoint.replace('{id}', resourceId);
+      const raw = await this.client.get<Record<string, unknown>>(
+        credentials.accessToken,
+        userKey,
+        path,
+      );
+      return config.mapper(raw) as T;
+    } catch (error: unknown) {
+      if (error && typeof error === 'object' && 'statusCode' in error && (error as { statusCode: number }).statusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async createResource<T>(
+    _credentials: ProviderCredentials,
+    resourceType: ResourceType,
+    _data: Partial<T>,
+  ): Promise<T> {
+    throw new Error(`Resource type "${resourceType}" creation is not supported by Björn Lundén`);
+  }
+
+  async listSubResource<T>(
+    _credentials: ProviderCredentials,
+    _parentResourceType: ResourceType,
+    _parentResourceId: string,
+    subResourceType: ResourceType,
+    _options?: ResourceQueryOptions,
+  ): Promise<PaginatedResponse<T>> {
+    throw new Error(`Sub-resource "${subResourceType}" is not supported by Björn Lundén`);
+  }
+
+  async createSubResource<T>(
+    _credentials: ProviderCredentials,
+    _parentResourceType: ResourceType,
+    _parentResourceId: string,
+    subResourceType: ResourceType,
+    _data?: Partial<T>,
+  ): Promise<T> {
+    throw new Error(`Sub-resource "${subResourceType}" creation is not supported by Björn Lundén`);
+  }
+}
+
+// Self-register
+registerProvider('bjornlunden', () => new BjornLundenProvider());
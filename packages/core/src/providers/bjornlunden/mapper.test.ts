@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { mapBLEntity } from './mapper.js';
+import { getBLConfig } from './config.js';
+
+describe('mapBLEntity', () => {
+  describe('invoice', () => {
+    const config = getBLConfig('invoice');
+
+    it('maps all fields correctly', () => {
+      const raw = {
+        invoiceNumber: 1001,
+        customerId: 'K1',
+        customerName: 'Kund AB',
+        invoiceDate: '2024-09-01',
+        dueDate: '2024-09-30',
+        amountInLocalCurrency: 5000,
+        currency: 'SEK',
+        paid: false,
+        preliminary: false,
+      };
+
+      const result = mapBLEntity(raw, 'invoice', config);
+
+      expect(result.external_id).toBe('1001');
+      expect(result.provider).toBe('bjornlunden');
+      expect(result.fiscal_year).toBe(2024);
+      expect(result.counterparty_number).toBe('K1');
+      expect(result.counterparty_name).toBe('Kund AB');
+      expect(result.amount).toBe(5000);
+      expect(result.status).toBe('booked');
+      expect(result.last_modified).toBeNull();
+      expect(result.content_hash).toMatch(/^[a-f0-9]{64}$/);
+    });
+
+    it('derives status from the paid and preliminary flags', () => {
+      expect(mapBLEntity({ invoiceNumber: 1, paid: true }, 'invoice', config).status).toBe('paid');
+      expect(mapBLEntity({ invoiceNumber: 1, preliminary: true }, 'invoice', config).status).toBe('preliminary');
+    });
+  });
+
+  describe('supplier', () => {
+    it('marks closed suppliers', () => {
+      const config = getBLConfig('supplier');
+      const result = mapBLEntity({ id: 'L1', name: 'Lev AB', closed: true }, 'supplier', config);
+
+      expect(result.external_id).toBe('L1');
+      expect(result.counterparty_name).toBe('Lev AB');
+      expect(result.status).toBe('closed');
+    });
+  });
+
+  describe('company_info', () => {
+    it('uses the org number as external ID', () => {
+      const config = getBLConfig('company_info');
+      const result = mapBLEntity({ orgNumber: '5561234567', name: 'BL AB' }, 'company_info', config);
+
+      expect(result.external_id).toBe('5561234567');
+      expect(result.status).toBeNull();
+    });
+  });
+});
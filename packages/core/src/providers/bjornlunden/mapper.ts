@@ -0,0 +1,80 @@
+import type { CanonicalEntityRecord, EntityType } from '../../types/entity.js';
+import type { BLEntityConfig } from './config.js';
+import { contentHash } from '../../utils/hash.js';
+
+/**
+ * Derive invoice/supplier_invoice status from the BL paid/preliminary flags.
+ */
+function deriveInvoiceStatus(raw: Record<string, unknown>): string {
+  if (raw['paid'] === true) return 'paid';
+  if (raw['preliminary'] === true) return 'preliminary';
+  return 'booked';
+}
+
+/**
+ * Extract fiscal year from a date string (YYYY-MM-DD).
+ */
+function extractFiscalYear(dateStr: string | null | undefined): number | null {
+  if (!dateStr || typeof dateStr !== 'string') return null;
+  const year = parseInt(dateStr.slice(0, 4), 10);
+  return isNaN(year) ? null : year;
+}
+
+function stringOrNull(value: unknown): string | null {
+  return value !== null && value !== undefined ? String(value) : null;
+}
+
+/**
+ * Map a raw Björn Lundén API record to a CanonicalEntityRecord.
+ * BL exposes no modification timestamp, so last_modified is always null.
+ */
+export function mapBLEntity(
+  raw: Record<string, unknown>,
+  entityType: EntityType,
+  config: BLEntityConfig,
+): CanonicalEntityRecord {
+  const externalId = stringOrNull(raw[config.idField]) ?? '';
+
+  const documentDate = config.dateField
+    ? (raw[config.dateField] as string | null) ?? null
+    : null;
+  const dueDate = config.dueDateField
+    ? (raw[config.dueDateField] as string | null) ?? null
+    : null;
+  const counterpartyNumber = config.counterpartyNumberField
+    ? stringOrNull(raw[config.counterpartyNumberField])
+    : null;
+  const counterpartyName = config.counterpartyNameField
+    ? (raw[config.counterpartyNameField] as string | null) ?? null
+    : null;
+  const amount = config.amountField
+    ? (raw[config.amountField] as number | null) ?? null
+    : null;
+  const currency = config.currencyField
+    ? (raw[config.currencyField] as string | null) ?? 'SEK'
+    : 'SEK';
+
+  let status: string | null = null;
+  if (entityType === 'invoice' || entityType === 'supplier_invoice') {
+    status = deriveInvoiceStatus(raw);
+  } else if (entityType === 'customer' || entityType === 'supplier') {
+    status = raw['closed'] === true ? 'closed' : 'active';
+  }
+
+  return {
+    external_id: externalId,
+    entity_type: entityType,
+    provider: 'bjornlunden',
+    fiscal_year: extractFiscalYear(documentDate),
+    document_date: documentDate,
+    due_date: dueDate,
+    counterparty_number: counterpartyNumber,
+    counterparty_name: counterpartyName,
+    amount,
+    currency,
+    status,
+    raw_data: raw,
+    last_modified: null,
+    content_hash: contentHash(raw),
+  };
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { fetchBjornLundenToken } from './oauth.js';
+import type { BLClientCredentialsConfig } from './types.js';
+
+const originalFetch = globalThis.fetch;
+
+const config: BLClientCredentialsConfig = {
+  clientId: 'test-client-id',
+  clientSecret: 'test-client-secret',
+};
+
+describe('Björn Lundén OAuth', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    globalThis.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    vi.restoreAllMocks();
+  });
+
+  describe('fetchBjornLundenToken', () => {
+    it('posts a client credentials grant', async () => {
+      fetchMock.mockResolvedValueOnce(
+        new Response(
+          JSON.stringify({ access_token: 'new-access-token', token_type: 'Bearer', expires_in: 1800 }),
+          { status: 200 },
+        ),
+      );
+
+      const result = await fetchBjornLundenToken(config);
+
+      expect(result.access_token).toBe('new-access-token');
+      expect(result.expires_in).toBe(1800);
+
+      const [url, init] = fetchMock.mock.calls[0]!;
+      expect(url).toBe('https://apigateway.blinfo.se/auth/oauth/v2/token');
+      expect(init.method).toBe('POST');
+      expect(init.body).toContain('grant_type=client_credentials');
+      expect(init.body).toContain('client_id=test-client-id');
+      expect(init.body).toContain('client_secret=test-client-secret');
+    });
+
+    it('throws on error response', async () => {
+      fetchMock.mockResolvedValueOnce(
+        new Response('invalid_client', { status: 401 }),
+      );
+
+      await expect(fetchBjornLundenToken(config)).rejects.toThrow(
+        'Björn Lundén token request failed',
+      );
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import { BL_TOKEN_URL } from './config.js';
+import { OAuthTokenError } from '../oauth-error.js';
+import type { BLClientCredentialsConfig, BLTokenResponse } from './types.js';
+
+/**
+ * Fetch an access token using the OAuth2 client credentials grant.
+ * BL has no refresh tokens — call this again when the token expires.
+ */
+export async function fetchBjornLundenToken(
+  config: BLClientCredentialsConfig,
+  fetchFn: typeof fetch = fetch,
+): Promise<BLTokenResponse> {
+  const response = await fetchFn(BL_TOKEN_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams({
+      grant_type: 'client_credentials',
+      client_id: config.clientId,
+      client_secret: config.clientSecret,
+    }).toString(),
+  });
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    throw new OAuthTokenError(`Björn Lundén token request failed: ${response.status} ${body}`, response.status, body);
+  }
+
+  const data = await response.json() as Partial<BLTokenResponse>;
+  return {
+    access_token: data.access_token ?? '',
+    token_type: data.token_type ?? 'Bearer',
+    expires_in: data.expires_in ?? 3600,
+  };
+}
@@ -1,5 +1,4 @@
-import { ResourceType } from '../../types/dto.ts';
-import type { BjornLundenResourceConfig, RateLimitConfig } from '../types.ts';
+import { ResourceType } from '../../types/dto/resource-type.js';
 import {
   mapBLToSalesInvoice,
   mapBLToSupplierInvoice,
@@ -8,12 +7,19 @@ import {
   mapBLToJournal,
   mapBLToAccountingAccount,
   mapBLToCompanyInformation,
-} from './mapper.ts';
+} from './typed-mapper.js';
 
-export const BL_BASE_URL = 'https://apigateway.blinfo.se/bla-api/v1/sp';
-export const BL_RATE_LIMIT: RateLimitConfig = { maxRequests: 10, windowMs: 1000 };
+export interface BLResourceConfig {
+  listEndpoint: string;
+  detailEndpoint: string;
+  idField: string;
+  mapper: (raw: Record<string, unknown>) => unknown;
+  /** Batch endpoints are paginated, the register endpoints return a flat array */
+  paginated: boolean;
+  singleton?: boolean;
+}
 
-export const BL_RESOURCE_CONFIGS: Partial<Record<ResourceType, BjornLundenResourceConfig>> = {
+export const BL_RESOURCE_CONFIGS: Partial<Record<ResourceType, BLResourceConfig>> = {
   [ResourceType.SalesInvoices]: {
     listEndpoint: '/customerinvoice/batch',
     detailEndpoint: '/customerinvoice/{id}',
@@ -58,10 +64,10 @@ export const BL_RESOURCE_CONFIGS: Partial<Record<ResourceType, BjornLundenResour
   },
   [ResourceType.CompanyInformation]: {
     listEndpoint: '/details',
-    detailEndpoint: '',
+    detailEndpoint: '/details',
     idField: '',
     mapper: mapBLToCompanyInformation,
-    singleton: true,
     paginated: false,
+    singleton: true,
   },
 };
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import {
+  mapBLToSalesInvoice,
+  mapBLToSupplierInvoice,
+  mapBLToCustomer,
+  mapBLToSupplier,
+  mapBLToJournal,
+  mapBLToAccountingAccount,
+  mapBLToCompanyInformation,
+} from './typed-mapper.js';
+
+describe('mapBLToSalesInvoice', () => {
+  it('maps identifiers, customer and payment status', () => {
+    const result = mapBLToSalesInvoice({
+      entityId: 'e-1',
+      invoiceNumber: 1001,
+      invoiceDate: '2024-09-01',
+      dueDate: '2024-09-30',
+      currency: 'SEK',
+      amountInLocalCurrency: 5000,
+      amountPaidInLocalCurrency: 5000,
+      customerId: 'K1',
+      customerName: 'Kund AB',
+      paid: true,
+    });
+
+    expect(result.id).toBe('e-1');
+    expect(result.invoiceNumber).toBe('1001');
+    expect(result.status).toBe('paid');
+    expect(result.customer.name).toBe('Kund AB');
+    expect(result.customer.identifications[0]).toEqual({ id: 'K1', schemeId: 'BL:CUSTOMER_ID' });
+    expect(result.paymentStatus?.paid).toBe(true);
+  });
+
+  it('maps preliminary invoices to draft', () => {
+    expect(mapBLToSalesInvoice({ preliminary: true }).status).toBe('draft');
+    expect(mapBLToSalesInvoice({}).status).toBe('booked');
+  });
+});
+
+describe('mapBLToSupplierInvoice', () => {
+  it('computes the remaining balance', () => {
+    const result = mapBLToSupplierInvoice({
+      invoiceNumber: 77,
+      supplierId: 'L1',
+      supplierName: 'Lev AB',
+      amountInLocalCurrency: 1000,
+      amountPaidInLocalCurrency: 400,
+    });
+
+    expect(result.supplier.name).toBe('Lev AB');
+    expect(result.paymentStatus?.balance.value).toBe(600);
+  });
+});
+
+describe('mapBLToCustomer', () => {
+  it('maps address and closed flag', () => {
+    const result = mapBLToCustomer({
+      id: 'K1',
+      name: 'Kund AB',
+      organisationNumber: '5560000000',
+      street: 'Storgatan 1',
+      zip: '111 22',
+      city: 'Stockholm',
+      closed: true,
+    });
+
+    expect(result.customerNumber).toBe('K1');
+    expect(result.party.postalAddress?.streetName).toBe('Storgatan 1');
+    expect(result.active).toBe(false);
+  });
+});
+
+describe('mapBLToSupplier', () => {
+  it('maps payment details', () => {
+    const result = mapBLToSupplier({ id: 'L1', name: 'Lev AB', bg: '123-4567', vatNr: 'SE556000000001' });
+
+    expect(result.supplierNumber).toBe('L1');
+    expect(result.bankGiro).toBe('123-4567');
+    expect(result.vatNumber).toBe('SE556000000001');
+    expect(result.active).toBe(true);
+  });
+});
+
+describe('mapBLToJournal', () => {
+  it('splits signed amounts into debit and credit', () => {
+    const result = mapBLToJournal({
+      entityId: 'j-1',
+      journalId: 'A',
+      journalEntryDate: '2024-03-31',
+      financialYearId: 5,
+      ledgerEntries: [
+        { accountId: 6570, amount: 50, text: 'Avgift' },
+        { accountId: 1930, amount: -50 },
+      ],
+      totalCreditSum: 50,
+    });
+
+    expect(result.registrationDate).toBe('2024-03-31');
+    expect(result.fiscalYear).toBe(5);
+    expect(result.entries[0]).toMatchObject({ accountNumber: '6570', debit: 50, credit: 0 });
+    expect(result.entries[1]).toMatchObject({ accountNumber: '1930', debit: 0, credit: 50 });
+    expect(result.totalDebit?.value).toBe(50);
+    expect(result.totalCredit?.value).toBe(50);
+  });
+});
+
+describe('mapBLToAccountingAccount', () => {
+  it('derives type and SRU code', () => {
+    const result = mapBLToAccountingAccount({ id: 2440, name: 'Leverantörsskulder', sruCode: 7368 });
+
+    expect(result.accountNumber).toBe('2440');
+    expect(result.type).toBe('liability');
+    expect(result.sruCode).toBe('7368');
+  });
+});
+
+describe('mapBLToCompanyInformation', () => {
+  it('maps company fields', () => {
+    const result = mapBLToCompanyInformation({
+      name: 'BL AB',
+      orgNumber: '5561234567',
+      city: 'Stockholm',
+      email: 'info@bl.se',
+    });
+
+    expect(result.companyName).toBe('BL AB');
+    expect(result.organizationNumber).toBe('5561234567');
+    expect(result.address?.cityName).toBe('Stockholm');
+    expect(result.contact?.email).toBe('info@bl.se');
+  });
+});
@@ -0,0 +1,65 @@
+/** Björn Lundén (BL Administration) API types */
+
+/** Generic paginated response wrapper used by the batch endpoints */
+export interface BLPaginatedResponse<T> {
+  pageRequested: number;
+  totalPages: number;
+  totalRows: number;
+  data: T[];
+}
+
+/** BL Company Details (/details) */
+export interface BLCompanyDetails {
+  name: string;
+  orgNumber?: string;
+  street?: string;
+  box?: string;
+  zip?: string;
+  city?: string;
+  country?: string;
+  phone?: string;
+  email?: string;
+  vatNumber?: string;
+  preferredSettings?: { currency?: string };
+  [key: string]: unknown;
+}
+
+/** BL Financial Year */
+export interface BLFinancialYear {
+  id: number;
+  fromDate: string;
+  toDate: string;
+  [key: string]: unknown;
+}
+
+/** BL Customer Invoice */
+export interface BLCustomerInvoice {
+  entityId: string;
+  invoiceNumber: number;
+  invoiceDate?: string;
+  dueDate?: string;
+  currency?: string;
+  customerId?: string;
+  customerName?: string;
+  amountInLocalCurrency?: number;
+  amountPaidInLocalCurrency?: number;
+  paid?: boolean;
+  preliminary?: boolean;
+  [key: string]: unknown;
+}
+
+/** BL OAuth2 token response (client credentials grant) */
+export interface BLTokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in: number;
+}
+
+/**
+ * BL client credentials config.
+ * BL uses server-to-server auth — no user redirect and no refresh token.
+ */
+export interface BLClientCredentialsConfig {
+  clientId: string;
+  clientSecret: string;
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BokioClient, BokioApiError } from './client.js';
+
+const originalFetch = globalThis.fetch;
+
+function mockResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    statusText: status === 200 ? 'OK' : 'Error',
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+describe('BokioClient', () => {
+  let client: BokioClient;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    globalThis.fetch = fetchMock;
+    client = new BokioClient('https://api.test.bokio.se/v1');
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    vi.restoreAllMocks();
+  });
+
+  describe('get', () => {
+    it('sends Bearer token and Accept headers', async () => {
+      fetchMock.mockResolvedValueOnce(mockResponse({ id: 'c1' }));
+
+      const result = await client.get('test-token', '/companies/c1');
+
+      const [url, init] = fetchMock.mock.calls[0]!;
+      expect(url).toBe('https://api.test.bokio.se/v1/companies/c1');
+      expect(init.headers.Authorization).toBe('Bearer test-token');
+      expect(init.headers.Accept).toBe('application/json');
+      expect(result).toEqual({ id: 'c1' });
+    });
+
+    it('throws BokioApiError on 403 without retry', async () => {
+      fetchMock.mockResolvedValueOnce(new Response('Forbidden', { status: 403 }));
+
+      await expect(client.get('token', '/test')).rejects.toThrow(BokioApiError);
+      expect(fetchMock).toHaveBeenCalledOnce();
+    });
+
+    it('retries on 500 then succeeds', async () => {
+      fetchMock.mockResolvedValueOnce(new Response('Server Error', { status: 500 }));
+      fetchMock.mockResolvedValueOnce(mockResponse({ ok: true }));
+
+      const result = await client.get('token', '/test');
+      expect(result).toEqual({ ok: true });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('getPage', () => {
+    it('prefixes the company path and forwards query', async () => {
+      fetchMock.mockResolvedValueOnce(
+        mockResponse({ items: [{ id: '1' }], totalItems: 11, totalPages: 3, currentPage: 2 }),
+      );
+
+      const result = await client.getPage('token', 'c1', '/invoices', {
+        page: 2,
+        pageSize: 5,
+        query: 'status==paid',
+      });
+
+      expect(result).toEqual({ items: [{ id: '1' }], page: 2, totalPages: 3, totalCount: 11 });
+
+      const url = new URL(fetchMock.mock.calls[0]![0] as string);
+      expect(url.pathname).toBe('/v1/companies/c1/invoices');
+      expect(url.searchParams.get('page')).toBe('2');
+      expect(url.searchParams.get('pageSize')).toBe('5');
+      expect(url.searchParams.get('query')).toBe('status==paid');
+    });
+  });
+
+  describe('getPaginated', () => {
+    it('collects items across multiple pages', async () => {
+      fetchMock.mockResolvedValueOnce(
+        mockResponse({ items: [{ id: '1' }], totalItems: 2, totalPages: 2, currentPage: 1 }),
+      );
+      fetchMock.mockResolvedValueOnce(
+        mockResponse({ items: [{ id: '2' }], totalItems: 2, totalPages: 2, currentPage: 2 }),
+      );
+
+      const items = await client.getPaginated('token', 'c1', '/customers');
+
+      expect(items).toEqual([{ id: '1' }, { id: '2' }]);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('getAll', () => {
+    it('accepts a raw array response', async () => {
+      fetchMock.mockResolvedValueOnce(mockResponse([{ account: 1930 }]));
+
+      const items = await client.getAll('token', 'c1', '/chart-of-accounts');
+      expect(items).toEqual([{ account: 1930 }]);
+    });
+
+    it('accepts an items-wrapped response', async () => {
+      fetchMock.mockResolvedValueOnce(mockResponse({ items: [{ id: 'fy1' }] }));
+
+      const items = await client.getAll('token', 'c1', '/fiscal-years');
+      expect(items).toEqual([{ id: 'fy1' }]);
+    });
+  });
+
+  describe('getCompany', () => {
+    it('returns null on 404', async () => {
+      fetchMock.mockResolvedValueOnce(new Response('Not Found', { status: 404 }));
+
+      const result = await client.getCompany('token', 'c1');
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('getBinary', () => {
+    it('returns a Buffer from the company-scoped path', async () => {
+      const content = new TextEncoder().encode('#FLAGGA 0');
+      fetchMock.mockResolvedValueOnce(new Response(content, { status: 200 }));
+
+      const result = await client.getBinary('token', 'c1', '/fiscal-years/fy1/sie');
+
+      expect(Buffer.isBuffer(result)).toBe(true);
+      expect(result.toString()).toBe('#FLAGGA 0');
+      expect(fetchMock.mock.calls[0]![0]).toBe(
+        'https://api.test.bokio.se/v1/companies/c1/fiscal-years/fy1/sie',
+      );
+    });
+  });
+});
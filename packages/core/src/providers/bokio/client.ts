@@ -1,6 +1,7 @@
-import { TokenBucketRateLimiter } from '../../lib/rate-limiter.ts';
-import { withRetry } from '../../lib/retry.ts';
-import { BOKIO_BASE_URL, BOKIO_RATE_LIMIT } from './config.ts';
+import { TokenBucketRateLimiter } from '../../utils/rate-limiter.js';
+import { withRetry } from '../../utils/retry.js';
+import { BOKIO_BASE_URL, BOKIO_RATE_LIMIT } from './config.js';
+import type { BokioPaginatedResponse } from './types.js';
 
 export class BokioApiError extends Error {
   constructor(
@@ -23,13 +24,9 @@ function isRetryableError(error: unknown): boolean {
   return false;
 }
 
-interface BokioPaginatedResponse<T> {
-  items: T[];
-  totalItems: number;
-  totalPages: number;
-  currentPage: number;
-}
-
+/**
+ * Bokio client. Every company-scoped call is prefixed with /companies/{companyId}.
+ */
 export class BokioClient {
   private readonly rateLimiter: TokenBucketRateLimiter;
   private readonly baseUrl: string;
@@ -60,7 +57,7 @@ export class BokioClient {
           );
         }
 
-        return await response.json() as T;
+        return response.json() as Promise<T>;
       },
       {
         maxAttempts: 3,
@@ -71,8 +68,8 @@ export class BokioClient {
   }
 
   /**
-   * Fetch a paginated list endpoint.
-   * Bokio returns `{ data: [...], pagination: { page, pageSize, totalPages, totalCount } }`.
+   * Fetch a single page of a list endpoint.
+   * Bokio returns `{ items, totalItems, totalPages, currentPage }`.
    */
   async getPage<T>(
     accessToken: string,
@@ -96,15 +93,42 @@ export class BokioClient {
 
     return {
       items: Array.isArray(response.items) ? response.items : [],
-      page: response.currentPage ?? (options?.page ?? 1),
+      page: response.currentPage ?? options?.page ?? 1,
       totalPages: response.totalPages ?? 1,
       totalCount: response.totalItems ?? 0,
     };
   }
 
+  /**
+   * Fetch all pages of a paginated list endpoint.
+   */
+  async getPaginated<T>(
+    accessToken: string,
+    companyId: string,
+    relativePath: string,
+    options?: { pageSize?: number },
+  ): Promise<T[]> {
+    const allItems: T[] = [];
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const result = await this.getPage<T>(accessToken, companyId, relativePath, {
+        page,
+        pageSize: options?.pageSize,
+      });
+
+      allItems.push(...result.items);
+      totalPages = result.totalPages;
+      page++;
+    } while (page <= totalPages);
+
+    return allItems;
+  }
+
   /**
    * Fetch a non-paginated list endpoint (e.g. chart-of-accounts).
-   * Returns the full `data` array.
+   * Bokio returns a raw array for some endpoints and `{ items }` for others.
    */
   async getAll<T>(
     accessToken: string,
@@ -113,7 +137,6 @@ export class BokioClient {
   ): Promise<T[]> {
     const path = `/companies/${companyId}${relativePath}`;
     const response = await this.get<T[] | { items: T[] }>(accessToken, path);
-    // Bokio returns a raw array for some endpoints (e.g. chart-of-accounts)
     if (Array.isArray(response)) {
       return response;
     }
@@ -121,33 +144,60 @@ export class BokioClient {
   }
 
   /**
-   * Fetch a single resource detail.
-   * Bokio returns the object directly (no wrapper).
+   * Fetch a single resource. Bokio returns the object directly (no wrapper).
    */
   async getDetail<T>(
     accessToken: string,
     companyId: string,
     relativePath: string,
   ): Promise<T> {
-    const path = `/companies/${companyId}${relativePath}`;
-    return this.get<T>(accessToken, path);
+    return this.get<T>(accessToken, `/companies/${companyId}${relativePath}`);
   }
 
   /**
    * Fetch company information via GET /companies/{companyId}.
-   * Returns null if the endpoint returns 404 (e.g. missing company-information:read scope).
+   * Returns null on 404 (e.g. missing company-information:read scope).
    */
-  async getCompany<T>(
-    accessToken: string,
-    companyId: string,
-  ): Promise<T | null> {
+  async getCompany<T>(accessToken: string, companyId: string): Promise<T | null> {
     try {
       return await this.get<T>(accessToken, `/companies/${companyId}`);
-    } catch (err) {
-      if (err instanceof BokioApiError && err.statusCode === 404) {
+    } catch (error) {
+      if (error instanceof BokioApiError && error.statusCode === 404) {
         return null;
       }
-      throw err;
+      throw error;
     }
   }
+
+  async getBinary(accessToken: string, companyId: string, relativePath: string): Promise<Buffer> {
+    return withRetry(
+      async () => {
+        await this.rateLimiter.acquire();
+        const url = `${this.baseUrl}/companies/${companyId}${relativePath}`;
+        const response = await fetch(url, {
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            Accept: 'application/octet-stream',
+          },
+        });
+
+        if (!response.ok) {
+          const body = await response.text().catch(() => '');
+          throw new BokioApiError(
+            `Bokio API error: ${response.status} ${response.statusText}`,
+            response.status,
+            body,
+          );
+        }
+
+        const arrayBuffer = await response.arrayBuffer();
+        return Buffer.from(arrayBuffer);
+      },
+      {
+        maxAttempts: 3,
+        initialDelayMs: 1000,
+        shouldRetry: isRetryableError,
+      },
+    );
+  }
 }
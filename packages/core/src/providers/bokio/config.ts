@@ -0,0 +1,57 @@
+import type { EntityType } from '../../types/entity.js';
+
+export interface BokioEntityConfig {
+  /** Path relative to /companies/{companyId} */
+  endpoint: string;
+  idField: string;
+  /** Bokio has no modified-since filter; change detection relies on content_hash */
+  incremental: boolean;
+  dateField?: string;
+  dueDateField?: string;
+  /** Dot-separated paths are supported, e.g. "customerRef.name" */
+  counterpartyNumberField?: string;
+  counterpartyNameField?: string;
+  amountField?: string;
+  currencyField?: string;
+  /** Whether this is a singleton resource (no pagination) */
+  singleton?: boolean;
+}
+
+export const BOKIO_ENTITY_CONFIGS: Record<string, BokioEntityConfig> = {
+  invoice: {
+    endpoint: '/invoices',
+    idField: 'id',
+    incremental: false,
+    dateField: 'invoiceDate',
+    dueDateField: 'dueDate',
+    counterpartyNumberField: 'customerRef.id',
+    counterpartyNameField: 'customerRef.name',
+    amountField: 'totalAmount',
+    currencyField: 'currency',
+  },
+  customer: {
+    endpoint: '/customers',
+    idField: 'id',
+    incremental: false,
+    counterpartyNumberField: 'id',
+    counterpartyNameField: 'name',
+  },
+  company_info: {
+    endpoint: '',
+    idField: 'orgNumber',
+    incremental: false,
+    counterpartyNameField: 'name',
+    singleton: true,
+  },
+} satisfies Record<string, BokioEntityConfig>;
+
+export function getBokioConfig(entityType: EntityType): BokioEntityConfig {
+  const config = BOKIO_ENTITY_CONFIGS[entityType];
+  if (!config) {
+    throw new Error(`No Bokio config for entity type: ${entityType}`);
+  }
+  return config;
+}
+
+export const BOKIO_BASE_URL = 'https://api.bokio.se/v1';
+export const BOKIO_RATE_LIMIT = { maxRequests: 5, windowMs: 1000 };
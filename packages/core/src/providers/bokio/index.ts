@@ -0,0 +1,342 @@
+import type { AccountingProviderV2, ResourceCapabilities, ResourceQueryOptions } from '../base-v2.js';
+import type { ProviderCapabilities, ProviderCredentials, CompanyInfo, FinancialYear } from '../../types/provider.js';
+import type { FetchEntitiesOptions, FetchEntitiesResult, CanonicalEntityRecord, EntityType, FetchProgressCallback } from '../../types/entity.js';
+import type { FetchSIEOptions, FetchSIEResult, SIEType } from '../../types/sie.js';
+import type { PaginatedResponse } from '../../types/dto/common.js';
+import { ResourceType } from '../../types/dto/resource-type.js';
+import type { BokioCompany, BokioFiscalYear } from './types.js';
+import { BokioClient } from './client.js';
+import { getBokioConfig, BOKIO_ENTITY_CONFIGS, BOKIO_RATE_LIMIT } from './config.js';
+import { mapBokioEntity } from './mapper.js';
+import { BOKIO_RESOURCE_CONFIGS } from './resource-config.js';
+import { registerProvider } from '../index.js';
+import { decodeSIEBuffer } from '../../sie/encoding.js';
+import { parseSIE } from '../../sie/parser.js';
+import { calculateKPIs } from '../../sie/kpi.js';
+
+/**
+ * Bokio has no supplier ledger in its public API. These resources return an
+ * empty page instead of failing so cross-provider clients can treat them uniformly.
+ */
+const EMPTY_RESOURCES: ResourceType[] = [ResourceType.SupplierInvoices, ResourceType.Suppliers];
+
+/**
+ * Bokio API tokens are scoped to a single company, whose ID must be
+ * passed alongside the token as `credentials.companyId`.
+ */
+function requireCompanyId(credentials: ProviderCredentials): string {
+  const companyId = credentials['companyId'];
+  if (typeof companyId !== 'string' || !companyId) {
+    throw new Error('Bokio credentials require a companyId');
+  }
+  return companyId;
+}
+
+export class BokioProvider implements AccountingProviderV2 {
+  readonly name = 'bokio' as const;
+  private readonly client: BokioClient;
+
+  constructor(client?: BokioClient) {
+    this.client = client ?? new BokioClient();
+  }
+
+  getCapabilities(): ProviderCapabilities {
+    return {
+      name: 'bokio',
+      displayName: 'Bokio',
+      supportedEntityTypes: Object.keys(BOKIO_ENTITY_CONFIGS) as EntityType[],
+      supportsSIE: true,
+      sieTypes: [4],
+      supportsIncrementalSync: false,
+      incrementalSyncEntities: [],
+      authType: 'api_token',
+      rateLimits: BOKIO_RATE_LIMIT,
+    };
+  }
+
+  async validateCredentials(credentials: ProviderCredentials): Promise<boolean> {
+    try {
+      const companyId = requireCompanyId(credentials);
+      await this.client.get<BokioCompany>(credentials.accessToken, `/companies/${companyId}`);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async getCompanyInfo(credentials: ProviderCredentials): Promise<CompanyInfo> {
+    const companyId = requireCompanyId(credentials);
+    const company = await this.client.getCompany<BokioCompany>(credentials.accessToken, companyId);
+    if (!company) {
+      throw new Error(`Bokio company ${companyId} not found`);
+    }
+
+    return {
+      companyName: company.name ?? '',
+      organizationNumber: company.orgNumber ?? null,
+      address: company.address?.line1 ?? null,
+      city: company.address?.city ?? null,
+      country: company.address?.country ?? null,
+      raw: company,
+    };
+  }
+
+  async getFinancialYears(credentials: ProviderCredentials): Promise<FinancialYear[]> {
+    const companyId = requireCompanyId(credentials);
+    const years = await this.client.getAll<BokioFiscalYear>(
+      credentials.accessToken,
+      companyId,
+      '/fiscal-years',
+    );
+
+    return years.map((fy) => ({
+      id: fy.id,
+      fromDate: fy.startDate,
+      toDate: fy.endDate,
+      year: parseInt(fy.endDate.slice(0, 4), 10),
+    }));
+  }
+
+  async fetchEntities(
+    credentials: ProviderCredentials,
+    options: FetchEntitiesOptions & { entityType: EntityType },
+  ): Promise<FetchEntitiesResult> {
+    const config = getBokioConfig(options.entityType);
+    const companyId = requireCompanyId(credentials);
+
+    // company_info is a singleton
+    if (config.singleton) {
+      const raw = await this.client.getCompany<Record<string, unknown>>(
+        credentials.accessToken,
+        companyId,
+      );
+      const entity = mapBokioEntity(raw ?? { id: companyId }, options.entityType, config);
+      return {
+        entities: [entity],
+        nextCursor: null,
+        totalCount: 1,
+        hasMore: false,
+      };
+    }
+
+    let items: Record<string, unknown>[];
+    let totalCount: number | undefined;
+    let hasMore = false;
+    if (options.page !== undefined) {
+      const result = await this.client.getPage<Record<string, unknown>>(
+        credentials.accessToken,
+        companyId,
+        config.endpoint,
+        { page: options.page, pageSize: options.pageSize },
+      );
+      items = result.items;
+      totalCount = result.totalCount;
+      hasMore = result.page < result.totalPages;
+    } else {
+      items = await this.client.getPaginated<Record<string, unknown>>(
+        credentials.accessToken,
+        companyId,
+        config.endpoint,
+        { pageSize: options.pageSize },
+      );
+    }
+
+    const entities = items.map((item) =>
+      mapBokioEntity(item, options.entityType, config),
+    );
+
+    return {
+      entities,
+      nextCursor: null,
+      totalCount: totalCount ?? entities.length,
+      hasMore,
+    };
+  }
+
+  async fetchAllEntities(
+    credentials: ProviderCredentials,
+    options: FetchEntitiesOptions & { entityType: EntityType },
+    onProgress?: FetchProgressCallback,
+  ): Promise<CanonicalEntityRecord[]> {
+    const result = await this.fetchEntities(credentials, options);
+    onProgress?.(result.entities.length, result.totalCount ?? result.entities.length, options.entityType);
+    return result.entities;
+  }
+
+  async fetchSIE(
+    credentials: ProviderCredentials,
+    options: FetchSIEOptions,
+  ): Promise<FetchSIEResult> {
+    const sieType: SIEType = options.sieType ?? 4;
+    const companyId = requireCompanyId(credentials);
+
+    const financialYears = await this.getFinancialYears(credentials);
+    const targetYears = options.fiscalYears
+      ? financialYears.filter((fy) => options.fiscalYears!.includes(fy.year))
+      : financialYears;
+
+    const files: FetchSIEResult['files'] = [];
+
+    for (const fy of targetYears) {
+      try {
+        const buffer = await this.client.getBinary(
+          credentials.accessToken,
+          companyId,
+          `/fiscal-years/${fy.id}/sie`,
+        );
+
+        const rawContent = decodeSIEBuffer(buffer);
+        const parsed = parseSIE(rawContent);
+        const kpis = calculateKPIs(parsed);
+
+        files.push({
+          fiscalYear: fy.year,
+          sieType,
+          rawContent,
+          parsed,
+          kpis,
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`Failed to fetch SIE for fiscal year ${fy.year}: ${message}`);
+      }
+    }
+
+    return { files };
+  }
+
+  // ============================================
+  // V2 Interface — Typed Resource Operations
+  // ============================================
+
+  getResourceCapabilities(): ResourceCapabilities {
+    // Supplier resources are served as empty lists so clients can treat all providers alike
+    const readTypes = Object.keys(BOKIO_RESOURCE_CONFIGS) as ResourceType[];
+    return {
+      read: [...readTypes, ...EMPTY_RESOURCES],
+      write: [],
+      subResources: {},
+    };
+  }
+
+  async listResource<T>(
+    credentials: ProviderCredentials,
+    resourceType: ResourceType,
+    options?: ResourceQueryOptions,
+  ): Promise<PaginatedResponse<T>> {
+    const config = BOKIO_RESOURCE_CONFIGS[resourceType];
+    if (!config) {
+      if (EMPTY_RESOURCES.includes(resourceType)) {
+        return { data: [], page: 1, pageSize: 0, totalCount: 0, hasMore: false };
+      }
+      throw new Error(`Resource type "${resourceType}" is not supported by Bokio`);
+    }
+
+    const companyId = requireCompanyId(credentials);
+
+    if (config.singleton) {
+      const raw = await this.client.getCompany<Record<string, unknown>>(
+        credentials.accessToken,
+        companyId,
+      );
+      // Fall back to minimal data when the company-information scope is missing
+      const mapped = config.mapper(raw ?? { id: companyId }) as T;
+      return { data: [mapped], page: 1, pageSize: 1, totalCount: 1, hasMore: false };
+    }
+
+    if (!config.paginated) {
+      const items = await this.client.getAll<Record<string, unknown>>(
+        credentials.accessToken,
+        companyId,
+        config.listEndpoint,
+      );
+      return {
+        data: items.map((item) => config.mapper(item) as T),
+        page: 1,
+        pageSize: items.length,
+        totalCount: items.length,
+        hasMore: false,
+      };
+    }
+
+    const pageSize = options?.pageSize ?? 50;
+    const result = await this.client.getPage<Record<string, unknown>>(
+      credentials.accessToken,
+      companyId,
+      config.listEndpoint,
+      {
+        page: options?.page ?? 1,
+        pageSize,
+        query: options?.filter?.['query'],
+      },
+    );
+
+    return {
+      data: result.items.map((item) => config.mapper(item) as T),
+      page: result.page,
+      pageSize,
+      totalCount: result.totalCount,
+      hasMore: result.page < result.totalPages,
+    };
+  }
+
+  async getResource<T>(
+    credentials: ProviderCredentials,
+    resourceType: ResourceType,
+    resourceId: string,
+  ): Promise<T | null> {
+    const config = BOKIO_RESOURCE_CONFIGS[resourceType];
+    if (!config) {
+      if (EMPTY_RESOURCES.includes(resourceType)) return null;
+      throw new Error(`Resource type "${resourceType}" is not supported by Bokio`);
+    }
+
+    const companyId = requireCompanyId(credentials);
+
+    try {
+      const path = config.detailEndpoint.replace('{id}', resourceId);
+      const raw = await this.client.getDetail<Record<string, unknown>>(
+        credentials.accessToken,
+        companyId,
+        path,
+      );
+      return config.mapper(raw) as T;
+    } catch (error: unknown) {
+      if (error && typeof error === 'object' && 'statusCode' in error && (error as { statusCode: number }).statusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async createResource<T>(
+    _credentials: ProviderCredentials,
+    resourceType: ResourceType,
+    _data: Partial<T>,
+  ): Promise<T> {
+    throw new Error(`Resource type "${resourceType}" creation is not supported by Bokio`);
+  }
+
+  async listSubResource<T>(
+    _credentials: ProviderCredentials,
+    _parentResourceType: ResourceType,
+    _parentResourceId: string,
+    subResourceType: ResourceType,
+    _options?: ResourceQueryOptions,
+  ): Promise<PaginatedResponse<T>> {
+    throw new Error(`Sub-resource "${subResourceType}" is not supported by Bokio`);
+  }
+
+  async createSubResource<T>(
+    _credentials: ProviderCredentials,
+    _parentResourceType: ResourceType,
+    _parentResourceId: string,
+    subResourceType: ResourceType,
+    _data?: Partial<T>,
+  ): Promise<T> {
+    throw new Error(`Sub-resource "${subResourceType}" creation is not supported by Bokio`);
+  }
+}
+
+// Self-register
+registerProvider('bokio', () => new BokioProvider());
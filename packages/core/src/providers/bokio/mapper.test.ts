@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { mapBokioEntity } from './mapper.js';
+import { getBokioConfig } from './config.js';
+
+describe('mapBokioEntity', () => {
+  describe('invoice', () => {
+    const config = getBokioConfig('invoice');
+
+    it('maps fields including nested customerRef', () => {
+      const raw = {
+        id: 'inv-1',
+        invoiceNumber: '42',
+        status: 'Published',
+        invoiceDate: '2024-06-01',
+        dueDate: '2024-07-01',
+        currency: 'SEK',
+        totalAmount: 2500,
+        customerRef: { id: 'cust-9', name: 'Kund AB' },
+      };
+
+      const result = mapBokioEntity(raw, 'invoice', config);
+
+      expect(result.external_id).toBe('inv-1');
+      expect(result.provider).toBe('bokio');
+      expect(result.fiscal_year).toBe(2024);
+      expect(result.document_date).toBe('2024-06-01');
+      expect(result.due_date).toBe('2024-07-01');
+      expect(result.counterparty_number).toBe('cust-9');
+      expect(result.counterparty_name).toBe('Kund AB');
+      expect(result.amount).toBe(2500);
+      expect(result.status).toBe('published');
+      expect(result.last_modified).toBeNull();
+      expect(result.content_hash).toMatch(/^[a-f0-9]{64}$/);
+    });
+
+    it('handles a missing customerRef', () => {
+      const result = mapBokioEntity({ id: 'inv-2' }, 'invoice', config);
+      expect(result.counterparty_number).toBeNull();
+      expect(result.counterparty_name).toBeNull();
+      expect(result.currency).toBe('SEK');
+    });
+  });
+
+  describe('company_info', () => {
+    it('uses the org number as external ID', () => {
+      const config = getBokioConfig('company_info');
+      const result = mapBokioEntity({ orgNumber: '5561234567', name: 'Bokio AB' }, 'company_info', config);
+
+      expect(result.external_id).toBe('5561234567');
+      expect(result.counterparty_name).toBe('Bokio AB');
+      expect(result.status).toBeNull();
+    });
+  });
+});
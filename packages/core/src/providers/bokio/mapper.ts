@@ -0,0 +1,81 @@
+import type { CanonicalEntityRecord, EntityType } from '../../types/entity.js';
+import type { BokioEntityConfig } from './config.js';
+import { contentHash } from '../../utils/hash.js';
+
+/**
+ * Resolve a possibly dot-separated field path, e.g. "customerRef.name".
+ */
+function readField(raw: Record<string, unknown>, path: string): unknown {
+  let current: unknown = raw;
+  for (const key of path.split('.')) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function stringOrNull(value: unknown): string | null {
+  return value !== null && value !== undefined ? String(value) : null;
+}
+
+/**
+ * Extract fiscal year from a date string (YYYY-MM-DD).
+ */
+function extractFiscalYear(dateStr: string | null | undefined): number | null {
+  if (!dateStr || typeof dateStr !== 'string') return null;
+  const year = parseInt(dateStr.slice(0, 4), 10);
+  return isNaN(year) ? null : year;
+}
+
+/**
+ * Map a raw Bokio API record to a CanonicalEntityRecord.
+ * Bokio exposes no modification timestamp, so last_modified is always null.
+ */
+export function mapBokioEntity(
+  raw: Record<string, unknown>,
+  entityType: EntityType,
+  config: BokioEntityConfig,
+): CanonicalEntityRecord {
+  const externalId = stringOrNull(readField(raw, config.idField)) ?? '';
+
+  const documentDate = config.dateField
+    ? (readField(raw, config.dateField) as string | null | undefined) ?? null
+    : null;
+  const dueDate = config.dueDateField
+    ? (readField(raw, config.dueDateField) as string | null | undefined) ?? null
+    : null;
+  const counterpartyNumber = config.counterpartyNumberField
+    ? stringOrNull(readField(raw, config.counterpartyNumberField))
+    : null;
+  const counterpartyName = config.counterpartyNameField
+    ? (readField(raw, config.counterpartyNameField) as string | null | undefined) ?? null
+    : null;
+  const amount = config.amountField
+    ? (readField(raw, config.amountField) as number | null | undefined) ?? null
+    : null;
+  const currency = config.currencyField
+    ? (readField(raw, config.currencyField) as string | null | undefined) ?? 'SEK'
+    : 'SEK';
+
+  let status: string | null = null;
+  if (entityType === 'invoice') {
+    status = (raw['status'] as string | undefined)?.toLowerCase() ?? null;
+  }
+
+  return {
+    external_id: externalId,
+    entity_type: entityType,
+    provider: 'bokio',
+    fiscal_year: extractFiscalYear(documentDate),
+    document_date: documentDate,
+    due_date: dueDate,
+    counterparty_number: counterpartyNumber,
+    counterparty_name: counterpartyName,
+    amount,
+    currency,
+    status,
+    raw_data: raw,
+    last_modified: null,
+    content_hash: contentHash(raw),
+  };
+}
@@ -1,15 +1,22 @@
-import { ResourceType } from '../../types/dto.ts';
-import type { BokioResourceConfig, RateLimitConfig } from '../types.ts';
+import { ResourceType } from '../../types/dto/resource-type.js';
 import {
   mapBokioToSalesInvoice,
   mapBokioToCustomer,
   mapBokioToJournal,
   mapBokioToAccountingAccount,
   mapBokioToCompanyInformation,
-} from './mapper.ts';
+} from './typed-mapper.js';
 
-export const BOKIO_BASE_URL = 'https://api.bokio.se/v1';
-export const BOKIO_RATE_LIMIT: RateLimitConfig = { maxRequests: 5, windowMs: 1000 };
+export interface BokioResourceConfig {
+  /** Path relative to /companies/{companyId} */
+  listEndpoint: string;
+  detailEndpoint: string;
+  idField: string;
+  mapper: (raw: Record<string, unknown>) => unknown;
+  /** chart-of-accounts returns the full list in one response */
+  paginated: boolean;
+  singleton?: boolean;
+}
 
 export const BOKIO_RESOURCE_CONFIGS: Partial<Record<ResourceType, BokioResourceConfig>> = {
   [ResourceType.SalesInvoices]: {
@@ -45,7 +52,7 @@ export const BOKIO_RESOURCE_CONFIGS: Partial<Record<ResourceType, BokioResourceC
     detailEndpoint: '',
     idField: 'id',
     mapper: mapBokioToCompanyInformation,
-    singleton: true,
     paginated: false,
+    singleton: true,
   },
 };
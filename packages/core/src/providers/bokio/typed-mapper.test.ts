@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  mapBokioToSalesInvoice,
+  mapBokioToCustomer,
+  mapBokioToJournal,
+  mapBokioToAccountingAccount,
+  mapBokioToCompanyInformation,
+} from './typed-mapper.js';
+
+describe('mapBokioToSalesInvoice', () => {
+  it('maps totals, lines and payment status', () => {
+    const result = mapBokioToSalesInvoice({
+      id: 'inv-1',
+      invoiceNumber: '42',
+      status: 'paid',
+      invoiceDate: '2024-06-01',
+      dueDate: '2024-07-01',
+      currency: 'SEK',
+      totalAmount: 1250,
+      totalTax: 250,
+      paidAmount: 1250,
+      customerRef: { id: 'cust-9', name: 'Kund AB' },
+      lineItems: [
+        { id: 'l1', description: 'Konsult', quantity: 2, unitPrice: 500, taxRate: 25, unitType: 'hour' },
+      ],
+    });
+
+    expect(result.invoiceNumber).toBe('42');
+    expect(result.status).toBe('paid');
+    expect(result.customer.name).toBe('Kund AB');
+    expect(result.legalMonetaryTotal.lineExtensionAmount.value).toBe(1000);
+    expect(result.legalMonetaryTotal.payableAmount.value).toBe(1250);
+    expect(result.paymentStatus?.paid).toBe(true);
+    expect(result.lines[0]!.lineExtensionAmount.value).toBe(1000);
+    expect(result.lines[0]!.unitCode).toBe('hour');
+  });
+
+  it('maps published invoices to sent', () => {
+    expect(mapBokioToSalesInvoice({ status: 'Published' }).status).toBe('sent');
+    expect(mapBokioToSalesInvoice({}).status).toBe('draft');
+  });
+});
+
+describe('mapBokioToCustomer', () => {
+  it('maps type, address and first contact', () => {
+    const result = mapBokioToCustomer({
+      id: 'cust-9',
+      name: 'Anna Andersson',
+      type: 'individual',
+      address: { line1: 'Storgatan 1', city: 'Stockholm', postalCode: '111 22', country: 'SE' },
+      contactsDetails: [{ email: 'anna@example.se', phone: '0701234567', name: 'Anna' }],
+      paymentTerms: '30',
+    });
+
+    expect(result.customerNumber).toBe('cust-9');
+    expect(result.type).toBe('private');
+    expect(result.party.postalAddress?.cityName).toBe('Stockholm');
+    expect(result.party.contact?.email).toBe('anna@example.se');
+    expect(result.defaultPaymentTermsDays).toBe(30);
+  });
+});
+
+describe('mapBokioToJournal', () => {
+  it('maps items to entries', () => {
+    const result = mapBokioToJournal({
+      id: 'je-1',
+      number: 7,
+      title: 'Bankavgift',
+      date: '2024-01-31',
+      items: [
+        { account: 6570, debit: 50, credit: 0 },
+        { account: 1930, debit: 0, credit: 50 },
+      ],
+    });
+
+    expect(result.journalNumber).toBe('7');
+    expect(result.description).toBe('Bankavgift');
+    expect(result.entries.map((e) => e.accountNumber)).toEqual(['6570', '1930']);
+  });
+});
+
+describe('mapBokioToAccountingAccount', () => {
+  it('reads the account field and derives type', () => {
+    const result = mapBokioToAccountingAccount({ account: 3010, name: 'Försäljning', isActive: false });
+
+    expect(result.accountNumber).toBe('3010');
+    expect(result.type).toBe('revenue');
+    expect(result.active).toBe(false);
+  });
+});
+
+describe('mapBokioToCompanyInformation', () => {
+  it('maps company fields', () => {
+    const result = mapBokioToCompanyInformation({
+      name: 'Bokio AB',
+      orgNumber: '5561234567',
+      vatNumber: 'SE556123456701',
+      currency: 'SEK',
+      address: { line1: 'Gatan 1', city: 'Jönköping', postalCode: '553 20', country: 'SE' },
+    });
+
+    expect(result.companyName).toBe('Bokio AB');
+    expect(result.legalEntity?.companyId).toBe('5561234567');
+    expect(result.address?.postalZone).toBe('553 20');
+    expect(result.baseCurrency).toBe('SEK');
+  });
+});
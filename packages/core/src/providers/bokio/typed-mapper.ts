@@ -1,12 +1,9 @@
-import type {
-  SalesInvoiceDto, SalesInvoiceLineDto, InvoiceStatusCode,
-  LegalMonetaryTotalDto, PaymentStatusDto,
-  CustomerDto,
-  JournalDto, AccountingEntryDto,
-  AccountingAccountDto, AccountType,
-  CompanyInformationDto,
-  AmountType, PartyDto,
-} from '../../types/dto.ts';
+import type { SalesInvoiceDto, SalesInvoiceLineDto, InvoiceStatusCode, LegalMonetaryTotalDto, PaymentStatusDto } from '../../types/dto/sales-invoice.js';
+import type { CustomerDto } from '../../types/dto/customer.js';
+import type { JournalDto, AccountingEntryDto } from '../../types/dto/journal.js';
+import type { AccountingAccountDto, AccountType } from '../../types/dto/accounting-account.js';
+import type { CompanyInformationDto } from '../../types/dto/company-information.js';
+import type { AmountType, PartyDto } from '../../types/dto/common.js';
 
 function amount(value: number | undefined | null, currency: string = 'SEK'): AmountType {
   return { value: value ?? 0, currencyCode: currency };
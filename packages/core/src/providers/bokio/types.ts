@@ -0,0 +1,65 @@
+/** Bokio API v1 types */
+
+/** Generic paginated response wrapper */
+export interface BokioPaginatedResponse<T> {
+  items: T[];
+  totalItems: number;
+  totalPages: number;
+  currentPage: number;
+}
+
+/** Bokio postal address (shared by customers and companies) */
+export interface BokioAddress {
+  line1?: string;
+  line2?: string;
+  city?: string;
+  postalCode?: string;
+  country?: string;
+}
+
+/** Bokio Company */
+export interface BokioCompany {
+  id: string;
+  name: string;
+  orgNumber?: string;
+  vatNumber?: string;
+  currency?: string;
+  address?: BokioAddress;
+  [key: string]: unknown;
+}
+
+/** Bokio Fiscal Year */
+export interface BokioFiscalYear {
+  id: string;
+  startDate: string;
+  endDate: string;
+  status?: string;
+  [key: string]: unknown;
+}
+
+/** Bokio Invoice */
+export interface BokioInvoice {
+  id: string;
+  invoiceNumber?: string;
+  status?: string;
+  invoiceDate?: string;
+  dueDate?: string;
+  currency?: string;
+  totalAmount?: number;
+  totalTax?: number;
+  paidAmount?: number;
+  customerRef?: { id: string; name?: string };
+  lineItems?: unknown[];
+  [key: string]: unknown;
+}
+
+/** Bokio Customer */
+export interface BokioCustomer {
+  id: string;
+  name: string;
+  type?: 'company' | 'individual';
+  orgNumber?: string;
+  vatNumber?: string;
+  address?: BokioAddress;
+  [key: string]: unknown;
+}
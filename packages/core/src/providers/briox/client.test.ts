@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BrioxClient, BrioxApiError } from './client.js';
+
+const originalFetch = globalThis.fetch;
+
+function mockResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    statusText: status === 200 ? 'OK' : 'Error',
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+describe('BrioxClient', () => {
+  let client: BrioxClient;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    globalThis.fetch = fetchMock;
+    client = new BrioxClient('https://api.test.briox.se/v2');
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    vi.restoreAllMocks();
+  });
+
+  describe('get', () => {
+    it('sends the raw token without a Bearer prefix', async () => {
+      const data = { data: { info: { company_name: 'Test AB' } } };
+      fetchMock.mockResolvedValueOnce(mockResponse(data));
+
+      const result = await client.get('test-token', '/user/info');
+
+      expect(fetchMock).toHaveBeenCalledOnce();
+      const [url, init] = fetchMock.mock.calls[0]!;
+      expect(url).toBe('https://api.test.briox.se/v2/user/info');
+      expect(init.headers.Authorization).toBe('test-token');
+      expect(init.headers.Accept).toBe('application/json');
+      expect(result).toEqual(data);
+    });
+
+    it('throws BrioxApiError on 401 without retry', async () => {
+      fetchMock.mockResolvedValueOnce(
+        new Response('Unauthorized', { status: 401 }),
+      );
+
+      await expect(client.get('bad-token', '/test')).rejects.toThrow(BrioxApiError);
+      expect(fetchMock).toHaveBeenCalledOnce();
+    });
+
+    it('retries on 429 then succeeds', async () => {
+      fetchMock.mockResolvedValueOnce(
+        new Response('Rate limited', { status: 429 }),
+      );
+      fetchMock.mockResolvedValueOnce(mockResponse({ ok: true }));
+
+      const result = await client.get('token', '/test');
+      expect(result).toEqual({ ok: true });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('getPage', () => {
+    it('unwraps items by listKey and reads metainformation', async () => {
+      fetchMock.mockResolvedValueOnce(
+        mockResponse({
+          data: {
+            invoices: [{ id: '1' }, { id: '2' }],
+            metainformation: { total_pages: 3, current_page: 2, total_count: 6 },
+          },
+        }),
+      );
+
+      const result = await client.getPage('token', '/customerinvoice', 'invoices', {
+        page: 2,
+        pageSize: 2,
+        fromModifiedDate: '2024-03-01',
+      });
+
+      expect(result.items).toHaveLength(2);
+      expect(result.page).toBe(2);
+      expect(result.totalPages).toBe(3);
+      expect(result.totalCount).toBe(6);
+
+      const url = fetchMock.mock.calls[0]![0] as string;
+      expect(url).toContain('page=2');
+      expect(url).toContain('limit=2');
+      expect(url).toContain('frommodifieddate=2024-03-01');
+    });
+
+    it('returns empty items when the list key is missing', async () => {
+      fetchMock.mockResolvedValueOnce(mockResponse({ data: {} }));
+
+      const result = await client.getPage('token', '/customer', 'customers');
+      expect(result.items).toEqual([]);
+      expect(result.totalPages).toBe(1);
+    });
+  });
+
+  describe('getPaginated', () => {
+    it('collects items across multiple pages', async () => {
+      fetchMock.mockResolvedValueOnce(
+        mockResponse({
+          data: {
+            customers: [{ id: '1' }],
+            metainformation: { total_pages: 2, current_page: 1, total_count: 2 },
+          },
+        }),
+      );
+      fetchMock.mockResolvedValueOnce(
+        mockResponse({
+          data: {
+            customers: [{ id: '2' }],
+            metainformation: { total_pages: 2, current_page: 2, total_count: 2 },
+          },
+        }),
+      );
+
+      const items = await client.getPaginated('token', '/customer', 'customers');
+
+      expect(items).toEqual([{ id: '1' }, { id: '2' }]);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('getCurrentFinancialYear', () => {
+    it('returns the most recent financial year ID', async () => {
+      fetchMock.mockResolvedValueOnce(
+        mockResponse({
+          data: {
+            financialyears: [
+              { id: '9', fromdate: '2023-01-01', todate: '2023-12-31' },
+              { id: '10', fromdate: '2024-01-01', todate: '2024-12-31' },
+            ],
+          },
+        }),
+      );
+
+      const id = await client.getCurrentFinancialYear('token');
+      expect(id).toBe('10');
+    });
+
+    it('throws when no financial years exist', async () => {
+      fetchMock.mockResolvedValueOnce(mockResponse({ data: { financialyears: [] } }));
+
+      await expect(client.getCurrentFinancialYear('token')).rejects.toThrow(
+        'No financial years found in Briox',
+      );
+    });
+  });
+});
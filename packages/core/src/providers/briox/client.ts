@@ -1,6 +1,7 @@
-import { TokenBucketRateLimiter } from '../../lib/rate-limiter.ts';
-import { withRetry } from '../../lib/retry.ts';
-import { BRIOX_BASE_URL, BRIOX_RATE_LIMIT } from './config.ts';
+import { TokenBucketRateLimiter } from '../../utils/rate-limiter.js';
+import { withRetry } from '../../utils/retry.js';
+import { BRIOX_BASE_URL, BRIOX_RATE_LIMIT } from './config.js';
+import type { BrioxListResponse, BrioxFinancialYear } from './types.js';
 
 export class BrioxApiError extends Error {
   constructor(
@@ -23,16 +24,6 @@ function isRetryableError(error: unknown): boolean {
   return false;
 }
 
-interface BrioxListResponse {
-  data: Record<string, unknown> & {
-    metainformation?: {
-      total_pages: number;
-      current_page: number;
-      total_count: number;
-    };
-  };
-}
-
 export class BrioxClient {
   private readonly rateLimiter: TokenBucketRateLimiter;
   private readonly baseUrl: string;
@@ -42,6 +33,10 @@ export class BrioxClient {
     this.rateLimiter = new TokenBucketRateLimiter(BRIOX_RATE_LIMIT);
   }
 
+  /**
+   * GET with the access token in the Authorization header.
+   * Briox expects the raw token — no "Bearer" prefix.
+   */
   async get<T>(accessToken: string, path: string): Promise<T> {
     return withRetry(
       async () => {
@@ -74,6 +69,44 @@ export class BrioxClient {
     );
   }
 
+  async post<T>(accessToken: string, path: string, body: Record<string, unknown>): Promise<T> {
+    return withRetry(
+      async () => {
+        await this.rateLimiter.acquire();
+        const url = `${this.baseUrl}${path}`;
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: {
+            Authorization: accessToken,
+            Accept: 'application/json',
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(body),
+        });
+
+        if (!response.ok) {
+          const responseBody = await response.text().catch(() => '');
+          throw new BrioxApiError(
+            `Briox API error: ${response.status} ${response.statusText}`,
+            response.status,
+            responseBody,
+          );
+        }
+
+        return response.json() as Promise<T>;
+      },
+      {
+        maxAttempts: 3,
+        initialDelayMs: 1000,
+        shouldRetry: isRetryableError,
+      },
+    );
+  }
+
+  /**
+   * Fetch a single page of a list endpoint.
+   * Briox returns `{ data: { <listKey>: [...], metainformation: {...} } }`.
+   */
   async getPage<T>(
     accessToken: string,
     path: string,
@@ -99,20 +132,20 @@ export class BrioxClient {
     const response = await this.get<BrioxListResponse>(accessToken, fullPath);
 
     const meta = response.data?.metainformation;
-    const totalPages = meta?.total_pages ?? 1;
-    const currentPage = meta?.current_page ?? (options?.page ?? 1);
-    const totalCount = meta?.total_count ?? 0;
-
     const items = listKey ? response.data?.[listKey] : response.data;
 
     return {
-      items: Array.isArray(items) ? items as T[] : [],
-      page: currentPage,
-      totalPages,
-      totalCount,
+      items: Array.isArray(items) ? (items as T[]) : [],
+      page: meta?.current_page ?? options?.page ?? 1,
+      totalPages: meta?.total_pages ?? 1,
+      totalCount: meta?.total_count ?? 0,
     };
   }
 
+  /**
+   * Fetch all pages of a list endpoint.
+   * Supports incremental sync via the frommodifieddate filter.
+   */
   async getPaginated<T>(
     accessToken: string,
     path: string,
@@ -141,22 +174,56 @@ export class BrioxClient {
     return allItems;
   }
 
+  async getFinancialYears(accessToken: string): Promise<BrioxFinancialYear[]> {
+    const response = await this.get<{
+      data?: { financialyears?: BrioxFinancialYear[] };
+    }>(accessToken, '/financialyear');
+
+    return response.data?.financialyears ?? [];
+  }
+
   /**
-   * Get the current financial year ID from Briox.
+   * Get the current financial year ID.
    * The journal endpoint requires a financial year ID (e.g. "10"), not a calendar year.
    */
   async getCurrentFinancialYear(accessToken: string): Promise<string> {
-    const response = await this.get<{
-      data: {
-        financialyears: { id: string; fromdate: string; todate: string }[];
-      };
-    }>(accessToken, '/financialyear');
-
-    const years = response.data?.financialyears ?? [];
+    const years = await this.getFinancialYears(accessToken);
     if (years.length === 0) {
       throw new BrioxApiError('No financial years found in Briox', 404);
     }
-    // Return the last (most recent) financial year ID
+    // Briox lists financial years oldest first
     return years[years.length - 1]!.id;
   }
+
+  async getBinary(accessToken: string, path: string): Promise<Buffer> {
+    return withRetry(
+      async () => {
+        await this.rateLimiter.acquire();
+        const url = `${this.baseUrl}${path}`;
+        const response = await fetch(url, {
+          headers: {
+            Authorization: accessToken,
+            Accept: 'application/octet-stream',
+          },
+        });
+
+        if (!response.ok) {
+          const body = await response.text().catch(() => '');
+          throw new BrioxApiError(
+            `Briox API error: ${response.status} ${response.statusText}`,
+            response.status,
+            body,
+          );
+        }
+
+        const arrayBuffer = await response.arrayBuffer();
+        return Buffer.from(arrayBuffer);
+      },
+      {
+        maxAttempts: 3,
+        initialDelayMs: 1000,
+        shouldRetry: isRetryableError,
+      },
+    );
+  }
 }
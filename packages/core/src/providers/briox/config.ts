@@ -0,0 +1,85 @@
+import type { EntityType } from '../../types/entity.js';
+
+export interface BrioxEntityConfig {
+  endpoint: string;
+  /** Key holding the item array inside the `data` wrapper */
+  listKey: string;
+  idField: string;
+  incremental: boolean;
+  modifiedField?: string;
+  dateField?: string;
+  dueDateField?: string;
+  counterpartyNumberField?: string;
+  counterpartyNameField?: string;
+  amountField?: string;
+  currencyField?: string;
+  /** Whether this is a singleton resource (no pagination) */
+  singleton?: boolean;
+}
+
+export const BRIOX_ENTITY_CONFIGS: Record<string, BrioxEntityConfig> = {
+  invoice: {
+    endpoint: '/customerinvoice',
+    listKey: 'invoices',
+    idField: 'id',
+    incremental: true,
+    modifiedField: 'modified_date',
+    dateField: 'invoice_date',
+    dueDateField: 'due_date',
+    counterpartyNumberField: 'customer_id',
+    counterpartyNameField: 'customer_name',
+    amountField: 'total_amount',
+    currencyField: 'currency_code',
+  },
+  customer: {
+    endpoint: '/customer',
+    listKey: 'customers',
+    idField: 'id',
+    incremental: true,
+    modifiedField: 'modified_date',
+    counterpartyNumberField: 'customer_number',
+    counterpartyNameField: 'name',
+  },
+  supplier: {
+    endpoint: '/supplier',
+    listKey: 'suppliers',
+    idField: 'id',
+    incremental: true,
+    modifiedField: 'modified_date',
+    counterpartyNumberField: 'supplier_number',
+    counterpartyNameField: 'name',
+  },
+  supplier_invoice: {
+    endpoint: '/supplierinvoice',
+    listKey: 'supplierinvoices',
+    idField: 'id',
+    incremental: true,
+    modifiedField: 'modified_date',
+    dateField: 'invoice_date',
+    dueDateField: 'due_date',
+    counterpartyNumberField: 'supplier_id',
+    counterpartyNameField: 'supplier_name',
+    amountField: 'total_amount',
+    currencyField: 'currency_code',
+  },
+  company_info: {
+    endpoint: '/user/info',
+    listKey: '',
+    idField: 'id',
+    incremental: false,
+    singleton: true,
+  },
+} satisfies Record<string, BrioxEntityConfig>;
+
+export function getBrioxConfig(entityType: EntityType): BrioxEntityConfig {
+  const config = BRIOX_ENTITY_CONFIGS[entityType];
+  if (!config) {
+    throw new Error(`No Briox config for entity type: ${entityType}`);
+  }
+  return config;
+}
+
+export const BRIOX_BASE_URL = 'https://api-se.briox.services/v2';
+export const BRIOX_TOKEN_URL = 'https://api-se.briox.services/v2/token';
+export const BRIOX_REFRESH_URL = 'https://api-se.briox.services/v2/tokenrefresh';
+export const BRIOX_RATE_LIMIT = { maxRequests: 10, windowMs: 1000 };
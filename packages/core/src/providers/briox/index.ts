@@ -0,0 +1,318 @@
+import type { AccountingProviderV2, ResourceCapabilities, ResourceQueryOptions } from '../base-v2.js';
+import type { ProviderCapabilities, ProviderCredentials, CompanyInfo, FinancialYear } from '../../types/provider.js';
+import type { FetchEntitiesOptions, FetchEntitiesResult, CanonicalEntityRecord, EntityType, FetchProgressCallback } from '../../types/entity.js';
+import type { FetchSIEOptions, FetchSIEResult, SIEType } from '../../types/sie.js';
+import type { PaginatedResponse } from '../../types/dto/common.js';
+import type { CompanyInformationDto } from '../../types/dto/company-information.js';
+import type { ResourceType } from '../../types/dto/resource-type.js';
+import type { BrioxDetailResponse } from './types.js';
+import { BrioxClient } from './client.js';
+import { getBrioxConfig, BRIOX_ENTITY_CONFIGS, BRIOX_RATE_LIMIT } from './config.js';
+import { mapBrioxEntity } from './mapper.js';
+import { mapBrioxToCompanyInformation } from './typed-mapper.js';
+import { BRIOX_RESOURCE_CONFIGS } from './resource-config.js';
+import { registerProvider } from '../index.js';
+import { decodeSIEBuffer } from '../../sie/encoding.js';
+import { parseSIE } from '../../sie/parser.js';
+import { calculateKPIs } from '../../sie/kpi.js';
+
+export class BrioxProvider implements AccountingProviderV2 {
+  readonly name = 'briox' as const;
+  private readonly client: BrioxClient;
+
+  constructor(client?: BrioxClient) {
+    this.client = client ?? new BrioxClient();
+  }
+
+  getCapabilities(): ProviderCapabilities {
+    return {
+      name: 'briox',
+      displayName: 'Briox',
+      supportedEntityTypes: Object.keys(BRIOX_ENTITY_CONFIGS) as EntityType[],
+      supportsSIE: true,
+      sieTypes: [4],
+      supportsIncrementalSync: true,
+      incrementalSyncEntities: Object.entries(BRIOX_ENTITY_CONFIGS)
+        .filter(([_, cfg]) => cfg.incremental)
+        .map(([key]) => key as EntityType),
+      authType: 'oauth2',
+      rateLimits: BRIOX_RATE_LIMIT,
+    };
+  }
+
+  async validateCredentials(credentials: ProviderCredentials): Promise<boolean> {
+    try {
+      await this.client.get<BrioxDetailResponse>(credentials.accessToken, '/user/info');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async getCompanyInfo(credentials: ProviderCredentials): Promise<CompanyInfo> {
+    const response = await this.client.get<BrioxDetailResponse>(
+      credentials.accessToken,
+      '/user/info',
+    );
+    const info: CompanyInformationDto = mapBrioxToCompanyInformation(response.data);
+
+    return {
+      companyName: info.companyName,
+      organizationNumber: info.organizationNumber ?? null,
+      address: info.address?.streetName ?? null,
+      city: info.address?.cityName ?? null,
+      country: info.address?.countryCode ?? null,
+      email: info.contact?.email ?? null,
+      phone: info.contact?.telephone ?? null,
+      raw: response.data,
+    };
+  }
+
+  async getFinancialYears(credentials: ProviderCredentials): Promise<FinancialYear[]> {
+    const years = await this.client.getFinancialYears(credentials.accessToken);
+
+    return years.map((fy) => ({
+      id: fy.id,
+      fromDate: fy.fromdate,
+      toDate: fy.todate,
+      year: parseInt(fy.todate.slice(0, 4), 10),
+    }));
+  }
+
+  async fetchEntities(
+    credentials: ProviderCredentials,
+    options: FetchEntitiesOptions & { entityType: EntityType },
+  ): Promise<FetchEntitiesResult> {
+    const config = getBrioxConfig(options.entityType);
+
+    // company_info is a singleton
+    if (config.singleton) {
+      const response = await this.client.get<BrioxDetailResponse>(
+        credentials.accessToken,
+        config.endpoint,
+      );
+      const entity = mapBrioxEntity(response.data, options.entityType, config);
+      return {
+        entities: [entity],
+        nextCursor: null,
+        totalCount: 1,
+        hasMore: false,
+      };
+    }
+
+    const query = {
+      fromModifiedDate: config.incremental
+        ? options.lastModifiedCursor ?? undefined
+        : undefined,
+      pageSize: options.pageSize,
+    };
+
+    let items: Record<string, unknown>[];
+    let totalCount: number | undefined;
+    let hasMore = false;
+    if (options.page !== undefined) {
+      const result = await this.client.getPage<Record<string, unknown>>(
+        credentials.accessToken,
+        config.endpoint,
+        config.listKey,
+        { ...query, page: options.page },
+      );
+      items = result.items;
+      totalCount = result.totalCount;
+      hasMore = result.page < result.totalPages;
+    } else {
+      items = await this.client.getPaginated<Record<string, unknown>>(
+        credentials.accessToken,
+        config.endpoint,
+        config.listKey,
+        query,
+      );
+    }
+
+    const entities = items.map((item) =>
+      mapBrioxEntity(item, options.entityType, config),
+    );
+
+    // Compute next cursor from latest lastModified
+    const nextCursor = entities.reduce<string | null>((latest, e) => {
+      if (!e.last_modified) return latest;
+      if (!latest) return e.last_modified;
+      return e.last_modified > latest ? e.last_modified : latest;
+    }, null);
+
+    return {
+      entities,
+      nextCursor,
+      totalCount: totalCount ?? entities.length,
+      hasMore,
+    };
+  }
+
+  async fetchAllEntities(
+    credentials: ProviderCredentials,
+    options: FetchEntitiesOptions & { entityType: EntityType },
+    onProgress?: FetchProgressCallback,
+  ): Promise<CanonicalEntityRecord[]> {
+    const result = await this.fetchEntities(credentials, options);
+    onProgress?.(result.entities.length, result.totalCount ?? result.entities.length, options.entityType);
+    return result.entities;
+  }
+
+  async fetchSIE(
+    credentials: ProviderCredentials,
+    options: FetchSIEOptions,
+  ): Promise<FetchSIEResult> {
+    const sieType: SIEType = options.sieType ?? 4;
+
+    const financialYears = await this.getFinancialYears(credentials);
+    const targetYears = options.fiscalYears
+      ? financialYears.filter((fy) => options.fiscalYears!.includes(fy.year))
+      : financialYears;
+
+    const files: FetchSIEResult['files'] = [];
+
+    for (const fy of targetYears) {
+      try {
+        const buffer = await this.client.getBinary(
+          credentials.accessToken,
+          `/sie/${fy.id}`,
+        );
+
+        const rawContent = decodeSIEBuffer(buffer);
+        const parsed = parseSIE(rawContent);
+        const kpis = calculateKPIs(parsed);
+
+        files.push({
+          fiscalYear: fy.year,
+          sieType,
+          rawContent,
+          parsed,
+          kpis,
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`Failed to fetch SIE for fiscal year ${fy.year}: ${message}`);
+      }
+    }
+
+    return { files };
+  }
+
+  // ============================================
+  // V2 Interface — Typed Resource Operations
+  // ============================================
+
+  getResourceCapabilities(): ResourceCapabilities {
+    const readTypes = Object.keys(BRIOX_RESOURCE_CONFIGS) as ResourceType[];
+    return {
+      read: readTypes,
+      write: [],
+      subResources: {},
+    };
+  }
+
+  async listResource<T>(
+    credentials: ProviderCredentials,
+    resourceType: ResourceType,
+    options?: ResourceQueryOptions,
+  ): Promise<PaginatedResponse<T>> {
+    const config = BRIOX_RESOURCE_CONFIGS[resourceType];
+    if (!config) {
+      throw new Error(`Resource type "${resourceType}" is not supported by Briox`);
+    }
+
+    if (config.singleton) {
+      const response = await this.client.get<BrioxDetailResponse>(
+        credentials.accessToken,
+        config.listEndpoint,
+      );
+      const mapped = config.mapper(response.data) as T;
+      return { data: [mapped], page: 1, pageSize: 1, totalCount: 1, hasMore: false };
+    }
+
+    // Journals are year-scoped — resolve the financial year ID
+    let listEndpoint = config.listEndpoint;
+    if (config.yearScoped) {
+      const financialYearId = options?.fiscalYear
+        ? String(options.fiscalYear)
+        : await this.client.getCurrentFinancialYear(credentials.accessToken);
+      listEndpoint = `${config.listEndpoint}/${financialYearId}`;
+    }
+
+    const pageSize = options?.pageSize ?? 100;
+    const result = await this.client.getPage<Record<string, unknown>>(
+      credentials.accessToken,
+      listEndpoint,
+      config.listKey,
+      {
+        page: options?.page ?? 1,
+        pageSize,
+        fromModifiedDate: config.supportsModifiedFilter ? options?.lastModified : undefined,
+      },
+    );
+
+    return {
+      data: result.items.map((item) => config.mapper(item) as T),
+      page: result.page,
+      pageSize,
+      totalCount: result.totalCount,
+      hasMore: result.page < result.totalPages,
+    };
+  }
+
+  async getResource<T>(
+    credentials: ProviderCredentials,
+    resourceType: ResourceType,
+    resourceId: string,
+  ): Promise<T | null> {
+    const config = BRIOX_RESOURCE_CONFIGS[resourceType];
+    if (!config) {
+      throw new Error(`Resource type "${resourceType}" is not supported by Briox`);
+    }
+
+    try {
+      const path = config.detailEndpoint.replace('{id}', resourceId);
+      const response = await this.client.get<BrioxDetailResponse>(
+        credentials.accessToken,
+        path,
+      );
+      return config.mapper(response.data) as T;
+    } catch (error: unknown) {
+      if (error && typeof error === 'object' && 'statusCode' in error && (error as { statusCode: number }).statusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async createResource<T>(
+    _credentials: ProviderCredentials,
+    resourceType: ResourceType,
+    _data: Partial<T>,
+  ): Promise<T> {
+    throw new Error(`Resource type "${resourceType}" creation is not supported by Briox`);
+  }
+
+  async listSubResource<T>(
+    _credentials: ProviderCredentials,
+    _parentResourceType: ResourceType,
+    _parentResourceId: string,
+    subResourceType: ResourceType,
+    _options?: ResourceQueryOptions,
+  ): Promise<PaginatedResponse<T>> {
+    throw new Error(`Sub-resource "${subResourceType}" is not supported by Briox`);
+  }
+
+  async createSubResource<T>(
+    _credentials: ProviderCredentials,
+    _parentResourceType: ResourceType,
+    _parentResourceId: string,
+    subResourceType: ResourceType,
+    _data?: Partial<T>,
+  ): Promise<T> {
+    throw new Error(`Sub-resource "${subResourceType}" creation is not supported by Briox`);
+  }
+}
+
+// Self-register
+registerProvider('briox', () => new BrioxProvider());
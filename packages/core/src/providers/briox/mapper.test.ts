@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { mapBrioxEntity } from './mapper.js';
+import { getBrioxConfig } from './config.js';
+
+describe('mapBrioxEntity', () => {
+  describe('invoice', () => {
+    const config = getBrioxConfig('invoice');
+
+    it('maps all fields correctly', () => {
+      const raw = {
+        id: '4711',
+        invoice_number: '1001',
+        customer_id: 12,
+        customer_name: 'Test AB',
+        invoice_date: '2024-03-15',
+        due_date: '2024-04-15',
+        total_amount: 12500,
+        balance: 0,
+        currency_code: 'EUR',
+        status: 'paid',
+        modified_date: '2024-03-15 10:00:00',
+      };
+
+      const result = mapBrioxEntity(raw, 'invoice', config);
+
+      expect(result.external_id).toBe('4711');
+      expect(result.entity_type).toBe('invoice');
+      expect(result.provider).toBe('briox');
+      expect(result.fiscal_year).toBe(2024);
+      expect(result.document_date).toBe('2024-03-15');
+      expect(result.due_date).toBe('2024-04-15');
+      expect(result.counterparty_number).toBe('12');
+      expect(result.counterparty_name).toBe('Test AB');
+      expect(result.amount).toBe(12500);
+      expect(result.currency).toBe('EUR');
+      expect(result.status).toBe('paid');
+      expect(result.last_modified).toBe('2024-03-15 10:00:00');
+      expect(result.content_hash).toMatch(/^[a-f0-9]{64}$/);
+      expect(result.raw_data).toEqual(raw);
+    });
+
+    it('derives status from flags when status is absent', () => {
+      expect(mapBrioxEntity({ id: '1', booked: true }, 'invoice', config).status).toBe('booked');
+      expect(mapBrioxEntity({ id: '1', sent: true }, 'invoice', config).status).toBe('sent');
+      expect(mapBrioxEntity({ id: '1' }, 'invoice', config).status).toBe('draft');
+    });
+  });
+
+  describe('customer', () => {
+    const config = getBrioxConfig('customer');
+
+    it('maps customer fields and active status', () => {
+      const raw = { id: '7', customer_number: 'K7', name: 'Kund AB', active: false };
+      const result = mapBrioxEntity(raw, 'customer', config);
+
+      expect(result.external_id).toBe('7');
+      expect(result.counterparty_number).toBe('K7');
+      expect(result.counterparty_name).toBe('Kund AB');
+      expect(result.status).toBe('inactive');
+      expect(result.amount).toBeNull();
+      expect(result.currency).toBe('SEK');
+    });
+  });
+
+  describe('company_info', () => {
+    const config = getBrioxConfig('company_info');
+
+    it('reads the nested /user/info structure', () => {
+      const raw = {
+        info: {
+          company_name: 'Briox Test AB',
+          accounts: [{ organization_number: '5561234567' }],
+        },
+      };
+      const result = mapBrioxEntity(raw, 'company_info', config);
+
+      expect(result.external_id).toBe('5561234567');
+      expect(result.counterparty_name).toBe('Briox Test AB');
+      expect(result.fiscal_year).toBeNull();
+    });
+  });
+
+  it('produces identical hashes for identical raw data', () => {
+    const config = getBrioxConfig('customer');
+    const a = mapBrioxEntity({ id: '1', name: 'A' }, 'customer', config);
+    const b = mapBrioxEntity({ id: '1', name: 'A' }, 'customer', config);
+    expect(a.content_hash).toBe(b.content_hash);
+  });
+});
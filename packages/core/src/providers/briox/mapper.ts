@@ -0,0 +1,120 @@
+import type { CanonicalEntityRecord, EntityType } from '../../types/entity.js';
+import type { BrioxEntityConfig } from './config.js';
+import { contentHash } from '../../utils/hash.js';
+
+/**
+ * Derive invoice/supplier_invoice status from the Briox status field,
+ * falling back to the boolean flags when status is absent.
+ */
+function deriveInvoiceStatus(raw: Record<string, unknown>): string {
+  const status = raw['status'] as string | undefined;
+  if (status) return status;
+  if (raw['fully_paid'] === true) return 'paid';
+  if (raw['booked'] === true) return 'booked';
+  if (raw['sent'] === true) return 'sent';
+  return 'draft';
+}
+
+/**
+ * Extract fiscal year from a date string (YYYY-MM-DD).
+ */
+function extractFiscalYear(dateStr: string | null | undefined): number | null {
+  if (!dateStr || typeof dateStr !== 'string') return null;
+  const year = parseInt(dateStr.slice(0, 4), 10);
+  return isNaN(year) ? null : year;
+}
+
+function stringOrNull(value: unknown): string | null {
+  return value !== null && value !== undefined ? String(value) : null;
+}
+
+/**
+ * /user/info nests the company under `info.accounts[0]` rather than
+ * exposing flat fields, so company_info gets its own mapping.
+ */
+function mapBrioxCompanyInfo(raw: Record<string, unknown>): CanonicalEntityRecord {
+  const info = (raw['info'] as Record<string, unknown> | undefined) ?? raw;
+  const accounts = (info['accounts'] as Record<string, unknown>[] | undefined) ?? [];
+  const account = accounts[0];
+  const orgNumber = stringOrNull(account?.['organization_number']);
+  const companyName = (info['company_name'] ?? account?.['database_label'] ?? null) as string | null;
+
+  return {
+    external_id: orgNumber ?? '',
+    entity_type: 'company_info',
+    provider: 'briox',
+    fiscal_year: null,
+    document_date: null,
+    due_date: null,
+    counterparty_number: null,
+    counterparty_name: companyName,
+    amount: null,
+    currency: 'SEK',
+    status: null,
+    raw_data: raw,
+    last_modified: null,
+    content_hash: contentHash(raw),
+  };
+}
+
+/**
+ * Map a raw Briox API record to a CanonicalEntityRecord.
+ */
+export function mapBrioxEntity(
+  raw: Record<string, unknown>,
+  entityType: EntityType,
+  config: BrioxEntityConfig,
+): CanonicalEntityRecord {
+  if (entityType === 'company_info') {
+    return mapBrioxCompanyInfo(raw);
+  }
+
+  const externalId = stringOrNull(raw[config.idField]) ?? '';
+
+  const documentDate = config.dateField
+    ? (raw[config.dateField] as string | null) ?? null
+    : null;
+  const dueDate = config.dueDateField
+    ? (raw[config.dueDateField] as string | null) ?? null
+    : null;
+  const counterpartyNumber = config.counterpartyNumberField
+    ? stringOrNull(raw[config.counterpartyNumberField])
+    : null;
+  const counterpartyName = config.counterpartyNameField
+    ? (raw[config.counterpartyNameField] as string | null) ?? null
+    : null;
+  const amount = config.amountField
+    ? (raw[config.amountField] as number | null) ?? null
+    : null;
+  const currency = config.currencyField
+    ? (raw[config.currencyField] as string | null) ?? 'SEK'
+    : 'SEK';
+
+  let status: string | null = null;
+  if (entityType === 'invoice' || entityType === 'supplier_invoice') {
+    status = deriveInvoiceStatus(raw);
+  } else if (entityType === 'customer' || entityType === 'supplier') {
+    status = raw['active'] === false ? 'inactive' : 'active';
+  }
+
+  const lastModified = config.modifiedField
+    ? (raw[config.modifiedField] as string | null) ?? null
+    : null;
+
+  return {
+    external_id: externalId,
+    entity_type: entityType,
+    provider: 'briox',
+    fiscal_year: extractFiscalYear(documentDate),
+    document_date: documentDate,
+    due_date: dueDate,
+    counterparty_number: counterpartyNumber,
+    counterparty_name: counterpartyName,
+    amount,
+    currency,
+    status,
+    raw_data: raw,
+    last_modified: lastModified,
+    content_hash: contentHash(raw),
+  };
+}
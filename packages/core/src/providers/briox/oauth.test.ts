@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { exchangeBrioxCode, refreshBrioxToken } from './oauth.js';
+import type { BrioxOAuthConfig } from './types.js';
+
+const originalFetch = globalThis.fetch;
+
+const config: BrioxOAuthConfig = {
+  clientId: 'test-client-id',
+};
+
+function tokenPayload(expiresInSeconds: number) {
+  return {
+    data: {
+      access_token: 'new-access-token',
+      refresh_token: 'new-refresh-token',
+      client_id: 1,
+      expire_date: '2099-01-01 00:00:00',
+      expire_timestamp: Math.floor(Date.now() / 1000) + expiresInSeconds,
+    },
+  };
+}
+
+describe('Briox OAuth', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    globalThis.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    vi.restoreAllMocks();
+  });
+
+  describe('exchangeBrioxCode', () => {
+    it('posts client ID and application token as query params', async () => {
+      fetchMock.mockResolvedValueOnce(
+        new Response(JSON.stringify(tokenPayload(3600)), { status: 200 }),
+      );
+
+      const result = await exchangeBrioxCode(config, 'app-token-123');
+
+      expect(result.access_token).toBe('new-access-token');
+      expect(result.refresh_token).toBe('new-refresh-token');
+      expect(result.token_type).toBe('Bearer');
+      expect(result.expires_in).toBeGreaterThan(3500);
+      expect(result.expires_in).toBeLessThanOrEqual(3600);
+
+      const [url, init] = fetchMock.mock.calls[0]!;
+      expect(url).toBe('https://api-se.briox.services/v2/token?clientid=test-client-id&token=app-token-123');
+      expect(init.method).toBe('POST');
+    });
+
+    it('falls back to one hour when the expiry is in the past', async () => {
+      fetchMock.mockResolvedValueOnce(
+        new Response(JSON.stringify(tokenPayload(-60)), { status: 200 }),
+      );
+
+      const result = await exchangeBrioxCode(config, 'app-token-123');
+      expect(result.expires_in).toBe(3600);
+    });
+
+    it('throws on error response', async () => {
+      fetchMock.mockResolvedValueOnce(
+        new Response('invalid token', { status: 400 }),
+      );
+
+      await expect(exchangeBrioxCode(config, 'bad-token')).rejects.toThrow(
+        'Briox token exchange failed',
+      );
+    });
+  });
+
+  describe('refreshBrioxToken', () => {
+    it('posts the refresh token to the refresh endpoint', async () => {
+      fetchMock.mockResolvedValueOnce(
+        new Response(JSON.stringify(tokenPayload(3600)), { status: 200 }),
+      );
+
+      const result = await refreshBrioxToken(config, 'old-refresh-token');
+      expect(result.access_token).toBe('new-access-token');
+
+      const url = fetchMock.mock.calls[0]![0] as string;
+      expect(url).toContain('https://api-se.briox.services/v2/tokenrefresh?');
+      expect(url).toContain('refreshtoken=old-refresh-token');
+    });
+
+    it('throws on error response', async () => {
+      fetchMock.mockResolvedValueOnce(
+        new Response('expired', { status: 401 }),
+      );
+
+      await expect(
+        refreshBrioxToken(config, 'expired-refresh'),
+      ).rejects.toThrow('Briox token refresh failed');
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { BRIOX_TOKEN_URL, BRIOX_REFRESH_URL } from './config.js';
+import { OAuthTokenError } from '../oauth-error.js';
+import type { BrioxOAuthConfig, BrioxTokenData, BrioxTokenResponse } from './types.js';
+
+/**
+ * Briox reports an absolute expiry timestamp; convert it to expires_in seconds.
+ */
+function toTokenResponse(data: BrioxTokenData): BrioxTokenResponse {
+  const expiresIn = data.expire_timestamp - Math.floor(Date.now() / 1000);
+  return {
+    access_token: data.access_token,
+    refresh_token: data.refresh_token,
+    token_type: 'Bearer',
+    expires_in: expiresIn > 0 ? expiresIn : 3600,
+  };
+}
+
+/**
+ * Exchange a Briox application token for access + refresh tokens.
+ * Briox uses a custom token flow, not standard OAuth2 — the application
+ * token is created by the user in the Briox admin UI.
+ */
+export async function exchangeBrioxCode(
+  config: BrioxOAuthConfig,
+  applicationToken: string,
+): Promise<BrioxTokenResponse> {
+  const params = new URLSearchParams({
+    clientid: config.clientId,
+    token: applicationToken,
+  });
+
+  const response = await fetch(`${BRIOX_TOKEN_URL}?${params.toString()}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    throw new Error(`Briox token exchange failed: ${response.status} ${body}`);
+  }
+
+  const result = await response.json() as { data: BrioxTokenData };
+  return toTokenResponse(result.data);
+}
+
+/**
+ * Refresh an access token using a refresh token.
+ */
+export async function refreshBrioxToken(
+  config: BrioxOAuthConfig,
+  refreshToken: string,
+  fetchFn: typeof fetch = fetch,
+): Promise<BrioxTokenResponse> {
+  const params = new URLSearchParams({
+    clientid: config.clientId,
+    refreshtoken: refreshToken,
+    token: refreshToken,
+  });
+
+  const response = await fetchFn(`${BRIOX_REFRESH_URL}?${params.toString()}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    throw new OAuthTokenError(`Briox token refresh failed: ${response.status} ${body}`, response.status, body);
+  }
+
+  const result = await response.json() as { data: BrioxTokenData };
+  return toTokenResponse(result.data);
+}
@@ -1,5 +1,4 @@
-import { ResourceType } from '../../types/dto.ts';
-import type { BrioxResourceConfig, RateLimitConfig } from '../types.ts';
+import { ResourceType } from '../../types/dto/resource-type.js';
 import {
   mapBrioxToSalesInvoice,
   mapBrioxToSupplierInvoice,
@@ -8,12 +7,20 @@ import {
   mapBrioxToJournal,
   mapBrioxToAccountingAccount,
   mapBrioxToCompanyInformation,
-} from './mapper.ts';
+} from './typed-mapper.js';
 
-export const BRIOX_BASE_URL = 'https://api-se.briox.services/v2';
-export const BRIOX_TOKEN_URL = 'https://api-se.briox.services/v2/token';
-export const BRIOX_REFRESH_URL = 'https://api-se.briox.services/v2/tokenrefresh';
-export const BRIOX_RATE_LIMIT: RateLimitConfig = { maxRequests: 10, windowMs: 1000 };
+export interface BrioxResourceConfig {
+  listEndpoint: string;
+  detailEndpoint: string;
+  /** Key holding the item array inside the `data` wrapper */
+  listKey: string;
+  idField: string;
+  mapper: (raw: Record<string, unknown>) => unknown;
+  supportsModifiedFilter: boolean;
+  /** Endpoint requires a financial year ID suffix, e.g. /journal/{financialYearId} */
+  yearScoped?: boolean;
+  singleton?: boolean;
+}
 
 export const BRIOX_RESOURCE_CONFIGS: Partial<Record<ResourceType, BrioxResourceConfig>> = {
   [ResourceType.SalesInvoices]: {
@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import {
+  mapBrioxToSalesInvoice,
+  mapBrioxToSupplierInvoice,
+  mapBrioxToCustomer,
+  mapBrioxToJournal,
+  mapBrioxToAccountingAccount,
+  mapBrioxToCompanyInformation,
+} from './typed-mapper.js';
+
+describe('mapBrioxToSalesInvoice', () => {
+  it('maps totals, lines and payment status', () => {
+    const result = mapBrioxToSalesInvoice({
+      id: 55,
+      invoice_number: '1001',
+      invoice_date: '2024-05-01',
+      due_date: '2024-05-31',
+      currency_code: 'SEK',
+      total_amount: 1250,
+      net_amount: 1000,
+      balance: 0,
+      fully_paid: true,
+      customer_name: 'Kund AB',
+      customer_org_number: '5561234567',
+      rows: [
+        { id: 1, description: 'Konsult', quantity: 10, price: 100, total: 1000, vat_rate: 25, account_number: 3010 },
+      ],
+      modified_date: '2024-05-02',
+    });
+
+    expect(result.id).toBe('55');
+    expect(result.invoiceNumber).toBe('1001');
+    expect(result.status).toBe('paid');
+    expect(result.legalMonetaryTotal.lineExtensionAmount.value).toBe(1000);
+    expect(result.legalMonetaryTotal.payableAmount.value).toBe(1250);
+    expect(result.paymentStatus?.paid).toBe(true);
+    expect(result.customer.legalEntity?.companyId).toBe('5561234567');
+    expect(result.lines).toHaveLength(1);
+    expect(result.lines[0]!.accountNumber).toBe('3010');
+    expect(result.lines[0]!.unitPrice?.value).toBe(100);
+    expect(result.updatedAt).toBe('2024-05-02');
+  });
+
+  it('derives status from the status field', () => {
+    expect(mapBrioxToSalesInvoice({ status: 'cancelled' }).status).toBe('cancelled');
+    expect(mapBrioxToSalesInvoice({ status: 'credited' }).status).toBe('credited');
+    expect(mapBrioxToSalesInvoice({ booked: true }).status).toBe('booked');
+    expect(mapBrioxToSalesInvoice({}).status).toBe('draft');
+  });
+});
+
+describe('mapBrioxToSupplierInvoice', () => {
+  it('maps supplier and OCR', () => {
+    const result = mapBrioxToSupplierInvoice({
+      id: 9,
+      supplier_name: 'Leverantör AB',
+      total_amount: 500,
+      balance: 500,
+      ocr: '123456',
+    });
+
+    expect(result.supplier.name).toBe('Leverantör AB');
+    expect(result.ocrNumber).toBe('123456');
+    expect(result.paymentStatus?.paid).toBe(false);
+    expect(result.paymentStatus?.balance.value).toBe(500);
+  });
+});
+
+describe('mapBrioxToCustomer', () => {
+  it('maps party, address and contact', () => {
+    const result = mapBrioxToCustomer({
+      id: 3,
+      customer_number: 'K3',
+      name: 'Kund AB',
+      org_number: '5560000000',
+      address1: 'Storgatan 1',
+      zip_code: '111 22',
+      city: 'Stockholm',
+      email: 'info@kund.se',
+      type: 'private',
+      active: true,
+    });
+
+    expect(result.customerNumber).toBe('K3');
+    expect(result.type).toBe('private');
+    expect(result.party.postalAddress?.streetName).toBe('Storgatan 1');
+    expect(result.party.postalAddress?.postalZone).toBe('111 22');
+    expect(result.party.contact?.email).toBe('info@kund.se');
+    expect(result.active).toBe(true);
+  });
+});
+
+describe('mapBrioxToJournal', () => {
+  it('maps rows to debit/credit entries', () => {
+    const result = mapBrioxToJournal({
+      id: 20,
+      journal_number: 'A12',
+      series: 'A',
+      journal_date: '2024-02-10',
+      financial_year: 10,
+      rows: [
+        { account_number: 1930, debit: 100, credit: 0 },
+        { account_number: 3010, debit: 0, credit: 100 },
+      ],
+    });
+
+    expect(result.journalNumber).toBe('A12');
+    expect(result.series?.id).toBe('A');
+    expect(result.registrationDate).toBe('2024-02-10');
+    expect(result.fiscalYear).toBe(10);
+    expect(result.entries).toHaveLength(2);
+    expect(result.entries[1]!.credit).toBe(100);
+  });
+});
+
+describe('mapBrioxToAccountingAccount', () => {
+  it('derives account type from the BAS range', () => {
+    expect(mapBrioxToAccountingAccount({ account_number: 1930 }).type).toBe('asset');
+    expect(mapBrioxToAccountingAccount({ account_number: 2440 }).type).toBe('liability');
+    expect(mapBrioxToAccountingAccount({ account_number: 3010 }).type).toBe('revenue');
+    expect(mapBrioxToAccountingAccount({ account_number: 5010 }).type).toBe('expense');
+  });
+
+  it('falls back to description for the name', () => {
+    const result = mapBrioxToAccountingAccount({ account_number: 1930, description: 'Företagskonto' });
+    expect(result.name).toBe('Företagskonto');
+  });
+});
+
+describe('mapBrioxToCompanyInformation', () => {
+  it('reads the nested /user/info account', () => {
+    const result = mapBrioxToCompanyInformation({
+      info: {
+        company_name: 'Briox Test AB',
+        accounts: [
+          {
+            organization_number: '5561234567',
+            email: 'info@test.se',
+            address: { addressline1: 'Gatan 1', city: 'Malmö', zip: '211 00', countrycode: 'SE' },
+          },
+        ],
+      },
+    });
+
+    expect(result.companyName).toBe('Briox Test AB');
+    expect(result.organizationNumber).toBe('5561234567');
+    expect(result.address?.cityName).toBe('Malmö');
+    expect(result.address?.countryCode).toBe('SE');
+    expect(result.contact?.email).toBe('info@test.se');
+  });
+});
@@ -1,13 +1,11 @@
-import type {
-  SalesInvoiceDto, SalesInvoiceLineDto, InvoiceStatusCode,
-  LegalMonetaryTotalDto, PaymentStatusDto,
-  SupplierInvoiceDto, SupplierInvoiceLineDto,
-  CustomerDto, SupplierDto,
-  JournalDto, AccountingEntryDto,
-  AccountingAccountDto, AccountType,
-  CompanyInformationDto,
-  AmountType, PartyDto,
-} from '../../types/dto.ts';
+import type { SalesInvoiceDto, SalesInvoiceLineDto, InvoiceStatusCode, LegalMonetaryTotalDto, PaymentStatusDto } from '../../types/dto/sales-invoice.js';
+import type { SupplierInvoiceDto, SupplierInvoiceLineDto } from '../../types/dto/supplier-invoice.js';
+import type { CustomerDto } from '../../types/dto/customer.js';
+import type { SupplierDto } from '../../types/dto/supplier.js';
+import type { JournalDto, AccountingEntryDto } from '../../types/dto/journal.js';
+import type { AccountingAccountDto, AccountType } from '../../types/dto/accounting-account.js';
+import type { CompanyInformationDto } from '../../types/dto/company-information.js';
+import type { AmountType, PartyDto } from '../../types/dto/common.js';
 
 function amount(value: number | undefined | null, currency: string = 'SEK'): AmountType {
   return { value: value ?? 0, currencyCode: currency };
@@ -204,7 +202,7 @@ export function mapBrioxToJournal(raw: Record<string, unknown>): JournalDto {
       id: String(raw['series']),
     } : undefined,
     description: raw['description'] as string | undefined,
-    registrationDate: (raw['journal_date'] ?? raw['date'] as string) ?? '',
+    registrationDate: ((raw['journal_date'] ?? raw['date']) as string | undefined) ?? '',
     fiscalYear: raw['financial_year'] != null ? Number(raw['financial_year']) : undefined,
     entries,
     _raw: raw,
@@ -221,7 +219,7 @@ export function mapBrioxToAccountingAccount(raw: Record<string, unknown>): Accou
 
   return {
     accountNumber: String(raw['account_number'] ?? raw['number'] ?? ''),
-    name: (raw['name'] ?? raw['description'] as string) ?? '',
+    name: ((raw['name'] ?? raw['description']) as string | undefined) ?? '',
     type,
     active: raw['active'] !== false,
     balanceCarriedForward: raw['opening_balance'] as number | undefined,
@@ -0,0 +1,88 @@
+/** Briox API v2 types */
+
+/** Pagination metadata returned inside the `data` wrapper */
+export interface BrioxMetaInformation {
+  total_pages: number;
+  current_page: number;
+  total_count: number;
+}
+
+/**
+ * Generic list response wrapper.
+ * Briox nests the items under a resource-specific key, e.g. `data.invoices`.
+ */
+export interface BrioxListResponse {
+  data: Record<string, unknown> & {
+    metainformation?: BrioxMetaInformation;
+  };
+}
+
+/** Generic detail response wrapper */
+export interface BrioxDetailResponse<T = Record<string, unknown>> {
+  data: T;
+}
+
+/** Briox Financial Year */
+export interface BrioxFinancialYear {
+  id: string;
+  fromdate: string;
+  todate: string;
+  [key: string]: unknown;
+}
+
+/** Briox Customer Invoice */
+export interface BrioxCustomerInvoice {
+  id: string;
+  invoice_number?: string;
+  customer_id?: string;
+  customer_name?: string;
+  invoice_date?: string;
+  due_date?: string;
+  total_amount?: number;
+  net_amount?: number;
+  balance?: number;
+  currency_code?: string;
+  status?: string;
+  modified_date?: string;
+  rows?: unknown[];
+  [key: string]: unknown;
+}
+
+/** Briox Customer */
+export interface BrioxCustomer {
+  id: string;
+  customer_number?: string;
+  name?: string;
+  org_number?: string;
+  email?: string;
+  phone?: string;
+  active?: boolean;
+  modified_date?: string;
+  [key: string]: unknown;
+}
+
+/** Raw token payload returned by /token and /tokenrefresh */
+export interface BrioxTokenData {
+  access_token: string;
+  refresh_token: string;
+  client_id: number;
+  expire_date: string;
+  expire_timestamp: number;
+}
+
+/** Briox token response normalized to the OAuth2 shape */
+export interface BrioxTokenResponse {
+  access_token: string;
+  refresh_token: string;
+  token_type: string;
+  expires_in: number;
+}
+
+/**
+ * Briox token exchange config.
+ * Briox does not use a redirect flow — the user creates an application token
+ * in the Briox admin UI, which is exchanged for access + refresh tokens.
+ */
+export interface BrioxOAuthConfig {
+  clientId: string;
+}
@@ -114,6 +114,33 @@ describe('FortnoxClient', () => {
     });
   });
 
+  describe('getPage', () => {
+    it('fetches a single page with its pagination metadata', async () => {
+      fetchMock.mockResolvedValueOnce(
+        mockResponse({
+          MetaInformation: { '@TotalResources': 6, '@TotalPages': 3, '@CurrentPage': 2 },
+          Invoices: [{ DocumentNumber: '3' }, { DocumentNumber: '4' }],
+        }),
+      );
+
+      const result = await client.getPage('token', '/invoices', 'Invoices', {
+        page: 2,
+        lastModified: '2024-03-01',
+      });
+
+      expect(result).toEqual({
+        items: [{ DocumentNumber: '3' }, { DocumentNumber: '4' }],
+        page: 2,
+        totalPages: 3,
+        totalCount: 6,
+      });
+      const url = fetchMock.mock.calls[0]![0] as string;
+      expect(url).toContain('page=2');
+      expect(url).toContain('lastmodified=2024-03-01');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('getPaginated', () => {
     it('collects items across multiple pages', async () => {
       // Page 1
@@ -100,6 +100,43 @@ export class FortnoxClient {
     );
   }
 
+  /**
+   * Fetch a single page of a list endpoint.
+   * Fortnox returns `{ <listKey>: [...], MetaInformation: {...} }`.
+   */
+  async getPage<T>(
+    accessToken: string,
+    path: string,
+    listKey: string,
+    options?: { page?: number; lastModified?: string; pageSize?: number },
+  ): Promise<{ items: T[]; page: number; totalPages: number; totalCount: number }> {
+    const params = new URLSearchParams();
+    params.set('page', String(options?.page ?? 1));
+    if (options?.pageSize) {
+      params.set('limit', String(options.pageSize));
+    }
+    if (options?.lastModified) {
+      params.set('lastmodified', options.lastModified);
+    }
+
+    const separator = path.includes('?') ? '&' : '?';
+    const fullPath = `${path}${separator}${params.toString()}`;
+
+    const response = await this.get<Record<string, unknown>>(accessToken, fullPath);
+
+    const meta = response['MetaInformation'] as
+      | { '@TotalResources'?: number; '@TotalPages': number; '@CurrentPage': number }
+      | undefined;
+    const items = response[listKey];
+
+    return {
+      items: Array.isArray(items) ? (items as T[]) : [],
+      page: meta?.['@CurrentPage'] ?? options?.page ?? 1,
+      totalPages: meta?.['@TotalPages'] ?? 1,
+      totalCount: meta?.['@TotalResources'] ?? 0,
+    };
+  }
+
   async getPaginated<T>(
     accessToken: string,
     path: string,
@@ -111,33 +148,10 @@ export class FortnoxClient {
     let totalPages = 1;
 
     do {
-      const params = new URLSearchParams();
-      params.set('page', String(page));
-      if (options?.pageSize) {
-        params.set('limit', String(options.pageSize));
-      }
-      if (options?.lastModified) {
-        params.set('lastmodified', options.lastModified);
-      }
-
-      const separator = path.includes('?') ? '&' : '?';
-      const fullPath = `${path}${separator}${params.toString()}`;
-
-      const response = await this.get<Record<string, unknown>>(accessToken, fullPath);
-
-      const meta = response['MetaInformation'] as
-        | { '@TotalPages': number; '@CurrentPage': number }
-        | undefined;
-
-      if (meta) {
-        totalPages = meta['@TotalPages'] ?? 1;
-      }
-
-      const items = response[listKey];
-      if (Array.isArray(items)) {
-        allItems.push(...(items as T[]));
-      }
+      const result = await this.getPage<T>(accessToken, path, listKey, { ...options, page });
 
+      allItems.push(...result.items);
+      totalPages = result.totalPages;
       page++;
     } while (page <= totalPages);
 
@@ -107,15 +107,32 @@ export class FortnoxProvider implements AccountingProviderV2 {
       };
     }
 
-    const items = await this.client.getPaginated<Record<string, unknown>>(
-      credentials.accessToken,
-      config.endpoint,
-      config.listKey,
-      {
-        lastModified: options.lastModifiedCursor ?? undefined,
-        pageSize: options.pageSize,
-      },
-    );
+    const query = {
+      lastModified: options.lastModifiedCursor ?? undefined,
+      pageSize: options.pageSize,
+    };
+
+    let items: Record<string, unknown>[];
+    let totalCount: number | undefined;
+    let hasMore = false;
+    if (options.page !== undefined) {
+      const result = await this.client.getPage<Record<string, unknown>>(
+        credentials.accessToken,
+        config.endpoint,
+        config.listKey,
+        { ...query, page: options.page },
+      );
+      items = result.items;
+      totalCount = result.totalCount;
+      hasMore = result.page < result.totalPages;
+    } else {
+      items = await this.client.getPaginated<Record<string, unknown>>(
+        credentials.accessToken,
+        config.endpoint,
+        config.listKey,
+        query,
+      );
+    }
 
     const entities = items.map((item) =>
       mapFortnoxEntity(item, options.entityType, config),
@@ -131,8 +148,8 @@ export class FortnoxProvider implements AccountingProviderV2 {
     return {
       entities,
       nextCursor,
-      totalCount: entities.length,
-      hasMore: false,
+      totalCount: totalCount ?? entities.length,
+      hasMore,
     };
   }
 
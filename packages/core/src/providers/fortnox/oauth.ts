@@ -1,4 +1,5 @@
 import { FORTNOX_AUTH_URL, FORTNOX_TOKEN_URL } from './config.js';
+import { OAuthTokenError } from '../oauth-error.js';
 import type { FortnoxOAuthConfig, FortnoxTokenResponse } from './types.js';
 
 /**
@@ -65,8 +66,9 @@ export async function exchangeFortnoxCode(
 export async function refreshFortnoxToken(
   config: FortnoxOAuthConfig,
   refreshToken: string,
+  fetchFn: typeof fetch = fetch,
 ): Promise<FortnoxTokenResponse> {
-  const response = await fetch(FORTNOX_TOKEN_URL, {
+  const response = await fetchFn(FORTNOX_TOKEN_URL, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/x-www-form-urlencoded',
@@ -80,7 +82,7 @@ export async function refreshFortnoxToken(
 
   if (!response.ok) {
     const body = await response.text().catch(() => '');
-    throw new Error(`Fortnox token refresh failed: ${response.status} ${body}`);
+    throw new OAuthTokenError(`Fortnox token refresh failed: ${response.status} ${body}`, response.status, body);
   }
 
   return response.json() as Promise<FortnoxTokenResponse>;
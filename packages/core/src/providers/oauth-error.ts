@@ -0,0 +1,22 @@
+/**
+ * Thrown when a provider's token endpoint answers a refresh or client
+ * credentials request with a non-2xx status.
+ */
+export class OAuthTokenError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number,
+    public readonly body?: string,
+  ) {
+    super(message);
+    this.name = 'OAuthTokenError';
+  }
+
+  /**
+   * True when the provider refused the grant itself (expired, revoked or
+   * unknown refresh token, bad client) rather than failing transiently.
+   */
+  get rejected(): boolean {
+    return this.statusCode === 400 || this.statusCode === 401;
+  }
+}
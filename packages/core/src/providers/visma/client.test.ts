@@ -90,6 +90,29 @@ describe('VismaClient', () => {
     });
   });
 
+  describe('getPage', () => {
+    it('translates the page number into $skip', async () => {
+      fetchMock.mockResolvedValueOnce(
+        mockResponse({
+          Meta: { CurrentPage: 3, PageSize: 2, TotalNumberOfPages: 3, TotalNumberOfResults: 6 },
+          Data: [{ InvoiceNumber: 5 }, { InvoiceNumber: 6 }],
+        }),
+      );
+
+      const result = await client.getPage('token', '/customerinvoices', { page: 3, pageSize: 2 });
+
+      expect(result).toEqual({
+        items: [{ InvoiceNumber: 5 }, { InvoiceNumber: 6 }],
+        page: 3,
+        totalPages: 3,
+        totalCount: 6,
+      });
+      const url = fetchMock.mock.calls[0]![0] as string;
+      expect(url).toContain('%24skip=4');
+      expect(url).toContain('%24top=2');
+    });
+  });
+
   describe('getPaginated', () => {
     it('collects items across multiple pages via OData $top/$skip', async () => {
       // Page 1
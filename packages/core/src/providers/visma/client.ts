@@ -100,48 +100,67 @@ export class VismaClient {
   }
 
   /**
-   * Paginated GET using OData $top/$skip.
+   * Fetch a single page using OData $top/$skip.
    * Supports incremental sync via $filter on the modified field.
    */
-  async getPaginated<T>(
+  async getPage<T>(
     accessToken: string,
     path: string,
     options?: {
+      page?: number;
       modifiedSince?: string;
       modifiedField?: string;
       pageSize?: number;
     },
-  ): Promise<T[]> {
-    const allItems: T[] = [];
+  ): Promise<{ items: T[]; page: number; totalPages: number; totalCount: number }> {
     const pageSize = options?.pageSize ?? 100;
-    let page = 1;
-    let totalPages = 1;
+    const page = options?.page ?? 1;
 
-    do {
-      const params = new URLSearchParams();
-      params.set('$top', String(pageSize));
-      params.set('$skip', String((page - 1) * pageSize));
+    const params = new URLSearchParams();
+    params.set('$top', String(pageSize));
+    params.set('$skip', String((page - 1) * pageSize));
 
-      if (options?.modifiedSince && options?.modifiedField) {
-        params.set(
-          '$filter',
-          `${options.modifiedField} gt ${options.modifiedSince}`,
-        );
-      }
+    if (options?.modifiedSince && options?.modifiedField) {
+      params.set(
+        '$filter',
+        `${options.modifiedField} gt ${options.modifiedSince}`,
+      );
+    }
+
+    const separator = path.includes('?') ? '&' : '?';
+    const fullPath = `${path}${separator}${params.toString()}`;
 
-      const separator = path.includes('?') ? '&' : '?';
-      const fullPath = `${path}${separator}${params.toString()}`;
+    const response = await this.get<VismaPaginatedResponse<T>>(accessToken, fullPath);
 
-      const response = await this.get<VismaPaginatedResponse<T>>(accessToken, fullPath);
+    return {
+      items: Array.isArray(response.Data) ? response.Data : [],
+      page: response.Meta?.CurrentPage ?? page,
+      totalPages: response.Meta?.TotalNumberOfPages ?? 1,
+      totalCount: response.Meta?.TotalNumberOfResults ?? 0,
+    };
+  }
 
-      if (response.Meta) {
-        totalPages = response.Meta.TotalNumberOfPages ?? 1;
-      }
+  /**
+   * Fetch all pages of a list endpoint.
+   */
+  async getPaginated<T>(
+    accessToken: string,
+    path: string,
+    options?: {
+      modifiedSince?: string;
+      modifiedField?: string;
+      pageSize?: number;
+    },
+  ): Promise<T[]> {
+    const allItems: T[] = [];
+    let page = 1;
+    let totalPages = 1;
 
-      if (Array.isArray(response.Data)) {
-        allItems.push(...response.Data);
-      }
+    do {
+      const result = await this.getPage<T>(accessToken, path, { ...options, page });
 
+      allItems.push(...result.items);
+      totalPages = result.totalPages;
       page++;
     } while (page <= totalPages);
 
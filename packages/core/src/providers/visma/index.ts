@@ -107,15 +107,31 @@ export class VismaProvider implements AccountingProviderV2 {
       };
     }
 
-    const items = await this.client.getPaginated<Record<string, unknown>>(
-      credentials.accessToken,
-      config.endpoint,
-      {
-        modifiedSince: options.lastModifiedCursor ?? undefined,
-        modifiedField: config.modifiedField,
-        pageSize: options.pageSize,
-      },
-    );
+    const query = {
+      modifiedSince: options.lastModifiedCursor ?? undefined,
+      modifiedField: config.modifiedField,
+      pageSize: options.pageSize,
+    };
+
+    let items: Record<string, unknown>[];
+    let totalCount: number | undefined;
+    let hasMore = false;
+    if (options.page !== undefined) {
+      const result = await this.client.getPage<Record<string, unknown>>(
+        credentials.accessToken,
+        config.endpoint,
+        { ...query, page: options.page },
+      );
+      items = result.items;
+      totalCount = result.totalCount;
+      hasMore = result.page < result.totalPages;
+    } else {
+      items = await this.client.getPaginated<Record<string, unknown>>(
+        credentials.accessToken,
+        config.endpoint,
+        query,
+      );
+    }
 
     const entities = items.map((item) =>
       mapVismaEntity(item, options.entityType, config),
@@ -131,8 +147,8 @@ export class VismaProvider implements AccountingProviderV2 {
     return {
       entities,
       nextCursor,
-      totalCount: entities.length,
-      hasMore: false,
+      totalCount: totalCount ?? entities.length,
+      hasMore,
     };
   }
 
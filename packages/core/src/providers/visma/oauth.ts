@@ -1,4 +1,5 @@
 import { VISMA_AUTH_URL, VISMA_TOKEN_URL, VISMA_REVOKE_URL } from './config.js';
+import { OAuthTokenError } from '../oauth-error.js';
 import type { VismaOAuthConfig, VismaTokenResponse } from './types.js';
 
 /** Default scopes for Visma eAccounting API */
@@ -76,8 +77,9 @@ export async function exchangeVismaCode(
 export async function refreshVismaToken(
   config: VismaOAuthConfig,
   refreshToken: string,
+  fetchFn: typeof fetch = fetch,
 ): Promise<VismaTokenResponse> {
-  const response = await fetch(VISMA_TOKEN_URL, {
+  const response = await fetchFn(VISMA_TOKEN_URL, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/x-www-form-urlencoded',
@@ -91,7 +93,7 @@ export async function refreshVismaToken(
 
   if (!response.ok) {
     const body = await response.text().catch(() => '');
-    throw new Error(`Visma token refresh failed: ${response.status} ${body}`);
+    throw new OAuthTokenError(`Visma token refresh failed: ${response.status} ${body}`, response.status, body);
   }
 
   return response.json() as Promise<VismaTokenResponse>;
@@ -85,6 +85,16 @@ export const SWEDISH_ACCOUNTS = {
     ACCRUED_EXPENSES: { min: 2900, max: 2999 } as AccountRange,
   },
 
+  VAT: {
+    ALL: { min: 2600, max: 2699 } as AccountRange,
+    OUTPUT_25: { min: 2610, max: 2619 } as AccountRange,
+    OUTPUT_12: { min: 2620, max: 2629 } as AccountRange,
+    OUTPUT_6: { min: 2630, max: 2639 } as AccountRange,
+    INPUT: { min: 2640, max: 2649 } as AccountRange,
+    // Redovisningskonto för moms: the VAT of a period is settled against it
+    SETTLEMENT: { min: 2650, max: 2650 } as AccountRange,
+  },
+
   // ===== INCOME STATEMENT - REVENUE (Class 3) =====
 
   REVENUE: {
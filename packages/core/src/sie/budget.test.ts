@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { parseSIE } from './parser.js';
+import { budgetLinesFromSIE, parseBudgetCSV, calculateBudgetVariance, BudgetCSVError } from './budget.js';
+
+const ACTUALS = parseSIE([
+  '#FLAGGA 0',
+  '#SIETYP 4',
+  '#RAR 0 20240101 20241231',
+  '#KONTO 1930 "Företagskonto"',
+  '#KONTO 3010 "Försäljning"',
+  '#KONTO 5010 "Lokalhyra"',
+  '#KONTO 6110 "Kontorsmateriel"',
+  '#VER A 1 20240115 "Försäljning"',
+  '{',
+  '#TRANS 1930 {} 62000.00',
+  '#TRANS 3010 {} -62000.00',
+  '}',
+  '#VER A 2 20240131 "Hyra januari"',
+  '{',
+  '#TRANS 5010 {} 1500.00',
+  '#TRANS 6110 {} 300.00',
+  '#TRANS 1930 {} -1800.00',
+  '}',
+].join('\n'));
+
+describe('budgetLinesFromSIE', () => {
+  it('reads whole-account #PBUDGET and #BUDGET rows of the year', () => {
+    const parsed = parseSIE([
+      '#FLAGGA 0',
+      '#SIETYP 3',
+      '#RAR 0 20240101 20241231',
+      '#PBUDGET 0 202401 3010 {} -50000.00',
+      '#PBUDGET 0 202401 3010 {1 "10"} -20000.00',
+      '#PBUDGET -1 202301 3010 {} -40000.00',
+      '#BUDGET 0 5010 12000.00',
+    ].join('\n'));
+
+    expect(budgetLinesFromSIE(parsed)).toEqual([
+      { accountNumber: '3010', period: '202401', amount: -50000 },
+      { accountNumber: '5010', amount: 12000 },
+    ]);
+  });
+});
+
+describe('parseBudgetCSV', () => {
+  it('reads month columns with semicolons and decimal commas', () => {
+    const csv = '\uFEFFKonto;Namn;2024-01;202402\r\n3010;"Försäljning; varor";-50 000,50;-50000\r\n\r\n5010;Lokalhyra;1000;\r\n';
+    expect(parseBudgetCSV(csv)).toEqual([
+      { accountNumber: '3010', period: '202401', amount: -50000.5 },
+      { accountNumber: '3010', period: '202402', amount: -50000 },
+      { accountNumber: '5010', period: '202401', amount: 1000 },
+    ]);
+  });
+
+  it('reads a full-year column', () => {
+    expect(parseBudgetCSV('account,amount\n5010,12000.00\n')).toEqual([{ accountNumber: '5010', amount: 12000 }]);
+  });
+
+  it('rejects unknown columns, accounts and amounts with their line', () => {
+    expect(() => parseBudgetCSV('account;quarter\n')).toThrow('Unknown budget column "quarter" (line 1)');
+    expect(() => parseBudgetCSV('account;amount\n3010;100\nabc;100\n')).toThrow('Invalid account "abc" (line 3)');
+    expect(() => parseBudgetCSV('account;amount\n3010;1O0\n')).toThrow(BudgetCSVError);
+  });
+});
+
+describe('calculateBudgetVariance', () => {
+  const budget = [
+    { accountNumber: '3010', period: '202401', amount: -50000 },
+    { accountNumber: '3010', period: '202402', amount: -50000 },
+    { accountNumber: '5010', amount: 12000 },
+  ];
+
+  it('compares each account with its budget, month by month', () => {
+    const report = calculateBudgetVariance(ACTUALS, budget);
+    const [sales, rent, supplies] = report.accounts;
+
+    expect(report.accounts.map((a) => a.accountNumber)).toEqual(['3010', '5010', '6110']);
+    expect(sales).toMatchObject({
+      accountName: 'Försäljning',
+      group: 'Nettoomsättning',
+      actual: -62000,
+      budget: -100000,
+      deviation: 38000,
+      deviationPercent: 38,
+      favourable: false,
+    });
+    expect(sales!.months[0]).toEqual({
+      month: '2024-01',
+      actual: -62000,
+      budget: -50000,
+      deviation: -12000,
+      deviationPercent: -24,
+      favourable: true,
+    });
+    // The full-year budget is spread over the twelve months
+    expect(rent!.months).toHaveLength(12);
+    expect(rent!.months[0]).toMatchObject({ actual: 1500, budget: 1000, deviationPercent: 50, favourable: false });
+    expect(rent).toMatchObject({ actual: 1500, budget: 12000, deviation: -10500, deviationPercent: -87.5 });
+    expect(supplies).toMatchObject({ actual: 300, budget: 0, deviationPercent: null, favourable: false });
+  });
+
+  it('adds up BAS groups, months and the total', () => {
+    const report = calculateBudgetVariance(ACTUALS, budget);
+
+    expect(report.groups.map((g) => g.group)).toEqual(['Nettoomsättning', 'Lokalkostnader', 'Övriga externa kostnader']);
+    expect(report.months[0]).toMatchObject({ month: '2024-01', actual: -60200, budget: -49000, deviation: -11200 });
+    expect(report.months[1]).toMatchObject({ actual: 0, budget: -49000 });
+    expect(report.total).toMatchObject({ actual: -60200, budget: -88000, deviation: 27800 });
+  });
+
+  it('spreads a full-year budget in whole öre', () => {
+    const { accounts } = calculateBudgetVariance(ACTUALS, [{ accountNumber: '6110', amount: 1000 }]);
+    const months = accounts.find((a) => a.accountNumber === '6110')!.months;
+    expect(months[0]!.budget).toBe(83.33);
+    expect(months[11]!.budget).toBe(83.37);
+  });
+
+  it('reads monthly actuals from #PSALDO and the year from #RES without verifications', () => {
+    const parsed = parseSIE([
+      '#FLAGGA 0',
+      '#SIETYP 3',
+      '#RAR 0 20240101 20241231',
+      '#RES 0 3010 -70000.00',
+      '#PSALDO 0 202401 3010 {} -30000.00',
+      '#PSALDO 0 202401 3010 {1 "10"} -30000.00',
+      '#PSALDO 0 202402 3010 {} -40000.00',
+    ].join('\n'));
+    const [sales] = calculateBudgetVariance(parsed, budget).accounts;
+
+    expect(sales).toMatchObject({ actual: -70000, budget: -100000, deviation: 30000 });
+    expect(sales!.months.slice(0, 2).map((m) => m.actual)).toEqual([-30000, -40000]);
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Budgets and budget vs actual reporting.
+ *
+ * Budgets come from the #BUDGET (full year) and #PBUDGET (monthly) rows of a
+ * SIE file, or from a CSV file with one row per BAS account. Either way they
+ * end up as `SIEBudgetLine`s in SIE signs, and `calculateBudgetVariance()`
+ * compares them with the result accounts of a parsed SIE file per account,
+ * per BAS group and per month.
+ */
+import type {
+  SIEParseResult,
+  SIEBudgetLine,
+  SIEVarianceFigures,
+  SIEMonthVariance,
+  SIEAccountVariance,
+  SIEGroupVariance,
+  SIEVarianceReport,
+} from '../types/sie.js';
+import { classifyAccount, isInRange } from './accounts.js';
+import { monthsBetween, toMonth } from './timeseries.js';
+import { roundToOre } from './format.js';
+
+const RESULT_ACCOUNTS = { min: 3000, max: 8999 };
+
+export class BudgetCSVError extends Error {
+  constructor(
+    message: string,
+    /** 1-based line of the CSV file */
+    public readonly line: number,
+  ) {
+    super(`${message} (line ${line})`);
+    this.name = 'BudgetCSVError';
+  }
+}
+
+/**
+ * Budget lines from the #PBUDGET and #BUDGET rows of one year. #PBUDGET
+ * rows for parts of an account (with objects) are left out.
+ *
+ * @param yearIndex - Which year to read (0 = current, default)
+ */
+export function budgetLinesFromSIE(data: SIEParseResult, yearIndex = 0): SIEBudgetLine[] {
+  return [
+    ...data.periodBudgets
+      .filter((b) => b.yearIndex === yearIndex && b.objects.length === 0)
+      .map((b) => ({ accountNumber: b.accountNumber, period: b.period, amount: b.amount })),
+    ...data.budgets
+      .filter((b) => b.yearIndex === yearIndex)
+      .map((b) => ({ accountNumber: b.accountNumber, amount: b.amount })),
+  ];
+}
+
+function splitCSVLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]!;
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+type CSVColumn = { kind: 'account' | 'ignored' | 'year' } | { kind: 'month'; period: string };
+
+function csvColumn(header: string): CSVColumn | null {
+  const name = header.toLowerCase();
+  if (name === 'account' || name === 'konto') return { kind: 'account' };
+  if (['name', 'namn', 'benämning'].includes(name)) return { kind: 'ignored' };
+  if (['amount', 'budget', 'belopp', 'total'].includes(name)) return { kind: 'year' };
+  const month = /^(\d{4})-?(0[1-9]|1[0-2])$/.exec(name);
+  return month ? { kind: 'month', period: `${month[1]}${month[2]}` } : null;
+}
+
+/**
+ * Parse a budget written as CSV, one row per BAS account.
+ *
+ * The header names the columns: `account` (or `konto`), then either one
+ * full-year column (`amount`, `budget`, `belopp` or `total`) or one column
+ * per month written `YYYY-MM` or `YYYYMM`. A `name` column is ignored.
+ * Cells are separated by `;`, `,` or tabs, and with `;` or tabs a decimal
+ * comma is accepted. Amounts use SIE signs: revenue negative, costs positive.
+ *
+ * @throws BudgetCSVError for an unknown column, account or amount
+ */
+export function parseBudgetCSV(content: string): SIEBudgetLine[] {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const headerIndex = lines.findIndex((line) => line.trim() !== '');
+  if (headerIndex < 0) throw new BudgetCSVError('Empty budget file', 1);
+
+  const header = lines[headerIndex]!;
+  const delimiter = header.includes(';') ? ';' : header.includes('\t') ? '\t' : ',';
+  const columns = splitCSVLine(header, delimiter).map((cell) => {
+    const column = csvColumn(cell);
+    if (!column) throw new BudgetCSVError(`Unknown budget column "${cell}"`, headerIndex + 1);
+    return column;
+  });
+  const accountColumn = columns.findIndex((c) => c.kind === 'account');
+  if (accountColumn < 0) throw new BudgetCSVError('Missing account column', headerIndex + 1);
+  if (!columns.some((c) => c.kind === 'year' || c.kind === 'month')) {
+    throw new BudgetCSVError('Missing amount or month columns', headerIndex + 1);
+  }
+
+  const budget: SIEBudgetLine[] = [];
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    if (lines[i]!.trim() === '') continue;
+    const cells = splitCSVLine(lines[i]!, delimiter);
+    const accountNumber = cells[accountColumn] ?? '';
+    if (!/^\d{4}$/.test(accountNumber)) {
+      throw new BudgetCSVError(`Invalid account "${accountNumber}"`, i + 1);
+    }
+
+    columns.forEach((column, c) => {
+      if (column.kind !== 'year' && column.kind !== 'month') return;
+      const cell = (cells[c] ?? '').replace(/\s/g, '');
+      if (cell === '') return;
+      const amount = Number(delimiter === ',' ? cell : cell.replace(',', '.'));
+      if (!Number.isFinite(amount)) throw new BudgetCSVError(`Invalid amount "${cells[c]}"`, i + 1);
+      budget.push(column.kind === 'month' ? { accountNumber, period: column.period, amount } : { accountNumber, amount });
+    });
+  }
+  return budget;
+}
+
+function variance(actual: number, budget: number): SIEVarianceFigures {
+  const deviation = roundToOre(actual - budget);
+  return {
+    actual: roundToOre(actual),
+    budget: roundToOre(budget),
+    deviation,
+    deviationPercent: budget !== 0 ? roundToOre((deviation / Math.abs(budget)) * 100) : null,
+    // In SIE signs a lower amount on any result account means a better result
+    favourable: deviation <= 0,
+  };
+}
+
+function addTo(map: Map<string, number>, key: string, amount: number): void {
+  map.set(key, (map.get(key) ?? 0) + amount);
+}
+
+/** Monthly amounts per account */
+type AccountMonths = Map<string, Map<string, number>>;
+
+function addToAccountMonth(accounts: AccountMonths, accountNumber: string, month: string, amount: number): void {
+  let months = accounts.get(accountNumber);
+  if (!months) {
+    months = new Map();
+    accounts.set(accountNumber, months);
+  }
+  addTo(months, month, amount);
+}
+
+/**
+ * Compare the result accounts (3000-8999) of a parsed SIE file with a
+ * budget, per account, per BAS group and per month of the fiscal year.
+ *
+ * Monthly actuals come from the verifications, or from #PSALDO rows for
+ * files without them; the full-year actual is the #RES balance where the
+ * file has one. A full-year budget line without monthly lines for the same
+ * account is spread evenly over the months. Accounts with actuals but no
+ * budget are included, with a budget of 0.
+ */
+export function calculateBudgetVariance(data: SIEParseResult, budget: SIEBudgetLine[]): SIEVarianceReport {
+  const lines = budget.filter((line) => isInRange(line.accountNumber, RESULT_ACCOUNTS));
+
+  // Actuals, per month and for the full year
+  const actualMonths: AccountMonths = new Map();
+  if (data.transactions.length > 0) {
+    for (const transaction of data.transactions) {
+      if (!isInRange(transaction.accountNumber, RESULT_ACCOUNTS)) continue;
+      addToAccountMonth(actualMonths, transaction.accountNumber, toMonth(transaction.verificationDate), transaction.amount);
+    }
+  } else {
+    for (const row of data.periodBalances) {
+      if (row.yearIndex !== 0 || row.objects.length > 0 || !isInRange(row.accountNumber, RESULT_ACCOUNTS)) continue;
+      addToAccountMonth(actualMonths, row.accountNumber, toMonth(row.period), row.amount);
+    }
+  }
+  const actualYear = new Map<string, number>();
+  for (const balance of data.balances) {
+    if (balance.balanceType === 'RES' && balance.yearIndex === 0 && isInRange(balance.accountNumber, RESULT_ACCOUNTS)) {
+      addTo(actualYear, balance.accountNumber, balance.amount);
+    }
+  }
+
+  const { fiscalYearStart, fiscalYearEnd } = data.metadata;
+  let months: string[];
+  if (fiscalYearStart && fiscalYearEnd) {
+    months = monthsBetween(toMonth(fiscalYearStart), toMonth(fiscalYearEnd));
+  } else {
+    const seen = [
+      ...[...actualMonths.values()].flatMap((m) => [...m.keys()]),
+      ...lines.filter((line) => line.period).map((line) => toMonth(line.period!)),
+    ].sort();
+    months = seen.length > 0 ? monthsBetween(seen[0]!, seen[seen.length - 1]!) : [];
+  }
+
+  // Budget, per month and for the full year
+  const budgetMonths: AccountMonths = new Map();
+  const budgetYear = new Map<string, number>();
+  for (const line of lines) {
+    if (line.period) addToAccountMonth(budgetMonths, line.accountNumber, toMonth(line.period), line.amount);
+  }
+  for (const line of lines) {
+    if (line.period) continue;
+    addTo(budgetYear, line.accountNumber, line.amount);
+    if (budgetMonths.has(line.accountNumber) || months.length === 0) continue;
+    // Spread in whole öre, with the remainder in the last month
+    const share = roundToOre(line.amount / months.length);
+    months.forEach((month, i) => {
+      const amount = i < months.length - 1 ? share : line.amount - share * (months.length - 1);
+      addToAccountMonth(budgetMonths, line.accountNumber, month, amount);
+    });
+  }
+
+  const accountNames = new Map(data.accounts.map((a) => [a.accountNumber, a.accountName]));
+  const accountNumbers = [...new Set([...actualMonths.keys(), ...actualYear.keys(), ...budgetMonths.keys()])].sort();
+  const sum = (values: Iterable<number>) => [...values].reduce((total, value) => total + value, 0);
+
+  const accounts: SIEAccountVariance[] = accountNumbers.map((accountNumber) => {
+    const actualByMonth = actualMonths.get(accountNumber) ?? new Map<string, number>();
+    const budgetByMonth = budgetMonths.get(accountNumber) ?? new Map<string, number>();
+    const actual = actualYear.get(accountNumber) ?? sum(actualByMonth.values());
+    const budgeted = budgetYear.get(accountNumber) ?? sum(budgetByMonth.values());
+    return {
+      accountNumber,
+      accountName: accountNames.get(accountNumber),
+      group: classifyAccount(accountNumber),
+      ...variance(actual, budgeted),
+      months: months.map((month) => ({
+        month,
+        ...variance(actualByMonth.get(month) ?? 0, budgetByMonth.get(month) ?? 0),
+      })),
+    };
+  });
+
+  /** Add up account rows, keeping their month order */
+  const combine = (rows: SIEAccountVariance[]): { figures: SIEVarianceFigures; months: SIEMonthVariance[] } => ({
+    figures: variance(sum(rows.map((r) => r.actual)), sum(rows.map((r) => r.budget))),
+    months: months.map((month, i) => ({
+      month,
+      ...variance(sum(rows.map((r) => r.months[i]!.actual)), sum(rows.map((r) => r.months[i]!.budget))),
+    })),
+  });
+
+  const byGroup = new Map<string | null, SIEAccountVariance[]>();
+  for (const account of accounts) {
+    byGroup.set(account.group, [...(byGroup.get(account.group) ?? []), account]);
+  }
+  const groups: SIEGroupVariance[] = [...byGroup].map(([group, rows]) => {
+    const { figures, months: groupMonths } = combine(rows);
+    return { group, ...figures, months: groupMonths };
+  });
+
+  const { figures: total, months: totalMonths } = combine(accounts);
+  return { accounts, groups, months: totalMonths, total };
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { parseSIE } from './parser.js';
+import { calculateCashFlow } from './cashflow.js';
+
+// A year with a machine purchase, depreciation, loan amortization and a
+// dividend. The result (108 000) is not booked to 2099 in the closing balances.
+const LINES = [
+  '#FLAGGA 0',
+  '#SIETYP 2',
+  '#RAR 0 20240101 20241231',
+  '#RAR -1 20230101 20231231',
+  '#IB 0 1220 100000.00',
+  '#IB 0 1229 -20000.00',
+  '#IB 0 1510 50000.00',
+  '#IB 0 1930 70000.00',
+  '#IB 0 2081 -50000.00',
+  '#IB 0 2091 -80000.00',
+  '#IB 0 2099 -40000.00',
+  '#IB 0 2350 -30000.00',
+  '#UB 0 1220 140000.00',
+  '#UB 0 1229 -30000.00',
+  '#UB 0 1510 60000.00',
+  '#UB 0 1930 163000.00',
+  '#UB 0 2081 -50000.00',
+  '#UB 0 2091 -100000.00',
+  '#UB 0 2350 -20000.00',
+  '#UB 0 2440 -25000.00',
+  '#UB 0 2510 -30000.00',
+  '#RES 0 3010 -300000.00',
+  '#RES 0 4010 150000.00',
+  '#RES 0 7832 10000.00',
+  '#RES 0 8410 2000.00',
+  '#RES 0 8910 30000.00',
+];
+
+describe('calculateCashFlow', () => {
+  it('builds the statement from IB/UB changes and reconciles to cash', () => {
+    expect(calculateCashFlow(parseSIE(LINES.join('\n')))).toEqual({
+      netIncome: 108000,
+      depreciationAndWriteDowns: 10000,
+      changeInUntaxedReserves: 0,
+      changeInProvisions: 0,
+      operatingCashFlowBeforeWorkingCapital: 118000,
+      changeInInventory: 0,
+      changeInCustomerReceivables: -10000,
+      changeInOtherReceivables: 0,
+      changeInAccountsPayable: 25000,
+      changeInOtherCurrentLiabilities: 30000,
+      workingCapitalChange: 45000,
+      operatingCashFlow: 163000,
+      investmentsInFixedAssets: -40000,
+      changeInShortTermInvestments: 0,
+      investingCashFlow: -40000,
+      changeInLongTermLiabilities: -10000,
+      changeInShortTermBorrowings: 0,
+      changeInEquity: -20000,
+      financingCashFlow: -30000,
+      netCashFlow: 93000,
+      openingCash: 70000,
+      closingCash: 163000,
+      cashChange: 93000,
+      difference: 0,
+      reconciles: true,
+    });
+  });
+
+  it('counts a result already booked to equity only once', () => {
+    const booked = parseSIE([...LINES, '#UB 0 2099 -108000.00'].join('\n'));
+    expect(calculateCashFlow(booked)).toMatchObject({
+      netIncome: 108000,
+      changeInEquity: -20000,
+      netCashFlow: 93000,
+      reconciles: true,
+    });
+  });
+
+  it("falls back to the previous year's closing balances without #IB rows", () => {
+    const withoutIB = LINES.filter((line) => !line.startsWith('#IB')).concat(
+      LINES.filter((line) => line.startsWith('#IB')).map((line) => line.replace('#IB 0', '#UB -1')),
+    );
+    expect(calculateCashFlow(parseSIE(withoutIB.join('\n')))).toMatchObject({
+      openingCash: 70000,
+      netCashFlow: 93000,
+      reconciles: true,
+    });
+  });
+
+  it('flags a statement that does not reconcile', () => {
+    // The closing tax liability is missing, so the balances no longer add up
+    const incomplete = parseSIE(LINES.filter((line) => !line.startsWith('#UB 0 2510')).join('\n'));
+    expect(calculateCashFlow(incomplete)).toMatchObject({
+      changeInOtherCurrentLiabilities: 0,
+      netCashFlow: 63000,
+      cashChange: 93000,
+      difference: -30000,
+      reconciles: false,
+    });
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Cash flow statement (kassaflödesanalys) by the indirect method.
+ *
+ * Starts from the year's result, adds back items that did not move cash,
+ * and turns the change in every other balance sheet account (UB - IB) into
+ * its cash effect. Since every booking has two sides, the sections add up
+ * to the change in cash and bank (1900-1999) when the balances are
+ * complete; `reconciles` flags when they do not.
+ *
+ * Sign conventions follow SIE: assets are positive and liabilities and
+ * equity negative, so a decrease in the balance of any non-cash account is
+ * cash in (`-(UB - IB)`), whichever side of the balance sheet it is on.
+ */
+import type {
+  SIEParseResult,
+  SIEBalance,
+  SIECashFlowStatement,
+} from '../types/sie.js';
+import {
+  SWEDISH_ACCOUNTS,
+  sumAccountsInRange,
+  type AccountRange,
+} from './accounts.js';
+import { roundToOre } from './format.js';
+
+const RESULT_ACCOUNTS: AccountRange = { min: 3000, max: 8999 };
+const BALANCE_ACCOUNTS: AccountRange = { min: 1000, max: 2999 };
+
+/**
+ * All of class 20, not just the aktiebolag accounts in EQUITY.ALL, so that
+ * sole proprietors' own capital and withdrawals (2010-2079) are included.
+ */
+const EQUITY: AccountRange = { min: 2000, max: 2099 };
+
+/** Prepaid expenses and other current receivables */
+const OTHER_RECEIVABLES: AccountRange = { min: 1600, max: 1799 };
+
+/**
+ * Opening balances for the year: its #IB rows, or the previous year's #UB
+ * rows for files that only carry closing balances.
+ */
+function openingBalances(balances: SIEBalance[], yearIndex: number): SIEBalance[] {
+  const opening = balances.filter((b) => b.balanceType === 'IB' && b.yearIndex === yearIndex);
+  if (opening.length > 0) return opening;
+  return balances.filter((b) => b.balanceType === 'UB' && b.yearIndex === yearIndex - 1);
+}
+
+/**
+ * Build an indirect-method cash flow statement from IB/UB changes and the
+ * year's result.
+ *
+ * The result may or may not have been booked to equity (2099) in the
+ * closing balances; either way it is counted once, under operating
+ * activities, and `changeInEquity` only shows owner transactions.
+ *
+ * @param data - Parsed SIE result from parseSIE()
+ * @param yearIndex - Which year to calculate for (0 = current, default)
+ */
+export function calculateCashFlow(
+  data: SIEParseResult,
+  yearIndex = 0,
+): SIECashFlowStatement {
+  const opening = openingBalances(data.balances, yearIndex);
+  const closing = data.balances.filter((b) => b.balanceType === 'UB' && b.yearIndex === yearIndex);
+  const incomeStatement = data.balances.filter((b) => b.balanceType === 'RES' && b.yearIndex === yearIndex);
+
+  /** Change in the balance of a range over the year (UB - IB) */
+  const change = (range: AccountRange) =>
+    sumAccountsInRange(closing, range) - sumAccountsInRange(opening, range);
+  /** Cash effect of the change in a range */
+  const cashEffect = (range: AccountRange) => -change(range);
+
+  // ============================================
+  // OPERATING ACTIVITIES
+  // ============================================
+
+  // Revenue is negative in SIE, so the result is the negated sum
+  const netIncome = -sumAccountsInRange(incomeStatement, RESULT_ACCOUNTS);
+  const depreciationAndWriteDowns =
+    sumAccountsInRange(incomeStatement, SWEDISH_ACCOUNTS.PERSONNEL_COSTS.DEPRECIATION) +
+    sumAccountsInRange(incomeStatement, SWEDISH_ACCOUNTS.PERSONNEL_COSTS.WRITE_DOWNS);
+  // Appropriations and provisions are costs without a cash payment
+  const changeInUntaxedReserves = cashEffect(SWEDISH_ACCOUNTS.UNTAXED_RESERVES.ALL);
+  const changeInProvisions = cashEffect(SWEDISH_ACCOUNTS.PROVISIONS.ALL);
+  const operatingCashFlowBeforeWorkingCapital =
+    netIncome + depreciationAndWriteDowns + changeInUntaxedReserves + changeInProvisions;
+
+  const changeInInventory = cashEffect(SWEDISH_ACCOUNTS.CURRENT_ASSETS.INVENTORY);
+  const changeInCustomerReceivables = cashEffect(SWEDISH_ACCOUNTS.CURRENT_ASSETS.CUSTOMER_RECEIVABLES);
+  const changeInOtherReceivables = cashEffect(OTHER_RECEIVABLES);
+  const changeInAccountsPayable = cashEffect(SWEDISH_ACCOUNTS.CURRENT_LIABILITIES.ACCOUNTS_PAYABLE);
+  // 2500-2999 except short-term borrowing, which is financing
+  const changeInOtherCurrentLiabilities =
+    cashEffect({ min: 2500, max: 2999 }) -
+    cashEffect(SWEDISH_ACCOUNTS.CURRENT_LIABILITIES.INTEREST_BEARING_SHORT);
+  const workingCapitalChange =
+    changeInInventory +
+    changeInCustomerReceivables +
+    changeInOtherReceivables +
+    changeInAccountsPayable +
+    changeInOtherCurrentLiabilities;
+  const operatingCashFlow = operatingCashFlowBeforeWorkingCapital + workingCapitalChange;
+
+  // ============================================
+  // INVESTING ACTIVITIES
+  // ============================================
+
+  // Depreciation lowered the book value without moving cash; what remains is net investment
+  const investmentsInFixedAssets =
+    cashEffect(SWEDISH_ACCOUNTS.FIXED_ASSETS.ALL) - depreciationAndWriteDowns;
+  const changeInShortTermInvestments = cashEffect(SWEDISH_ACCOUNTS.CURRENT_ASSETS.SHORT_TERM_INVESTMENTS);
+  const investingCashFlow = investmentsInFixedAssets + changeInShortTermInvestments;
+
+  // ============================================
+  // FINANCING ACTIVITIES
+  // ============================================
+
+  const changeInLongTermLiabilities = cashEffect(SWEDISH_ACCOUNTS.LONG_TERM_LIABILITIES.ALL);
+  const changeInShortTermBorrowings = cashEffect(SWEDISH_ACCOUNTS.CURRENT_LIABILITIES.INTEREST_BEARING_SHORT);
+
+  // A balanced closing balance sheet means the result is already booked to
+  // equity; it was counted under operating activities, so take it out here
+  const resultBooked = roundToOre(sumAccountsInRange(closing, BALANCE_ACCOUNTS)) === 0;
+  const changeInEquity = cashEffect(EQUITY) - (resultBooked ? netIncome : 0);
+  const financingCashFlow = changeInLongTermLiabilities + changeInShortTermBorrowings + changeInEquity;
+
+  // ============================================
+  // RECONCILIATION
+  // ============================================
+
+  const netCashFlow = operatingCashFlow + investingCashFlow + financingCashFlow;
+  const openingCash = sumAccountsInRange(opening, SWEDISH_ACCOUNTS.CURRENT_ASSETS.CASH_AND_BANK);
+  const closingCash = sumAccountsInRange(closing, SWEDISH_ACCOUNTS.CURRENT_ASSETS.CASH_AND_BANK);
+  const cashChange = closingCash - openingCash;
+  const difference = roundToOre(netCashFlow - cashChange);
+
+  return {
+    netIncome: roundToOre(netIncome),
+    depreciationAndWriteDowns: roundToOre(depreciationAndWriteDowns),
+    changeInUntaxedReserves: roundToOre(changeInUntaxedReserves),
+    changeInProvisions: roundToOre(changeInProvisions),
+    operatingCashFlowBeforeWorkingCapital: roundToOre(operatingCashFlowBeforeWorkingCapital),
+    changeInInventory: roundToOre(changeInInventory),
+    changeInCustomerReceivables: roundToOre(changeInCustomerReceivables),
+    changeInOtherReceivables: roundToOre(changeInOtherReceivables),
+    changeInAccountsPayable: roundToOre(changeInAccountsPayable),
+    changeInOtherCurrentLiabilities: roundToOre(changeInOtherCurrentLiabilities),
+    workingCapitalChange: roundToOre(workingCapitalChange),
+    operatingCashFlow: roundToOre(operatingCashFlow),
+    investmentsInFixedAssets: roundToOre(investmentsInFixedAssets),
+    changeInShortTermInvestments: roundToOre(changeInShortTermInvestments),
+    investingCashFlow: roundToOre(investingCashFlow),
+    changeInLongTermLiabilities: roundToOre(changeInLongTermLiabilities),
+    changeInShortTermBorrowings: roundToOre(changeInShortTermBorrowings),
+    changeInEquity: roundToOre(changeInEquity),
+    financingCashFlow: roundToOre(financingCashFlow),
+    netCashFlow: roundToOre(netCashFlow),
+    openingCash: roundToOre(openingCash),
+    closingCash: roundToOre(closingCash),
+    cashChange: roundToOre(cashChange),
+    difference,
+    reconciles: difference === 0,
+  };
+}
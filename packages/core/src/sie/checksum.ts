@@ -0,0 +1,122 @@
+/**
+ * #KSUMMA support for SIE 4.
+ *
+ * The checksum is a CRC-32 over every record between the opening `#KSUMMA`
+ * and the closing `#KSUMMA <sum>`. Only the label and the field contents
+ * count — field separators, quotes, braces and line breaks are left out —
+ * and the characters are taken in their PC8 (CP437) byte form.
+ */
+import * as iconv from 'iconv-lite';
+import type { SIEChecksumStatus } from '../types/sie.js';
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC-32 (IEEE 802.3). Pass the previous result to continue a running checksum.
+ */
+export function crc32(bytes: Uint8Array, previous = 0): number {
+  let crc = (previous ^ 0xffffffff) >>> 0;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC32_TABLE[(crc ^ bytes[i]!) & 0xff]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * #KSUMMA value for a sequence of records, each given as its label
+ * (with the leading '#') followed by its field contents in order. Object
+ * lists contribute their items individually.
+ */
+export function computeSIEChecksum(records: Iterable<string[]>): number {
+  let crc = 0;
+  for (const record of records) {
+    for (const value of record) {
+      if (value) crc = crc32(iconv.encode(value, 'cp437'), crc);
+    }
+  }
+  return crc;
+}
+
+/**
+ * The part of a record line that counts toward #KSUMMA: the label and field
+ * contents, without separating whitespace, quotes or braces.
+ */
+function checksumText(line: string): string {
+  let text = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]!;
+    if (inQuotes) {
+      if (char === '\\' && line[i + 1] === '"') {
+        text += '"';
+        i++;
+      } else if (char === '"' && line[i + 1] === '"') {
+        text += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        text += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char !== ' ' && char !== '\t' && char !== '{' && char !== '}') {
+      text += char;
+    }
+  }
+  return text;
+}
+
+export interface SIEChecksumResult {
+  status: SIEChecksumStatus;
+  /** Sum declared by the closing #KSUMMA */
+  expected?: number;
+  /** Sum computed over the records in between */
+  actual?: number;
+  /** 1-based line of the closing #KSUMMA, or of the opening one when the file ends without it */
+  line?: number;
+}
+
+/**
+ * Check the #KSUMMA of a decoded SIE file. Files without #KSUMMA are
+ * `missing`; an opening #KSUMMA with no closing sum is `invalid`.
+ */
+export function verifySIEChecksum(content: string): SIEChecksumResult {
+  const lines = content.replace(/\r\n/g, '\n').split('\n');
+  let openedAt: number | null = null;
+  let crc = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!.trim();
+    if (!line.startsWith('#')) continue;
+
+    const ksumma = /^#KSUMMA(?:\s+(\S+))?$/i.exec(line);
+    if (ksumma) {
+      if (openedAt === null && ksumma[1] === undefined) {
+        openedAt = i + 1;
+        continue;
+      }
+      const expected = Number(ksumma[1]);
+      if (openedAt === null || !Number.isInteger(expected)) {
+        return { status: 'invalid', line: i + 1 };
+      }
+      return { status: crc === expected ? 'valid' : 'invalid', expected, actual: crc, line: i + 1 };
+    }
+
+    if (openedAt !== null) {
+      crc = crc32(iconv.encode(checksumText(line), 'cp437'), crc);
+    }
+  }
+
+  return openedAt === null ? { status: 'missing' } : { status: 'invalid', actual: crc, line: openedAt };
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import * as iconv from 'iconv-lite';
+import { decodeSIEBuffer, detectSIEEncoding } from './encoding.js';
+
+const CONTENT = '#FLAGGA 0\r\n#FNAMN "Åkeri & Söner AB"\r\n#KONTO 3010 "Försäljning"\r\n';
+
+describe('detectSIEEncoding', () => {
+  it('detects UTF-8, with or without a BOM', () => {
+    expect(detectSIEEncoding(Buffer.from(CONTENT, 'utf8'))).toBe('utf-8');
+    expect(detectSIEEncoding(Buffer.from('\uFEFF' + CONTENT, 'utf8'))).toBe('utf-8');
+  });
+
+  it('does not mistake PC8 bytes for UTF-8', () => {
+    expect(detectSIEEncoding(iconv.encode(CONTENT, 'cp437'))).toBe('cp437');
+  });
+
+  it('trusts #FORMAT PC8 over letter frequencies', () => {
+    const bytes = iconv.encode('#FLAGGA 0\r\n#FORMAT PC8\r\n#FNAMN "Å"\r\n', 'cp437');
+    expect(detectSIEEncoding(bytes)).toBe('cp437');
+  });
+
+  it('detects Windows-1252 by the Swedish letters it decodes to', () => {
+    expect(detectSIEEncoding(iconv.encode(CONTENT, 'windows-1252'))).toBe('windows-1252');
+  });
+
+  it('returns null without a #FLAGGA header', () => {
+    expect(detectSIEEncoding(Buffer.from('%PDF-1.4 not a SIE file'))).toBeNull();
+  });
+});
+
+describe('decodeSIEBuffer', () => {
+  it.each(['utf8', 'cp437', 'windows-1252'] as const)('decodes %s content', (encoding) => {
+    const bytes = encoding === 'utf8' ? Buffer.from(CONTENT, 'utf8') : iconv.encode(CONTENT, encoding);
+    expect(decodeSIEBuffer(bytes)).toBe(CONTENT);
+  });
+
+  it('strips the UTF-8 BOM', () => {
+    expect(decodeSIEBuffer(Buffer.from('\uFEFF' + CONTENT, 'utf8'))).toBe(CONTENT);
+  });
+});
@@ -16,55 +16,13 @@ export type SIEEncoding = 'utf-8' | 'cp437' | 'iso-8859-1' | 'windows-1252';
 /**
  * Decode SIE file buffer with automatic encoding detection.
  *
- * Attempts decoding in order of likelihood and validates
- * by checking for the required SIE header marker (#FLAGGA).
+ * Uses `detectSIEEncoding()` and validates by checking for the required
+ * SIE header marker (#FLAGGA).
  */
 export function decodeSIEBuffer(buffer: Buffer): string {
-  // Try UTF-8 first (most common, modern standard)
-  try {
-    const utf8Content = buffer.toString('utf8');
-    if (utf8Content.includes('#FLAGGA')) {
-      // Remove BOM (Byte Order Mark) if present
-      return utf8Content.replace(/^\uFEFF/, '');
-    }
-  } catch {
-    // Continue to next encoding
-  }
-
-  // Try CP437 (DOS encoding, common in older Swedish accounting systems)
-  try {
-    if (iconv.encodingExists('cp437')) {
-      const cp437Content = iconv.decode(buffer, 'cp437');
-      if (cp437Content.includes('#FLAGGA')) {
-        return cp437Content;
-      }
-    }
-  } catch {
-    // Continue to next encoding
-  }
-
-  // Try ISO-8859-1 (Latin-1, handles Swedish characters åäö)
-  try {
-    if (iconv.encodingExists('iso-8859-1')) {
-      const latin1Content = iconv.decode(buffer, 'iso-8859-1');
-      if (latin1Content.includes('#FLAGGA')) {
-        return latin1Content;
-      }
-    }
-  } catch {
-    // Continue to next encoding
-  }
-
-  // Try Windows-1252 (similar to ISO-8859-1 but more common on Windows)
-  try {
-    if (iconv.encodingExists('windows-1252')) {
-      const win1252Content = iconv.decode(buffer, 'windows-1252');
-      if (win1252Content.includes('#FLAGGA')) {
-        return win1252Content;
-      }
-    }
-  } catch {
-    // No valid encoding found
+  const encoding = detectSIEEncoding(buffer);
+  if (encoding) {
+    return decodeSIEBufferWithEncoding(buffer, encoding);
   }
 
   // If all else fails, force UTF-8
@@ -111,56 +69,47 @@ export function decodeSIEBufferWithEncoding(
   return iconv.decode(buffer, 'cp437');
 }
 
+const SWEDISH_LETTERS = /[åäöÅÄÖéÉ]/g;
+
+function countSwedishLetters(content: string): number {
+  return content.match(SWEDISH_LETTERS)?.length ?? 0;
+}
+
 /**
- * Detect encoding of a SIE buffer by trying different encodings.
+ * Detect encoding of a SIE buffer.
  * Returns the detected encoding name or null if no valid encoding found.
+ *
+ * UTF-8 only counts when the bytes are valid UTF-8. Every byte is valid
+ * CP437 and Latin-1, so between those the file's own `#FORMAT PC8` decides,
+ * and otherwise whichever decoding yields more Swedish letters (CP437 on a tie,
+ * since PC8 is what the SIE spec prescribes).
  */
 export function detectSIEEncoding(buffer: Buffer): SIEEncoding | null {
-  // Check UTF-8
-  try {
-    const utf8Content = buffer.toString('utf8');
-    if (utf8Content.includes('#FLAGGA')) {
-      return 'utf-8';
-    }
-  } catch {
-    // Continue
+  const utf8Content = buffer.toString('utf8');
+  if (!utf8Content.includes('#FLAGGA')) {
+    return null;
   }
-
-  // Check CP437
-  try {
-    if (iconv.encodingExists('cp437')) {
-      const cp437Content = iconv.decode(buffer, 'cp437');
-      if (cp437Content.includes('#FLAGGA')) {
-        return 'cp437';
-      }
-    }
-  } catch {
-    // Continue
+  if (!utf8Content.includes('\uFFFD')) {
+    return 'utf-8';
   }
 
-  // Check ISO-8859-1
-  try {
-    if (iconv.encodingExists('iso-8859-1')) {
-      const latin1Content = iconv.decode(buffer, 'iso-8859-1');
-      if (latin1Content.includes('#FLAGGA')) {
-        return 'iso-8859-1';
-      }
-    }
-  } catch {
-    // Continue
+  // The header is plain ASCII in every candidate encoding
+  if (/^#FORMAT\s+PC8\b/m.test(utf8Content)) {
+    return 'cp437';
   }
 
-  // Check Windows-1252
-  try {
-    if (iconv.encodingExists('windows-1252')) {
-      const win1252Content = iconv.decode(buffer, 'windows-1252');
-      if (win1252Content.includes('#FLAGGA')) {
-        return 'windows-1252';
-      }
-    }
-  } catch {
-    // No valid encoding found
-  }
+  const cp437Letters = countSwedishLetters(iconv.decode(buffer, 'cp437'));
+  const win1252Letters = countSwedishLetters(iconv.decode(buffer, 'windows-1252'));
+  return win1252Letters > cp437Letters ? 'windows-1252' : 'cp437';
+}
 
-  return null;
+/**
+ * Encode SIE content for download. Defaults to CP437, the PC8 character set
+ * that `#FORMAT PC8` declares; characters outside it become '?'.
+ */
+export function encodeSIEContent(content: string, encoding: SIEEncoding = 'cp437'): Buffer {
+  if (encoding === 'utf-8') {
+    return Buffer.from(content, 'utf8');
+  }
+  return iconv.encode(content, encoding);
 }
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { parseSIE } from './parser.js';
+import { calculateKPIs } from './kpi.js';
+import { calculateKPIsWithExplanation } from './explain.js';
+
+const SIE = parseSIE([
+  '#FLAGGA 0',
+  '#SIETYP 2',
+  '#RAR 0 20240101 20241231',
+  '#RAR -1 20230101 20231231',
+  '#KONTO 1930 "Företagskonto"',
+  '#KONTO 2081 "Aktiekapital"',
+  '#KONTO 2150 "Ackumulerade överavskrivningar"',
+  '#KONTO 2350 "Skulder till kreditinstitut"',
+  '#KONTO 2841 "Checkräkningskredit"',
+  '#KONTO 3010 "Försäljning"',
+  '#KONTO 8410 "Räntekostnader"',
+  '#IB 0 1930 150000.00',
+  '#IB 0 2081 -50000.00',
+  '#IB 0 2150 -20000.00',
+  '#IB 0 2350 -80000.00',
+  '#UB 0 1930 250000.00',
+  '#UB 0 2081 -50000.00',
+  '#UB 0 2150 -20000.00',
+  '#UB 0 2350 -70000.00',
+  '#UB 0 2841 -15000.00',
+  '#UB -1 1930 150000.00',
+  '#RES 0 3010 -100000.00',
+  '#RES 0 8410 5000.00',
+  '#RES -1 3010 -80000.00',
+].join('\n'));
+
+describe('calculateKPIsWithExplanation', () => {
+  it('returns the same KPIs as calculateKPIs', () => {
+    expect(calculateKPIsWithExplanation(SIE).kpis).toEqual(calculateKPIs(SIE));
+  });
+
+  it('lists the accounts behind interest-bearing debt', () => {
+    const { explanations } = calculateKPIsWithExplanation(SIE);
+    expect(explanations.interestBearingDebt).toEqual({
+      value: 85000,
+      formula: '|Σ UB 2310-2359| + |Σ UB 2840-2849|',
+      inputs: [],
+      ranges: [
+        { label: 'Interest-bearing long-term liabilities', min: 2310, max: 2359, balanceType: 'UB', yearIndex: 0 },
+        { label: 'Interest-bearing current liabilities', min: 2840, max: 2849, balanceType: 'UB', yearIndex: 0 },
+      ],
+      contributions: [
+        {
+          accountNumber: '2350',
+          accountName: 'Skulder till kreditinstitut',
+          label: 'Interest-bearing long-term liabilities',
+          balanceType: 'UB',
+          yearIndex: 0,
+          amount: -70000,
+        },
+        {
+          accountNumber: '2841',
+          accountName: 'Checkräkningskredit',
+          label: 'Interest-bearing current liabilities',
+          balanceType: 'UB',
+          yearIndex: 0,
+          amount: -15000,
+        },
+      ],
+    });
+  });
+
+  it('explains adjusted equity through its inputs and the year result', () => {
+    const { adjustedEquity } = calculateKPIsWithExplanation(SIE).explanations;
+    expect(adjustedEquity.value).toBeCloseTo(50000 + 20000 * 0.794 + 95000);
+    expect(adjustedEquity.inputs).toEqual(['totalEquity', 'untaxedReserves']);
+    expect(adjustedEquity.contributions.map((c) => [c.label, c.accountNumber, c.amount])).toEqual([
+      ['Result', '3010', -100000],
+      ['Result', '8410', 5000],
+      ['Equity', '2081', -50000],
+      ['Untaxed reserves', '2150', -20000],
+    ]);
+  });
+
+  it('carries the ranges of inputs, opening balances and previous years up to ratios', () => {
+    const { explanations } = calculateKPIsWithExplanation(SIE);
+    const ranges = (kpi: keyof typeof explanations) =>
+      explanations[kpi].ranges.map((r) => `${r.balanceType} ${r.yearIndex} ${r.min}-${r.max}`);
+
+    expect(explanations.deRatio.inputs).toEqual(['interestBearingDebt', 'adjustedEquity']);
+    expect(ranges('deRatio')).toEqual([
+      'UB 0 2310-2359',
+      'UB 0 2840-2849',
+      'RES 0 3000-8999',
+      'UB 0 2080-2099',
+      'UB 0 2100-2199',
+    ]);
+    expect(ranges('roa')).toContain('IB 0 1000-1999');
+    expect(ranges('revenueGrowth')).toEqual(['RES -1 3000-3999', 'RES 0 3000-3999']);
+    expect(explanations.assetGrowth.contributions.filter((c) => c.yearIndex === -1)).toHaveLength(1);
+  });
+
+  it('adds up to the value of every single-range item', () => {
+    const { explanations } = calculateKPIsWithExplanation(SIE);
+    for (const explanation of Object.values(explanations)) {
+      if (explanation.inputs.length > 0 || explanation.ranges.length !== 1) continue;
+      const total = explanation.contributions.reduce((sum, c) => sum + c.amount, 0);
+      expect(Math.abs(total)).toBe(explanation.value);
+    }
+  });
+});
@@ -0,0 +1,300 @@
+/**
+ * KPI drill-down: which account ranges and balances each KPI is built from.
+ *
+ * The definitions below mirror `calculateKPIs()` range for range. Ratios
+ * list the KPIs they are built from as inputs, and their ranges and
+ * contributions include those of the inputs, so a UI can go from a ratio
+ * straight to the accounts or step through the intermediate figures.
+ */
+import type {
+  SIEParseResult,
+  SIEBalanceType,
+  SIEExplainedKPI,
+  SIEKPIAccountRange,
+  SIEKPIContribution,
+  SIEKPIsWithExplanation,
+} from '../types/sie.js';
+import { SWEDISH_ACCOUNTS, isInRange, type AccountRange } from './accounts.js';
+import { calculateKPIs } from './kpi.js';
+
+interface KPIDefinition {
+  formula: string;
+  inputs?: SIEExplainedKPI[];
+  ranges?: SIEKPIAccountRange[];
+}
+
+const RESULT_ACCOUNTS: AccountRange = { min: 3000, max: 8999 };
+/** Total assets as the averages and growth figures read them */
+const ASSETS: AccountRange = { min: 1000, max: 1999 };
+
+function accountRange(
+  label: string,
+  range: AccountRange,
+  balanceType: SIEBalanceType,
+  yearIndex: number,
+): SIEKPIAccountRange {
+  return { label, min: range.min, max: range.max, balanceType, yearIndex };
+}
+
+/**
+ * What each KPI reads. Balance sheet and income statement items use the
+ * requested year; averages always use the current year's IB and UB, and
+ * growth compares with year -1, as `calculateKPIs()` does.
+ */
+function kpiDefinitions(yearIndex: number): Record<SIEExplainedKPI, KPIDefinition> {
+  const ub = (label: string, range: AccountRange) => [accountRange(label, range, 'UB', yearIndex)];
+  const res = (label: string, range: AccountRange) => [accountRange(label, range, 'RES', yearIndex)];
+  const average = (label: string, range: AccountRange) => [
+    accountRange(label, range, 'IB', 0),
+    accountRange(label, range, 'UB', 0),
+  ];
+  const { FIXED_ASSETS, CURRENT_ASSETS, EQUITY, UNTAXED_RESERVES, PROVISIONS } = SWEDISH_ACCOUNTS;
+  const { LONG_TERM_LIABILITIES, CURRENT_LIABILITIES, REVENUE, COST_OF_GOODS_SOLD } = SWEDISH_ACCOUNTS;
+  const { OPERATING_EXPENSES, PERSONNEL_COSTS, FINANCIAL_ITEMS } = SWEDISH_ACCOUNTS;
+
+  const averageAdjustedEquity = [
+    ...average('Equity', EQUITY.ALL),
+    ...average('Untaxed reserves', UNTAXED_RESERVES.ALL),
+    accountRange('Result', RESULT_ACCOUNTS, 'RES', 0),
+  ];
+
+  return {
+    // Balance sheet
+    totalAssets: { formula: 'fixedAssets + currentAssets', inputs: ['fixedAssets', 'currentAssets'] },
+    fixedAssets: { formula: 'Σ UB 1000-1399', ranges: ub('Fixed assets', FIXED_ASSETS.ALL) },
+    currentAssets: { formula: 'Σ UB 1400-1999', ranges: ub('Current assets', CURRENT_ASSETS.ALL) },
+    inventory: { formula: 'Σ UB 1400-1499', ranges: ub('Inventory', CURRENT_ASSETS.INVENTORY) },
+    customerReceivables: {
+      formula: 'Σ UB 1500-1599',
+      ranges: ub('Customer receivables', CURRENT_ASSETS.CUSTOMER_RECEIVABLES),
+    },
+    cashAndBank: { formula: 'Σ UB 1900-1999', ranges: ub('Cash and bank', CURRENT_ASSETS.CASH_AND_BANK) },
+    totalEquity: { formula: '|Σ UB 2080-2099|', ranges: ub('Equity', EQUITY.ALL) },
+    untaxedReserves: { formula: '|Σ UB 2100-2199|', ranges: ub('Untaxed reserves', UNTAXED_RESERVES.ALL) },
+    adjustedEquity: {
+      formula: 'totalEquity + untaxedReserves × 0.794 − Σ RES 3000-8999',
+      inputs: ['totalEquity', 'untaxedReserves'],
+      ranges: res('Result', RESULT_ACCOUNTS),
+    },
+    deferredTaxLiability: { formula: 'untaxedReserves × 0.206', inputs: ['untaxedReserves'] },
+    provisions: { formula: '|Σ UB 2200-2299|', ranges: ub('Provisions', PROVISIONS.ALL) },
+    longTermLiabilities: {
+      formula: '|Σ UB 2300-2399|',
+      ranges: ub('Long-term liabilities', LONG_TERM_LIABILITIES.ALL),
+    },
+    currentLiabilities: {
+      formula: '|Σ UB 2400-2999|',
+      ranges: ub('Current liabilities', CURRENT_LIABILITIES.ALL),
+    },
+    totalLiabilities: {
+      formula: 'provisions + longTermLiabilities + currentLiabilities + deferredTaxLiability',
+      inputs: ['provisions', 'longTermLiabilities', 'currentLiabilities', 'deferredTaxLiability'],
+    },
+    interestBearingDebt: {
+      formula: '|Σ UB 2310-2359| + |Σ UB 2840-2849|',
+      ranges: [
+        ...ub('Interest-bearing long-term liabilities', LONG_TERM_LIABILITIES.INTEREST_BEARING),
+        ...ub('Interest-bearing current liabilities', CURRENT_LIABILITIES.INTEREST_BEARING_SHORT),
+      ],
+    },
+    netDebt: { formula: 'interestBearingDebt − cashAndBank', inputs: ['interestBearingDebt', 'cashAndBank'] },
+    accountsPayable: {
+      formula: '|Σ UB 2400-2499|',
+      ranges: ub('Accounts payable', CURRENT_LIABILITIES.ACCOUNTS_PAYABLE),
+    },
+
+    // Income statement
+    netSales: {
+      formula: '|Σ RES 3000-3699| − |Σ RES 3700-3799|',
+      ranges: [...res('Sales', REVENUE.NET_SALES), ...res('Discounts', REVENUE.DISCOUNTS)],
+    },
+    totalOperatingIncome: { formula: '|Σ RES 3000-3999|', ranges: res('Operating income', REVENUE.ALL) },
+    costOfGoodsSold: { formula: 'Σ RES 4000-4999', ranges: res('Cost of goods sold', COST_OF_GOODS_SOLD.ALL) },
+    grossProfit: { formula: 'netSales − costOfGoodsSold', inputs: ['netSales', 'costOfGoodsSold'] },
+    externalCosts: { formula: 'Σ RES 5000-6999', ranges: res('External costs', OPERATING_EXPENSES.ALL) },
+    personnelCosts: { formula: 'Σ RES 7000-7699', ranges: res('Personnel costs', PERSONNEL_COSTS.WAGES) },
+    writeDowns: { formula: 'Σ RES 7700-7799', ranges: res('Write-downs', PERSONNEL_COSTS.WRITE_DOWNS) },
+    depreciation: { formula: 'Σ RES 7800-7899', ranges: res('Depreciation', PERSONNEL_COSTS.DEPRECIATION) },
+    ebitda: {
+      formula: 'totalOperatingIncome − costOfGoodsSold − externalCosts − personnelCosts',
+      inputs: ['totalOperatingIncome', 'costOfGoodsSold', 'externalCosts', 'personnelCosts'],
+    },
+    ebit: { formula: 'ebitda − depreciation − writeDowns', inputs: ['ebitda', 'depreciation', 'writeDowns'] },
+    financialIncome: {
+      formula: '|Σ RES 8000-8299|',
+      ranges: res('Financial income', FINANCIAL_ITEMS.FINANCIAL_INCOME),
+    },
+    interestExpenses: {
+      formula: '|Σ RES 8400-8499|',
+      ranges: res('Interest expenses', FINANCIAL_ITEMS.INTEREST_EXPENSES),
+    },
+    financialNet: {
+      formula: 'financialIncome − interestExpenses − |Σ RES 8300-8399|',
+      inputs: ['financialIncome', 'interestExpenses'],
+      ranges: res('Other financial expenses', FINANCIAL_ITEMS.OTHER_FINANCIAL_EXPENSES),
+    },
+    resultBeforeTax: { formula: 'ebit + financialNet', inputs: ['ebit', 'financialNet'] },
+    tax: { formula: 'Σ RES 8900-8999', ranges: res('Tax', FINANCIAL_ITEMS.TAXES) },
+    netIncome: { formula: 'resultBeforeTax − tax', inputs: ['resultBeforeTax', 'tax'] },
+
+    // Margins
+    grossMargin: { formula: 'grossProfit / netSales × 100', inputs: ['grossProfit', 'netSales'] },
+    ebitdaMargin: { formula: 'ebitda / netSales × 100', inputs: ['ebitda', 'netSales'] },
+    operatingMargin: { formula: 'ebit / netSales × 100', inputs: ['ebit', 'netSales'] },
+    profitMargin: { formula: 'resultBeforeTax / netSales × 100', inputs: ['resultBeforeTax', 'netSales'] },
+    netMargin: { formula: 'netIncome / netSales × 100', inputs: ['netIncome', 'netSales'] },
+
+    // Returns
+    roa: {
+      formula: 'ebit × annualizationFactor / average(IB, UB of 1000-1999) × 100',
+      inputs: ['ebit'],
+      ranges: average('Total assets', ASSETS),
+    },
+    roe: {
+      formula: 'netIncome × annualizationFactor / average adjusted equity × 100',
+      inputs: ['netIncome'],
+      ranges: averageAdjustedEquity,
+    },
+    roce: {
+      formula: 'ebit × annualizationFactor / (average adjusted equity + average interest-bearing debt) × 100',
+      inputs: ['ebit'],
+      ranges: [
+        ...averageAdjustedEquity,
+        ...average('Interest-bearing long-term liabilities', LONG_TERM_LIABILITIES.INTEREST_BEARING),
+        ...average('Interest-bearing current liabilities', CURRENT_LIABILITIES.INTEREST_BEARING_SHORT),
+      ],
+    },
+
+    // Capital structure
+    equityRatio: { formula: 'adjustedEquity / totalAssets × 100', inputs: ['adjustedEquity', 'totalAssets'] },
+    debtToEquityRatio: {
+      formula: 'totalLiabilities / adjustedEquity',
+      inputs: ['totalLiabilities', 'adjustedEquity'],
+    },
+    deRatio: { formula: 'interestBearingDebt / adjustedEquity', inputs: ['interestBearingDebt', 'adjustedEquity'] },
+    netDebtToEbitda: {
+      formula: 'netDebt / (ebitda × annualizationFactor)',
+      inputs: ['netDebt', 'ebitda'],
+    },
+    interestCoverageRatio: { formula: 'ebitda / interestExpenses', inputs: ['ebitda', 'interestExpenses'] },
+
+    // Liquidity
+    cashRatio: { formula: 'cashAndBank / currentLiabilities', inputs: ['cashAndBank', 'currentLiabilities'] },
+    quickRatio: {
+      formula: '(currentAssets − inventory) / currentLiabilities',
+      inputs: ['currentAssets', 'inventory', 'currentLiabilities'],
+    },
+    currentRatio: { formula: 'currentAssets / currentLiabilities', inputs: ['currentAssets', 'currentLiabilities'] },
+    workingCapital: { formula: 'currentAssets − currentLiabilities', inputs: ['currentAssets', 'currentLiabilities'] },
+    workingCapitalRatio: {
+      formula: 'workingCapital / (netSales × annualizationFactor) × 100',
+      inputs: ['workingCapital', 'netSales'],
+    },
+
+    // Efficiency
+    dio: {
+      formula: 'average(IB, UB of 1400-1499) / (costOfGoodsSold × annualizationFactor) × 365',
+      inputs: ['costOfGoodsSold'],
+      ranges: average('Inventory', CURRENT_ASSETS.INVENTORY),
+    },
+    dso: {
+      formula: 'average(IB, UB of 1500-1599) / (netSales × annualizationFactor) × 365',
+      inputs: ['netSales'],
+      ranges: average('Customer receivables', CURRENT_ASSETS.CUSTOMER_RECEIVABLES),
+    },
+    dpo: {
+      formula: '|average(IB, UB of 2400-2499)| / (costOfGoodsSold × annualizationFactor) × 365',
+      inputs: ['costOfGoodsSold'],
+      ranges: average('Accounts payable', CURRENT_LIABILITIES.ACCOUNTS_PAYABLE),
+    },
+    ccc: { formula: 'dio + dso − dpo', inputs: ['dio', 'dso', 'dpo'] },
+    assetTurnover: {
+      formula: 'netSales × annualizationFactor / totalAssets',
+      inputs: ['netSales', 'totalAssets'],
+    },
+
+    // Growth
+    revenueGrowth: {
+      formula: '(totalOperatingIncome − |Σ RES 3000-3999 of year -1|) / |Σ RES 3000-3999 of year -1| × 100',
+      inputs: ['totalOperatingIncome'],
+      ranges: [accountRange('Operating income', REVENUE.ALL, 'RES', -1)],
+    },
+    assetGrowth: {
+      formula: '(totalAssets − Σ UB 1000-1999 of year -1) / Σ UB 1000-1999 of year -1 × 100',
+      inputs: ['totalAssets'],
+      ranges: [accountRange('Total assets', ASSETS, 'UB', -1)],
+    },
+    equityGrowth: {
+      formula: '(adjustedEquity − adjusted equity of year -1) / adjusted equity of year -1 × 100',
+      inputs: ['adjustedEquity'],
+      ranges: [
+        accountRange('Equity', EQUITY.ALL, 'UB', -1),
+        accountRange('Untaxed reserves', UNTAXED_RESERVES.ALL, 'UB', -1),
+      ],
+    },
+  };
+}
+
+/**
+ * Calculate KPIs together with an explanation of each: its formula, the
+ * account ranges it reads and the balances that fall in them.
+ *
+ * @param data - Parsed SIE result from parseSIE()
+ * @param yearIndex - Which year to calculate for (0 = current, default)
+ */
+export function calculateKPIsWithExplanation(
+  data: SIEParseResult,
+  yearIndex = 0,
+): SIEKPIsWithExplanation {
+  const kpis = calculateKPIs(data, yearIndex);
+  const definitions = kpiDefinitions(yearIndex);
+  const accountNames = new Map(data.accounts.map((a) => [a.accountNumber, a.accountName]));
+
+  // Ranges of a KPI and, recursively, of its inputs, each range once
+  const resolved = new Map<SIEExplainedKPI, SIEKPIAccountRange[]>();
+  const resolveRanges = (kpi: SIEExplainedKPI): SIEKPIAccountRange[] => {
+    const cached = resolved.get(kpi);
+    if (cached) return cached;
+
+    const { ranges = [], inputs = [] } = definitions[kpi];
+    const all = new Map<string, SIEKPIAccountRange>();
+    for (const range of [...ranges, ...inputs.flatMap(resolveRanges)]) {
+      all.set(`${range.balanceType}:${range.yearIndex}:${range.min}-${range.max}`, range);
+    }
+    const result = [...all.values()];
+    resolved.set(kpi, result);
+    return result;
+  };
+
+  const explanations = {} as SIEKPIsWithExplanation['explanations'];
+  for (const kpi of Object.keys(definitions) as SIEExplainedKPI[]) {
+    const ranges = resolveRanges(kpi);
+    const contributions: SIEKPIContribution[] = ranges.flatMap((range) =>
+      data.balances
+        .filter(
+          (b) =>
+            b.balanceType === range.balanceType &&
+            b.yearIndex === range.yearIndex &&
+            isInRange(b.accountNumber, range),
+        )
+        .map((b) => ({
+          accountNumber: b.accountNumber,
+          accountName: accountNames.get(b.accountNumber),
+          label: range.label,
+          balanceType: b.balanceType,
+          yearIndex: b.yearIndex,
+          amount: b.amount,
+        })),
+    );
+
+    explanations[kpi] = {
+      value: kpis[kpi],
+      formula: definitions[kpi].formula,
+      inputs: definitions[kpi].inputs ?? [],
+      ranges,
+      contributions,
+    };
+  }
+
+  return { kpis, explanations };
+}
@@ -0,0 +1,12 @@
+/** Helpers shared by the SIE reports */
+
+/** Round to whole öre, without producing -0 */
+export function roundToOre(value: number): number {
+  return Math.round(value * 100) / 100 || 0;
+}
+
+/** YYYYMMDD or YYYY-MM-DD → YYYY-MM-DD */
+export function isoDate(date: string): string {
+  const digits = date.replace(/-/g, '');
+  return `${digits.slice(0, 4)}-${digits.slice(4, 6)}-${digits.slice(6, 8)}`;
+}
@@ -1,11 +1,62 @@
-export { parseSIE } from './parser.js';
+export {
+  parseSIE,
+  getAccountGroup,
+  SIEParseError,
+  type ParseSIEOptions,
+  type SIEParseMode,
+} from './parser.js';
+export {
+  writeSIE,
+  buildSIEFromJournals,
+  type WriteSIEOptions,
+  type BuildSIEFromJournalsOptions,
+} from './writer.js';
+export { parseSIE5, isSIE5Content, SIE5ParseError } from './sie5.js';
+export {
+  parseSIEStream,
+  summarizeSIEStream,
+  type ParseSIEStreamOptions,
+  type SIEByteSource,
+  type SIEStreamEnd,
+  type SIEStreamRecord,
+  type SIEStreamSummary,
+} from './stream.js';
+export { crc32, computeSIEChecksum, verifySIEChecksum, type SIEChecksumResult } from './checksum.js';
+export { validateSIE } from './validator.js';
 export {
   decodeSIEBuffer,
   decodeSIEBufferWithEncoding,
   detectSIEEncoding,
+  encodeSIEContent,
   type SIEEncoding,
 } from './encoding.js';
 export { calculateKPIs, validateSIEBalances } from './kpi.js';
+export { calculateKPIsWithExplanation } from './explain.js';
+export { calculateKPITimeSeries } from './timeseries.js';
+export { calculateCashFlow } from './cashflow.js';
+export {
+  budgetLinesFromSIE,
+  parseBudgetCSV,
+  calculateBudgetVariance,
+  BudgetCSVError,
+} from './budget.js';
+export {
+  generalLedger,
+  voucherList,
+  generalLedgerToCSV,
+  vouchersToCSV,
+  generalLedgerToPDF,
+  vouchersToPDF,
+} from './ledger.js';
+export { calculateVATReturn, vatPeriodDates, vatReturnToESKD, VATReturnError } from './vat.js';
+export {
+  calculateSRUDeclaration,
+  writeSRUFiles,
+  SRUExportError,
+  type CalculateSRUOptions,
+  type SRUFileOptions,
+} from './sru.js';
+export { renderPDFTable, type PDFColumn, type PDFRow, type PDFTable } from './pdf.js';
 export {
   SWEDISH_ACCOUNTS,
   CORPORATE_TAX_RATE,
@@ -145,6 +145,119 @@ function calculateAdjustedEquityValue(
   return equity + reserves * EQUITY_PORTION_OF_UNTAXED_RESERVES + ytdResult;
 }
 
+/** Income statement items calculated from result-account amounts */
+export interface IncomeStatementSummary {
+  netSales: number;
+  totalOperatingIncome: number;
+  costOfGoodsSold: number;
+  grossProfit: number;
+  externalCosts: number;
+  personnelCosts: number;
+  writeDowns: number;
+  depreciation: number;
+  ebitda: number;
+  ebit: number;
+  financialIncome: number;
+  interestExpenses: number;
+  financialNet: number;
+  resultBeforeTax: number;
+  tax: number;
+  netIncome: number;
+}
+
+/**
+ * Sum result accounts (3000-8999) into income statement items. The amounts
+ * can cover a fiscal year (#RES) or any shorter period.
+ */
+export function summarizeIncomeStatement(
+  incomeStatement: Array<{ accountNumber: string; amount: number }>,
+): IncomeStatementSummary {
+  const grossSales = Math.abs(
+    sumAccountsInRange(incomeStatement, SWEDISH_ACCOUNTS.REVENUE.NET_SALES),
+  );
+  const discounts = Math.abs(
+    sumAccountsInRange(incomeStatement, SWEDISH_ACCOUNTS.REVENUE.DISCOUNTS),
+  );
+  const netSales = grossSales - discounts;
+  const totalOperatingIncome = Math.abs(
+    sumAccountsInRange(incomeStatement, SWEDISH_ACCOUNTS.REVENUE.ALL),
+  );
+
+  const costOfGoodsSold = sumAccountsInRange(
+    incomeStatement,
+    SWEDISH_ACCOUNTS.COST_OF_GOODS_SOLD.ALL,
+  );
+  const externalCosts = sumAccountsInRange(
+    incomeStatement,
+    SWEDISH_ACCOUNTS.OPERATING_EXPENSES.ALL,
+  );
+  const personnelCosts = sumAccountsInRange(
+    incomeStatement,
+    SWEDISH_ACCOUNTS.PERSONNEL_COSTS.WAGES,
+  );
+  const writeDowns = sumAccountsInRange(
+    incomeStatement,
+    SWEDISH_ACCOUNTS.PERSONNEL_COSTS.WRITE_DOWNS,
+  );
+  const depreciation = sumAccountsInRange(
+    incomeStatement,
+    SWEDISH_ACCOUNTS.PERSONNEL_COSTS.DEPRECIATION,
+  );
+
+  const grossProfit = netSales - costOfGoodsSold;
+  const ebitda =
+    totalOperatingIncome - costOfGoodsSold - externalCosts - personnelCosts;
+  const ebit = ebitda - depreciation - writeDowns;
+
+  // Financial items
+  const financialIncome = Math.abs(
+    sumAccountsInRange(
+      incomeStatement,
+      SWEDISH_ACCOUNTS.FINANCIAL_ITEMS.FINANCIAL_INCOME,
+    ),
+  );
+  const interestExpenses = Math.abs(
+    sumAccountsInRange(
+      incomeStatement,
+      SWEDISH_ACCOUNTS.FINANCIAL_ITEMS.INTEREST_EXPENSES,
+    ),
+  );
+  const otherFinancialExpenses = Math.abs(
+    sumAccountsInRange(
+      incomeStatement,
+      SWEDISH_ACCOUNTS.FINANCIAL_ITEMS.OTHER_FINANCIAL_EXPENSES,
+    ),
+  );
+  const financialNet =
+    financialIncome - interestExpenses - otherFinancialExpenses;
+
+  const resultBeforeTax = ebit + financialNet;
+  const tax = sumAccountsInRange(
+    incomeStatement,
+    SWEDISH_ACCOUNTS.FINANCIAL_ITEMS.TAXES,
+  );
+  const netIncome = resultBeforeTax - tax;
+
+  return {
+    netSales,
+    totalOperatingIncome,
+    costOfGoodsSold,
+    grossProfit,
+    externalCosts,
+    personnelCosts,
+    writeDowns,
+    depreciation,
+    ebitda,
+    ebit,
+    financialIncome,
+    interestExpenses,
+    financialNet,
+    resultBeforeTax,
+    tax,
+    netIncome,
+  };
+}
+
 /**
  * Calculate comprehensive financial KPIs from parsed SIE data.
  *
@@ -266,71 +379,24 @@ export function calculateKPIs(
   // INCOME STATEMENT AGGREGATIONS
   // ============================================
 
-  const grossSales = Math.abs(
-    sumAccountsInRange(incomeStatement, SWEDISH_ACCOUNTS.REVENUE.NET_SALES),
-  );
-  const discounts = Math.abs(
-    sumAccountsInRange(incomeStatement, SWEDISH_ACCOUNTS.REVENUE.DISCOUNTS),
-  );
-  const netSales = grossSales - discounts;
-  const totalOperatingIncome = Math.abs(
-    sumAccountsInRange(incomeStatement, SWEDISH_ACCOUNTS.REVENUE.ALL),
-  );
-
-  const costOfGoodsSold = sumAccountsInRange(
-    incomeStatement,
-    SWEDISH_ACCOUNTS.COST_OF_GOODS_SOLD.ALL,
-  );
-  const externalCosts = sumAccountsInRange(
-    incomeStatement,
-    SWEDISH_ACCOUNTS.OPERATING_EXPENSES.ALL,
-  );
-  const personnelCosts = sumAccountsInRange(
-    incomeStatement,
-    SWEDISH_ACCOUNTS.PERSONNEL_COSTS.WAGES,
-  );
-  const writeDowns = sumAccountsInRange(
-    incomeStatement,
-    SWEDISH_ACCOUNTS.PERSONNEL_COSTS.WRITE_DOWNS,
-  );
-  const depreciation = sumAccountsInRange(
-    incomeStatement,
-    SWEDISH_ACCOUNTS.PERSONNEL_COSTS.DEPRECIATION,
-  );
-
-  const grossProfit = netSales - costOfGoodsSold;
-  const ebitda =
-    totalOperatingIncome - costOfGoodsSold - externalCosts - personnelCosts;
-  const ebit = ebitda - depreciation - writeDowns;
-
-  // Financial items
-  const financialIncome = Math.abs(
-    sumAccountsInRange(
-      incomeStatement,
-      SWEDISH_ACCOUNTS.FINANCIAL_ITEMS.FINANCIAL_INCOME,
-    ),
-  );
-  const interestExpenses = Math.abs(
-    sumAccountsInRange(
-      incomeStatement,
-      SWEDISH_ACCOUNTS.FINANCIAL_ITEMS.INTEREST_EXPENSES,
-    ),
-  );
-  const otherFinancialExpenses = Math.abs(
-    sumAccountsInRange(
-      incomeStatement,
-      SWEDISH_ACCOUNTS.FINANCIAL_ITEMS.OTHER_FINANCIAL_EXPENSES,
-    ),
-  );
-  const financialNet =
-    financialIncome - interestExpenses - otherFinancialExpenses;
-
-  const resultBeforeTax = ebit + financialNet;
-  const tax = sumAccountsInRange(
-    incomeStatement,
-    SWEDISH_ACCOUNTS.FINANCIAL_ITEMS.TAXES,
-  );
-  const netIncome = resultBeforeTax - tax;
+  const {
+    netSales,
+    totalOperatingIncome,
+    costOfGoodsSold,
+    grossProfit,
+    externalCosts,
+    personnelCosts,
+    writeDowns,
+    depreciation,
+    ebitda,
+    ebit,
+    financialIncome,
+    interestExpenses,
+    financialNet,
+    resultBeforeTax,
+    tax,
+    netIncome,
+  } = summarizeIncomeStatement(incomeStatement);
 
   // ============================================
   // MARGIN KPIs
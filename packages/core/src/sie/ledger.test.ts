@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { parseSIE } from './parser.js';
+import { generalLedger, voucherList, generalLedgerToCSV, vouchersToCSV, generalLedgerToPDF } from './ledger.js';
+
+const SIE = parseSIE([
+  '#FLAGGA 0',
+  '#SIETYP 4',
+  '#FNAMN "Exempel AB"',
+  '#RAR 0 20240101 20241231',
+  '#DIM 1 "Kostnadsställe"',
+  '#DIM 6 "Projekt"',
+  '#KONTO 1930 "Företagskonto"',
+  '#KONTO 3010 "Försäljning"',
+  '#KONTO 5010 "Lokalhyra"',
+  '#IB 0 1930 10000.00',
+  '#VER A 2 20240131 "Hyra januari"',
+  '{',
+  '#TRANS 5010 {1 "10"} 1500.00',
+  '#TRANS 1930 {} -1500.00',
+  '}',
+  '#VER A 1 20240115 "Försäljning"',
+  '{',
+  '#TRANS 1930 {} 6250.00',
+  '#TRANS 3010 {1 "20" 6 "P1"} -6250.00 "Faktura 1001"',
+  '}',
+  '#VER B 1 20240301 "Hyra mars; kvartal"',
+  '{',
+  '#TRANS 5010 {1 "10" 6 "P1"} 4500.00',
+  '#TRANS 1930 {} -4500.00',
+  '}',
+].join('\n'));
+
+describe('generalLedger', () => {
+  it('lists each account with opening balance, running balance and closing balance', () => {
+    const [bank, sales, rent] = generalLedger(SIE);
+
+    expect(bank).toMatchObject({
+      accountNumber: '1930',
+      accountName: 'Företagskonto',
+      openingBalance: 10000,
+      debit: 6250,
+      credit: 6000,
+      closingBalance: 10250,
+    });
+    expect(bank!.entries.map((e) => [e.verificationSeries, e.verificationNumber, e.verificationDate, e.balance])).toEqual([
+      ['A', '1', '2024-01-15', 16250],
+      ['A', '2', '2024-01-31', 14750],
+      ['B', '1', '2024-03-01', 10250],
+    ]);
+    expect(sales!.entries[0]).toMatchObject({ text: 'Faktura 1001', costCenter: '20', project: 'P1', amount: -6250 });
+    expect(rent).toMatchObject({ openingBalance: 0, closingBalance: 6000 });
+  });
+
+  it('moves transactions before the period into the opening balance', () => {
+    const ledger = generalLedger(SIE, { fromAccount: '1900', toAccount: '3999', fromDate: '2024-02-01' });
+
+    expect(ledger.map((a) => a.accountNumber)).toEqual(['1930', '3010']);
+    expect(ledger[0]).toMatchObject({ openingBalance: 14750, closingBalance: 10250 });
+    expect(ledger[0]!.entries).toHaveLength(1);
+    expect(ledger[1]).toMatchObject({ openingBalance: -6250, entries: [], closingBalance: -6250 });
+  });
+
+  it('only counts matching transactions when filtering on objects', () => {
+    const ledger = generalLedger(SIE, { costCenter: '10' });
+    expect(ledger).toHaveLength(1);
+    expect(ledger[0]).toMatchObject({ accountNumber: '5010', openingBalance: 0, closingBalance: 6000 });
+
+    expect(generalLedger(SIE, { project: 'P1' }).map((a) => [a.accountNumber, a.closingBalance])).toEqual([
+      ['3010', -6250],
+      ['5010', 4500],
+    ]);
+  });
+});
+
+describe('voucherList', () => {
+  it('groups rows into vouchers ordered by series and number', () => {
+    const vouchers = voucherList(SIE);
+
+    expect(vouchers.map((v) => `${v.series} ${v.number}`)).toEqual(['A 1', 'A 2', 'B 1']);
+    expect(vouchers[0]).toMatchObject({ date: '2024-01-15', text: 'Försäljning', debit: 6250, credit: 6250 });
+    expect(vouchers[0]!.rows[1]).toMatchObject({ accountNumber: '3010', accountName: 'Försäljning', project: 'P1' });
+  });
+
+  it('keeps every row of vouchers with a matching row', () => {
+    const vouchers = voucherList(SIE, { project: 'P1', toDate: '2024-02-29' });
+    expect(vouchers.map((v) => `${v.series} ${v.number}`)).toEqual(['A 1']);
+    expect(vouchers[0]!.rows).toHaveLength(2);
+
+    expect(voucherList(SIE, { fromAccount: '5000', toAccount: '5999' })).toHaveLength(2);
+  });
+});
+
+describe('export', () => {
+  it('writes CSV with semicolons and decimal commas', () => {
+    const lines = generalLedgerToCSV(generalLedger(SIE, { toAccount: '1999' })).split('\r\n');
+
+    expect(lines[0]).toBe('\uFEFFAccount;Name;Series;Number;Date;Text;Cost center;Project;Debit;Credit;Balance');
+    expect(lines[1]).toBe('1930;Företagskonto;;;;Opening balance;;;;;10000,00');
+    expect(lines[2]).toBe('1930;Företagskonto;A;1;2024-01-15;Försäljning;;;6250,00;;16250,00');
+    expect(lines[5]).toBe('1930;Företagskonto;;;;Closing balance;;;6250,00;6000,00;10250,00');
+
+    const vouchers = vouchersToCSV(voucherList(SIE, { fromDate: '2024-03-01' })).split('\r\n');
+    expect(vouchers[1]).toBe('B;1;2024-03-01;"Hyra mars; kvartal";5010;Lokalhyra;10;P1;"Hyra mars; kvartal";4500,00;');
+  });
+
+  it('writes a PDF document', () => {
+    const pdf = generalLedgerToPDF(generalLedger(SIE), SIE.metadata);
+    const text = pdf.toString('latin1');
+
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(text).toContain('/Type /Page ');
+    expect(text).toContain('(General ledger)');
+    expect(text).toContain('(1930 F\xf6retagskonto)');
+    expect(text).toContain('(10 250,00)');
+  });
+});
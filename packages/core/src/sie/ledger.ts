@@ -0,0 +1,382 @@
+/**
+ * General ledger (huvudbok) and voucher list (verifikationslista).
+ *
+ * Both reports are built from the verifications of a parsed SIE 4 file and
+ * can be narrowed with a `SIELedgerFilter`. The CSV and PDF helpers write
+ * the whole report in the layout Swedish accountants expect: semicolons and
+ * decimal commas for CSV, and one section per account or voucher for PDF.
+ */
+import type {
+  SIEParseResult,
+  SIEMetadata,
+  SIETransaction,
+  SIELedgerFilter,
+  SIELedgerEntry,
+  SIELedgerAccount,
+  SIEVoucher,
+} from '../types/sie.js';
+import { renderPDFTable, type PDFRow } from './pdf.js';
+import { roundToOre, isoDate } from './format.js';
+
+const compareNumeric = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+
+function compareVerifications(a: SIETransaction, b: SIETransaction): number {
+  return (
+    isoDate(a.verificationDate).localeCompare(isoDate(b.verificationDate)) ||
+    compareNumeric(a.verificationSeries, b.verificationSeries) ||
+    compareNumeric(a.verificationNumber, b.verificationNumber)
+  );
+}
+
+function inAccountRange(accountNumber: string, filter: SIELedgerFilter): boolean {
+  const account = Number(accountNumber);
+  if (filter.fromAccount && account < Number(filter.fromAccount)) return false;
+  if (filter.toAccount && account > Number(filter.toAccount)) return false;
+  return true;
+}
+
+function matchesObjects(transaction: SIETransaction, filter: SIELedgerFilter): boolean {
+  if (filter.costCenter && transaction.costCenter !== filter.costCenter) return false;
+  if (filter.project && transaction.project !== filter.project) return false;
+  return true;
+}
+
+function debitAndCredit(amounts: number[]): { debit: number; credit: number } {
+  let debit = 0;
+  let credit = 0;
+  for (const amount of amounts) {
+    if (amount > 0) debit += amount;
+    else credit -= amount;
+  }
+  return { debit: roundToOre(debit), credit: roundToOre(credit) };
+}
+
+/**
+ * The general ledger: for each account, its opening balance, every
+ * transaction with a running balance, and its closing balance.
+ *
+ * The opening balance is the #IB balance of the current year plus the
+ * transactions before `fromDate`. When filtering on a cost center or
+ * project only the matching transactions count, so the opening balance
+ * starts from 0 (#IB has no breakdown per object). Accounts without an
+ * opening balance or transactions in the period are left out.
+ */
+export function generalLedger(
+  data: Pick<SIEParseResult, 'accounts' | 'balances' | 'transactions'>,
+  filter: SIELedgerFilter = {},
+): SIELedgerAccount[] {
+  const byObject = Boolean(filter.costCenter || filter.project);
+  const openingBalances = new Map<string, number>();
+  if (!byObject) {
+    for (const balance of data.balances) {
+      if (balance.balanceType !== 'IB' || balance.yearIndex !== 0) continue;
+      if (!inAccountRange(balance.accountNumber, filter)) continue;
+      openingBalances.set(balance.accountNumber, (openingBalances.get(balance.accountNumber) ?? 0) + balance.amount);
+    }
+  }
+
+  const transactions = new Map<string, SIETransaction[]>();
+  for (const transaction of [...data.transactions].sort(compareVerifications)) {
+    if (!inAccountRange(transaction.accountNumber, filter) || !matchesObjects(transaction, filter)) continue;
+    const date = isoDate(transaction.verificationDate);
+    if (filter.toDate && date > filter.toDate) continue;
+    if (filter.fromDate && date < filter.fromDate) {
+      openingBalances.set(
+        transaction.accountNumber,
+        (openingBalances.get(transaction.accountNumber) ?? 0) + transaction.amount,
+      );
+      continue;
+    }
+    const rows = transactions.get(transaction.accountNumber);
+    if (rows) rows.push(transaction);
+    else transactions.set(transaction.accountNumber, [transaction]);
+  }
+
+  const accountNames = new Map(data.accounts.map((a) => [a.accountNumber, a.accountName]));
+  const accountNumbers = [...new Set([...openingBalances.keys(), ...transactions.keys()])].sort(compareNumeric);
+
+  return accountNumbers.flatMap((accountNumber) => {
+    const openingBalance = roundToOre(openingBalances.get(accountNumber) ?? 0);
+    const rows = transactions.get(accountNumber) ?? [];
+    if (openingBalance === 0 && rows.length === 0) return [];
+
+    let balance = openingBalance;
+    const entries: SIELedgerEntry[] = rows.map((t) => {
+      balance = roundToOre(balance + t.amount);
+      return {
+        verificationSeries: t.verificationSeries,
+        verificationNumber: t.verificationNumber,
+        verificationDate: isoDate(t.verificationDate),
+        text: t.rowText || t.verificationText,
+        costCenter: t.costCenter,
+        project: t.project,
+        amount: t.amount,
+        balance,
+      };
+    });
+    return [
+      {
+        accountNumber,
+        accountName: accountNames.get(accountNumber),
+        openingBalance,
+        entries,
+        ...debitAndCredit(rows.map((t) => t.amount)),
+        closingBalance: balance,
+      },
+    ];
+  });
+}
+
+/**
+ * The voucher list: every verification with all of its rows, ordered by
+ * series and number.
+ *
+ * The date filter applies to the verification date. The account, cost
+ * center and project filters select verifications with at least one
+ * matching row; the other rows of those verifications are kept.
+ */
+export function voucherList(
+  data: Pick<SIEParseResult, 'accounts' | 'transactions'>,
+  filter: SIELedgerFilter = {},
+): SIEVoucher[] {
+  const verifications = new Map<string, SIETransaction[]>();
+  for (const transaction of data.transactions) {
+    const key = `${transaction.verificationSeries}\u0000${transaction.verificationNumber}`;
+    const rows = verifications.get(key);
+    if (rows) rows.push(transaction);
+    else verifications.set(key, [transaction]);
+  }
+
+  const accountNames = new Map(data.accounts.map((a) => [a.accountNumber, a.accountName]));
+  const filtersRows = Boolean(filter.fromAccount || filter.toAccount || filter.costCenter || filter.project);
+  const vouchers: SIEVoucher[] = [];
+  for (const rows of verifications.values()) {
+    const first = rows[0]!;
+    const date = isoDate(first.verificationDate);
+    if (filter.fromDate && date < filter.fromDate) continue;
+    if (filter.toDate && date > filter.toDate) continue;
+    if (filtersRows && !rows.some((t) => inAccountRange(t.accountNumber, filter) && matchesObjects(t, filter))) continue;
+
+    vouchers.push({
+      series: first.verificationSeries,
+      number: first.verificationNumber,
+      date,
+      text: first.verificationText,
+      registrationDate: first.registrationDate ? isoDate(first.registrationDate) : undefined,
+      rows: rows.map((t) => ({
+        accountNumber: t.accountNumber,
+        accountName: accountNames.get(t.accountNumber),
+        amount: t.amount,
+        costCenter: t.costCenter,
+        project: t.project,
+        rowText: t.rowText,
+        quantity: t.quantity,
+      })),
+      ...debitAndCredit(rows.map((t) => t.amount)),
+    });
+  }
+  return vouchers.sort((a, b) => compareNumeric(a.series, b.series) || compareNumeric(a.number, b.number));
+}
+
+// ── Export ──
+
+function csvCell(value: string): string {
+  return /[;"\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function csvAmount(amount: number | null): string {
+  return amount === null ? '' : amount.toFixed(2).replace('.', ',');
+}
+
+function toCSV(rows: string[][]): string {
+  return '\uFEFF' + rows.map((row) => row.map(csvCell).join(';')).join('\r\n') + '\r\n';
+}
+
+const debitCell = (amount: number) => (amount > 0 ? amount : null);
+const creditCell = (amount: number) => (amount < 0 ? -amount : null);
+
+/**
+ * The general ledger as CSV, with an opening and a closing row per account.
+ * Cells are separated by `;` and amounts use a decimal comma, which is what
+ * Excel expects with Swedish settings.
+ */
+export function generalLedgerToCSV(accounts: SIELedgerAccount[]): string {
+  const rows = [['Account', 'Name', 'Series', 'Number', 'Date', 'Text', 'Cost center', 'Project', 'Debit', 'Credit', 'Balance']];
+  for (const account of accounts) {
+    const name = account.accountName ?? '';
+    rows.push([account.accountNumber, name, '', '', '', 'Opening balance', '', '', '', '', csvAmount(account.openingBalance)]);
+    for (const entry of account.entries) {
+      rows.push([
+        account.accountNumber,
+        name,
+        entry.verificationSeries,
+        entry.verificationNumber,
+        entry.verificationDate,
+        entry.text,
+        entry.costCenter,
+        entry.project,
+        csvAmount(debitCell(entry.amount)),
+        csvAmount(creditCell(entry.amount)),
+        csvAmount(entry.balance),
+      ]);
+    }
+    rows.push([
+      account.accountNumber,
+      name,
+      '',
+      '',
+      '',
+      'Closing balance',
+      '',
+      '',
+      csvAmount(account.debit),
+      csvAmount(account.credit),
+      csvAmount(account.closingBalance),
+    ]);
+  }
+  return toCSV(rows);
+}
+
+/** The voucher list as CSV, one line per verification row */
+export function vouchersToCSV(vouchers: SIEVoucher[]): string {
+  const rows = [
+    ['Series', 'Number', 'Date', 'Text', 'Account', 'Name', 'Cost center', 'Project', 'Row text', 'Debit', 'Credit'],
+  ];
+  for (const voucher of vouchers) {
+    for (const row of voucher.rows) {
+      rows.push([
+        voucher.series,
+        voucher.number,
+        voucher.date,
+        voucher.text,
+        row.accountNumber,
+        row.accountName ?? '',
+        row.costCenter,
+        row.project,
+        row.rowText,
+        csvAmount(debitCell(row.amount)),
+        csvAmount(creditCell(row.amount)),
+      ]);
+    }
+  }
+  return toCSV(rows);
+}
+
+/** 1234567.5 → "1 234 567,50" */
+function formatAmount(amount: number | null): string {
+  if (amount === null) return '';
+  const [whole, fraction] = Math.abs(amount).toFixed(2).split('.');
+  const grouped = whole!.replace(/\B(?=(\d{3})+(?!\d))/g, ' ');
+  return `${amount < 0 ? '-' : ''}${grouped},${fraction}`;
+}
+
+/** Company, fiscal year and active filters, for the PDF subtitle */
+function describeReport(metadata: SIEMetadata, filter: SIELedgerFilter): string {
+  const parts = [metadata.companyName];
+  if (metadata.orgNumber) parts.push(metadata.orgNumber);
+  if (metadata.fiscalYearStart && metadata.fiscalYearEnd) {
+    parts.push(`Fiscal year ${isoDate(metadata.fiscalYearStart)} - ${isoDate(metadata.fiscalYearEnd)}`);
+  }
+  if (filter.fromAccount || filter.toAccount) {
+    parts.push(`Accounts ${filter.fromAccount ?? ''} - ${filter.toAccount ?? ''}`.trim());
+  }
+  if (filter.fromDate || filter.toDate) parts.push(`Dates ${filter.fromDate ?? ''} - ${filter.toDate ?? ''}`.trim());
+  if (filter.costCenter) parts.push(`Cost center ${filter.costCenter}`);
+  if (filter.project) parts.push(`Project ${filter.project}`);
+  return parts.filter(Boolean).join(', ');
+}
+
+/** The general ledger as a PDF document */
+export function generalLedgerToPDF(
+  accounts: SIELedgerAccount[],
+  metadata: SIEMetadata,
+  filter: SIELedgerFilter = {},
+): Buffer {
+  const rows: PDFRow[] = [];
+  for (const account of accounts) {
+    rows.push({ cells: [`${account.accountNumber} ${account.accountName ?? ''}`.trim()], bold: true, span: true });
+    rows.push({ cells: ['', '', 'Opening balance', '', '', '', '', formatAmount(account.openingBalance)] });
+    for (const entry of account.entries) {
+      rows.push({
+        cells: [
+          entry.verificationDate,
+          `${entry.verificationSeries} ${entry.verificationNumber}`,
+          entry.text,
+          entry.costCenter,
+          entry.project,
+          formatAmount(debitCell(entry.amount)),
+          formatAmount(creditCell(entry.amount)),
+          formatAmount(entry.balance),
+        ],
+      });
+    }
+    rows.push({
+      cells: [
+        '',
+        '',
+        'Closing balance',
+        '',
+        '',
+        formatAmount(account.debit),
+        formatAmount(account.credit),
+        formatAmount(account.closingBalance),
+      ],
+      bold: true,
+    });
+    rows.push({ cells: [] });
+  }
+
+  return renderPDFTable({
+    title: 'General ledger',
+    subtitle: describeReport(metadata, filter),
+    columns: [
+      { header: 'Date', width: 9 },
+      { header: 'Voucher', width: 8 },
+      { header: 'Text', width: 30 },
+      { header: 'Cost center', width: 9 },
+      { header: 'Project', width: 9 },
+      { header: 'Debit', width: 11, align: 'right' },
+      { header: 'Credit', width: 11, align: 'right' },
+      { header: 'Balance', width: 12, align: 'right' },
+    ],
+    rows,
+  });
+}
+
+/** The voucher list as a PDF document */
+export function vouchersToPDF(vouchers: SIEVoucher[], metadata: SIEMetadata, filter: SIELedgerFilter = {}): Buffer {
+  const rows: PDFRow[] = [];
+  for (const voucher of vouchers) {
+    rows.push({ cells: [`${voucher.series} ${voucher.number}  ${voucher.date}  ${voucher.text}`], bold: true, span: true });
+    for (const row of voucher.rows) {
+      rows.push({
+        cells: [
+          row.accountNumber,
+          row.accountName ?? '',
+          row.rowText,
+          row.costCenter,
+          row.project,
+          formatAmount(debitCell(row.amount)),
+          formatAmount(creditCell(row.amount)),
+        ],
+      });
+    }
+    rows.push({ cells: ['', '', 'Total', '', '', formatAmount(voucher.debit), formatAmount(voucher.credit)], bold: true });
+    rows.push({ cells: [] });
+  }
+
+  return renderPDFTable({
+    title: 'Voucher list',
+    subtitle: describeReport(metadata, filter),
+    columns: [
+      { header: 'Account', width: 7 },
+      { header: 'Name', width: 22 },
+      { header: 'Text', width: 25 },
+      { header: 'Cost center', width: 9 },
+      { header: 'Project', width: 9 },
+      { header: 'Debit', width: 12, align: 'right' },
+      { header: 'Credit', width: 12, align: 'right' },
+    ],
+    rows,
+  });
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { parseSIE } from './parser.js';
+import { parseSIE, SIEParseError } from './parser.js';
 
 const SAMPLE_SIE = `#FLAGGA 0
 #PROGRAM "TestProgram" 1.0
@@ -183,4 +183,226 @@ describe('parseSIE', () => {
     const result = parseSIE(sieContent);
     expect(result.metadata.companyName).toBe('Test "AB"');
   });
+
+  it('handles backslash-escaped quotes in strings', () => {
+    const sieContent = `#FLAGGA 0
+#FNAMN "Test \\"AB\\""`;
+    const result = parseSIE(sieContent);
+    expect(result.metadata.companyName).toBe('Test "AB"');
+  });
+
+  it('keeps empty quoted fields in position', () => {
+    const sieContent = `#FLAGGA 0
+#VER A 1 20240115 "Test"
+{
+#TRANS 4010 {} 500.00 "" "" 12
+#TRANS 1910 {"1" "Syd 1"} -500.00
+}`;
+    const result = parseSIE(sieContent);
+    expect(result.transactions[0]!.quantity).toBe(12);
+    expect(result.transactions[0]!.rowText).toBe('Test');
+    expect(result.transactions[1]!.costCenter).toBe('Syd 1');
+  });
+});
+
+// Shaped like a Fortnox SIE 3 export: whole-account monthly balances and
+// cost-center breakdowns, dimensions declared up front
+const FORTNOX_SIE3 = `#FLAGGA 0
+#PROGRAM "Fortnox" 3.57.11
+#FORMAT PC8
+#GEN 20250110
+#SIETYP 3
+#FNAMN "Fortnox Test AB"
+#RAR 0 20240101 20241231
+#RAR -1 20230101 20231231
+#DIM 1 "Kostnadsställe"
+#DIM 6 "Projekt"
+#OBJEKT 1 "10" "Butik"
+#OBJEKT 1 "20" "Lager"
+#KONTO 3010 "Försäljning"
+#KONTO 5010 "Lokalhyra"
+#RES 0 3010 -240000.00
+#BUDGET 0 3010 -300000.00
+#PSALDO 0 202401 3010 {} -20000.00
+#PSALDO 0 202402 3010 {} -40000.00
+#PSALDO 0 202401 5010 {1 "10"} 8000.00 2
+#PSALDO 0 202401 5010 {1 "20"} 4000.00
+#PSALDO -1 202301 3010 {} -15000.00
+#PBUDGET 0 202401 3010 {} -25000.00`;
+
+// Shaped like a Visma eEkonomi SIE 4 export: results units and projects,
+// a subdimension, and several objects per transaction row
+const VISMA_SIE4 = `#FLAGGA 0
+#PROGRAM "Visma eEkonomi" 1.0
+#FORMAT PC8
+#SIETYP 4
+#FNAMN "Visma Test AB"
+#RAR 0 20240101 20241231
+#DIM 1 "Resultatenhet"
+#DIM 6 "Projekt"
+#UNDERDIM 21 "Delprojekt" 6
+#OBJEKT 6 "P1" "Ombyggnad"
+#OBJEKT 21 "P1-A" "Etapp A"
+#KONTO 1930 "Företagskonto"
+#KONTO 4010 "Inköp material"
+#VER "A" "12" 20240205 "Material" 20240206
+{
+#TRANS 4010 {"1" "100" "6" "P1" "21" "P1-A"} 2500.00 20240205 "Material etapp A"
+#TRANS 1930 {} -2500.00
+}`;
+
+describe('parseSIE period balances, budgets and dimensions', () => {
+  it('parses #PSALDO rows with and without objects', () => {
+    const result = parseSIE(FORTNOX_SIE3);
+    expect(result.periodBalances).toHaveLength(5);
+    expect(result.periodBalances[0]).toEqual({
+      accountNumber: '3010',
+      yearIndex: 0,
+      period: '202401',
+      objects: [],
+      amount: -20000,
+      quantity: undefined,
+    });
+    expect(result.periodBalances[2]).toEqual({
+      accountNumber: '5010',
+      yearIndex: 0,
+      period: '202401',
+      objects: [{ dimensionType: 1, code: '10' }],
+      amount: 8000,
+      quantity: 2,
+    });
+    expect(result.periodBalances[4]!.yearIndex).toBe(-1);
+  });
+
+  it('parses #PBUDGET and #BUDGET', () => {
+    const result = parseSIE(FORTNOX_SIE3);
+    expect(result.periodBudgets).toEqual([
+      { accountNumber: '3010', yearIndex: 0, period: '202401', objects: [], amount: -25000, quantity: undefined },
+    ]);
+    expect(result.budgets).toEqual([
+      { accountNumber: '3010', yearIndex: 0, amount: -300000, quantity: undefined },
+    ]);
+  });
+
+  it('parses #DIM and #UNDERDIM into a hierarchy', () => {
+    const result = parseSIE(VISMA_SIE4);
+    expect(result.dimensionDefinitions).toEqual([
+      { dimensionType: 1, name: 'Resultatenhet' },
+      { dimensionType: 6, name: 'Projekt' },
+      { dimensionType: 21, name: 'Delprojekt', parentDimensionType: 6 },
+    ]);
+    expect(result.dimensions).toContainEqual({ dimensionType: 21, code: 'P1-A', name: 'Etapp A' });
+  });
+
+  it('keeps every object reference on a transaction', () => {
+    const result = parseSIE(VISMA_SIE4);
+    const [material, bank] = result.transactions;
+    expect(material!.objects).toEqual([
+      { dimensionType: 1, code: '100' },
+      { dimensionType: 6, code: 'P1' },
+      { dimensionType: 21, code: 'P1-A' },
+    ]);
+    expect(material!.costCenter).toBe('100');
+    expect(material!.project).toBe('P1');
+    expect(material!.rowText).toBe('Material etapp A');
+    expect(bank!.objects).toEqual([]);
+  });
+
+  it('skips malformed period rows', () => {
+    const result = parseSIE(`#FLAGGA 0
+#PSALDO 0 2024 3010 {} -100.00
+#PSALDO 0 202401 3010 {}`);
+    expect(result.periodBalances).toHaveLength(0);
+  });
+});
+
+const DAMAGED_SIE = [
+  '#FLAGGA 0',
+  '#FNAMN "Skadad AB"',
+  '#KONTO 1930 "Bank"',
+  '#KONTO 3010 "Försäljning"',
+  '#IB 0 1930 1O00.00',
+  '#UB 0 1930 5000.00',
+  '#XYZ 1 2 3',
+  '#VER A 1 20240115 "Öppen"',
+  '{',
+  '#TRANS 1930 {} 1000.00',
+  '#TRANS 3010 {} -1000,00',
+  '#VER A 2 20240116 "Nästa"',
+  '{',
+  '#TRANS 1930 {} 200.00',
+  '#TRANS 3010 {} -200.00',
+  '}',
+  'skräp',
+  '#TRANS 1930 {} 1.00',
+  '#RES 0 3010',
+].join('\n');
+
+describe('parseSIE modes', () => {
+  it('recovers at the next label after an unterminated verification block', () => {
+    const result = parseSIE(DAMAGED_SIE);
+    expect(result.transactions.map((t) => [t.verificationNumber, t.amount])).toEqual([
+      ['1', 1000],
+      ['2', 200],
+      ['2', -200],
+    ]);
+    expect(result.balances).toEqual([
+      { accountNumber: '1930', balanceType: 'UB', yearIndex: 0, amount: 5000, quantity: undefined },
+    ]);
+    expect(result.parseReport).toBeUndefined();
+  });
+
+  it('reports errors, warnings and skipped rows in tolerant mode', () => {
+    const { parseReport } = parseSIE(DAMAGED_SIE, { mode: 'tolerant' });
+    expect(parseReport!.diagnostics.map((d) => [d.severity, d.code, d.line, d.column])).toEqual([
+      ['error', 'invalid_amount', 5, 12],
+      ['warning', 'unknown_label', 7, 1],
+      ['error', 'invalid_amount', 11, 16],
+      ['error', 'unterminated_verification_block', 9, 1],
+      ['warning', 'unexpected_content', 17, 1],
+      ['error', 'transaction_outside_verification', 18, 1],
+      ['error', 'missing_field', 19, 8],
+    ]);
+    expect(parseReport!.skippedTransactions).toBe(2);
+    expect(parseReport!.skippedBalances).toBe(2);
+  });
+
+  it('reports columns against the untrimmed line', () => {
+    const { parseReport } = parseSIE('#FLAGGA 0\n  #UB 0 1930 abc 2x', { mode: 'tolerant' });
+    expect(parseReport!.diagnostics).toEqual([
+      { severity: 'error', code: 'invalid_amount', message: 'Invalid amount "abc" in #UB', line: 2, column: 14 },
+    ]);
+  });
+
+  it('warns about unclosed quotes and object lists', () => {
+    const content = '#FLAGGA 0\n#FNAMN "Öppen AB\n#VER A 1 20240101 "x"\n{\n#TRANS 1930 {1 10 500.00\n}';
+    const { parseReport } = parseSIE(content, { mode: 'tolerant' });
+    expect(parseReport!.diagnostics.map((d) => [d.code, d.line, d.column])).toEqual([
+      ['unterminated_quote', 2, 8],
+      ['unterminated_object_list', 5, 13],
+      ['missing_field', 5, 8],
+    ]);
+  });
+
+  it('reports a #VER without a block', () => {
+    const { transactions, parseReport } = parseSIE('#VER A 1 20240101 "x"\n#KONTO 1930 "Bank"', {
+      mode: 'tolerant',
+    });
+    expect(transactions).toHaveLength(0);
+    expect(parseReport!.diagnostics[0]).toMatchObject({ code: 'missing_verification_block', line: 1 });
+  });
+
+  it('throws on the first error in strict mode', () => {
+    expect(() => parseSIE(DAMAGED_SIE, { mode: 'strict' })).toThrow(SIEParseError);
+    try {
+      parseSIE(DAMAGED_SIE, { mode: 'strict' });
+    } catch (error) {
+      expect(error).toMatchObject({ code: 'invalid_amount', line: 5, column: 12 });
+      expect((error as Error).message).toBe('Invalid amount "1O00.00" in #IB (line 5, column 12)');
+    }
+  });
+
+  it('does not throw on warnings in strict mode', () => {
+    expect(() => parseSIE('#FLAGGA 0\n#XYZ 1\n#UB 0 1930 10.00', { mode: 'strict' })).not.toThrow();
+  });
 });
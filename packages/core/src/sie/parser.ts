@@ -8,14 +8,25 @@
  * - Fortnox: empty #TRANS fields, quantity in field 6
  * - Spiris: explicit dates and text in #TRANS rows
  * - Both: different verification registration date formats
+ *
+ * Rows that cannot be read are left out. In tolerant mode each one is
+ * described in `parseReport`; in strict mode the first one throws.
  */
 import type {
   SIEMetadata,
   SIEAccount,
   SIEDimension,
+  SIEDimensionDefinition,
+  SIEObjectReference,
   SIETransaction,
   SIEBalance,
+  SIEBalanceType,
+  SIEPeriodBalance,
+  SIEBudget,
   SIEParseResult,
+  SIEParseReport,
+  SIEParseDiagnosticCode,
+  SIERecord,
 } from '../types/sie.js';
 
 const ACCOUNT_GROUPS: Record<string, string> = {
@@ -29,6 +40,126 @@ const ACCOUNT_GROUPS: Record<string, string> = {
   '8': '8 - Finansiella och andra inkomster/utgifter',
 };
 
+/** Standard SIE labels that carry nothing the parse result holds */
+const IGNORED_LABELS = new Set([
+  'FLAGGA',
+  'KSUMMA',
+  'PROGRAM',
+  'FORMAT',
+  'PROSA',
+  'FTYP',
+  'FNR',
+  'ADRESS',
+  'BKOD',
+  'KPTYP',
+  'KTYP',
+  'ENHET',
+  'TAXAR',
+  'OIB',
+  'OUB',
+]);
+
+/** Labels of the file header, chart of accounts and dimensions */
+const HEADER_LABELS = new Set([
+  'FLAGGA',
+  'KSUMMA',
+  'PROGRAM',
+  'FORMAT',
+  'GEN',
+  'SIETYP',
+  'PROSA',
+  'FTYP',
+  'FNR',
+  'ORGNR',
+  'BKOD',
+  'ADRESS',
+  'FNAMN',
+  'RAR',
+  'TAXAR',
+  'OMFATTN',
+  'KPTYP',
+  'VALUTA',
+  'KONTO',
+  'KTYP',
+  'ENHET',
+  'SRU',
+  'DIM',
+  'UNDERDIM',
+  'OBJEKT',
+]);
+
+/** Labels handled by `parseSIE()` outside verification blocks */
+const RECORD_LABELS = new Set([
+  ...IGNORED_LABELS,
+  'SIETYP',
+  'FNAMN',
+  'VALUTA',
+  'GEN',
+  'ORGNR',
+  'RAR',
+  'OMFATTN',
+  'KONTO',
+  'SRU',
+  'IB',
+  'UB',
+  'RES',
+  'PSALDO',
+  'PBUDGET',
+  'BUDGET',
+  'DIM',
+  'UNDERDIM',
+  'OBJEKT',
+  'VER',
+]);
+
+export type SIEParseMode = 'lenient' | 'tolerant' | 'strict';
+
+export interface ParseSIEOptions {
+  /**
+   * - `lenient` (default): leave out rows that cannot be read
+   * - `tolerant`: leave them out and describe them in `result.parseReport`
+   * - `strict`: throw a `SIEParseError` at the first error
+   */
+  mode?: SIEParseMode;
+}
+
+/**
+ * Thrown by `parseSIE()` in strict mode at the first row it cannot read.
+ */
+export class SIEParseError extends Error {
+  constructor(
+    message: string,
+    public readonly code: SIEParseDiagnosticCode,
+    public readonly line: number,
+    public readonly column: number,
+  ) {
+    super(`${message} (line ${line}, column ${column})`);
+    this.name = 'SIEParseError';
+  }
+}
+
+/** Collects diagnostics for one parse. Errors throw in strict mode. */
+class ParseReporter {
+  readonly report: SIEParseReport = {
+    diagnostics: [],
+    skippedTransactions: 0,
+    skippedBalances: 0,
+  };
+
+  constructor(private readonly mode: SIEParseMode) {}
+
+  error(code: SIEParseDiagnosticCode, message: string, line: number, column: number): void {
+    if (this.mode === 'strict') {
+      throw new SIEParseError(message, code, line, column);
+    }
+    this.report.diagnostics.push({ severity: 'error', code, message, line, column });
+  }
+
+  warning(code: SIEParseDiagnosticCode, message: string, line: number, column: number): void {
+    this.report.diagnostics.push({ severity: 'warning', code, message, line, column });
+  }
+}
+
 /**
  * Parse numeric value safely, handling negative zero and empty strings.
  */
@@ -39,21 +170,79 @@ function parseAmount(value: string): number {
   return Object.is(num, -0) ? 0 : num;
 }
 
+function isAmount(value: string): boolean {
+  return /^[+-]?(\d+\.?\d*|\.\d+)$/.test(value);
+}
+
+/**
+ * Split the contents of a {} object list into dimension/object tokens,
+ * honouring quoted object ids: `1 "10" 6 "P 200"` → ['1', '10', '6', 'P 200'].
+ */
+function splitObjectList(content: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /"((?:[^"\\]|\\")*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(content)) !== null) {
+    tokens.push(match[1] !== undefined ? match[1].replace(/\\"/g, '"') : match[2]!);
+  }
+  return tokens;
+}
+
+/**
+ * Parse an object list into dimension/object pairs. A trailing dimension
+ * without an object is dropped.
+ */
+function parseObjectList(content: string): SIEObjectReference[] {
+  const tokens = splitObjectList(content);
+  const objects: SIEObjectReference[] = [];
+  for (let d = 0; d < tokens.length - 1; d += 2) {
+    const dimensionType = parseInt(tokens[d]!, 10);
+    if (!Number.isNaN(dimensionType)) {
+      objects.push({ dimensionType, code: tokens[d + 1]! });
+    }
+  }
+  return objects;
+}
+
+/**
+ * BAS account group for an account number, e.g. "1 - Tillgångar" for 1910.
+ */
+export function getAccountGroup(accountNumber: string): string {
+  return ACCOUNT_GROUPS[accountNumber[0]!] || '';
+}
+
+interface ParsedLine {
+  label: string;
+  parts: string[];
+  /** 1-based column of the label */
+  labelColumn: number;
+  /** 1-based column where each of `parts` starts */
+  columns: number[];
+  /** A quote or object list still open at the end of the line */
+  unterminated?: { kind: 'quote' | 'object_list'; column: number };
+}
+
 /**
  * Parse a SIE-format line into label and parts.
  * Handles quoted strings and {} bracket groups.
  */
-function parseLine(
-  line: string,
-): { label: string; parts: string[] } | null {
+export function parseLine(line: string): ParsedLine | null {
   const trimmed = line.trim();
   if (!trimmed.startsWith('#')) return null;
+  // Columns refer to the untrimmed line
+  const offset = line.length - line.trimStart().length + 1;
 
   const parts: string[] = [];
+  const columns: number[] = [];
   let current = '';
+  let start = 0;
+  // An empty quoted field ("") is still a field
+  let quoted = false;
   let inQuotes = false;
+  let quoteStart = 0;
   let inBraces = false;
   let braceContent = '';
+  let braceStart = 0;
 
   for (let i = 0; i < trimmed.length; i++) {
     const char = trimmed[i];
@@ -62,6 +251,7 @@ function parseLine(
     if (char === '{' && !inQuotes) {
       inBraces = true;
       braceContent = '';
+      braceStart = i;
       continue;
     }
 
@@ -70,6 +260,7 @@ function parseLine(
       inBraces = false;
       // Push brace content as single token (even if empty string)
       parts.push(braceContent.trim());
+      columns.push(offset + braceStart);
       continue;
     }
 
@@ -79,6 +270,13 @@ function parseLine(
       continue;
     }
 
+    // SIE 4B escapes quotes inside text as \"
+    if (char === '\\' && inQuotes && trimmed[i + 1] === '"') {
+      current += '"';
+      i++;
+      continue;
+    }
+
     // Handle quotes — support escaped quotes ("" → ")
     if (char === '"') {
       if (inQuotes && i + 1 < trimmed.length && trimmed[i + 1] === '"') {
@@ -86,145 +284,263 @@ function parseLine(
         i++; // Skip next quote
         continue;
       }
+      if (!inQuotes) {
+        if (!current && !quoted) start = i;
+        quoteStart = i;
+      }
       inQuotes = !inQuotes;
+      quoted = true;
       continue;
     }
 
     // Handle spaces outside quotes/braces
     if (char === ' ' && !inQuotes) {
-      if (current) {
+      if (current || quoted) {
         parts.push(current);
+        columns.push(offset + start);
         current = '';
+        quoted = false;
       }
     } else {
+      if (!current && !quoted) start = i;
       current += char;
     }
   }
 
-  if (current) parts.push(current);
+  if (current || quoted) {
+    parts.push(current);
+    columns.push(offset + start);
+  }
   if (parts.length === 0) return null;
 
+  let unterminated: ParsedLine['unterminated'];
+  if (inQuotes) unterminated = { kind: 'quote', column: offset + quoteStart };
+  else if (inBraces) unterminated = { kind: 'object_list', column: offset + braceStart };
+
   const label = parts[0]!.substring(1).toUpperCase();
-  return { label, parts: parts.slice(1) };
+  return {
+    label,
+    parts: parts.slice(1),
+    labelColumn: columns[0]!,
+    columns: columns.slice(1),
+    unterminated,
+  };
 }
 
-/**
- * Parse a verification block (transactions within a #VER).
- * Handles both Fortnox and Spiris formats.
- */
-function parseVerificationBlock(
-  lines: string[],
-  startIndex: number,
-  defaultText: string,
-  defaultDate: string,
-  verSeries: string,
-  verNumber: string,
-  registrationDate?: string,
-): { endIndex: number; transactions: SIETransaction[] } {
-  const transactions: SIETransaction[] = [];
-  let i = startIndex;
-
-  // Check for opening brace
-  if (lines[i + 1]?.trim() === '{') {
-    i += 2;
-    while (i < lines.length && lines[i]!.trim() !== '}') {
-      const parsed = parseLine(lines[i]!);
-
-      // Skip reversed transactions (BTRANS and RTRANS)
-      if (
-        parsed &&
-        (parsed.label === 'BTRANS' || parsed.label === 'RTRANS')
-      ) {
-        i++;
-        continue;
-      }
+/** `parseLine()`, reporting quotes and object lists left open */
+function readLine(line: string, lineNumber: number, reporter: ParseReporter): ParsedLine | null {
+  const parsed = parseLine(line);
+  if (parsed?.unterminated?.kind === 'quote') {
+    reporter.warning('unterminated_quote', 'Quote is not closed', lineNumber, parsed.unterminated.column);
+  } else if (parsed?.unterminated?.kind === 'object_list') {
+    reporter.warning(
+      'unterminated_object_list',
+      'Object list is not closed; its contents are ignored',
+      lineNumber,
+      parsed.unterminated.column,
+    );
+  }
+  return parsed;
+}
 
-      if (parsed && parsed.label === 'TRANS') {
-        const account = parsed.parts[0] || '';
-        const dimString = parsed.parts[1] || '';
-        const amount = parseAmount(parsed.parts[2] || '');
-
-        // Parse dimensions from dimension string
-        let costCenter = '';
-        let project = '';
-        if (dimString) {
-          const dimParts = dimString.split(' ').filter(Boolean);
-          for (let d = 0; d < dimParts.length - 1; d += 2) {
-            const dimType = dimParts[d];
-            const dimValue = dimParts[d + 1]!;
-            if (dimType === '1') costCenter = dimValue;
-            if (dimType === '6') project = dimValue;
-          }
-        }
+/** Column of the first non-blank character */
+function firstColumn(line: string): number {
+  return line.length - line.trimStart().length + 1;
+}
 
-        // Smart detection of date/text based on format
-        let dateStr = defaultDate;
-        let textStr = defaultText;
+/**
+ * Read the amount in `parts[index]`, reporting it when missing or malformed.
+ */
+function readAmount(
+  parsed: ParsedLine,
+  index: number,
+  lineNumber: number,
+  reporter: ParseReporter,
+): number | null {
+  const value = parsed.parts[index];
+  if (!value) {
+    reporter.error(
+      'missing_field',
+      `#${parsed.label} has no amount`,
+      lineNumber,
+      parsed.columns[parsed.columns.length - 1] ?? parsed.labelColumn,
+    );
+    return null;
+  }
+  if (!isAmount(value)) {
+    reporter.error('invalid_amount', `Invalid amount "${value}" in #${parsed.label}`, lineNumber, parsed.columns[index]!);
+    return null;
+  }
+  return parseAmount(value);
+}
 
-        // Get remaining parts after account, dimensions, and amount
-        const remainingParts = parsed.parts.slice(3);
+/** Optional quantity in `parts[index]`; a malformed one is dropped with a warning */
+function readQuantity(
+  parsed: ParsedLine,
+  index: number,
+  lineNumber: number,
+  reporter: ParseReporter,
+): number | undefined {
+  const value = parsed.parts[index];
+  if (!value) return undefined;
+  if (!isAmount(value)) {
+    reporter.warning('invalid_quantity', `Invalid quantity "${value}" in #${parsed.label}`, lineNumber, parsed.columns[index]!);
+    return undefined;
+  }
+  return parseAmount(value);
+}
 
-        // Filter out empty strings and likely quantity fields
-        const meaningfulParts = remainingParts.filter((p) => {
-          if (!p || p === '') return false;
-          if (/^\d+$/.test(p) && parseInt(p, 10) <= 100) return false;
-          return true;
-        });
+/** #IB / #UB / #RES: year index, account, amount and optional quantity */
+function parseBalance(
+  balanceType: SIEBalanceType,
+  parsed: ParsedLine,
+  lineNumber: number,
+  reporter: ParseReporter,
+): SIEBalance | null {
+  const [yearIndex, accountNumber] = parsed.parts;
+  if (!yearIndex || !accountNumber) {
+    reporter.error('missing_field', `#${balanceType} needs a year and an account`, lineNumber, parsed.labelColumn);
+    return null;
+  }
+  const amount = readAmount(parsed, 2, lineNumber, reporter);
+  if (amount === null) return null;
+
+  return {
+    accountNumber,
+    balanceType,
+    yearIndex: parseInt(yearIndex, 10),
+    amount,
+    quantity: readQuantity(parsed, 3, lineNumber, reporter),
+  };
+}
 
-        if (meaningfulParts.length > 0) {
-          const firstPart = meaningfulParts[0]!;
+/**
+ * Parse #PSALDO / #PBUDGET fields: year index, period (YYYYMM), account,
+ * object list, amount and optional quantity.
+ */
+function parsePeriodBalance(
+  parsed: ParsedLine,
+  lineNumber: number,
+  reporter: ParseReporter,
+): SIEPeriodBalance | null {
+  const [yearIndex, period, accountNumber, objectList] = parsed.parts;
+  if (!yearIndex || !period || !/^\d{6}$/.test(period) || !accountNumber) {
+    reporter.error(
+      'missing_field',
+      `#${parsed.label} needs a year, a YYYYMM period and an account`,
+      lineNumber,
+      parsed.labelColumn,
+    );
+    return null;
+  }
+  const amount = readAmount(parsed, 4, lineNumber, reporter);
+  if (amount === null) return null;
+
+  return {
+    accountNumber,
+    yearIndex: parseInt(yearIndex, 10),
+    period,
+    objects: parseObjectList(objectList ?? ''),
+    amount,
+    quantity: readQuantity(parsed, 5, lineNumber, reporter),
+  };
+}
 
-          // Check if first meaningful part is a date (YYYYMMDD = 8 digits)
-          if (/^\d{8}$/.test(firstPart)) {
-            // Spiris format: has explicit date
-            dateStr = firstPart;
-            if (meaningfulParts.length > 1) {
-              textStr = meaningfulParts[1]!;
-            }
-          } else {
-            // First part is text, not a date
-            textStr = firstPart;
-          }
-        }
+interface VerificationHeader {
+  series: string;
+  number: string;
+  date: string;
+  text: string;
+  registrationDate?: string;
+}
 
-        // Extract quantity from field 6 (parts[5]) if present
-        const quantity = parsed.parts[5]
-          ? parseAmount(parsed.parts[5])
-          : undefined;
-
-        transactions.push({
-          verificationSeries: verSeries,
-          verificationNumber: verNumber,
-          verificationDate: dateStr,
-          verificationText: textStr,
-          accountNumber: account,
-          amount,
-          costCenter,
-          project,
-          rowText: textStr,
-          quantity: quantity !== 0 ? quantity : undefined,
-          registrationDate: registrationDate || undefined,
-        });
+/**
+ * Parse a #TRANS row, with date and text defaulting to the verification's.
+ */
+function parseTransaction(
+  parsed: ParsedLine,
+  header: VerificationHeader,
+  lineNumber: number,
+  reporter: ParseReporter,
+): SIETransaction | null {
+  const account = parsed.parts[0] || '';
+  if (!account) {
+    reporter.error('missing_field', '#TRANS has no account', lineNumber, parsed.labelColumn);
+    return null;
+  }
+  const dimString = parsed.parts[1] || '';
+  const amount = readAmount(parsed, 2, lineNumber, reporter);
+  if (amount === null) return null;
+
+  // Cost center and project are the standard dimensions 1 and 6
+  const objects = parseObjectList(dimString);
+  const costCenter = objects.find((o) => o.dimensionType === 1)?.code ?? '';
+  const project = objects.find((o) => o.dimensionType === 6)?.code ?? '';
+
+  // Smart detection of date/text based on format
+  let dateStr = header.date;
+  let textStr = header.text;
+
+  // Get remaining parts after account, dimensions, and amount
+  const remainingParts = parsed.parts.slice(3);
+
+  // Filter out empty strings and likely quantity fields
+  const meaningfulParts = remainingParts.filter((p) => {
+    if (!p || p === '') return false;
+    if (/^\d+$/.test(p) && parseInt(p, 10) <= 100) return false;
+    return true;
+  });
+
+  if (meaningfulParts.length > 0) {
+    const firstPart = meaningfulParts[0]!;
+
+    // Check if first meaningful part is a date (YYYYMMDD = 8 digits)
+    if (/^\d{8}$/.test(firstPart)) {
+      // Spiris format: has explicit date
+      dateStr = firstPart;
+      if (meaningfulParts.length > 1) {
+        textStr = meaningfulParts[1]!;
       }
-      i++;
+    } else {
+      // First part is text, not a date
+      textStr = firstPart;
     }
   }
 
-  return { endIndex: i, transactions };
+  // Extract quantity from field 6 (parts[5]) if present
+  const quantity = readQuantity(parsed, 5, lineNumber, reporter);
+
+  return {
+    verificationSeries: header.series,
+    verificationNumber: header.number,
+    verificationDate: dateStr,
+    verificationText: textStr,
+    accountNumber: account,
+    amount,
+    costCenter,
+    project,
+    objects,
+    rowText: textStr,
+    quantity: quantity !== 0 ? quantity : undefined,
+    registrationDate: header.registrationDate || undefined,
+  };
+}
+
+function formatDate(value: string): string {
+  return `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
 }
 
 /**
- * Parse SIE file content string into structured data.
+ * Line-at-a-time SIE reader behind `parseSIE()` and `parseSIEStream()`.
  *
- * Content should already be decoded to a UTF-8 string before calling
- * this function — use `decodeSIEBuffer()` from `./encoding.ts` first.
+ * Balances and transactions are emitted as soon as they are read. The
+ * header, accounts and dimensions are held back until the first record after
+ * them, so that metadata comes first and accounts carry the #SRU codes that
+ * follow the #KONTO lines. Anything of theirs that turns up later is emitted
+ * again, to be applied as an update.
  */
-export function parseSIE(content: string): SIEParseResult {
-  // Normalize CRLF to LF for consistent parsing
-  const normalizedContent = content.replace(/\r\n/g, '\n');
-  const lines = normalizedContent.split('\n');
-
-  const metadata: SIEMetadata = {
+export class SIELineReader {
+  readonly metadata: SIEMetadata = {
     companyName: 'Okänd',
     currency: 'SEK',
     generatedDate: null,
@@ -233,156 +549,430 @@ export function parseSIE(content: string): SIEParseResult {
     fiscalYearEnd: null,
   };
 
-  const accounts: SIEAccount[] = [];
-  const accountTaxCodes = new Map<string, string>();
-  const dimensions: SIEDimension[] = [];
-  const transactions: SIETransaction[] = [];
-  const balances: SIEBalance[] = [];
+  private readonly reporter: ParseReporter;
+  private lineNumber = 0;
+  private headerEmitted = false;
+  private readonly pendingAccounts: SIEAccount[] = [];
+  private readonly pendingDefinitions: SIEDimensionDefinition[] = [];
+  private readonly pendingDimensions: SIEDimension[] = [];
+  private readonly accountTaxCodes = new Map<string, string>();
+  private readonly emittedAccounts = new Map<string, SIEAccount>();
+  private verification: {
+    header: VerificationHeader;
+    name: string;
+    line: number;
+    column: number;
+    /** Position of the opening brace, once read */
+    block?: { line: number; column: number };
+  } | null = null;
+
+  constructor(
+    mode: SIEParseMode,
+    private readonly emit: (record: SIERecord) => void,
+  ) {
+    this.reporter = new ParseReporter(mode);
+  }
+
+  get report(): SIEParseReport {
+    return this.reporter.report;
+  }
 
-  for (let i = 0; i < lines.length; i++) {
-    const parsed = parseLine(lines[i]!);
-    if (!parsed) continue;
+  /** Read the next line, without its line break */
+  push(line: string): void {
+    this.lineNumber++;
+    const trimmed = line.trim();
 
+    if (this.verification && !this.verification.block) {
+      if (trimmed === '{') {
+        this.verification.block = { line: this.lineNumber, column: firstColumn(line) };
+        return;
+      }
+      this.closeVerification();
+    }
+    if (this.verification && trimmed === '}') {
+      this.verification = null;
+      return;
+    }
+    if (!trimmed) return;
+
+    const parsed = readLine(line, this.lineNumber, this.reporter);
+    if (!parsed) {
+      this.reporter.warning(
+        'unexpected_content',
+        this.verification ? `Unexpected content in verification ${this.verification.name}` : 'Line is not a SIE record',
+        this.lineNumber,
+        firstColumn(line),
+      );
+      return;
+    }
+
+    if (this.verification) {
+      // Skip reversed transactions (BTRANS and RTRANS)
+      if (parsed.label === 'BTRANS' || parsed.label === 'RTRANS') return;
+
+      if (parsed.label === 'TRANS') {
+        const transaction = parseTransaction(parsed, this.verification.header, this.lineNumber, this.reporter);
+        if (transaction) this.emit({ type: 'transaction', transaction });
+        else this.reporter.report.skippedTransactions++;
+        return;
+      }
+
+      if (!RECORD_LABELS.has(parsed.label)) {
+        this.reporter.warning('unknown_label', `Unknown label #${parsed.label}`, this.lineNumber, parsed.labelColumn);
+        return;
+      }
+      // A record that cannot be inside a verification: the block was never closed
+      this.closeVerification();
+    }
+
+    this.readRecord(parsed, line);
+  }
+
+  /** Finish the file, reporting an unclosed verification */
+  end(): void {
+    this.closeVerification();
+    this.flushHeader();
+  }
+
+  private closeVerification(): void {
+    const verification = this.verification;
+    if (!verification) return;
+    this.verification = null;
+
+    if (!verification.block) {
+      this.reporter.error(
+        'missing_verification_block',
+        `Verification ${verification.name} has no { } block`,
+        verification.line,
+        verification.column,
+      );
+    } else {
+      this.reporter.error(
+        'unterminated_verification_block',
+        `Verification ${verification.name} has no closing brace`,
+        verification.block.line,
+        verification.block.column,
+      );
+    }
+  }
+
+  private flushHeader(): void {
+    if (this.headerEmitted) return;
+    this.headerEmitted = true;
+
+    this.emit({ type: 'metadata', metadata: { ...this.metadata } });
+    for (const account of this.pendingAccounts) {
+      account.taxCode ??= this.accountTaxCodes.get(account.accountNumber);
+      this.emittedAccounts.set(account.accountNumber, account);
+      this.emit({ type: 'account', account });
+    }
+    for (const dimensionDefinition of this.pendingDefinitions) {
+      this.emit({ type: 'dimensionDefinition', dimensionDefinition });
+    }
+    for (const dimension of this.pendingDimensions) {
+      this.emit({ type: 'dimension', dimension });
+    }
+    this.pendingAccounts.length = 0;
+    this.pendingDefinitions.length = 0;
+    this.pendingDimensions.length = 0;
+  }
+
+  private metadataChanged(): void {
+    if (this.headerEmitted) this.emit({ type: 'metadata', metadata: { ...this.metadata } });
+  }
+
+  private readRecord(parsed: ParsedLine, line: string): void {
     const { label, parts } = parsed;
+    const lineNumber = this.lineNumber;
+    if (!HEADER_LABELS.has(label)) this.flushHeader();
 
     switch (label) {
       case 'SIETYP':
-        metadata.sieType = parts[0] || null;
+        this.metadata.sieType = parts[0] || null;
+        this.metadataChanged();
         break;
 
       case 'FNAMN':
-        metadata.companyName = parts[0] || 'Okänd';
+        this.metadata.companyName = parts[0] || 'Okänd';
+        this.metadataChanged();
         break;
 
       case 'VALUTA':
-        metadata.currency = parts[0] || 'SEK';
+        this.metadata.currency = parts[0] || 'SEK';
+        this.metadataChanged();
         break;
 
       case 'GEN':
         if (parts[0]) {
-          const d = parts[0];
-          metadata.generatedDate = `${d.slice(0, 4)}-${d.slice(4, 6)}-${d.slice(6, 8)}`;
+          this.metadata.generatedDate = formatDate(parts[0]);
+          this.metadataChanged();
         }
         break;
 
       case 'ORGNR':
-        metadata.orgNumber = parts[0] || undefined;
+        this.metadata.orgNumber = parts[0] || undefined;
+        this.metadataChanged();
         break;
 
       case 'RAR':
         // Fiscal year: #RAR 0 20230101 20231231
         if (parts[0] === '0' && parts[1] && parts[2]) {
-          const start = parts[1];
-          const end = parts[2];
-          metadata.fiscalYearStart = `${start.slice(0, 4)}-${start.slice(4, 6)}-${start.slice(6, 8)}`;
-          metadata.fiscalYearEnd = `${end.slice(0, 4)}-${end.slice(4, 6)}-${end.slice(6, 8)}`;
+          this.metadata.fiscalYearStart = formatDate(parts[1]);
+          this.metadata.fiscalYearEnd = formatDate(parts[2]);
+          this.metadataChanged();
         }
         break;
 
       case 'OMFATTN':
         // Period coverage date: #OMFATTN 20251031
         if (parts[0]) {
-          const d = parts[0];
-          metadata.omfattnDate = `${d.slice(0, 4)}-${d.slice(4, 6)}-${d.slice(6, 8)}`;
+          this.metadata.omfattnDate = formatDate(parts[0]);
+          this.metadataChanged();
         }
         break;
 
       case 'KONTO':
         if (parts[0] && parts[1]) {
           const accountNumber = parts[0];
-          accounts.push({
+          const account: SIEAccount = {
             accountNumber,
             accountName: parts[1],
-            accountGroup: ACCOUNT_GROUPS[accountNumber[0]!] || '',
-            taxCode: accountTaxCodes.get(accountNumber),
-          });
+            accountGroup: getAccountGroup(accountNumber),
+            taxCode: this.accountTaxCodes.get(accountNumber),
+          };
+          if (this.headerEmitted) {
+            this.emittedAccounts.set(accountNumber, account);
+            this.emit({ type: 'account', account });
+          } else {
+            this.pendingAccounts.push(account);
+          }
         }
         break;
 
-      case 'SRU':
+      case 'SRU': {
         // Tax reporting code (Fortnox): #SRU 1010 7201
-        if (parts[0] && parts[1]) {
-          accountTaxCodes.set(parts[0], parts[1]);
+        if (!parts[0] || !parts[1]) break;
+        this.accountTaxCodes.set(parts[0], parts[1]);
+        const account = this.emittedAccounts.get(parts[0]);
+        if (account && !account.taxCode) {
+          account.taxCode = parts[1];
+          this.emit({ type: 'account', account });
         }
         break;
+      }
 
       case 'IB':
-        if (parts[0] && parts[1] && parts[2]) {
-          balances.push({
-            accountNumber: parts[1],
-            balanceType: 'IB',
-            yearIndex: parseInt(parts[0], 10),
-            amount: parseAmount(parts[2]),
-            quantity: parts[3] ? parseAmount(parts[3]) : undefined,
-          });
-        }
+      case 'UB':
+      case 'RES': {
+        const balance = parseBalance(label, parsed, lineNumber, this.reporter);
+        if (balance) this.emit({ type: 'balance', balance });
+        else this.reporter.report.skippedBalances++;
         break;
+      }
 
-      case 'UB':
-        if (parts[0] && parts[1] && parts[2]) {
-          balances.push({
+      case 'PSALDO': {
+        // Monthly balance: #PSALDO 0 202401 3010 {1 "10"} -12000.00
+        const periodBalance = parsePeriodBalance(parsed, lineNumber, this.reporter);
+        if (periodBalance) this.emit({ type: 'periodBalance', periodBalance });
+        else this.reporter.report.skippedBalances++;
+        break;
+      }
+
+      case 'PBUDGET': {
+        const periodBudget = parsePeriodBalance(parsed, lineNumber, this.reporter);
+        if (periodBudget) this.emit({ type: 'periodBudget', periodBudget });
+        else this.reporter.report.skippedBalances++;
+        break;
+      }
+
+      case 'BUDGET': {
+        // Full-year budget: #BUDGET 0 3010 -500000.00
+        if (!parts[0] || !parts[1]) {
+          this.reporter.error('missing_field', '#BUDGET needs a year and an account', lineNumber, parsed.labelColumn);
+          this.reporter.report.skippedBalances++;
+          break;
+        }
+        const amount = readAmount(parsed, 2, lineNumber, this.reporter);
+        if (amount === null) {
+          this.reporter.report.skippedBalances++;
+          break;
+        }
+        this.emit({
+          type: 'budget',
+          budget: {
             accountNumber: parts[1],
-            balanceType: 'UB',
             yearIndex: parseInt(parts[0], 10),
-            amount: parseAmount(parts[2]),
-            quantity: parts[3] ? parseAmount(parts[3]) : undefined,
+            amount,
+            quantity: readQuantity(parsed, 3, lineNumber, this.reporter),
+          },
+        });
+        break;
+      }
+
+      case 'DIM':
+        // #DIM 1 "Kostnadsställe"
+        if (parts[0]) {
+          this.addDefinition({
+            dimensionType: parseInt(parts[0], 10),
+            name: parts[1] || parts[0],
           });
         }
         break;
 
-      case 'RES':
-        if (parts[0] && parts[1] && parts[2]) {
-          balances.push({
-            accountNumber: parts[1],
-            balanceType: 'RES',
-            yearIndex: parseInt(parts[0], 10),
-            amount: parseAmount(parts[2]),
-            quantity: parts[3] ? parseAmount(parts[3]) : undefined,
+      case 'UNDERDIM':
+        // Subdimension: #UNDERDIM 21 "Delprojekt" 6
+        if (parts[0] && parts[2]) {
+          this.addDefinition({
+            dimensionType: parseInt(parts[0], 10),
+            name: parts[1] || parts[0],
+            parentDimensionType: parseInt(parts[2], 10),
           });
         }
         break;
 
       case 'OBJEKT':
         if (parts[0] && parts[1]) {
-          dimensions.push({
+          const dimension: SIEDimension = {
             dimensionType: parseInt(parts[0], 10),
             code: parts[1],
             name: parts[2] || parts[1],
-          });
+          };
+          if (this.headerEmitted) this.emit({ type: 'dimension', dimension });
+          else this.pendingDimensions.push(dimension);
         }
         break;
 
-      case 'VER': {
-        const verSeries = parts[0] || '';
-        const verNumber = parts[1] || '';
-        const verDate = parts[2] || '';
-        const verText = parts[3] || '';
-        const verRegistrationDate = parts[4] || undefined;
-
-        const { endIndex, transactions: verTrans } =
-          parseVerificationBlock(
-            lines,
-            i,
-            verText,
-            verDate,
-            verSeries,
-            verNumber,
-            verRegistrationDate,
-          );
-
-        transactions.push(...verTrans);
-        i = endIndex;
+      case 'VER':
+        // Transactions follow in a { } block on the next lines
+        this.verification = {
+          header: {
+            series: parts[0] || '',
+            number: parts[1] || '',
+            date: parts[2] || '',
+            text: parts[3] || '',
+            registrationDate: parts[4] || undefined,
+          },
+          name: `${parts[0] || ''} ${parts[1] || ''}`.trim(),
+          line: lineNumber,
+          column: firstColumn(line),
+        };
         break;
-      }
+
+      case 'TRANS':
+        this.reporter.error(
+          'transaction_outside_verification',
+          '#TRANS outside a verification block',
+          lineNumber,
+          parsed.labelColumn,
+        );
+        this.reporter.report.skippedTransactions++;
+        break;
+
+      case 'RTRANS':
+      case 'BTRANS':
+        break;
+
+      default:
+        if (!IGNORED_LABELS.has(label)) {
+          this.reporter.warning('unknown_label', `Unknown label #${label}`, lineNumber, parsed.labelColumn);
+        }
     }
   }
 
-  // Update accounts with SRU codes that were parsed after KONTO lines
-  for (const account of accounts) {
-    if (!account.taxCode && accountTaxCodes.has(account.accountNumber)) {
-      account.taxCode = accountTaxCodes.get(account.accountNumber);
+  private addDefinition(dimensionDefinition: SIEDimensionDefinition): void {
+    if (this.headerEmitted) this.emit({ type: 'dimensionDefinition', dimensionDefinition });
+    else this.pendingDefinitions.push(dimensionDefinition);
+  }
+}
+
+/**
+ * Folds records into a `SIEParseResult`. Re-emitted accounts replace the
+ * earlier record for the same account number.
+ */
+export function createSIECollector(options?: { keepTransactions?: boolean }) {
+  const keepTransactions = options?.keepTransactions ?? true;
+  const result: SIEParseResult = {
+    metadata: {
+      companyName: 'Okänd',
+      currency: 'SEK',
+      generatedDate: null,
+      sieType: null,
+      fiscalYearStart: null,
+      fiscalYearEnd: null,
+    },
+    accounts: [],
+    dimensions: [],
+    dimensionDefinitions: [],
+    transactions: [],
+    balances: [],
+    periodBalances: [],
+    periodBudgets: [],
+    budgets: [],
+  };
+  const accountIndexes = new Map<string, number>();
+  let transactionCount = 0;
+
+  const add = (record: SIERecord): void => {
+    switch (record.type) {
+      case 'metadata':
+        result.metadata = record.metadata;
+        break;
+      case 'account': {
+        const index = accountIndexes.get(record.account.accountNumber);
+        if (index !== undefined && result.accounts[index] === record.account) break;
+        accountIndexes.set(record.account.accountNumber, result.accounts.length);
+        result.accounts.push(record.account);
+        break;
+      }
+      case 'dimensionDefinition':
+        result.dimensionDefinitions.push(record.dimensionDefinition);
+        break;
+      case 'dimension':
+        result.dimensions.push(record.dimension);
+        break;
+      case 'balance':
+        result.balances.push(record.balance);
+        break;
+      case 'periodBalance':
+        result.periodBalances.push(record.periodBalance);
+        break;
+      case 'periodBudget':
+        result.periodBudgets.push(record.periodBudget);
+        break;
+      case 'budget':
+        result.budgets.push(record.budget);
+        break;
+      case 'transaction':
+        transactionCount++;
+        if (keepTransactions) result.transactions.push(record.transaction);
+        break;
     }
+  };
+
+  return { result, add, transactionCount: () => transactionCount };
+}
+
+/**
+ * Parse SIE file content string into structured data.
+ *
+ * Content should already be decoded to a UTF-8 string before calling
+ * this function — use `decodeSIEBuffer()` from `./encoding.ts` first.
+ * For files too large to hold in memory, see `parseSIEStream()`.
+ */
+export function parseSIE(content: string, options?: ParseSIEOptions): SIEParseResult {
+  const mode = options?.mode ?? 'lenient';
+  const collector = createSIECollector();
+  const reader = new SIELineReader(mode, collector.add);
+
+  // Normalize CRLF to LF for consistent parsing
+  for (const line of content.replace(/\r\n/g, '\n').split('\n')) {
+    reader.push(line);
   }
+  reader.end();
 
-  return { metadata, accounts, dimensions, transactions, balances };
+  const { result } = collector;
+  if (mode === 'tolerant') {
+    result.parseReport = reader.report;
+  }
+  return result;
 }
@@ -0,0 +1,180 @@
+/**
+ * Minimal PDF writer for tabular reports.
+ *
+ * Lays out a title and a table over as many A4 landscape pages as needed,
+ * repeating the column headers on every page. Text is set in the standard
+ * Helvetica fonts with WinAnsi encoding, which covers Swedish characters;
+ * characters outside Windows-1252 print as "?". No fonts are embedded, so
+ * the output stays small and needs no dependencies beyond iconv-lite.
+ */
+import * as iconv from 'iconv-lite';
+
+export interface PDFColumn {
+  header: string;
+  /** Relative width; the columns are scaled to the page */
+  width: number;
+  align?: 'left' | 'right';
+}
+
+export interface PDFRow {
+  cells: string[];
+  bold?: boolean;
+  /** Let the first cell run across all columns, e.g. for a section heading */
+  span?: boolean;
+}
+
+export interface PDFTable {
+  title: string;
+  subtitle?: string;
+  columns: PDFColumn[];
+  rows: PDFRow[];
+}
+
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const MARGIN = 36;
+const FONT_SIZE = 8;
+const LINE_HEIGHT = 11;
+const CELL_PADDING = 4;
+
+/** Helvetica advance widths in 1/1000 em; other characters use the average */
+const GLYPH_WIDTHS: Record<string, number> = {
+  ' ': 278, ',': 278, '.': 278, '-': 333, ':': 278, '/': 278, '(': 333, ')': 333,
+  '0': 556, '1': 556, '2': 556, '3': 556, '4': 556, '5': 556, '6': 556, '7': 556, '8': 556, '9': 556,
+  i: 222, j: 222, l: 222, f: 278, t: 278, r: 333, I: 278, m: 833, w: 722, M: 833, W: 944,
+};
+const AVERAGE_GLYPH_WIDTH = 556;
+
+function textWidth(text: string, size: number): number {
+  let units = 0;
+  for (const char of text) units += GLYPH_WIDTHS[char] ?? AVERAGE_GLYPH_WIDTH;
+  return (units * size) / 1000;
+}
+
+/** Cut text to fit a width, marking the cut with an ellipsis */
+function fit(text: string, width: number, size: number): string {
+  if (textWidth(text, size) <= width) return text;
+  let cut = text;
+  while (cut.length > 0 && textWidth(`${cut}...`, size) > width) cut = cut.slice(0, -1);
+  return `${cut}...`;
+}
+
+function escapeText(text: string): string {
+  return text.replace(/[\\()]/g, (char) => `\\${char}`).replace(/[\r\n\t]/g, ' ');
+}
+
+function showText(text: string, x: number, y: number, size: number, bold = false): string {
+  return `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${escapeText(text)}) Tj ET`;
+}
+
+function line(x1: number, y1: number, x2: number, y2: number): string {
+  return `${x1.toFixed(2)} ${y1.toFixed(2)} m ${x2.toFixed(2)} ${y2.toFixed(2)} l S`;
+}
+
+/** Content streams of each page, without the page footer */
+function layoutPages(table: PDFTable): string[][] {
+  const usable = PAGE_WIDTH - 2 * MARGIN;
+  const totalWidth = table.columns.reduce((sum, c) => sum + c.width, 0);
+  const widths = table.columns.map((c) => (c.width / totalWidth) * usable);
+  const offsets = widths.map((_, i) => MARGIN + widths.slice(0, i).reduce((sum, w) => sum + w, 0));
+
+  const cellText = (text: string, column: number, y: number, bold: boolean): string => {
+    const width = widths[column]! - 2 * CELL_PADDING;
+    const fitted = fit(text, width, FONT_SIZE);
+    const x =
+      table.columns[column]!.align === 'right'
+        ? offsets[column]! + widths[column]! - CELL_PADDING - textWidth(fitted, FONT_SIZE)
+        : offsets[column]! + CELL_PADDING;
+    return showText(fitted, x, y, FONT_SIZE, bold);
+  };
+
+  const pages: string[][] = [];
+  let page: string[] = [];
+  let y = 0;
+
+  const startPage = () => {
+    page = [];
+    pages.push(page);
+    y = PAGE_HEIGHT - MARGIN - 14;
+    page.push(showText(table.title, MARGIN, y, 14, true));
+    if (table.subtitle) {
+      y -= 14;
+      page.push(showText(table.subtitle, MARGIN, y, 9));
+    }
+    y -= 20;
+    table.columns.forEach((column, i) => page.push(cellText(column.header, i, y, true)));
+    page.push(line(MARGIN, y - 3, PAGE_WIDTH - MARGIN, y - 3));
+    y -= LINE_HEIGHT + 2;
+  };
+
+  startPage();
+  for (const row of table.rows) {
+    // Leave room for the footer
+    if (y < MARGIN + 2 * LINE_HEIGHT) startPage();
+    if (row.span) {
+      page.push(showText(fit(row.cells[0] ?? '', usable - 2 * CELL_PADDING, FONT_SIZE), MARGIN + CELL_PADDING, y, FONT_SIZE, row.bold));
+    } else {
+      row.cells.forEach((cell, i) => {
+        if (cell !== '' && i < table.columns.length) page.push(cellText(cell, i, y, row.bold ?? false));
+      });
+    }
+    y -= LINE_HEIGHT;
+  }
+  return pages;
+}
+
+/**
+ * Render a table as a PDF document.
+ *
+ * @returns The PDF file
+ */
+export function renderPDFTable(table: PDFTable): Buffer {
+  const pages = layoutPages(table);
+  const encode = (text: string) => iconv.encode(text, 'win1252');
+
+  // Objects 1-4 are fixed; each page adds a page object and its content stream
+  const objects: Buffer[] = [
+    encode('<< /Type /Catalog /Pages 2 0 R >>'),
+    encode(`<< /Type /Pages /Kids [${pages.map((_, i) => `${5 + 2 * i} 0 R`).join(' ')}] /Count ${pages.length} >>`),
+    encode('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'),
+    encode('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'),
+  ];
+  pages.forEach((content, i) => {
+    const footer = `Page ${i + 1} of ${pages.length}`;
+    const stream = encode(
+      [...content, showText(footer, PAGE_WIDTH - MARGIN - textWidth(footer, FONT_SIZE), MARGIN - 12, FONT_SIZE)].join('\n'),
+    );
+    objects.push(
+      encode(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + 2 * i} 0 R >>`,
+      ),
+      Buffer.concat([encode(`<< /Length ${stream.length} >>\nstream\n`), stream, encode('\nendstream')]),
+    );
+  });
+
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  let length = chunks[0]!.length;
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(length);
+    const chunk = Buffer.concat([encode(`${i + 1} 0 obj\n`), body, encode('\nendobj\n')]);
+    chunks.push(chunk);
+    length += chunk.length;
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+    'startxref',
+    String(length),
+    '%%EOF',
+    '',
+  ].join('\n');
+  chunks.push(encode(xref));
+  return Buffer.concat(chunks);
+}
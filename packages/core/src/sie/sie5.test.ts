@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest';
+import { parseSIE } from './parser.js';
+import { parseSIE5, isSIE5Content, SIE5ParseError } from './sie5.js';
+import { writeSIE } from './writer.js';
+import { calculateKPIs } from './kpi.js';
+
+const SIE5 = `<?xml version="1.0" encoding="UTF-8"?>
+<Sie xmlns="http://www.sie.se/sie5" xmlns:ds="http://www.w3.org/2000/09/xmldsig#">
+  <FileInfo>
+    <SoftwareProduct name="Exempelbokföring" version="5.1"/>
+    <FileCreation time="2025-02-10T08:30:00Z" by="Anna"/>
+    <Company organizationId="556677-8899" name="Smedjan &amp; Söner AB"/>
+    <FiscalYears>
+      <FiscalYear start="2023-01" end="2023-12" closed="true"/>
+      <FiscalYear start="2024-01" end="2024-12" primary="true"/>
+    </FiscalYears>
+    <AccountingCurrency currency="SEK"/>
+  </FileInfo>
+  <Accounts>
+    <Account id="1930" name="Företagskonto" type="asset">
+      <OpeningBalance month="2024-01" amount="50000.00"/>
+      <ClosingBalance month="2023-12" amount="50000.00"/>
+      <ClosingBalance month="2024-01" amount="150000.00"/>
+      <ClosingBalance month="2024-12" amount="150000.00"/>
+    </Account>
+    <Account id="2081" name="Aktiekapital" type="equity">
+      <OpeningBalance month="2024-01" amount="-50000.00"/>
+      <ClosingBalance month="2024-12" amount="-50000.00"/>
+    </Account>
+    <Account id="2099" name="Årets resultat" type="equity">
+      <ClosingBalance month="2024-12" amount="-100000.00"/>
+    </Account>
+    <Account id="3010" name="Försäljning" type="income">
+      <ClosingBalance month="2024-01" amount="-100000.00"/>
+      <ClosingBalance month="2024-02" amount="-100000.00">
+        <ObjectReference dimId="1" objectId="10"/>
+      </ClosingBalance>
+      <ClosingBalance month="2024-12" amount="-100000.00"/>
+      <Budget month="2024-01" amount="-90000.00"/>
+    </Account>
+  </Accounts>
+  <Dimensions>
+    <Dimension id="1" name="Kostnadsställe">
+      <Object id="10" name="Väst"/>
+    </Dimension>
+  </Dimensions>
+  <Journal id="A" name="Kundfakturor">
+    <JournalEntry id="1" journalDate="2024-01-15" text="Faktura 1001">
+      <EntryInfo date="2024-01-16" by="Anna"/>
+      <LedgerEntry account="1930" amount="100000.00"/>
+      <LedgerEntry account="3010" amount="-100000.00" text="Smide" quantity="4">
+        <ObjectReference dimId="1" objectId="10"/>
+      </LedgerEntry>
+      <LedgerEntry account="3010" amount="-5000.00">
+        <Overstrike date="2024-01-16" by="Anna"/>
+      </LedgerEntry>
+    </JournalEntry>
+  </Journal>
+  <ds:Signature>
+    <ds:SignedInfo>
+      <ds:SignatureMethod Algorithm="http://www.w3.org/2001/04/xmldsig-more#rsa-sha256"/>
+    </ds:SignedInfo>
+    <ds:SignatureValue>c2lnbmF0dXJl</ds:SignatureValue>
+    <ds:KeyInfo>
+      <ds:X509Data>
+        <ds:X509SubjectName>CN=Exempelbokföring</ds:X509SubjectName>
+        <ds:X509Certificate>Y2VydGlmaWNhdGU=</ds:X509Certificate>
+      </ds:X509Data>
+    </ds:KeyInfo>
+  </ds:Signature>
+</Sie>
+`;
+
+describe('parseSIE5', () => {
+  it('reads file info into metadata', () => {
+    expect(parseSIE5(SIE5).metadata).toEqual({
+      companyName: 'Smedjan & Söner AB',
+      currency: 'SEK',
+      generatedDate: '2025-02-10',
+      sieType: '5',
+      fiscalYearStart: '2024-01-01',
+      fiscalYearEnd: '2024-12-31',
+      orgNumber: '556677-8899',
+      signatures: [
+        {
+          signatureMethod: 'http://www.w3.org/2001/04/xmldsig-more#rsa-sha256',
+          subjectName: 'CN=Exempelbokföring',
+          hasCertificate: true,
+        },
+      ],
+    });
+  });
+
+  it('maps opening and closing balances to IB, UB and RES by fiscal year', () => {
+    const { balances } = parseSIE5(SIE5);
+    expect(balances.map((b) => [b.balanceType, b.yearIndex, b.accountNumber, b.amount])).toEqual([
+      ['IB', 0, '1930', 50000],
+      ['UB', -1, '1930', 50000],
+      ['UB', 0, '1930', 150000],
+      ['IB', 0, '2081', -50000],
+      ['UB', 0, '2081', -50000],
+      ['UB', 0, '2099', -100000],
+      ['RES', 0, '3010', -100000],
+    ]);
+  });
+
+  it('turns monthly closing balances of result accounts into period changes', () => {
+    const periods = parseSIE5(SIE5).periodBalances.filter((b) => b.accountNumber === '3010');
+    expect(periods.map((b) => [b.period, b.objects.length, b.amount])).toEqual([
+      ['202401', 0, -100000],
+      ['202402', 1, -100000],
+      ['202412', 0, 0],
+    ]);
+    expect(parseSIE5(SIE5).periodBudgets).toEqual([
+      { accountNumber: '3010', yearIndex: 0, period: '202401', objects: [], amount: -90000, quantity: undefined },
+    ]);
+  });
+
+  it('reads journal entries as transactions and skips struck-out rows', () => {
+    const { transactions } = parseSIE5(SIE5);
+    expect(transactions).toHaveLength(2);
+    expect(transactions[1]).toEqual({
+      verificationSeries: 'A',
+      verificationNumber: '1',
+      verificationDate: '20240115',
+      verificationText: 'Faktura 1001',
+      accountNumber: '3010',
+      amount: -100000,
+      costCenter: '10',
+      project: '',
+      objects: [{ dimensionType: 1, code: '10' }],
+      rowText: 'Smide',
+      quantity: 4,
+      registrationDate: '20240116',
+    });
+  });
+
+  it('reads dimensions and objects', () => {
+    const result = parseSIE5(SIE5);
+    expect(result.dimensionDefinitions).toEqual([{ dimensionType: 1, name: 'Kostnadsställe' }]);
+    expect(result.dimensions).toEqual([{ dimensionType: 1, code: '10', name: 'Väst' }]);
+  });
+
+  it('gives the same KPIs as the equivalent SIE 4 file', () => {
+    const parsed = parseSIE5(SIE5);
+    const sie4 = parseSIE(writeSIE(parsed));
+    expect(sie4.metadata.sieType).toBe('4');
+    expect(calculateKPIs(parsed)).toEqual(calculateKPIs(sie4));
+    expect(calculateKPIs(parsed).netSales).toBe(100000);
+  });
+
+  it('rejects malformed XML with its position', () => {
+    const broken = SIE5.replace('</Accounts>', '</Account>');
+    expect(() => parseSIE5(broken)).toThrow(SIE5ParseError);
+    expect(() => parseSIE5(broken)).toThrow('Expected </Accounts> but found </Account> (line 35, column 3)');
+  });
+
+  it('rejects character references outside the XML character range', () => {
+    const broken = SIE5.replace('Smedjan &amp; Söner AB', 'Smedjan &#99999999; Söner AB');
+    expect(() => parseSIE5(broken)).toThrow(SIE5ParseError);
+    expect(() => parseSIE5(broken)).toThrow('Invalid character reference &#99999999; (line 6, column 57)');
+    expect(() => parseSIE5(SIE5.replace('&amp;', '&#x0;'))).toThrow(SIE5ParseError);
+  });
+
+  it('rejects deeply nested elements instead of overflowing the stack', () => {
+    const nested = `<Sie>${'<a>'.repeat(20_000)}${'</a>'.repeat(20_000)}</Sie>`;
+    expect(() => parseSIE5(nested)).toThrow(SIE5ParseError);
+    expect(() => parseSIE5(nested)).toThrow('Elements nested deeper than 256 levels');
+  });
+
+  it('rejects other XML documents', () => {
+    expect(() => parseSIE5('<html><body/></html>')).toThrow('Expected a <Sie> or <SieEntry> root element');
+  });
+
+  it('rejects unreadable amounts', () => {
+    expect(() => parseSIE5(SIE5.replace('amount="100000.00"', 'amount="100 000,00"'))).toThrow(
+      'Invalid amount "100 000,00" on <LedgerEntry>',
+    );
+  });
+});
+
+describe('isSIE5Content', () => {
+  it('tells SIE 5 XML from tagged text', () => {
+    expect(isSIE5Content(SIE5)).toBe(true);
+    expect(isSIE5Content('\uFEFF<SieEntry xmlns="http://www.sie.se/sie5">')).toBe(true);
+    expect(isSIE5Content('#FLAGGA 0\n#SIETYP 4\n')).toBe(false);
+    expect(isSIE5Content('<html></html>')).toBe(false);
+  });
+});
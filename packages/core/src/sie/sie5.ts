@@ -0,0 +1,318 @@
+/**
+ * SIE 5 (XML) parser.
+ *
+ * Maps `<Sie>` and `<SieEntry>` documents onto the same `SIEParseResult` as
+ * the tagged-text formats, so KPIs, validation of balances and the writer
+ * work the same for both:
+ * - `<Account>` → accounts; its opening balance for the first month of a
+ *   fiscal year → #IB, its closing balance for the last month → #UB or #RES
+ * - monthly `<ClosingBalance>` and `<Budget>` → period balances and budgets
+ * - `<Dimension>`/`<Object>` → dimension definitions and objects
+ * - `<Journal>`/`<JournalEntry>`/`<LedgerEntry>` → transactions, with the
+ *   journal id as verification series
+ * - `<ds:Signature>` → `metadata.signatures`, unverified
+ */
+import type {
+  SIEMetadata,
+  SIEAccount,
+  SIEBalance,
+  SIEObjectReference,
+  SIEPeriodBalance,
+  SIEParseResult,
+  SIESignature,
+  SIETransaction,
+} from '../types/sie.js';
+import { getAccountGroup } from './parser.js';
+import { parseXml, childElement, childElements, XmlParseError, type XmlElement } from './xml.js';
+
+const ROOT_ELEMENTS = new Set(['Sie', 'SieEntry']);
+
+/** SIE 5 account types whose balances carry over between years */
+const BALANCE_ACCOUNT_TYPES = new Set(['asset', 'liability', 'equity']);
+
+/**
+ * Thrown by `parseSIE5()` for content that is not well-formed XML or not a
+ * SIE 5 document.
+ */
+export class SIE5ParseError extends Error {
+  constructor(
+    message: string,
+    public readonly line?: number,
+    public readonly column?: number,
+  ) {
+    super(line !== undefined ? `${message} (line ${line}, column ${column})` : message);
+    this.name = 'SIE5ParseError';
+  }
+}
+
+interface FiscalYear {
+  /** YYYY-MM */
+  start: string;
+  end: string;
+  yearIndex: number;
+}
+
+/**
+ * Whether decoded content is a SIE 5 XML document rather than tagged text.
+ */
+export function isSIE5Content(content: string): boolean {
+  return /^\uFEFF?\s*(<\?xml[^>]*\?>\s*)?(<!--[\s\S]*?-->\s*)*<(\w+:)?Sie(Entry)?[\s>]/.test(content);
+}
+
+function parseAmount(element: XmlElement, attribute: string): number {
+  const value = element.attributes[attribute];
+  const amount = value === undefined ? NaN : Number(value);
+  if (!Number.isFinite(amount)) {
+    throw new SIE5ParseError(
+      `Invalid ${attribute} "${value ?? ''}" on <${element.name}>`,
+      element.line,
+      element.column,
+    );
+  }
+  return Object.is(amount, -0) ? 0 : amount;
+}
+
+function parseQuantity(element: XmlElement): number | undefined {
+  return element.attributes['quantity'] !== undefined ? parseAmount(element, 'quantity') : undefined;
+}
+
+function objectReferences(element: XmlElement): SIEObjectReference[] {
+  return childElements(element, 'ObjectReference').map((reference) => ({
+    dimensionType: parseInt(reference.attributes['dimId'] ?? '', 10),
+    code: reference.attributes['objectId'] ?? '',
+  }));
+}
+
+/** YYYY-MM → YYYYMM */
+function compactMonth(month: string): string {
+  return month.replace('-', '');
+}
+
+/** Last day of a YYYY-MM month as YYYY-MM-DD */
+function monthEnd(month: string): string {
+  const [year, monthNumber] = month.split('-').map(Number) as [number, number];
+  const day = new Date(Date.UTC(year, monthNumber, 0)).getUTCDate();
+  return `${month}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Index the fiscal years relative to the primary one, which is year 0. Files
+ * that mark none take the latest.
+ */
+function readFiscalYears(fileInfo: XmlElement | undefined): FiscalYear[] {
+  const elements = fileInfo ? childElements(childElement(fileInfo, 'FiscalYears') ?? fileInfo, 'FiscalYear') : [];
+  const years = elements
+    .map((element) => ({
+      start: element.attributes['start'] ?? '',
+      end: element.attributes['end'] ?? '',
+      primary: element.attributes['primary'] === 'true',
+    }))
+    .filter((year) => /^\d{4}-\d{2}$/.test(year.start) && /^\d{4}-\d{2}$/.test(year.end))
+    .sort((a, b) => a.start.localeCompare(b.start));
+
+  const primary = years.findIndex((year) => year.primary);
+  const current = primary >= 0 ? primary : years.length - 1;
+  return years.map((year, i) => ({ start: year.start, end: year.end, yearIndex: i - current }));
+}
+
+function findFiscalYear(years: FiscalYear[], month: string): FiscalYear | undefined {
+  return years.find((year) => month >= year.start && month <= year.end);
+}
+
+function readSignatures(root: XmlElement): SIESignature[] {
+  return childElements(root, 'Signature').map((signature) => {
+    const signedInfo = childElement(signature, 'SignedInfo');
+    const x509 = childElement(childElement(signature, 'KeyInfo') ?? signature, 'X509Data');
+    const subjectName = x509 ? childElement(x509, 'X509SubjectName')?.text : undefined;
+    return {
+      signatureMethod: signedInfo ? childElement(signedInfo, 'SignatureMethod')?.attributes['Algorithm'] : undefined,
+      subjectName: subjectName || undefined,
+      hasCertificate: !!x509 && !!childElement(x509, 'X509Certificate')?.text,
+    };
+  });
+}
+
+function readMetadata(root: XmlElement, years: FiscalYear[]): SIEMetadata {
+  const fileInfo = childElement(root, 'FileInfo');
+  const company = fileInfo ? childElement(fileInfo, 'Company') : undefined;
+  const creation = fileInfo ? childElement(fileInfo, 'FileCreation') : undefined;
+  const currency = fileInfo ? childElement(fileInfo, 'AccountingCurrency') : undefined;
+  const current = years.find((year) => year.yearIndex === 0);
+  const signatures = readSignatures(root);
+
+  return {
+    companyName: company?.attributes['name'] || 'Okänd',
+    currency: currency?.attributes['currency'] || 'SEK',
+    generatedDate: creation?.attributes['time']?.slice(0, 10) || null,
+    sieType: '5',
+    fiscalYearStart: current ? `${current.start}-01` : null,
+    fiscalYearEnd: current ? monthEnd(current.end) : null,
+    orgNumber: company?.attributes['organizationId'] || undefined,
+    signatures: signatures.length > 0 ? signatures : undefined,
+  };
+}
+
+/**
+ * Parse a SIE 5 XML document into structured data.
+ *
+ * Monthly closing balances become period balances the way #PSALDO is
+ * written: the balance at month end for balance accounts, and the month's
+ * change for result accounts. Ledger entries marked with `<Overstrike>` are
+ * left out, like #BTRANS rows.
+ *
+ * @throws SIE5ParseError if the content is not a well-formed SIE 5 document
+ */
+export function parseSIE5(content: string): SIEParseResult {
+  let root: XmlElement;
+  try {
+    root = parseXml(content);
+  } catch (err) {
+    if (err instanceof XmlParseError) {
+      throw new SIE5ParseError(err.reason, err.line, err.column);
+    }
+    throw err;
+  }
+  if (!ROOT_ELEMENTS.has(root.name)) {
+    throw new SIE5ParseError(`Expected a <Sie> or <SieEntry> root element, found <${root.name}>`, root.line, root.column);
+  }
+
+  const years = readFiscalYears(childElement(root, 'FileInfo'));
+  const result: SIEParseResult = {
+    metadata: readMetadata(root, years),
+    accounts: [],
+    dimensions: [],
+    dimensionDefinitions: [],
+    transactions: [],
+    balances: [],
+    periodBalances: [],
+    periodBudgets: [],
+    budgets: [],
+  };
+
+  for (const element of childElements(childElement(root, 'Accounts') ?? root, 'Account')) {
+    const accountNumber = element.attributes['id'];
+    if (!accountNumber) {
+      throw new SIE5ParseError('<Account> has no id', element.line, element.column);
+    }
+    const account: SIEAccount = {
+      accountNumber,
+      accountName: element.attributes['name'] ?? '',
+      accountGroup: getAccountGroup(accountNumber),
+    };
+    result.accounts.push(account);
+
+    const type = element.attributes['type'];
+    const isBalanceAccount = type ? BALANCE_ACCOUNT_TYPES.has(type) : /^[12]/.test(accountNumber);
+    if (type === 'statistics') continue;
+
+    for (const opening of childElements(element, 'OpeningBalance')) {
+      const year = findFiscalYear(years, opening.attributes['month'] ?? '');
+      if (!year || opening.attributes['month'] !== year.start || objectReferences(opening).length > 0) continue;
+      result.balances.push({
+        accountNumber,
+        balanceType: 'IB',
+        yearIndex: year.yearIndex,
+        amount: parseAmount(opening, 'amount'),
+        quantity: parseQuantity(opening),
+      });
+    }
+
+    // Result accounts restart at zero each fiscal year
+    const previousClosing = new Map<string, number>();
+    const closings = childElements(element, 'ClosingBalance').sort((a, b) =>
+      (a.attributes['month'] ?? '').localeCompare(b.attributes['month'] ?? ''),
+    );
+    for (const closing of closings) {
+      const month = closing.attributes['month'] ?? '';
+      const year = findFiscalYear(years, month);
+      if (!year) continue;
+      const objects = objectReferences(closing);
+      const amount = parseAmount(closing, 'amount');
+      const quantity = parseQuantity(closing);
+
+      if (month === year.end && objects.length === 0) {
+        const balance: SIEBalance = {
+          accountNumber,
+          balanceType: isBalanceAccount ? 'UB' : 'RES',
+          yearIndex: year.yearIndex,
+          amount,
+          quantity,
+        };
+        result.balances.push(balance);
+      }
+
+      const key = `${year.yearIndex}:${objects.map((o) => `${o.dimensionType}/${o.code}`).join(',')}`;
+      const periodBalance: SIEPeriodBalance = {
+        accountNumber,
+        yearIndex: year.yearIndex,
+        period: compactMonth(month),
+        objects,
+        amount: isBalanceAccount ? amount : amount - (previousClosing.get(key) ?? 0),
+        quantity,
+      };
+      previousClosing.set(key, amount);
+      result.periodBalances.push(periodBalance);
+    }
+
+    for (const budget of childElements(element, 'Budget')) {
+      const month = budget.attributes['month'] ?? '';
+      const year = findFiscalYear(years, month);
+      if (!year) continue;
+      result.periodBudgets.push({
+        accountNumber,
+        yearIndex: year.yearIndex,
+        period: compactMonth(month),
+        objects: objectReferences(budget),
+        amount: parseAmount(budget, 'amount'),
+        quantity: parseQuantity(budget),
+      });
+    }
+  }
+
+  for (const dimension of childElements(childElement(root, 'Dimensions') ?? root, 'Dimension')) {
+    const dimensionType = parseInt(dimension.attributes['id'] ?? '', 10);
+    if (Number.isNaN(dimensionType)) {
+      throw new SIE5ParseError('<Dimension> needs a numeric id', dimension.line, dimension.column);
+    }
+    result.dimensionDefinitions.push({ dimensionType, name: dimension.attributes['name'] || String(dimensionType) });
+    for (const object of childElements(dimension, 'Object')) {
+      const code = object.attributes['id'] ?? '';
+      result.dimensions.push({ dimensionType, code, name: object.attributes['name'] || code });
+    }
+  }
+
+  for (const journal of childElements(root, 'Journal')) {
+    const series = journal.attributes['id'] ?? '';
+    for (const entry of childElements(journal, 'JournalEntry')) {
+      const entryInfo = childElement(entry, 'EntryInfo');
+      const registrationDate = entryInfo?.attributes['date']?.slice(0, 10).replace(/-/g, '');
+
+      for (const ledgerEntry of childElements(entry, 'LedgerEntry')) {
+        if (childElement(ledgerEntry, 'Overstrike')) continue;
+        const accountNumber = ledgerEntry.attributes['account'];
+        if (!accountNumber) {
+          throw new SIE5ParseError('<LedgerEntry> has no account', ledgerEntry.line, ledgerEntry.column);
+        }
+        const objects = objectReferences(ledgerEntry);
+        const transaction: SIETransaction = {
+          verificationSeries: series,
+          verificationNumber: entry.attributes['id'] ?? '',
+          verificationDate: (entry.attributes['journalDate'] ?? '').replace(/-/g, ''),
+          verificationText: entry.attributes['text'] ?? '',
+          accountNumber,
+          amount: parseAmount(ledgerEntry, 'amount'),
+          // Cost center and project are the standard dimensions 1 and 6
+          costCenter: objects.find((o) => o.dimensionType === 1)?.code ?? '',
+          project: objects.find((o) => o.dimensionType === 6)?.code ?? '',
+          objects,
+          rowText: ledgerEntry.attributes['text'] ?? '',
+          quantity: parseQuantity(ledgerEntry),
+          registrationDate: registrationDate || undefined,
+        };
+        result.transactions.push(transaction);
+      }
+    }
+  }
+
+  return result;
+}
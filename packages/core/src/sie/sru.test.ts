@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import { parseSIE } from './parser.js';
+import { calculateSRUDeclaration, writeSRUFiles, SRUExportError } from './sru.js';
+
+const SIE = parseSIE([
+  '#FLAGGA 0',
+  '#SIETYP 4',
+  '#FNAMN "Exempel AB"',
+  '#ORGNR 556677-8899',
+  '#RAR 0 20230701 20240630',
+  '#KONTO 1220 "Inventarier"',
+  '#KONTO 1510 "Kundfordringar"',
+  '#KONTO 1680 "Andra kortfristiga fordringar"',
+  '#KONTO 1930 "Företagskonto"',
+  '#KONTO 2081 "Aktiekapital"',
+  '#KONTO 2091 "Balanserad vinst eller förlust"',
+  '#KONTO 2440 "Leverantörsskulder"',
+  '#KONTO 3010 "Försäljning"',
+  '#KONTO 4010 "Inköp material och varor"',
+  '#KONTO 5010 "Lokalhyra"',
+  '#KONTO 6072 "Representation, ej avdragsgill"',
+  '#KONTO 8070 "Resultat vid försäljning av andelar i koncernföretag"',
+  '#KONTO 8910 "Skatt som belastar årets resultat"',
+  '#SRU 1220 7365',
+  '#SRU 1510 7251',
+  '#SRU 1680 7999',
+  '#SRU 1930 7281',
+  '#SRU 2081 7301',
+  '#SRU 2091 7302',
+  '#SRU 2440 7365',
+  '#SRU 3010 7410',
+  '#SRU 5010 7513',
+  '#SRU 6072 7513',
+  '#SRU 8070 7414',
+  '#SRU 8910 7528',
+  '#UB 0 1220 5000.00',
+  '#UB 0 1510 16000.00',
+  '#UB 0 1680 2000.00',
+  '#UB 0 1930 150000.40',
+  '#UB 0 2081 -25000.00',
+  '#UB 0 2091 -50000.00',
+  '#UB 0 2440 -30000.00',
+  '#RES 0 3010 -200000.00',
+  '#RES 0 4010 48000.00',
+  '#RES 0 5010 60000.00',
+  '#RES 0 6072 2000.00',
+  '#RES 0 8070 1999.60',
+  '#RES 0 8910 20000.00',
+].join('\n'));
+
+describe('calculateSRUDeclaration', () => {
+  it('adds up year-end balances per INK2R field', () => {
+    const declaration = calculateSRUDeclaration(SIE);
+
+    expect(declaration).toMatchObject({
+      companyName: 'Exempel AB',
+      orgNumber: '556677-8899',
+      fiscalYearStart: '2023-07-01',
+      fiscalYearEnd: '2024-06-30',
+    });
+    expect(declaration.fields.filter((f) => f.form === 'INK2R').map((f) => [f.code, f.amount])).toEqual([
+      ['7251', 16000],
+      ['7281', 150000],
+      ['7301', 25000],
+      ['7302', 118000],
+      ['7365', 30000],
+      ['7410', 200000],
+      ['7450', 68000],
+      ['7513', 62000],
+      ['7518', 2000],
+      ['7528', 20000],
+    ]);
+    const equity = declaration.fields.find((f) => f.code === '7302')!;
+    expect(equity.contributions).toEqual([
+      { accountNumber: '2091', accountName: 'Balanserad vinst eller förlust', amount: -50000 },
+      { accountNumber: '8999', accountName: 'Årets resultat', amount: -68000.4 },
+    ]);
+  });
+
+  it('fills in INK2S from the result, booked tax and non-deductible costs', () => {
+    const declaration = calculateSRUDeclaration(SIE);
+
+    expect(declaration.fields.filter((f) => f.form === 'INK2S').map((f) => [f.code, f.amount])).toEqual([
+      ['7650', 68000],
+      ['7651', 20000],
+      ['7653', 2000],
+      ['7670', 90000],
+    ]);
+  });
+
+  it('reports accounts that could not be placed', () => {
+    const { issues } = calculateSRUDeclaration(SIE);
+
+    expect(issues.map((i) => [i.type, i.accountNumber, i.sruCode, i.amount])).toEqual([
+      ['class-mismatch', '1220', '7365', 5000],
+      ['unknown-code', '1680', '7999', 2000],
+      ['missing-code', '4010', undefined, 48000],
+    ]);
+  });
+
+  it('takes missing codes from the chart of accounts', () => {
+    const { fields, issues } = calculateSRUDeclaration(SIE, {
+      chartOfAccounts: [
+        { accountNumber: '4010', name: 'Inköp', active: true, sruCode: '7512' },
+        { accountNumber: '1930', name: 'Bank', active: true, sruCode: '7201' },
+      ],
+    });
+
+    expect(fields.find((f) => f.code === '7512')?.amount).toBe(48000);
+    // Codes in the SIE file win
+    expect(fields.find((f) => f.code === '7281')?.amount).toBe(150000);
+    expect(issues.map((i) => i.accountNumber)).toEqual(['1220', '1680']);
+  });
+
+  it('requires a fiscal year', () => {
+    expect(() => calculateSRUDeclaration(parseSIE('#FLAGGA 0\n#KONTO 1930 "Bank"'))).toThrow(SRUExportError);
+  });
+});
+
+describe('writeSRUFiles', () => {
+  it('writes INFO.SRU and BLANKETTER.SRU', () => {
+    const { info, blanketter } = writeSRUFiles(calculateSRUDeclaration(SIE), {
+      postalCode: '111 22',
+      city: 'Stockholm',
+      createdAt: new Date('2024-09-15T08:30:05Z'),
+    });
+
+    expect(info.split('\r\n')).toEqual([
+      '#DATABESKRIVNING_START',
+      '#PRODUKT SRU',
+      '#SKAPAD 20240915 083005',
+      '#PROGRAM arcim-sync',
+      '#FILNAMN BLANKETTER.SRU',
+      '#DATABESKRIVNING_SLUT',
+      '#MEDIELEV_START',
+      '#ORGNR 165566778899',
+      '#NAMN Exempel AB',
+      '#POSTNR 11122',
+      '#POSTORT Stockholm',
+      '#MEDIELEV_SLUT',
+      '',
+    ]);
+
+    const lines = blanketter.split('\r\n');
+    expect(lines.slice(0, 6)).toEqual([
+      '#BLANKETT INK2R-2024P2',
+      '#IDENTITET 165566778899 20240915 083005',
+      '#NAMN Exempel AB',
+      '#UPPGIFT 7011 20230701',
+      '#UPPGIFT 7012 20240630',
+      '#UPPGIFT 7251 16000',
+    ]);
+    expect(lines).toContain('#BLANKETT INK2S-2024P2');
+    expect(lines).toContain('#UPPGIFT 7670 90000');
+    expect(lines.filter((l) => l === '#BLANKETTSLUT')).toHaveLength(2);
+    expect(lines.at(-2)).toBe('#FIL_SLUT');
+  });
+
+  it('requires an organization number', () => {
+    const declaration = { ...calculateSRUDeclaration(SIE), orgNumber: undefined };
+    expect(() => writeSRUFiles(declaration, { postalCode: '11122', city: 'Stockholm' })).toThrow(SRUExportError);
+    expect(() => writeSRUFiles(declaration, { postalCode: '11122', city: 'Stockholm', orgNumber: '123' })).toThrow(
+      'Invalid organization number',
+    );
+  });
+});
@@ -0,0 +1,407 @@
+/**
+ * SRU export of the INK2 tax return (inkomstdeklaration 2).
+ *
+ * Every account carries an SRU code (#SRU in the SIE file, or `sruCode` in
+ * a provider's chart of accounts) naming the INK2R field its year-end
+ * balance belongs to. `calculateSRUDeclaration()` adds the balances up per
+ * field, fills in the INK2S fields that follow from the books, and reports
+ * accounts that could not be placed. `writeSRUFiles()` writes the INFO.SRU
+ * and BLANKETTER.SRU files that Skatteverket accepts as a file upload.
+ */
+import type { AccountingAccountDto } from '../types/dto/accounting-account.js';
+import type { SIEParseResult, SIESRUField, SIESRUIssue, SIESRUDeclaration } from '../types/sie.js';
+import { isInRange, type AccountRange } from './accounts.js';
+import { isoDate } from './format.js';
+
+export class SRUExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SRUExportError';
+  }
+}
+
+/** INK2R fields: balance sheet (72xx, 73xx) and income statement (74xx, 75xx) */
+const INK2R_FIELDS: Record<string, string> = {
+  '7201': 'Koncessioner, patent, licenser, varumärken, hyresrätter, goodwill och liknande rättigheter',
+  '7202': 'Förskott avseende immateriella anläggningstillgångar',
+  '7214': 'Byggnader och mark',
+  '7215': 'Maskiner, inventarier och övriga materiella anläggningstillgångar',
+  '7216': 'Förbättringsutgifter på annans fastighet',
+  '7217': 'Pågående nyanläggningar och förskott avseende materiella anläggningstillgångar',
+  '7230': 'Andelar i koncernföretag',
+  '7231': 'Andelar i intresseföretag och gemensamt styrda företag',
+  '7232': 'Fordringar hos koncern-, intresse- och gemensamt styrda företag',
+  '7233': 'Ägarintressen i övriga företag och andra långfristiga värdepappersinnehav',
+  '7234': 'Lån till delägare eller närstående',
+  '7235': 'Fordringar hos övriga företag som det finns ett ägarintresse i och andra långfristiga fordringar',
+  '7241': 'Råvaror och förnödenheter',
+  '7242': 'Varor under tillverkning',
+  '7243': 'Färdiga varor och handelsvaror',
+  '7244': 'Övriga lagertillgångar',
+  '7245': 'Pågående arbeten för annans räkning',
+  '7246': 'Förskott till leverantörer',
+  '7251': 'Kundfordringar',
+  '7252': 'Fordringar hos koncern-, intresse- och gemensamt styrda företag',
+  '7261': 'Fordringar hos övriga företag som det finns ett ägarintresse i och övriga fordringar',
+  '7262': 'Upparbetad men ej fakturerad intäkt',
+  '7263': 'Förutbetalda kostnader och upplupna intäkter',
+  '7270': 'Andelar i koncernföretag',
+  '7271': 'Övriga kortfristiga placeringar',
+  '7281': 'Kassa, bank och redovisningsmedel',
+  '7301': 'Bundet eget kapital',
+  '7302': 'Fritt eget kapital',
+  '7321': 'Periodiseringsfonder',
+  '7322': 'Ackumulerade överavskrivningar',
+  '7323': 'Övriga obeskattade reserver',
+  '7331': 'Avsättningar för pensioner och liknande förpliktelser enligt lagen om tryggande av pensionsutfästelse',
+  '7332': 'Övriga avsättningar för pensioner och liknande förpliktelser',
+  '7333': 'Övriga avsättningar',
+  '7350': 'Obligationslån',
+  '7351': 'Checkräkningskredit (långfristig)',
+  '7352': 'Övriga skulder till kreditinstitut (långfristiga)',
+  '7353': 'Skulder till koncern-, intresse- och gemensamt styrda företag (långfristiga)',
+  '7354': 'Övriga skulder (långfristiga)',
+  '7360': 'Checkräkningskredit',
+  '7361': 'Övriga skulder till kreditinstitut',
+  '7362': 'Förskott från kunder',
+  '7363': 'Pågående arbeten för annans räkning',
+  '7364': 'Fakturerad men ej upparbetad intäkt',
+  '7365': 'Leverantörsskulder',
+  '7366': 'Växelskulder',
+  '7367': 'Skulder till koncern-, intresse- och gemensamt styrda företag',
+  '7368': 'Skatteskulder',
+  '7369': 'Övriga skulder',
+  '7370': 'Upplupna kostnader och förutbetalda intäkter',
+  '7410': 'Nettoomsättning',
+  '7411': 'Förändring av lager av produkter i arbete, färdiga varor och pågående arbete för annans räkning',
+  '7412': 'Aktiverat arbete för egen räkning',
+  '7413': 'Övriga rörelseintäkter',
+  '7414': 'Resultat från andelar i koncernföretag (vinst)',
+  '7415': 'Resultat från andelar i intresseföretag och gemensamt styrda företag (vinst)',
+  '7416': 'Resultat från övriga finansiella anläggningstillgångar (vinst)',
+  '7417': 'Övriga ränteintäkter och liknande resultatposter',
+  '7419': 'Erhållna koncernbidrag',
+  '7420': 'Återföring av periodiseringsfond',
+  '7421': 'Förändring av överavskrivningar (intäkt)',
+  '7422': 'Övriga bokslutsdispositioner (intäkt)',
+  '7423': 'Resultat från övriga företag som det finns ett ägarintresse i (vinst)',
+  '7450': 'Årets resultat, vinst',
+  '7511': 'Råvaror och förnödenheter',
+  '7512': 'Handelsvaror',
+  '7513': 'Övriga externa kostnader',
+  '7514': 'Personalkostnader',
+  '7515': 'Av- och nedskrivningar av materiella och immateriella anläggningstillgångar',
+  '7516': 'Nedskrivningar av omsättningstillgångar utöver normala nedskrivningar',
+  '7517': 'Övriga rörelsekostnader',
+  '7518': 'Resultat från andelar i koncernföretag (förlust)',
+  '7519': 'Resultat från andelar i intresseföretag och gemensamt styrda företag (förlust)',
+  '7520': 'Resultat från övriga finansiella anläggningstillgångar (förlust)',
+  '7521': 'Nedskrivningar av finansiella anläggningstillgångar och kortfristiga placeringar',
+  '7522': 'Räntekostnader och liknande resultatposter',
+  '7524': 'Lämnade koncernbidrag',
+  '7525': 'Avsättning till periodiseringsfond',
+  '7526': 'Förändring av överavskrivningar (kostnad)',
+  '7527': 'Övriga bokslutsdispositioner (kostnad)',
+  '7528': 'Skatt på årets resultat',
+  '7530': 'Resultat från övriga företag som det finns ett ägarintresse i (förlust)',
+  '7550': 'Årets resultat, förlust',
+};
+
+/** INK2S fields that follow from the books */
+const INK2S_FIELDS: Record<string, string> = {
+  '7650': 'Årets resultat, vinst',
+  '7651': 'Skatt på årets resultat',
+  '7653': 'Andra bokförda kostnader',
+  '7670': 'Överskott',
+  '7750': 'Årets resultat, förlust',
+  '7770': 'Underskott',
+};
+
+/** Result fields with a profit and a loss variant: a negative amount moves to the other one */
+const OPPOSITE_FIELDS: Record<string, string> = {
+  '7414': '7518',
+  '7415': '7519',
+  '7416': '7520',
+  '7421': '7526',
+  '7422': '7527',
+  '7423': '7530',
+};
+for (const [profit, loss] of Object.entries(OPPOSITE_FIELDS)) OPPOSITE_FIELDS[loss] = profit;
+
+/** The year's result is calculated rather than read from accounts coded 7450 or 7550 */
+const RESULT_FIELDS = new Set(['7450', '7550']);
+
+const BALANCE_ACCOUNTS: AccountRange = { min: 1000, max: 2999 };
+/** Result accounts, less 8990-8999 where the year's result is booked */
+const RESULT_ACCOUNTS: AccountRange = { min: 3000, max: 8989 };
+const TAX_ACCOUNTS: AccountRange = { min: 8900, max: 8989 };
+
+/** BAS accounts for costs that are not deductible ("ej avdragsgill") */
+const NON_DEDUCTIBLE_ACCOUNTS = ['6072', '6982', '6992', '7623', '7632', '8423'];
+
+/** SRU codes that accounts of each BAS class may carry */
+function expectedCodes(accountNumber: string): AccountRange {
+  const accountClass = Number(accountNumber[0]);
+  if (accountClass === 1) return { min: 7200, max: 7299 };
+  if (accountClass === 2) return { min: 7300, max: 7399 };
+  if (accountClass === 3) return { min: 7400, max: 7499 };
+  if (accountClass === 8) return { min: 7400, max: 7599 };
+  return { min: 7500, max: 7599 };
+}
+
+/** Assets and costs are reported as debit amounts; the rest as credit amounts */
+function fieldSign(code: string): 1 | -1 {
+  return code.startsWith('72') || code.startsWith('75') ? 1 : -1;
+}
+
+export interface CalculateSRUOptions {
+  /**
+   * Chart of accounts from a provider. Its `sruCode`s are used for accounts
+   * that have no #SRU in the SIE file.
+   */
+  chartOfAccounts?: AccountingAccountDto[];
+}
+
+/**
+ * Fill in the INK2R and INK2S fields of a fiscal year.
+ *
+ * Balance sheet fields add up the closing balances (#UB) and income
+ * statement fields the results (#RES) of the accounts coded for them. The
+ * year's result (7450/7550) is calculated from accounts 3000-8989 and, when
+ * it has not been booked to equity yet, added to 7302 Fritt eget kapital.
+ * INK2S gets the year's result, the booked tax (89xx), the BAS accounts for
+ * non-deductible costs, and the surplus or deficit these give; other tax
+ * adjustments must be added before filing.
+ *
+ * Accounts with a balance but no SRU code, an SRU code that is not an
+ * INK2R field, or a code outside their BAS class (e.g. a 1xxx asset on a
+ * 73xx liability field) are left out and listed in `issues`.
+ *
+ * @throws SRUExportError when the file has no fiscal year (#RAR 0)
+ */
+export function calculateSRUDeclaration(data: SIEParseResult, options: CalculateSRUOptions = {}): SIESRUDeclaration {
+  const { fiscalYearStart, fiscalYearEnd } = data.metadata;
+  if (!fiscalYearStart || !fiscalYearEnd) {
+    throw new SRUExportError('The SIE file has no fiscal year (#RAR 0)');
+  }
+
+  const accountNames = new Map(data.accounts.map((a) => [a.accountNumber, a.accountName]));
+  const codes = new Map<string, string>();
+  for (const account of options.chartOfAccounts ?? []) {
+    if (account.sruCode) codes.set(account.accountNumber, account.sruCode);
+  }
+  for (const account of data.accounts) {
+    if (account.taxCode) codes.set(account.accountNumber, account.taxCode);
+  }
+
+  // Year-end balances: #UB for the balance sheet, #RES for the income statement
+  const balances = new Map<string, number>();
+  for (const balance of data.balances) {
+    if (balance.yearIndex !== 0) continue;
+    const relevant =
+      (balance.balanceType === 'UB' && isInRange(balance.accountNumber, BALANCE_ACCOUNTS)) ||
+      (balance.balanceType === 'RES' && Number(balance.accountNumber) >= 3000);
+    if (relevant) balances.set(balance.accountNumber, (balances.get(balance.accountNumber) ?? 0) + balance.amount);
+  }
+
+  const issue = (
+    type: SIESRUIssue['type'],
+    accountNumber: string,
+    amount: number,
+    message: string,
+    sruCode?: string,
+  ): SIESRUIssue => ({ type, accountNumber, accountName: accountNames.get(accountNumber), sruCode, amount, message });
+
+  const contributions = new Map<string, SIESRUField['contributions']>();
+  const addContribution = (code: string, accountNumber: string, accountName: string | undefined, amount: number) => {
+    const list = contributions.get(code);
+    const contribution = { accountNumber, accountName, amount };
+    if (list) list.push(contribution);
+    else contributions.set(code, [contribution]);
+  };
+
+  const issues: SIESRUIssue[] = [];
+  const accountNumbers = [...balances.keys()].sort();
+  for (const accountNumber of accountNumbers) {
+    const amount = Math.round(balances.get(accountNumber)! * 100) / 100;
+    if (amount === 0 || Number(accountNumber) >= 8990) continue;
+    const code = codes.get(accountNumber);
+    if (!code) {
+      issues.push(issue('missing-code', accountNumber, amount, `Account ${accountNumber} has no SRU code`));
+    } else if (RESULT_FIELDS.has(code)) {
+      continue;
+    } else if (!INK2R_FIELDS[code]) {
+      issues.push(
+        issue('unknown-code', accountNumber, amount, `SRU code ${code} of account ${accountNumber} is not an INK2R field`, code),
+      );
+    } else if (!isInRange(code, expectedCodes(accountNumber))) {
+      issues.push(
+        issue(
+          'class-mismatch',
+          accountNumber,
+          amount,
+          `SRU code ${code} does not match the BAS class of account ${accountNumber}`,
+          code,
+        ),
+      );
+    } else {
+      addContribution(code, accountNumber, accountNames.get(accountNumber), amount);
+    }
+  }
+
+  const sum = (list: { amount: number }[]) => list.reduce((total, c) => total + c.amount, 0);
+  const toContributions = (accounts: string[]) =>
+    accounts.map((a) => ({ accountNumber: a, accountName: accountNames.get(a), amount: balances.get(a)! }));
+  const resultAccounts = accountNumbers.filter((a) => isInRange(a, RESULT_ACCOUNTS));
+  // In SIE signs a profit is negative
+  const result = Math.round(-sum(toContributions(resultAccounts)) * 100) / 100;
+
+  // An unbooked result is still part of the equity on the balance sheet
+  const balanceTotal = sum(toContributions(accountNumbers.filter((a) => isInRange(a, BALANCE_ACCOUNTS))));
+  if (Math.round(balanceTotal) !== 0 && result !== 0) {
+    addContribution('7302', '8999', 'Årets resultat', -result);
+  }
+
+  const amounts = new Map<string, number>();
+  for (const [code, list] of contributions) amounts.set(code, Math.round(fieldSign(code) * sum(list)));
+  for (const [code, amount] of [...amounts]) {
+    const opposite = OPPOSITE_FIELDS[code];
+    if (amount < 0 && opposite) {
+      amounts.set(code, 0);
+      amounts.set(opposite, (amounts.get(opposite) ?? 0) - amount);
+      contributions.set(opposite, [...(contributions.get(opposite) ?? []), ...contributions.get(code)!]);
+      contributions.delete(code);
+    }
+  }
+  const resultCode = result >= 0 ? '7450' : '7550';
+  amounts.set(resultCode, Math.abs(Math.round(result)));
+  contributions.set(resultCode, toContributions(resultAccounts));
+
+  // INK2S: from the result in the books to the taxable surplus or deficit
+  const taxAccounts = resultAccounts.filter((a) => isInRange(a, TAX_ACCOUNTS));
+  const nonDeductible = resultAccounts.filter((a) => NON_DEDUCTIBLE_ACCOUNTS.includes(a));
+  const tax = Math.round(sum(toContributions(taxAccounts)));
+  const otherCosts = Math.round(sum(toContributions(nonDeductible)));
+  const surplus = Math.round(result) + tax + otherCosts;
+  const ink2s: [string, number, SIESRUField['contributions']][] = [
+    [result >= 0 ? '7650' : '7750', Math.abs(Math.round(result)), contributions.get(resultCode)!],
+    ['7651', tax, toContributions(taxAccounts)],
+    ['7653', otherCosts, toContributions(nonDeductible)],
+    [surplus >= 0 ? '7670' : '7770', Math.abs(surplus), []],
+  ];
+
+  const fields: SIESRUField[] = [
+    ...[...amounts]
+      .filter(([, amount]) => amount !== 0)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([code, amount]): SIESRUField => ({
+        code,
+        form: 'INK2R',
+        label: INK2R_FIELDS[code]!,
+        amount,
+        contributions: contributions.get(code) ?? [],
+      })),
+    ...ink2s
+      .filter(([, amount]) => amount !== 0)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([code, amount, fieldContributions]): SIESRUField => ({
+        code,
+        form: 'INK2S',
+        label: INK2S_FIELDS[code]!,
+        amount,
+        contributions: fieldContributions,
+      })),
+  ];
+
+  return {
+    companyName: data.metadata.companyName,
+    orgNumber: data.metadata.orgNumber,
+    fiscalYearStart: isoDate(fiscalYearStart),
+    fiscalYearEnd: isoDate(fiscalYearEnd),
+    fields,
+    issues,
+  };
+}
+
+export interface SRUFileOptions {
+  /** Postal code of the submitter, required in INFO.SRU */
+  postalCode: string;
+  /** Postal town of the submitter, required in INFO.SRU */
+  city: string;
+  address?: string;
+  email?: string;
+  /** Overrides the organization number of the declaration */
+  orgNumber?: string;
+  /** Default: now */
+  createdAt?: Date;
+}
+
+/** Organization number as the 12 digits SRU files use, with 16 before a 10-digit number */
+function sruOrgNumber(orgNumber: string): string {
+  const digits = orgNumber.replace(/\D/g, '');
+  if (digits.length === 12) return digits;
+  if (digits.length === 10) return `16${digits}`;
+  throw new SRUExportError(`Invalid organization number "${orgNumber}"`);
+}
+
+/**
+ * Form version, e.g. INK2R-2024P4: the year the fiscal year ends and the
+ * period of its last month (P1 January-April, P2 May-June, P3 July-August,
+ * P4 September-December).
+ */
+function formName(form: 'INK2R' | 'INK2S', fiscalYearEnd: string): string {
+  const month = Number(fiscalYearEnd.slice(5, 7));
+  const period = month <= 4 ? 1 : month <= 6 ? 2 : month <= 8 ? 3 : 4;
+  return `${form}-${fiscalYearEnd.slice(0, 4)}P${period}`;
+}
+
+/**
+ * Write a declaration as the INFO.SRU and BLANKETTER.SRU files, one
+ * #BLANKETT each for INK2R and INK2S. Both files are ISO-8859-1 text.
+ *
+ * @throws SRUExportError when there is no valid organization number
+ */
+export function writeSRUFiles(
+  declaration: SIESRUDeclaration,
+  options: SRUFileOptions,
+): { info: string; blanketter: string } {
+  const orgNumber = options.orgNumber ?? declaration.orgNumber;
+  if (!orgNumber) throw new SRUExportError('An organization number is needed for the SRU files');
+  const identity = sruOrgNumber(orgNumber);
+  const created = (options.createdAt ?? new Date()).toISOString();
+  const timestamp = `${created.slice(0, 10).replace(/-/g, '')} ${created.slice(11, 19).replace(/:/g, '')}`;
+  const line = (label: string, value: string) => `#${label} ${value.replace(/[\r\n]+/g, ' ')}`;
+
+  const info = [
+    '#DATABESKRIVNING_START',
+    '#PRODUKT SRU',
+    line('SKAPAD', timestamp),
+    '#PROGRAM arcim-sync',
+    '#FILNAMN BLANKETTER.SRU',
+    '#DATABESKRIVNING_SLUT',
+    '#MEDIELEV_START',
+    line('ORGNR', identity),
+    line('NAMN', declaration.companyName),
+    ...(options.address ? [line('ADRESS', options.address)] : []),
+    line('POSTNR', options.postalCode.replace(/\s/g, '')),
+    line('POSTORT', options.city),
+    ...(options.email ? [line('EMAIL', options.email)] : []),
+    '#MEDIELEV_SLUT',
+  ];
+
+  const blanketter: string[] = [];
+  for (const form of ['INK2R', 'INK2S'] as const) {
+    blanketter.push(
+      line('BLANKETT', formName(form, declaration.fiscalYearEnd)),
+      line('IDENTITET', `${identity} ${timestamp}`),
+      line('NAMN', declaration.companyName),
+      line('UPPGIFT', `7011 ${declaration.fiscalYearStart.replace(/-/g, '')}`),
+      line('UPPGIFT', `7012 ${declaration.fiscalYearEnd.replace(/-/g, '')}`),
+      ...declaration.fields.filter((f) => f.form === form).map((f) => line('UPPGIFT', `${f.code} ${f.amount}`)),
+      '#BLANKETTSLUT',
+    );
+  }
+  blanketter.push('#FIL_SLUT');
+
+  return { info: info.join('\r\n') + '\r\n', blanketter: blanketter.join('\r\n') + '\r\n' };
+}
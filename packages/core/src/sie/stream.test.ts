@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import * as iconv from 'iconv-lite';
+import { parseSIE } from './parser.js';
+import { calculateKPIs } from './kpi.js';
+import { parseSIEStream, summarizeSIEStream, type SIEStreamRecord } from './stream.js';
+
+const SIE4 = [
+  '#FLAGGA 0',
+  '#FORMAT PC8',
+  '#SIETYP 4',
+  '#FNAMN "Göteborgs Åkeri AB"',
+  '#RAR 0 20240101 20241231',
+  '#KONTO 1510 "Kundfordringar"',
+  '#KONTO 1930 "Företagskonto"',
+  '#KONTO 2081 "Aktiekapital"',
+  '#KONTO 2440 "Leverantörsskulder"',
+  '#KONTO 3010 "Försäljning"',
+  '#KONTO 4010 "Inköp"',
+  '#SRU 1930 7281',
+  '#DIM 1 "Kostnadsställe"',
+  '#OBJEKT 1 "10" "Väst"',
+  '#IB 0 1930 50000.00',
+  '#IB 0 2081 -50000.00',
+  '#UB 0 1510 20000.00',
+  '#UB 0 1930 95000.00',
+  '#UB 0 2081 -50000.00',
+  '#UB 0 2440 -15000.00',
+  '#RES 0 3010 -100000.00',
+  '#RES 0 4010 50000.00',
+  '#PSALDO 0 202401 3010 {} -100000.00',
+  '#VER A 1 20240115 "Försäljning"',
+  '{',
+  '#TRANS 1510 {1 "10"} 20000.00',
+  '#TRANS 1930 {} 80000.00',
+  '#TRANS 3010 {} -100000.00',
+  '}',
+  '#VER B 1 20240120 "Inköp från Öland"',
+  '{',
+  '#TRANS 4010 {} 50000.00',
+  '#TRANS 1930 {} -35000.00',
+  '#TRANS 2440 {} -15000.00',
+  '}',
+  '',
+].join('\r\n');
+
+/** Cut bytes into chunks of a fixed size */
+function* chunks(bytes: Buffer, size: number): Generator<Uint8Array> {
+  for (let offset = 0; offset < bytes.length; offset += size) {
+    yield bytes.subarray(offset, offset + size);
+  }
+}
+
+async function collect(source: Parameters<typeof parseSIEStream>[0], options?: Parameters<typeof parseSIEStream>[1]) {
+  const records: SIEStreamRecord[] = [];
+  for await (const record of parseSIEStream(source, options)) records.push(record);
+  return records;
+}
+
+describe('parseSIEStream', () => {
+  it.each([1, 7, 4096])('reads PC8 bytes in %i-byte chunks like parseSIE', async (size) => {
+    const bytes = iconv.encode(SIE4, 'cp437');
+    const records = await collect(chunks(bytes, size));
+    const expected = parseSIE(SIE4);
+
+    expect(records[0]).toEqual({ type: 'metadata', metadata: expected.metadata });
+    expect(records.filter((r) => r.type === 'account').map((r) => r.account)).toEqual(expected.accounts);
+    expect(records.filter((r) => r.type === 'transaction').map((r) => r.transaction)).toEqual(expected.transactions);
+    expect(records.filter((r) => r.type === 'balance').map((r) => r.balance)).toEqual(expected.balances);
+    expect(records.at(-1)).toMatchObject({ type: 'end', encoding: 'cp437' });
+  });
+
+  it('decodes UTF-8 characters split across chunks', async () => {
+    const bytes = Buffer.from('\uFEFF' + SIE4, 'utf8');
+    const records = await collect(chunks(bytes, 3));
+
+    expect(records[0]).toMatchObject({ metadata: { companyName: 'Göteborgs Åkeri AB' } });
+    expect(records.at(-1)).toMatchObject({ type: 'end', encoding: 'utf-8' });
+    const texts = records.flatMap((r) => (r.type === 'transaction' ? [r.transaction.verificationText] : []));
+    expect(texts).toContain('Inköp från Öland');
+  });
+
+  it('emits accounts before balances and transactions', async () => {
+    const types = (await collect([Buffer.from(SIE4)])).map((r) => r.type);
+    expect(types.slice(0, 9)).toEqual([
+      'metadata',
+      'account',
+      'account',
+      'account',
+      'account',
+      'account',
+      'account',
+      'dimensionDefinition',
+      'dimension',
+    ]);
+    expect(types.indexOf('balance')).toBeGreaterThan(types.lastIndexOf('account'));
+  });
+
+  it('re-emits an account when its #SRU comes after the transactions', async () => {
+    const records = await collect([Buffer.from(SIE4 + '#SRU 3010 3911\r\n')]);
+    const updates = records.filter((r) => r.type === 'account' && r.account.accountNumber === '3010');
+    expect(updates).toHaveLength(2);
+    expect(updates[1]).toMatchObject({ account: { taxCode: '3911' } });
+  });
+
+  it('reads a ReadableStream', async () => {
+    const bytes = iconv.encode(SIE4, 'cp437');
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const chunk of chunks(bytes, 100)) controller.enqueue(chunk);
+        controller.close();
+      },
+    });
+    const records = await collect(stream);
+    expect(records.filter((r) => r.type === 'transaction')).toHaveLength(6);
+  });
+
+  it('reports damaged rows in tolerant mode', async () => {
+    const damaged = SIE4.replace('#TRANS 1930 {} 80000.00', '#TRANS 1930 {} 80000,00');
+    const records = await collect([Buffer.from(damaged)], { mode: 'tolerant' });
+    const end = records.at(-1);
+
+    expect(end?.type === 'end' && end.parseReport).toMatchObject({
+      skippedTransactions: 1,
+      diagnostics: [{ code: 'invalid_amount', line: 27 }],
+    });
+  });
+
+  it('rejects content without a #FLAGGA header', async () => {
+    await expect(collect([Buffer.from('%PDF-1.4\n')])).rejects.toThrow('#FLAGGA header missing');
+  });
+});
+
+describe('summarizeSIEStream', () => {
+  it('computes the same KPIs as a full parse, without keeping transactions', async () => {
+    const bytes = iconv.encode(SIE4, 'cp437');
+    const seen: string[] = [];
+    const summary = await summarizeSIEStream(chunks(bytes, 64), {
+      onTransaction: (transaction) => seen.push(transaction.accountNumber),
+    });
+
+    expect(summary.transactions).toEqual([]);
+    expect(summary.transactionCount).toBe(6);
+    expect(seen).toEqual(['1510', '1930', '3010', '4010', '1930', '2440']);
+    expect(summary.periodBalances).toHaveLength(1);
+    expect(calculateKPIs(summary)).toEqual(calculateKPIs(parseSIE(SIE4)));
+  });
+});
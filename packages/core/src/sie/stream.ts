@@ -0,0 +1,177 @@
+/**
+ * Streaming SIE parser.
+ *
+ * A SIE 4 export of a large company can hold millions of #TRANS rows.
+ * `parseSIEStream()` reads the file chunk by chunk and yields records as it
+ * goes, so nothing but the current line and the chart of accounts is kept in
+ * memory. `summarizeSIEStream()` builds on it to keep everything except the
+ * transactions, which is all `calculateKPIs()` needs.
+ */
+import * as iconv from 'iconv-lite';
+import type { SIEMetadata, SIEParseResult, SIEParseReport, SIERecord, SIETransaction } from '../types/sie.js';
+import { detectSIEEncoding, type SIEEncoding } from './encoding.js';
+import { SIELineReader, createSIECollector, type ParseSIEOptions } from './parser.js';
+
+/** Bytes read before the encoding is detected */
+const DETECTION_BYTES = 64 * 1024;
+
+export type SIEByteSource = AsyncIterable<Uint8Array> | Iterable<Uint8Array> | ReadableStream<Uint8Array>;
+
+export interface ParseSIEStreamOptions extends ParseSIEOptions {
+  /** Skip detection and decode with this encoding */
+  encoding?: SIEEncoding;
+}
+
+/** Last record of a stream, once the whole file has been read */
+export interface SIEStreamEnd {
+  type: 'end';
+  /** Final metadata, including any header records that came late */
+  metadata: SIEMetadata;
+  encoding: SIEEncoding;
+  /** Diagnostics, in tolerant mode */
+  parseReport?: SIEParseReport;
+}
+
+export type SIEStreamRecord = SIERecord | SIEStreamEnd;
+
+export interface SIEStreamSummary extends SIEParseResult {
+  encoding: SIEEncoding;
+  transactionCount: number;
+}
+
+async function* readChunks(source: SIEByteSource): AsyncGenerator<Uint8Array> {
+  if (!('getReader' in source)) {
+    yield* source;
+    return;
+  }
+  const reader = source.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/** Split decoded text into lines, carrying the unfinished last line */
+class LineSplitter {
+  private carry = '';
+
+  constructor(private readonly reader: SIELineReader) {}
+
+  write(text: string): void {
+    const lines = (this.carry + text).split('\n');
+    this.carry = lines.pop()!;
+    for (const line of lines) {
+      this.reader.push(line.endsWith('\r') ? line.slice(0, -1) : line);
+    }
+  }
+
+  end(): void {
+    if (this.carry) this.reader.push(this.carry.replace(/\r$/, ''));
+    this.carry = '';
+  }
+}
+
+/**
+ * Parse a SIE file from a stream of bytes, yielding records as they are read.
+ *
+ * Chunks may split lines and multi-byte characters anywhere. The encoding is
+ * detected from the first 64 KB. Metadata, accounts and dimensions come
+ * first; a record for an account that is already out replaces it (e.g. when a
+ * #SRU follows the transactions). The last record is always `end`.
+ *
+ * @throws Error if the file has no #FLAGGA header
+ * @throws SIEParseError in strict mode, at the first row that cannot be read
+ */
+export async function* parseSIEStream(
+  source: SIEByteSource,
+  options?: ParseSIEStreamOptions,
+): AsyncGenerator<SIEStreamRecord> {
+  const mode = options?.mode ?? 'lenient';
+  let pending: SIERecord[] = [];
+  const reader = new SIELineReader(mode, (record) => pending.push(record));
+  const lines = new LineSplitter(reader);
+
+  let encoding = options?.encoding;
+  let decoder: ReturnType<typeof iconv.getDecoder> | undefined;
+  let head: Buffer[] = [];
+  let headLength = 0;
+
+  const start = (): void => {
+    const buffer = Buffer.concat(head);
+    if (!encoding) {
+      // Detect on whole lines so that a multi-byte character is never cut
+      const lastNewline = buffer.lastIndexOf(0x0a);
+      const detected = detectSIEEncoding(lastNewline > 0 ? buffer.subarray(0, lastNewline + 1) : buffer);
+      if (!detected) {
+        throw new Error('Not a SIE file: #FLAGGA header missing');
+      }
+      encoding = detected;
+    }
+    // iconv-lite strips a leading BOM
+    decoder = iconv.getDecoder(encoding === 'utf-8' ? 'utf8' : encoding);
+    lines.write(decoder.write(buffer));
+    head = [];
+  };
+
+  for await (const chunk of readChunks(source)) {
+    if (decoder) {
+      lines.write(decoder.write(Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength)));
+    } else {
+      head.push(Buffer.from(chunk));
+      headLength += chunk.byteLength;
+      if (headLength >= DETECTION_BYTES) start();
+    }
+    if (pending.length > 0) {
+      const records = pending;
+      pending = [];
+      yield* records;
+    }
+  }
+
+  if (!decoder) start();
+  lines.write(decoder!.end() ?? '');
+  lines.end();
+  reader.end();
+
+  yield* pending;
+  yield {
+    type: 'end',
+    metadata: reader.metadata,
+    encoding: encoding!,
+    parseReport: mode === 'tolerant' ? reader.report : undefined,
+  };
+}
+
+/**
+ * Read a SIE stream into a `SIEParseResult` without keeping the transactions.
+ *
+ * The result carries everything else, so `calculateKPIs()` works on it as on
+ * the output of `parseSIE()`. `transactions` stays empty; pass
+ * `onTransaction` to see each one as it is read.
+ */
+export async function summarizeSIEStream(
+  source: SIEByteSource,
+  options?: ParseSIEStreamOptions & { onTransaction?: (transaction: SIETransaction) => void },
+): Promise<SIEStreamSummary> {
+  const collector = createSIECollector({ keepTransactions: false });
+
+  for await (const record of parseSIEStream(source, options)) {
+    if (record.type === 'end') {
+      return {
+        ...collector.result,
+        metadata: record.metadata,
+        parseReport: record.parseReport,
+        encoding: record.encoding,
+        transactionCount: collector.transactionCount(),
+      };
+    }
+    if (record.type === 'transaction') options?.onTransaction?.(record.transaction);
+    collector.add(record);
+  }
+  throw new Error('SIE stream ended without an end record');
+}
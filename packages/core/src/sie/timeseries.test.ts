@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { parseSIE } from './parser.js';
+import { calculateKPITimeSeries } from './timeseries.js';
+
+function sie4(year: number, verifications: Array<[date: string, debit: string, credit: string, amount: number]>) {
+  const lines = [
+    '#FLAGGA 0',
+    '#SIETYP 4',
+    `#RAR 0 ${year}0101 ${year}1231`,
+    '#KONTO 1510 "Kundfordringar"',
+    '#KONTO 1930 "Företagskonto"',
+    '#KONTO 2081 "Aktiekapital"',
+    '#KONTO 2440 "Leverantörsskulder"',
+    '#KONTO 3010 "Försäljning"',
+    '#KONTO 4010 "Inköp"',
+    '#IB 0 1510 10000.00',
+    '#IB 0 1930 40000.00',
+    '#IB 0 2081 -50000.00',
+  ];
+  verifications.forEach(([date, debit, credit, amount], i) => {
+    lines.push(`#VER A ${i + 1} ${date} "Ver ${i + 1}"`, '{', `#TRANS ${debit} {} ${amount.toFixed(2)}`, `#TRANS ${credit} {} ${(-amount).toFixed(2)}`, '}');
+  });
+  return parseSIE(lines.join('\n'));
+}
+
+describe('calculateKPITimeSeries', () => {
+  it('splits a SIE 4 year into months from its verifications', () => {
+    const series = calculateKPITimeSeries(
+      sie4(2024, [
+        ['20240110', '1510', '3010', 62000],
+        ['20240120', '4010', '2440', 31000],
+        ['20240215', '1930', '1510', 72000],
+      ]),
+    );
+
+    expect(series.map((m) => m.month)).toEqual([
+      '2024-01', '2024-02', '2024-03', '2024-04', '2024-05', '2024-06',
+      '2024-07', '2024-08', '2024-09', '2024-10', '2024-11', '2024-12',
+    ]);
+    expect(series[0]).toMatchObject({
+      source: 'transactions',
+      netSales: 62000,
+      costOfGoodsSold: 31000,
+      grossProfit: 31000,
+      grossMargin: 50,
+      ebitda: 31000,
+      customerReceivables: 72000,
+      cashAndBank: 40000,
+      accountsPayable: 31000,
+      // 72 000 in receivables against 62 000 of sales over 31 days
+      dso: 36,
+      ltm: null,
+    });
+    expect(series[1]).toMatchObject({ netSales: 0, grossMargin: null, dso: null, customerReceivables: 0, cashAndBank: 112000 });
+    expect(series[11]!.ltm).toMatchObject({ netSales: 62000, grossProfit: 31000, grossMargin: 50, dso: 0 });
+  });
+
+  it('reads SIE 3 #PSALDO rows and reaches into the previous year for LTM', () => {
+    const parsed = parseSIE([
+      '#FLAGGA 0',
+      '#SIETYP 3',
+      '#RAR 0 20240101 20241231',
+      '#RAR -1 20230101 20231231',
+      '#IB 0 1510 20000.00',
+      '#PSALDO -1 202307 3010 {} -10000.00',
+      '#PSALDO -1 202312 3010 {} -20000.00',
+      '#PSALDO 0 202401 3010 {} -30000.00',
+      '#PSALDO 0 202401 3010 {1 "10"} -30000.00',
+      '#PSALDO 0 202401 1510 {} 45000.00',
+      '#PSALDO 0 202406 3010 {} -40000.00',
+    ].join('\n'));
+    const series = calculateKPITimeSeries(parsed);
+    const byMonth = new Map(series.map((m) => [m.month, m]));
+
+    expect(series[0]!.month).toBe('2023-01');
+    expect(byMonth.get('2023-07')).toMatchObject({ source: 'periodBalances', netSales: 10000, customerReceivables: null });
+    expect(byMonth.get('2024-01')).toMatchObject({ netSales: 30000, customerReceivables: 45000, dso: 46.5 });
+    // No #PSALDO for February: receivables carry over
+    expect(byMonth.get('2024-02')!.customerReceivables).toBe(45000);
+    expect(byMonth.get('2024-06')!.ltm!.netSales).toBe(100000);
+    expect(byMonth.get('2024-07')!.ltm!.netSales).toBe(90000);
+    expect(byMonth.get('2023-12')!.ltm!.netSales).toBe(30000);
+  });
+
+  it('stitches consecutive fiscal years into LTM figures', () => {
+    const series = calculateKPITimeSeries([
+      sie4(2024, [['20240315', '1510', '3010', 24000]]),
+      sie4(2023, [['20230915', '1510', '3010', 12000]]),
+    ]);
+    const byMonth = new Map(series.map((m) => [m.month, m]));
+
+    expect(series).toHaveLength(24);
+    expect(byMonth.get('2023-12')!.ltm!.netSales).toBe(12000);
+    expect(byMonth.get('2024-08')!.ltm!.netSales).toBe(36000);
+    expect(byMonth.get('2024-09')!.ltm!.netSales).toBe(24000);
+  });
+
+  it("prefers a file's own fiscal year over previous-year rows of another", () => {
+    const sie3 = parseSIE([
+      '#FLAGGA 0',
+      '#SIETYP 3',
+      '#RAR 0 20240101 20241231',
+      '#PSALDO -1 202309 3010 {} -99999.00',
+      '#PSALDO 0 202401 3010 {} -1000.00',
+    ].join('\n'));
+    const series = calculateKPITimeSeries([sie3, sie4(2023, [['20230915', '1510', '3010', 12000]])]);
+    const september = series.find((m) => m.month === '2023-09')!;
+
+    expect(september).toMatchObject({ source: 'transactions', netSales: 12000 });
+  });
+
+  it('leaves LTM empty across a missing year', () => {
+    const series = calculateKPITimeSeries([
+      sie4(2022, [['20220315', '1510', '3010', 1000]]),
+      sie4(2024, [['20240315', '1510', '3010', 1000]]),
+    ]);
+
+    expect(series).toHaveLength(24);
+    expect(series.find((m) => m.month === '2022-12')!.ltm).not.toBeNull();
+    expect(series.filter((m) => m.month.startsWith('2024') && m.ltm)).toHaveLength(1);
+  });
+
+  it('stops a partial year at #OMFATTN', () => {
+    const parsed = sie4(2024, [['20240110', '1510', '3010', 1000]]);
+    parsed.metadata.omfattnDate = '2024-04-30';
+    expect(calculateKPITimeSeries(parsed).map((m) => m.month)).toEqual(['2024-01', '2024-02', '2024-03', '2024-04']);
+  });
+});
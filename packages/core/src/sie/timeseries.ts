@@ -0,0 +1,254 @@
+/**
+ * Monthly and rolling twelve-month (LTM) KPIs.
+ *
+ * `calculateKPIs()` gives one snapshot per fiscal year. This module splits
+ * the year into calendar months instead, from the verifications where the
+ * file has them (SIE 4) and from #PSALDO rows otherwise (SIE 2/3), and adds
+ * up the last twelve months so that LTM figures can span two fiscal years —
+ * either the previous-year #PSALDO rows of one file, or several files.
+ */
+import type {
+  SIEParseResult,
+  SIEMonthlyKPIs,
+  SIEPeriodFigures,
+} from '../types/sie.js';
+import { SWEDISH_ACCOUNTS, isInRange, sumAccountsInRange } from './accounts.js';
+import { summarizeIncomeStatement } from './kpi.js';
+
+const RESULT_ACCOUNTS = { min: 3000, max: 8999 };
+const BALANCE_ACCOUNTS = { min: 1000, max: 2999 };
+
+interface MonthLedger {
+  source: SIEMonthlyKPIs['source'];
+  /** Movement on each result account during the month */
+  results: Map<string, number>;
+  /** Each balance sheet account at month end, when the file has them */
+  closing: Map<string, number> | null;
+  /** Whether the month is in the file's current fiscal year */
+  currentYear: boolean;
+}
+
+/** YYYY-MM of a date written YYYYMMDD or YYYY-MM-DD */
+export function toMonth(date: string): string {
+  const digits = date.replace(/-/g, '');
+  return `${digits.slice(0, 4)}-${digits.slice(4, 6)}`;
+}
+
+function addMonths(month: string, count: number): string {
+  const [year, monthNumber] = month.split('-').map(Number) as [number, number];
+  const total = year * 12 + (monthNumber - 1) + count;
+  return `${Math.floor(total / 12)}-${String((total % 12) + 1).padStart(2, '0')}`;
+}
+
+export function monthsBetween(first: string, last: string): string[] {
+  const months: string[] = [];
+  for (let month = first; month <= last; month = addMonths(month, 1)) {
+    months.push(month);
+  }
+  return months;
+}
+
+function daysInMonth(month: string): number {
+  const [year, monthNumber] = month.split('-').map(Number) as [number, number];
+  return new Date(Date.UTC(year, monthNumber, 0)).getUTCDate();
+}
+
+function addTo(map: Map<string, number>, accountNumber: string, amount: number): void {
+  map.set(accountNumber, (map.get(accountNumber) ?? 0) + amount);
+}
+
+function toRows(map: Map<string, number>): Array<{ accountNumber: string; amount: number }> {
+  return [...map].map(([accountNumber, amount]) => ({ accountNumber, amount }));
+}
+
+/**
+ * The months of the file's current fiscal year, up to #OMFATTN for a
+ * partial year. Files without #RAR 0 fall back to the months they have data for.
+ */
+function currentYearMonths(data: SIEParseResult): string[] {
+  const { fiscalYearStart, fiscalYearEnd, omfattnDate } = data.metadata;
+  const end = omfattnDate ?? fiscalYearEnd;
+  if (fiscalYearStart && end) {
+    return monthsBetween(toMonth(fiscalYearStart), toMonth(end));
+  }
+
+  const months = [
+    ...data.transactions.map((t) => toMonth(t.verificationDate)),
+    ...data.periodBalances.filter((b) => b.yearIndex === 0).map((b) => toMonth(b.period)),
+  ].sort();
+  return months.length > 0 ? monthsBetween(months[0]!, months[months.length - 1]!) : [];
+}
+
+/**
+ * Month ledgers from the verifications, with month-end balances rolled
+ * forward from the opening balances.
+ */
+function ledgersFromTransactions(data: SIEParseResult, months: string[]): Map<string, MonthLedger> {
+  const results = new Map(months.map((month) => [month, new Map<string, number>()]));
+  const movements = new Map(months.map((month) => [month, new Map<string, number>()]));
+
+  for (const transaction of data.transactions) {
+    const month = toMonth(transaction.verificationDate);
+    if (isInRange(transaction.accountNumber, RESULT_ACCOUNTS)) {
+      const monthResults = results.get(month);
+      if (monthResults) addTo(monthResults, transaction.accountNumber, transaction.amount);
+    } else if (isInRange(transaction.accountNumber, BALANCE_ACCOUNTS)) {
+      const monthMovements = movements.get(month);
+      if (monthMovements) addTo(monthMovements, transaction.accountNumber, transaction.amount);
+    }
+  }
+
+  // Without opening balances the month-end balances would only be this year's movements
+  const opening = data.balances.filter((b) => b.balanceType === 'IB' && b.yearIndex === 0);
+  const running = opening.length > 0 ? new Map<string, number>() : null;
+  for (const balance of opening) addTo(running!, balance.accountNumber, balance.amount);
+
+  const ledgers = new Map<string, MonthLedger>();
+  for (const month of months) {
+    if (running) {
+      for (const [accountNumber, amount] of movements.get(month)!) addTo(running, accountNumber, amount);
+    }
+    ledgers.set(month, {
+      source: 'transactions',
+      results: results.get(month)!,
+      closing: running ? new Map(running) : null,
+      currentYear: true,
+    });
+  }
+  return ledgers;
+}
+
+/**
+ * Month ledgers from #PSALDO rows for one year: the month's change on
+ * result accounts and the month-end balance on balance sheet accounts.
+ * Accounts without a row for a month keep their balance from the month before.
+ */
+function ledgersFromPeriodBalances(
+  data: SIEParseResult,
+  yearIndex: number,
+  months: string[],
+): Map<string, MonthLedger> {
+  const rows = data.periodBalances.filter((b) => b.yearIndex === yearIndex && b.objects.length === 0);
+  const hasBalanceSheet = rows.some((b) => isInRange(b.accountNumber, BALANCE_ACCOUNTS));
+
+  const running = hasBalanceSheet ? new Map<string, number>() : null;
+  if (running) {
+    for (const balance of data.balances) {
+      if (balance.balanceType === 'IB' && balance.yearIndex === yearIndex) {
+        addTo(running, balance.accountNumber, balance.amount);
+      }
+    }
+  }
+
+  const ledgers = new Map<string, MonthLedger>();
+  for (const month of months) {
+    const results = new Map<string, number>();
+    for (const row of rows) {
+      if (toMonth(row.period) !== month) continue;
+      if (isInRange(row.accountNumber, RESULT_ACCOUNTS)) {
+        addTo(results, row.accountNumber, row.amount);
+      } else if (running && isInRange(row.accountNumber, BALANCE_ACCOUNTS)) {
+        running.set(row.accountNumber, row.amount);
+      }
+    }
+    ledgers.set(month, {
+      source: 'periodBalances',
+      results,
+      closing: running ? new Map(running) : null,
+      currentYear: yearIndex === 0,
+    });
+  }
+  return ledgers;
+}
+
+function ledgersFromFile(data: SIEParseResult): Map<string, MonthLedger> {
+  const months = currentYearMonths(data);
+  const ledgers =
+    data.transactions.length > 0
+      ? ledgersFromTransactions(data, months)
+      : ledgersFromPeriodBalances(data, 0, months);
+
+  // The previous year's #PSALDO rows let a single file reach back twelve months
+  if (months.length > 0 && data.periodBalances.some((b) => b.yearIndex === -1)) {
+    const previous = monthsBetween(addMonths(months[0]!, -12), addMonths(months[0]!, -1));
+    for (const [month, ledger] of ledgersFromPeriodBalances(data, -1, previous)) {
+      ledgers.set(month, ledger);
+    }
+  }
+  return ledgers;
+}
+
+/** Whether `candidate` should replace `existing` for the same month */
+function preferLedger(candidate: MonthLedger, existing: MonthLedger): boolean {
+  if (candidate.currentYear !== existing.currentYear) return candidate.currentYear;
+  return candidate.source === 'transactions' && existing.source !== 'transactions';
+}
+
+function periodFigures(
+  results: Map<string, number>,
+  customerReceivables: number | null,
+  days: number,
+): SIEPeriodFigures {
+  const summary = summarizeIncomeStatement(toRows(results));
+  const { netSales } = summary;
+  return {
+    netSales,
+    costOfGoodsSold: summary.costOfGoodsSold,
+    grossProfit: summary.grossProfit,
+    ebitda: summary.ebitda,
+    ebit: summary.ebit,
+    netIncome: summary.netIncome,
+    grossMargin: netSales > 0 ? (summary.grossProfit / netSales) * 100 : null,
+    ebitdaMargin: netSales > 0 ? (summary.ebitda / netSales) * 100 : null,
+    dso: customerReceivables !== null && netSales > 0 ? (customerReceivables / netSales) * days : null,
+  };
+}
+
+/**
+ * Calculate monthly KPIs, with LTM figures, from one or more parsed SIE
+ * files. Files for consecutive fiscal years are stitched together; where
+ * they overlap, a file's own fiscal year wins over another file's
+ * previous-year rows, and verifications win over #PSALDO rows.
+ *
+ * @returns One entry per month with data, in calendar order
+ */
+export function calculateKPITimeSeries(files: SIEParseResult | SIEParseResult[]): SIEMonthlyKPIs[] {
+  const ledgers = new Map<string, MonthLedger>();
+  for (const file of Array.isArray(files) ? files : [files]) {
+    for (const [month, ledger] of ledgersFromFile(file)) {
+      const existing = ledgers.get(month);
+      if (!existing || preferLedger(ledger, existing)) ledgers.set(month, ledger);
+    }
+  }
+
+  const months = [...ledgers.keys()].sort();
+  return months.map((month) => {
+    const ledger = ledgers.get(month)!;
+    const closing = ledger.closing ? toRows(ledger.closing) : null;
+    const sum = (range: { min: number; max: number }) => (closing ? sumAccountsInRange(closing, range) : null);
+    const customerReceivables = sum(SWEDISH_ACCOUNTS.CURRENT_ASSETS.CUSTOMER_RECEIVABLES);
+    const accountsPayable = sum(SWEDISH_ACCOUNTS.CURRENT_LIABILITIES.ACCOUNTS_PAYABLE);
+
+    const window = monthsBetween(addMonths(month, -11), month);
+    let ltm: SIEPeriodFigures | null = null;
+    if (window.every((m) => ledgers.has(m))) {
+      const results = new Map<string, number>();
+      for (const m of window) {
+        for (const [accountNumber, amount] of ledgers.get(m)!.results) addTo(results, accountNumber, amount);
+      }
+      ltm = periodFigures(results, customerReceivables, 365);
+    }
+
+    return {
+      month,
+      source: ledger.source,
+      ...periodFigures(ledger.results, customerReceivables, daysInMonth(month)),
+      cashAndBank: sum(SWEDISH_ACCOUNTS.CURRENT_ASSETS.CASH_AND_BANK),
+      customerReceivables,
+      inventory: sum(SWEDISH_ACCOUNTS.CURRENT_ASSETS.INVENTORY),
+      // Liabilities are stored as negative in SIE
+      accountsPayable: accountsPayable === null ? null : Math.abs(accountsPayable),
+      ltm,
+    };
+  });
+}
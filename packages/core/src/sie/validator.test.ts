@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { parseSIE } from './parser.js';
+import { writeSIE } from './writer.js';
+import { verifySIEChecksum } from './checksum.js';
+import { validateSIE } from './validator.js';
+
+const VALID_SIE = [
+  '#FLAGGA 0',
+  '#SIETYP 4',
+  '#FNAMN "Balans AB"',
+  '#RAR 0 20240101 20241231',
+  '#RAR -1 20230101 20231231',
+  '#KONTO 1930 "Företagskonto"',
+  '#KONTO 2081 "Aktiekapital"',
+  '#KONTO 3010 "Försäljning"',
+  '#UB -1 1930 50000.00',
+  '#UB -1 2081 -50000.00',
+  '#IB 0 1930 50000.00',
+  '#IB 0 2081 -50000.00',
+  '#UB 0 1930 60000.00',
+  '#UB 0 2081 -50000.00',
+  '#RES 0 3010 -10000.00',
+  '#VER A 1 20240115 "Försäljning"',
+  '{',
+  '#TRANS 1930 {} 10000.00',
+  '#TRANS 3010 {} -10000.00',
+  '}',
+].join('\n');
+
+function codes(content: string) {
+  return validateSIE(content).diagnostics.map((d) => [d.code, d.line]);
+}
+
+describe('verifySIEChecksum', () => {
+  it('accepts the checksum written by writeSIE', () => {
+    const written = writeSIE(parseSIE(VALID_SIE));
+    expect(verifySIEChecksum(written).status).toBe('valid');
+  });
+
+  it('detects a changed record', () => {
+    const tampered = writeSIE(parseSIE(VALID_SIE)).replace('10000.00', '10001.00');
+    const result = verifySIEChecksum(tampered);
+    expect(result.status).toBe('invalid');
+    expect(result.expected).not.toBe(result.actual);
+  });
+
+  it('is missing without #KSUMMA', () => {
+    expect(verifySIEChecksum(VALID_SIE)).toEqual({ status: 'missing' });
+  });
+
+  it('is invalid when the closing #KSUMMA never comes', () => {
+    const result = verifySIEChecksum('#FLAGGA 0\n#KSUMMA\n#FNAMN "X"\n');
+    expect(result).toMatchObject({ status: 'invalid', line: 2 });
+    expect(result.expected).toBeUndefined();
+  });
+});
+
+describe('validateSIE', () => {
+  it('passes a consistent file', () => {
+    expect(validateSIE(VALID_SIE)).toEqual({
+      valid: true,
+      checksum: 'missing',
+      errorCount: 0,
+      warningCount: 0,
+      diagnostics: [],
+    });
+    expect(validateSIE(writeSIE(parseSIE(VALID_SIE))).checksum).toBe('valid');
+  });
+
+  it('reports a checksum mismatch on the closing #KSUMMA line', () => {
+    const tampered = writeSIE(parseSIE(VALID_SIE)).replace('"Balans AB"', '"Balans AC"');
+    const report = validateSIE(tampered);
+    expect(report.valid).toBe(false);
+    expect(report.checksum).toBe('invalid');
+    expect(report.diagnostics[0]).toMatchObject({
+      severity: 'error',
+      code: 'checksum_mismatch',
+      line: tampered.trimEnd().split('\r\n').length,
+    });
+  });
+
+  it('flags unbalanced and unterminated verifications', () => {
+    const content = VALID_SIE.replace('#TRANS 3010 {} -10000.00', '#TRANS 3010 {} -9000.00') +
+      '\n#VER A 2 20240116 "Öppen"\n{\n#TRANS 1930 {} 1.00';
+    expect(codes(content)).toEqual([
+      ['unbalanced_verification', 16],
+      ['unterminated_verification', 21],
+    ]);
+    expect(validateSIE(content).diagnostics[0]!.message).toContain('sum to 1000.00');
+  });
+
+  it('flags each undeclared account once', () => {
+    const content = VALID_SIE.replace(
+      '#TRANS 1930 {} 10000.00',
+      '#TRANS 1940 {} 5000.00\n#TRANS 1940 {} 5000.00',
+    );
+    const report = validateSIE(content);
+    expect(report.diagnostics).toEqual([
+      {
+        severity: 'error',
+        code: 'undeclared_account',
+        message: 'Transaction on account 1940, which has no #KONTO',
+        line: 18,
+        accountNumber: '1940',
+      },
+    ]);
+  });
+
+  it('ignores reversed rows when balancing', () => {
+    const content = VALID_SIE.replace(
+      '#TRANS 1930 {} 10000.00',
+      '#BTRANS 1930 {} 9000.00\n#RTRANS 1930 {} 10000.00\n#TRANS 1930 {} 10000.00',
+    );
+    expect(validateSIE(content).valid).toBe(true);
+  });
+
+  it('flags verifications dated outside the fiscal year', () => {
+    const content = VALID_SIE.replace('#VER A 1 20240115', '#VER A 1 20250102');
+    expect(codes(content)).toEqual([['verification_outside_fiscal_year', 16]]);
+  });
+
+  it('warns when opening balances differ from the previous closing balances', () => {
+    const content = VALID_SIE.replace('#IB 0 1930 50000.00', '#IB 0 1930 48000.00')
+      .replace('#IB 0 2081 -50000.00', '#IB 0 2081 -48000.00');
+    const report = validateSIE(content);
+    expect(report.valid).toBe(true);
+    expect(report.warningCount).toBe(2);
+    expect(report.diagnostics.map((d) => [d.code, d.accountNumber, d.line])).toEqual([
+      ['opening_balance_mismatch', '1930', 11],
+      ['opening_balance_mismatch', '2081', 12],
+    ]);
+  });
+
+  it('warns when the balance sheet does not sum to zero', () => {
+    const content = VALID_SIE.replace('#UB 0 1930 60000.00', '#UB 0 1930 61000.00');
+    const report = validateSIE(content);
+    expect(report.diagnostics).toEqual([
+      {
+        severity: 'warning',
+        code: 'balance_sheet_not_balanced',
+        message: 'Closing balances and result for year 0 sum to 1000.00, not zero',
+        yearIndex: 0,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * Structural validation of SIE files.
+ *
+ * `validateSIEBalances()` in ./kpi.ts only asks whether a parsed file has
+ * what the KPI calculation needs. `validateSIE()` checks the file itself —
+ * the #KSUMMA checksum, verification blocks, account declarations and
+ * whether the balances add up — and points at the offending lines.
+ */
+import type { SIEDiagnostic, SIEValidationReport, SIEBalanceType } from '../types/sie.js';
+import { parseLine } from './parser.js';
+import { verifySIEChecksum } from './checksum.js';
+
+interface BalanceRow {
+  balanceType: SIEBalanceType;
+  yearIndex: number;
+  accountNumber: string;
+  amount: number;
+  line: number;
+}
+
+interface OpenVerification {
+  label: string;
+  line: number;
+  /** In öre, to keep the sum exact */
+  sum: number;
+  inBlock: boolean;
+}
+
+function toOre(value: string): number {
+  const amount = parseFloat(value);
+  return Number.isNaN(amount) ? 0 : Math.round(amount * 100);
+}
+
+function formatOre(ore: number): string {
+  return (ore / 100).toFixed(2);
+}
+
+function isBalanceSheetAccount(accountNumber: string): boolean {
+  return accountNumber[0] === '1' || accountNumber[0] === '2';
+}
+
+function isResultAccount(accountNumber: string): boolean {
+  const group = accountNumber[0];
+  return group !== undefined && group >= '3' && group <= '8';
+}
+
+/** Opening balances against the previous year's closing balances, per balance sheet account */
+function checkOpeningBalances(rows: BalanceRow[], diagnostics: SIEDiagnostic[]): void {
+  const yearIndexes = new Set(rows.filter((r) => r.balanceType === 'IB').map((r) => r.yearIndex));
+
+  for (const yearIndex of [...yearIndexes].sort((a, b) => b - a)) {
+    const closing = rows.filter((r) => r.balanceType === 'UB' && r.yearIndex === yearIndex - 1);
+    if (closing.length === 0) continue;
+    const opening = rows.filter((r) => r.balanceType === 'IB' && r.yearIndex === yearIndex);
+
+    const accounts = new Map<string, { opening: number; closing: number; line: number }>();
+    for (const row of [...opening, ...closing]) {
+      if (!isBalanceSheetAccount(row.accountNumber)) continue;
+      const entry = accounts.get(row.accountNumber) ?? { opening: 0, closing: 0, line: row.line };
+      entry[row.balanceType === 'IB' ? 'opening' : 'closing'] += row.amount;
+      accounts.set(row.accountNumber, entry);
+    }
+
+    for (const [accountNumber, { opening: ib, closing: ub, line }] of accounts) {
+      if (ib !== ub) {
+        diagnostics.push({
+          severity: 'warning',
+          code: 'opening_balance_mismatch',
+          message: `Opening balance ${formatOre(ib)} for account ${accountNumber} in year ${yearIndex} differs from the previous year's closing balance ${formatOre(ub)}`,
+          line,
+          accountNumber,
+          yearIndex,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Balance sheet totals per year: opening balances sum to zero, and closing
+ * balances sum to zero together with the year's result. The latter holds
+ * whether or not the result has been booked to equity yet.
+ */
+function checkBalanceSheetTotals(rows: BalanceRow[], diagnostics: SIEDiagnostic[]): void {
+  const sum = (balanceType: SIEBalanceType, yearIndex: number, include: (account: string) => boolean) =>
+    rows
+      .filter((r) => r.balanceType === balanceType && r.yearIndex === yearIndex && include(r.accountNumber))
+      .reduce((total, r) => total + r.amount, 0);
+
+  const yearIndexes = [...new Set(rows.map((r) => r.yearIndex))].sort((a, b) => b - a);
+  for (const yearIndex of yearIndexes) {
+    const hasRows = (balanceType: SIEBalanceType) =>
+      rows.some((r) => r.balanceType === balanceType && r.yearIndex === yearIndex);
+
+    if (hasRows('IB')) {
+      const opening = sum('IB', yearIndex, isBalanceSheetAccount);
+      if (opening !== 0) {
+        diagnostics.push({
+          severity: 'warning',
+          code: 'balance_sheet_not_balanced',
+          message: `Opening balances for year ${yearIndex} sum to ${formatOre(opening)}, not zero`,
+          yearIndex,
+        });
+      }
+    }
+
+    if (hasRows('UB')) {
+      const closing = sum('UB', yearIndex, isBalanceSheetAccount) + sum('RES', yearIndex, isResultAccount);
+      if (closing !== 0) {
+        diagnostics.push({
+          severity: 'warning',
+          code: 'balance_sheet_not_balanced',
+          message: `Closing balances and result for year ${yearIndex} sum to ${formatOre(closing)}, not zero`,
+          yearIndex,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Validate a decoded SIE file.
+ *
+ * Errors: a #KSUMMA that does not match, unbalanced or unterminated #VER
+ * blocks, #TRANS rows on accounts without #KONTO, and verifications dated
+ * outside the current fiscal year (#RAR 0). Warnings: opening balances that
+ * differ from the previous year's closing balances, and balance sheets that
+ * do not sum to zero.
+ */
+export function validateSIE(content: string): SIEValidationReport {
+  const lines = content.replace(/\r\n/g, '\n').split('\n');
+  const diagnostics: SIEDiagnostic[] = [];
+
+  const checksum = verifySIEChecksum(content);
+  if (checksum.status === 'invalid') {
+    diagnostics.push(
+      checksum.expected === undefined
+        ? {
+            severity: 'error',
+            code: 'checksum_incomplete',
+            message: '#KSUMMA is missing its opening record or its closing checksum',
+            line: checksum.line,
+          }
+        : {
+            severity: 'error',
+            code: 'checksum_mismatch',
+            message: `#KSUMMA ${checksum.expected} does not match the computed checksum ${checksum.actual}`,
+            line: checksum.line,
+          },
+    );
+  }
+
+  // Accounts and fiscal years may be declared anywhere in the file
+  const declaredAccounts = new Set<string>();
+  let fiscalYear: { start: string; end: string } | null = null;
+  for (const text of lines) {
+    const parsed = parseLine(text);
+    if (parsed?.label === 'KONTO' && parsed.parts[0]) {
+      declaredAccounts.add(parsed.parts[0]);
+    }
+    if (parsed?.label === 'RAR' && parsed.parts[0] === '0' && parsed.parts[1] && parsed.parts[2]) {
+      fiscalYear = { start: parsed.parts[1], end: parsed.parts[2] };
+    }
+  }
+
+  const balances: BalanceRow[] = [];
+  const reportedAccounts = new Set<string>();
+  let verification: OpenVerification | null = null;
+
+  const closeVerification = (terminated: boolean) => {
+    if (!verification) return;
+    if (!terminated && verification.inBlock) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'unterminated_verification',
+        message: `Verification ${verification.label} has no closing brace`,
+        line: verification.line,
+      });
+    } else if (verification.sum !== 0) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'unbalanced_verification',
+        message: `Verification ${verification.label} does not balance: transactions sum to ${formatOre(verification.sum)}`,
+        line: verification.line,
+      });
+    }
+    verification = null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const lineNumber = i + 1;
+    const trimmed = lines[i]!.trim();
+
+    if (trimmed === '{') {
+      if (verification) verification.inBlock = true;
+      continue;
+    }
+    if (trimmed === '}') {
+      closeVerification(true);
+      continue;
+    }
+
+    const parsed = parseLine(trimmed);
+    if (!parsed) continue;
+    const { label, parts } = parsed;
+
+    switch (label) {
+      case 'IB':
+      case 'UB':
+      case 'RES':
+        if (parts[0] && parts[1] && parts[2]) {
+          balances.push({
+            balanceType: label,
+            yearIndex: parseInt(parts[0], 10),
+            accountNumber: parts[1],
+            amount: toOre(parts[2]),
+            line: lineNumber,
+          });
+        }
+        break;
+
+      case 'VER': {
+        closeVerification(false);
+        const name = [parts[0], parts[1]].filter(Boolean).join(' ') || `on line ${lineNumber}`;
+        const date = parts[2] ?? '';
+        verification = { label: name, line: lineNumber, sum: 0, inBlock: false };
+
+        if (fiscalYear && /^\d{8}$/.test(date) && (date < fiscalYear.start || date > fiscalYear.end)) {
+          diagnostics.push({
+            severity: 'error',
+            code: 'verification_outside_fiscal_year',
+            message: `Verification ${name} is dated ${date}, outside the fiscal year ${fiscalYear.start}–${fiscalYear.end}`,
+            line: lineNumber,
+          });
+        }
+        break;
+      }
+
+      case 'TRANS': {
+        const accountNumber = parts[0] ?? '';
+        if (verification?.inBlock) {
+          verification.sum += toOre(parts[2] ?? '');
+        }
+        if (accountNumber && !declaredAccounts.has(accountNumber) && !reportedAccounts.has(accountNumber)) {
+          reportedAccounts.add(accountNumber);
+          diagnostics.push({
+            severity: 'error',
+            code: 'undeclared_account',
+            message: `Transaction on account ${accountNumber}, which has no #KONTO`,
+            line: lineNumber,
+            accountNumber,
+          });
+        }
+        break;
+      }
+    }
+  }
+  closeVerification(false);
+
+  checkOpeningBalances(balances, diagnostics);
+  checkBalanceSheetTotals(balances, diagnostics);
+
+  const errorCount = diagnostics.filter((d) => d.severity === 'error').length;
+  return {
+    valid: errorCount === 0,
+    checksum: checksum.status,
+    errorCount,
+    warningCount: diagnostics.length - errorCount,
+    diagnostics,
+  };
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { parseSIE } from './parser.js';
+import { calculateVATReturn, vatPeriodDates, vatReturnToESKD, VATReturnError } from './vat.js';
+
+const SIE = parseSIE([
+  '#FLAGGA 0',
+  '#SIETYP 4',
+  '#ORGNR 556677-8899',
+  '#RAR 0 20240101 20241231',
+  '#KONTO 1930 "Företagskonto"',
+  '#KONTO 2440 "Leverantörsskulder"',
+  '#KONTO 2611 "Utgående moms på försäljning inom Sverige, 25 %"',
+  '#KONTO 2614 "Utgående moms omvänd skattskyldighet, 25 %"',
+  '#KONTO 2641 "Debiterad ingående moms"',
+  '#KONTO 2645 "Beräknad ingående moms på förvärv från utlandet"',
+  '#KONTO 2650 "Redovisningskonto för moms"',
+  '#KONTO 3001 "Försäljning inom Sverige, 25 % moms"',
+  '#KONTO 3308 "Försäljning tjänster till annat EU-land"',
+  '#KONTO 4535 "Inköp av tjänster från annat EU-land, 25 %"',
+  '#KONTO 5010 "Lokalhyra"',
+  // Settles the VAT of the previous quarter
+  '#VER A 1 20240112 "Momsredovisning Q4"',
+  '{',
+  '#TRANS 2611 {} 5000.00',
+  '#TRANS 2650 {} -5000.00',
+  '}',
+  '#VER A 2 20240115 "Försäljning"',
+  '{',
+  '#TRANS 1930 {} 12500.50',
+  '#TRANS 3001 {} -10000.40',
+  '#TRANS 2611 {} -2500.10',
+  '}',
+  '#VER A 3 20240220 "Konsulttjänst Tyskland"',
+  '{',
+  '#TRANS 1930 {} 8000.00',
+  '#TRANS 3308 {} -8000.00',
+  '}',
+  '#VER A 4 20240305 "Hyra"',
+  '{',
+  '#TRANS 5010 {} 4000.00',
+  '#TRANS 2641 {} 1000.00',
+  '#TRANS 2440 {} -5000.00',
+  '}',
+  '#VER A 5 20240310 "Programvara från Irland"',
+  '{',
+  '#TRANS 4535 {} 2000.00',
+  '#TRANS 2645 {} 500.00',
+  '#TRANS 2614 {} -500.00',
+  '#TRANS 2440 {} -2000.00',
+  '}',
+  '#VER A 6 20240402 "Försäljning"',
+  '{',
+  '#TRANS 1930 {} 1250.00',
+  '#TRANS 3001 {} -1000.00',
+  '#TRANS 2611 {} -250.00',
+  '}',
+].join('\n'));
+
+describe('vatPeriodDates', () => {
+  it('reads months and quarters', () => {
+    expect(vatPeriodDates('2024-02')).toEqual({ fromDate: '2024-02-01', toDate: '2024-02-29' });
+    expect(vatPeriodDates('2024-Q4')).toEqual({ fromDate: '2024-10-01', toDate: '2024-12-31' });
+    expect(() => vatPeriodDates('2024-13')).toThrow(VATReturnError);
+    expect(() => vatPeriodDates('2024')).toThrow('expected YYYY-MM or YYYY-Qn');
+  });
+});
+
+describe('calculateVATReturn', () => {
+  it('fills in the boxes of a quarter in whole kronor', () => {
+    const report = calculateVATReturn(SIE, '2024-Q1');
+
+    expect(report).toMatchObject({ fromDate: '2024-01-01', toDate: '2024-03-31', orgNumber: '556677-8899' });
+    expect(report.boxes).toMatchObject({
+      '05': 10000,
+      '10': 2500,
+      '21': 2000,
+      '30': 500,
+      '39': 8000,
+      '48': 1500,
+      '49': 1500,
+      '06': 0,
+      '60': 0,
+    });
+    expect(report.explanations['05'].exactAmount).toBe(10000.4);
+    // The settlement of the previous quarter would otherwise cancel box 10
+    expect(report.settlementVerifications).toEqual(['A 1']);
+  });
+
+  it('explains which accounts fed each box', () => {
+    const { explanations } = calculateVATReturn(SIE, '2024-Q1');
+
+    expect(explanations['48'].contributions).toEqual([
+      { accountNumber: '2641', accountName: 'Debiterad ingående moms', amount: 1000 },
+      { accountNumber: '2645', accountName: 'Beräknad ingående moms på förvärv från utlandet', amount: 500 },
+    ]);
+    expect(explanations['10'].ranges).toEqual([{ min: 2610, max: 2613 }, { min: 2616, max: 2616 }]);
+    expect(explanations['49'].inputs).toContain('48');
+  });
+
+  it('only counts the verifications of the period', () => {
+    const { boxes } = calculateVATReturn(SIE, '2024-02');
+    expect(boxes['39']).toBe(8000);
+    expect(boxes['05']).toBe(0);
+    expect(boxes['49']).toBe(0);
+
+    expect(calculateVATReturn(SIE, '2024-04').boxes['49']).toBe(250);
+  });
+});
+
+describe('vatReturnToESKD', () => {
+  it('writes the non-zero boxes in eSKD order', () => {
+    const xml = vatReturnToESKD(calculateVATReturn(SIE, '2024-Q1'));
+
+    expect(xml).toContain('<eSKDUpload Version="6.0">');
+    expect(xml).toContain('<OrgNr>556677-8899</OrgNr>');
+    expect(xml).toContain('<Period>202403</Period>');
+    const elements = [...xml.matchAll(/<(\w+)>-?\d+<\/\1>/g)].map((m) => m[1]);
+    expect(elements).toEqual([
+      'Period',
+      'ForsMomsEjAnnan',
+      'InkopTjanstAnnatEg',
+      'ForsTjSkskAnnatEg',
+      'MomsUtgHog',
+      'MomsInkopUtgHog',
+      'MomsIngAvdr',
+      'MomsBetala',
+    ]);
+    expect(xml).toContain('<MomsBetala>1500</MomsBetala>');
+  });
+
+  it('needs an organization number', () => {
+    const report = { ...calculateVATReturn(SIE, '2024-Q1'), orgNumber: undefined };
+    expect(() => vatReturnToESKD(report)).toThrow(VATReturnError);
+    expect(vatReturnToESKD(report, '165566778899')).toContain('<OrgNr>556677-8899</OrgNr>');
+  });
+});
@@ -0,0 +1,354 @@
+/**
+ * Swedish VAT return (momsdeklaration).
+ *
+ * Fills in the boxes of Skatteverket's VAT return for a month or a quarter
+ * from the verifications of a parsed SIE 4 file, using the BAS standard
+ * accounts for VAT, reverse-charge purchases and sales outside Sweden. The
+ * verification that settles a period's VAT against 2650 is left out, as it
+ * would otherwise cancel the period's VAT. `vatReturnToESKD()` writes the
+ * result as an eSKD file for upload to Skatteverket.
+ */
+import type {
+  SIEParseResult,
+  SIETransaction,
+  SIEVATBox,
+  SIEVATContribution,
+  SIEVATBoxExplanation,
+  SIEVATReturn,
+} from '../types/sie.js';
+import { SWEDISH_ACCOUNTS, isInRange, type AccountRange } from './accounts.js';
+import { roundToOre, isoDate } from './format.js';
+
+export class VATReturnError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VATReturnError';
+  }
+}
+
+interface BoxDefinition {
+  box: Exclude<SIEVATBox, '49'>;
+  label: string;
+  /** Element of the eSKD file */
+  element: string;
+  ranges: AccountRange[];
+  /** -1 for boxes fed by credit amounts: sales and output VAT */
+  sign: 1 | -1;
+}
+
+const range = (min: number, max = min): AccountRange => ({ min, max });
+
+/**
+ * The boxes in the order of the eSKD file. Boxes 37 and 38 (triangular
+ * trade) have no BAS standard account and stay 0.
+ */
+const BOXES: BoxDefinition[] = [
+  {
+    box: '05',
+    label: 'Momspliktig försäljning som inte ingår i ruta 06, 07 eller 08',
+    element: 'ForsMomsEjAnnan',
+    // 3740 is öresutjämning, which is not a sale
+    ranges: [range(3000, 3003), range(3005, 3099), range(3106), range(3500, 3739), range(3741, 3799)],
+    sign: -1,
+  },
+  { box: '06', label: 'Momspliktiga uttag', element: 'UttagMoms', ranges: [range(3401, 3403)], sign: -1 },
+  {
+    box: '07',
+    label: 'Beskattningsunderlag vid vinstmarginalbeskattning',
+    element: 'UlagMargbesk',
+    ranges: [range(3211, 3212)],
+    sign: -1,
+  },
+  {
+    box: '08',
+    label: 'Hyresinkomster vid frivillig skattskyldighet',
+    element: 'HyrinkomstFriv',
+    ranges: [range(3913)],
+    sign: -1,
+  },
+  {
+    box: '20',
+    label: 'Inköp av varor från ett annat EU-land',
+    element: 'InkopVaruAnnatEg',
+    ranges: [range(4515, 4517)],
+    sign: 1,
+  },
+  {
+    box: '21',
+    label: 'Inköp av tjänster från ett annat EU-land enligt huvudregeln',
+    element: 'InkopTjanstAnnatEg',
+    ranges: [range(4535, 4537)],
+    sign: 1,
+  },
+  {
+    box: '22',
+    label: 'Inköp av tjänster från ett land utanför EU',
+    element: 'InkopTjanstUtomEg',
+    ranges: [range(4531, 4533)],
+    sign: 1,
+  },
+  { box: '23', label: 'Inköp av varor i Sverige', element: 'InkopVaruSverige', ranges: [range(4415, 4417)], sign: 1 },
+  { box: '24', label: 'Övriga inköp av tjänster', element: 'InkopTjanstSverige', ranges: [range(4425, 4427)], sign: 1 },
+  {
+    box: '50',
+    label: 'Beskattningsunderlag vid import',
+    element: 'MomsUlagImport',
+    ranges: [range(4545, 4547)],
+    sign: 1,
+  },
+  {
+    box: '35',
+    label: 'Försäljning av varor till ett annat EU-land',
+    element: 'ForsVaruAnnatEg',
+    ranges: [range(3108)],
+    sign: -1,
+  },
+  { box: '36', label: 'Försäljning av varor utanför EU', element: 'ForsVaruUtomEg', ranges: [range(3105)], sign: -1 },
+  {
+    box: '37',
+    label: 'Mellanmans inköp av varor vid trepartshandel',
+    element: 'InkopVaruMellan3p',
+    ranges: [],
+    sign: 1,
+  },
+  {
+    box: '38',
+    label: 'Mellanmans försäljning av varor vid trepartshandel',
+    element: 'ForsVaruMellan3p',
+    ranges: [],
+    sign: -1,
+  },
+  {
+    box: '39',
+    label: 'Försäljning av tjänster till en näringsidkare i ett annat EU-land enligt huvudregeln',
+    element: 'ForsTjSkskAnnatEg',
+    ranges: [range(3308)],
+    sign: -1,
+  },
+  {
+    box: '40',
+    label: 'Övrig försäljning av tjänster omsatta utanför Sverige',
+    element: 'ForsTjOvrUtomEg',
+    ranges: [range(3305)],
+    sign: -1,
+  },
+  {
+    box: '41',
+    label: 'Försäljning när köparen är skattskyldig i Sverige',
+    element: 'ForsKopareSkskSverige',
+    ranges: [range(3231)],
+    sign: -1,
+  },
+  { box: '42', label: 'Övrig försäljning m.m.', element: 'ForsOvrigt', ranges: [range(3004)], sign: -1 },
+  // 2614/2615, 2624/2625 and 2634/2635 are output VAT on reverse-charge
+  // purchases and imports; 2618, 2628 and 2638 hold VAT that is not yet due
+  { box: '10', label: 'Utgående moms 25 %', element: 'MomsUtgHog', ranges: [range(2610, 2613), range(2616)], sign: -1 },
+  { box: '11', label: 'Utgående moms 12 %', element: 'MomsUtgMedel', ranges: [range(2620, 2623), range(2626)], sign: -1 },
+  { box: '12', label: 'Utgående moms 6 %', element: 'MomsUtgLag', ranges: [range(2630, 2633), range(2636)], sign: -1 },
+  {
+    box: '30',
+    label: 'Utgående moms 25 % på inköp i ruta 20-24',
+    element: 'MomsInkopUtgHog',
+    ranges: [range(2614)],
+    sign: -1,
+  },
+  {
+    box: '31',
+    label: 'Utgående moms 12 % på inköp i ruta 20-24',
+    element: 'MomsInkopUtgMedel',
+    ranges: [range(2624)],
+    sign: -1,
+  },
+  {
+    box: '32',
+    label: 'Utgående moms 6 % på inköp i ruta 20-24',
+    element: 'MomsInkopUtgLag',
+    ranges: [range(2634)],
+    sign: -1,
+  },
+  {
+    box: '60',
+    label: 'Utgående moms 25 % på import i ruta 50',
+    element: 'MomsImportUtgHog',
+    ranges: [range(2615)],
+    sign: -1,
+  },
+  {
+    box: '61',
+    label: 'Utgående moms 12 % på import i ruta 50',
+    element: 'MomsImportUtgMedel',
+    ranges: [range(2625)],
+    sign: -1,
+  },
+  {
+    box: '62',
+    label: 'Utgående moms 6 % på import i ruta 50',
+    element: 'MomsImportUtgLag',
+    ranges: [range(2635)],
+    sign: -1,
+  },
+  // 2648 holds input VAT that may not be deducted yet
+  {
+    box: '48',
+    label: 'Ingående moms att dra av',
+    element: 'MomsIngAvdr',
+    ranges: [range(2640, 2647), range(2649)],
+    sign: 1,
+  },
+];
+
+const OUTPUT_VAT_BOXES: SIEVATBox[] = ['10', '11', '12', '30', '31', '32', '60', '61', '62'];
+
+/**
+ * First and last day of a VAT period.
+ *
+ * @param period - A month (`2024-03`) or a quarter (`2024-Q1`)
+ * @throws VATReturnError for any other period
+ */
+export function vatPeriodDates(period: string): { fromDate: string; toDate: string } {
+  const month = /^(\d{4})-(0[1-9]|1[0-2])$/.exec(period);
+  const quarter = /^(\d{4})-Q([1-4])$/.exec(period);
+  if (!month && !quarter) {
+    throw new VATReturnError(`Invalid VAT period "${period}", expected YYYY-MM or YYYY-Qn`);
+  }
+
+  const year = Number((month ?? quarter)![1]);
+  const firstMonth = month ? Number(month[2]) : Number(quarter![2]) * 3 - 2;
+  const lastMonth = month ? firstMonth : firstMonth + 2;
+  // Day 0 of the following month is the last day of this one
+  const lastDay = new Date(Date.UTC(year, lastMonth, 0)).getUTCDate();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return {
+    fromDate: `${year}-${pad(firstMonth)}-01`,
+    toDate: `${year}-${pad(lastMonth)}-${pad(lastDay)}`,
+  };
+}
+
+/**
+ * Fill in the VAT return for a month or a quarter from the verifications
+ * dated in the period.
+ *
+ * Each box adds up the movement on its BAS accounts, with sales and output
+ * VAT turned positive. Boxes are reported in whole kronor with the öre
+ * dropped, and box 49 is the output VAT (10-12, 30-32, 60-62) less the input
+ * VAT (48) of the rounded boxes. Verifications with a row on 2650 settle
+ * an earlier period's VAT and are left out.
+ *
+ * @param period - A month (`2024-03`) or a quarter (`2024-Q1`)
+ * @throws VATReturnError for an invalid period
+ */
+export function calculateVATReturn(data: SIEParseResult, period: string): SIEVATReturn {
+  const { fromDate, toDate } = vatPeriodDates(period);
+
+  const verifications = new Map<string, SIETransaction[]>();
+  for (const transaction of data.transactions) {
+    const date = isoDate(transaction.verificationDate);
+    if (date < fromDate || date > toDate) continue;
+    const key = `${transaction.verificationSeries} ${transaction.verificationNumber}`;
+    const rows = verifications.get(key);
+    if (rows) rows.push(transaction);
+    else verifications.set(key, [transaction]);
+  }
+
+  const movements = new Map<string, number>();
+  const settlementVerifications: string[] = [];
+  for (const [key, rows] of verifications) {
+    if (rows.some((t) => isInRange(t.accountNumber, SWEDISH_ACCOUNTS.VAT.SETTLEMENT))) {
+      settlementVerifications.push(key);
+      continue;
+    }
+    for (const t of rows) movements.set(t.accountNumber, (movements.get(t.accountNumber) ?? 0) + t.amount);
+  }
+
+  const accountNames = new Map(data.accounts.map((a) => [a.accountNumber, a.accountName]));
+  const accountNumbers = [...movements.keys()].sort();
+
+  const explanations = {} as Record<SIEVATBox, SIEVATBoxExplanation>;
+  for (const definition of BOXES) {
+    const contributions: SIEVATContribution[] = accountNumbers
+      .filter((accountNumber) => definition.ranges.some((r) => isInRange(accountNumber, r)))
+      .map((accountNumber) => ({
+        accountNumber,
+        accountName: accountNames.get(accountNumber),
+        amount: roundToOre(movements.get(accountNumber)!),
+      }))
+      .filter((c) => c.amount !== 0);
+    const exactAmount = roundToOre(definition.sign * contributions.reduce((sum, c) => sum + c.amount, 0));
+    explanations[definition.box] = {
+      box: definition.box,
+      label: definition.label,
+      amount: Math.trunc(exactAmount) || 0,
+      exactAmount,
+      ranges: definition.ranges,
+      inputs: [],
+      contributions,
+    };
+  }
+
+  const outputVAT = OUTPUT_VAT_BOXES.reduce((sum, box) => sum + explanations[box].amount, 0);
+  const vatToPay = outputVAT - explanations['48'].amount;
+  explanations['49'] = {
+    box: '49',
+    label: 'Moms att betala eller få tillbaka',
+    amount: vatToPay,
+    exactAmount: roundToOre(
+      OUTPUT_VAT_BOXES.reduce((sum, box) => sum + explanations[box].exactAmount, 0) - explanations['48'].exactAmount,
+    ),
+    ranges: [],
+    inputs: [...OUTPUT_VAT_BOXES, '48'],
+    contributions: [],
+  };
+
+  const boxes = Object.fromEntries(
+    Object.values(explanations).map((e) => [e.box, e.amount]),
+  ) as Record<SIEVATBox, number>;
+
+  return {
+    period,
+    fromDate,
+    toDate,
+    orgNumber: data.metadata.orgNumber,
+    boxes,
+    explanations,
+    settlementVerifications,
+  };
+}
+
+/** Organization number as NNNNNN-NNNN; 12-digit numbers lose their century prefix */
+function formatOrgNumber(orgNumber: string): string {
+  const digits = orgNumber.replace(/\D/g, '');
+  const ten = digits.length === 12 ? digits.slice(2) : digits;
+  if (ten.length !== 10) throw new VATReturnError(`Invalid organization number "${orgNumber}"`);
+  return `${ten.slice(0, 6)}-${ten.slice(6)}`;
+}
+
+/**
+ * Write a VAT return as an eSKD file (DTD version 6.0), the format
+ * Skatteverket accepts for uploaded VAT returns. Boxes that are 0 are left
+ * out, except box 49.
+ *
+ * The file declares ISO-8859-1 and must be written in that encoding.
+ *
+ * @param orgNumber - Overrides the organization number of the SIE file
+ * @throws VATReturnError when there is no valid organization number
+ */
+export function vatReturnToESKD(report: SIEVATReturn, orgNumber = report.orgNumber): string {
+  if (!orgNumber) throw new VATReturnError('An organization number is needed for the eSKD file');
+
+  const lines = [
+    '<?xml version="1.0" encoding="ISO-8859-1"?>',
+    '<!DOCTYPE eSKDUpload PUBLIC "-//Skatteverket, Sweden//DTD Skatteverket eSKDUpload-DTD Version 6.0//SV" ' +
+      '"https://www1.skatteverket.se/demoeskd/eSKDUpload_6p0.dtd">',
+    '<eSKDUpload Version="6.0">',
+    `  <OrgNr>${formatOrgNumber(orgNumber)}</OrgNr>`,
+    '  <Moms>',
+    // The period is named by its last month
+    `    <Period>${report.toDate.slice(0, 4)}${report.toDate.slice(5, 7)}</Period>`,
+  ];
+  for (const definition of BOXES) {
+    const amount = report.boxes[definition.box];
+    if (amount !== 0) lines.push(`    <${definition.element}>${amount}</${definition.element}>`);
+  }
+  lines.push(`    <MomsBetala>${report.boxes['49']}</MomsBetala>`, '  </Moms>', '</eSKDUpload>', '');
+  return lines.join('\n');
+}
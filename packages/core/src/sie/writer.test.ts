@@ -0,0 +1,234 @@
+import { describe, it, expect } from 'vitest';
+import { parseSIE } from './parser.js';
+import { writeSIE, buildSIEFromJournals } from './writer.js';
+import { crc32, computeSIEChecksum } from './checksum.js';
+import { decodeSIEBufferWithEncoding, encodeSIEContent } from './encoding.js';
+import type { JournalDto } from '../types/dto/journal.js';
+import type { AccountingAccountDto } from '../types/dto/accounting-account.js';
+
+const SAMPLE_SIE = `#FLAGGA 0
+#PROGRAM "TestProgram" 1.0
+#FORMAT PC8
+#GEN 20240101
+#SIETYP 4
+#FNAMN "Test AB"
+#ORGNR 5566778899
+#RAR 0 20240101 20241231
+#RAR -1 20230101 20231231
+#KONTO 1910 "Kassa"
+#KONTO 1920 "PlusGiro"
+#KONTO 3010 "Försäljning varor"
+#KONTO 4010 "Inköp varor"
+#SRU 1910 7201
+#OBJEKT 1 10 "Avdelning A"
+#IB 0 1910 5000.00
+#UB 0 1910 8000.00
+#IB -1 1910 2000.00
+#UB 0 3010 -50000.00
+#RES 0 3010 -50000.00
+#RES 0 4010 30000.00
+#VER A 1 20240115 "Försäljning" 20240116
+{
+#TRANS 1910 {1 10} 1000.00
+#TRANS 3010 {} -1000.00 20240115 "Kontant ""extra"""
+}
+#VER B 7 20240120 "Inköp"
+{
+#TRANS 4010 {6 200} 500.00 20240120 "Inköp" 3
+#TRANS 1910 {} -500.00
+}`;
+
+function roundTrip(content: string, options?: Parameters<typeof writeSIE>[1]) {
+  const written = writeSIE(parseSIE(content), { generatedDate: '2024-06-01', ...options });
+  const bytes = encodeSIEContent(written);
+  return { written, bytes, reparsed: parseSIE(decodeSIEBufferWithEncoding(bytes, 'cp437')) };
+}
+
+describe('crc32', () => {
+  it('matches the IEEE check value', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('continues a running checksum', () => {
+    const whole = crc32(Buffer.from('#KONTO1910Kassa'));
+    expect(crc32(Buffer.from('Kassa'), crc32(Buffer.from('#KONTO1910')))).toBe(whole);
+  });
+});
+
+describe('writeSIE', () => {
+  it('round-trips a SIE 4 file through parseSIE', () => {
+    const original = parseSIE(SAMPLE_SIE);
+    const { reparsed } = roundTrip(SAMPLE_SIE);
+
+    expect(reparsed.accounts).toEqual(original.accounts);
+    expect(reparsed.dimensions).toEqual(original.dimensions);
+    expect(reparsed.balances).toEqual(original.balances);
+    expect(reparsed.transactions).toEqual(original.transactions);
+    expect(reparsed.metadata).toEqual({ ...original.metadata, generatedDate: '2024-06-01' });
+  });
+
+  it('writes the header, fiscal years and CRLF line endings', () => {
+    const { written } = roundTrip(SAMPLE_SIE);
+    const lines = written.split('\r\n');
+
+    expect(lines.slice(0, 7)).toEqual([
+      '#FLAGGA 0',
+      '#KSUMMA',
+      '#PROGRAM "arcim-sync" 1.0',
+      '#FORMAT PC8',
+      '#GEN 20240601',
+      '#SIETYP 4',
+      '#ORGNR 5566778899',
+    ]);
+    expect(lines).toContain('#RAR 0 20240101 20241231');
+    expect(lines).toContain('#RAR -1 20230101 20231231');
+    expect(lines).toContain('#DIM 1 "Kostnadsställe"');
+    expect(lines).toContain('#DIM 6 "Projekt"');
+    expect(written.endsWith('\r\n')).toBe(true);
+  });
+
+  it('quotes text fields and escapes quotes the SIE 4B way', () => {
+    const { written } = roundTrip(SAMPLE_SIE);
+    expect(written).toContain('#FNAMN "Test AB"');
+    expect(written).toContain('#TRANS 3010 {} -1000.00 20240115 "Kontant \\"extra\\""');
+    expect(written).toContain('#TRANS 1910 {1 10} 1000.00\r\n');
+    expect(written).toContain('#TRANS 4010 {6 200} 500.00 20240120 "Inköp" 3');
+  });
+
+  it('quotes object ids that contain spaces', () => {
+    const data = parseSIE(SAMPLE_SIE);
+    data.transactions[0]!.objects = [{ dimensionType: 1, code: 'Syd 1' }];
+    const written = writeSIE(data);
+
+    expect(written).toContain('{1 "Syd 1"}');
+    expect(parseSIE(written).transactions[0]!.costCenter).toBe('Syd 1');
+  });
+
+  it('encodes Swedish characters as PC8', () => {
+    const { bytes } = roundTrip(SAMPLE_SIE);
+    // 'ö' is 0x94 and 'ä' is 0x84 in CP437
+    expect(bytes.includes(Buffer.from([0x94]))).toBe(true);
+    expect(bytes.includes(Buffer.from([0x84]))).toBe(true);
+    expect(bytes.includes(Buffer.from('ö', 'utf8'))).toBe(false);
+  });
+
+  it('closes with a #KSUMMA over the records in between', () => {
+    const { written } = roundTrip(SAMPLE_SIE);
+    const lines = written.trimEnd().split('\r\n');
+    const closing = lines[lines.length - 1]!;
+    expect(closing).toMatch(/^#KSUMMA \d+$/);
+
+    // Recompute from the parsed-back record contents
+    const records = lines
+      .slice(2, -1)
+      .filter((line) => line.startsWith('#'))
+      .map((line) => {
+        const values: string[] = [];
+        const pattern = /"((?:[^"\\]|\\")*)"|[{}]|([^\s{}"]+)/g;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(line)) !== null) {
+          if (match[1] !== undefined) values.push(match[1].replace(/\\"/g, '"'));
+          else if (match[2] !== undefined) values.push(match[2]);
+        }
+        return values;
+      });
+    expect(closing).toBe(`#KSUMMA ${computeSIEChecksum(records)}`);
+  });
+
+  it('writes period balances, budgets and subdimensions', () => {
+    const content = [
+      '#FLAGGA 0',
+      '#SIETYP 3',
+      '#FNAMN "Period AB"',
+      '#RAR 0 20240101 20241231',
+      '#DIM 6 "Projekt"',
+      '#UNDERDIM 21 "Delprojekt" 6',
+      '#OBJEKT 21 "P1-A" "Etapp A"',
+      '#BUDGET 0 3010 -300000.00',
+      '#PSALDO 0 202401 3010 {} -20000.00',
+      '#PSALDO 0 202401 3010 {21 "P1-A"} -5000.00 4',
+      '#PBUDGET 0 202401 3010 {} -25000.00',
+    ].join('\n');
+    const original = parseSIE(content);
+
+    const type3 = writeSIE(original);
+    expect(type3).toContain('#UNDERDIM 21 "Delprojekt" 6');
+    expect(type3.indexOf('#DIM 6 "Projekt"')).toBeLessThan(type3.indexOf('#UNDERDIM'));
+    const reparsed = parseSIE(type3);
+    expect(reparsed.dimensionDefinitions).toEqual(original.dimensionDefinitions);
+    expect(reparsed.periodBalances).toEqual(original.periodBalances);
+    expect(reparsed.periodBudgets).toEqual(original.periodBudgets);
+    expect(reparsed.budgets).toEqual(original.budgets);
+
+    // Type 2 has no objects; type 1 has no period rows at all
+    const type2 = parseSIE(writeSIE(original, { sieType: 2 }));
+    expect(type2.periodBalances.map((b) => b.amount)).toEqual([-20000]);
+    expect(parseSIE(writeSIE(original, { sieType: 1 })).periodBalances).toHaveLength(0);
+  });
+
+  it('can leave out the checksum', () => {
+    const written = writeSIE(parseSIE(SAMPLE_SIE), { checksum: false });
+    expect(written).not.toContain('#KSUMMA');
+  });
+
+  it('limits content to what the SIE type carries', () => {
+    const type1 = writeSIE(parseSIE(SAMPLE_SIE), { sieType: 1 });
+    expect(type1).toContain('#SIETYP 1');
+    expect(type1).toContain('#UB 0 1910 8000.00');
+    expect(type1).not.toContain('#OBJEKT');
+    expect(type1).not.toContain('#VER');
+
+    const type3 = writeSIE(parseSIE(SAMPLE_SIE), { sieType: 3 });
+    expect(type3).toContain('#OBJEKT 1 10 "Avdelning A"');
+    expect(type3).not.toContain('#VER');
+    expect(parseSIE(type3).transactions).toHaveLength(0);
+  });
+});
+
+describe('buildSIEFromJournals', () => {
+  const accounts: AccountingAccountDto[] = [
+    { accountNumber: '1930', name: 'Företagskonto', active: true, sruCode: '7281' },
+    { accountNumber: '6570', name: 'Bankkostnader', active: true },
+  ];
+
+  const journals: JournalDto[] = [
+    {
+      id: 'A-1',
+      journalNumber: '1',
+      series: { id: 'A' },
+      description: 'Bankavgift',
+      registrationDate: '2024-01-31',
+      entries: [
+        {
+          accountNumber: '6570',
+          debit: 50,
+          credit: 0,
+          financialDimensions: [{ dimensionId: '1', dimensionValueId: '10' }],
+        },
+        { accountNumber: '1930', debit: 0, credit: 50 },
+      ],
+    },
+  ];
+
+  it('builds SIE 4 data that writes and parses back', () => {
+    const data = buildSIEFromJournals(journals, accounts, {
+      companyName: 'Bank AB',
+      orgNumber: '556000-0000',
+      fiscalYearStart: '2024-01-01',
+      fiscalYearEnd: '2024-12-31',
+    });
+    const reparsed = parseSIE(writeSIE(data));
+
+    expect(reparsed.metadata.companyName).toBe('Bank AB');
+    expect(reparsed.metadata.fiscalYearEnd).toBe('2024-12-31');
+    expect(reparsed.accounts).toEqual([
+      { accountNumber: '1930', accountName: 'Företagskonto', accountGroup: '1 - Tillgångar', taxCode: '7281' },
+      { accountNumber: '6570', accountName: 'Bankkostnader', accountGroup: '6 - Övriga externa rörelseutgifter och kostnader', taxCode: undefined },
+    ]);
+    expect(reparsed.transactions.map((t) => [t.verificationSeries, t.verificationNumber, t.accountNumber, t.amount, t.costCenter])).toEqual([
+      ['A', '1', '6570', 50, '10'],
+      ['A', '1', '1930', -50, ''],
+    ]);
+    expect(reparsed.transactions[0]!.verificationDate).toBe('20240131');
+  });
+});
@@ -0,0 +1,390 @@
+/**
+ * SIE file writer.
+ *
+ * Emits SIE 1–4 from a `SIEParseResult` — either one we stored after
+ * parsing, or one assembled from gateway DTOs with `buildSIEFromJournals()`.
+ * The output is meant to be encoded as PC8 with `encodeSIEContent()` and
+ * reads back through `parseSIE()` unchanged.
+ */
+import type {
+  SIEParseResult,
+  SIETextType,
+  SIETransaction,
+  SIEMetadata,
+  SIEObjectReference,
+  SIEPeriodBalance,
+} from '../types/sie.js';
+import type { JournalDto } from '../types/dto/journal.js';
+import type { AccountingAccountDto } from '../types/dto/accounting-account.js';
+import { computeSIEChecksum } from './checksum.js';
+import { getAccountGroup } from './parser.js';
+
+/** Names used for #DIM when the source data carries no dimension names. */
+const STANDARD_DIMENSIONS: Record<number, string> = {
+  1: 'Kostnadsställe',
+  2: 'Kostnadsbärare',
+  6: 'Projekt',
+  7: 'Anställd',
+  8: 'Kund',
+  9: 'Leverantör',
+  10: 'Faktura',
+};
+
+export interface WriteSIEOptions {
+  /** SIE type to emit. Defaults to the type in the metadata, else 4. */
+  sieType?: SIETextType;
+  /** #PROGRAM name and version */
+  program?: { name: string; version: string };
+  /** #GEN date (YYYY-MM-DD). Defaults to today. */
+  generatedDate?: string;
+  /** Wrap the records in #KSUMMA. Default: true */
+  checksum?: boolean;
+}
+
+/** A field written bare when possible, always quoted, or as a {} object list */
+type Field = string | { text: string } | string[];
+
+interface SIERecord {
+  label: string;
+  fields: Field[];
+}
+
+function sanitize(value: string): string {
+  return value.replace(/[\r\n\t]+/g, ' ');
+}
+
+function quote(value: string): string {
+  return `"${sanitize(value).replace(/"/g, '\\"')}"`;
+}
+
+/** Bare token unless it is empty or contains characters that need quoting */
+function token(value: string): string {
+  return /^[^\s"{}]+$/.test(value) ? value : quote(value);
+}
+
+function renderField(field: Field): string {
+  if (Array.isArray(field)) return `{${field.map(token).join(' ')}}`;
+  if (typeof field === 'object') return quote(field.text);
+  return token(field);
+}
+
+function renderRecord(record: SIERecord): string {
+  return [`#${record.label}`, ...record.fields.map(renderField)].join(' ');
+}
+
+function checksumValues(record: SIERecord): string[] {
+  const values = [`#${record.label}`];
+  for (const field of record.fields) {
+    if (Array.isArray(field)) values.push(...field.map(sanitize));
+    else values.push(sanitize(typeof field === 'object' ? field.text : field));
+  }
+  return values;
+}
+
+function formatAmount(amount: number): string {
+  const rounded = Math.round(amount * 100) / 100;
+  return (Object.is(rounded, -0) ? 0 : rounded).toFixed(2);
+}
+
+/** YYYY-MM-DD or YYYYMMDD → YYYYMMDD */
+function toSIEDate(date: string): string {
+  return date.replace(/-/g, '').slice(0, 8);
+}
+
+/** Shift a YYYY-MM-DD date by whole years, for #RAR rows of earlier fiscal years. */
+function shiftYears(date: string, years: number): string {
+  const [year, rest] = [date.slice(0, 4), date.slice(4)];
+  return `${Number(year) + years}${rest}`;
+}
+
+function renderObjects(objects: SIEObjectReference[]): string[] {
+  return objects.flatMap((o) => [String(o.dimensionType), o.code]);
+}
+
+function transactionObjects(transaction: SIETransaction): SIEObjectReference[] {
+  if (transaction.objects) return transaction.objects;
+  // Stored before transactions kept their full object list
+  const objects: SIEObjectReference[] = [];
+  if (transaction.costCenter) objects.push({ dimensionType: 1, code: transaction.costCenter });
+  if (transaction.project) objects.push({ dimensionType: 6, code: transaction.project });
+  return objects;
+}
+
+function periodBalanceRecord(label: string, balance: SIEPeriodBalance): SIERecord {
+  const fields: Field[] = [
+    String(balance.yearIndex),
+    balance.period,
+    balance.accountNumber,
+    renderObjects(balance.objects),
+    formatAmount(balance.amount),
+  ];
+  if (balance.quantity !== undefined) fields.push(String(balance.quantity));
+  return { label, fields };
+}
+
+function resolveSIEType(data: SIEParseResult, options?: WriteSIEOptions): SIETextType {
+  if (options?.sieType) return options.sieType;
+  const fromMetadata = Number(data.metadata.sieType);
+  return fromMetadata >= 1 && fromMetadata <= 4 ? (fromMetadata as SIETextType) : 4;
+}
+
+function headerRecords(metadata: SIEMetadata, sieType: SIETextType, options?: WriteSIEOptions): SIERecord[] {
+  const program = options?.program ?? { name: 'arcim-sync', version: '1.0' };
+  const generated = options?.generatedDate ?? new Date().toISOString().slice(0, 10);
+
+  const records: SIERecord[] = [
+    { label: 'PROGRAM', fields: [{ text: program.name }, program.version] },
+    { label: 'FORMAT', fields: ['PC8'] },
+    { label: 'GEN', fields: [toSIEDate(generated)] },
+    { label: 'SIETYP', fields: [String(sieType)] },
+  ];
+  if (metadata.orgNumber) {
+    records.push({ label: 'ORGNR', fields: [metadata.orgNumber] });
+  }
+  records.push({ label: 'FNAMN', fields: [{ text: metadata.companyName }] });
+  return records;
+}
+
+function fiscalYearRecords(data: SIEParseResult): SIERecord[] {
+  const { fiscalYearStart, fiscalYearEnd } = data.metadata;
+  if (!fiscalYearStart || !fiscalYearEnd) return [];
+
+  const yearIndexes = new Set([0, ...data.balances.map((b) => b.yearIndex)]);
+  return [...yearIndexes]
+    .sort((a, b) => b - a)
+    .map((yearIndex) => ({
+      label: 'RAR',
+      fields: [
+        String(yearIndex),
+        toSIEDate(shiftYears(fiscalYearStart, yearIndex)),
+        toSIEDate(shiftYears(fiscalYearEnd, yearIndex)),
+      ],
+    }));
+}
+
+/** Verification blocks, as #VER/#TRANS records between brace lines */
+function verificationLines(transactions: SIETransaction[]): Array<SIERecord | '{' | '}'> {
+  const lines: Array<SIERecord | '{' | '}'> = [];
+  let current = null as { key: string; date: string; text: string } | null;
+
+  for (const transaction of transactions) {
+    const key = `${transaction.verificationSeries}\u0000${transaction.verificationNumber}`;
+    if (current?.key !== key) {
+      if (current) lines.push('}');
+      current = {
+        key,
+        date: toSIEDate(transaction.verificationDate),
+        text: transaction.verificationText,
+      };
+      const fields: Field[] = [
+        transaction.verificationSeries,
+        transaction.verificationNumber,
+        current.date,
+        { text: current.text },
+      ];
+      if (transaction.registrationDate) fields.push(toSIEDate(transaction.registrationDate));
+      lines.push({ label: 'VER', fields }, '{');
+    }
+
+    const fields: Field[] = [
+      transaction.accountNumber,
+      renderObjects(transactionObjects(transaction)),
+      formatAmount(transaction.amount),
+    ];
+    const rowText = transaction.rowText || transaction.verificationText;
+    // Date and text are only needed when they differ from the verification, or to reach the quantity field
+    if (transaction.quantity !== undefined || rowText !== current.text) {
+      fields.push(current.date, { text: rowText });
+    }
+    if (transaction.quantity !== undefined) {
+      fields.push(String(transaction.quantity));
+    }
+    lines.push({ label: 'TRANS', fields });
+  }
+
+  if (current) lines.push('}');
+  return lines;
+}
+
+/** #DIM and #UNDERDIM records for every dimension declared or referenced by an object */
+function dimensionRecords(data: SIEParseResult, sieType: SIETextType): SIERecord[] {
+  const definitions = new Map(data.dimensionDefinitions.map((d) => [d.dimensionType, d]));
+  const used = new Set([
+    ...data.dimensionDefinitions.map((d) => d.dimensionType),
+    ...data.dimensions.map((d) => d.dimensionType),
+    ...data.periodBalances.flatMap((b) => b.objects.map((o) => o.dimensionType)),
+    ...data.periodBudgets.flatMap((b) => b.objects.map((o) => o.dimensionType)),
+    ...(sieType === 4 ? data.transactions : []).flatMap((t) =>
+      transactionObjects(t).map((o) => o.dimensionType),
+    ),
+  ]);
+
+  const dims: SIERecord[] = [];
+  const subdims: SIERecord[] = [];
+  for (const dimensionType of [...used].sort((a, b) => a - b)) {
+    const definition = definitions.get(dimensionType);
+    const name = definition?.name ?? STANDARD_DIMENSIONS[dimensionType] ?? `Dimension ${dimensionType}`;
+    if (definition?.parentDimensionType !== undefined) {
+      subdims.push({
+        label: 'UNDERDIM',
+        fields: [String(dimensionType), { text: name }, String(definition.parentDimensionType)],
+      });
+    } else {
+      dims.push({ label: 'DIM', fields: [String(dimensionType), { text: name }] });
+    }
+  }
+  // Subdimensions refer to their superior dimension, so it goes first
+  return [...dims, ...subdims];
+}
+
+/**
+ * Write a SIE file of the given type (1–4).
+ *
+ * Every type carries accounts and year balances; type 2 adds period
+ * balances and budgets, types 3 and 4 add dimensions, objects and
+ * per-object period balances, and type 4 adds verifications. Returns the file
+ * as a string with CRLF line endings — encode it with `encodeSIEContent()`
+ * before handing it out, since the file declares `#FORMAT PC8`.
+ */
+export function writeSIE(data: SIEParseResult, options?: WriteSIEOptions): string {
+  const sieType = resolveSIEType(data, options);
+  const { metadata } = data;
+
+  const records: SIERecord[] = [
+    ...headerRecords(metadata, sieType, options),
+    ...fiscalYearRecords(data),
+  ];
+  if (metadata.omfattnDate) {
+    records.push({ label: 'OMFATTN', fields: [toSIEDate(metadata.omfattnDate)] });
+  }
+  if (metadata.currency && metadata.currency !== 'SEK') {
+    records.push({ label: 'VALUTA', fields: [metadata.currency] });
+  }
+
+  for (const account of data.accounts) {
+    records.push({ label: 'KONTO', fields: [account.accountNumber, { text: account.accountName }] });
+  }
+  for (const account of data.accounts) {
+    if (account.taxCode) records.push({ label: 'SRU', fields: [account.accountNumber, account.taxCode] });
+  }
+
+  if (sieType >= 3) {
+    records.push(...dimensionRecords(data, sieType));
+    for (const dimension of data.dimensions) {
+      records.push({
+        label: 'OBJEKT',
+        fields: [String(dimension.dimensionType), dimension.code, { text: dimension.name }],
+      });
+    }
+  }
+
+  for (const balance of data.balances) {
+    const fields: Field[] = [String(balance.yearIndex), balance.accountNumber, formatAmount(balance.amount)];
+    if (balance.quantity !== undefined) fields.push(String(balance.quantity));
+    records.push({ label: balance.balanceType, fields });
+  }
+
+  if (sieType >= 2) {
+    for (const budget of data.budgets) {
+      const fields: Field[] = [String(budget.yearIndex), budget.accountNumber, formatAmount(budget.amount)];
+      if (budget.quantity !== undefined) fields.push(String(budget.quantity));
+      records.push({ label: 'BUDGET', fields });
+    }
+    // Type 2 has no objects, so only the whole-account rows apply
+    const forType = (balance: SIEPeriodBalance) => sieType >= 3 || balance.objects.length === 0;
+    for (const balance of data.periodBalances.filter(forType)) {
+      records.push(periodBalanceRecord('PSALDO', balance));
+    }
+    for (const budget of data.periodBudgets.filter(forType)) {
+      records.push(periodBalanceRecord('PBUDGET', budget));
+    }
+  }
+
+  const body: Array<SIERecord | '{' | '}'> = [
+    ...records,
+    ...(sieType === 4 ? verificationLines(data.transactions) : []),
+  ];
+  const rendered = body.map((line) => (typeof line === 'string' ? line : renderRecord(line)));
+
+  const lines = ['#FLAGGA 0'];
+  if (options?.checksum ?? true) {
+    const sum = computeSIEChecksum(
+      body.flatMap((line) => (typeof line === 'string' ? [] : [checksumValues(line)])),
+    );
+    lines.push('#KSUMMA', ...rendered, `#KSUMMA ${sum}`);
+  } else {
+    lines.push(...rendered);
+  }
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+export interface BuildSIEFromJournalsOptions {
+  companyName: string;
+  orgNumber?: string;
+  currency?: string;
+  /** Fiscal year boundaries (YYYY-MM-DD) for #RAR 0 */
+  fiscalYearStart?: string;
+  fiscalYearEnd?: string;
+}
+
+/**
+ * Assemble SIE 4 data from journals and the chart of accounts fetched
+ * through the gateway. Debit/credit entries become signed #TRANS amounts;
+ * financial dimensions with numeric ids become objects, and 1 and 6 also
+ * fill in cost center and project. Journals carry
+ * no balances, so the result has none.
+ */
+export function buildSIEFromJournals(
+  journals: JournalDto[],
+  accounts: AccountingAccountDto[],
+  options: BuildSIEFromJournalsOptions,
+): SIEParseResult {
+  const transactions: SIETransaction[] = [];
+  for (const journal of journals) {
+    const verificationText = journal.description ?? '';
+    for (const entry of journal.entries) {
+      const objects: SIEObjectReference[] = (entry.financialDimensions ?? [])
+        .filter((d) => /^\d+$/.test(d.dimensionId))
+        .map((d) => ({ dimensionType: Number(d.dimensionId), code: d.dimensionValueId }));
+      const dimension = (type: number) => objects.find((o) => o.dimensionType === type)?.code ?? '';
+      transactions.push({
+        verificationSeries: journal.series?.id ?? 'A',
+        verificationNumber: journal.journalNumber,
+        verificationDate: toSIEDate(journal.registrationDate),
+        verificationText,
+        accountNumber: entry.accountNumber,
+        amount: Math.round((entry.debit - entry.credit) * 100) / 100,
+        costCenter: dimension(1),
+        project: dimension(6),
+        objects,
+        rowText: entry.description ?? verificationText,
+      });
+    }
+  }
+
+  return {
+    metadata: {
+      companyName: options.companyName,
+      currency: options.currency ?? 'SEK',
+      generatedDate: null,
+      sieType: '4',
+      fiscalYearStart: options.fiscalYearStart ?? null,
+      fiscalYearEnd: options.fiscalYearEnd ?? null,
+      orgNumber: options.orgNumber,
+    },
+    accounts: accounts.map((account) => ({
+      accountNumber: account.accountNumber,
+      accountName: account.name,
+      accountGroup: getAccountGroup(account.accountNumber),
+      taxCode: account.sruCode,
+    })),
+    dimensions: [],
+    dimensionDefinitions: [],
+    transactions,
+    balances: [],
+    periodBalances: [],
+    periodBudgets: [],
+    budgets: [],
+  };
+}
@@ -0,0 +1,249 @@
+/**
+ * Minimal non-validating XML reader for SIE 5 documents.
+ *
+ * Covers what SIE 5 files use: elements, attributes, text, CDATA, comments,
+ * processing instructions and the predefined and numeric character
+ * references. DTDs are skipped, not interpreted. Namespace prefixes are kept
+ * apart from the local name, so `ds:Signature` reads as `Signature`.
+ */
+
+export interface XmlElement {
+  /** Local name, without the namespace prefix */
+  name: string;
+  prefix?: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  /** Text directly inside the element, trimmed */
+  text: string;
+  /** 1-based position of the start tag */
+  line: number;
+  column: number;
+}
+
+export class XmlParseError extends Error {
+  constructor(
+    /** What is wrong, without the position */
+    public readonly reason: string,
+    public readonly line: number,
+    public readonly column: number,
+  ) {
+    super(`${reason} (line ${line}, column ${column})`);
+    this.name = 'XmlParseError';
+  }
+}
+
+const ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+const NAME = /[A-Za-z_][\w.:-]*/y;
+
+/** Far deeper than any SIE 5 file nests, well short of the call stack limit */
+const MAX_DEPTH = 256;
+
+/** The Char production of XML 1.0 */
+function isXmlChar(codePoint: number): boolean {
+  return codePoint === 0x9 || codePoint === 0xa || codePoint === 0xd
+    || (codePoint >= 0x20 && codePoint <= 0xd7ff)
+    || (codePoint >= 0xe000 && codePoint <= 0xfffd)
+    || (codePoint >= 0x10000 && codePoint <= 0x10ffff);
+}
+
+class XmlReader {
+  private pos = 0;
+  // Line counting runs forward from the last position asked for
+  private scanned = 0;
+  private line = 1;
+  private lineStart = 0;
+
+  constructor(private readonly content: string) {}
+
+  fail(message: string, at = this.pos): never {
+    const { line, column } = this.position(at);
+    throw new XmlParseError(message, line, column);
+  }
+
+  position(at: number): { line: number; column: number } {
+    if (at < this.scanned) {
+      this.scanned = 0;
+      this.line = 1;
+      this.lineStart = 0;
+    }
+    for (let i = this.scanned; i < at; i++) {
+      if (this.content.charCodeAt(i) === 10) {
+        this.line++;
+        this.lineStart = i + 1;
+      }
+    }
+    this.scanned = at;
+    return { line: this.line, column: at - this.lineStart + 1 };
+  }
+
+  readDocument(): XmlElement {
+    let root: XmlElement | undefined;
+    // A leading byte order mark is not content
+    if (this.content.startsWith('\uFEFF')) this.pos = 1;
+
+    while (this.pos < this.content.length) {
+      if (this.skipMarkup()) continue;
+      if (this.content.startsWith('<', this.pos)) {
+        if (root) this.fail('Content after the root element');
+        root = this.readElement();
+        continue;
+      }
+      if (!/\s/.test(this.content[this.pos]!)) this.fail('Text outside the root element');
+      this.pos++;
+    }
+
+    if (!root) this.fail('No root element');
+    return root;
+  }
+
+  /** Skip a comment, processing instruction or DOCTYPE at the current position */
+  private skipMarkup(): boolean {
+    for (const [open, close] of [
+      ['<!--', '-->'],
+      ['<?', '?>'],
+      ['<!DOCTYPE', '>'],
+    ] as const) {
+      if (this.content.startsWith(open, this.pos)) {
+        const end = this.content.indexOf(close, this.pos + open.length);
+        if (end < 0) this.fail(`Unterminated ${open}`);
+        this.pos = end + close.length;
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private readName(): string {
+    NAME.lastIndex = this.pos;
+    const match = NAME.exec(this.content);
+    if (!match) this.fail('Expected a name');
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  private skipSpace(): void {
+    while (/\s/.test(this.content[this.pos] ?? '')) this.pos++;
+  }
+
+  private readElement(depth = 1): XmlElement {
+    const start = this.pos;
+    if (depth > MAX_DEPTH) this.fail(`Elements nested deeper than ${MAX_DEPTH} levels`);
+    this.pos++; // <
+    const qualifiedName = this.readName();
+    const colon = qualifiedName.indexOf(':');
+    const element: XmlElement = {
+      name: colon < 0 ? qualifiedName : qualifiedName.slice(colon + 1),
+      prefix: colon < 0 ? undefined : qualifiedName.slice(0, colon),
+      attributes: {},
+      children: [],
+      text: '',
+      ...this.position(start),
+    };
+
+    for (;;) {
+      this.skipSpace();
+      if (this.content.startsWith('/>', this.pos)) {
+        this.pos += 2;
+        return element;
+      }
+      if (this.content[this.pos] === '>') {
+        this.pos++;
+        break;
+      }
+      if (this.pos >= this.content.length) this.fail(`Unterminated start tag <${qualifiedName}>`, start);
+
+      const attribute = this.readName();
+      this.skipSpace();
+      if (this.content[this.pos] !== '=') this.fail(`Expected = after attribute ${attribute}`);
+      this.pos++;
+      this.skipSpace();
+      const quote = this.content[this.pos];
+      if (quote !== '"' && quote !== "'") this.fail(`Expected a quoted value for attribute ${attribute}`);
+      const end = this.content.indexOf(quote, this.pos + 1);
+      if (end < 0) this.fail(`Unterminated value for attribute ${attribute}`);
+      // Attributes are looked up by local name
+      const attributeColon = attribute.indexOf(':');
+      const attributeName = attributeColon < 0 ? attribute : attribute.slice(attributeColon + 1);
+      element.attributes[attributeName] = this.decode(this.content.slice(this.pos + 1, end), this.pos + 1);
+      this.pos = end + 1;
+    }
+
+    let text = '';
+    for (;;) {
+      if (this.pos >= this.content.length) this.fail(`Element <${qualifiedName}> is never closed`, start);
+
+      if (this.content.startsWith('</', this.pos)) {
+        const closeStart = this.pos;
+        this.pos += 2;
+        const closing = this.readName();
+        if (closing !== qualifiedName) {
+          this.fail(`Expected </${qualifiedName}> but found </${closing}>`, closeStart);
+        }
+        this.skipSpace();
+        if (this.content[this.pos] !== '>') this.fail(`Unterminated end tag </${closing}>`);
+        this.pos++;
+        element.text = text.trim();
+        return element;
+      }
+      if (this.content.startsWith('<![CDATA[', this.pos)) {
+        const end = this.content.indexOf(']]>', this.pos);
+        if (end < 0) this.fail('Unterminated CDATA section');
+        text += this.content.slice(this.pos + 9, end);
+        this.pos = end + 3;
+        continue;
+      }
+      if (this.skipMarkup()) continue;
+      if (this.content[this.pos] === '<') {
+        element.children.push(this.readElement(depth + 1));
+        continue;
+      }
+
+      const next = this.content.indexOf('<', this.pos);
+      const end = next < 0 ? this.content.length : next;
+      text += this.decode(this.content.slice(this.pos, end), this.pos);
+      this.pos = end;
+    }
+  }
+
+  private decode(value: string, at: number): string {
+    return value.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);|&/g, (match, reference: string | undefined, offset: number) => {
+      if (!reference) this.fail('Unescaped &', at + offset);
+      if (reference.startsWith('#')) {
+        const codePoint = reference.startsWith('#x')
+          ? parseInt(reference.slice(2), 16)
+          : parseInt(reference.slice(1), 10);
+        if (!isXmlChar(codePoint)) this.fail(`Invalid character reference ${match}`, at + offset);
+        return String.fromCodePoint(codePoint);
+      }
+      const entity = ENTITIES[reference];
+      if (entity === undefined) this.fail(`Unknown entity ${match}`, at + offset);
+      return entity;
+    });
+  }
+}
+
+/**
+ * Parse an XML document into its root element.
+ *
+ * @throws XmlParseError if the document is not well-formed
+ */
+export function parseXml(content: string): XmlElement {
+  return new XmlReader(content).readDocument();
+}
+
+/** Child elements with the given local name */
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter((child) => child.name === name);
+}
+
+/** First child element with the given local name */
+export function childElement(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find((child) => child.name === name);
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { parseCronExpression, isValidCronExpression, nextCronRun } from './cron.js';
+
+describe('parseCronExpression', () => {
+  it('expands wildcards, lists, ranges and steps', () => {
+    const schedule = parseCronExpression('*/15 9-11 1,15 * 1-5');
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([9, 10, 11]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect(schedule.months.size).toBe(12);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('treats day-of-week 7 as Sunday', () => {
+    expect([...parseCronExpression('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseCronExpression('0 0 * *')).toThrow('5 fields');
+    expect(() => parseCronExpression('60 * * * *')).toThrow('minute');
+    expect(() => parseCronExpression('* * * 0 *')).toThrow('month');
+    expect(() => parseCronExpression('*/0 * * * *')).toThrow('step');
+    expect(isValidCronExpression('0 3 * * *')).toBe(true);
+    expect(isValidCronExpression('nightly')).toBe(false);
+  });
+});
+
+describe('nextCronRun', () => {
+  it('finds the next matching minute strictly after the given time', () => {
+    const next = nextCronRun('0 3 * * *', new Date('2024-03-15T03:00:00Z'));
+    expect(next!.toISOString()).toBe('2024-03-16T03:00:00.000Z');
+  });
+
+  it('handles steps within the hour', () => {
+    const next = nextCronRun('*/15 * * * *', new Date('2024-03-15T10:07:30Z'));
+    expect(next!.toISOString()).toBe('2024-03-15T10:15:00.000Z');
+  });
+
+  it('rolls over months and years', () => {
+    const next = nextCronRun('30 6 1 1 *', new Date('2024-03-15T00:00:00Z'));
+    expect(next!.toISOString()).toBe('2025-01-01T06:30:00.000Z');
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // 2024-03-15 is a Friday; the 20th is the next "day 20" and Monday the 18th comes first
+    const next = nextCronRun('0 0 20 * 1', new Date('2024-03-15T12:00:00Z'));
+    expect(next!.toISOString()).toBe('2024-03-18T00:00:00.000Z');
+  });
+
+  it('treats a day field stepping over its full range as unrestricted', () => {
+    // Only Mondays, not "every day or Monday"
+    const next = nextCronRun('0 0 */1 * 1', new Date('2024-03-15T12:00:00Z'));
+    expect(next!.toISOString()).toBe('2024-03-18T00:00:00.000Z');
+    expect(nextCronRun('0 0 */1 * 1', next!)!.toISOString()).toBe('2024-03-25T00:00:00.000Z');
+  });
+
+  it('returns null for dates that never occur', () => {
+    expect(nextCronRun('0 0 31 2 *', new Date('2024-01-01T00:00:00Z'))).toBeNull();
+  });
+});
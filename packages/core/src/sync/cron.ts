@@ -0,0 +1,144 @@
+/**
+ * Minimal 5-field cron support (minute hour day-of-month month day-of-week),
+ * evaluated in UTC. Supports `*`, lists (`1,15`), ranges (`1-5`) and steps
+ * (`*\/15`, `0-30/10`). Day-of-week accepts 0-7 where both 0 and 7 are Sunday.
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Standard cron semantics: when both day fields are restricted, either may match */
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day-of-month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day-of-week', min: 0, max: 7 },
+] as const;
+
+/** How far ahead nextCronRun searches before giving up (e.g. `0 0 31 2 *`). */
+const MAX_LOOKAHEAD_DAYS = 366 * 5;
+
+function parseField(expr: string, field: (typeof FIELDS)[number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of expr.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepPart}" in cron ${field.name} field`);
+    }
+
+    let from: number;
+    let to: number;
+    if (rangePart === '*') {
+      from = field.min;
+      to = field.max;
+    } else if (rangePart?.includes('-')) {
+      const [a, b] = rangePart.split('-');
+      from = Number(a);
+      to = Number(b);
+    } else {
+      from = Number(rangePart);
+      to = stepPart === undefined ? from : field.max;
+    }
+
+    if (
+      !Number.isInteger(from) || !Number.isInteger(to) ||
+      from < field.min || to > field.max || from > to
+    ) {
+      throw new Error(`Invalid value "${part}" in cron ${field.name} field`);
+    }
+
+    for (let v = from; v <= to; v += step) values.add(v);
+  }
+
+  return values;
+}
+
+/**
+ * Parse a 5-field cron expression. Throws with a descriptive message when invalid.
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields, got ${parts.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) =>
+    parseField(part, FIELDS[i]!),
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+  // Normalize Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    // A field that expands to every value (`*`, `*/1`, `1-31`) does not restrict the day
+    dayOfMonthRestricted: daysOfMonth.size < 31,
+    dayOfWeekRestricted: daysOfWeek.size < 7,
+  };
+}
+
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dom = schedule.daysOfMonth.has(date.getUTCDate());
+  const dow = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) return dom || dow;
+  return dom && dow;
+}
+
+/**
+ * First time strictly after `after` that matches the expression, at minute
+ * resolution. Returns null if nothing matches within five years.
+ */
+export function nextCronRun(expression: string | CronSchedule, after: Date): Date | null {
+  const schedule = typeof expression === 'string' ? parseCronExpression(expression) : expression;
+
+  const candidate = new Date(after.getTime());
+  candidate.setUTCSeconds(0, 0);
+  candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+
+  const limit = after.getTime() + MAX_LOOKAHEAD_DAYS * 24 * 60 * 60 * 1000;
+
+  while (candidate.getTime() <= limit) {
+    if (!schedule.months.has(candidate.getUTCMonth() + 1) || !matchesDay(schedule, candidate)) {
+      // Skip to the start of the next day
+      candidate.setUTCDate(candidate.getUTCDate() + 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(candidate.getUTCHours())) {
+      candidate.setUTCHours(candidate.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(candidate.getUTCMinutes())) {
+      candidate.setUTCMinutes(candidate.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return candidate;
+  }
+
+  return null;
+}
@@ -249,6 +249,7 @@ describe('E2E: SyncEngine + SQLiteAdapter + FortnoxProvider', () => {
     expect(sieData!.kpis).toBeDefined();
     expect(sieData!.parsed).toBeDefined();
     expect(sieData!.rawContent).toContain('#FLAGGA');
+    expect(sieData!.validation?.checksum).toBe('missing');
 
     // Step 7: Verify sync progress stored
     const storedProgress = await adapter.getSyncProgress(progress.jobId);
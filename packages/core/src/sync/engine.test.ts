@@ -0,0 +1,238 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SQLiteAdapter } from '../db/sqlite-adapter.js';
+import { SyncEngine, SyncLeaseLostError } from './engine.js';
+import { registerProvider } from '../providers/index.js';
+import type { AccountingProvider } from '../providers/base.js';
+import type { CanonicalEntityRecord, FetchEntitiesOptions, FetchEntitiesResult } from '../types/entity.js';
+import type { SyncJob } from '../types/sync.js';
+import { contentHash } from '../utils/hash.js';
+
+function makeInvoice(id: number): CanonicalEntityRecord {
+  const raw = { DocumentNumber: String(id) };
+  return {
+    external_id: String(id),
+    entity_type: 'invoice',
+    provider: 'fortnox',
+    fiscal_year: 2024,
+    document_date: '2024-03-15',
+    due_date: null,
+    counterparty_number: null,
+    counterparty_name: null,
+    amount: id * 100,
+    currency: 'SEK',
+    status: null,
+    raw_data: raw,
+    last_modified: `2024-03-${String(10 + id).padStart(2, '0')}T00:00:00Z`,
+    content_hash: contentHash(raw),
+  };
+}
+
+/** Three pages of two invoices each */
+const PAGES = [[1, 2], [3, 4], [5, 6]].map((ids) => ids.map(makeInvoice));
+
+type FetchPage = (options: FetchEntitiesOptions) => Promise<FetchEntitiesResult>;
+
+function createPagedProvider(fetchPage: FetchPage): AccountingProvider {
+  return {
+    name: 'fortnox' as const,
+    getCapabilities: () => ({
+      name: 'fortnox' as const,
+      displayName: 'Fortnox',
+      supportedEntityTypes: ['invoice'],
+      supportsSIE: false,
+      sieTypes: [],
+      supportsIncrementalSync: true,
+      incrementalSyncEntities: ['invoice'],
+      authType: 'oauth2' as const,
+      rateLimits: { maxRequests: 25, windowMs: 1000 },
+    }),
+    validateCredentials: async () => true,
+    getCompanyInfo: async () => ({ companyName: 'Test AB', organizationNumber: null, raw: {} }),
+    getFinancialYears: async () => [],
+    fetchEntities: async (_creds, options) => fetchPage(options),
+    fetchAllEntities: async () => {
+      throw new Error('SyncEngine should stream pages');
+    },
+    fetchSIE: async () => ({ files: [] }),
+  };
+}
+
+const job: SyncJob = {
+  connectionId: 'conn-1',
+  provider: 'fortnox',
+  credentials: { accessToken: 'test-token' },
+  entityTypes: ['invoice'],
+};
+
+describe('SyncEngine page checkpoints', () => {
+  let adapter: SQLiteAdapter;
+  let fetchPage: ReturnType<typeof vi.fn<FetchPage>>;
+
+  beforeEach(async () => {
+    adapter = new SQLiteAdapter(':memory:');
+    await adapter.migrate();
+
+    fetchPage = vi.fn<FetchPage>(async (options) => {
+      const page = options.page ?? 1;
+      return {
+        entities: PAGES[page - 1]!,
+        nextCursor: null,
+        totalCount: 6,
+        hasMore: page < PAGES.length,
+      };
+    });
+    registerProvider('fortnox', () => createPagedProvider((options) => fetchPage(options)));
+  });
+
+  it('upserts page by page and advances the cursor once all pages are in', async () => {
+    const progress = await new SyncEngine(adapter).executeSync(job);
+
+    expect(fetchPage.mock.calls.map(([o]) => o.page)).toEqual([1, 2, 3]);
+    expect(progress.entityResults[0]).toMatchObject({ recordsFetched: 6, recordsInserted: 6, success: true });
+    expect(await adapter.getEntityCount('conn-1', 'invoice')).toBe(6);
+
+    const state = await adapter.getSyncState('conn-1', 'invoice');
+    expect(state!.lastModifiedCursor).toBe('2024-03-16T00:00:00Z');
+    expect(state!.checkpoint).toBeNull();
+  });
+
+  it('keeps committed pages after a failure and resumes from the next page', async () => {
+    await adapter.updateSyncState('conn-1', 'invoice', { lastModifiedCursor: '2024-01-01T00:00:00Z' });
+    fetchPage.mockImplementationOnce(async () => ({
+      entities: PAGES[0]!,
+      nextCursor: null,
+      totalCount: 6,
+      hasMore: true,
+    }));
+    fetchPage.mockRejectedValueOnce(new Error('Fortnox API error 429: Too Many Requests'));
+
+    const failed = await new SyncEngine(adapter).executeSync(job);
+    expect(failed.entityResults[0]!.success).toBe(false);
+    expect(await adapter.getEntityCount('conn-1', 'invoice')).toBe(2);
+
+    const interrupted = await adapter.getSyncState('conn-1', 'invoice');
+    expect(interrupted!.lastModifiedCursor).toBe('2024-01-01T00:00:00Z');
+    expect(interrupted!.checkpoint).toMatchObject({
+      page: 1,
+      baseCursor: '2024-01-01T00:00:00Z',
+      recordsFetched: 2,
+    });
+
+    fetchPage.mockClear();
+    const retried = await new SyncEngine(adapter).executeSync(job);
+
+    // Resumes at page 2 with the original filter, not the partially advanced cursor
+    expect(fetchPage.mock.calls.map(([o]) => [o.page, o.lastModifiedCursor])).toEqual([
+      [2, '2024-01-01T00:00:00Z'],
+      [3, '2024-01-01T00:00:00Z'],
+    ]);
+    expect(retried.entityResults[0]).toMatchObject({ recordsFetched: 6, recordsInserted: 6, success: true });
+    expect(await adapter.getEntityCount('conn-1', 'invoice')).toBe(6);
+
+    const state = await adapter.getSyncState('conn-1', 'invoice');
+    expect(state!.lastModifiedCursor).toBe('2024-03-16T00:00:00Z');
+    expect(state!.recordsFetched).toBe(6);
+    expect(state!.checkpoint).toBeNull();
+  });
+});
+
+describe('SyncEngine abort', () => {
+  let adapter: SQLiteAdapter;
+  let controller: AbortController;
+  let abortReason: unknown;
+  let fetchPage: ReturnType<typeof vi.fn<FetchPage>>;
+
+  beforeEach(async () => {
+    adapter = new SQLiteAdapter(':memory:');
+    await adapter.migrate();
+
+    controller = new AbortController();
+    fetchPage = vi.fn<FetchPage>(async (options) => {
+      const page = options.page ?? 1;
+      if (page === 2) controller.abort(abortReason);
+      return { entities: PAGES[page - 1]!, nextCursor: null, totalCount: 6, hasMore: page < PAGES.length };
+    });
+    registerProvider('fortnox', () => createPagedProvider((options) => fetchPage(options)));
+  });
+
+  it('stops between pages when cancelled and keeps the checkpoint', async () => {
+    abortReason = undefined;
+    const progress = await new SyncEngine(adapter).executeSync(job, { jobId: 'job-1', signal: controller.signal });
+
+    expect(fetchPage.mock.calls.map(([o]) => o.page)).toEqual([1, 2]);
+    expect(progress).toMatchObject({ status: 'cancelled', entityResults: [] });
+    const state = await adapter.getSyncState('conn-1', 'invoice');
+    expect(state!.checkpoint).toMatchObject({ page: 2, recordsFetched: 4 });
+    expect(state!.lastError).toBeNull();
+  });
+
+  it('rethrows a lost lease without recording the job as finished', async () => {
+    abortReason = new SyncLeaseLostError('job-1');
+    const engine = new SyncEngine(adapter);
+
+    await expect(engine.executeSync(job, { jobId: 'job-1', signal: controller.signal })).rejects.toBe(abortReason);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+    expect((await adapter.getSyncProgress('job-1'))!.status).toBe('running');
+  });
+});
+
+describe('SyncEngine deletion reconciliation', () => {
+  let adapter: SQLiteAdapter;
+  let fetchPage: ReturnType<typeof vi.fn<FetchPage>>;
+
+  beforeEach(async () => {
+    adapter = new SQLiteAdapter(':memory:');
+    await adapter.migrate();
+
+    // Invoice 7 was stored by an earlier sync and has since been deleted in Fortnox
+    await adapter.upsertEntities('conn-1', 'invoice', [...PAGES.flat(), makeInvoice(7)]);
+
+    fetchPage = vi.fn<FetchPage>(async (options) => {
+      if (options.lastModifiedCursor) {
+        return { entities: [makeInvoice(6)], nextCursor: null, totalCount: 1, hasMore: false };
+      }
+      const page = options.page ?? 1;
+      return {
+        entities: PAGES[page - 1]!,
+        nextCursor: null,
+        totalCount: 6,
+        hasMore: page < PAGES.length,
+      };
+    });
+    registerProvider('fortnox', () => createPagedProvider((options) => fetchPage(options)));
+  });
+
+  it('tombstones records missing from a full sync without fetching again', async () => {
+    const progress = await new SyncEngine(adapter).executeSync({ ...job, reconcileDeletions: true });
+
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+    expect(progress.entityResults[0]).toMatchObject({ recordsDeleted: 1, success: true });
+    expect(await adapter.getEntityCount('conn-1', 'invoice')).toBe(6);
+
+    const all = await adapter.getEntities('conn-1', 'invoice', { includeDeleted: true });
+    expect(all.find((e) => e.external_id === '7')!.deleted_at).toBeTruthy();
+    expect(all.filter((e) => e.deleted_at)).toHaveLength(1);
+  });
+
+  it('scans the full ID set after an incremental sync', async () => {
+    await adapter.updateSyncState('conn-1', 'invoice', { lastModifiedCursor: '2024-03-15T00:00:00Z' });
+
+    const progress = await new SyncEngine(adapter).executeSync({ ...job, reconcileDeletions: true });
+
+    expect(fetchPage.mock.calls.map(([o]) => [o.page, o.lastModifiedCursor])).toEqual([
+      [1, '2024-03-15T00:00:00Z'],
+      [1, undefined],
+      [2, undefined],
+      [3, undefined],
+    ]);
+    expect(progress.entityResults[0]).toMatchObject({ recordsFetched: 1, recordsDeleted: 1 });
+    expect(await adapter.getEntityCount('conn-1', 'invoice')).toBe(6);
+  });
+
+  it('leaves stored records alone unless reconciliation is requested', async () => {
+    const progress = await new SyncEngine(adapter).executeSync(job);
+
+    expect(progress.entityResults[0]!.recordsDeleted).toBe(0);
+    expect(await adapter.getEntityCount('conn-1', 'invoice')).toBe(7);
+  });
+});
@@ -1,13 +1,54 @@
 import type { DatabaseAdapter } from '../types/database.js';
-import type { SyncJob, SyncProgress, EntitySyncResult } from '../types/sync.js';
+import type {
+  SyncJob,
+  SyncProgress,
+  EntitySyncResult,
+  SyncCheckpoint,
+  EntityChangeSet,
+} from '../types/sync.js';
 import type { CanonicalEntityRecord, EntityType } from '../types/entity.js';
+import type { ProviderCredentials } from '../types/provider.js';
 import type { Logger } from '../utils/logger.js';
 import { noopLogger } from '../utils/logger.js';
 import { contentHash } from '../utils/hash.js';
 import { getProvider } from '../providers/index.js';
+import { validateSIE } from '../sie/validator.js';
 
 export interface SyncEngineOptions {
   logger?: Logger;
+  /** Called after each committed page that inserted or updated records. */
+  onEntitiesChanged?: (change: EntityChangeSet) => void;
+}
+
+export interface ExecuteSyncOptions {
+  /**
+   * Record progress under this jobId instead of generating one. If progress
+   * already exists for it (a re-claimed job), entity types that completed
+   * successfully are kept and skipped.
+   */
+  jobId?: string;
+  /**
+   * Checked before every page; an aborted signal ends the job as 'cancelled'.
+   * Aborting with a SyncLeaseLostError instead stops without writing anything
+   * more and rethrows it.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Abort reason for a worker whose job lease was taken over. The job now
+ * belongs to another worker, so the sync stops without recording progress.
+ */
+export class SyncLeaseLostError extends Error {
+  constructor(jobId: string) {
+    super(`Lost the lease on sync job ${jobId}`);
+    this.name = 'SyncLeaseLostError';
+  }
+}
+
+/** Progress written after a lost lease would overwrite the new owner's. */
+function throwIfLeaseLost(signal: AbortSignal | undefined): void {
+  if (signal?.aborted && signal.reason instanceof SyncLeaseLostError) throw signal.reason;
 }
 
 /**
@@ -17,61 +58,84 @@ export interface SyncEngineOptions {
 export class SyncEngine {
   private readonly db: DatabaseAdapter;
   private readonly logger: Logger;
+  private readonly onEntitiesChanged?: (change: EntityChangeSet) => void;
 
   constructor(db: DatabaseAdapter, options?: SyncEngineOptions) {
     this.db = db;
     this.logger = options?.logger ?? noopLogger;
+    this.onEntitiesChanged = options?.onEntitiesChanged;
   }
 
   /**
    * Execute a full sync job: iterate entity types, fetch via provider,
    * normalize to canonical records, upsert with hash-based change detection.
    */
-  async executeSync(job: SyncJob): Promise<SyncProgress> {
-    const jobId = crypto.randomUUID();
-    const startedAt = new Date().toISOString();
+  async executeSync(job: SyncJob, options?: ExecuteSyncOptions): Promise<SyncProgress> {
+    const jobId = options?.jobId ?? crypto.randomUUID();
+    const signal = options?.signal;
+    const previous = options?.jobId ? await this.db.getSyncProgress(jobId) : null;
+    const startedAt = previous?.startedAt ?? new Date().toISOString();
 
     const progress: SyncProgress = {
       jobId,
       connectionId: job.connectionId,
       provider: job.provider,
       status: 'running',
-      progress: 0,
-      entityResults: [],
+      progress: previous?.progress ?? 0,
+      entityResults: previous?.entityResults.filter((r) => r.success) ?? [],
       startedAt,
     };
 
     await this.db.upsertSyncProgress(progress);
 
     try {
+      const credentials = job.credentials;
+      if (!credentials) {
+        throw new Error('Sync job has no credentials');
+      }
       const provider = getProvider(job.provider);
       const capabilities = provider.getCapabilities();
 
       // Determine which entity types to sync
       const entityTypes = job.entityTypes ?? capabilities.supportedEntityTypes;
       const totalSteps = entityTypes.length + (job.includeSIE ? 1 : 0);
-      let completedSteps = 0;
+      const resumed = new Set(progress.entityResults.map((r) => r.entityType));
+      let completedSteps = resumed.size;
+
+      if (resumed.size > 0) {
+        this.logger.info('Resuming sync job', { jobId, skipped: [...resumed] });
+      }
 
       // Entity sync with per-type error isolation
       for (const entityType of entityTypes) {
+        if (resumed.has(entityType)) continue;
+        signal?.throwIfAborted();
+
         const entityResult = await this.syncEntityType(
           job,
+          credentials,
+          jobId,
           entityType,
           provider,
+          signal,
         );
+        throwIfLeaseLost(signal);
         progress.entityResults.push(entityResult);
         completedSteps++;
         progress.progress = Math.round((completedSteps / totalSteps) * 100);
         await this.db.upsertSyncProgress(progress);
       }
 
+      signal?.throwIfAborted();
+
       // SIE sync
       if (job.includeSIE && capabilities.supportsSIE) {
         try {
           const sieResult = await provider.fetchSIE(
-            job.credentials,
+            credentials,
             job.sieOptions ?? {},
           );
+          signal?.throwIfAborted();
 
           for (const file of sieResult.files) {
             await this.db.storeSIEData(job.connectionId, {
@@ -81,6 +145,7 @@ export class SyncEngine {
               parsed: file.parsed,
               kpis: file.kpis,
               rawContent: file.rawContent,
+              validation: file.rawContent ? validateSIE(file.rawContent) : undefined,
             });
           }
 
@@ -98,6 +163,7 @@ export class SyncEngine {
             durationMs: 0,
           };
         } catch (error) {
+          if (signal?.aborted) throw error;
           const message = error instanceof Error ? error.message : String(error);
           this.logger.error('SIE sync failed', { error: message });
           progress.sieResult = {
@@ -121,9 +187,14 @@ export class SyncEngine {
       progress.totalDurationMs =
         new Date(progress.completedAt).getTime() - new Date(startedAt).getTime();
 
+      throwIfLeaseLost(signal);
       await this.db.upsertSyncProgress(progress);
       return progress;
     } catch (error) {
+      if (signal?.aborted) {
+        if (signal.reason instanceof SyncLeaseLostError) throw signal.reason;
+        return await this.cancel(progress);
+      }
       const message = error instanceof Error ? error.message : String(error);
       this.logger.error('Sync job failed', { jobId, error: message });
       progress.status = 'failed';
@@ -134,58 +205,138 @@ export class SyncEngine {
     }
   }
 
+  private async cancel(progress: SyncProgress): Promise<SyncProgress> {
+    this.logger.info('Sync job cancelled', { jobId: progress.jobId });
+    progress.status = 'cancelled';
+    progress.completedAt = new Date().toISOString();
+    progress.totalDurationMs =
+      new Date(progress.completedAt).getTime() - new Date(progress.startedAt).getTime();
+    await this.db.upsertSyncProgress(progress);
+    return progress;
+  }
+
   private async syncEntityType(
     job: SyncJob,
+    credentials: ProviderCredentials,
+    jobId: string,
     entityType: EntityType,
     provider: ReturnType<typeof getProvider>,
+    signal?: AbortSignal,
   ): Promise<EntitySyncResult> {
     const start = Date.now();
     try {
       const syncState = await this.db.getSyncState(job.connectionId, entityType);
 
+      // Resume an interrupted paged sync from its last committed page
+      const checkpoint: SyncCheckpoint = syncState?.checkpoint ?? {
+        page: 0,
+        baseCursor: syncState?.lastModifiedCursor ?? null,
+        latestModified: syncState?.lastModifiedCursor ?? null,
+        recordsFetched: 0,
+        recordsInserted: 0,
+        recordsUpdated: 0,
+        recordsUnchanged: 0,
+      };
+
       this.logger.info(`Syncing ${entityType}`, {
         connectionId: job.connectionId,
-        cursor: syncState?.lastModifiedCursor,
+        cursor: checkpoint.baseCursor,
+        resumeFromPage: checkpoint.page > 0 ? checkpoint.page + 1 : undefined,
       });
 
-      const entities = await provider.fetchAllEntities(
-        job.credentials,
-        {
+      // A sync that walks every page from the start already sees the provider's
+      // full ID set, so reconciliation can reuse it instead of fetching again
+      const incremental =
+        checkpoint.baseCursor !== null &&
+        provider.getCapabilities().incrementalSyncEntities.includes(entityType);
+      const seenIds = job.reconcileDeletions && !incremental && checkpoint.page === 0
+        ? new Set<string>()
+        : null;
+
+      // Stream page by page: upsert each page and checkpoint it before fetching
+      // the next, so memory stays flat and a failure only loses the current page
+      let page = checkpoint.page + 1;
+      for (;;) {
+        signal?.throwIfAborted();
+        const result = await provider.fetchEntities(credentials, {
           entityType,
-          lastModifiedCursor: syncState?.lastModifiedCursor ?? undefined,
-        },
-      );
+          lastModifiedCursor: checkpoint.baseCursor ?? undefined,
+          page,
+        });
 
-      const result = await this.db.upsertEntities(
-        job.connectionId,
-        entityType,
-        entities,
-      );
+        const upserted = await this.db.upsertEntities(
+          job.connectionId,
+          entityType,
+          result.entities,
+        );
+
+        for (const e of result.entities) seenIds?.add(e.external_id);
+
+        if (upserted.insertedIds.length > 0 || upserted.updatedIds.length > 0) {
+          this.onEntitiesChanged?.({
+            jobId,
+            connectionId: job.connectionId,
+            provider: job.provider,
+            entityType,
+            insertedIds: upserted.insertedIds,
+            updatedIds: upserted.updatedIds,
+          });
+        }
+
+        checkpoint.page = page;
+        checkpoint.latestModified = result.entities.reduce<string | null>((latest, e) => {
+          if (!e.last_modified) return latest;
+          if (!latest) return e.last_modified;
+          return e.last_modified > latest ? e.last_modified : latest;
+        }, checkpoint.latestModified);
+        checkpoint.recordsFetched += result.entities.length;
+        checkpoint.recordsInserted += upserted.inserted;
+        checkpoint.recordsUpdated += upserted.updated;
+        checkpoint.recordsUnchanged += upserted.unchanged;
 
-      // Update sync cursor
-      const latestModified = entities.reduce<string | null>((latest, e) => {
-        if (!e.last_modified) return latest;
-        if (!latest) return e.last_modified;
-        return e.last_modified > latest ? e.last_modified : latest;
-      }, syncState?.lastModifiedCursor ?? null);
+        if (!result.hasMore) break;
 
+        await this.db.updateSyncState(job.connectionId, entityType, { checkpoint });
+        page++;
+      }
+
+      let recordsDeleted = 0;
+      if (job.reconcileDeletions) {
+        const liveIds = seenIds ?? (await this.fetchExternalIds(credentials, entityType, provider, signal));
+        recordsDeleted = await this.db.tombstoneMissingEntities(
+          job.connectionId,
+          entityType,
+          [...liveIds],
+        );
+        if (recordsDeleted > 0) {
+          this.logger.info(`Tombstoned ${recordsDeleted} deleted ${entityType} records`, {
+            connectionId: job.connectionId,
+          });
+        }
+      }
+
+      // All pages committed — advance the cursor and drop the checkpoint
       await this.db.updateSyncState(job.connectionId, entityType, {
         lastSyncAt: new Date().toISOString(),
-        lastModifiedCursor: latestModified,
-        recordsFetched: (syncState?.recordsFetched ?? 0) + entities.length,
-        recordsUpdated: (syncState?.recordsUpdated ?? 0) + result.updated,
+        lastModifiedCursor: checkpoint.latestModified,
+        recordsFetched: (syncState?.recordsFetched ?? 0) + checkpoint.recordsFetched,
+        recordsUpdated: (syncState?.recordsUpdated ?? 0) + checkpoint.recordsUpdated,
+        checkpoint: null,
       });
 
       return {
         entityType,
-        recordsFetched: entities.length,
-        recordsInserted: result.inserted,
-        recordsUpdated: result.updated,
-        recordsUnchanged: result.unchanged,
+        recordsFetched: checkpoint.recordsFetched,
+        recordsInserted: checkpoint.recordsInserted,
+        recordsUpdated: checkpoint.recordsUpdated,
+        recordsUnchanged: checkpoint.recordsUnchanged,
+        recordsDeleted,
         success: true,
         durationMs: Date.now() - start,
       };
     } catch (error) {
+      // Stopped on purpose: the checkpoint of the last committed page stays for a resume
+      if (signal?.aborted) throw error;
       const message = error instanceof Error ? error.message : String(error);
       this.logger.error(`Failed to sync ${entityType}`, { error: message });
 
@@ -200,10 +351,27 @@ export class SyncEngine {
         recordsInserted: 0,
         recordsUpdated: 0,
         recordsUnchanged: 0,
+        recordsDeleted: 0,
         success: false,
         error: message,
         durationMs: Date.now() - start,
       };
     }
   }
+
+  /** Walk every page without a cursor, collecting only the external IDs. */
+  private async fetchExternalIds(
+    credentials: ProviderCredentials,
+    entityType: EntityType,
+    provider: ReturnType<typeof getProvider>,
+    signal?: AbortSignal,
+  ): Promise<Set<string>> {
+    const ids = new Set<string>();
+    for (let page = 1; ; page++) {
+      signal?.throwIfAborted();
+      const result = await provider.fetchEntities(credentials, { entityType, page });
+      for (const e of result.entities) ids.add(e.external_id);
+      if (!result.hasMore) return ids;
+    }
+  }
 }
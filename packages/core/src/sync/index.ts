@@ -1 +1,15 @@
-export { SyncEngine, type SyncEngineOptions } from './engine.js';
+export {
+  SyncEngine,
+  SyncLeaseLostError,
+  type SyncEngineOptions,
+  type ExecuteSyncOptions,
+} from './engine.js';
+export { SyncWorker, type SyncWorkerOptions } from './worker.js';
+export { enqueueSync } from './queue.js';
+export { SyncScheduler, type SyncSchedulerOptions, computeNextRunAt } from './scheduler.js';
+export {
+  parseCronExpression,
+  isValidCronExpression,
+  nextCronRun,
+  type CronSchedule,
+} from './cron.js';
@@ -0,0 +1,25 @@
+import type { DatabaseAdapter } from '../types/database.js';
+import type { SyncJob } from '../types/sync.js';
+
+/**
+ * Seed a pending progress record and put the job on the durable queue,
+ * where a SyncWorker will pick it up. Returns the jobId.
+ */
+export async function enqueueSync(
+  db: DatabaseAdapter,
+  job: SyncJob,
+  jobId: string = crypto.randomUUID(),
+): Promise<string> {
+  await db.upsertSyncProgress({
+    jobId,
+    connectionId: job.connectionId,
+    provider: job.provider,
+    status: 'pending',
+    progress: 0,
+    entityResults: [],
+    startedAt: new Date().toISOString(),
+  });
+
+  await db.enqueueSyncJob(jobId, job);
+  return jobId;
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SQLiteAdapter } from '../db/sqlite-adapter.js';
+import { SyncScheduler, computeNextRunAt } from './scheduler.js';
+import type { SyncSchedule } from '../types/sync.js';
+import { ConsentStatus } from '../types/consent.js';
+
+function makeSchedule(overrides?: Partial<SyncSchedule>): SyncSchedule {
+  return {
+    scheduleId: 'sched-1',
+    connectionId: 'conn-1',
+    provider: 'fortnox',
+    consentId: 'consent-1',
+    cronExpression: null,
+    intervalMinutes: 60,
+    entityTypes: ['invoice'],
+    includeSIE: false,
+    paused: false,
+    nextRunAt: '2024-03-15T10:00:00.000Z',
+    lastRunAt: null,
+    lastJobId: null,
+    createdAt: '2024-03-01T00:00:00.000Z',
+    updatedAt: '2024-03-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('computeNextRunAt', () => {
+  const after = new Date('2024-03-15T10:05:00Z');
+
+  it('adds the interval to the reference time', () => {
+    expect(computeNextRunAt({ cronExpression: null, intervalMinutes: 30 }, after))
+      .toBe('2024-03-15T10:35:00.000Z');
+  });
+
+  it('uses the cron expression when set', () => {
+    expect(computeNextRunAt({ cronExpression: '0 3 * * *', intervalMinutes: null }, after))
+      .toBe('2024-03-16T03:00:00.000Z');
+  });
+});
+
+describe('SyncScheduler', () => {
+  let adapter: SQLiteAdapter;
+  const now = new Date('2024-03-15T10:01:00Z');
+
+  beforeEach(async () => {
+    adapter = new SQLiteAdapter(':memory:');
+    await adapter.migrate();
+    await storeConsent(ConsentStatus.Accepted);
+  });
+
+  function storeConsent(status: ConsentStatus) {
+    return adapter.upsertConsent({
+      id: 'consent-1',
+      tenantId: 'tenant-1',
+      name: 'Test AB',
+      status,
+      provider: 'fortnox',
+      etag: 'etag-1',
+      createdAt: '2024-03-01T00:00:00.000Z',
+      updatedAt: '2024-03-01T00:00:00.000Z',
+    });
+  }
+
+  it('enqueues due schedules and advances them', async () => {
+    await adapter.upsertSyncSchedule(makeSchedule());
+    const onEnqueue = vi.fn();
+    const scheduler = new SyncScheduler(adapter, { onEnqueue });
+
+    const [jobId] = await scheduler.tick(now);
+
+    const job = await adapter.getSyncJob(jobId!);
+    expect(job!.status).toBe('pending');
+    expect(job!.job.entityTypes).toEqual(['invoice']);
+    expect(job!.job.consentId).toBe('consent-1');
+    expect(job!.job.credentials).toBeUndefined();
+    expect((await adapter.getSyncProgress(jobId!))!.status).toBe('pending');
+    expect(onEnqueue).toHaveBeenCalledWith(jobId);
+
+    const schedule = await adapter.getSyncSchedule('sched-1');
+    expect(schedule!.lastRunAt).toBe(now.toISOString());
+    expect(schedule!.lastJobId).toBe(jobId);
+    expect(schedule!.nextRunAt).toBe('2024-03-15T11:01:00.000Z');
+  });
+
+  it('ignores schedules that are paused or not yet due', async () => {
+    await adapter.upsertSyncSchedule(makeSchedule({ scheduleId: 'paused', paused: true }));
+    await adapter.upsertSyncSchedule(makeSchedule({ scheduleId: 'later', nextRunAt: '2024-03-15T12:00:00.000Z' }));
+
+    expect(await new SyncScheduler(adapter).tick(now)).toEqual([]);
+  });
+
+  it('skips a run while the previous job is still queued', async () => {
+    await adapter.upsertSyncSchedule(makeSchedule());
+    const scheduler = new SyncScheduler(adapter);
+    const [first] = await scheduler.tick(now);
+
+    const later = new Date('2024-03-15T11:02:00Z');
+    expect(await scheduler.tick(later)).toEqual([]);
+
+    const schedule = await adapter.getSyncSchedule('sched-1');
+    expect(schedule!.lastJobId).toBe(first);
+    expect(schedule!.nextRunAt).toBe('2024-03-15T12:02:00.000Z');
+  });
+
+  it('skips runs while the consent is not accepted', async () => {
+    await storeConsent(ConsentStatus.Revoked);
+    await adapter.upsertSyncSchedule(makeSchedule());
+
+    expect(await new SyncScheduler(adapter).tick(now)).toEqual([]);
+    const schedule = await adapter.getSyncSchedule('sched-1');
+    expect(schedule!.lastJobId).toBeNull();
+    expect(schedule!.nextRunAt).toBe('2024-03-15T11:01:00.000Z');
+  });
+
+  it('enqueues a run only once across concurrent schedulers', async () => {
+    await adapter.upsertSyncSchedule(makeSchedule());
+
+    const results = await Promise.all([
+      new SyncScheduler(adapter).tick(now),
+      new SyncScheduler(adapter).tick(now),
+    ]);
+
+    expect(results.flat()).toHaveLength(1);
+  });
+});
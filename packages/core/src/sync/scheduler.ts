@@ -0,0 +1,166 @@
+import type { DatabaseAdapter } from '../types/database.js';
+import { ConsentStatus } from '../types/consent.js';
+import type { SyncSchedule } from '../types/sync.js';
+import type { Logger } from '../utils/logger.js';
+import { noopLogger } from '../utils/logger.js';
+import { nextCronRun } from './cron.js';
+import { enqueueSync } from './queue.js';
+
+export interface SyncSchedulerOptions {
+  logger?: Logger;
+  /** How often to look for due schedules. Default 30000ms. */
+  pollIntervalMs?: number;
+  /** Called with each enqueued jobId, e.g. to wake an in-process SyncWorker. */
+  onEnqueue?: (jobId: string) => void;
+}
+
+/**
+ * Next run time for a schedule, strictly after `after`. Interval schedules
+ * count from `after` rather than the previous slot, so a scheduler that was
+ * down for a while fires once instead of catching up on every missed run.
+ */
+export function computeNextRunAt(
+  schedule: Pick<SyncSchedule, 'cronExpression' | 'intervalMinutes'>,
+  after: Date,
+): string | null {
+  if (schedule.cronExpression) {
+    return nextCronRun(schedule.cronExpression, after)?.toISOString() ?? null;
+  }
+  if (schedule.intervalMinutes) {
+    return new Date(after.getTime() + schedule.intervalMinutes * 60_000).toISOString();
+  }
+  return null;
+}
+
+/**
+ * Turns due sync schedules into queued SyncJobs. Safe to run in several
+ * processes at once: each run is claimed with a compare-and-set on
+ * `nextRunAt`, so only one scheduler enqueues it.
+ *
+ * Jobs carry the schedule's consentId rather than tokens, so every run gets
+ * the consent's current (and if needed refreshed) credentials when a
+ * SyncWorker claims it.
+ */
+export class SyncScheduler {
+  private readonly db: DatabaseAdapter;
+  private readonly logger: Logger;
+  private readonly pollIntervalMs: number;
+  private readonly onEnqueue?: (jobId: string) => void;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private ticking: Promise<string[]> | null = null;
+
+  constructor(db: DatabaseAdapter, options?: SyncSchedulerOptions) {
+    this.db = db;
+    this.logger = options?.logger ?? noopLogger;
+    this.pollIntervalMs = options?.pollIntervalMs ?? 30_000;
+    this.onEnqueue = options?.onEnqueue;
+  }
+
+  /** Start polling. The timer is unref'd so it never keeps a process alive. */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      if (this.ticking) return;
+      this.ticking = this.tick().finally(() => {
+        this.ticking = null;
+      });
+    }, this.pollIntervalMs);
+    (this.timer as { unref?: () => void }).unref?.();
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.ticking;
+  }
+
+  /**
+   * Enqueue every schedule due at `now`. A run is skipped (but the schedule
+   * still advances) while the previous run's job is pending or running, or
+   * while the schedule's consent is not accepted. Returns the enqueued jobIds.
+   */
+  async tick(now: Date = new Date()): Promise<string[]> {
+    const enqueued: string[] = [];
+    let due: SyncSchedule[];
+    try {
+      due = await this.db.getDueSyncSchedules(now.toISOString());
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error('Failed to load due sync schedules', { error: message });
+      return enqueued;
+    }
+
+    for (const schedule of due) {
+      try {
+        const jobId = await this.runSchedule(schedule, now);
+        if (jobId) enqueued.push(jobId);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.error('Scheduled sync failed to enqueue', {
+          scheduleId: schedule.scheduleId,
+          error: message,
+        });
+      }
+    }
+
+    return enqueued;
+  }
+
+  private async runSchedule(schedule: SyncSchedule, now: Date): Promise<string | null> {
+    const nextRunAt = computeNextRunAt(schedule, now);
+    const previous = schedule.lastJobId ? await this.db.getSyncJob(schedule.lastJobId) : null;
+
+    const skip = async () => {
+      await this.db.recordSyncScheduleRun(schedule.scheduleId, schedule.nextRunAt!, {
+        lastRunAt: schedule.lastRunAt,
+        lastJobId: schedule.lastJobId,
+        nextRunAt,
+      });
+      return null;
+    };
+
+    if (previous && (previous.status === 'pending' || previous.status === 'running')) {
+      this.logger.info('Skipping scheduled sync; previous run still in progress', {
+        scheduleId: schedule.scheduleId,
+        jobId: previous.jobId,
+      });
+      return skip();
+    }
+
+    const consent = await this.db.getConsent(schedule.consentId);
+    if (!consent || consent.status !== ConsentStatus.Accepted) {
+      this.logger.warn('Skipping scheduled sync; consent is not active', {
+        scheduleId: schedule.scheduleId,
+        consentId: schedule.consentId,
+      });
+      return skip();
+    }
+
+    const jobId = crypto.randomUUID();
+    const claimed = await this.db.recordSyncScheduleRun(schedule.scheduleId, schedule.nextRunAt!, {
+      lastRunAt: now.toISOString(),
+      lastJobId: jobId,
+      nextRunAt,
+    });
+    if (!claimed) return null;
+
+    await enqueueSync(
+      this.db,
+      {
+        connectionId: schedule.connectionId,
+        provider: schedule.provider,
+        consentId: schedule.consentId,
+        entityTypes: schedule.entityTypes,
+        includeSIE: schedule.includeSIE,
+        sieOptions: schedule.sieOptions,
+      },
+      jobId,
+    );
+
+    this.logger.info('Scheduled sync enqueued', { scheduleId: schedule.scheduleId, jobId, nextRunAt });
+    this.onEnqueue?.(jobId);
+    return jobId;
+  }
+}
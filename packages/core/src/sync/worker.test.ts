@@ -0,0 +1,352 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SQLiteAdapter } from '../db/sqlite-adapter.js';
+import { SyncWorker } from './worker.js';
+import { SyncEngine } from './engine.js';
+import { registerProvider } from '../providers/index.js';
+import type { AccountingProvider } from '../providers/base.js';
+import type { CanonicalEntityRecord, EntityType } from '../types/entity.js';
+import type { SyncJob } from '../types/sync.js';
+import { ConsentStatus } from '../types/consent.js';
+import { enqueueSync } from './queue.js';
+import { contentHash } from '../utils/hash.js';
+
+function makeRecord(entityType: EntityType): CanonicalEntityRecord {
+  const raw = { Id: `${entityType}-1` };
+  return {
+    external_id: `${entityType}-1`,
+    entity_type: entityType,
+    provider: 'fortnox',
+    fiscal_year: 2024,
+    document_date: '2024-03-15',
+    due_date: null,
+    counterparty_number: null,
+    counterparty_name: null,
+    amount: 100,
+    currency: 'SEK',
+    status: null,
+    raw_data: raw,
+    last_modified: '2024-03-20T12:00:00Z',
+    content_hash: contentHash(raw),
+  };
+}
+
+function createMockProvider(
+  fetchPage: (entityType: EntityType) => Promise<CanonicalEntityRecord[]>,
+): AccountingProvider {
+  return {
+    name: 'fortnox' as const,
+    getCapabilities: () => ({
+      name: 'fortnox' as const,
+      displayName: 'Fortnox',
+      supportedEntityTypes: ['invoice', 'customer'] as EntityType[],
+      supportsSIE: false,
+      sieTypes: [],
+      supportsIncrementalSync: true,
+      incrementalSyncEntities: ['invoice'] as EntityType[],
+      authType: 'oauth2' as const,
+      rateLimits: { maxRequests: 25, windowMs: 1000 },
+    }),
+    validateCredentials: async () => true,
+    getCompanyInfo: async () => ({ companyName: 'Test AB', organizationNumber: null, raw: {} }),
+    getFinancialYears: async () => [],
+    fetchEntities: async (_creds, options) => {
+      const entities = await fetchPage(options.entityType);
+      return { entities, nextCursor: null, totalCount: entities.length, hasMore: false };
+    },
+    fetchAllEntities: async (_creds, options) => fetchPage(options.entityType),
+    fetchSIE: async () => ({ files: [] }),
+  };
+}
+
+const job: SyncJob = {
+  connectionId: 'conn-1',
+  provider: 'fortnox',
+  credentials: { accessToken: 'test-token' },
+  entityTypes: ['invoice', 'customer'],
+};
+
+describe('SyncWorker', () => {
+  let adapter: SQLiteAdapter;
+  let fetchPage: ReturnType<typeof vi.fn<(entityType: EntityType) => Promise<CanonicalEntityRecord[]>>>;
+
+  beforeEach(async () => {
+    adapter = new SQLiteAdapter(':memory:');
+    await adapter.migrate();
+
+    fetchPage = vi.fn(async (entityType: EntityType) => [makeRecord(entityType)]);
+    registerProvider('fortnox', () => createMockProvider(fetchPage));
+  });
+
+  it('returns false when the queue is empty', async () => {
+    const worker = new SyncWorker(adapter);
+    expect(await worker.runOnce()).toBe(false);
+  });
+
+  it('runs a claimed job and records progress under the queued jobId', async () => {
+    await adapter.enqueueSyncJob('job-1', job);
+
+    const worker = new SyncWorker(adapter, { workerId: 'worker-a' });
+    expect(await worker.runOnce()).toBe(true);
+
+    const record = await adapter.getSyncJob('job-1');
+    expect(record!.status).toBe('completed');
+
+    const progress = await adapter.getSyncProgress('job-1');
+    expect(progress!.status).toBe('completed');
+    expect(progress!.entityResults).toHaveLength(2);
+    expect(await adapter.getEntityCount('conn-1')).toBe(2);
+  });
+
+  describe('jobs that reference a consent', () => {
+    async function storeConsent(status: ConsentStatus) {
+      await adapter.upsertConsent({
+        id: 'consent-1',
+        tenantId: 'tenant-1',
+        name: 'Test AB',
+        status,
+        provider: 'fortnox',
+        etag: 'etag-1',
+        createdAt: '2024-03-15T10:00:00Z',
+        updatedAt: '2024-03-15T10:00:00Z',
+      });
+      await adapter.storeConsentTokens({
+        consentId: 'consent-1',
+        provider: 'fortnox',
+        accessToken: 'consent-token',
+        tokenExpiresAt: new Date(Date.now() + 3600_000).toISOString(),
+      });
+    }
+
+    const consentJob: SyncJob = { connectionId: 'conn-1', provider: 'fortnox', consentId: 'consent-1' };
+
+    it('resolves the consent tokens when the job is claimed', async () => {
+      await storeConsent(ConsentStatus.Accepted);
+      const tokens: string[] = [];
+      const provider = createMockProvider(fetchPage);
+      registerProvider('fortnox', () => ({
+        ...provider,
+        fetchEntities: async (credentials, options) => {
+          tokens.push(credentials.accessToken);
+          return provider.fetchEntities(credentials, options);
+        },
+      }));
+
+      await adapter.enqueueSyncJob('job-1', consentJob);
+      await new SyncWorker(adapter).runOnce();
+
+      expect(tokens).toEqual(['consent-token', 'consent-token']);
+      expect((await adapter.getSyncJob('job-1'))!.status).toBe('completed');
+    });
+
+    it('fails the job when the consent is no longer active', async () => {
+      await storeConsent(ConsentStatus.Inactive);
+      const onJobFinished = vi.fn();
+
+      const jobId = await enqueueSync(adapter, consentJob);
+      await new SyncWorker(adapter, { onJobFinished }).runOnce();
+
+      expect((await adapter.getSyncJob(jobId))!.status).toBe('failed');
+      const progress = await adapter.getSyncProgress(jobId);
+      expect(progress).toMatchObject({ status: 'failed', error: 'Consent consent-1 is not active' });
+      expect(onJobFinished).toHaveBeenCalledWith(expect.objectContaining({ status: 'failed' }));
+      expect(fetchPage).not.toHaveBeenCalled();
+    });
+  });
+
+  it('stops a running job once cancellation is requested', async () => {
+    await adapter.enqueueSyncJob('job-1', job);
+    fetchPage.mockImplementationOnce(async (entityType) => {
+      await adapter.requestSyncJobCancel('job-1');
+      // Give the heartbeat a chance to observe the flag
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      return [makeRecord(entityType)];
+    });
+
+    const worker = new SyncWorker(adapter, { heartbeatIntervalMs: 5 });
+    await worker.runOnce();
+
+    expect((await adapter.getSyncJob('job-1'))!.status).toBe('cancelled');
+    const progress = await adapter.getSyncProgress('job-1');
+    expect(progress!.status).toBe('cancelled');
+    expect(progress!.entityResults.map((r) => r.entityType)).toEqual(['invoice']);
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+
+  it('resumes a recovered job without redoing completed entity types', async () => {
+    await adapter.enqueueSyncJob('job-1', job);
+
+    // First worker gets through invoices, then dies without heartbeating
+    await adapter.claimSyncJob('dead-worker', -1000);
+    await adapter.upsertSyncProgress({
+      jobId: 'job-1',
+      connectionId: 'conn-1',
+      provider: 'fortnox',
+      status: 'running',
+      progress: 50,
+      entityResults: [
+        {
+          entityType: 'invoice',
+          recordsFetched: 1,
+          recordsInserted: 1,
+          recordsUpdated: 0,
+          recordsUnchanged: 0,
+          success: true,
+          durationMs: 10,
+        },
+      ],
+      startedAt: '2024-03-15T10:00:00Z',
+    });
+
+    const worker = new SyncWorker(adapter, { workerId: 'worker-b' });
+    expect(await worker.runOnce()).toBe(true);
+
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+    expect(fetchPage).toHaveBeenCalledWith('customer');
+
+    const record = await adapter.getSyncJob('job-1');
+    expect(record!.status).toBe('completed');
+    expect(record!.attempts).toBe(2);
+
+    const progress = await adapter.getSyncProgress('job-1');
+    expect(progress!.startedAt).toBe('2024-03-15T10:00:00Z');
+    expect(progress!.entityResults.map((r) => r.entityType)).toEqual(['invoice', 'customer']);
+  });
+
+  it('marks progress failed when a stuck job runs out of attempts', async () => {
+    await adapter.enqueueSyncJob('job-1', job);
+    await adapter.claimSyncJob('dead-worker', -1000);
+    await adapter.upsertSyncProgress({
+      jobId: 'job-1',
+      connectionId: 'conn-1',
+      provider: 'fortnox',
+      status: 'running',
+      progress: 0,
+      entityResults: [],
+      startedAt: '2024-03-15T10:00:00Z',
+    });
+
+    const worker = new SyncWorker(adapter, { maxAttempts: 1 });
+    expect(await worker.runOnce()).toBe(false);
+
+    const progress = await adapter.getSyncProgress('job-1');
+    expect(progress!.status).toBe('failed');
+    expect(progress!.error).toContain('lease expired');
+  });
+
+  it('stops without touching progress when another worker takes over the job', async () => {
+    await adapter.enqueueSyncJob('job-1', job);
+    fetchPage.mockImplementationOnce(async (entityType) => {
+      // The lease expires and another worker claims the job
+      await adapter.recoverStaleSyncJobs(3);
+      await adapter.claimSyncJob('worker-b', 30_000);
+      await adapter.upsertSyncProgress({
+        jobId: 'job-1',
+        connectionId: 'conn-1',
+        provider: 'fortnox',
+        status: 'running',
+        progress: 0,
+        entityResults: [],
+        startedAt: '2024-03-15T10:00:00Z',
+      });
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      return [makeRecord(entityType)];
+    });
+    const onJobFinished = vi.fn();
+
+    const worker = new SyncWorker(adapter, {
+      workerId: 'worker-a',
+      leaseMs: -1000,
+      heartbeatIntervalMs: 5,
+      onJobFinished,
+    });
+    await worker.runOnce();
+
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+    expect(onJobFinished).not.toHaveBeenCalled();
+    expect(await adapter.getSyncJob('job-1')).toMatchObject({ status: 'running', workerId: 'worker-b' });
+    expect(await adapter.getSyncProgress('job-1')).toMatchObject({ status: 'running', entityResults: [] });
+  });
+
+  it('fails the job and its progress when the engine throws', async () => {
+    const jobId = await enqueueSync(adapter, job);
+    const executeSync = vi.spyOn(SyncEngine.prototype, 'executeSync').mockRejectedValueOnce(new Error('disk I/O error'));
+    const onJobFinished = vi.fn();
+
+    await new SyncWorker(adapter, { onJobFinished }).runOnce();
+    executeSync.mockRestore();
+
+    expect(await adapter.getSyncJob(jobId)).toMatchObject({ status: 'failed', error: 'disk I/O error' });
+    expect(await adapter.getSyncProgress(jobId)).toMatchObject({ status: 'failed', error: 'disk I/O error' });
+    expect(onJobFinished).toHaveBeenCalledWith(expect.objectContaining({ jobId, status: 'failed' }));
+  });
+
+  it('reports finished jobs and changed entities to listeners', async () => {
+    await adapter.enqueueSyncJob('job-1', job);
+    const onJobFinished = vi.fn();
+    const onEntitiesChanged = vi.fn();
+
+    const worker = new SyncWorker(adapter, { onJobFinished, onEntitiesChanged });
+    await worker.runOnce();
+
+    expect(onJobFinished).toHaveBeenCalledTimes(1);
+    expect(onJobFinished.mock.calls[0]![0]).toMatchObject({ jobId: 'job-1', status: 'completed' });
+    expect(onEntitiesChanged.mock.calls.map(([change]) => change)).toEqual([
+      {
+        jobId: 'job-1',
+        connectionId: 'conn-1',
+        provider: 'fortnox',
+        entityType: 'invoice',
+        insertedIds: ['invoice-1'],
+        updatedIds: [],
+      },
+      {
+        jobId: 'job-1',
+        connectionId: 'conn-1',
+        provider: 'fortnox',
+        entityType: 'customer',
+        insertedIds: ['customer-1'],
+        updatedIds: [],
+      },
+    ]);
+
+    // A re-run with identical data changes nothing
+    onEntitiesChanged.mockClear();
+    await adapter.enqueueSyncJob('job-2', job);
+    await worker.runOnce();
+    expect(onEntitiesChanged).not.toHaveBeenCalled();
+  });
+
+  it('reports a stuck job as finished once it runs out of attempts', async () => {
+    await adapter.enqueueSyncJob('job-1', job);
+    await adapter.claimSyncJob('dead-worker', -1000);
+    await adapter.upsertSyncProgress({
+      jobId: 'job-1',
+      connectionId: 'conn-1',
+      provider: 'fortnox',
+      status: 'running',
+      progress: 0,
+      entityResults: [],
+      startedAt: '2024-03-15T10:00:00Z',
+    });
+    const onJobFinished = vi.fn();
+
+    await new SyncWorker(adapter, { maxAttempts: 1, onJobFinished }).runOnce();
+
+    expect(onJobFinished).toHaveBeenCalledTimes(1);
+    expect(onJobFinished.mock.calls[0]![0]).toMatchObject({ jobId: 'job-1', status: 'failed' });
+  });
+
+  it('drains the queue in the background once started', async () => {
+    await adapter.enqueueSyncJob('job-1', job);
+    await adapter.enqueueSyncJob('job-2', { ...job, connectionId: 'conn-2' });
+
+    const worker = new SyncWorker(adapter, { pollIntervalMs: 5 });
+    worker.start();
+    await vi.waitFor(async () => {
+      expect((await adapter.getSyncJob('job-2'))!.status).toBe('completed');
+    });
+    await worker.stop();
+
+    expect((await adapter.getSyncJob('job-1'))!.status).toBe('completed');
+  });
+});
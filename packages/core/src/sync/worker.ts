@@ -0,0 +1,235 @@
+import type { DatabaseAdapter } from '../types/database.js';
+import type { EntityChangeSet, SyncJob, SyncJobRecord, SyncProgress } from '../types/sync.js';
+import type { Logger } from '../utils/logger.js';
+import { noopLogger } from '../utils/logger.js';
+import { resolveConsentCredentials, type TokenRefreshOptions } from '../gateway/token-refresh.js';
+import { SyncEngine, SyncLeaseLostError } from './engine.js';
+
+export interface SyncWorkerOptions {
+  logger?: Logger;
+  /** Identifies this worker in job leases. Defaults to a random UUID. */
+  workerId?: string;
+  /** Delay between queue polls when idle. Default 1000ms. */
+  pollIntervalMs?: number;
+  /** How long a claimed job stays leased without a heartbeat. Default 30000ms. */
+  leaseMs?: number;
+  /** Heartbeat cadence; also how often cancellation is checked. Default 5000ms. */
+  heartbeatIntervalMs?: number;
+  /** Claims allowed before a stuck job is failed instead of re-queued. Default 3. */
+  maxAttempts?: number;
+  /** Called when a job reaches a final status, including stuck jobs that are given up on. */
+  onJobFinished?: (progress: SyncProgress) => void;
+  /** Passed to the SyncEngine; called for each synced page that changed records. */
+  onEntitiesChanged?: (change: EntityChangeSet) => void;
+  /** OAuth clients and token encryption for resolving the credentials of jobs with a consentId. */
+  tokenRefresh?: TokenRefreshOptions;
+}
+
+/**
+ * Polls the durable sync job queue and runs claimed jobs through the
+ * SyncEngine, one at a time. Run several workers (in one process or many)
+ * to increase throughput — the queue guarantees a connection is only ever
+ * synced by one of them at a time.
+ */
+export class SyncWorker {
+  readonly workerId: string;
+  private readonly db: DatabaseAdapter;
+  private readonly logger: Logger;
+  private readonly engine: SyncEngine;
+  private readonly pollIntervalMs: number;
+  private readonly leaseMs: number;
+  private readonly heartbeatIntervalMs: number;
+  private readonly maxAttempts: number;
+  private readonly onJobFinished?: (progress: SyncProgress) => void;
+  private readonly tokenRefresh: TokenRefreshOptions;
+  private running = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private draining: Promise<void> | null = null;
+  private wakeRequested = false;
+
+  constructor(db: DatabaseAdapter, options?: SyncWorkerOptions) {
+    this.db = db;
+    this.logger = options?.logger ?? noopLogger;
+    this.engine = new SyncEngine(db, {
+      logger: this.logger,
+      onEntitiesChanged: options?.onEntitiesChanged,
+    });
+    this.workerId = options?.workerId ?? crypto.randomUUID();
+    this.pollIntervalMs = options?.pollIntervalMs ?? 1000;
+    this.leaseMs = options?.leaseMs ?? 30_000;
+    this.heartbeatIntervalMs = options?.heartbeatIntervalMs ?? 5000;
+    this.maxAttempts = options?.maxAttempts ?? 3;
+    this.onJobFinished = options?.onJobFinished;
+    this.tokenRefresh = options?.tokenRefresh ?? { oauth: {} };
+  }
+
+  /** Start polling the queue. Timers are unref'd so they never keep a process alive. */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.schedule(0);
+  }
+
+  /** Stop polling and wait for the job in flight (if any) to finish. */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.draining;
+  }
+
+  /** Poll immediately instead of waiting for the next interval, e.g. after an enqueue. */
+  wake(): void {
+    if (!this.running) return;
+    if (this.draining) {
+      this.wakeRequested = true;
+    } else {
+      this.schedule(0);
+    }
+  }
+
+  /**
+   * Recover stuck jobs, then claim and run at most one job.
+   * Returns true if a job was processed.
+   */
+  async runOnce(): Promise<boolean> {
+    await this.recover();
+
+    const claimed = await this.db.claimSyncJob(this.workerId, this.leaseMs);
+    if (!claimed) return false;
+
+    await this.process(claimed);
+    return true;
+  }
+
+  private schedule(delayMs: number): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.draining = this.drain().finally(() => {
+        this.draining = null;
+        const delay = this.wakeRequested ? 0 : this.pollIntervalMs;
+        this.wakeRequested = false;
+        if (this.running) this.schedule(delay);
+      });
+    }, delayMs);
+    (this.timer as { unref?: () => void }).unref?.();
+  }
+
+  private async drain(): Promise<void> {
+    try {
+      while (this.running && (await this.runOnce())) {
+        // keep going while there is work
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error('Sync worker poll failed', { workerId: this.workerId, error: message });
+    }
+  }
+
+  private async recover(): Promise<void> {
+    const recovered = await this.db.recoverStaleSyncJobs(this.maxAttempts);
+    for (const record of recovered) {
+      this.logger.warn('Recovered stuck sync job', {
+        jobId: record.jobId,
+        status: record.status,
+        attempts: record.attempts,
+      });
+      if (record.status === 'pending') continue;
+
+      const progress = await this.db.getSyncProgress(record.jobId);
+      if (progress) {
+        const finished: SyncProgress = {
+          ...progress,
+          status: record.status,
+          error: record.error ?? undefined,
+          completedAt: new Date().toISOString(),
+        };
+        await this.db.upsertSyncProgress(finished);
+        this.onJobFinished?.(finished);
+      }
+    }
+  }
+
+  private async process(record: SyncJobRecord): Promise<void> {
+    const { jobId } = record;
+    const controller = new AbortController();
+
+    this.logger.info('Claimed sync job', {
+      jobId,
+      workerId: this.workerId,
+      connectionId: record.connectionId,
+      attempt: record.attempts,
+    });
+
+    const heartbeat = setInterval(() => {
+      this.db.heartbeatSyncJob(jobId, this.workerId, this.leaseMs).then(
+        (current) => {
+          if (!current) {
+            this.logger.warn('Lost lease on sync job', { jobId, workerId: this.workerId });
+            controller.abort(new SyncLeaseLostError(jobId));
+          } else if (current.cancelRequested) {
+            controller.abort();
+          }
+        },
+        (error) => {
+          const message = error instanceof Error ? error.message : String(error);
+          this.logger.error('Sync job heartbeat failed', { jobId, error: message });
+        },
+      );
+    }, this.heartbeatIntervalMs);
+    (heartbeat as { unref?: () => void }).unref?.();
+
+    try {
+      let job: SyncJob;
+      try {
+        job = await this.resolveCredentials(record.job);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.error('Could not resolve sync job credentials', { jobId, error: message });
+        await this.failJob(record, message);
+        return;
+      }
+
+      if (record.cancelRequested) controller.abort();
+      const result = await this.engine.executeSync(job, {
+        jobId,
+        signal: controller.signal,
+      });
+      await this.db.completeSyncJob(jobId, this.workerId, result.status, result.error);
+      this.onJobFinished?.(result);
+    } catch (error) {
+      // The job belongs to another worker now: its progress and events are not ours to write
+      if (error instanceof SyncLeaseLostError) return;
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error('Sync job crashed', { jobId, error: message });
+      await this.failJob(record, message);
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  /** Jobs that reference a consent get its current tokens, refreshed if they are about to expire. */
+  private async resolveCredentials(job: SyncJob): Promise<SyncJob> {
+    if (!job.consentId) return job;
+    const credentials = await resolveConsentCredentials(this.db, job.consentId, this.tokenRefresh);
+    return { ...job, credentials };
+  }
+
+  private async failJob(record: SyncJobRecord, message: string): Promise<void> {
+    await this.db.completeSyncJob(record.jobId, this.workerId, 'failed', message);
+    const progress = await this.db.getSyncProgress(record.jobId);
+    if (progress) {
+      const finished: SyncProgress = {
+        ...progress,
+        status: 'failed',
+        error: message,
+        completedAt: new Date().toISOString(),
+      };
+      await this.db.upsertSyncProgress(finished);
+      this.onJobFinished?.(finished);
+    }
+  }
+}
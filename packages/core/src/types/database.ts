@@ -1,13 +1,27 @@
-import type { CanonicalEntityRecord, EntityType } from './entity.js';
+import type { CanonicalEntityRecord, EntityRecordVersion, EntityType } from './entity.js';
 import type { ProviderName } from './provider.js';
-import type { SyncProgress, SyncState } from './sync.js';
-import type { SIEUpload, SIEFullData } from './sie.js';
+import type { SyncJob, SyncJobRecord, SyncProgress, SyncSchedule, SyncState, SyncStatus } from './sync.js';
+import type {
+  SIEUpload,
+  SIEFullData,
+  SIEBudgetRecord,
+  SIEAccount,
+  SIEMetadata,
+  SIEBalanceType,
+  SIEStoredBalance,
+  SIEStoredTransaction,
+} from './sie.js';
 import type { ConsentRecord, ConsentTokenRecord, OneTimeCode, ConsentStatus } from './consent.js';
+import type { WebhookDelivery, WebhookEndpoint } from './webhook.js';
 
 export interface UpsertResult {
   inserted: number;
   updated: number;
   unchanged: number;
+  /** external_ids of the inserted records */
+  insertedIds: string[];
+  /** external_ids of the updated (or restored) records */
+  updatedIds: string[];
 }
 
 export interface GetEntitiesOptions {
@@ -18,6 +32,54 @@ export interface GetEntitiesOptions {
   toDate?: string;
   orderBy?: 'document_date' | 'last_modified' | 'external_id';
   orderDirection?: 'asc' | 'desc';
+  /** Include tombstoned (deleted at the provider) records. Default false. */
+  includeDeleted?: boolean;
+  /** Return records as they were at this ISO timestamp, read from version history. */
+  asOf?: string;
+}
+
+/** Filters for stored SIE transactions. Bounds are inclusive. */
+export interface GetSIETransactionsOptions {
+  page?: number;
+  pageSize?: number;
+  fiscalYear?: number;
+  /** Only this upload, e.g. when a year has both a SIE 4 and a SIE 2 file */
+  uploadId?: string;
+  fromAccount?: string;
+  toAccount?: string;
+  /** YYYY-MM-DD */
+  fromDate?: string;
+  /** YYYY-MM-DD */
+  toDate?: string;
+  costCenter?: string;
+  project?: string;
+  /** Only these accounts */
+  accountNumbers?: string[];
+}
+
+/** Sum and number of the stored transactions on one account */
+export interface SIEAccountTotal {
+  accountNumber: string;
+  amount: number;
+  count: number;
+}
+
+/** Filters for stored SIE accounts. Bounds are inclusive. */
+export interface GetSIEAccountsOptions {
+  fiscalYear?: number;
+  uploadId?: string;
+  fromAccount?: string;
+  toAccount?: string;
+}
+
+/** Filters for stored SIE balances. Bounds are inclusive. */
+export interface GetSIEBalancesOptions {
+  fiscalYear?: number;
+  uploadId?: string;
+  fromAccount?: string;
+  toAccount?: string;
+  balanceType?: SIEBalanceType;
+  yearIndex?: number;
 }
 
 export interface ConnectionRecord {
@@ -54,8 +116,26 @@ export interface DatabaseAdapter {
   getEntityCount(
     connectionId: string,
     entityType?: EntityType,
+    options?: Pick<GetEntitiesOptions, 'includeDeleted' | 'asOf'>,
   ): Promise<number>;
 
+  /**
+   * Tombstone every live record of `entityType` whose external_id is not in
+   * `liveExternalIds`. Returns the number of records tombstoned.
+   */
+  tombstoneMissingEntities(
+    connectionId: string,
+    entityType: EntityType,
+    liveExternalIds: string[],
+  ): Promise<number>;
+
+  /** Append-only history of one record, oldest version first. */
+  getEntityVersions(
+    connectionId: string,
+    entityType: EntityType,
+    externalId: string,
+  ): Promise<EntityRecordVersion[]>;
+
   // Sync state (cursors)
   getSyncState(
     connectionId: string,
@@ -78,7 +158,81 @@ export interface DatabaseAdapter {
     limit?: number,
   ): Promise<SyncProgress[]>;
 
+  // Sync job queue
+  enqueueSyncJob(jobId: string, job: SyncJob): Promise<SyncJobRecord>;
+
+  getSyncJob(jobId: string): Promise<SyncJobRecord | null>;
+
+  /**
+   * Lease the oldest pending job for `workerId`. Jobs whose connection
+   * already has a running job are skipped, so a connection never has two
+   * syncs in flight.
+   */
+  claimSyncJob(workerId: string, leaseMs: number): Promise<SyncJobRecord | null>;
+
+  /** Extend the lease. Returns null if `workerId` no longer holds it. */
+  heartbeatSyncJob(
+    jobId: string,
+    workerId: string,
+    leaseMs: number,
+  ): Promise<SyncJobRecord | null>;
+
+  completeSyncJob(
+    jobId: string,
+    workerId: string,
+    status: SyncStatus,
+    error?: string,
+  ): Promise<void>;
+
+  /**
+   * Cancel a pending job outright, or flag a running one so its worker
+   * stops at the next checkpoint. Returns null if the job does not exist.
+   */
+  requestSyncJobCancel(jobId: string): Promise<SyncJobRecord | null>;
+
+  /**
+   * Release running jobs whose lease has expired back to pending, or fail
+   * them once `maxAttempts` claims have been used up.
+   */
+  recoverStaleSyncJobs(maxAttempts: number): Promise<SyncJobRecord[]>;
+
+  // Sync schedules
+  upsertSyncSchedule(schedule: SyncSchedule): Promise<void>;
+
+  getSyncSchedule(scheduleId: string): Promise<SyncSchedule | null>;
+
+  getSyncSchedules(options?: { connectionId?: string }): Promise<SyncSchedule[]>;
+
+  deleteSyncSchedule(scheduleId: string): Promise<void>;
+
+  /** Unpaused schedules with `nextRunAt <= now`, oldest due first. */
+  getDueSyncSchedules(now: string): Promise<SyncSchedule[]>;
+
+  /**
+   * Record a run and advance `nextRunAt`, but only if `nextRunAt` still equals
+   * `expectedNextRunAt`. Returns false when another scheduler got there first.
+   */
+  recordSyncScheduleRun(
+    scheduleId: string,
+    expectedNextRunAt: string,
+    run: { lastRunAt: string | null; lastJobId: string | null; nextRunAt: string | null },
+  ): Promise<boolean>;
+
+  /**
+   * Pause or resume a schedule, leaving the run bookkeeping a scheduler may be
+   * writing at the same time untouched. `nextRunAt` is only changed when given.
+   * Returns false when the schedule does not exist.
+   */
+  setSyncSchedulePaused(
+    scheduleId: string,
+    update: { paused: boolean; nextRunAt?: string | null },
+  ): Promise<boolean>;
+
   // SIE data
+  /**
+   * Store a parsed SIE file. An earlier upload with the same connection,
+   * fiscal year and SIE type is replaced in one transaction.
+   */
   storeSIEData(
     connectionId: string,
     data: SIEFullData,
@@ -88,6 +242,46 @@ export interface DatabaseAdapter {
 
   getSIEData(uploadId: string): Promise<SIEFullData | null>;
 
+  /** The #FNAMN, #ORGNR, #RAR etc. of an upload, without its rows */
+  getSIEMetadata(uploadId: string): Promise<SIEMetadata | null>;
+
+  /** Accounts ordered by account number */
+  getSIEAccounts(connectionId: string, options?: GetSIEAccountsOptions): Promise<SIEAccount[]>;
+
+  /** Transactions ordered by verification date, then file order. Default page size 100. */
+  getSIETransactions(connectionId: string, options?: GetSIETransactionsOptions): Promise<SIEStoredTransaction[]>;
+
+  getSIETransactionCount(
+    connectionId: string,
+    options?: Omit<GetSIETransactionsOptions, 'page' | 'pageSize'>,
+  ): Promise<number>;
+
+  /** Sum and number of the matching transactions per account, ordered by account number */
+  getSIETransactionTotals(
+    connectionId: string,
+    options?: Omit<GetSIETransactionsOptions, 'page' | 'pageSize'>,
+  ): Promise<SIEAccountTotal[]>;
+
+  /**
+   * Every row of the vouchers that have a row matching the filter, paginated
+   * by voucher and ordered by series and number. Default page size 100.
+   */
+  getSIEVoucherRows(connectionId: string, options?: GetSIETransactionsOptions): Promise<SIEStoredTransaction[]>;
+
+  /** Number of vouchers that have a row matching the filter */
+  getSIEVoucherCount(
+    connectionId: string,
+    options?: Omit<GetSIETransactionsOptions, 'page' | 'pageSize'>,
+  ): Promise<number>;
+
+  /** Balances ordered by account, in file order per account */
+  getSIEBalances(connectionId: string, options?: GetSIEBalancesOptions): Promise<SIEStoredBalance[]>;
+
+  /** Replaces any budget stored for the same connection and fiscal year. */
+  storeSIEBudget(budget: SIEBudgetRecord): Promise<void>;
+
+  getSIEBudget(connectionId: string, fiscalYear: number): Promise<SIEBudgetRecord | null>;
+
   // Connections (metadata, not auth)
   upsertConnection(connection: ConnectionRecord): Promise<void>;
 
@@ -107,13 +301,34 @@ export interface DatabaseAdapter {
 
   // Consent token storage
   storeConsentTokens(tokens: ConsentTokenRecord): Promise<void>;
+  /**
+   * Overwrite the stored tokens only while they still equal `expected` (as stored).
+   * Returns false when another writer replaced them first.
+   */
+  replaceConsentTokens(
+    tokens: ConsentTokenRecord,
+    expected: Pick<ConsentTokenRecord, 'accessToken' | 'refreshToken'>,
+  ): Promise<boolean>;
   getConsentTokens(consentId: string): Promise<ConsentTokenRecord | null>;
+  /** Tokens of accepted consents whose access token expires before the given ISO timestamp */
+  getExpiringConsentTokens(expiresBefore: string): Promise<ConsentTokenRecord[]>;
   deleteConsentTokens(consentId: string): Promise<void>;
 
   // One-time codes
   createOneTimeCode(otc: OneTimeCode): Promise<void>;
   validateOneTimeCode(code: string): Promise<OneTimeCode | null>;
 
+  // Webhooks
+  upsertWebhookEndpoint(endpoint: WebhookEndpoint): Promise<void>;
+  getWebhookEndpoint(endpointId: string): Promise<WebhookEndpoint | null>;
+  getWebhookEndpoints(tenantId: string): Promise<WebhookEndpoint[]>;
+  /** Also removes the endpoint's delivery log. */
+  deleteWebhookEndpoint(endpointId: string): Promise<void>;
+  upsertWebhookDelivery(delivery: WebhookDelivery): Promise<void>;
+  getWebhookDelivery(deliveryId: string): Promise<WebhookDelivery | null>;
+  /** Newest first. */
+  getWebhookDeliveries(endpointId: string, limit?: number): Promise<WebhookDelivery[]>;
+
   // Schema management
   migrate(): Promise<void>;
 }
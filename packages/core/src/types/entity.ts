@@ -38,6 +38,34 @@ export interface CanonicalEntityRecord {
   last_modified: string | null;
   /** SHA-256 of JSON.stringify(raw_data) — enables change detection for all providers */
   content_hash: string;
+  /**
+   * Set by the store once a deletion reconciliation finds the record gone from
+   * the provider. Tombstoned records are kept but hidden from reads by default.
+   */
+  deleted_at?: string | null;
+}
+
+export type EntityChangeType = 'created' | 'updated' | 'deleted' | 'restored';
+
+/**
+ * One immutable snapshot in a record's history, written whenever the stored
+ * record is inserted, changed, tombstoned or restored. Versions count from 1
+ * per record, and each stays current until the next one is recorded.
+ */
+export interface EntityRecordVersion {
+  version: number;
+  changeType: EntityChangeType;
+  recordedAt: string;
+  record: CanonicalEntityRecord;
+}
+
+/** A single field that differs between two versions of a record. */
+export interface EntityFieldChange {
+  /** Canonical field name, or a path into raw_data such as `raw_data.Rows[0].Price` */
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
 }
 
 export interface FetchEntitiesOptions {
@@ -53,6 +81,11 @@ export interface FetchEntitiesOptions {
   fetchDetails?: boolean;
   /** Page size for pagination */
   pageSize?: number;
+  /**
+   * Fetch only this 1-based page; `hasMore` in the result says whether another
+   * follows. Omit to fetch every page. Providers without paging ignore it.
+   */
+  page?: number;
 }
 
 export interface FetchEntitiesResult {
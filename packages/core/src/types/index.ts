@@ -16,6 +16,9 @@ export type {
   FetchEntitiesOptions,
   FetchEntitiesResult,
   FetchProgressCallback,
+  EntityChangeType,
+  EntityRecordVersion,
+  EntityFieldChange,
 } from './entity.js';
 
 export { EntityTypeSchema } from './entity.js';
@@ -23,31 +26,92 @@ export { EntityTypeSchema } from './entity.js';
 export type {
   SyncStatus,
   SyncJob,
+  SyncJobRecord,
+  SyncSchedule,
   EntitySyncResult,
   SIESyncResult,
   SyncProgress,
   SyncState,
+  SyncCheckpoint,
+  EntityChangeSet,
 } from './sync.js';
 
+export {
+  WebhookEventTypeSchema,
+  type WebhookEventType,
+  type WebhookEndpoint,
+  type WebhookEvent,
+  type WebhookDeliveryStatus,
+  type WebhookDelivery,
+} from './webhook.js';
+
 export type {
   UpsertResult,
   GetEntitiesOptions,
+  GetSIETransactionsOptions,
+  GetSIEAccountsOptions,
+  GetSIEBalancesOptions,
+  SIEAccountTotal,
   ConnectionRecord,
   DatabaseAdapter,
 } from './database.js';
 
 export type {
   SIEType,
+  SIETextType,
+  SIESignature,
   SIEBalanceType,
   SIEMetadata,
   SIEAccount,
   SIEBalance,
   SIETransaction,
   SIEDimension,
+  SIEDimensionDefinition,
+  SIEObjectReference,
+  SIEPeriodBalance,
+  SIEBudget,
+  SIERecord,
+  SIEParseDiagnosticCode,
+  SIEParseDiagnostic,
+  SIEParseReport,
   SIEParseResult,
   SIEKPIs,
+  SIEExplainedKPI,
+  SIEKPIAccountRange,
+  SIEKPIContribution,
+  SIEKPIExplanation,
+  SIEKPIsWithExplanation,
+  SIECashFlowStatement,
+  SIEPeriodFigures,
+  SIEMonthlyKPIs,
+  SIEChecksumStatus,
+  SIEDiagnosticCode,
+  SIEDiagnostic,
+  SIEValidationReport,
   SIEUpload,
   SIEFullData,
+  SIEStoredTransaction,
+  SIEStoredBalance,
+  SIEBudgetLine,
+  SIEBudgetRecord,
+  SIEVarianceFigures,
+  SIEMonthVariance,
+  SIEAccountVariance,
+  SIEGroupVariance,
+  SIEVarianceReport,
+  SIELedgerFilter,
+  SIELedgerEntry,
+  SIELedgerAccount,
+  SIEVoucherRow,
+  SIEVoucher,
+  SIEVATBox,
+  SIEVATContribution,
+  SIEVATBoxExplanation,
+  SIEVATReturn,
+  SIESRUField,
+  SIESRUIssueType,
+  SIESRUIssue,
+  SIESRUDeclaration,
   FetchSIEOptions,
   FetchSIEResult,
 } from './sie.js';
@@ -7,8 +7,11 @@
  * with real-world SIE files from Fortnox, Visma/Spiris, Bokio, and BL.
  */
 
-/** SIE file type (1-4) */
-export type SIEType = 1 | 2 | 3 | 4;
+/** SIE file type: 1-4 for the tagged-text formats, 5 for SIE 5 XML */
+export type SIEType = 1 | 2 | 3 | 4 | 5;
+
+/** The tagged-text SIE types, which `writeSIE()` and the provider exports produce */
+export type SIETextType = Exclude<SIEType, 5>;
 
 export type SIEBalanceType = 'IB' | 'UB' | 'RES';
 
@@ -23,6 +26,18 @@ export interface SIEMetadata {
   orgNumber?: string;
   /** #OMFATTN — date of last transaction (actual period end for partial years) */
   omfattnDate?: string;
+  /** XML signatures of a SIE 5 file, as declared; they are not verified */
+  signatures?: SIESignature[];
+}
+
+/** A `<ds:Signature>` in a SIE 5 file */
+export interface SIESignature {
+  /** SignatureMethod algorithm URI */
+  signatureMethod?: string;
+  /** Subject of the signing certificate (X509SubjectName), if given */
+  subjectName?: string;
+  /** Whether the signature embeds an X509 certificate */
+  hasCertificate: boolean;
 }
 
 export interface SIEAccount {
@@ -34,12 +49,27 @@ export interface SIEAccount {
   taxCode?: string;
 }
 
+/** An object (#OBJEKT): a cost center, project or other value within a dimension */
 export interface SIEDimension {
   dimensionType: number;
   code: string;
   name: string;
 }
 
+/** A dimension declared with #DIM, or a subdimension declared with #UNDERDIM */
+export interface SIEDimensionDefinition {
+  dimensionType: number;
+  name: string;
+  /** Superior dimension of an #UNDERDIM */
+  parentDimensionType?: number;
+}
+
+/** Entry in a {} object list: dimension number and object code */
+export interface SIEObjectReference {
+  dimensionType: number;
+  code: string;
+}
+
 export interface SIEBalance {
   accountNumber: string;
   /** 'IB' = opening, 'UB' = closing, 'RES' = result (income statement) */
@@ -50,6 +80,30 @@ export interface SIEBalance {
   quantity?: number;
 }
 
+/**
+ * Balance or budget for one period (#PSALDO / #PBUDGET). With an empty
+ * object list the row covers the whole account; otherwise it is the part
+ * booked on those objects.
+ */
+export interface SIEPeriodBalance {
+  accountNumber: string;
+  /** 0 = current year, -1 = previous year, etc. */
+  yearIndex: number;
+  /** Period as YYYYMM */
+  period: string;
+  objects: SIEObjectReference[];
+  amount: number;
+  quantity?: number;
+}
+
+/** Full-year budget for a result account (#BUDGET) */
+export interface SIEBudget {
+  accountNumber: string;
+  yearIndex: number;
+  amount: number;
+  quantity?: number;
+}
+
 /**
  * Flattened transaction row — each row is a standalone record
  * that includes verification context. This matches the arcim production
@@ -62,20 +116,82 @@ export interface SIETransaction {
   verificationText: string;
   accountNumber: string;
   amount: number;
+  /** Object in dimension 1, if any */
   costCenter: string;
+  /** Object in dimension 6, if any */
   project: string;
+  /** Every object in the row's object list, in file order */
+  objects: SIEObjectReference[];
   rowText: string;
   quantity?: number;
   /** Registration date from #VER field 5, if present */
   registrationDate?: string;
 }
 
+/**
+ * A record read from a SIE file. `parseSIEStream()` yields these as it
+ * goes; `parseSIE()` folds them into a `SIEParseResult`.
+ */
+export type SIERecord =
+  | { type: 'metadata'; metadata: SIEMetadata }
+  | { type: 'account'; account: SIEAccount }
+  | { type: 'dimensionDefinition'; dimensionDefinition: SIEDimensionDefinition }
+  | { type: 'dimension'; dimension: SIEDimension }
+  | { type: 'balance'; balance: SIEBalance }
+  | { type: 'periodBalance'; periodBalance: SIEPeriodBalance }
+  | { type: 'periodBudget'; periodBudget: SIEPeriodBalance }
+  | { type: 'budget'; budget: SIEBudget }
+  | { type: 'transaction'; transaction: SIETransaction };
+
+export type SIEParseDiagnosticCode =
+  | 'unknown_label'
+  | 'unexpected_content'
+  | 'unterminated_quote'
+  | 'unterminated_object_list'
+  | 'missing_field'
+  | 'invalid_amount'
+  | 'invalid_quantity'
+  | 'missing_verification_block'
+  | 'unterminated_verification_block'
+  | 'transaction_outside_verification';
+
+/** A line `parseSIE()` could not fully read */
+export interface SIEParseDiagnostic {
+  severity: 'error' | 'warning';
+  code: SIEParseDiagnosticCode;
+  message: string;
+  /** 1-based line in the file */
+  line: number;
+  /** 1-based column of the offending field */
+  column: number;
+}
+
+/** What a tolerant parse ran into, and how much data it had to leave out */
+export interface SIEParseReport {
+  diagnostics: SIEParseDiagnostic[];
+  /** #TRANS rows dropped as unreadable or outside a verification */
+  skippedTransactions: number;
+  /** #IB/#UB/#RES, #PSALDO/#PBUDGET and #BUDGET rows dropped as unreadable */
+  skippedBalances: number;
+}
+
 export interface SIEParseResult {
   metadata: SIEMetadata;
   accounts: SIEAccount[];
+  /** Objects (#OBJEKT) */
   dimensions: SIEDimension[];
+  /** Declared dimensions (#DIM, #UNDERDIM) */
+  dimensionDefinitions: SIEDimensionDefinition[];
   transactions: SIETransaction[];
   balances: SIEBalance[];
+  /** Monthly balances (#PSALDO), carried by SIE 2 and up */
+  periodBalances: SIEPeriodBalance[];
+  /** Monthly budgets (#PBUDGET) */
+  periodBudgets: SIEPeriodBalance[];
+  /** Full-year budgets (#BUDGET) */
+  budgets: SIEBudget[];
+  /** Set by `parseSIE()` in tolerant mode */
+  parseReport?: SIEParseReport;
 }
 
 export interface SIEKPIs {
@@ -187,6 +303,163 @@ export interface SIEKPIs {
   isPartialYear: boolean;
 }
 
+/** KPIs that are calculated from account balances, i.e. all but the metadata */
+export type SIEExplainedKPI = Exclude<keyof SIEKPIs, 'annualizationFactor' | 'daysInPeriod' | 'isPartialYear'>;
+
+/** An account range read by a KPI, with the balances it was read from */
+export interface SIEKPIAccountRange {
+  /** What the range stands for, e.g. "Untaxed reserves" */
+  label: string;
+  min: number;
+  max: number;
+  balanceType: SIEBalanceType;
+  yearIndex: number;
+}
+
+/** One balance that went into a KPI, as it appears in the file */
+export interface SIEKPIContribution {
+  accountNumber: string;
+  accountName?: string;
+  /** Label of the range the account was read through */
+  label: string;
+  balanceType: SIEBalanceType;
+  yearIndex: number;
+  /** Signed SIE amount: liabilities, equity and revenue are negative */
+  amount: number;
+}
+
+export interface SIEKPIExplanation {
+  value: number | null;
+  formula: string;
+  /** Other KPIs the formula is built from; each has its own explanation */
+  inputs: SIEExplainedKPI[];
+  /** Every range behind the value, including those of its inputs */
+  ranges: SIEKPIAccountRange[];
+  contributions: SIEKPIContribution[];
+}
+
+export interface SIEKPIsWithExplanation {
+  kpis: SIEKPIs;
+  explanations: Record<SIEExplainedKPI, SIEKPIExplanation>;
+}
+
+/**
+ * Indirect-method cash flow statement for one fiscal year. Every figure is
+ * its effect on cash: positive for cash in, negative for cash out.
+ */
+export interface SIECashFlowStatement {
+  // ===== OPERATING ACTIVITIES =====
+  /** Årets resultat */
+  netIncome: number;
+  /** Depreciation and write-downs added back (7700-7899) */
+  depreciationAndWriteDowns: number;
+  /** Change in untaxed reserves (2100-2199), the balance side of appropriations */
+  changeInUntaxedReserves: number;
+  /** Change in provisions (2200-2299) */
+  changeInProvisions: number;
+  /** Kassaflöde före förändring av rörelsekapital */
+  operatingCashFlowBeforeWorkingCapital: number;
+
+  changeInInventory: number;
+  changeInCustomerReceivables: number;
+  /** Other receivables and prepaid expenses (1600-1799) */
+  changeInOtherReceivables: number;
+  changeInAccountsPayable: number;
+  /** Current liabilities other than accounts payable and short-term borrowing */
+  changeInOtherCurrentLiabilities: number;
+  workingCapitalChange: number;
+  operatingCashFlow: number;
+
+  // ===== INVESTING ACTIVITIES =====
+  /** Net investment in fixed assets (1000-1399), before depreciation */
+  investmentsInFixedAssets: number;
+  /** Short-term investments (1800-1899) */
+  changeInShortTermInvestments: number;
+  investingCashFlow: number;
+
+  // ===== FINANCING ACTIVITIES =====
+  /** Long-term liabilities (2300-2399) */
+  changeInLongTermLiabilities: number;
+  /** Short-term interest-bearing debt (2840-2849) */
+  changeInShortTermBorrowings: number;
+  /** Equity (2000-2099) other than the year's result: share issues, dividends, owner withdrawals */
+  changeInEquity: number;
+  financingCashFlow: number;
+
+  // ===== RECONCILIATION =====
+  netCashFlow: number;
+  /** Cash and bank (1900-1999) at the start and end of the year */
+  openingCash: number;
+  closingCash: number;
+  cashChange: number;
+  /** `netCashFlow - cashChange`; non-zero when the balances do not add up */
+  difference: number;
+  reconciles: boolean;
+}
+
+/** Income statement figures for one month, or for the twelve months up to one */
+export interface SIEPeriodFigures {
+  netSales: number;
+  costOfGoodsSold: number;
+  grossProfit: number;
+  ebitda: number;
+  ebit: number;
+  netIncome: number;
+  /** Bruttomarginal */
+  grossMargin: number | null;
+  /** EBITDA-marginal */
+  ebitdaMargin: number | null;
+  /** Days Sales Outstanding: month-end receivables against the period's sales */
+  dso: number | null;
+}
+
+/** One calendar month of a KPI time series */
+export interface SIEMonthlyKPIs extends SIEPeriodFigures {
+  /** YYYY-MM */
+  month: string;
+  /** Verifications booked in the month, or #PSALDO rows where the file has none */
+  source: 'transactions' | 'periodBalances';
+  /** Month-end balances; null when the file has no balance sheet data for the month */
+  cashAndBank: number | null;
+  customerReceivables: number | null;
+  inventory: number | null;
+  accountsPayable: number | null;
+  /** Last twelve months up to and including this one; null without twelve consecutive months */
+  ltm: SIEPeriodFigures | null;
+}
+
+export type SIEChecksumStatus = 'valid' | 'invalid' | 'missing';
+
+export type SIEDiagnosticCode =
+  | 'checksum_mismatch'
+  | 'checksum_incomplete'
+  | 'unbalanced_verification'
+  | 'unterminated_verification'
+  | 'undeclared_account'
+  | 'verification_outside_fiscal_year'
+  | 'opening_balance_mismatch'
+  | 'balance_sheet_not_balanced';
+
+export interface SIEDiagnostic {
+  severity: 'error' | 'warning';
+  code: SIEDiagnosticCode;
+  message: string;
+  /** 1-based line in the file */
+  line?: number;
+  accountNumber?: string;
+  yearIndex?: number;
+}
+
+/** Result of `validateSIE()` */
+export interface SIEValidationReport {
+  /** True when there are no error diagnostics */
+  valid: boolean;
+  checksum: SIEChecksumStatus;
+  errorCount: number;
+  warningCount: number;
+  diagnostics: SIEDiagnostic[];
+}
+
 export interface SIEUpload {
   uploadId: string;
   connectionId: string;
@@ -198,6 +471,18 @@ export interface SIEUpload {
   uploadedAt: string;
 }
 
+/** A transaction as stored, with the upload it came from */
+export interface SIEStoredTransaction extends SIETransaction {
+  uploadId: string;
+  fiscalYear: number;
+}
+
+/** A balance as stored, with the upload it came from */
+export interface SIEStoredBalance extends SIEBalance {
+  uploadId: string;
+  fiscalYear: number;
+}
+
 export interface SIEFullData {
   uploadId?: string;
   connectionId: string;
@@ -206,10 +491,222 @@ export interface SIEFullData {
   parsed: SIEParseResult;
   kpis: SIEKPIs;
   rawContent?: string;
+  /** Original file name, for files uploaded directly rather than fetched from a provider */
+  fileName?: string;
+  /** Structural validation of `rawContent`, made when the file was stored */
+  validation?: SIEValidationReport;
+}
+
+/**
+ * One budgeted amount for a result account, in SIE signs: revenue is
+ * negative and costs are positive.
+ */
+export interface SIEBudgetLine {
+  accountNumber: string;
+  /** YYYYMM for a monthly amount; absent for a full-year amount */
+  period?: string;
+  amount: number;
+}
+
+/** The budget for one fiscal year of a connection */
+export interface SIEBudgetRecord {
+  connectionId: string;
+  fiscalYear: number;
+  /** #BUDGET/#PBUDGET rows of a SIE file, or a CSV file */
+  source: 'sie' | 'csv';
+  lines: SIEBudgetLine[];
+  fileName?: string;
+  updatedAt: string;
+}
+
+/** Actual against budget, in SIE signs */
+export interface SIEVarianceFigures {
+  actual: number;
+  budget: number;
+  /** actual - budget */
+  deviation: number;
+  /** Deviation as a percentage of the budget; null without a budget */
+  deviationPercent: number | null;
+  /** Whether the deviation improves the result: lower costs or higher revenue */
+  favourable: boolean;
+}
+
+export interface SIEMonthVariance extends SIEVarianceFigures {
+  /** YYYY-MM */
+  month: string;
+}
+
+export interface SIEAccountVariance extends SIEVarianceFigures {
+  accountNumber: string;
+  accountName?: string;
+  /** BAS group from classifyAccount(), null outside the known ranges */
+  group: string | null;
+  months: SIEMonthVariance[];
+}
+
+export interface SIEGroupVariance extends SIEVarianceFigures {
+  group: string | null;
+  months: SIEMonthVariance[];
+}
+
+export interface SIEVarianceReport {
+  accounts: SIEAccountVariance[];
+  groups: SIEGroupVariance[];
+  /** All accounts, month by month */
+  months: SIEMonthVariance[];
+  total: SIEVarianceFigures;
+}
+
+/** Filter for the general ledger and the voucher list. Bounds are inclusive. */
+export interface SIELedgerFilter {
+  fromAccount?: string;
+  toAccount?: string;
+  /** YYYY-MM-DD */
+  fromDate?: string;
+  /** YYYY-MM-DD */
+  toDate?: string;
+  costCenter?: string;
+  project?: string;
+}
+
+/** One transaction in the general ledger */
+export interface SIELedgerEntry {
+  verificationSeries: string;
+  verificationNumber: string;
+  /** YYYY-MM-DD */
+  verificationDate: string;
+  /** Row text, or the verification text when the row has none */
+  text: string;
+  costCenter: string;
+  project: string;
+  amount: number;
+  /** Account balance after this transaction */
+  balance: number;
+}
+
+/** One account of the general ledger (huvudbok) */
+export interface SIELedgerAccount {
+  accountNumber: string;
+  accountName?: string;
+  openingBalance: number;
+  entries: SIELedgerEntry[];
+  debit: number;
+  credit: number;
+  closingBalance: number;
+}
+
+export interface SIEVoucherRow {
+  accountNumber: string;
+  accountName?: string;
+  amount: number;
+  costCenter: string;
+  project: string;
+  rowText: string;
+  quantity?: number;
+}
+
+/** One verification of the voucher list (verifikationslista) */
+export interface SIEVoucher {
+  series: string;
+  number: string;
+  /** YYYY-MM-DD */
+  date: string;
+  text: string;
+  /** YYYY-MM-DD */
+  registrationDate?: string;
+  rows: SIEVoucherRow[];
+  debit: number;
+  credit: number;
+}
+
+/** A box (ruta) of the Swedish VAT return (momsdeklaration) */
+export type SIEVATBox =
+  | '05' | '06' | '07' | '08'
+  | '10' | '11' | '12'
+  | '20' | '21' | '22' | '23' | '24'
+  | '30' | '31' | '32'
+  | '35' | '36' | '37' | '38' | '39' | '40' | '41' | '42'
+  | '48' | '49'
+  | '50'
+  | '60' | '61' | '62';
+
+/** The movement of one account over a VAT period, in SIE signs */
+export interface SIEVATContribution {
+  accountNumber: string;
+  accountName?: string;
+  amount: number;
+}
+
+export interface SIEVATBoxExplanation {
+  box: SIEVATBox;
+  /** Skatteverket's wording of the box */
+  label: string;
+  /** Reported amount, in whole kronor */
+  amount: number;
+  /** Amount before the öre are dropped */
+  exactAmount: number;
+  /** Account ranges that feed the box */
+  ranges: { min: number; max: number }[];
+  /** Boxes this box is calculated from (only box 49) */
+  inputs: SIEVATBox[];
+  contributions: SIEVATContribution[];
+}
+
+export interface SIEVATReturn {
+  /** `YYYY-MM`, `YYYY-Qn` or `YYYY` */
+  period: string;
+  /** YYYY-MM-DD */
+  fromDate: string;
+  /** YYYY-MM-DD */
+  toDate: string;
+  orgNumber?: string;
+  /** Amount per box in whole kronor. Box 49 is positive when VAT is to be paid. */
+  boxes: Record<SIEVATBox, number>;
+  explanations: Record<SIEVATBox, SIEVATBoxExplanation>;
+  /** Verifications left out because they settle VAT against account 2650, as "series number" */
+  settlementVerifications: string[];
+}
+
+/** A field of the INK2R or INK2S tax return form, identified by its SRU code */
+export interface SIESRUField {
+  /** SRU code, e.g. "7410" */
+  code: string;
+  form: 'INK2R' | 'INK2S';
+  /** Skatteverket's wording of the field */
+  label: string;
+  /** Whole kronor, as reported */
+  amount: number;
+  /** Year-end balances behind the field, in SIE signs */
+  contributions: { accountNumber: string; accountName?: string; amount: number }[];
+}
+
+export type SIESRUIssueType = 'missing-code' | 'unknown-code' | 'class-mismatch';
+
+/** An account whose balance could not be placed on the tax return as coded */
+export interface SIESRUIssue {
+  type: SIESRUIssueType;
+  accountNumber: string;
+  accountName?: string;
+  sruCode?: string;
+  /** Year-end balance in SIE signs */
+  amount: number;
+  message: string;
+}
+
+export interface SIESRUDeclaration {
+  companyName: string;
+  orgNumber?: string;
+  /** YYYY-MM-DD */
+  fiscalYearStart: string;
+  /** YYYY-MM-DD */
+  fiscalYearEnd: string;
+  /** Non-zero fields, INK2R before INK2S, each in code order */
+  fields: SIESRUField[];
+  issues: SIESRUIssue[];
 }
 
 export interface FetchSIEOptions {
-  sieType?: SIEType;
+  sieType?: SIETextType;
   fiscalYears?: number[];
 }
 
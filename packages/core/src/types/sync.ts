@@ -11,7 +11,17 @@ export type SyncStatus =
 export interface SyncJob {
   connectionId: string;
   provider: ProviderName;
-  credentials: import('./provider.js').ProviderCredentials;
+  /**
+   * Consent whose managed tokens the job runs with. The queue keeps only this
+   * reference; the worker that claims the job resolves (and if needed
+   * refreshes) the tokens.
+   */
+  consentId?: string;
+  /**
+   * Credentials for jobs without a consent. Stored with the queued job until
+   * it finishes, then removed.
+   */
+  credentials?: import('./provider.js').ProviderCredentials;
   /** Which entity types to sync. If omitted, syncs all supported types. */
   entityTypes?: EntityType[];
   /** Whether to include SIE file sync */
@@ -21,6 +31,59 @@ export interface SyncJob {
     sieType?: 1 | 2 | 3 | 4;
     fiscalYears?: number[];
   };
+  /**
+   * After upserting, compare the provider's full ID set with the stored records
+   * and tombstone any that no longer exist. Costs an extra full fetch for entity
+   * types that were synced incrementally.
+   */
+  reconcileDeletions?: boolean;
+}
+
+/**
+ * A sync job persisted in the job queue. Workers lease jobs by setting
+ * `workerId` + `leaseExpiresAt` and keep the lease alive with heartbeats;
+ * a running job whose lease has expired is considered stuck and re-queued.
+ */
+export interface SyncJobRecord {
+  jobId: string;
+  connectionId: string;
+  provider: ProviderName;
+  status: SyncStatus;
+  job: SyncJob;
+  /** Number of times a worker has claimed this job */
+  attempts: number;
+  workerId: string | null;
+  leaseExpiresAt: string | null;
+  heartbeatAt: string | null;
+  cancelRequested: boolean;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A recurring sync for one connection. Exactly one of `cronExpression`
+ * (5-field, UTC) or `intervalMinutes` is set. The scheduler enqueues a
+ * SyncJob whenever `nextRunAt` has passed and the schedule is not paused.
+ */
+export interface SyncSchedule {
+  scheduleId: string;
+  connectionId: string;
+  provider: ProviderName;
+  /** Consent whose managed tokens each run resolves when a worker claims it */
+  consentId: string;
+  cronExpression: string | null;
+  intervalMinutes: number | null;
+  entityTypes?: EntityType[];
+  includeSIE: boolean;
+  sieOptions?: SyncJob['sieOptions'];
+  paused: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  /** jobId of the most recently enqueued run */
+  lastJobId: string | null;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface EntitySyncResult {
@@ -29,6 +92,8 @@ export interface EntitySyncResult {
   recordsInserted: number;
   recordsUpdated: number;
   recordsUnchanged: number;
+  /** Records tombstoned by deletion reconciliation */
+  recordsDeleted: number;
   success: boolean;
   error?: string;
   durationMs: number;
@@ -58,6 +123,34 @@ export interface SyncProgress {
   totalDurationMs?: number;
 }
 
+/** Records one synced page inserted or updated, as reported to SyncEngine listeners. */
+export interface EntityChangeSet {
+  jobId: string;
+  connectionId: string;
+  provider: ProviderName;
+  entityType: EntityType;
+  insertedIds: string[];
+  updatedIds: string[];
+}
+
+/**
+ * Progress of a paged entity sync that has not finished yet. Written after
+ * every committed page so an interrupted sync resumes at `page + 1` with the
+ * same `baseCursor` filter instead of starting over.
+ */
+export interface SyncCheckpoint {
+  /** Last page whose records were committed */
+  page: number;
+  /** lastModifiedCursor the paged fetch was started with */
+  baseCursor: string | null;
+  /** Highest last_modified seen so far; becomes the cursor once all pages are in */
+  latestModified: string | null;
+  recordsFetched: number;
+  recordsInserted: number;
+  recordsUpdated: number;
+  recordsUnchanged: number;
+}
+
 export interface SyncState {
   connectionId: string;
   entityType: EntityType;
@@ -67,4 +160,6 @@ export interface SyncState {
   recordsUpdated: number;
   lastError: string | null;
   lastErrorAt: string | null;
+  /** Set while a paged sync for this entity type is partially committed */
+  checkpoint: SyncCheckpoint | null;
 }
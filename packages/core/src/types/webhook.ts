@@ -0,0 +1,53 @@
+import { z } from 'zod';
+
+export const WebhookEventTypeSchema = z.enum([
+  'sync.completed',
+  'sync.failed',
+  'consent.accepted',
+  'consent.revoked',
+  'entity.changed',
+]);
+
+export type WebhookEventType = z.infer<typeof WebhookEventTypeSchema>;
+
+/** A tenant's registered receiver. `secret` signs every delivery to it. */
+export interface WebhookEndpoint {
+  endpointId: string;
+  tenantId: string;
+  url: string;
+  secret: string;
+  /** Event types this endpoint is subscribed to */
+  events: WebhookEventType[];
+  description: string | null;
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** The JSON body POSTed to an endpoint. `id` is stable across retries and replays. */
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+/** One attempt sequence delivering an event to an endpoint, kept as the delivery log. */
+export interface WebhookDelivery {
+  deliveryId: string;
+  endpointId: string;
+  tenantId: string;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  /** HTTP status of the most recent attempt, if the endpoint answered */
+  responseStatus: number | null;
+  error: string | null;
+  /** deliveryId this one was replayed from */
+  replayOf: string | null;
+  createdAt: string;
+  updatedAt: string;
+  deliveredAt: string | null;
+}
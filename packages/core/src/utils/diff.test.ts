@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { diffEntityRecords } from './diff.js';
+import { contentHash } from './hash.js';
+import type { CanonicalEntityRecord } from '../types/entity.js';
+
+function makeInvoice(raw: Record<string, unknown>, overrides?: Partial<CanonicalEntityRecord>): CanonicalEntityRecord {
+  return {
+    external_id: '1001',
+    entity_type: 'invoice',
+    provider: 'fortnox',
+    fiscal_year: 2024,
+    document_date: '2024-03-15',
+    due_date: '2024-04-15',
+    counterparty_number: 'C100',
+    counterparty_name: 'Acme AB',
+    amount: 5000,
+    currency: 'SEK',
+    status: 'booked',
+    raw_data: raw,
+    last_modified: '2024-03-15T10:00:00Z',
+    content_hash: contentHash(raw),
+    ...overrides,
+  };
+}
+
+describe('diffEntityRecords', () => {
+  it('returns no changes for identical records', () => {
+    const raw = { DocumentNumber: '1001', Total: 5000 };
+    expect(diffEntityRecords(makeInvoice(raw), makeInvoice({ ...raw }))).toEqual([]);
+  });
+
+  it('reports changed canonical fields', () => {
+    const raw = { DocumentNumber: '1001' };
+    const changes = diffEntityRecords(
+      makeInvoice(raw),
+      makeInvoice(raw, { status: 'credited', amount: 0 }),
+    );
+    expect(changes).toEqual([
+      { path: 'amount', kind: 'changed', before: 5000, after: 0 },
+      { path: 'status', kind: 'changed', before: 'booked', after: 'credited' },
+    ]);
+  });
+
+  it('walks nested raw_data objects and arrays', () => {
+    const before = makeInvoice({
+      Total: 5000,
+      Note: 'first',
+      InvoiceRows: [{ ArticleNumber: 'A1', Price: 1000 }, { ArticleNumber: 'A2', Price: 4000 }],
+    });
+    const after = makeInvoice({
+      Total: 5000,
+      Credited: true,
+      InvoiceRows: [{ ArticleNumber: 'A1', Price: 1000 }, { ArticleNumber: 'A2', Price: -4000 }, { ArticleNumber: 'A3' }],
+    });
+
+    expect(diffEntityRecords(before, after)).toEqual([
+      { path: 'raw_data.Credited', kind: 'added', after: true },
+      { path: 'raw_data.InvoiceRows[1].Price', kind: 'changed', before: 4000, after: -4000 },
+      { path: 'raw_data.InvoiceRows[2]', kind: 'added', after: { ArticleNumber: 'A3' } },
+      { path: 'raw_data.Note', kind: 'removed', before: 'first' },
+    ]);
+  });
+
+  it('treats a missing deleted_at as null', () => {
+    const raw = { DocumentNumber: '1001' };
+    const changes = diffEntityRecords(
+      makeInvoice(raw),
+      makeInvoice(raw, { deleted_at: '2024-05-01T00:00:00Z' }),
+    );
+    expect(changes).toEqual([
+      { path: 'deleted_at', kind: 'changed', before: null, after: '2024-05-01T00:00:00Z' },
+    ]);
+  });
+});
@@ -0,0 +1,81 @@
+import type { CanonicalEntityRecord, EntityFieldChange } from '../types/entity.js';
+
+/** Canonical columns compared field by field; raw_data is walked separately. */
+const CANONICAL_FIELDS = [
+  'fiscal_year',
+  'document_date',
+  'due_date',
+  'counterparty_number',
+  'counterparty_name',
+  'amount',
+  'currency',
+  'status',
+  'last_modified',
+  'deleted_at',
+] as const;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function diffValues(path: string, before: unknown, after: unknown, changes: EntityFieldChange[]): void {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of [...keys].sort()) {
+      const childPath = `${path}.${key}`;
+      if (!(key in after)) {
+        changes.push({ path: childPath, kind: 'removed', before: before[key] });
+      } else if (!(key in before)) {
+        changes.push({ path: childPath, kind: 'added', after: after[key] });
+      } else {
+        diffValues(childPath, before[key], after[key], changes);
+      }
+    }
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const length = Math.max(before.length, after.length);
+    for (let i = 0; i < length; i++) {
+      const childPath = `${path}[${i}]`;
+      if (i >= after.length) {
+        changes.push({ path: childPath, kind: 'removed', before: before[i] });
+      } else if (i >= before.length) {
+        changes.push({ path: childPath, kind: 'added', after: after[i] });
+      } else {
+        diffValues(childPath, before[i], after[i], changes);
+      }
+    }
+    return;
+  }
+
+  if (before !== after) {
+    changes.push({ path, kind: 'changed', before, after });
+  }
+}
+
+/**
+ * Field-level differences between two snapshots of the same record. Nested
+ * raw_data objects and arrays are compared element by element, so a credited
+ * invoice row shows up as e.g. `raw_data.InvoiceRows[1].Price`.
+ */
+export function diffEntityRecords(
+  before: CanonicalEntityRecord,
+  after: CanonicalEntityRecord,
+): EntityFieldChange[] {
+  const changes: EntityFieldChange[] = [];
+
+  for (const field of CANONICAL_FIELDS) {
+    const a = before[field] ?? null;
+    const b = after[field] ?? null;
+    if (a !== b) {
+      changes.push({ path: field, kind: 'changed', before: a, after: b });
+    }
+  }
+
+  if (before.content_hash !== after.content_hash) {
+    diffValues('raw_data', before.raw_data, after.raw_data, changes);
+  }
+
+  return changes;
+}
@@ -1,4 +1,5 @@
 export { contentHash } from './hash.js';
+export { diffEntityRecords } from './diff.js';
 export { withRetry, type RetryOptions } from './retry.js';
 export { TokenBucketRateLimiter } from './rate-limiter.js';
 export {
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import type { ApiClient, BudgetVarianceReport, VarianceFigures } from '../types.js';
+import { useAsync } from '../hooks/use-api.js';
+
+const VIEWS = [
+  { value: 'accounts', label: 'Accounts' },
+  { value: 'groups', label: 'BAS groups' },
+  { value: 'months', label: 'Months' },
+] as const;
+
+type View = (typeof VIEWS)[number]['value'];
+
+const amountFormat = new Intl.NumberFormat('sv-SE', { maximumFractionDigits: 0 });
+
+export interface BudgetVarianceTableProps {
+  api: ApiClient;
+  connectionId: string;
+  fiscalYear: number;
+}
+
+function rowsFor(report: BudgetVarianceReport, view: View): Array<VarianceFigures & { key: string; label: string }> {
+  switch (view) {
+    case 'accounts':
+      return report.accounts.map((a) => ({
+        ...a,
+        key: a.accountNumber,
+        label: a.accountName ? `${a.accountNumber} ${a.accountName}` : a.accountNumber,
+      }));
+    case 'groups':
+      return report.groups.map((g) => ({ ...g, key: g.group ?? '', label: g.group ?? 'Other' }));
+    case 'months':
+      return report.months.map((m) => ({ ...m, key: m.month, label: m.month }));
+  }
+}
+
+function VarianceCells({ figures }: { figures: VarianceFigures }) {
+  return (
+    <>
+      <td>{amountFormat.format(figures.actual)}</td>
+      <td>{amountFormat.format(figures.budget)}</td>
+      <td style={{ color: figures.favourable ? '#22C55E' : '#EF4444' }}>
+        {amountFormat.format(figures.deviation)}
+      </td>
+      <td>{figures.deviationPercent === null ? '—' : `${figures.deviationPercent.toFixed(1)} %`}</td>
+    </>
+  );
+}
+
+export function BudgetVarianceTable({ api, connectionId, fiscalYear }: BudgetVarianceTableProps) {
+  const [view, setView] = useState<View>('accounts');
+
+  const { data, loading, error } = useAsync(
+    () => api.get<BudgetVarianceReport>(`/sie/${connectionId}/budgets/${fiscalYear}/variance`),
+    [api, connectionId, fiscalYear],
+  );
+
+  if (loading) return <div className="arcim-loading">Loading budget...</div>;
+  if (error) return <div className="arcim-error">Error: {error}</div>;
+  if (!data) return null;
+
+  return (
+    <div className="arcim-budget-variance">
+      <div className="arcim-browser-controls">
+        <select value={view} onChange={(e) => setView(e.target.value as View)} className="arcim-select">
+          {VIEWS.map((v) => (
+            <option key={v.value} value={v.value}>
+              {v.label}
+            </option>
+          ))}
+        </select>
+        <span className="arcim-browser-meta">
+          Budget {fiscalYear} ({data.budgetSource === 'csv' ? 'CSV' : 'SIE'}), amounts in SIE signs
+        </span>
+      </div>
+      <table className="arcim-table">
+        <thead>
+          <tr>
+            <th>{VIEWS.find((v) => v.value === view)!.label}</th>
+            <th>Actual</th>
+            <th>Budget</th>
+            <th>Deviation</th>
+            <th>Deviation %</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rowsFor(data, view).map((row) => (
+            <tr key={row.key}>
+              <td>{row.label}</td>
+              <VarianceCells figures={row} />
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr>
+            <td>Total</td>
+            <VarianceCells figures={data.total} />
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+}
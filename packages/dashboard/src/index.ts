@@ -8,8 +8,9 @@ export { ConsentList, type ConsentListProps } from './components/ConsentList.js'
 export { ConsentDetail, type ConsentDetailProps } from './components/ConsentDetail.js';
 export { ResourceBrowser, type ResourceBrowserProps } from './components/ResourceBrowser.js';
 export { OnboardingWizard, type OnboardingWizardProps } from './components/OnboardingWizard.js';
+export { BudgetVarianceTable, type BudgetVarianceTableProps } from './components/BudgetVarianceTable.js';
 export { createApiClient, useAsync } from './hooks/use-api.js';
-export type { ConsentRecord, ApiClient } from './types.js';
+export type { ConsentRecord, ApiClient, BudgetVarianceReport, VarianceFigures } from './types.js';
 export {
   CONSENT_STATUS_LABELS,
   CONSENT_STATUS_COLORS,
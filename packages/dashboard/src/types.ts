@@ -11,6 +11,26 @@ export interface ConsentRecord {
   updatedAt: string;
 }
 
+/** Actual against budget, in SIE signs (revenue negative, costs positive) */
+export interface VarianceFigures {
+  actual: number;
+  budget: number;
+  deviation: number;
+  deviationPercent: number | null;
+  favourable: boolean;
+}
+
+export interface BudgetVarianceReport {
+  connectionId: string;
+  fiscalYear: number;
+  uploadId: string;
+  budgetSource: 'sie' | 'csv';
+  accounts: Array<VarianceFigures & { accountNumber: string; accountName?: string; group: string | null }>;
+  groups: Array<VarianceFigures & { group: string | null }>;
+  months: Array<VarianceFigures & { month: string }>;
+  total: VarianceFigures;
+}
+
 export interface ApiClient {
   baseUrl: string;
   headers: Record<string, string>;
@@ -1,16 +1,19 @@
 import { Hono } from 'hono';
-import { noopLogger, createAESEncryption } from '@arcim-sync/core';
+import { noopLogger, createAESEncryption, SyncWorker, SyncScheduler } from '@arcim-sync/core';
 import type { ServerOptions } from './types.js';
 import { errorHandler } from './middleware/error.js';
 import { bearerAuth } from './middleware/auth.js';
 import { connectionsRoutes } from './routes/connections.js';
 import { syncRoutes } from './routes/sync.js';
+import { schedulesRoutes } from './routes/schedules.js';
 import { entitiesRoutes } from './routes/entities.js';
 import { sieRoutes } from './routes/sie.js';
 import { authRoutes } from './routes/auth.js';
 import { providersRoutes } from './routes/providers.js';
 import { consentRoutes } from './routes/consents.js';
 import { v1ResourceRoutes } from './routes/v1/index.js';
+import { webhooksRoutes } from './routes/webhooks.js';
+import { WebhookDispatcher } from './webhooks/dispatcher.js';
 import { rateLimitMiddleware } from './middleware/rate-limit.js';
 
 /**
@@ -21,6 +24,39 @@ export function createServer(options: ServerOptions) {
   const { db, apiKey, fortnoxOAuth, vismaOAuth } = options;
   const logger = options.logger ?? noopLogger;
 
+  const tokenEncryption = options.tokenEncryptionKey
+    ? createAESEncryption(options.tokenEncryptionKey)
+    : undefined;
+  const oauth = {
+    fortnox: fortnoxOAuth,
+    visma: vismaOAuth,
+    briox: options.brioxOAuth,
+    bjornlunden: options.bjornLundenOAuth,
+  };
+
+  const webhooks = options.webhooks === false
+    ? undefined
+    : new WebhookDispatcher(db, { logger, ...options.webhooks });
+
+  const syncWorker = options.syncWorker === false
+    ? undefined
+    : new SyncWorker(db, {
+        logger,
+        tokenRefresh: { oauth, tokenEncryption },
+        ...options.syncWorker,
+        ...webhooks?.syncListeners(),
+      });
+  syncWorker?.start();
+
+  const syncScheduler = options.syncScheduler === false
+    ? undefined
+    : new SyncScheduler(db, {
+        logger,
+        ...options.syncScheduler,
+        onEnqueue: () => syncWorker?.wake(),
+      });
+  syncScheduler?.start();
+
   const app = new Hono();
 
   // 1. Global error handler
@@ -38,27 +74,28 @@ export function createServer(options: ServerOptions) {
 
   // 4. Mount route groups
   app.route('/connections', connectionsRoutes(db, logger));
-  app.route('/sync', syncRoutes(db, logger));
+  app.route('/sync', syncRoutes(db, logger, syncWorker));
+  app.route('/schedules', schedulesRoutes(db, logger));
   app.route('/entities', entitiesRoutes(db, logger));
-  app.route('/sie', sieRoutes(db, logger));
+  app.route('/sie', sieRoutes(db, logger, { maxUploadBytes: options.maxSIEUploadBytes }));
   app.route('/auth', authRoutes(logger, fortnoxOAuth, vismaOAuth));
   app.route('/providers', providersRoutes(logger));
 
   // 5. V1 API — consent-based resource routes
-  const tokenEncryption = options.tokenEncryptionKey
-    ? createAESEncryption(options.tokenEncryptionKey)
-    : undefined;
-
   const v1Options = {
     tokenEncryption,
     mode: options.mode,
+    oauth,
   };
 
   if (options.rateLimits) {
     app.use('/api/v1/*', rateLimitMiddleware(options.rateLimits));
   }
 
-  app.route('/api/v1/consents', consentRoutes(db, logger, { tokenEncryption }));
+  app.route('/api/v1/consents', consentRoutes(db, logger, { tokenEncryption, webhooks }));
+  if (webhooks) {
+    app.route('/api/v1/webhooks', webhooksRoutes(db, logger, webhooks));
+  }
   app.route('/api/v1/consents', v1ResourceRoutes(db, logger, v1Options));
 
   return app;
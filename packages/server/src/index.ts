@@ -1,6 +1,19 @@
 export { createServer } from './app.js';
-export type { ServerOptions, FortnoxOAuthConfig, VismaOAuthConfig, AppEnv } from './types.js';
+export type {
+  ServerOptions,
+  FortnoxOAuthConfig,
+  VismaOAuthConfig,
+  BrioxOAuthConfig,
+  BjornLundenOAuthConfig,
+  AppEnv,
+} from './types.js';
 export { consentRoutes } from './routes/consents.js';
 export { v1ResourceRoutes } from './routes/v1/index.js';
-export { consentMiddleware } from './middleware/consent.js';
+export { consentMiddleware, withConsentCredentials } from './middleware/consent.js';
 export { rateLimitMiddleware, type RateLimitConfig } from './middleware/rate-limit.js';
+export { WebhookDispatcher, type WebhookDispatcherOptions } from './webhooks/dispatcher.js';
+export {
+  WEBHOOK_SIGNATURE_HEADER,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from './webhooks/signature.js';
@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SQLiteAdapter, ConsentStatus, createAESEncryption } from '@arcim-sync/core';
+import { createServer } from '../app.js';
+
+const ENCRYPTION_KEY = 'b'.repeat(64);
+const encryption = createAESEncryption(ENCRYPTION_KEY);
+const originalFetch = globalThis.fetch;
+
+const CUSTOMERS = {
+  MetaInformation: { '@TotalResources': 1, '@TotalPages': 1, '@CurrentPage': 1 },
+  Customers: [{ CustomerNumber: '1', Name: 'Kund AB' }],
+};
+
+/**
+ * Mocked Fortnox: the token endpoint rotates tokens for the current refresh
+ * token, the API accepts only the most recently issued access token.
+ */
+function mockFortnox(initial: { accessToken: string; refreshToken: string }) {
+  const state = {
+    accessToken: initial.accessToken,
+    refreshToken: initial.refreshToken,
+    tokenRequests: 0,
+    rejectRefresh: false,
+  };
+
+  globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    const url = new URL(String(input));
+
+    if (url.pathname === '/oauth-v1/token') {
+      state.tokenRequests++;
+      // Slow enough for concurrent requests to pile up behind the lock
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      const body = new URLSearchParams(String(init?.body));
+      if (state.rejectRefresh || body.get('refresh_token') !== state.refreshToken) {
+        // Let a competing refresh that spent this token store its result first
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        return new Response('{"error":"invalid_grant"}', { status: 400 });
+      }
+      state.accessToken = `access-${state.tokenRequests}`;
+      state.refreshToken = `refresh-${state.tokenRequests}`;
+      return Response.json({
+        access_token: state.accessToken,
+        refresh_token: state.refreshToken,
+        token_type: 'Bearer',
+        expires_in: 3600,
+      });
+    }
+
+    const headers = new Headers(init?.headers);
+    if (headers.get('Authorization') !== `Bearer ${state.accessToken}`) {
+      return new Response('{"message":"unauthorized"}', { status: 401 });
+    }
+    return Response.json(CUSTOMERS);
+  }) as typeof fetch;
+
+  return state;
+}
+
+describe('consentMiddleware token refresh', () => {
+  let db: SQLiteAdapter;
+  let app: ReturnType<typeof createServer>;
+
+  async function seedConsent(tokenExpiresAt: string) {
+    await db.upsertConsent({
+      id: 'consent-1',
+      tenantId: 'default',
+      name: 'Test AB',
+      status: ConsentStatus.Accepted,
+      provider: 'fortnox',
+      etag: 'etag-1',
+      createdAt: '2024-03-15T10:00:00Z',
+      updatedAt: '2024-03-15T10:00:00Z',
+    });
+    await db.storeConsentTokens({
+      consentId: 'consent-1',
+      provider: 'fortnox',
+      accessToken: encryption.encrypt('stale-access'),
+      refreshToken: encryption.encrypt('refresh-0'),
+      tokenExpiresAt,
+      encryptedAt: '2024-03-15T10:00:00Z',
+    });
+  }
+
+  function inMinutes(minutes: number): string {
+    return new Date(Date.now() + minutes * 60_000).toISOString();
+  }
+
+  function buildServer() {
+    return createServer({
+      db,
+      tokenEncryptionKey: ENCRYPTION_KEY,
+      fortnoxOAuth: { clientId: 'id', clientSecret: 'secret', redirectUri: 'https://app.example.com/cb' },
+      syncWorker: false,
+      syncScheduler: false,
+      webhooks: false,
+    });
+  }
+
+  beforeEach(async () => {
+    db = new SQLiteAdapter(':memory:');
+    await db.migrate();
+    app = buildServer();
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it('refreshes an expired token before calling the provider', async () => {
+    const fortnox = mockFortnox({ accessToken: 'unknown', refreshToken: 'refresh-0' });
+    await seedConsent(inMinutes(-5));
+
+    const res = await app.request('/api/v1/consents/consent-1/customers');
+
+    expect(res.status).toBe(200);
+    expect(fortnox.tokenRequests).toBe(1);
+    const stored = (await db.getConsentTokens('consent-1'))!;
+    expect(encryption.decrypt(stored.accessToken)).toBe('access-1');
+    expect(encryption.decrypt(stored.refreshToken!)).toBe('refresh-1');
+  });
+
+  it('refreshes once for concurrent requests', async () => {
+    const fortnox = mockFortnox({ accessToken: 'unknown', refreshToken: 'refresh-0' });
+    await seedConsent(inMinutes(0.5));
+
+    const responses = await Promise.all(
+      Array.from({ length: 5 }, () => app.request('/api/v1/consents/consent-1/customers')),
+    );
+
+    expect(responses.map((r) => r.status)).toEqual([200, 200, 200, 200, 200]);
+    expect(fortnox.tokenRequests).toBe(1);
+  });
+
+  it('keeps the consent active when separate server instances refresh at once', async () => {
+    // The hosted edge function builds a new server per request, so nothing is shared in memory
+    const fortnox = mockFortnox({ accessToken: 'unknown', refreshToken: 'refresh-0' });
+    await seedConsent(inMinutes(-5));
+
+    const responses = await Promise.all(
+      [buildServer(), buildServer()].map((server) => server.request('/api/v1/consents/consent-1/customers')),
+    );
+
+    expect(responses.map((r) => r.status)).toEqual([200, 200]);
+    expect(fortnox.tokenRequests).toBe(2);
+    expect((await db.getConsent('consent-1'))!.status).toBe(ConsentStatus.Accepted);
+    const stored = (await db.getConsentTokens('consent-1'))!;
+    expect(encryption.decrypt(stored.refreshToken!)).toBe(fortnox.refreshToken);
+  });
+
+  it('leaves tokens that are not close to expiry alone', async () => {
+    const fortnox = mockFortnox({ accessToken: 'stale-access', refreshToken: 'refresh-0' });
+    await seedConsent(inMinutes(30));
+
+    const res = await app.request('/api/v1/consents/consent-1/customers');
+
+    expect(res.status).toBe(200);
+    expect(fortnox.tokenRequests).toBe(0);
+  });
+
+  it('retries a provider 401 once after a forced refresh', async () => {
+    // The provider has already invalidated the stored token
+    const fortnox = mockFortnox({ accessToken: 'revoked-early', refreshToken: 'refresh-0' });
+    await seedConsent(inMinutes(30));
+
+    const res = await app.request('/api/v1/consents/consent-1/customers');
+
+    expect(res.status).toBe(200);
+    expect(fortnox.tokenRequests).toBe(1);
+    const body = await res.json();
+    expect(body.data).toHaveLength(1);
+  });
+
+  it('marks the consent inactive when the refresh token is rejected', async () => {
+    const fortnox = mockFortnox({ accessToken: 'unknown', refreshToken: 'refresh-0' });
+    fortnox.rejectRefresh = true;
+    await seedConsent(inMinutes(-5));
+
+    const res = await app.request('/api/v1/consents/consent-1/customers');
+
+    expect(res.status).toBe(403);
+    expect(await res.json()).toEqual({ error: 'Consent is not active', status: 'Inactive' });
+    expect((await db.getConsent('consent-1'))!.status).toBe(ConsentStatus.Inactive);
+  });
+});
@@ -1,25 +1,121 @@
-import type { MiddlewareHandler } from 'hono';
-import type { DatabaseAdapter, Logger, ConsentRecord, TokenEncryption, ProviderCredentials } from '@arcim-sync/core';
-import { ConsentStatus } from '@arcim-sync/core';
+import type { Context, MiddlewareHandler } from 'hono';
+import type {
+  DatabaseAdapter,
+  Logger,
+  ConsentRecord,
+  ConsentTokenRecord,
+  TokenEncryption,
+  ProviderCredentials,
+  ProviderOAuthConfigs,
+} from '@arcim-sync/core';
+import { ConsentStatus, OAuthTokenError, refreshConsentTokens } from '@arcim-sync/core';
 import type { AppEnv } from '../types.js';
 
+/** Managed tokens this close to expiry are refreshed before the request. */
+const REFRESH_BEFORE_EXPIRY_MS = 60_000;
+
 export interface ConsentContext {
   consent: ConsentRecord;
   credentials: ProviderCredentials;
 }
 
+function isUnauthorized(error: unknown): boolean {
+  return (error as { statusCode?: unknown } | null)?.statusCode === 401;
+}
+
+/**
+ * Run a provider call with the consent's credentials. When the provider
+ * answers 401 for managed tokens, the tokens are refreshed once and the call
+ * is retried with the new credentials.
+ */
+export async function withConsentCredentials<T>(
+  c: Context<AppEnv>,
+  call: (credentials: ProviderCredentials) => Promise<T>,
+): Promise<T> {
+  const credentials = c.get('credentials');
+  try {
+    return await call(credentials);
+  } catch (error) {
+    const refreshCredentials = c.get('refreshCredentials');
+    if (!refreshCredentials || !isUnauthorized(error)) throw error;
+
+    const refreshed = await refreshCredentials(credentials);
+    c.set('credentials', refreshed);
+    return call(refreshed);
+  }
+}
+
 /**
  * Middleware that resolves a consent from the :consentId path param.
  * Validates the consent is in ACCEPTED state and loads credentials.
  *
- * For managed tokens: decrypts from DB, checks expiry.
+ * For managed tokens: decrypts from DB and refreshes tokens that are expired
+ * or about to expire. Within a process, refreshes are serialized per consent
+ * so concurrent requests spend a refresh token only once. Across processes
+ * (one server per request on the hosted platform, the scheduled refresher)
+ * refreshConsentTokens stores new tokens with a compare-and-swap and adopts
+ * tokens another process rotated instead of deactivating the consent.
  * For pass-per-call: reads Authorization header.
  */
 export function consentMiddleware(
   db: DatabaseAdapter,
   logger: Logger,
-  options?: { tokenEncryption?: TokenEncryption; mode?: 'self-hosted' | 'hosted' },
+  options?: {
+    tokenEncryption?: TokenEncryption;
+    mode?: 'self-hosted' | 'hosted';
+    oauth?: ProviderOAuthConfigs;
+  },
 ): MiddlewareHandler<AppEnv> {
+  // Tail of the refresh queue for each consent, within this process only
+  const refreshLocks = new Map<string, Promise<unknown>>();
+
+  function withRefreshLock<T>(consentId: string, fn: () => Promise<T>): Promise<T> {
+    const previous = refreshLocks.get(consentId) ?? Promise.resolve();
+    const run = previous.then(fn);
+    const tail = run.catch(() => undefined);
+    refreshLocks.set(consentId, tail);
+    void tail.then(() => {
+      if (refreshLocks.get(consentId) === tail) refreshLocks.delete(consentId);
+    });
+    return run;
+  }
+
+  function decrypt(token: string): string {
+    return options?.tokenEncryption ? options.tokenEncryption.decrypt(token) : token;
+  }
+
+  function expiresSoon(tokens: ConsentTokenRecord): boolean {
+    return tokens.provider !== 'bokio'
+      && tokens.tokenExpiresAt !== undefined
+      && new Date(tokens.tokenExpiresAt).getTime() - Date.now() < REFRESH_BEFORE_EXPIRY_MS;
+  }
+
+  /**
+   * Refresh unless another request already replaced the tokens while this
+   * one waited for the lock. Returns the current plain-text access token.
+   */
+  function refreshTokens(
+    consentId: string,
+    needsRefresh: (current: ConsentTokenRecord) => boolean,
+  ): Promise<string> {
+    return withRefreshLock(consentId, async () => {
+      const current = await db.getConsentTokens(consentId);
+      if (!current) {
+        throw new Error('Consent tokens were removed');
+      }
+      if (!needsRefresh(current)) {
+        return decrypt(current.accessToken);
+      }
+
+      const refreshed = await refreshConsentTokens(db, current, {
+        oauth: options?.oauth ?? {},
+        tokenEncryption: options?.tokenEncryption,
+      });
+      logger.info('Refreshed consent tokens', { consentId, provider: current.provider });
+      return refreshed.accessToken;
+    });
+  }
+
   return async (c, next) => {
     const consentId = c.req.param('consentId');
     if (!consentId) {
@@ -43,16 +139,42 @@ export function consentMiddleware(
 
     const tokens = await db.getConsentTokens(consentId);
     if (tokens) {
-      let accessToken = tokens.accessToken;
-      if (options?.tokenEncryption) {
+      let accessToken: string;
+      try {
+        accessToken = decrypt(tokens.accessToken);
+      } catch (e) {
+        logger.error('Failed to decrypt token', { consentId, error: String(e) });
+        return c.json({ error: 'Token decryption failed' }, 500);
+      }
+
+      if (expiresSoon(tokens)) {
         try {
-          accessToken = options.tokenEncryption.decrypt(accessToken);
+          accessToken = await refreshTokens(consentId, expiresSoon);
         } catch (e) {
-          logger.error('Failed to decrypt token', { consentId, error: String(e) });
-          return c.json({ error: 'Token decryption failed' }, 500);
+          if (e instanceof OAuthTokenError && e.rejected && tokens.provider !== 'bjornlunden') {
+            return c.json({
+              error: 'Consent is not active',
+              status: ConsentStatus[ConsentStatus.Inactive],
+            }, 403);
+          }
+
+          // A token that has not expired yet is still worth trying
+          const expired = new Date(tokens.tokenExpiresAt!).getTime() <= Date.now();
+          logger.warn('Token refresh failed', { consentId, expired, error: String(e) });
+          if (expired) {
+            return c.json({ error: 'Access token expired and could not be refreshed' }, 401);
+          }
         }
       }
+
       credentials = { accessToken };
+      c.set('refreshCredentials', async (rejected) => ({
+        ...rejected,
+        accessToken: await refreshTokens(
+          consentId,
+          (current) => decrypt(current.accessToken) === rejected.accessToken,
+        ),
+      }));
     }
 
     // Fall back to pass-per-call (self-hosted mode)
@@ -100,6 +100,46 @@ describe('connections routes', () => {
     expect(body.connectionId).toBe('conn-1');
   });
 
+  it('GET /connections/:id reports next and last scheduled runs', async () => {
+    await app.request('/connections', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(makeConnection()),
+    });
+
+    const empty = await (await app.request('/connections/conn-1')).json();
+    expect(empty.nextRunAt).toBeNull();
+    expect(empty.lastRunAt).toBeNull();
+
+    const base = {
+      connectionId: 'conn-1',
+      provider: 'fortnox' as const,
+      consentId: 'consent-1',
+      cronExpression: null,
+      intervalMinutes: 60,
+      includeSIE: false,
+      lastJobId: null,
+      createdAt: '2024-03-01T00:00:00.000Z',
+      updatedAt: '2024-03-01T00:00:00.000Z',
+    };
+    await db.upsertSyncSchedule({
+      ...base, scheduleId: 's-1', paused: false,
+      nextRunAt: '2024-03-15T12:00:00.000Z', lastRunAt: '2024-03-15T11:00:00.000Z',
+    });
+    await db.upsertSyncSchedule({
+      ...base, scheduleId: 's-2', paused: false,
+      nextRunAt: '2024-03-15T10:30:00.000Z', lastRunAt: '2024-03-15T09:30:00.000Z',
+    });
+    await db.upsertSyncSchedule({
+      ...base, scheduleId: 's-3', paused: true,
+      nextRunAt: '2024-03-15T08:00:00.000Z', lastRunAt: null,
+    });
+
+    const body = await (await app.request('/connections/conn-1')).json();
+    expect(body.nextRunAt).toBe('2024-03-15T10:30:00.000Z');
+    expect(body.lastRunAt).toBe('2024-03-15T11:00:00.000Z');
+  });
+
   it('GET /connections/:id returns 404 when not found', async () => {
     const res = await app.request('/connections/nonexistent');
     expect(res.status).toBe(404);
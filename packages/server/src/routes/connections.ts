@@ -43,13 +43,28 @@ export function connectionsRoutes(db: DatabaseAdapter, logger: Logger) {
     return c.json(connections);
   });
 
-  // GET /connections/:id
+  // GET /connections/:id — includes next/last scheduled sync across the connection's schedules
   app.get('/:id', async (c) => {
     const connection = await db.getConnection(c.req.param('id'));
     if (!connection) {
       return c.json({ error: 'Connection not found' }, 404);
     }
-    return c.json(connection);
+
+    const schedules = await db.getSyncSchedules({ connectionId: connection.connectionId });
+    const nextRuns = schedules
+      .filter((s) => !s.paused && s.nextRunAt)
+      .map((s) => s.nextRunAt!)
+      .sort();
+    const lastRuns = schedules
+      .filter((s) => s.lastRunAt)
+      .map((s) => s.lastRunAt!)
+      .sort();
+
+    return c.json({
+      ...connection,
+      nextRunAt: nextRuns[0] ?? null,
+      lastRunAt: lastRuns[lastRuns.length - 1] ?? null,
+    });
   });
 
   // DELETE /connections/:id
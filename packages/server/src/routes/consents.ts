@@ -1,16 +1,27 @@
 import { Hono } from 'hono';
-import type { DatabaseAdapter, Logger, TokenEncryption } from '@arcim-sync/core';
+import type { ConsentRecord, DatabaseAdapter, Logger, TokenEncryption } from '@arcim-sync/core';
 import { ConsentStatus } from '@arcim-sync/core';
 import { CreateConsentBody, UpdateConsentBody, ConsentQueryParams, CreateOTCBody, TokenExchangeBody } from '../schemas-v1.js';
 import type { AppEnv } from '../types.js';
+import type { WebhookDispatcher } from '../webhooks/dispatcher.js';
 
 export function consentRoutes(
   db: DatabaseAdapter,
   logger: Logger,
-  options?: { tokenEncryption?: TokenEncryption },
+  options?: { tokenEncryption?: TokenEncryption; webhooks?: WebhookDispatcher },
 ) {
   const app = new Hono<AppEnv>();
 
+  /** Raise consent.accepted / consent.revoked when a consent moves into that status. */
+  async function notifyStatusChange(previous: ConsentRecord, updated: ConsentRecord) {
+    if (!options?.webhooks || previous.status === updated.status) return;
+    if (updated.status === ConsentStatus.Accepted) {
+      await options.webhooks.dispatch(updated.tenantId, 'consent.accepted', { ...updated });
+    } else if (updated.status === ConsentStatus.Revoked) {
+      await options.webhooks.dispatch(updated.tenantId, 'consent.revoked', { ...updated });
+    }
+  }
+
   // POST /api/v1/consents — create a new consent
   app.post('/', async (c) => {
     const body = await c.req.json();
@@ -101,6 +112,7 @@ export function consentRoutes(
 
     await db.upsertConsent(updated);
     logger.info('Consent updated', { consentId, status: updated.status });
+    await notifyStatusChange(consent, updated);
 
     c.header('ETag', updated.etag);
     return c.json(updated);
@@ -189,12 +201,14 @@ export function consentRoutes(
     // Update consent status to Accepted
     const consent = await db.getConsent(parsed.data.consentId);
     if (consent) {
-      await db.upsertConsent({
+      const accepted = {
         ...consent,
         status: ConsentStatus.Accepted,
         updatedAt: new Date().toISOString(),
         etag: crypto.randomUUID(),
-      });
+      };
+      await db.upsertConsent(accepted);
+      await notifyStatusChange(consent, accepted);
     }
 
     logger.info('Token stored, consent accepted', { consentId: parsed.data.consentId });
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { SQLiteAdapter, contentHash } from '@arcim-sync/core';
 import type { CanonicalEntityRecord } from '@arcim-sync/core';
 import { createServer } from '../app.js';
@@ -86,6 +86,23 @@ describe('entities routes', () => {
     expect(body.data).toHaveLength(2);
   });
 
+  it('GET /entities/:connId/:entityType hides tombstoned records unless includeDeleted=true', async () => {
+    await db.tombstoneMissingEntities(connId, 'invoice', ['INV-1', 'INV-3']);
+
+    const res = await app.request(`/entities/${connId}/invoice`);
+    const body = await res.json();
+    expect(body.data.map((e: CanonicalEntityRecord) => e.external_id)).toEqual(['INV-1', 'INV-3']);
+    expect(body.total).toBe(2);
+
+    const withDeleted = await app.request(`/entities/${connId}/invoice?includeDeleted=true`);
+    const all = await withDeleted.json();
+    expect(all.total).toBe(3);
+    expect(all.data.find((e: CanonicalEntityRecord) => e.external_id === 'INV-2').deleted_at).toBeTruthy();
+
+    const count = await app.request(`/entities/${connId}/count?entityType=invoice&includeDeleted=true`);
+    expect((await count.json()).count).toBe(3);
+  });
+
   it('returns 400 for invalid entity type', async () => {
     const res = await app.request(`/entities/${connId}/bogus`);
     expect(res.status).toBe(400);
@@ -107,6 +124,71 @@ describe('entities routes', () => {
     expect(body.count).toBe(3);
   });
 
+  describe('history', () => {
+    // Between the initial seed and the credit note below
+    let seededAt: string;
+
+    beforeEach(async () => {
+      seededAt = new Date().toISOString();
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date(Date.now() + 60_000));
+      const raw = { DocumentNumber: 'INV-1', Total: 1000, Credited: true };
+      await db.upsertEntities(connId, 'invoice', [
+        makeInvoice('INV-1', { status: 'credited', raw_data: raw, content_hash: contentHash(raw) }),
+      ]);
+      vi.useRealTimers();
+    });
+
+    it('GET /entities/:connId/:entityType?asOf returns records as they were then', async () => {
+      const res = await app.request(`/entities/${connId}/invoice?asOf=${seededAt}`);
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.total).toBe(3);
+      const inv1 = body.data.find((e: CanonicalEntityRecord) => e.external_id === 'INV-1');
+      expect(inv1.status).toBe('booked');
+
+      const current = await (await app.request(`/entities/${connId}/invoice`)).json();
+      expect(current.data.find((e: CanonicalEntityRecord) => e.external_id === 'INV-1').status).toBe('credited');
+    });
+
+    it('returns 400 for an unparseable asOf', async () => {
+      const res = await app.request(`/entities/${connId}/invoice?asOf=yesterday`);
+      expect(res.status).toBe(400);
+    });
+
+    it('GET /entities/:connId/:entityType/:externalId/versions lists versions with changes', async () => {
+      const res = await app.request(`/entities/${connId}/invoice/INV-1/versions`);
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.data.map((v: { version: number; changeType: string }) => [v.version, v.changeType])).toEqual([
+        [1, 'created'],
+        [2, 'updated'],
+      ]);
+      expect(body.data[0].changes).toEqual([]);
+      expect(body.data[1].changes).toEqual([
+        { path: 'status', kind: 'changed', before: 'booked', after: 'credited' },
+        { path: 'raw_data.Credited', kind: 'added', after: true },
+      ]);
+    });
+
+    it('GET /entities/:connId/:entityType/:externalId/diff compares two versions', async () => {
+      const res = await app.request(`/entities/${connId}/invoice/INV-1/diff?from=2&to=1`);
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.from).toBe(2);
+      expect(body.to).toBe(1);
+      expect(body.changes).toContainEqual({ path: 'raw_data.Credited', kind: 'removed', before: true });
+
+      const missing = await app.request(`/entities/${connId}/invoice/INV-1/diff?from=1&to=9`);
+      expect(missing.status).toBe(404);
+    });
+
+    it('returns 404 for a record without history', async () => {
+      const res = await app.request(`/entities/${connId}/invoice/NOPE/versions`);
+      expect(res.status).toBe(404);
+    });
+  });
+
   it('returns empty results for connection with no entities', async () => {
     const res = await app.request(`/entities/nonexistent/invoice`);
     expect(res.status).toBe(200);
@@ -1,7 +1,7 @@
 import { Hono } from 'hono';
 import type { DatabaseAdapter, Logger } from '@arcim-sync/core';
-import { EntityTypeSchema } from '@arcim-sync/core';
-import { EntityQueryParams, EntityCountQuery } from '../schemas.js';
+import { EntityTypeSchema, diffEntityRecords } from '@arcim-sync/core';
+import { EntityQueryParams, EntityCountQuery, EntityDiffQuery } from '../schemas.js';
 
 export function entitiesRoutes(db: DatabaseAdapter, logger: Logger) {
   const app = new Hono();
@@ -12,9 +12,11 @@ export function entitiesRoutes(db: DatabaseAdapter, logger: Logger) {
     const connId = c.req.param('connId');
     const query = EntityCountQuery.safeParse({
       entityType: c.req.query('entityType') || undefined,
+      includeDeleted: c.req.query('includeDeleted') || undefined,
     });
     const entityType = query.success ? query.data.entityType : undefined;
-    const count = await db.getEntityCount(connId, entityType);
+    const includeDeleted = query.success ? query.data.includeDeleted : undefined;
+    const count = await db.getEntityCount(connId, entityType, { includeDeleted });
     return c.json({ count });
   });
 
@@ -40,6 +42,8 @@ export function entitiesRoutes(db: DatabaseAdapter, logger: Logger) {
       toDate: c.req.query('toDate') || undefined,
       orderBy: c.req.query('orderBy') || undefined,
       orderDirection: c.req.query('orderDirection') || undefined,
+      includeDeleted: c.req.query('includeDeleted') || undefined,
+      asOf: c.req.query('asOf') || undefined,
     });
 
     if (!query.success) {
@@ -50,11 +54,73 @@ export function entitiesRoutes(db: DatabaseAdapter, logger: Logger) {
 
     const [data, total] = await Promise.all([
       db.getEntities(connId, entityType, { page, pageSize, ...rest }),
-      db.getEntityCount(connId, entityType),
+      db.getEntityCount(connId, entityType, { includeDeleted: rest.includeDeleted, asOf: rest.asOf }),
     ]);
 
     return c.json({ data, page, pageSize, total });
   });
 
+  // GET /entities/:connId/:entityType/:externalId/versions — each version with its changes from the one before
+  app.get('/:connId/:entityType/:externalId/versions', async (c) => {
+    const entityTypeParsed = EntityTypeSchema.safeParse(c.req.param('entityType'));
+    if (!entityTypeParsed.success) {
+      return c.json(
+        { error: 'Invalid entity type', details: entityTypeParsed.error.flatten() },
+        400,
+      );
+    }
+
+    const versions = await db.getEntityVersions(
+      c.req.param('connId'),
+      entityTypeParsed.data,
+      c.req.param('externalId'),
+    );
+    if (versions.length === 0) {
+      return c.json({ error: 'Entity not found' }, 404);
+    }
+
+    const data = versions.map((version, i) => ({
+      ...version,
+      changes: i === 0 ? [] : diffEntityRecords(versions[i - 1]!.record, version.record),
+    }));
+    return c.json({ data });
+  });
+
+  // GET /entities/:connId/:entityType/:externalId/diff?from=1&to=3
+  app.get('/:connId/:entityType/:externalId/diff', async (c) => {
+    const entityTypeParsed = EntityTypeSchema.safeParse(c.req.param('entityType'));
+    if (!entityTypeParsed.success) {
+      return c.json(
+        { error: 'Invalid entity type', details: entityTypeParsed.error.flatten() },
+        400,
+      );
+    }
+
+    const query = EntityDiffQuery.safeParse({
+      from: c.req.query('from'),
+      to: c.req.query('to'),
+    });
+    if (!query.success) {
+      return c.json({ error: 'Invalid query parameters', details: query.error.flatten() }, 400);
+    }
+
+    const versions = await db.getEntityVersions(
+      c.req.param('connId'),
+      entityTypeParsed.data,
+      c.req.param('externalId'),
+    );
+    const from = versions.find((v) => v.version === query.data.from);
+    const to = versions.find((v) => v.version === query.data.to);
+    if (!from || !to) {
+      return c.json({ error: 'Version not found' }, 404);
+    }
+
+    return c.json({
+      from: from.version,
+      to: to.version,
+      changes: diffEntityRecords(from.record, to.record),
+    });
+  });
+
   return app;
 }
@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ConsentStatus, SQLiteAdapter } from '@arcim-sync/core';
+import { createServer } from '../app.js';
+
+describe('schedules routes', () => {
+  let db: SQLiteAdapter;
+  let app: ReturnType<typeof createServer>;
+  const connId = 'sched-conn-1';
+
+  beforeEach(async () => {
+    db = new SQLiteAdapter(':memory:');
+    await db.migrate();
+    app = createServer({ db, syncWorker: false, syncScheduler: false });
+
+    await db.upsertConnection({
+      connectionId: connId,
+      provider: 'fortnox',
+      displayName: 'Schedule Test AB',
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    });
+    await storeConsent('consent-1', 'fortnox');
+  });
+
+  function storeConsent(id: string, provider: string, status = ConsentStatus.Accepted) {
+    return db.upsertConsent({
+      id,
+      tenantId: 'tenant-1',
+      name: 'Schedule Test AB',
+      status,
+      provider,
+      etag: `etag-${id}`,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  async function createSchedule(overrides: Record<string, unknown> = {}) {
+    return app.request('/schedules', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        connectionId: connId,
+        consentId: 'consent-1',
+        cronExpression: '0 3 * * *',
+        entityTypes: ['invoice'],
+        includeSIE: true,
+        ...overrides,
+      }),
+    });
+  }
+
+  it('POST /schedules creates a schedule (201) that references the consent', async () => {
+    const res = await createSchedule();
+    expect(res.status).toBe(201);
+    const body = await res.json();
+    expect(body.scheduleId).toBeDefined();
+    expect(body.provider).toBe('fortnox');
+    expect(body.cronExpression).toBe('0 3 * * *');
+    expect(body.intervalMinutes).toBeNull();
+    expect(body.includeSIE).toBe(true);
+    expect(body.paused).toBe(false);
+    expect(body.nextRunAt).toMatch(/T03:00:00\.000Z$/);
+    expect(body.consentId).toBe('consent-1');
+    expect(body.credentials).toBeUndefined();
+  });
+
+  it('POST /schedules accepts an interval instead of cron', async () => {
+    const before = Date.now();
+    const res = await createSchedule({ cronExpression: undefined, intervalMinutes: 30 });
+    expect(res.status).toBe(201);
+    const body = await res.json();
+    expect(new Date(body.nextRunAt).getTime()).toBeGreaterThanOrEqual(before + 30 * 60_000);
+  });
+
+  it('POST /schedules returns 400 for an invalid cron expression', async () => {
+    const res = await createSchedule({ cronExpression: '0 25 * * *' });
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.error).toBe('Validation failed');
+  });
+
+  it('POST /schedules returns 400 for a cron expression that never matches', async () => {
+    const res = await createSchedule({ cronExpression: '0 3 31 2 *' });
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe('Cron expression has no upcoming run');
+    expect(await db.getSyncSchedules()).toEqual([]);
+  });
+
+  it('POST /schedules returns 400 when both cron and interval are given', async () => {
+    const res = await createSchedule({ intervalMinutes: 60 });
+    expect(res.status).toBe(400);
+  });
+
+  it('POST /schedules returns 404 for nonexistent connection', async () => {
+    const res = await createSchedule({ connectionId: 'nonexistent' });
+    expect(res.status).toBe(404);
+    const body = await res.json();
+    expect(body.error).toBe('Connection not found');
+  });
+
+  it('POST /schedules returns 400 without a consent', async () => {
+    const res = await createSchedule({ consentId: undefined });
+    expect(res.status).toBe(400);
+  });
+
+  it('POST /schedules returns 404 for a consent of another provider', async () => {
+    await storeConsent('consent-visma', 'visma');
+    const res = await createSchedule({ consentId: 'consent-visma' });
+    expect(res.status).toBe(404);
+    const body = await res.json();
+    expect(body.error).toBe('Consent not found');
+  });
+
+  it('POST /schedules returns 403 for a revoked consent', async () => {
+    await storeConsent('consent-1', 'fortnox', ConsentStatus.Revoked);
+    const res = await createSchedule();
+    expect(res.status).toBe(403);
+    const body = await res.json();
+    expect(body.status).toBe('Revoked');
+  });
+
+  it('GET /schedules lists schedules filtered by connection', async () => {
+    await createSchedule();
+    await db.upsertConnection({
+      connectionId: 'other',
+      provider: 'visma',
+      displayName: 'Other AB',
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    });
+    await storeConsent('consent-other', 'visma');
+    await createSchedule({ connectionId: 'other', consentId: 'consent-other' });
+
+    const all = await (await app.request('/schedules')).json();
+    expect(all).toHaveLength(2);
+
+    const filtered = await (await app.request(`/schedules?connectionId=${connId}`)).json();
+    expect(filtered).toHaveLength(1);
+    expect(filtered[0].consentId).toBe('consent-1');
+  });
+
+  it('POST /schedules/:id/pause and /resume toggle the schedule', async () => {
+    const { scheduleId } = await (await createSchedule()).json();
+
+    const paused = await (await app.request(`/schedules/${scheduleId}/pause`, { method: 'POST' })).json();
+    expect(paused.paused).toBe(true);
+
+    const resumed = await (await app.request(`/schedules/${scheduleId}/resume`, { method: 'POST' })).json();
+    expect(resumed.paused).toBe(false);
+    expect(new Date(resumed.nextRunAt).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('POST /schedules/:id/resume keeps a run recorded while paused', async () => {
+    const { scheduleId, nextRunAt } = await (await createSchedule()).json();
+    await app.request(`/schedules/${scheduleId}/pause`, { method: 'POST' });
+    await db.recordSyncScheduleRun(scheduleId, nextRunAt, {
+      lastRunAt: new Date().toISOString(),
+      lastJobId: 'job-1',
+      nextRunAt,
+    });
+
+    const resumed = await (await app.request(`/schedules/${scheduleId}/resume`, { method: 'POST' })).json();
+    expect(resumed.lastJobId).toBe('job-1');
+  });
+
+  it('POST /schedules/:id/resume returns 400 when the cron expression never matches', async () => {
+    const { scheduleId } = await (await createSchedule()).json();
+    const schedule = await db.getSyncSchedule(scheduleId);
+    await db.upsertSyncSchedule({ ...schedule!, cronExpression: '0 3 31 2 *', paused: true });
+
+    const res = await app.request(`/schedules/${scheduleId}/resume`, { method: 'POST' });
+    expect(res.status).toBe(400);
+    expect((await db.getSyncSchedule(scheduleId))!.paused).toBe(true);
+  });
+
+  it('DELETE /schedules/:id deletes a schedule', async () => {
+    const { scheduleId } = await (await createSchedule()).json();
+
+    const res = await app.request(`/schedules/${scheduleId}`, { method: 'DELETE' });
+    expect(res.status).toBe(200);
+    expect((await res.json()).deleted).toBe(true);
+
+    const get = await app.request(`/schedules/${scheduleId}`);
+    expect(get.status).toBe(404);
+  });
+
+  it('returns 404 for unknown schedules', async () => {
+    for (const [path, method] of [
+      ['/schedules/nonexistent', 'GET'],
+      ['/schedules/nonexistent/pause', 'POST'],
+      ['/schedules/nonexistent/resume', 'POST'],
+      ['/schedules/nonexistent', 'DELETE'],
+    ] as const) {
+      const res = await app.request(path, { method });
+      expect(res.status).toBe(404);
+      expect((await res.json()).error).toBe('Schedule not found');
+    }
+  });
+});
@@ -0,0 +1,128 @@
+import { Hono } from 'hono';
+import type { DatabaseAdapter, Logger, SyncSchedule } from '@arcim-sync/core';
+import { ConsentStatus, computeNextRunAt } from '@arcim-sync/core';
+import { CreateSyncScheduleBody, SyncScheduleQuery } from '../schemas.js';
+
+const NEVER_RUNS = 'Cron expression has no upcoming run';
+
+export function schedulesRoutes(db: DatabaseAdapter, logger: Logger) {
+  const app = new Hono();
+
+  // POST /schedules
+  app.post('/', async (c) => {
+    const raw = await c.req.json();
+    const parsed = CreateSyncScheduleBody.safeParse(raw);
+    if (!parsed.success) {
+      return c.json({ error: 'Validation failed', details: parsed.error.flatten() }, 400);
+    }
+
+    const { connectionId, consentId, cronExpression, intervalMinutes, entityTypes, includeSIE, sieOptions } =
+      parsed.data;
+
+    const connection = await db.getConnection(connectionId);
+    if (!connection) {
+      return c.json({ error: 'Connection not found' }, 404);
+    }
+
+    // Runs resolve the consent's tokens when a worker claims them; only the reference is stored
+    const consent = await db.getConsent(consentId);
+    if (!consent || consent.provider !== connection.provider) {
+      return c.json({ error: 'Consent not found' }, 404);
+    }
+    if (consent.status !== ConsentStatus.Accepted) {
+      return c.json({ error: 'Consent is not active', status: ConsentStatus[consent.status] }, 403);
+    }
+
+    const now = new Date();
+    const cadence = { cronExpression: cronExpression ?? null, intervalMinutes: intervalMinutes ?? null };
+    const nextRunAt = computeNextRunAt(cadence, now);
+    if (!nextRunAt) {
+      return c.json({ error: NEVER_RUNS }, 400);
+    }
+
+    const schedule: SyncSchedule = {
+      scheduleId: crypto.randomUUID(),
+      connectionId,
+      provider: connection.provider,
+      consentId,
+      ...cadence,
+      entityTypes,
+      includeSIE,
+      sieOptions,
+      paused: false,
+      nextRunAt,
+      lastRunAt: null,
+      lastJobId: null,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+
+    await db.upsertSyncSchedule(schedule);
+    logger.info('Sync schedule created', { scheduleId: schedule.scheduleId, connectionId });
+
+    return c.json(schedule, 201);
+  });
+
+  // GET /schedules
+  app.get('/', async (c) => {
+    const query = SyncScheduleQuery.safeParse({
+      connectionId: c.req.query('connectionId') || undefined,
+    });
+    const options = query.success ? { connectionId: query.data.connectionId } : {};
+    const schedules = await db.getSyncSchedules(options);
+    return c.json(schedules);
+  });
+
+  // GET /schedules/:id
+  app.get('/:id', async (c) => {
+    const schedule = await db.getSyncSchedule(c.req.param('id'));
+    if (!schedule) {
+      return c.json({ error: 'Schedule not found' }, 404);
+    }
+    return c.json(schedule);
+  });
+
+  // POST /schedules/:id/pause
+  app.post('/:id/pause', async (c) => {
+    const id = c.req.param('id');
+    if (!(await db.setSyncSchedulePaused(id, { paused: true }))) {
+      return c.json({ error: 'Schedule not found' }, 404);
+    }
+
+    logger.info('Sync schedule paused', { scheduleId: id });
+    return c.json(await db.getSyncSchedule(id));
+  });
+
+  // POST /schedules/:id/resume — recomputes nextRunAt so paused-over runs are not replayed
+  app.post('/:id/resume', async (c) => {
+    const id = c.req.param('id');
+    const schedule = await db.getSyncSchedule(id);
+    if (!schedule) {
+      return c.json({ error: 'Schedule not found' }, 404);
+    }
+
+    const nextRunAt = computeNextRunAt(schedule, new Date());
+    if (!nextRunAt) {
+      return c.json({ error: NEVER_RUNS }, 400);
+    }
+
+    // Only the pause state is written, so a run the scheduler records meanwhile is kept
+    await db.setSyncSchedulePaused(id, { paused: false, nextRunAt });
+    logger.info('Sync schedule resumed', { scheduleId: id });
+    return c.json(await db.getSyncSchedule(id));
+  });
+
+  // DELETE /schedules/:id
+  app.delete('/:id', async (c) => {
+    const id = c.req.param('id');
+    const existing = await db.getSyncSchedule(id);
+    if (!existing) {
+      return c.json({ error: 'Schedule not found' }, 404);
+    }
+    await db.deleteSyncSchedule(id);
+    logger.info('Sync schedule deleted', { scheduleId: id });
+    return c.json({ deleted: true });
+  });
+
+  return app;
+}
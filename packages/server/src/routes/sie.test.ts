@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { SQLiteAdapter } from '@arcim-sync/core';
 import type { SIEFullData } from '@arcim-sync/core';
+import { parseSIE, decodeSIEBufferWithEncoding, encodeSIEContent } from '@arcim-sync/core/sie';
 import { createServer } from '../app.js';
 
 function makeSIEData(connectionId: string): SIEFullData {
@@ -21,6 +22,7 @@ function makeSIEData(connectionId: string): SIEFullData {
         { accountNumber: '1910', accountName: 'Kassa', accountGroup: '1 - Tillgångar' },
       ],
       dimensions: [],
+      dimensionDefinitions: [],
       transactions: [
         {
           verificationSeries: 'A',
@@ -31,10 +33,14 @@ function makeSIEData(connectionId: string): SIEFullData {
           amount: 1000,
           costCenter: '',
           project: '',
+          objects: [],
           rowText: '',
         },
       ],
       balances: [],
+      periodBalances: [],
+      periodBudgets: [],
+      budgets: [],
     },
     kpis: {
       totalAssets: 0, fixedAssets: 0, currentAssets: 0, inventory: 0,
@@ -60,6 +66,53 @@ function makeSIEData(connectionId: string): SIEFullData {
   };
 }
 
+const UPLOAD_SIE = [
+  '#FLAGGA 0',
+  '#FORMAT PC8',
+  '#SIETYP 4',
+  '#FNAMN "Åkeri AB"',
+  '#RAR 0 20240101 20241231',
+  '#KONTO 1930 "Företagskonto"',
+  '#KONTO 2081 "Aktiekapital"',
+  '#KONTO 3010 "Försäljning"',
+  '#IB 0 1930 50000.00',
+  '#IB 0 2081 -50000.00',
+  '#UB 0 1930 150000.00',
+  '#UB 0 2081 -50000.00',
+  '#RES 0 3010 -100000.00',
+  '#VER A 1 20240115 "Försäljning"',
+  '{',
+  '#TRANS 1930 {} 100000.00',
+  '#TRANS 3010 {} -100000.00',
+  '}',
+  '',
+].join('\r\n');
+
+const UPLOAD_SIE5 = `<?xml version="1.0" encoding="UTF-8"?>
+<Sie xmlns="http://www.sie.se/sie5">
+  <FileInfo>
+    <Company organizationId="556677-8899" name="Åkeri AB"/>
+    <FiscalYears><FiscalYear start="2024-01" end="2024-12" primary="true"/></FiscalYears>
+    <AccountingCurrency currency="SEK"/>
+  </FileInfo>
+  <Accounts>
+    <Account id="1930" name="Företagskonto" type="asset">
+      <OpeningBalance month="2024-01" amount="50000.00"/>
+      <ClosingBalance month="2024-12" amount="150000.00"/>
+    </Account>
+    <Account id="3010" name="Försäljning" type="income">
+      <ClosingBalance month="2024-12" amount="-100000.00"/>
+    </Account>
+  </Accounts>
+  <Journal id="A">
+    <JournalEntry id="1" journalDate="2024-01-15" text="Försäljning">
+      <LedgerEntry account="1930" amount="100000.00"/>
+      <LedgerEntry account="3010" amount="-100000.00"/>
+    </JournalEntry>
+  </Journal>
+</Sie>
+`;
+
 describe('SIE routes', () => {
   let db: SQLiteAdapter;
   let app: ReturnType<typeof createServer>;
@@ -110,6 +163,484 @@ describe('SIE routes', () => {
     expect(body.error).toBe('SIE upload not found');
   });
 
+  it('GET /sie/:connId/:uploadId/export returns a PC8 SIE file', async () => {
+    const uploadId = await db.storeSIEData(connId, makeSIEData(connId));
+
+    const res = await app.request(`/sie/${connId}/${uploadId}/export`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Disposition')).toBe(`attachment; filename="${connId}-2024.se"`);
+
+    const bytes = Buffer.from(await res.arrayBuffer());
+    const content = decodeSIEBufferWithEncoding(bytes, 'cp437');
+    expect(content.startsWith('#FLAGGA 0\r\n#KSUMMA\r\n')).toBe(true);
+    expect(content).toContain('#SIETYP 4');
+
+    const parsed = parseSIE(content);
+    expect(parsed.metadata.companyName).toBe('Test AB');
+    expect(parsed.accounts).toHaveLength(1);
+    expect(parsed.transactions).toHaveLength(1);
+    expect(parsed.transactions[0]!.verificationDate).toBe('20240115');
+  });
+
+  it('GET /sie/:connId/:uploadId/export writes the requested SIE type', async () => {
+    const uploadId = await db.storeSIEData(connId, makeSIEData(connId));
+
+    const res = await app.request(`/sie/${connId}/${uploadId}/export?sieType=1`);
+    expect(res.status).toBe(200);
+    const content = decodeSIEBufferWithEncoding(Buffer.from(await res.arrayBuffer()), 'cp437');
+    expect(content).toContain('#SIETYP 1');
+    expect(content).not.toContain('#VER');
+  });
+
+  it('GET /sie/:connId/:uploadId/export rejects an unknown SIE type', async () => {
+    const uploadId = await db.storeSIEData(connId, makeSIEData(connId));
+
+    const res = await app.request(`/sie/${connId}/${uploadId}/export?sieType=5`);
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.error).toBe('Invalid query parameters');
+  });
+
+  it('GET /sie/:connId/:uploadId/export returns 404 for another connection', async () => {
+    const uploadId = await db.storeSIEData(connId, makeSIEData(connId));
+
+    const res = await app.request(`/sie/other-conn/${uploadId}/export`);
+    expect(res.status).toBe(404);
+  });
+
+  it('POST /sie/:connId/upload stores a multipart PC8 file', async () => {
+    const form = new FormData();
+    form.append('file', new File([encodeSIEContent(UPLOAD_SIE)], 'akeri-2024.se'));
+
+    const res = await app.request(`/sie/${connId}/upload`, { method: 'POST', body: form });
+    expect(res.status).toBe(201);
+    const body = await res.json();
+    expect(body).toMatchObject({
+      connectionId: connId,
+      fiscalYear: 2024,
+      sieType: 4,
+      encoding: 'cp437',
+      fileName: 'akeri-2024.se',
+      accountCount: 3,
+      transactionCount: 2,
+    });
+    expect(body.validation).toMatchObject({ valid: true, checksum: 'missing', errorCount: 0, warningCount: 0 });
+    expect(body.kpiReadiness.warnings).toContain(
+      'No previous year data found (yearIndex = -1) - growth metrics unavailable',
+    );
+    expect(body.kpis.netSales).toBe(100000);
+    expect(body.cashFlow).toMatchObject({ operatingCashFlow: 100000, cashChange: 100000, reconciles: true });
+    expect(body.parseReport).toEqual({ diagnostics: [], skippedTransactions: 0, skippedBalances: 0 });
+
+    const stored = await db.getSIEData(body.uploadId);
+    expect(stored!.parsed.metadata.companyName).toBe('Åkeri AB');
+    expect(stored!.rawContent).toContain('Företagskonto');
+    expect((await db.getSIEUploads(connId))[0]!.fileName).toBe('akeri-2024.se');
+  });
+
+  it('POST /sie/:connId/upload accepts a raw UTF-8 body', async () => {
+    const content = UPLOAD_SIE.replace('#RAR 0 20240101 20241231\r\n', '');
+    const res = await app.request(`/sie/${connId}/upload?fiscalYear=2023&fileName=raw.si`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: Buffer.from(content, 'utf8'),
+    });
+    expect(res.status).toBe(201);
+    const body = await res.json();
+    expect(body.encoding).toBe('utf-8');
+    expect(body.fiscalYear).toBe(2023);
+    expect(body.fileName).toBe('raw.si');
+  });
+
+  it('POST /sie/:connId/upload reports rows it could not read', async () => {
+    const content = UPLOAD_SIE.replace('#UB 0 2081 -50000.00', '#UB 0 2081 -50000,00');
+    const res = await app.request(`/sie/${connId}/upload`, { method: 'POST', body: content });
+    expect(res.status).toBe(201);
+    const body = await res.json();
+    expect(body.parseReport.skippedBalances).toBe(1);
+    expect(body.parseReport.diagnostics).toEqual([
+      {
+        severity: 'error',
+        code: 'invalid_amount',
+        message: 'Invalid amount "-50000,00" in #UB',
+        line: 12,
+        column: 12,
+      },
+    ]);
+
+    const stored = await db.getSIEData(body.uploadId);
+    expect(stored!.parsed.parseReport).toBeUndefined();
+  });
+
+  it('POST /sie/:connId/upload stores a SIE 5 XML file as type 5', async () => {
+    const res = await app.request(`/sie/${connId}/upload`, { method: 'POST', body: UPLOAD_SIE5 });
+    expect(res.status).toBe(201);
+    const body = await res.json();
+    expect(body).toMatchObject({
+      fiscalYear: 2024,
+      sieType: 5,
+      encoding: 'utf-8',
+      accountCount: 2,
+      transactionCount: 2,
+      validation: null,
+      parseReport: null,
+    });
+    expect(body.kpis.netSales).toBe(100000);
+    expect((await db.getSIEUploads(connId))[0]!.sieType).toBe(5);
+
+    const exported = await app.request(`/sie/${connId}/${body.uploadId}/export`);
+    const content = decodeSIEBufferWithEncoding(Buffer.from(await exported.arrayBuffer()), 'cp437');
+    expect(content).toContain('#SIETYP 4');
+    expect(content).toContain('#RES 0 3010 -100000.00');
+  });
+
+  it('POST /sie/:connId/upload rejects malformed SIE 5 XML', async () => {
+    const res = await app.request(`/sie/${connId}/upload`, {
+      method: 'POST',
+      body: UPLOAD_SIE5.replace('</Journal>', ''),
+    });
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.error).toBe('Invalid SIE 5 file: Expected </Journal> but found </Sie> (line 23, column 1)');
+  });
+
+  it('POST /sie/:connId/upload needs a fiscal year when the file has no #RAR 0', async () => {
+    const content = UPLOAD_SIE.replace('#RAR 0 20240101 20241231\r\n', '');
+    const res = await app.request(`/sie/${connId}/upload`, { method: 'POST', body: content });
+    expect(res.status).toBe(400);
+  });
+
+  it('POST /sie/:connId/upload rejects files that are not SIE', async () => {
+    const res = await app.request(`/sie/${connId}/upload`, {
+      method: 'POST',
+      body: '%PDF-1.4 definitely not an accounting export',
+    });
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.error).toBe('Not a SIE file: #FLAGGA header missing');
+    expect(await db.getSIEUploads(connId)).toHaveLength(0);
+  });
+
+  it('POST /sie/:connId/upload rejects oversized files', async () => {
+    const small = createServer({ db, maxSIEUploadBytes: 64, syncWorker: false, syncScheduler: false });
+    const res = await small.request(`/sie/${connId}/upload`, { method: 'POST', body: UPLOAD_SIE });
+    expect(res.status).toBe(413);
+    const body = await res.json();
+    expect(body).toEqual({ error: 'SIE file too large', maxBytes: 64 });
+  });
+
+  it('POST /sie/:connId/upload returns 404 for an unknown connection', async () => {
+    const res = await app.request('/sie/missing-conn/upload', { method: 'POST', body: UPLOAD_SIE });
+    expect(res.status).toBe(404);
+    const body = await res.json();
+    expect(body.error).toBe('Connection not found');
+  });
+
+  it('GET /sie/:connId/:uploadId/validation returns the report stored with an upload', async () => {
+    const content = UPLOAD_SIE.replace('#TRANS 3010 {} -100000.00', '#TRANS 3010 {} -90000.00');
+    const upload = await app.request(`/sie/${connId}/upload`, { method: 'POST', body: content });
+    const { uploadId, validation } = await upload.json();
+    expect(validation.valid).toBe(false);
+
+    const res = await app.request(`/sie/${connId}/${uploadId}/validation`);
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body).toEqual(validation);
+    expect(body.diagnostics[0]).toMatchObject({ code: 'unbalanced_verification', line: 14 });
+  });
+
+  it('GET /sie/:connId/:uploadId/validation validates older uploads from their raw content', async () => {
+    const uploadId = await db.storeSIEData(connId, {
+      ...makeSIEData(connId),
+      rawContent: UPLOAD_SIE.replace('#KONTO 3010 "Försäljning"\r\n', ''),
+    });
+
+    const res = await app.request(`/sie/${connId}/${uploadId}/validation`);
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.diagnostics.map((d: { code: string }) => d.code)).toEqual(['undeclared_account']);
+  });
+
+  it('GET /sie/:connId/:uploadId/validation returns 422 for a SIE 5 upload', async () => {
+    const upload = await app.request(`/sie/${connId}/upload`, { method: 'POST', body: UPLOAD_SIE5 });
+    const { uploadId } = await upload.json();
+
+    const res = await app.request(`/sie/${connId}/${uploadId}/validation`);
+    expect(res.status).toBe(422);
+    expect((await res.json()).error).toContain('only covers SIE 4');
+  });
+
+  it('GET /sie/:connId/:uploadId/validation returns 404 without raw content', async () => {
+    const uploadId = await db.storeSIEData(connId, makeSIEData(connId));
+    const res = await app.request(`/sie/${connId}/${uploadId}/validation`);
+    expect(res.status).toBe(404);
+  });
+
+  it('GET /sie/:connId/:uploadId/cashflow returns the cash flow statement', async () => {
+    // Half of the sales are still unpaid at year end
+    const content = UPLOAD_SIE.replace('#KONTO 2081', '#KONTO 1510 "Kundfordringar"\r\n#KONTO 2081')
+      .replace('#UB 0 1930 150000.00', '#UB 0 1930 100000.00\r\n#UB 0 1510 50000.00');
+    const upload = await app.request(`/sie/${connId}/upload`, { method: 'POST', body: content });
+    const { uploadId } = await upload.json();
+
+    const res = await app.request(`/sie/${connId}/${uploadId}/cashflow`);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({
+      netIncome: 100000,
+      changeInCustomerReceivables: -50000,
+      operatingCashFlow: 50000,
+      netCashFlow: 50000,
+      cashChange: 50000,
+      reconciles: true,
+    });
+  });
+
+  it('GET /sie/:connId/:uploadId/cashflow returns 404 for another connection', async () => {
+    const uploadId = await db.storeSIEData(connId, makeSIEData(connId));
+    const res = await app.request(`/sie/other-conn/${uploadId}/cashflow`);
+    expect(res.status).toBe(404);
+  });
+
+  it('GET /sie/:connId/:uploadId/ledger pages the general ledger by account', async () => {
+    const upload = await app.request(`/sie/${connId}/upload`, { method: 'POST', body: UPLOAD_SIE });
+    const { uploadId } = await upload.json();
+
+    const res = await app.request(`/sie/${connId}/${uploadId}/ledger?toAccount=2999&pageSize=1`);
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body).toMatchObject({ page: 1, pageSize: 1 });
+    expect(body.total).toBeGreaterThan(1);
+    expect(body.data).toHaveLength(1);
+    expect(body.data[0].accountNumber).toBe('1930');
+    expect(body.data[0].closingBalance).toBe(body.data[0].openingBalance + body.data[0].debit - body.data[0].credit);
+  });
+
+  it('GET /sie/:connId/:uploadId/ledger exports CSV and PDF', async () => {
+    const upload = await app.request(`/sie/${connId}/upload`, { method: 'POST', body: UPLOAD_SIE });
+    const { uploadId } = await upload.json();
+
+    const csv = await app.request(`/sie/${connId}/${uploadId}/ledger?format=csv`);
+    expect(csv.status).toBe(200);
+    expect(csv.headers.get('Content-Type')).toBe('text/csv; charset=utf-8');
+    expect(csv.headers.get('Content-Disposition')).toBe(`attachment; filename="${connId}-2024-ledger.csv"`);
+    expect(await csv.text()).toContain('Account;Name;Series;Number;Date;Text');
+
+    const pdf = await app.request(`/sie/${connId}/${uploadId}/vouchers?format=pdf`);
+    expect(pdf.status).toBe(200);
+    expect(pdf.headers.get('Content-Type')).toBe('application/pdf');
+    expect(Buffer.from(await pdf.arrayBuffer()).subarray(0, 8).toString('latin1')).toBe('%PDF-1.4');
+  });
+
+  it('GET /sie/:connId/:uploadId/vouchers filters vouchers', async () => {
+    const uploadId = await db.storeSIEData(connId, makeSIEData(connId));
+
+    const res = await app.request(`/sie/${connId}/${uploadId}/vouchers?fromDate=2024-01-01&toDate=2024-01-31`);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({
+      data: [{ series: 'A', number: '1', date: '2024-01-15', rows: [{ accountNumber: '1910', accountName: 'Kassa' }] }],
+      total: 1,
+    });
+
+    const later = await app.request(`/sie/${connId}/${uploadId}/vouchers?fromDate=2024-02-01`);
+    expect((await later.json()).total).toBe(0);
+  });
+
+  it('GET /sie/:connId/:uploadId/ledger and /vouchers apply account, date and object filters', async () => {
+    const content = UPLOAD_SIE + [
+      '#VER A 2 20240301 "Hyra"',
+      '{',
+      '#TRANS 5010 {1 "10"} 8000.00',
+      '#TRANS 1930 {} -8000.00',
+      '}',
+      '',
+    ].join('\r\n');
+    const upload = await app.request(`/sie/${connId}/upload`, { method: 'POST', body: content });
+    const { uploadId } = await upload.json();
+
+    const ledger = await app.request(`/sie/${connId}/${uploadId}/ledger?fromAccount=1930&toAccount=1930&fromDate=2024-02-01`);
+    const { data: accounts } = await ledger.json();
+    expect(accounts).toHaveLength(1);
+    expect(accounts[0]).toMatchObject({
+      accountNumber: '1930',
+      accountName: 'Företagskonto',
+      openingBalance: 150000,
+      closingBalance: 142000,
+    });
+    expect(accounts[0].entries).toHaveLength(1);
+
+    const secondPage = await (await app.request(`/sie/${connId}/${uploadId}/vouchers?pageSize=1&page=2`)).json();
+    expect(secondPage).toMatchObject({ page: 2, pageSize: 1, total: 2 });
+    expect(secondPage.data.map((v: { number: string }) => v.number)).toEqual(['2']);
+
+    // The other rows of a matching voucher are kept
+    const vouchers = await (await app.request(`/sie/${connId}/${uploadId}/vouchers?costCenter=10`)).json();
+    expect(vouchers.total).toBe(1);
+    expect(vouchers.data[0]).toMatchObject({
+      number: '2',
+      rows: [{ accountNumber: '5010', costCenter: '10' }, { accountNumber: '1930', accountName: 'Företagskonto' }],
+    });
+  });
+
+  it('GET /sie/:connId/:uploadId/vouchers rejects invalid filters and other connections', async () => {
+    const uploadId = await db.storeSIEData(connId, makeSIEData(connId));
+
+    const invalid = await app.request(`/sie/${connId}/${uploadId}/vouchers?fromDate=20240101&format=xlsx`);
+    expect(invalid.status).toBe(400);
+    const other = await app.request(`/sie/other-conn/${uploadId}/ledger`);
+    expect(other.status).toBe(404);
+  });
+
+  it('GET /sie/:connId/:uploadId/vat returns the VAT return and its eSKD file', async () => {
+    const content = UPLOAD_SIE.replace('#TRANS 1930 {} 100000.00', '#TRANS 1930 {} 125000.00\r\n#TRANS 2611 {} -25000.00');
+    const upload = await app.request(`/sie/${connId}/upload`, { method: 'POST', body: content });
+    const { uploadId } = await upload.json();
+
+    const res = await app.request(`/sie/${connId}/${uploadId}/vat?period=2024-Q1`);
+    expect(res.status).toBe(200);
+    expect((await res.json()).boxes).toMatchObject({ '05': 100000, '10': 25000, '49': 25000 });
+
+    // The upload has no #ORGNR
+    const missing = await app.request(`/sie/${connId}/${uploadId}/vat?period=2024-Q1&format=xml`);
+    expect(missing.status).toBe(400);
+
+    const xml = await app.request(`/sie/${connId}/${uploadId}/vat?period=2024-Q1&format=xml&orgNumber=5566778899`);
+    expect(xml.status).toBe(200);
+    expect(xml.headers.get('Content-Type')).toBe('application/xml; charset=ISO-8859-1');
+    const body = await xml.text();
+    expect(body).toContain('<OrgNr>556677-8899</OrgNr>');
+    expect(body).toContain('<MomsBetala>25000</MomsBetala>');
+  });
+
+  it('GET /sie/:connId/:uploadId/vat rejects invalid periods', async () => {
+    const uploadId = await db.storeSIEData(connId, makeSIEData(connId));
+    const res = await app.request(`/sie/${connId}/${uploadId}/vat?period=2024-Q5`);
+    expect(res.status).toBe(400);
+  });
+
+  it('GET /sie/:connId/:uploadId/sru returns the INK2 fields and the SRU files', async () => {
+    const content = UPLOAD_SIE.replace('#IB 0 1930', '#SRU 1930 7281\r\n#SRU 2081 7301\r\n#SRU 3010 7410\r\n#IB 0 1930');
+    const upload = await app.request(`/sie/${connId}/upload`, { method: 'POST', body: content });
+    const { uploadId } = await upload.json();
+
+    const res = await app.request(`/sie/${connId}/${uploadId}/sru`);
+    expect(res.status).toBe(200);
+    const declaration = await res.json();
+    expect(declaration.fields.map((f: { code: string; amount: number }) => [f.code, f.amount])).toEqual([
+      ['7281', 150000],
+      ['7301', 50000],
+      ['7302', 100000],
+      ['7410', 100000],
+      ['7450', 100000],
+      ['7650', 100000],
+      ['7670', 100000],
+    ]);
+    expect(declaration.issues).toEqual([]);
+
+    // The upload has no #ORGNR
+    const missing = await app.request(`/sie/${connId}/${uploadId}/sru?file=blanketter`);
+    expect(missing.status).toBe(400);
+
+    const blanketter = await app.request(`/sie/${connId}/${uploadId}/sru?file=blanketter&orgNumber=5566778899`);
+    expect(blanketter.status).toBe(200);
+    expect(blanketter.headers.get('Content-Disposition')).toBe('attachment; filename="BLANKETTER.SRU"');
+    const body = await blanketter.text();
+    expect(body).toContain('#BLANKETT INK2R-2024P4\r\n#IDENTITET 165566778899');
+    expect(body).toContain('#UPPGIFT 7410 100000');
+  });
+
+  it('GET /sie/:connId/:uploadId/sru requires postal code and city for INFO.SRU', async () => {
+    const uploadId = await db.storeSIEData(connId, makeSIEData(connId));
+    const res = await app.request(`/sie/${connId}/${uploadId}/sru?file=info&orgNumber=5566778899`);
+    expect(res.status).toBe(400);
+
+    const info = await app.request(
+      `/sie/${connId}/${uploadId}/sru?file=info&orgNumber=5566778899&postalCode=11122&city=Stockholm`,
+    );
+    expect(info.status).toBe(200);
+    expect(await info.text()).toContain('#ORGNR 165566778899\r\n');
+  });
+
+  it('PUT /sie/:connId/budgets/:fiscalYear stores a CSV budget for the variance report', async () => {
+    await app.request(`/sie/${connId}/upload`, { method: 'POST', body: UPLOAD_SIE });
+    const put = await app.request(`/sie/${connId}/budgets/2024?fileName=budget.csv`, {
+      method: 'PUT',
+      body: 'Konto;Namn;2024-01\r\n3010;Försäljning;-80000\r\n',
+    });
+    expect(put.status).toBe(200);
+    expect(await put.json()).toMatchObject({ source: 'csv', fileName: 'budget.csv', lines: [{ accountNumber: '3010', period: '202401', amount: -80000 }] });
+
+    const res = await app.request(`/sie/${connId}/budgets/2024/variance`);
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body).toMatchObject({ fiscalYear: 2024, budgetSource: 'csv' });
+    expect(body.accounts).toHaveLength(1);
+    expect(body.accounts[0]).toMatchObject({
+      accountNumber: '3010',
+      group: 'Nettoomsättning',
+      actual: -100000,
+      budget: -80000,
+      deviation: -20000,
+      deviationPercent: -25,
+      favourable: true,
+    });
+    expect(body.months).toHaveLength(12);
+    expect(body.groups[0].months[0]).toMatchObject({ month: '2024-01', deviation: -20000 });
+  });
+
+  it('POST /sie/:connId/upload stores #PBUDGET rows as the budget unless a CSV budget exists', async () => {
+    const withBudget = UPLOAD_SIE.replace('#RES 0 3010 -100000.00', '#RES 0 3010 -100000.00\r\n#PBUDGET 0 202401 3010 {} -90000.00');
+    const upload = await app.request(`/sie/${connId}/upload`, { method: 'POST', body: withBudget });
+    expect((await upload.json()).budgetLineCount).toBe(1);
+
+    const stored = await app.request(`/sie/${connId}/budgets/2024`);
+    expect(await stored.json()).toMatchObject({ source: 'sie', lines: [{ accountNumber: '3010', amount: -90000 }] });
+
+    await app.request(`/sie/${connId}/budgets/2024`, { method: 'PUT', body: 'account,amount\n3010,-1200000\n' });
+    await app.request(`/sie/${connId}/upload`, { method: 'POST', body: withBudget });
+    const kept = await app.request(`/sie/${connId}/budgets/2024`);
+    expect((await kept.json()).source).toBe('csv');
+  });
+
+  it('PUT /sie/:connId/budgets/:fiscalYear rejects bad CSV and SIE files for another year', async () => {
+    const csv = await app.request(`/sie/${connId}/budgets/2024`, { method: 'PUT', body: 'account;quarter\n' });
+    expect(csv.status).toBe(400);
+    expect((await csv.json()).error).toBe('Invalid budget CSV: Unknown budget column "quarter" (line 1)');
+
+    const sie = await app.request(`/sie/${connId}/budgets/2023`, { method: 'PUT', body: UPLOAD_SIE });
+    expect(sie.status).toBe(400);
+    expect((await sie.json()).error).toBe('SIE file is for fiscal year 2024, not 2023');
+  });
+
+  it('GET /sie/:connId/budgets/:fiscalYear/variance returns 404 without a budget', async () => {
+    await app.request(`/sie/${connId}/upload`, { method: 'POST', body: UPLOAD_SIE });
+    const res = await app.request(`/sie/${connId}/budgets/2024/variance`);
+    expect(res.status).toBe(404);
+    expect((await res.json()).error).toBe('Budget not found');
+  });
+
+  it('GET /sie/:connId/kpis/timeseries stitches fiscal years into monthly and LTM KPIs', async () => {
+    const previousYear = UPLOAD_SIE.replace('#RAR 0 20240101 20241231', '#RAR 0 20230101 20231231')
+      .replace('#VER A 1 20240115', '#VER A 1 20230915')
+      .replace('#TRANS 1930 {} 100000.00', '#TRANS 1930 {} 40000.00')
+      .replace('#TRANS 3010 {} -100000.00', '#TRANS 3010 {} -40000.00');
+    await app.request(`/sie/${connId}/upload`, { method: 'POST', body: UPLOAD_SIE });
+    await app.request(`/sie/${connId}/upload`, { method: 'POST', body: previousYear });
+
+    const res = await app.request(`/sie/${connId}/kpis/timeseries?from=2024-01&to=2024-09`);
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.uploads.map((u: { fiscalYear: number }) => u.fiscalYear)).toEqual([2023, 2024]);
+    expect(body.months).toHaveLength(9);
+    expect(body.months[0]).toMatchObject({ month: '2024-01', source: 'transactions', netSales: 100000 });
+    expect(body.months[7].ltm.netSales).toBe(140000);
+    expect(body.months[8].ltm.netSales).toBe(100000);
+  });
+
+  it('GET /sie/:connId/kpis/timeseries rejects malformed months', async () => {
+    const res = await app.request(`/sie/${connId}/kpis/timeseries?from=2024-13`);
+    expect(res.status).toBe(400);
+  });
+
   it('GET /sie/:connId/uploads returns empty list', async () => {
     const res = await app.request(`/sie/${connId}/uploads`);
     expect(res.status).toBe(200);
@@ -1,8 +1,249 @@
 import { Hono } from 'hono';
-import type { DatabaseAdapter, Logger } from '@arcim-sync/core';
+import { bodyLimit } from 'hono/body-limit';
+import type { Context } from 'hono';
+import type {
+  DatabaseAdapter,
+  GetSIETransactionsOptions,
+  Logger,
+  SIEBudgetLine,
+  SIEParseReport,
+  SIEParseResult,
+  SIETextType,
+  SIETransaction,
+  SIEType,
+  SIEUpload,
+} from '@arcim-sync/core';
+import {
+  writeSIE,
+  encodeSIEContent,
+  detectSIEEncoding,
+  decodeSIEBufferWithEncoding,
+  parseSIE,
+  parseSIE5,
+  isSIE5Content,
+  SIE5ParseError,
+  calculateKPIs,
+  calculateKPITimeSeries,
+  calculateCashFlow,
+  budgetLinesFromSIE,
+  parseBudgetCSV,
+  calculateBudgetVariance,
+  BudgetCSVError,
+  validateSIEBalances,
+  validateSIE,
+  generalLedger,
+  voucherList,
+  generalLedgerToCSV,
+  vouchersToCSV,
+  generalLedgerToPDF,
+  vouchersToPDF,
+  calculateVATReturn,
+  vatReturnToESKD,
+  VATReturnError,
+  calculateSRUDeclaration,
+  writeSRUFiles,
+  SRUExportError,
+} from '@arcim-sync/core/sie';
+import {
+  SIEBudgetParams,
+  SIEExportQuery,
+  SIELedgerQuery,
+  SIETimeSeriesQuery,
+  SIEUploadQuery,
+  SIEVATQuery,
+  SIESRUQuery,
+} from '../schemas.js';
 
-export function sieRoutes(db: DatabaseAdapter, logger: Logger) {
+const DEFAULT_MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+/** Transactions, or vouchers, read per query when a report needs all of them */
+const TRANSACTION_PAGE_SIZE = 1000;
+
+export interface SIERoutesOptions {
+  /** Largest accepted upload in bytes. Default: 25 MB */
+  maxUploadBytes?: number;
+}
+
+/** The uploaded file: multipart field `file`, or the raw body */
+async function readUploadedFile(
+  c: Context,
+  fileName: string | undefined,
+): Promise<{ buffer: Buffer; fileName: string | undefined } | null> {
+  if (c.req.header('Content-Type')?.startsWith('multipart/form-data')) {
+    const body = await c.req.parseBody();
+    const file = body['file'];
+    if (!(file instanceof File)) return null;
+    return { buffer: Buffer.from(await file.arrayBuffer()), fileName: file.name || fileName };
+  }
+  return { buffer: Buffer.from(await c.req.arrayBuffer()), fileName };
+}
+
+/** One upload per fiscal year: the highest SIE type, then the latest */
+function latestUploadPerYear(uploads: SIEUpload[]): SIEUpload[] {
+  return [...uploads]
+    .sort((a, b) => b.sieType - a.sieType || b.uploadedAt.localeCompare(a.uploadedAt))
+    .filter((upload, i, all) => all.findIndex((u) => u.fiscalYear === upload.fiscalYear) === i)
+    .sort((a, b) => a.fiscalYear - b.fiscalYear);
+}
+
+/** Every stored transaction matching the filter, read page by page */
+async function storedTransactions(
+  db: DatabaseAdapter,
+  connectionId: string,
+  options: Omit<GetSIETransactionsOptions, 'page' | 'pageSize'>,
+): Promise<SIETransaction[]> {
+  const transactions: SIETransaction[] = [];
+  for (let page = 1; ; page++) {
+    const rows = await db.getSIETransactions(connectionId, { ...options, page, pageSize: TRANSACTION_PAGE_SIZE });
+    transactions.push(...rows);
+    if (rows.length < TRANSACTION_PAGE_SIZE) return transactions;
+  }
+}
+
+/** Every row of the vouchers matching the filter, read a page of vouchers at a time */
+async function storedVoucherRows(
+  db: DatabaseAdapter,
+  connectionId: string,
+  options: Omit<GetSIETransactionsOptions, 'page' | 'pageSize'>,
+  voucherCount: number,
+): Promise<SIETransaction[]> {
+  const rows: SIETransaction[] = [];
+  for (let page = 1; (page - 1) * TRANSACTION_PAGE_SIZE < voucherCount; page++) {
+    rows.push(...(await db.getSIEVoucherRows(connectionId, { ...options, page, pageSize: TRANSACTION_PAGE_SIZE })));
+  }
+  return rows;
+}
+
+/** The day before a YYYY-MM-DD date */
+function dayBefore(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - 1);
+  return day.toISOString().slice(0, 10);
+}
+
+export function sieRoutes(db: DatabaseAdapter, logger: Logger, options: SIERoutesOptions = {}) {
   const app = new Hono();
+  const maxUploadBytes = options.maxUploadBytes ?? DEFAULT_MAX_UPLOAD_BYTES;
+
+  // POST /sie/:connId/upload — a .se/.si or SIE 5 .sie file as multipart field `file`, or as the raw body
+  app.post(
+    '/:connId/upload',
+    bodyLimit({
+      maxSize: maxUploadBytes,
+      onError: (c) => c.json({ error: 'SIE file too large', maxBytes: maxUploadBytes }, 413),
+    }),
+    async (c) => {
+      const connId = c.req.param('connId');
+      const query = SIEUploadQuery.safeParse({
+        fiscalYear: c.req.query('fiscalYear'),
+        fileName: c.req.query('fileName'),
+      });
+      if (!query.success) {
+        return c.json({ error: 'Invalid query parameters', details: query.error.flatten() }, 400);
+      }
+
+      const connection = await db.getConnection(connId);
+      if (!connection) {
+        return c.json({ error: 'Connection not found' }, 404);
+      }
+
+      const upload = await readUploadedFile(c, query.data.fileName);
+      if (!upload) {
+        return c.json({ error: 'Missing file field' }, 400);
+      }
+      const { buffer, fileName } = upload;
+
+      // SIE 5 is XML and always UTF-8; the tagged-text formats declare no encoding
+      const utf8Content = decodeSIEBufferWithEncoding(buffer, 'utf-8');
+      const isSIE5 = isSIE5Content(utf8Content);
+      const encoding = isSIE5 ? 'utf-8' : detectSIEEncoding(buffer);
+      if (!encoding) {
+        return c.json({ error: 'Not a SIE file: #FLAGGA header missing' }, 400);
+      }
+      const rawContent = isSIE5 ? utf8Content : decodeSIEBufferWithEncoding(buffer, encoding);
+
+      let parsed: SIEParseResult;
+      let parseReport: SIEParseReport | undefined;
+      if (isSIE5) {
+        try {
+          parsed = parseSIE5(rawContent);
+        } catch (err) {
+          if (err instanceof SIE5ParseError) {
+            return c.json({ error: `Invalid SIE 5 file: ${err.message}` }, 400);
+          }
+          throw err;
+        }
+      } else {
+        ({ parseReport, ...parsed } = parseSIE(rawContent, { mode: 'tolerant' }));
+      }
+
+      // Files without #SIETYP are type 1 by definition
+      const sieType = Number(parsed.metadata.sieType ?? 1);
+      if (!Number.isInteger(sieType) || sieType < 1 || sieType > 5) {
+        return c.json({ error: `Unsupported SIE type: ${parsed.metadata.sieType}` }, 400);
+      }
+
+      const fiscalYear = parsed.metadata.fiscalYearEnd
+        ? Number(parsed.metadata.fiscalYearEnd.slice(0, 4))
+        : query.data.fiscalYear;
+      if (!fiscalYear) {
+        return c.json({ error: 'SIE file has no #RAR 0; pass the fiscalYear query parameter' }, 400);
+      }
+
+      // #KSUMMA and the verification checks only apply to the tagged-text formats
+      const validation = isSIE5 ? undefined : validateSIE(rawContent);
+      const kpis = calculateKPIs(parsed);
+      const cashFlow = calculateCashFlow(parsed);
+
+      const uploadId = await db.storeSIEData(connId, {
+        connectionId: connId,
+        fiscalYear,
+        sieType: sieType as SIEType,
+        parsed,
+        kpis,
+        rawContent,
+        fileName,
+        validation,
+      });
+      logger.info('SIE upload', { connectionId: connId, uploadId, fiscalYear, sieType, encoding });
+
+      // Budget rows in the file become the year's budget, unless one was uploaded as CSV
+      const budgetLines = budgetLinesFromSIE(parsed);
+      if (budgetLines.length > 0 && (await db.getSIEBudget(connId, fiscalYear))?.source !== 'csv') {
+        await db.storeSIEBudget({
+          connectionId: connId,
+          fiscalYear,
+          source: 'sie',
+          lines: budgetLines,
+          fileName,
+          updatedAt: new Date().toISOString(),
+        });
+      }
+      if (!cashFlow.reconciles) {
+        logger.warn('SIE cash flow does not reconcile', { connectionId: connId, uploadId, difference: cashFlow.difference });
+      }
+
+      return c.json(
+        {
+          uploadId,
+          connectionId: connId,
+          fiscalYear,
+          sieType,
+          encoding,
+          fileName: fileName ?? null,
+          accountCount: parsed.accounts.length,
+          transactionCount: parsed.transactions.length,
+          budgetLineCount: budgetLines.length,
+          validation: validation ?? null,
+          parseReport: parseReport ?? null,
+          kpiReadiness: validateSIEBalances(parsed.balances),
+          kpis,
+          cashFlow,
+        },
+        201,
+      );
+    },
+  );
 
   // GET /sie/:connId/uploads
   app.get('/:connId/uploads', async (c) => {
@@ -11,6 +252,143 @@ export function sieRoutes(db: DatabaseAdapter, logger: Logger) {
     return c.json(uploads);
   });
 
+  // GET /sie/:connId/kpis/timeseries — monthly and LTM KPIs across the stored fiscal years
+  app.get('/:connId/kpis/timeseries', async (c) => {
+    const connId = c.req.param('connId');
+    const query = SIETimeSeriesQuery.safeParse({
+      from: c.req.query('from'),
+      to: c.req.query('to'),
+    });
+    if (!query.success) {
+      return c.json({ error: 'Invalid query parameters', details: query.error.flatten() }, 400);
+    }
+
+    const uploads = latestUploadPerYear(await db.getSIEUploads(connId));
+
+    const files = [];
+    for (const upload of uploads) {
+      const data = await db.getSIEData(upload.uploadId);
+      if (data) files.push(data.parsed);
+    }
+
+    const { from, to } = query.data;
+    const months = calculateKPITimeSeries(files).filter(
+      (m) => (!from || m.month >= from) && (!to || m.month <= to),
+    );
+
+    return c.json({
+      connectionId: connId,
+      uploads: uploads.map(({ uploadId, fiscalYear, sieType }) => ({ uploadId, fiscalYear, sieType })),
+      months,
+    });
+  });
+
+  // PUT /sie/:connId/budgets/:fiscalYear — a CSV budget, or a SIE file with #BUDGET/#PBUDGET rows
+  app.put(
+    '/:connId/budgets/:fiscalYear',
+    bodyLimit({
+      maxSize: maxUploadBytes,
+      onError: (c) => c.json({ error: 'Budget file too large', maxBytes: maxUploadBytes }, 413),
+    }),
+    async (c) => {
+      const connId = c.req.param('connId');
+      const params = SIEBudgetParams.safeParse({
+        fiscalYear: c.req.param('fiscalYear'),
+        fileName: c.req.query('fileName'),
+      });
+      if (!params.success) {
+        return c.json({ error: 'Invalid query parameters', details: params.error.flatten() }, 400);
+      }
+      const { fiscalYear } = params.data;
+
+      const connection = await db.getConnection(connId);
+      if (!connection) {
+        return c.json({ error: 'Connection not found' }, 404);
+      }
+
+      const upload = await readUploadedFile(c, params.data.fileName);
+      if (!upload) {
+        return c.json({ error: 'Missing file field' }, 400);
+      }
+      const { buffer, fileName } = upload;
+
+      let lines: SIEBudgetLine[];
+      let source: 'sie' | 'csv';
+      const encoding = detectSIEEncoding(buffer);
+      if (encoding) {
+        const parsed = parseSIE(decodeSIEBufferWithEncoding(buffer, encoding), { mode: 'tolerant' });
+        const fileYear = parsed.metadata.fiscalYearEnd?.slice(0, 4);
+        if (fileYear && Number(fileYear) !== fiscalYear) {
+          return c.json({ error: `SIE file is for fiscal year ${fileYear}, not ${fiscalYear}` }, 400);
+        }
+        lines = budgetLinesFromSIE(parsed);
+        source = 'sie';
+        if (lines.length === 0) {
+          return c.json({ error: 'SIE file has no #BUDGET or #PBUDGET rows' }, 400);
+        }
+      } else {
+        try {
+          lines = parseBudgetCSV(decodeSIEBufferWithEncoding(buffer, 'utf-8'));
+        } catch (err) {
+          if (err instanceof BudgetCSVError) {
+            return c.json({ error: `Invalid budget CSV: ${err.message}` }, 400);
+          }
+          throw err;
+        }
+        source = 'csv';
+      }
+
+      const budget = { connectionId: connId, fiscalYear, source, lines, fileName, updatedAt: new Date().toISOString() };
+      await db.storeSIEBudget(budget);
+      logger.info('SIE budget', { connectionId: connId, fiscalYear, source, lineCount: lines.length });
+
+      return c.json(budget);
+    },
+  );
+
+  // GET /sie/:connId/budgets/:fiscalYear
+  app.get('/:connId/budgets/:fiscalYear', async (c) => {
+    const params = SIEBudgetParams.safeParse({ fiscalYear: c.req.param('fiscalYear') });
+    if (!params.success) {
+      return c.json({ error: 'Invalid query parameters', details: params.error.flatten() }, 400);
+    }
+
+    const budget = await db.getSIEBudget(c.req.param('connId'), params.data.fiscalYear);
+    if (!budget) {
+      return c.json({ error: 'Budget not found' }, 404);
+    }
+    return c.json(budget);
+  });
+
+  // GET /sie/:connId/budgets/:fiscalYear/variance — actuals of the year's upload against its budget
+  app.get('/:connId/budgets/:fiscalYear/variance', async (c) => {
+    const connId = c.req.param('connId');
+    const params = SIEBudgetParams.safeParse({ fiscalYear: c.req.param('fiscalYear') });
+    if (!params.success) {
+      return c.json({ error: 'Invalid query parameters', details: params.error.flatten() }, 400);
+    }
+    const { fiscalYear } = params.data;
+
+    const budget = await db.getSIEBudget(connId, fiscalYear);
+    if (!budget) {
+      return c.json({ error: 'Budget not found' }, 404);
+    }
+
+    const upload = latestUploadPerYear(await db.getSIEUploads(connId)).find((u) => u.fiscalYear === fiscalYear);
+    const data = upload ? await db.getSIEData(upload.uploadId) : null;
+    if (!upload || !data) {
+      return c.json({ error: 'SIE upload not found' }, 404);
+    }
+
+    return c.json({
+      connectionId: connId,
+      fiscalYear,
+      uploadId: upload.uploadId,
+      budgetSource: budget.source,
+      ...calculateBudgetVariance(data.parsed, budget.lines),
+    });
+  });
+
   // GET /sie/:connId/:uploadId
   app.get('/:connId/:uploadId', async (c) => {
     const uploadId = c.req.param('uploadId');
@@ -21,5 +399,271 @@ export function sieRoutes(db: DatabaseAdapter, logger: Logger) {
     return c.json(data);
   });
 
+  // GET /sie/:connId/:uploadId/validation — checksum and structural diagnostics
+  app.get('/:connId/:uploadId/validation', async (c) => {
+    const data = await db.getSIEData(c.req.param('uploadId'));
+    if (!data || data.connectionId !== c.req.param('connId')) {
+      return c.json({ error: 'SIE upload not found' }, 404);
+    }
+
+    // The upload exists; the checksum and structural checks are only defined for the tagged-text formats
+    if (data.sieType === 5) {
+      return c.json({ error: 'Validation only covers SIE 4 files; this upload is SIE 5' }, 422);
+    }
+    // Uploads stored before reports were kept are validated on request
+    const report = data.validation ?? (data.rawContent ? validateSIE(data.rawContent) : undefined);
+    if (!report) {
+      return c.json({ error: 'SIE upload has no raw content to validate' }, 404);
+    }
+    return c.json(report);
+  });
+
+  // GET /sie/:connId/:uploadId/cashflow — indirect-method cash flow statement for a fiscal year
+  app.get('/:connId/:uploadId/cashflow', async (c) => {
+    const data = await db.getSIEData(c.req.param('uploadId'));
+    if (!data || data.connectionId !== c.req.param('connId')) {
+      return c.json({ error: 'SIE upload not found' }, 404);
+    }
+    return c.json(calculateCashFlow(data.parsed));
+  });
+
+  const parseLedgerQuery = (c: Context) =>
+    SIELedgerQuery.safeParse({
+      page: c.req.query('page'),
+      pageSize: c.req.query('pageSize'),
+      fromAccount: c.req.query('fromAccount'),
+      toAccount: c.req.query('toAccount'),
+      fromDate: c.req.query('fromDate'),
+      toDate: c.req.query('toDate'),
+      costCenter: c.req.query('costCenter'),
+      project: c.req.query('project'),
+      format: c.req.query('format'),
+    });
+
+  // GET /sie/:connId/:uploadId/ledger — general ledger, paginated by account, or the whole ledger as CSV or PDF
+  app.get('/:connId/:uploadId/ledger', async (c) => {
+    const query = parseLedgerQuery(c);
+    if (!query.success) {
+      return c.json({ error: 'Invalid query parameters', details: query.error.flatten() }, 400);
+    }
+
+    const connId = c.req.param('connId');
+    const uploadId = c.req.param('uploadId');
+    const upload = (await db.getSIEUploads(connId)).find((u) => u.uploadId === uploadId);
+    if (!upload) {
+      return c.json({ error: 'SIE upload not found' }, 404);
+    }
+
+    const { page, pageSize, format, ...filter } = query.data;
+    const { fromAccount, toAccount, fromDate } = filter;
+    const byObject = Boolean(filter.costCenter || filter.project);
+    // Per-account totals decide which accounts are in the ledger, so only the transactions of one page are read
+    const [ingoingBalances, earlier, inPeriod] = await Promise.all([
+      // #IB has no breakdown per object
+      byObject ? [] : db.getSIEBalances(connId, { uploadId, fromAccount, toAccount, balanceType: 'IB', yearIndex: 0 }),
+      // Transactions before fromDate count towards the opening balance
+      fromDate
+        ? db.getSIETransactionTotals(connId, { ...filter, uploadId, fromDate: undefined, toDate: dayBefore(fromDate) })
+        : [],
+      db.getSIETransactionTotals(connId, { ...filter, uploadId }),
+    ]);
+
+    const openingBalances = new Map<string, number>();
+    for (const { accountNumber, amount } of [...ingoingBalances, ...earlier]) {
+      openingBalances.set(accountNumber, (openingBalances.get(accountNumber) ?? 0) + amount);
+    }
+    const active = new Set(inPeriod.map((total) => total.accountNumber));
+    // As in generalLedger: accounts with neither transactions nor an opening balance of at least 1 öre are left out
+    const accountNumbers = [...new Set([...openingBalances.keys(), ...active])]
+      .filter((account) => active.has(account) || Math.round(openingBalances.get(account)! * 100) !== 0)
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+    const offset = (page - 1) * pageSize;
+    const pageAccounts = format === 'json' ? accountNumbers.slice(offset, offset + pageSize) : accountNumbers;
+
+    const [accountNames, transactions] = await Promise.all([
+      db.getSIEAccounts(connId, { uploadId, fromAccount, toAccount }),
+      pageAccounts.length > 0
+        ? storedTransactions(db, connId, { ...filter, uploadId, accountNumbers: pageAccounts })
+        : [],
+    ]);
+    // The transactions are filtered already, and the opening balances include those before fromDate
+    const accounts = generalLedger({
+      accounts: accountNames,
+      balances: pageAccounts.map((accountNumber) => ({
+        accountNumber,
+        balanceType: 'IB' as const,
+        yearIndex: 0,
+        amount: openingBalances.get(accountNumber) ?? 0,
+      })),
+      transactions,
+    });
+    const fileName = `${connId}-${upload.fiscalYear}-ledger`;
+    if (format === 'csv') {
+      return c.body(generalLedgerToCSV(accounts), 200, {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}.csv"`,
+      });
+    }
+    if (format === 'pdf') {
+      const metadata = await db.getSIEMetadata(uploadId);
+      if (!metadata) {
+        return c.json({ error: 'SIE upload not found' }, 404);
+      }
+      return c.body(new Uint8Array(generalLedgerToPDF(accounts, metadata, filter)), 200, {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${fileName}.pdf"`,
+      });
+    }
+
+    return c.json({ data: accounts, page, pageSize, total: accountNumbers.length });
+  });
+
+  // GET /sie/:connId/:uploadId/vouchers — voucher list, paginated by voucher, or the whole list as CSV or PDF
+  app.get('/:connId/:uploadId/vouchers', async (c) => {
+    const query = parseLedgerQuery(c);
+    if (!query.success) {
+      return c.json({ error: 'Invalid query parameters', details: query.error.flatten() }, 400);
+    }
+
+    const connId = c.req.param('connId');
+    const uploadId = c.req.param('uploadId');
+    const upload = (await db.getSIEUploads(connId)).find((u) => u.uploadId === uploadId);
+    if (!upload) {
+      return c.json({ error: 'SIE upload not found' }, 404);
+    }
+
+    const { page, pageSize, format, ...filter } = query.data;
+    // Account and object filters pick whole vouchers: the adapter returns all rows of those with a matching row
+    const voucherFilter = { ...filter, uploadId };
+    const [accounts, total] = await Promise.all([
+      db.getSIEAccounts(connId, { uploadId }),
+      db.getSIEVoucherCount(connId, voucherFilter),
+    ]);
+    const transactions = format === 'json'
+      ? await db.getSIEVoucherRows(connId, { ...voucherFilter, page, pageSize })
+      : await storedVoucherRows(db, connId, voucherFilter, total);
+    const vouchers = voucherList({ accounts, transactions }, filter);
+    const fileName = `${connId}-${upload.fiscalYear}-vouchers`;
+    if (format === 'csv') {
+      return c.body(vouchersToCSV(vouchers), 200, {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}.csv"`,
+      });
+    }
+    if (format === 'pdf') {
+      const metadata = await db.getSIEMetadata(uploadId);
+      if (!metadata) {
+        return c.json({ error: 'SIE upload not found' }, 404);
+      }
+      return c.body(new Uint8Array(vouchersToPDF(vouchers, metadata, filter)), 200, {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${fileName}.pdf"`,
+      });
+    }
+
+    return c.json({ data: vouchers, page, pageSize, total });
+  });
+
+  // GET /sie/:connId/:uploadId/vat — VAT return for a month or quarter, or its eSKD file
+  app.get('/:connId/:uploadId/vat', async (c) => {
+    const query = SIEVATQuery.safeParse({
+      period: c.req.query('period'),
+      format: c.req.query('format'),
+      orgNumber: c.req.query('orgNumber'),
+    });
+    if (!query.success) {
+      return c.json({ error: 'Invalid query parameters', details: query.error.flatten() }, 400);
+    }
+
+    const data = await db.getSIEData(c.req.param('uploadId'));
+    if (!data || data.connectionId !== c.req.param('connId')) {
+      return c.json({ error: 'SIE upload not found' }, 404);
+    }
+
+    const { period, format, orgNumber } = query.data;
+    const report = calculateVATReturn(data.parsed, period);
+    if (format === 'json') {
+      return c.json(report);
+    }
+
+    let xml: string;
+    try {
+      xml = vatReturnToESKD(report, orgNumber ?? report.orgNumber);
+    } catch (err) {
+      if (err instanceof VATReturnError) {
+        return c.json({ error: err.message }, 400);
+      }
+      throw err;
+    }
+    return c.body(new Uint8Array(Buffer.from(xml, 'latin1')), 200, {
+      'Content-Type': 'application/xml; charset=ISO-8859-1',
+      'Content-Disposition': `attachment; filename="${data.connectionId}-${period}-moms.xml"`,
+    });
+  });
+
+  // GET /sie/:connId/:uploadId/sru — INK2R/INK2S fields from the SRU codes, or the SRU files
+  app.get('/:connId/:uploadId/sru', async (c) => {
+    const query = SIESRUQuery.safeParse({
+      file: c.req.query('file'),
+      orgNumber: c.req.query('orgNumber'),
+      postalCode: c.req.query('postalCode'),
+      city: c.req.query('city'),
+    });
+    if (!query.success) {
+      return c.json({ error: 'Invalid query parameters', details: query.error.flatten() }, 400);
+    }
+
+    const data = await db.getSIEData(c.req.param('uploadId'));
+    if (!data || data.connectionId !== c.req.param('connId')) {
+      return c.json({ error: 'SIE upload not found' }, 404);
+    }
+
+    const { file, orgNumber, postalCode, city } = query.data;
+    let content: string;
+    try {
+      const declaration = calculateSRUDeclaration(data.parsed);
+      if (!file) {
+        return c.json(declaration);
+      }
+      const files = writeSRUFiles(declaration, { postalCode: postalCode ?? '', city: city ?? '', orgNumber });
+      content = file === 'info' ? files.info : files.blanketter;
+    } catch (err) {
+      if (err instanceof SRUExportError) {
+        return c.json({ error: err.message }, 400);
+      }
+      throw err;
+    }
+    return c.body(new Uint8Array(Buffer.from(content, 'latin1')), 200, {
+      'Content-Type': 'text/plain; charset=ISO-8859-1',
+      'Content-Disposition': `attachment; filename="${file === 'info' ? 'INFO.SRU' : 'BLANKETTER.SRU'}"`,
+    });
+  });
+
+  // GET /sie/:connId/:uploadId/export — the upload rewritten as a PC8-encoded SIE 1-4 file
+  app.get('/:connId/:uploadId/export', async (c) => {
+    const connId = c.req.param('connId');
+    const query = SIEExportQuery.safeParse({
+      sieType: c.req.query('sieType'),
+    });
+    if (!query.success) {
+      return c.json({ error: 'Invalid query parameters', details: query.error.flatten() }, 400);
+    }
+
+    const data = await db.getSIEData(c.req.param('uploadId'));
+    if (!data || data.connectionId !== connId) {
+      return c.json({ error: 'SIE upload not found' }, 404);
+    }
+
+    // SIE 5 uploads are exported as SIE 4
+    const sieType = (query.data.sieType ?? Math.min(data.sieType, 4)) as SIETextType;
+    const content = encodeSIEContent(writeSIE(data.parsed, { sieType }));
+    logger.info('SIE export', { connectionId: connId, uploadId: data.uploadId, sieType });
+
+    return c.body(new Uint8Array(content), 200, {
+      'Content-Type': 'text/plain; charset=IBM437',
+      'Content-Disposition': `attachment; filename="${connId}-${data.fiscalYear}.se"`,
+    });
+  });
+
   return app;
 }
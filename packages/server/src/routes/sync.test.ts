@@ -1,5 +1,5 @@
-import { describe, it, expect, beforeEach } from 'vitest';
-import { SQLiteAdapter, registerProvider } from '@arcim-sync/core';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ConsentStatus, SQLiteAdapter, registerProvider } from '@arcim-sync/core';
 import type { AccountingProvider, SyncProgress } from '@arcim-sync/core';
 import { contentHash } from '@arcim-sync/core';
 import { createServer } from '../app.js';
@@ -97,6 +97,137 @@ describe('sync routes', () => {
     expect(typeof body.jobId).toBe('string');
   });
 
+  it('POST /sync persists the job and an in-process worker runs it', async () => {
+    const res = await app.request('/sync', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        connectionId: connId,
+        provider: 'fortnox',
+        credentials: { accessToken: 'test-token' },
+      }),
+    });
+    const { jobId } = await res.json();
+
+    await vi.waitFor(async () => {
+      const progress = await db.getSyncProgress(jobId);
+      expect(progress!.status).toBe('completed');
+    });
+    const queued = await db.getSyncJob(jobId);
+    expect(queued!.status).toBe('completed');
+    expect(queued!.connectionId).toBe(connId);
+  });
+
+  it('POST /sync leaves jobs queued when the worker is disabled', async () => {
+    const queueOnly = createServer({ db, syncWorker: false });
+    const res = await queueOnly.request('/sync', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        connectionId: connId,
+        provider: 'fortnox',
+        credentials: { accessToken: 'test-token' },
+      }),
+    });
+    const { jobId } = await res.json();
+
+    const queued = await db.getSyncJob(jobId);
+    expect(queued!.status).toBe('pending');
+  });
+
+  it('POST /sync queues a consent reference instead of its tokens', async () => {
+    await db.upsertConsent({
+      id: 'consent-1',
+      tenantId: 'tenant-1',
+      name: 'Sync Test AB',
+      status: ConsentStatus.Accepted,
+      provider: 'fortnox',
+      etag: 'etag-1',
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    });
+    const queueOnly = createServer({ db, syncWorker: false });
+    const trigger = (body: Record<string, unknown>) =>
+      queueOnly.request('/sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ connectionId: connId, provider: 'fortnox', ...body }),
+      });
+
+    const res = await trigger({ consentId: 'consent-1' });
+    expect(res.status).toBe(202);
+    const { job } = (await db.getSyncJob((await res.json()).jobId))!;
+    expect(job.consentId).toBe('consent-1');
+    expect(job.credentials).toBeUndefined();
+
+    expect((await trigger({ consentId: 'missing' })).status).toBe(404);
+    expect((await trigger({ consentId: 'consent-1', credentials: { accessToken: 't' } })).status).toBe(400);
+    expect((await trigger({})).status).toBe(400);
+  });
+
+  describe('POST /sync/:jobId/cancel', () => {
+    const job = {
+      connectionId: connId,
+      provider: 'fortnox' as const,
+      credentials: { accessToken: 'test-token' },
+    };
+
+    beforeEach(() => {
+      app = createServer({ db, syncWorker: false });
+    });
+
+    it('cancels a pending job and its progress record', async () => {
+      await db.enqueueSyncJob('job-pending', job);
+      await db.upsertSyncProgress({
+        jobId: 'job-pending',
+        connectionId: connId,
+        provider: 'fortnox',
+        status: 'pending',
+        progress: 0,
+        entityResults: [],
+        startedAt: new Date().toISOString(),
+      });
+
+      const res = await app.request('/sync/job-pending/cancel', { method: 'POST' });
+      expect(res.status).toBe(202);
+      const body = await res.json();
+      expect(body.status).toBe('cancelled');
+
+      const progress = await db.getSyncProgress('job-pending');
+      expect(progress!.status).toBe('cancelled');
+      expect(progress!.completedAt).toBeDefined();
+    });
+
+    it('flags a running job for cancellation', async () => {
+      await db.enqueueSyncJob('job-running', job);
+      await db.claimSyncJob('worker-a', 30_000);
+
+      const res = await app.request('/sync/job-running/cancel', { method: 'POST' });
+      expect(res.status).toBe(202);
+      const body = await res.json();
+      expect(body.status).toBe('running');
+      expect(body.cancelRequested).toBe(true);
+    });
+
+    it('returns 409 for a finished job', async () => {
+      await db.enqueueSyncJob('job-done', job);
+      await db.claimSyncJob('worker-a', 30_000);
+      await db.completeSyncJob('job-done', 'worker-a', 'completed');
+
+      const res = await app.request('/sync/job-done/cancel', { method: 'POST' });
+      expect(res.status).toBe(409);
+      const body = await res.json();
+      expect(body.error).toBe('Sync job already completed');
+    });
+
+    it('returns 404 when not found', async () => {
+      const res = await app.request('/sync/nonexistent/cancel', { method: 'POST' });
+      expect(res.status).toBe(404);
+      const body = await res.json();
+      expect(body.error).toBe('Sync job not found');
+    });
+  });
+
   it('GET /sync/:jobId returns pending progress', async () => {
     // Seed a pending progress record
     const jobId = 'test-job-pending';
@@ -1,12 +1,12 @@
 import { Hono } from 'hono';
-import type { DatabaseAdapter, Logger, SyncProgress } from '@arcim-sync/core';
-import { SyncEngine } from '@arcim-sync/core';
+import type { DatabaseAdapter, Logger, SyncWorker } from '@arcim-sync/core';
+import { ConsentStatus, enqueueSync } from '@arcim-sync/core';
 import { TriggerSyncBody, SyncHistoryQuery } from '../schemas.js';
 
-export function syncRoutes(db: DatabaseAdapter, logger: Logger) {
+export function syncRoutes(db: DatabaseAdapter, logger: Logger, worker?: SyncWorker) {
   const app = new Hono();
 
-  // POST /sync — async model: return 202 + jobId, fire sync in background
+  // POST /sync — async model: return 202 + jobId, job runs on a queue worker
   app.post('/', async (c) => {
     const raw = await c.req.json();
     const parsed = TriggerSyncBody.safeParse(raw);
@@ -14,7 +14,16 @@ export function syncRoutes(db: DatabaseAdapter, logger: Logger) {
       return c.json({ error: 'Validation failed', details: parsed.error.flatten() }, 400);
     }
 
-    const { connectionId, provider, credentials, entityTypes, includeSIE, sieOptions } = parsed.data;
+    const {
+      connectionId,
+      provider,
+      consentId,
+      credentials,
+      entityTypes,
+      includeSIE,
+      sieOptions,
+      reconcileDeletions,
+    } = parsed.data;
 
     // Verify connection exists
     const connection = await db.getConnection(connectionId);
@@ -22,48 +31,61 @@ export function syncRoutes(db: DatabaseAdapter, logger: Logger) {
       return c.json({ error: 'Connection not found' }, 404);
     }
 
-    // Generate server-controlled jobId and seed pending record
-    const jobId = crypto.randomUUID();
-    const now = new Date().toISOString();
+    if (consentId) {
+      const consent = await db.getConsent(consentId);
+      if (!consent || consent.provider !== provider) {
+        return c.json({ error: 'Consent not found' }, 404);
+      }
+      if (consent.status !== ConsentStatus.Accepted) {
+        return c.json({ error: 'Consent is not active', status: ConsentStatus[consent.status] }, 403);
+      }
+    }
 
-    const pendingProgress: SyncProgress = {
-      jobId,
+    // Seed a pending record and persist to the job queue; a SyncWorker picks it up
+    const jobId = await enqueueSync(db, {
       connectionId,
       provider,
-      status: 'pending',
-      progress: 0,
-      entityResults: [],
-      startedAt: now,
-    };
+      consentId,
+      credentials,
+      entityTypes,
+      includeSIE,
+      sieOptions,
+      reconcileDeletions,
+    });
+    worker?.wake();
 
-    await db.upsertSyncProgress(pendingProgress);
+    return c.json({ jobId }, 202);
+  });
 
-    // Fire sync in background (fire-and-forget)
-    const engine = new SyncEngine(db, { logger });
-    const job = { connectionId, provider, credentials, entityTypes, includeSIE, sieOptions };
+  // POST /sync/:jobId/cancel — pending jobs cancel immediately, running jobs at the next checkpoint
+  app.post('/:jobId/cancel', async (c) => {
+    const jobId = c.req.param('jobId');
+    const existing = await db.getSyncJob(jobId);
+    if (!existing) {
+      return c.json({ error: 'Sync job not found' }, 404);
+    }
+    if (existing.status !== 'pending' && existing.status !== 'running') {
+      return c.json({ error: `Sync job already ${existing.status}` }, 409);
+    }
 
-    // We run executeSync in the background. It generates its own internal jobId,
-    // so we copy the final result into our server-controlled jobId record.
-    engine.executeSync(job).then(
-      async (result) => {
-        await db.upsertSyncProgress({
-          ...result,
-          jobId, // overwrite engine's internal jobId with ours
-        });
-      },
-      async (error) => {
-        const message = error instanceof Error ? error.message : String(error);
-        logger.error('Sync failed', { jobId, error: message });
+    const job = await db.requestSyncJobCancel(jobId);
+    if (!job) {
+      return c.json({ error: 'Sync job not found' }, 404);
+    }
+
+    if (job.status === 'cancelled') {
+      const progress = await db.getSyncProgress(jobId);
+      if (progress) {
         await db.upsertSyncProgress({
-          ...pendingProgress,
-          status: 'failed',
-          error: message,
+          ...progress,
+          status: 'cancelled',
           completedAt: new Date().toISOString(),
         });
-      },
-    );
+      }
+    }
 
-    return c.json({ jobId }, 202);
+    logger.info('Sync job cancellation requested', { jobId, status: job.status });
+    return c.json({ jobId, status: job.status, cancelRequested: job.cancelRequested }, 202);
   });
 
   // GET /sync/:jobId
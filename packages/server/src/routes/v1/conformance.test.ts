@@ -0,0 +1,251 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  SQLiteAdapter,
+  ConsentStatus,
+  GatewayHandler,
+  ResourceType,
+  buildProviderCredentials,
+  listGatewayResource,
+  getGatewayResource,
+  stripRaw,
+  type ProviderName,
+} from '@arcim-sync/core';
+import { createServer } from '../../app.js';
+
+/**
+ * Conformance between the two gateway entry points: the Node server's
+ * /api/v1 routes and the shared adapter the Supabase edge function runs.
+ * Both must return the same DTOs for the same provider payloads.
+ */
+
+// ---------------------------------------------------------------------------
+// Provider fixtures, keyed by request path (without query string)
+// ---------------------------------------------------------------------------
+
+const FIXTURES: Record<string, Record<string, unknown>> = {
+  fortnox: {
+    '/customers': {
+      MetaInformation: { '@TotalResources': 2, '@TotalPages': 1, '@CurrentPage': 1 },
+      Customers: [
+        { CustomerNumber: '1', Name: 'Kund AB', OrganisationNumber: '556677-8899', City: 'Stockholm', Email: 'info@kund.se' },
+        { CustomerNumber: '2', Name: 'Annan Kund AB', Active: false },
+      ],
+    },
+    '/customers/1': {
+      Customer: { CustomerNumber: '1', Name: 'Kund AB', OrganisationNumber: '556677-8899' },
+    },
+    '/invoices': {
+      MetaInformation: { '@TotalResources': 1, '@TotalPages': 1, '@CurrentPage': 1 },
+      Invoices: [
+        {
+          DocumentNumber: '1001',
+          CustomerNumber: '1',
+          CustomerName: 'Kund AB',
+          InvoiceDate: '2024-03-01',
+          DueDate: '2024-03-31',
+          Currency: 'SEK',
+          Total: 1250,
+          TotalVAT: 250,
+          Net: 1000,
+          Balance: 0,
+          Booked: true,
+        },
+      ],
+    },
+    '/companyinformation': {
+      CompanyInformation: { CompanyName: 'Fortnox Test AB', OrganizationNumber: '556000-0000', City: 'Växjö' },
+    },
+    '/vouchers': {
+      MetaInformation: { '@TotalResources': 1, '@TotalPages': 1, '@CurrentPage': 1 },
+      Vouchers: [{ VoucherSeries: 'A', VoucherNumber: 1, Year: 3, TransactionDate: '2024-01-31', Description: 'Bankavgift' }],
+    },
+    '/vouchers/A/1': {
+      Voucher: {
+        VoucherSeries: 'A',
+        VoucherNumber: 1,
+        Year: 3,
+        VoucherRows: [
+          { Account: 6570, Debit: 50, Credit: 0 },
+          { Account: 1930, Debit: 0, Credit: 50 },
+        ],
+      },
+    },
+  },
+  visma: {
+    '/customers': {
+      Meta: { CurrentPage: 1, TotalNumberOfPages: 1, TotalNumberOfResults: 1 },
+      Data: [
+        { Id: 'c-1', CustomerNumber: '10', Name: 'Visma Kund AB', CorporateIdentityNumber: '556111-2222', IsActive: true },
+      ],
+    },
+    '/customers/c-1': { Id: 'c-1', CustomerNumber: '10', Name: 'Visma Kund AB' },
+    '/customerinvoices': {
+      Meta: { CurrentPage: 1, TotalNumberOfPages: 1, TotalNumberOfResults: 1 },
+      Data: [
+        {
+          Id: 'inv-1',
+          InvoiceNumber: 5,
+          CustomerId: 'c-1',
+          CustomerName: 'Visma Kund AB',
+          InvoiceDate: '2024-04-01',
+          DueDate: '2024-05-01',
+          CurrencyCode: 'SEK',
+          TotalAmount: 1000,
+          TotalVatAmount: 250,
+          RemainingAmount: 1250,
+        },
+      ],
+    },
+    '/companysettings': { Name: 'Visma Test AB', CorporateIdentityNumber: '556222-3333', City: 'Stockholm' },
+  },
+  briox: {
+    '/customer': {
+      data: {
+        customers: [{ id: 3, customer_number: 'K3', name: 'Briox Kund AB', city: 'Malmö', active: true }],
+        metainformation: { total_pages: 1, current_page: 1, total_count: 1 },
+      },
+    },
+    '/customer/3': { data: { id: 3, customer_number: 'K3', name: 'Briox Kund AB' } },
+    '/customerinvoice': {
+      data: {
+        invoices: [
+          { id: 55, invoice_number: '1001', invoice_date: '2024-05-01', total_amount: 1250, net_amount: 1000, balance: 0, fully_paid: true },
+        ],
+        metainformation: { total_pages: 1, current_page: 1, total_count: 1 },
+      },
+    },
+    '/user/info': {
+      data: { info: { company_name: 'Briox Test AB', accounts: [{ organization_number: '5561234567' }] } },
+    },
+  },
+};
+
+const originalFetch = globalThis.fetch;
+
+function serveFixtures(provider: string) {
+  return vi.fn(async (input: string | URL | Request) => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    const path = Object.keys(FIXTURES[provider]!)
+      .filter((p) => url.pathname.endsWith(p))
+      .sort((a, b) => b.length - a.length)[0];
+    if (!path) return new Response('Not Found', { status: 404 });
+    return new Response(JSON.stringify(FIXTURES[provider]![path]), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  });
+}
+
+const CASES: Array<{ provider: ProviderName; resourceId: string }> = [
+  { provider: 'fortnox', resourceId: '1' },
+  { provider: 'visma', resourceId: 'c-1' },
+  { provider: 'briox', resourceId: '3' },
+];
+
+describe('gateway conformance', () => {
+  const handler = new GatewayHandler();
+  let db: SQLiteAdapter;
+  let app: ReturnType<typeof createServer>;
+
+  beforeEach(async () => {
+    db = new SQLiteAdapter(':memory:');
+    await db.migrate();
+    app = createServer({ db });
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    vi.restoreAllMocks();
+  });
+
+  async function seedConsent(provider: ProviderName): Promise<string> {
+    const now = new Date().toISOString();
+    const id = `consent-${provider}`;
+    await db.upsertConsent({
+      id,
+      tenantId: 'tenant-1',
+      name: `${provider} consent`,
+      status: ConsentStatus.Accepted,
+      provider,
+      etag: 'etag-1',
+      createdAt: now,
+      updatedAt: now,
+    });
+    await db.storeConsentTokens({ consentId: id, provider, accessToken: 'fixture-token' });
+    return id;
+  }
+
+  async function serverData(consentId: string, path: string): Promise<Record<string, unknown>[]> {
+    const res = await app.request(`/api/v1/consents/${consentId}${path}`);
+    expect(res.status).toBe(200);
+    const body = await res.json() as { data: Record<string, unknown>[] };
+    return body.data.map((item) => stripRaw(item));
+  }
+
+  it('hydrates Fortnox journal entries by default on both entry points', async () => {
+    globalThis.fetch = serveFixtures('fortnox') as unknown as typeof fetch;
+    const consentId = await seedConsent('fortnox');
+
+    const fromServer = await serverData(consentId, '/journals');
+    const fromGateway = await listGatewayResource(
+      handler,
+      'fortnox',
+      buildProviderCredentials('fortnox', 'fixture-token'),
+      ResourceType.Journals,
+    );
+
+    expect(fromServer[0]!['entries']).toHaveLength(2);
+    expect(fromGateway.data).toEqual(fromServer);
+  });
+
+  for (const { provider, resourceId } of CASES) {
+    describe(provider, () => {
+      beforeEach(() => {
+        globalThis.fetch = serveFixtures(provider) as unknown as typeof fetch;
+      });
+
+      const credentials = buildProviderCredentials(provider, 'fixture-token');
+
+      it('returns identical customer lists', async () => {
+        const consentId = await seedConsent(provider);
+
+        const fromServer = await serverData(consentId, '/customers');
+        const fromGateway = await listGatewayResource(handler, provider, credentials, ResourceType.Customers);
+
+        expect(fromServer.length).toBeGreaterThan(0);
+        expect(fromGateway.data).toEqual(fromServer);
+      });
+
+      it('returns identical sales invoice lists', async () => {
+        const consentId = await seedConsent(provider);
+
+        const fromServer = await serverData(consentId, '/salesinvoices');
+        const fromGateway = await listGatewayResource(handler, provider, credentials, ResourceType.SalesInvoices);
+
+        expect(fromServer.length).toBeGreaterThan(0);
+        expect(fromGateway.data).toEqual(fromServer);
+      });
+
+      it('returns identical company information', async () => {
+        const consentId = await seedConsent(provider);
+
+        const fromServer = await serverData(consentId, '/companyinformation');
+        const fromGateway = await listGatewayResource(handler, provider, credentials, ResourceType.CompanyInformation);
+
+        expect(fromServer).toHaveLength(1);
+        expect(fromGateway.data).toEqual(fromServer);
+      });
+
+      it('returns identical single customers', async () => {
+        const consentId = await seedConsent(provider);
+
+        const res = await app.request(`/api/v1/consents/${consentId}/customers/${resourceId}`);
+        expect(res.status).toBe(200);
+        const fromServer = stripRaw(await res.json() as Record<string, unknown>);
+        const fromGateway = await getGatewayResource(handler, provider, credentials, ResourceType.Customers, resourceId);
+
+        expect(fromGateway).toEqual(fromServer);
+      });
+    });
+  }
+});
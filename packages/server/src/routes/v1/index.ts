@@ -1,5 +1,5 @@
 import { Hono } from 'hono';
-import type { DatabaseAdapter, Logger, TokenEncryption } from '@arcim-sync/core';
+import type { DatabaseAdapter, Logger, TokenEncryption, ProviderOAuthConfigs } from '@arcim-sync/core';
 import { consentMiddleware } from '../../middleware/consent.js';
 import { salesInvoicesRoutes } from './sales-invoices.js';
 import { supplierInvoicesRoutes } from './supplier-invoices.js';
@@ -13,7 +13,7 @@ import type { AppEnv } from '../../types.js';
 export function v1ResourceRoutes(
   db: DatabaseAdapter,
   logger: Logger,
-  options?: { tokenEncryption?: TokenEncryption; mode?: 'self-hosted' | 'hosted' },
+  options?: { tokenEncryption?: TokenEncryption; mode?: 'self-hosted' | 'hosted'; oauth?: ProviderOAuthConfigs },
 ) {
   const app = new Hono<AppEnv>();
 
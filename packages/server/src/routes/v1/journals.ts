@@ -2,6 +2,7 @@ import { Hono } from 'hono';
 import type { Logger } from '@arcim-sync/core';
 import { GatewayHandler, ResourceType } from '@arcim-sync/core';
 import { ResourceQueryParams, CreateResourceBody } from '../../schemas-v1.js';
+import { withConsentCredentials } from '../../middleware/consent.js';
 import type { AppEnv } from '../../types.js';
 
 const gateway = new GatewayHandler();
@@ -12,7 +13,6 @@ export function journalsRoutes(logger: Logger) {
   // GET /consents/:consentId/journals
   app.get('/', async (c) => {
     const consent = c.get('consent') as { provider: string };
-    const credentials = c.get('credentials') as { accessToken: string };
     const query = ResourceQueryParams.safeParse({
       page: c.req.query('page') || undefined,
       pageSize: c.req.query('pageSize') || undefined,
@@ -20,30 +20,30 @@ export function journalsRoutes(logger: Logger) {
       toDate: c.req.query('toDate') || undefined,
       lastModified: c.req.query('lastModified') || undefined,
       fiscalYear: c.req.query('fiscalYear') || undefined,
+      includeEntries: c.req.query('includeEntries') || undefined,
     });
     const opts = query.success ? query.data : {};
 
-    const result = await gateway.listResource(
+    const result = await withConsentCredentials(c, (credentials) => gateway.listResource(
       consent.provider as any,
       credentials,
       ResourceType.Journals,
       opts,
-    );
+    ));
     return c.json(result);
   });
 
   // GET /consents/:consentId/journals/:id
   app.get('/:id', async (c) => {
     const consent = c.get('consent') as { provider: string };
-    const credentials = c.get('credentials') as { accessToken: string };
     const id = c.req.param('id');
 
-    const result = await gateway.getResource(
+    const result = await withConsentCredentials(c, (credentials) => gateway.getResource(
       consent.provider as any,
       credentials,
       ResourceType.Journals,
       id,
-    );
+    ));
     if (!result) {
       return c.json({ error: 'Journal not found' }, 404);
     }
@@ -53,19 +53,18 @@ export function journalsRoutes(logger: Logger) {
   // POST /consents/:consentId/journals
   app.post('/', async (c) => {
     const consent = c.get('consent') as { provider: string };
-    const credentials = c.get('credentials') as { accessToken: string };
     const body = await c.req.json();
     const parsed = CreateResourceBody.safeParse(body);
     if (!parsed.success) {
       return c.json({ error: 'Invalid request body' }, 400);
     }
 
-    const result = await gateway.createResource(
+    const result = await withConsentCredentials(c, (credentials) => gateway.createResource(
       consent.provider as any,
       credentials,
       ResourceType.Journals,
       parsed.data,
-    );
+    ));
     return c.json(result, 201);
   });
 
@@ -2,6 +2,7 @@ import { Hono } from 'hono';
 import type { Logger } from '@arcim-sync/core';
 import { GatewayHandler, ResourceType } from '@arcim-sync/core';
 import { ResourceQueryParams } from '../../schemas-v1.js';
+import { withConsentCredentials } from '../../middleware/consent.js';
 import type { AppEnv } from '../../types.js';
 
 const gateway = new GatewayHandler();
@@ -11,7 +12,6 @@ export function reportsRoutes(logger: Logger) {
 
   app.get('/balancesheet', async (c) => {
     const consent = c.get('consent') as { provider: string };
-    const credentials = c.get('credentials') as { accessToken: string };
     const query = ResourceQueryParams.safeParse({
       page: c.req.query('page') || undefined,
       pageSize: c.req.query('pageSize') || undefined,
@@ -19,13 +19,12 @@ export function reportsRoutes(logger: Logger) {
     });
     const opts = query.success ? query.data : {};
 
-    const result = await gateway.listResource(consent.provider as any, credentials, ResourceType.BalanceSheet, opts);
+    const result = await withConsentCredentials(c, (credentials) => gateway.listResource(consent.provider as any, credentials, ResourceType.BalanceSheet, opts));
     return c.json(result);
   });
 
   app.get('/incomestatement', async (c) => {
     const consent = c.get('consent') as { provider: string };
-    const credentials = c.get('credentials') as { accessToken: string };
     const query = ResourceQueryParams.safeParse({
       page: c.req.query('page') || undefined,
       pageSize: c.req.query('pageSize') || undefined,
@@ -33,13 +32,12 @@ export function reportsRoutes(logger: Logger) {
     });
     const opts = query.success ? query.data : {};
 
-    const result = await gateway.listResource(consent.provider as any, credentials, ResourceType.IncomeStatement, opts);
+    const result = await withConsentCredentials(c, (credentials) => gateway.listResource(consent.provider as any, credentials, ResourceType.IncomeStatement, opts));
     return c.json(result);
   });
 
   app.get('/trialbalances', async (c) => {
     const consent = c.get('consent') as { provider: string };
-    const credentials = c.get('credentials') as { accessToken: string };
     const query = ResourceQueryParams.safeParse({
       page: c.req.query('page') || undefined,
       pageSize: c.req.query('pageSize') || undefined,
@@ -47,7 +45,7 @@ export function reportsRoutes(logger: Logger) {
     });
     const opts = query.success ? query.data : {};
 
-    const result = await gateway.listResource(consent.provider as any, credentials, ResourceType.TrialBalances, opts);
+    const result = await withConsentCredentials(c, (credentials) => gateway.listResource(consent.provider as any, credentials, ResourceType.TrialBalances, opts));
     return c.json(result);
   });
 
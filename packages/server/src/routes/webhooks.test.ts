@@ -0,0 +1,253 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createServer as createHttpServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { SQLiteAdapter, registerProvider, contentHash } from '@arcim-sync/core';
+import type { AccountingProvider } from '@arcim-sync/core';
+import { createServer } from '../app.js';
+
+/** Local stand-in for a tenant's webhook receiver; collects parsed event bodies. */
+async function startReceiver() {
+  const events: Array<{ id: string; type: string; data: Record<string, unknown> }> = [];
+  const server: Server = createHttpServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      events.push(JSON.parse(body));
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}/hooks`,
+    events,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+function createMockProvider(): AccountingProvider {
+  const raw = { DocumentNumber: '1001', Total: 1000 };
+  return {
+    name: 'fortnox' as const,
+    getCapabilities: () => ({
+      name: 'fortnox' as const,
+      displayName: 'Fortnox',
+      supportedEntityTypes: ['invoice'],
+      supportsSIE: false,
+      sieTypes: [],
+      supportsIncrementalSync: true,
+      incrementalSyncEntities: ['invoice'],
+      authType: 'oauth2' as const,
+      rateLimits: { maxRequests: 25, windowMs: 1000 },
+    }),
+    validateCredentials: async () => true,
+    getCompanyInfo: async () => ({ companyName: 'Test AB', organizationNumber: null, raw: {} }),
+    getFinancialYears: async () => [],
+    fetchEntities: async () => ({
+      entities: [
+        {
+          external_id: '1001',
+          entity_type: 'invoice',
+          provider: 'fortnox',
+          fiscal_year: 2024,
+          document_date: '2024-03-15',
+          due_date: null,
+          counterparty_number: null,
+          counterparty_name: null,
+          amount: 1000,
+          currency: 'SEK',
+          status: null,
+          raw_data: raw,
+          last_modified: null,
+          content_hash: contentHash(raw),
+        },
+      ],
+      nextCursor: null,
+      totalCount: 1,
+      hasMore: false,
+    }),
+    fetchAllEntities: async () => [],
+    fetchSIE: async () => ({ files: [] }),
+  };
+}
+
+describe('webhook routes', () => {
+  let db: SQLiteAdapter;
+  let app: ReturnType<typeof createServer>;
+  let receiver: Awaited<ReturnType<typeof startReceiver>>;
+
+  async function registerEndpoint(events: string[]) {
+    const res = await app.request('/api/v1/webhooks', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url: receiver.url, events }),
+    });
+    return { res, body: await res.json() };
+  }
+
+  beforeEach(async () => {
+    db = new SQLiteAdapter(':memory:');
+    await db.migrate();
+    receiver = await startReceiver();
+    app = createServer({ db, syncWorker: false, syncScheduler: false });
+  });
+
+  afterEach(async () => {
+    await receiver.close();
+  });
+
+  it('POST /api/v1/webhooks registers an endpoint and returns its secret once', async () => {
+    const { res, body } = await registerEndpoint(['sync.completed']);
+    expect(res.status).toBe(201);
+    expect(body.endpointId).toBeDefined();
+    expect(body.tenantId).toBe('default');
+    expect(body.secret).toMatch(/^whsec_[a-f0-9]{48}$/);
+    expect(body.active).toBe(true);
+
+    const list = await (await app.request('/api/v1/webhooks')).json();
+    expect(list.data).toHaveLength(1);
+    expect(list.data[0].secret).toBeUndefined();
+
+    const single = await (await app.request(`/api/v1/webhooks/${body.endpointId}`)).json();
+    expect(single.secret).toBeUndefined();
+  });
+
+  it('rejects unknown event types and non-http URLs', async () => {
+    const badEvent = await registerEndpoint(['invoice.paid']);
+    expect(badEvent.res.status).toBe(400);
+    expect(badEvent.body.error).toBe('Invalid request body');
+
+    const badUrl = await app.request('/api/v1/webhooks', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url: 'ftp://example.com', events: ['sync.completed'] }),
+    });
+    expect(badUrl.status).toBe(400);
+  });
+
+  it('PATCH and DELETE /api/v1/webhooks/:endpointId', async () => {
+    const { body: created } = await registerEndpoint(['sync.completed']);
+
+    const patched = await app.request(`/api/v1/webhooks/${created.endpointId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ active: false, events: ['sync.failed'] }),
+    });
+    expect(patched.status).toBe(200);
+    expect(await patched.json()).toMatchObject({ active: false, events: ['sync.failed'], url: receiver.url });
+
+    const deleted = await app.request(`/api/v1/webhooks/${created.endpointId}`, { method: 'DELETE' });
+    expect(deleted.status).toBe(200);
+    expect((await app.request(`/api/v1/webhooks/${created.endpointId}`)).status).toBe(404);
+  });
+
+  it('hides endpoints that belong to another tenant', async () => {
+    await db.upsertWebhookEndpoint({
+      endpointId: 'other-tenant',
+      tenantId: 'tenant-2',
+      url: receiver.url,
+      secret: 'whsec_other',
+      events: ['sync.completed'],
+      description: null,
+      active: true,
+      createdAt: '2024-03-15T10:00:00Z',
+      updatedAt: '2024-03-15T10:00:00Z',
+    });
+
+    expect((await app.request('/api/v1/webhooks/other-tenant')).status).toBe(404);
+    expect((await (await app.request('/api/v1/webhooks')).json()).data).toEqual([]);
+  });
+
+  it('delivers consent.accepted and logs it for replay', async () => {
+    const { body: endpoint } = await registerEndpoint(['consent.accepted', 'consent.revoked']);
+    const consent = await (
+      await app.request('/api/v1/consents', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: 'Test', provider: 'fortnox' }),
+      })
+    ).json();
+
+    await app.request(`/api/v1/consents/${consent.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ status: 1 }),
+    });
+    await vi.waitFor(() => expect(receiver.events).toHaveLength(1));
+    expect(receiver.events[0]).toMatchObject({ type: 'consent.accepted', data: { id: consent.id, status: 1 } });
+
+    const log = await (await app.request(`/api/v1/webhooks/${endpoint.endpointId}/deliveries`)).json();
+    expect(log.data).toHaveLength(1);
+    await vi.waitFor(async () => {
+      const delivery = await db.getWebhookDelivery(log.data[0].deliveryId);
+      expect(delivery!.status).toBe('succeeded');
+    });
+
+    const replay = await app.request(
+      `/api/v1/webhooks/${endpoint.endpointId}/deliveries/${log.data[0].deliveryId}/replay`,
+      { method: 'POST' },
+    );
+    expect(replay.status).toBe(202);
+    expect((await replay.json()).replayOf).toBe(log.data[0].deliveryId);
+    await vi.waitFor(() => expect(receiver.events).toHaveLength(2));
+    expect(receiver.events[1]!.id).toBe(receiver.events[0]!.id);
+
+    // Revoking raises consent.revoked; re-saving the same status raises nothing
+    await app.request(`/api/v1/consents/${consent.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ status: 2 }),
+    });
+    await app.request(`/api/v1/consents/${consent.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ status: 2 }),
+    });
+    await vi.waitFor(() => expect(receiver.events).toHaveLength(3));
+    expect(receiver.events[2]!.type).toBe('consent.revoked');
+  });
+
+  it('returns 404 when replaying an unknown delivery', async () => {
+    const { body: endpoint } = await registerEndpoint(['sync.completed']);
+    const res = await app.request(`/api/v1/webhooks/${endpoint.endpointId}/deliveries/nope/replay`, {
+      method: 'POST',
+    });
+    expect(res.status).toBe(404);
+  });
+
+  it('delivers sync.completed and entity.changed from the sync worker', async () => {
+    registerProvider('fortnox', createMockProvider);
+    app = createServer({ db, syncWorker: { pollIntervalMs: 5 }, syncScheduler: false });
+    await registerEndpoint(['sync.completed', 'entity.changed']);
+    await db.upsertConnection({
+      connectionId: 'conn-1',
+      provider: 'fortnox',
+      displayName: 'Test AB',
+      createdAt: '2024-03-15T10:00:00Z',
+      updatedAt: '2024-03-15T10:00:00Z',
+    });
+
+    const res = await app.request('/sync', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        connectionId: 'conn-1',
+        provider: 'fortnox',
+        credentials: { accessToken: 'token' },
+        entityTypes: ['invoice'],
+      }),
+    });
+    const { jobId } = await res.json();
+
+    await vi.waitFor(() => expect(receiver.events).toHaveLength(2));
+    const changed = receiver.events.find((e) => e.type === 'entity.changed')!;
+    expect(changed.data).toMatchObject({ jobId, entityType: 'invoice', insertedIds: ['1001'] });
+    const completed = receiver.events.find((e) => e.type === 'sync.completed')!;
+    expect(completed.data).toMatchObject({ jobId, status: 'completed' });
+  });
+
+  it('is not mounted when webhooks are disabled', async () => {
+    app = createServer({ db, webhooks: false, syncWorker: false, syncScheduler: false });
+    expect((await app.request('/api/v1/webhooks')).status).toBe(404);
+  });
+});
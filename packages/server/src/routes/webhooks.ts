@@ -0,0 +1,139 @@
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { randomBytes } from 'node:crypto';
+import type { DatabaseAdapter, Logger, WebhookEndpoint } from '@arcim-sync/core';
+import { CreateWebhookEndpointBody, UpdateWebhookEndpointBody, WebhookDeliveryQuery } from '../schemas-v1.js';
+import type { AppEnv } from '../types.js';
+import type { WebhookDispatcher } from '../webhooks/dispatcher.js';
+
+/** The signing secret is only returned once, when the endpoint is created. */
+function toResponse(endpoint: WebhookEndpoint) {
+  const { secret: _secret, ...rest } = endpoint;
+  return rest;
+}
+
+export function webhooksRoutes(db: DatabaseAdapter, logger: Logger, dispatcher: WebhookDispatcher) {
+  const app = new Hono<AppEnv>();
+
+  /** Endpoints of other tenants are reported as missing. */
+  async function findEndpoint(c: Context<AppEnv>): Promise<WebhookEndpoint | null> {
+    const tenantId = c.get('tenantId') as string ?? 'default';
+    const endpoint = await db.getWebhookEndpoint(c.req.param('endpointId')!);
+    return endpoint && endpoint.tenantId === tenantId ? endpoint : null;
+  }
+
+  // POST /api/v1/webhooks — register an endpoint
+  app.post('/', async (c) => {
+    const body = await c.req.json();
+    const parsed = CreateWebhookEndpointBody.safeParse(body);
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid request body', details: parsed.error.flatten() }, 400);
+    }
+
+    const tenantId = c.get('tenantId') as string ?? 'default';
+    const now = new Date().toISOString();
+    const endpoint: WebhookEndpoint = {
+      endpointId: crypto.randomUUID(),
+      tenantId,
+      url: parsed.data.url,
+      secret: `whsec_${randomBytes(24).toString('hex')}`,
+      events: parsed.data.events,
+      description: parsed.data.description ?? null,
+      active: true,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await db.upsertWebhookEndpoint(endpoint);
+    logger.info('Webhook endpoint registered', { endpointId: endpoint.endpointId, tenantId });
+
+    return c.json(endpoint, 201);
+  });
+
+  // GET /api/v1/webhooks
+  app.get('/', async (c) => {
+    const tenantId = c.get('tenantId') as string ?? 'default';
+    const endpoints = await db.getWebhookEndpoints(tenantId);
+    return c.json({ data: endpoints.map(toResponse) });
+  });
+
+  // GET /api/v1/webhooks/:endpointId
+  app.get('/:endpointId', async (c) => {
+    const endpoint = await findEndpoint(c);
+    if (!endpoint) {
+      return c.json({ error: 'Webhook endpoint not found' }, 404);
+    }
+    return c.json(toResponse(endpoint));
+  });
+
+  // PATCH /api/v1/webhooks/:endpointId
+  app.patch('/:endpointId', async (c) => {
+    const endpoint = await findEndpoint(c);
+    if (!endpoint) {
+      return c.json({ error: 'Webhook endpoint not found' }, 404);
+    }
+
+    const body = await c.req.json();
+    const parsed = UpdateWebhookEndpointBody.safeParse(body);
+    if (!parsed.success) {
+      return c.json({ error: 'Invalid request body', details: parsed.error.flatten() }, 400);
+    }
+
+    const updated: WebhookEndpoint = {
+      ...endpoint,
+      url: parsed.data.url ?? endpoint.url,
+      events: parsed.data.events ?? endpoint.events,
+      description: parsed.data.description === undefined ? endpoint.description : parsed.data.description,
+      active: parsed.data.active ?? endpoint.active,
+      updatedAt: new Date().toISOString(),
+    };
+
+    await db.upsertWebhookEndpoint(updated);
+    logger.info('Webhook endpoint updated', { endpointId: endpoint.endpointId });
+    return c.json(toResponse(updated));
+  });
+
+  // DELETE /api/v1/webhooks/:endpointId
+  app.delete('/:endpointId', async (c) => {
+    const endpoint = await findEndpoint(c);
+    if (!endpoint) {
+      return c.json({ error: 'Webhook endpoint not found' }, 404);
+    }
+
+    await db.deleteWebhookEndpoint(endpoint.endpointId);
+    logger.info('Webhook endpoint deleted', { endpointId: endpoint.endpointId });
+    return c.json({ success: true });
+  });
+
+  // GET /api/v1/webhooks/:endpointId/deliveries — delivery log, newest first
+  app.get('/:endpointId/deliveries', async (c) => {
+    const endpoint = await findEndpoint(c);
+    if (!endpoint) {
+      return c.json({ error: 'Webhook endpoint not found' }, 404);
+    }
+
+    const query = WebhookDeliveryQuery.safeParse({ limit: c.req.query('limit') || undefined });
+    const limit = query.success ? query.data.limit : 20;
+    const deliveries = await db.getWebhookDeliveries(endpoint.endpointId, limit);
+    return c.json({ data: deliveries });
+  });
+
+  // POST /api/v1/webhooks/:endpointId/deliveries/:deliveryId/replay — resend as a new delivery
+  app.post('/:endpointId/deliveries/:deliveryId/replay', async (c) => {
+    const endpoint = await findEndpoint(c);
+    if (!endpoint) {
+      return c.json({ error: 'Webhook endpoint not found' }, 404);
+    }
+
+    const delivery = await db.getWebhookDelivery(c.req.param('deliveryId'));
+    if (!delivery || delivery.endpointId !== endpoint.endpointId) {
+      return c.json({ error: 'Webhook delivery not found' }, 404);
+    }
+
+    const replay = await dispatcher.replay(endpoint, delivery);
+    logger.info('Webhook delivery replayed', { deliveryId: delivery.deliveryId, replayId: replay.deliveryId });
+    return c.json(replay, 202);
+  });
+
+  return app;
+}
@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { ProviderNameSchema } from '@arcim-sync/core';
+import { ProviderNameSchema, WebhookEventTypeSchema } from '@arcim-sync/core';
 
 // ── Consents ──
 
@@ -51,8 +51,34 @@ export const ResourceQueryParams = z.object({
   toDate: z.string().optional(),
   lastModified: z.string().optional(),
   fiscalYear: z.coerce.number().int().optional(),
+  /** Fortnox voucher rows are only returned by the detail endpoint; hydrate unless opted out */
+  includeEntries: z.enum(['true', 'false']).default('true').transform((v) => v === 'true'),
 });
 
 // ── Create resource ──
 
 export const CreateResourceBody = z.record(z.unknown());
+
+// ── Webhooks ──
+
+const WebhookUrl = z
+  .string()
+  .url()
+  .refine((url) => /^https?:\/\//.test(url), { message: 'Webhook URL must be http(s)' });
+
+export const CreateWebhookEndpointBody = z.object({
+  url: WebhookUrl,
+  events: z.array(WebhookEventTypeSchema).min(1),
+  description: z.string().max(500).optional(),
+});
+
+export const UpdateWebhookEndpointBody = z.object({
+  url: WebhookUrl.optional(),
+  events: z.array(WebhookEventTypeSchema).min(1).optional(),
+  description: z.string().max(500).nullable().optional(),
+  active: z.boolean().optional(),
+});
+
+export const WebhookDeliveryQuery = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
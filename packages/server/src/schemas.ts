@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { ProviderNameSchema, EntityTypeSchema } from '@arcim-sync/core';
+import { ProviderNameSchema, EntityTypeSchema, isValidCronExpression } from '@arcim-sync/core';
 
 // ── Connections ──
 
@@ -17,26 +17,60 @@ export const ConnectionQueryParams = z.object({
 
 // ── Sync ──
 
-export const TriggerSyncBody = z.object({
-  connectionId: z.string().min(1),
-  provider: ProviderNameSchema,
-  credentials: z.object({
-    accessToken: z.string().min(1),
-  }).passthrough(),
-  entityTypes: z.array(EntityTypeSchema).optional(),
-  includeSIE: z.boolean().optional(),
-  sieOptions: z
-    .object({
-      sieType: z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(4)]).optional(),
-      fiscalYears: z.array(z.number()).optional(),
-    })
-    .optional(),
-});
+const SyncSIEOptions = z
+  .object({
+    sieType: z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(4)]).optional(),
+    fiscalYears: z.array(z.number()).optional(),
+  })
+  .optional();
+
+export const TriggerSyncBody = z
+  .object({
+    connectionId: z.string().min(1),
+    provider: ProviderNameSchema,
+    /** Run with the consent's managed tokens, resolved when a worker claims the job */
+    consentId: z.string().min(1).optional(),
+    credentials: z.object({
+      accessToken: z.string().min(1),
+    }).passthrough().optional(),
+    entityTypes: z.array(EntityTypeSchema).optional(),
+    includeSIE: z.boolean().optional(),
+    sieOptions: SyncSIEOptions,
+    reconcileDeletions: z.boolean().optional(),
+  })
+  .refine((body) => (body.consentId === undefined) !== (body.credentials === undefined), {
+    message: 'Provide exactly one of consentId or credentials',
+    path: ['credentials'],
+  });
 
 export const SyncHistoryQuery = z.object({
   limit: z.coerce.number().int().min(1).max(100).default(20),
 });
 
+// ── Sync schedules ──
+
+export const CreateSyncScheduleBody = z
+  .object({
+    connectionId: z.string().min(1),
+    consentId: z.string().min(1),
+    cronExpression: z
+      .string()
+      .refine(isValidCronExpression, { message: 'Invalid cron expression' })
+      .optional(),
+    intervalMinutes: z.number().int().min(5).max(60 * 24 * 31).optional(),
+    entityTypes: z.array(EntityTypeSchema).optional(),
+    includeSIE: z.boolean().default(false),
+    sieOptions: SyncSIEOptions,
+  })
+  .refine((body) => (body.cronExpression === undefined) !== (body.intervalMinutes === undefined), {
+    message: 'Provide exactly one of cronExpression or intervalMinutes',
+    path: ['cronExpression'],
+  });
+
+export const SyncScheduleQuery = z.object({
+  connectionId: z.string().optional(),
+});
+
 // ── Entities ──
 
 export const EntityQueryParams = z.object({
@@ -47,14 +81,84 @@ export const EntityQueryParams = z.object({
   toDate: z.string().optional(),
   orderBy: z.enum(['document_date', 'last_modified', 'external_id']).optional(),
   orderDirection: z.enum(['asc', 'desc']).optional(),
+  includeDeleted: z.enum(['true', 'false']).transform((v) => v === 'true').optional(),
+  asOf: z.coerce.date().transform((d) => d.toISOString()).optional(),
 });
 
 export const EntityCountQuery = z.object({
   entityType: EntityTypeSchema.optional(),
+  includeDeleted: EntityQueryParams.shape.includeDeleted,
+});
+
+export const EntityDiffQuery = z.object({
+  from: z.coerce.number().int().min(1),
+  to: z.coerce.number().int().min(1),
 });
 
 // ── SIE ──
-// No request schemas needed — SIE routes only use path params.
+
+export const SIEExportQuery = z.object({
+  sieType: z.coerce.number().int().min(1).max(4).optional(),
+});
+
+const YearMonth = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Expected YYYY-MM');
+
+export const SIETimeSeriesQuery = z.object({
+  from: YearMonth.optional(),
+  to: YearMonth.optional(),
+});
+
+export const SIEUploadQuery = z.object({
+  /** Only needed when the file has no #RAR 0 */
+  fiscalYear: z.coerce.number().int().min(1900).max(2100).optional(),
+  /** Name to record for raw-body uploads; multipart uploads use the file's own name */
+  fileName: z.string().max(255).optional(),
+});
+
+export const SIEBudgetParams = z.object({
+  fiscalYear: z.coerce.number().int().min(1900).max(2100),
+  /** Name to record for raw-body uploads; multipart uploads use the file's own name */
+  fileName: z.string().max(255).optional(),
+});
+
+const IsoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+const AccountNumber = z.string().regex(/^\d{4}$/, 'Expected a 4-digit account');
+
+export const SIELedgerQuery = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(1000).default(50),
+  fromAccount: AccountNumber.optional(),
+  toAccount: AccountNumber.optional(),
+  fromDate: IsoDate.optional(),
+  toDate: IsoDate.optional(),
+  costCenter: z.string().min(1).optional(),
+  project: z.string().min(1).optional(),
+  /** csv and pdf return the whole report rather than one page */
+  format: z.enum(['json', 'csv', 'pdf']).default('json'),
+});
+
+export const SIEVATQuery = z.object({
+  period: z.string().regex(/^\d{4}-((0[1-9]|1[0-2])|Q[1-4])$/, 'Expected YYYY-MM or YYYY-Qn'),
+  /** xml returns the eSKD file */
+  format: z.enum(['json', 'xml']).default('json'),
+  /** Organization number for the eSKD file, when the SIE file has none */
+  orgNumber: z.string().optional(),
+});
+
+export const SIESRUQuery = z
+  .object({
+    /** Returns INFO.SRU or BLANKETTER.SRU instead of the declaration */
+    file: z.enum(['info', 'blanketter']).optional(),
+    /** Organization number for the SRU files, when the SIE file has none */
+    orgNumber: z.string().optional(),
+    /** Postal code and town of the submitter, required for INFO.SRU */
+    postalCode: z.string().optional(),
+    city: z.string().optional(),
+  })
+  .refine((q) => q.file !== 'info' || (q.postalCode && q.city), {
+    message: 'INFO.SRU needs postalCode and city',
+    path: ['postalCode'],
+  });
 
 // ── OAuth (Fortnox) ──
 
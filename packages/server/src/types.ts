@@ -1,4 +1,5 @@
-import type { DatabaseAdapter, Logger, ConsentRecord, ProviderCredentials } from '@arcim-sync/core';
+import type { DatabaseAdapter, Logger, ConsentRecord, ProviderCredentials, SyncWorkerOptions, SyncSchedulerOptions } from '@arcim-sync/core';
+import type { WebhookDispatcherOptions } from './webhooks/dispatcher.js';
 
 /** Hono environment type for V1 consent-based routes */
 export type AppEnv = {
@@ -6,6 +7,8 @@ export type AppEnv = {
     tenantId: string;
     consent: ConsentRecord;
     credentials: ProviderCredentials;
+    /** Set for managed tokens; refreshes after the provider rejected these credentials */
+    refreshCredentials?: (rejected: ProviderCredentials) => Promise<ProviderCredentials>;
   };
 };
 
@@ -21,6 +24,15 @@ export interface VismaOAuthConfig {
   redirectUri: string;
 }
 
+export interface BrioxOAuthConfig {
+  clientId: string;
+}
+
+export interface BjornLundenOAuthConfig {
+  clientId: string;
+  clientSecret: string;
+}
+
 export interface ServerOptions {
   db: DatabaseAdapter;
   /** Enables bearer auth when set */
@@ -31,12 +43,31 @@ export interface ServerOptions {
   fortnoxOAuth?: FortnoxOAuthConfig;
   /** Enables /auth/visma/* when set */
   vismaOAuth?: VismaOAuthConfig;
+  /** Used to refresh Briox consent tokens */
+  brioxOAuth?: BrioxOAuthConfig;
+  /** Client credentials used to renew Björn Lundén consent tokens */
+  bjornLundenOAuth?: BjornLundenOAuthConfig;
   /** AES encryption key for token-at-rest encryption */
   tokenEncryptionKey?: string;
   /** Deployment mode: self-hosted allows pass-per-call tokens */
   mode?: 'self-hosted' | 'hosted';
   /** Base URL for the onboarding/consent UI */
   onboardingBaseUrl?: string;
+  /** Largest SIE file accepted by POST /sie/:connId/upload, in bytes. Default: 25 MB */
+  maxSIEUploadBytes?: number;
   /** Rate limiting configuration for V1 API routes */
   rateLimits?: { maxRequests: number; windowMs: number };
+  /**
+   * In-process worker for the sync job queue. Started by default; pass false
+   * when jobs are consumed by separately deployed SyncWorkers.
+   */
+  syncWorker?: Omit<SyncWorkerOptions, 'onJobFinished' | 'onEntitiesChanged'> | false;
+  /** Enqueues due sync schedules. Started by default; pass false to run it elsewhere. */
+  syncScheduler?: Omit<SyncSchedulerOptions, 'onEnqueue'> | false;
+  /**
+   * Outbound webhooks for sync, consent and entity events, with tenant
+   * endpoints managed under /api/v1/webhooks. Enabled by default; pass false
+   * to disable both.
+   */
+  webhooks?: WebhookDispatcherOptions | false;
 }
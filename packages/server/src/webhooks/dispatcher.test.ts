@@ -0,0 +1,226 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer as createHttpServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { SQLiteAdapter } from '@arcim-sync/core';
+import type { WebhookEndpoint } from '@arcim-sync/core';
+import { WebhookDispatcher } from './dispatcher.js';
+import { signWebhookPayload, verifyWebhookSignature } from './signature.js';
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+/** Local stand-in for a tenant's webhook receiver. Answers with `statuses` in order, then 200. */
+async function startReceiver(statuses: number[] = []) {
+  const requests: ReceivedRequest[] = [];
+  const server: Server = createHttpServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      requests.push({ headers: req.headers, body });
+      res.statusCode = statuses.shift() ?? 200;
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}/hooks`,
+    requests,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+describe('WebhookDispatcher', () => {
+  let db: SQLiteAdapter;
+  let receiver: Awaited<ReturnType<typeof startReceiver>>;
+
+  function makeEndpoint(overrides?: Partial<WebhookEndpoint>): WebhookEndpoint {
+    return {
+      endpointId: 'wh-1',
+      tenantId: 'tenant-1',
+      url: receiver.url,
+      secret: 'whsec_test',
+      events: ['sync.completed', 'consent.accepted'],
+      description: null,
+      active: true,
+      createdAt: '2024-03-15T10:00:00Z',
+      updatedAt: '2024-03-15T10:00:00Z',
+      ...overrides,
+    };
+  }
+
+  beforeEach(async () => {
+    db = new SQLiteAdapter(':memory:');
+    await db.migrate();
+  });
+
+  afterEach(async () => {
+    await receiver?.close();
+  });
+
+  it('delivers a signed event to subscribed, active endpoints of the tenant', async () => {
+    receiver = await startReceiver();
+    await db.upsertWebhookEndpoint(makeEndpoint());
+    await db.upsertWebhookEndpoint(makeEndpoint({ endpointId: 'wh-2', events: ['sync.failed'] }));
+    await db.upsertWebhookEndpoint(makeEndpoint({ endpointId: 'wh-3', active: false }));
+    await db.upsertWebhookEndpoint(makeEndpoint({ endpointId: 'wh-4', tenantId: 'tenant-2' }));
+
+    const dispatcher = new WebhookDispatcher(db);
+    const deliveries = await dispatcher.dispatch('tenant-1', 'sync.completed', { jobId: 'job-1' });
+    await dispatcher.idle();
+
+    expect(deliveries.map((d) => d.endpointId)).toEqual(['wh-1']);
+    expect(receiver.requests).toHaveLength(1);
+
+    const [request] = receiver.requests;
+    expect(request!.headers['x-arcim-event']).toBe('sync.completed');
+    expect(request!.headers['x-arcim-delivery']).toBe(deliveries[0]!.deliveryId);
+    expect(verifyWebhookSignature('whsec_test', request!.body, request!.headers['x-arcim-signature'] as string)).toBe(true);
+    expect(JSON.parse(request!.body)).toMatchObject({ type: 'sync.completed', data: { jobId: 'job-1' } });
+
+    const logged = await db.getWebhookDelivery(deliveries[0]!.deliveryId);
+    expect(logged).toMatchObject({ status: 'succeeded', attempts: 1, responseStatus: 200, error: null });
+    expect(logged!.deliveredAt).toBeTruthy();
+  });
+
+  it('retries server errors with backoff until the endpoint accepts', async () => {
+    receiver = await startReceiver([500, 503]);
+    await db.upsertWebhookEndpoint(makeEndpoint());
+
+    const dispatcher = new WebhookDispatcher(db, { initialDelayMs: 1 });
+    const [delivery] = await dispatcher.dispatch('tenant-1', 'sync.completed', { jobId: 'job-1' });
+    await dispatcher.idle();
+
+    expect(receiver.requests).toHaveLength(3);
+    // Every attempt carries the same event id so receivers can deduplicate
+    const eventIds = receiver.requests.map((r) => JSON.parse(r.body).id);
+    expect(new Set(eventIds).size).toBe(1);
+    expect(await db.getWebhookDelivery(delivery!.deliveryId)).toMatchObject({
+      status: 'succeeded',
+      attempts: 3,
+    });
+  });
+
+  it('gives up after maxAttempts and logs the last failure', async () => {
+    receiver = await startReceiver([500, 500, 500]);
+    await db.upsertWebhookEndpoint(makeEndpoint());
+
+    const dispatcher = new WebhookDispatcher(db, { initialDelayMs: 1, maxAttempts: 3 });
+    const [delivery] = await dispatcher.dispatch('tenant-1', 'sync.completed', {});
+    await dispatcher.idle();
+
+    expect(await db.getWebhookDelivery(delivery!.deliveryId)).toMatchObject({
+      status: 'failed',
+      attempts: 3,
+      responseStatus: 500,
+      error: 'Endpoint responded with HTTP 500',
+      deliveredAt: null,
+    });
+  });
+
+  it('does not retry client errors', async () => {
+    receiver = await startReceiver([410]);
+    await db.upsertWebhookEndpoint(makeEndpoint());
+
+    const dispatcher = new WebhookDispatcher(db, { initialDelayMs: 1 });
+    const [delivery] = await dispatcher.dispatch('tenant-1', 'sync.completed', {});
+    await dispatcher.idle();
+
+    expect(receiver.requests).toHaveLength(1);
+    expect(await db.getWebhookDelivery(delivery!.deliveryId)).toMatchObject({ status: 'failed', attempts: 1 });
+  });
+
+  it('records network errors', async () => {
+    receiver = await startReceiver();
+    const url = receiver.url;
+    await receiver.close();
+    await db.upsertWebhookEndpoint(makeEndpoint({ url }));
+
+    const dispatcher = new WebhookDispatcher(db, { initialDelayMs: 1, maxAttempts: 2 });
+    const [delivery] = await dispatcher.dispatch('tenant-1', 'sync.completed', {});
+    await dispatcher.idle();
+
+    const logged = await db.getWebhookDelivery(delivery!.deliveryId);
+    expect(logged).toMatchObject({ status: 'failed', attempts: 2, responseStatus: null });
+    expect(logged!.error).toBeTruthy();
+  });
+
+  it('replays a logged event as a new delivery', async () => {
+    receiver = await startReceiver();
+    const endpoint = makeEndpoint();
+    await db.upsertWebhookEndpoint(endpoint);
+
+    const dispatcher = new WebhookDispatcher(db);
+    const [original] = await dispatcher.dispatch('tenant-1', 'consent.accepted', { id: 'consent-1' });
+    const replay = await dispatcher.replay(endpoint, original!);
+    await dispatcher.idle();
+
+    expect(replay.deliveryId).not.toBe(original!.deliveryId);
+    expect(replay.replayOf).toBe(original!.deliveryId);
+    expect(replay.event.id).toBe(original!.event.id);
+    expect(receiver.requests).toHaveLength(2);
+    expect(await db.getWebhookDelivery(replay.deliveryId)).toMatchObject({ status: 'succeeded' });
+  });
+
+  it('routes sync events to the tenant in the connection metadata', async () => {
+    receiver = await startReceiver();
+    await db.upsertWebhookEndpoint(makeEndpoint({ events: ['sync.completed', 'entity.changed'] }));
+    await db.upsertConnection({
+      connectionId: 'conn-1',
+      provider: 'fortnox',
+      displayName: 'Test AB',
+      createdAt: '2024-03-15T10:00:00Z',
+      updatedAt: '2024-03-15T10:00:00Z',
+      metadata: { tenantId: 'tenant-1' },
+    });
+
+    const dispatcher = new WebhookDispatcher(db);
+    const listeners = dispatcher.syncListeners();
+    listeners.onJobFinished({
+      jobId: 'job-1',
+      connectionId: 'conn-1',
+      provider: 'fortnox',
+      status: 'completed',
+      progress: 100,
+      entityResults: [],
+      startedAt: '2024-03-15T10:00:00Z',
+    });
+    listeners.onEntitiesChanged({
+      jobId: 'job-1',
+      connectionId: 'conn-1',
+      provider: 'fortnox',
+      entityType: 'invoice',
+      insertedIds: ['1001'],
+      updatedIds: [],
+    });
+    await dispatcher.idle();
+
+    const events = receiver.requests.map((r) => JSON.parse(r.body));
+    expect(events.map((e) => e.type).sort()).toEqual(['entity.changed', 'sync.completed']);
+    expect(events.find((e) => e.type === 'entity.changed').data).toMatchObject({
+      connectionId: 'conn-1',
+      entityType: 'invoice',
+      insertedIds: ['1001'],
+    });
+  });
+});
+
+describe('verifyWebhookSignature', () => {
+  const now = 1_710_000_000;
+  const body = JSON.stringify({ id: 'evt-1' });
+
+  it('accepts a matching signature within tolerance', () => {
+    const header = signWebhookPayload('secret', body, now - 60);
+    expect(verifyWebhookSignature('secret', body, header, 300, now)).toBe(true);
+  });
+
+  it('rejects a tampered body, wrong secret or stale timestamp', () => {
+    const header = signWebhookPayload('secret', body, now);
+    expect(verifyWebhookSignature('secret', body + ' ', header, 300, now)).toBe(false);
+    expect(verifyWebhookSignature('other', body, header, 300, now)).toBe(false);
+    expect(verifyWebhookSignature('secret', body, header, 300, now + 301)).toBe(false);
+    expect(verifyWebhookSignature('secret', body, 'garbage', 300, now)).toBe(false);
+  });
+});
@@ -0,0 +1,244 @@
+import type {
+  DatabaseAdapter,
+  Logger,
+  SyncWorkerOptions,
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookEvent,
+  WebhookEventType,
+} from '@arcim-sync/core';
+import { noopLogger, withRetry } from '@arcim-sync/core';
+import { WEBHOOK_SIGNATURE_HEADER, signWebhookPayload } from './signature.js';
+
+export interface WebhookDispatcherOptions {
+  logger?: Logger;
+  /** Attempts per delivery, including the first. Default 5. */
+  maxAttempts?: number;
+  /** Delay before the first retry; doubles on each further attempt. Default 1000ms. */
+  initialDelayMs?: number;
+  /** Upper bound for the retry delay. Default 60000ms. */
+  maxDelayMs?: number;
+  /** Per-request timeout. Default 10000ms. */
+  timeoutMs?: number;
+}
+
+/** A non-2xx answer from an endpoint, kept apart from network errors for retry decisions. */
+class WebhookResponseError extends Error {
+  constructor(readonly status: number) {
+    super(`Endpoint responded with HTTP ${status}`);
+    this.name = 'WebhookResponseError';
+  }
+}
+
+/** Client errors other than timeouts and rate limits will not succeed on retry. */
+function isRetryable(error: unknown): boolean {
+  if (error instanceof WebhookResponseError) {
+    return error.status >= 500 || error.status === 408 || error.status === 429;
+  }
+  return true;
+}
+
+/**
+ * Delivers HMAC-signed events to tenants' registered webhook endpoints.
+ * Every delivery is logged through the DatabaseAdapter before it is sent,
+ * then retried with exponential backoff in the background.
+ */
+export class WebhookDispatcher {
+  private readonly db: DatabaseAdapter;
+  private readonly logger: Logger;
+  private readonly maxAttempts: number;
+  private readonly initialDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly timeoutMs: number;
+  private readonly inFlight = new Set<Promise<void>>();
+
+  constructor(db: DatabaseAdapter, options?: WebhookDispatcherOptions) {
+    this.db = db;
+    this.logger = options?.logger ?? noopLogger;
+    this.maxAttempts = options?.maxAttempts ?? 5;
+    this.initialDelayMs = options?.initialDelayMs ?? 1000;
+    this.maxDelayMs = options?.maxDelayMs ?? 60_000;
+    this.timeoutMs = options?.timeoutMs ?? 10_000;
+  }
+
+  /**
+   * Log a delivery for each active endpoint of the tenant subscribed to
+   * `type` and start sending them. Never throws: a failure to fan out is
+   * logged so it cannot break the request or sync that raised the event.
+   */
+  async dispatch(
+    tenantId: string,
+    type: WebhookEventType,
+    data: Record<string, unknown>,
+  ): Promise<WebhookDelivery[]> {
+    try {
+      const endpoints = (await this.db.getWebhookEndpoints(tenantId)).filter(
+        (endpoint) => endpoint.active && endpoint.events.includes(type),
+      );
+      if (endpoints.length === 0) return [];
+
+      const event: WebhookEvent = {
+        id: crypto.randomUUID(),
+        type,
+        createdAt: new Date().toISOString(),
+        data,
+      };
+
+      const deliveries: WebhookDelivery[] = [];
+      for (const endpoint of endpoints) {
+        deliveries.push(await this.enqueue(endpoint, event, null));
+      }
+      return deliveries;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error('Failed to dispatch webhook event', { tenantId, type, error: message });
+      return [];
+    }
+  }
+
+  /** Send a logged delivery's event again, as a new delivery to the same endpoint. */
+  async replay(endpoint: WebhookEndpoint, delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    return this.enqueue(endpoint, delivery.event, delivery.deliveryId);
+  }
+
+  /** Resolves once every delivery started so far has succeeded or given up. */
+  async idle(): Promise<void> {
+    while (this.inFlight.size > 0) {
+      await Promise.all([...this.inFlight]);
+    }
+  }
+
+  /**
+   * SyncWorker listeners that raise `sync.completed` / `sync.failed` and
+   * `entity.changed`. Connections carry their tenant in `metadata.tenantId`;
+   * connections without one belong to the 'default' tenant.
+   */
+  syncListeners(): Required<Pick<SyncWorkerOptions, 'onJobFinished' | 'onEntitiesChanged'>> {
+    return {
+      onJobFinished: (progress) => {
+        if (progress.status !== 'completed' && progress.status !== 'failed') return;
+        this.track(this.dispatchForConnection(progress.connectionId, `sync.${progress.status}`, { ...progress }));
+      },
+      onEntitiesChanged: (change) => {
+        this.track(this.dispatchForConnection(change.connectionId, 'entity.changed', { ...change }));
+      },
+    };
+  }
+
+  private async dispatchForConnection(
+    connectionId: string,
+    type: WebhookEventType,
+    data: Record<string, unknown>,
+  ): Promise<void> {
+    const connection = await this.db.getConnection(connectionId);
+    const tenantId = connection?.metadata?.['tenantId'];
+    await this.dispatch(typeof tenantId === 'string' ? tenantId : 'default', type, data);
+  }
+
+  private async enqueue(
+    endpoint: WebhookEndpoint,
+    event: WebhookEvent,
+    replayOf: string | null,
+  ): Promise<WebhookDelivery> {
+    const now = new Date().toISOString();
+    const delivery: WebhookDelivery = {
+      deliveryId: crypto.randomUUID(),
+      endpointId: endpoint.endpointId,
+      tenantId: endpoint.tenantId,
+      event,
+      status: 'pending',
+      attempts: 0,
+      responseStatus: null,
+      error: null,
+      replayOf,
+      createdAt: now,
+      updatedAt: now,
+      deliveredAt: null,
+    };
+
+    await this.db.upsertWebhookDelivery(delivery);
+    this.track(this.deliver(endpoint, { ...delivery }));
+    return delivery;
+  }
+
+  private async deliver(endpoint: WebhookEndpoint, delivery: WebhookDelivery): Promise<void> {
+    const body = JSON.stringify(delivery.event);
+
+    const record = async (update: Partial<WebhookDelivery>) => {
+      Object.assign(delivery, update, { updatedAt: new Date().toISOString() });
+      await this.db.upsertWebhookDelivery(delivery);
+    };
+
+    const attempt = async () => {
+      const timestamp = Math.floor(Date.now() / 1000);
+      let response: Response;
+      try {
+        response = await fetch(endpoint.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Arcim-Event': delivery.event.type,
+            'X-Arcim-Delivery': delivery.deliveryId,
+            [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(endpoint.secret, body, timestamp),
+          },
+          body,
+          signal: AbortSignal.timeout(this.timeoutMs),
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await record({ attempts: delivery.attempts + 1, responseStatus: null, error: message });
+        throw error;
+      }
+
+      await response.body?.cancel();
+      if (!response.ok) {
+        const error = new WebhookResponseError(response.status);
+        await record({ attempts: delivery.attempts + 1, responseStatus: response.status, error: error.message });
+        throw error;
+      }
+
+      await record({
+        attempts: delivery.attempts + 1,
+        status: 'succeeded',
+        responseStatus: response.status,
+        error: null,
+        deliveredAt: new Date().toISOString(),
+      });
+    };
+
+    try {
+      await withRetry(attempt, {
+        maxAttempts: this.maxAttempts,
+        initialDelayMs: this.initialDelayMs,
+        maxDelayMs: this.maxDelayMs,
+        shouldRetry: isRetryable,
+      });
+    } catch {
+      this.logger.warn('Webhook delivery failed', {
+        deliveryId: delivery.deliveryId,
+        endpointId: endpoint.endpointId,
+        attempts: delivery.attempts,
+        error: delivery.error,
+      });
+      try {
+        await record({ status: 'failed' });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.error('Failed to record webhook delivery', { deliveryId: delivery.deliveryId, error: message });
+      }
+    }
+  }
+
+  private track(promise: Promise<unknown>): void {
+    const tracked: Promise<void> = promise
+      .then(
+        () => undefined,
+        (error) => {
+          const message = error instanceof Error ? error.message : String(error);
+          this.logger.error('Webhook task failed', { error: message });
+        },
+      )
+      .finally(() => this.inFlight.delete(tracked));
+    this.inFlight.add(tracked);
+  }
+}
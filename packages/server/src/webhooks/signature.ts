@@ -0,0 +1,41 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Arcim-Signature';
+
+/**
+ * Signature header value for a webhook body: `t=<unix seconds>,v1=<hex>`,
+ * where v1 is HMAC-SHA256 over `${t}.${body}` keyed with the endpoint secret.
+ * Binding the timestamp lets receivers reject replayed requests.
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Check a signature header against the raw request body. Fails if it does
+ * not match or is older than `toleranceSeconds` (default 5 minutes).
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  toleranceSeconds = 300,
+  now: number = Math.floor(Date.now() / 1000),
+): boolean {
+  const parts = new Map(
+    header.split(',').map((part) => {
+      const [key, ...rest] = part.trim().split('=');
+      return [key, rest.join('=')] as const;
+    }),
+  );
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+  if (!Number.isInteger(timestamp) || !signature) return false;
+  if (Math.abs(now - timestamp) > toleranceSeconds) return false;
+
+  const expected = signWebhookPayload(secret, body, timestamp).split('v1=')[1]!;
+  const a = Buffer.from(signature, 'hex');
+  const b = Buffer.from(expected, 'hex');
+  return a.length === b.length && timingSafeEqual(a, b);
+}
@@ -1,3 +1,5 @@
+// Provider logic is loaded from @arcim-sync/core's runtime-neutral build
+// (packages/core/dist/gateway) — run `npm run build` in packages/core first.
 import { Hono } from 'hono';
 import { authMiddleware } from './middleware/auth.ts';
 import { consentRoutes } from './routes/consents.ts';
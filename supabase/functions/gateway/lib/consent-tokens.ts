@@ -0,0 +1,72 @@
+import type {
+  ConsentRecord,
+  ConsentTokenRecord,
+  ConsentTokenStore,
+  ProviderName,
+} from '@arcim-sync/core/gateway';
+import { getDb } from './db.ts';
+
+/**
+ * Consents and tokens for core's refreshConsentTokens. Tokens are written with
+ * a compare-and-swap, so a refresh here cannot overwrite one made at the same
+ * time by the Node server or the token-refresh cron.
+ */
+export function consentTokenStore(): ConsentTokenStore {
+  const sql = getDb();
+
+  return {
+    async getConsent(consentId: string): Promise<ConsentRecord | null> {
+      const rows = await sql`SELECT * FROM consents WHERE id = ${consentId} LIMIT 1`;
+      if (rows.length === 0) return null;
+      const row = rows[0];
+      return {
+        id: row.id,
+        tenantId: row.tenant_id,
+        name: row.name,
+        status: row.status,
+        provider: row.provider as ProviderName,
+        etag: row.etag,
+        createdAt: new Date(row.created_at).toISOString(),
+        updatedAt: new Date(row.updated_at).toISOString(),
+      };
+    },
+
+    // Token refresh only ever changes the status of an existing consent
+    async upsertConsent(consent: ConsentRecord): Promise<void> {
+      await sql`
+        UPDATE consents SET status = ${consent.status}, etag = ${consent.etag}, updated_at = ${consent.updatedAt}
+        WHERE id = ${consent.id}
+      `;
+    },
+
+    async getConsentTokens(consentId: string): Promise<ConsentTokenRecord | null> {
+      const rows = await sql`SELECT * FROM consent_tokens WHERE consent_id = ${consentId} LIMIT 1`;
+      if (rows.length === 0) return null;
+      const row = rows[0];
+      return {
+        consentId: row.consent_id,
+        provider: row.provider as ProviderName,
+        accessToken: row.access_token,
+        refreshToken: row.refresh_token ?? undefined,
+        tokenExpiresAt: row.token_expires_at ? new Date(row.token_expires_at).toISOString() : undefined,
+      };
+    },
+
+    async replaceConsentTokens(
+      tokens: ConsentTokenRecord,
+      expected: Pick<ConsentTokenRecord, 'accessToken' | 'refreshToken'>,
+    ): Promise<boolean> {
+      const rows = await sql`
+        UPDATE consent_tokens SET
+          access_token = ${tokens.accessToken},
+          refresh_token = ${tokens.refreshToken ?? null},
+          token_expires_at = ${tokens.tokenExpiresAt ?? null}
+        WHERE consent_id = ${tokens.consentId}
+          AND access_token = ${expected.accessToken}
+          AND refresh_token IS NOT DISTINCT FROM ${expected.refreshToken ?? null}
+        RETURNING consent_id
+      `;
+      return rows.length > 0;
+    },
+  };
+}
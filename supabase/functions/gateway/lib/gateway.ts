@@ -0,0 +1,12 @@
+import {
+  BjornLundenClient,
+  BjornLundenProvider,
+  GatewayHandler,
+  registerProvider,
+} from '@arcim-sync/core/gateway';
+import { pgHttpFetch } from './pg-http.ts';
+
+// Björn Lunden traffic must bypass Deno's TLS stack — override the default registration
+registerProvider('bjornlunden', () => new BjornLundenProvider(new BjornLundenClient(undefined, pgHttpFetch)));
+
+export const gateway = new GatewayHandler();
@@ -0,0 +1,53 @@
+import { fetchBjornLundenToken } from '@arcim-sync/core/gateway';
+import type { ProviderName, ProviderOAuthConfigs, TokenRefreshOptions } from '@arcim-sync/core/gateway';
+import { pgHttpFetch } from './pg-http.ts';
+
+export interface TokenResponse {
+  access_token: string;
+  refresh_token: string;
+  token_type: string;
+  expires_in: number;
+}
+
+/** OAuth clients of every provider, from the environment */
+export function getOAuthConfigs(): Required<ProviderOAuthConfigs> {
+  const env = (name: string) => Deno.env.get(name) ?? '';
+  return {
+    fortnox: {
+      clientId: env('FORTNOX_CLIENT_ID'),
+      clientSecret: env('FORTNOX_CLIENT_SECRET'),
+      redirectUri: env('FORTNOX_REDIRECT_URI'),
+    },
+    visma: {
+      clientId: env('VISMA_CLIENT_ID'),
+      clientSecret: env('VISMA_CLIENT_SECRET'),
+      redirectUri: env('VISMA_REDIRECT_URI'),
+    },
+    briox: { clientId: env('BRIOX_CLIENT_ID') },
+    bjornlunden: {
+      clientId: env('BJORN_LUNDEN_CLIENT_ID'),
+      clientSecret: env('BJORN_LUNDEN_CLIENT_SECRET'),
+    },
+  };
+}
+
+/** Options for core's token refresh. Björn Lunden traffic goes through pgHttpFetch (see pg-http.ts). */
+export function tokenRefreshOptions(provider: ProviderName): TokenRefreshOptions {
+  return {
+    oauth: getOAuthConfigs(),
+    fetchFn: provider === 'bjornlunden' ? pgHttpFetch : undefined,
+  };
+}
+
+/**
+ * Acquire a Björn Lunden token with the client credentials from the environment,
+ * when a consent is onboarded. BL issues no refresh_token.
+ */
+export async function fetchBjornLundenAccessToken(): Promise<TokenResponse> {
+  const { clientId, clientSecret } = getOAuthConfigs().bjornlunden;
+  if (!clientId || !clientSecret) {
+    throw new Error('BJORN_LUNDEN_CLIENT_ID and BJORN_LUNDEN_CLIENT_SECRET must be set');
+  }
+  const tokens = await fetchBjornLundenToken({ clientId, clientSecret }, pgHttpFetch);
+  return { ...tokens, refresh_token: '' };
+}
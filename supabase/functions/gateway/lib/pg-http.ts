@@ -0,0 +1,44 @@
+/**
+ * fetch-compatible transport that routes requests through PostgreSQL's `http` extension.
+ *
+ * The Björn Lunden API server (apigateway.blinfo.se) uses TLS ciphers incompatible with
+ * Deno's rustls stack (HandshakeFailure). PostgreSQL's pgsql-http extension
+ * uses libcurl (OpenSSL), which handles these ciphers correctly.
+ */
+import { getDb } from './db.ts';
+
+/** Escape a string as a PostgreSQL string literal (single-quote escaping). */
+function escapeLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+export async function pgHttpFetch(
+  input: string | URL | Request,
+  init?: RequestInit,
+): Promise<Response> {
+  const sql = getDb();
+  const url = input instanceof Request ? input.url : String(input);
+  const method = init?.method ?? 'GET';
+  const headers = new Headers(init?.headers);
+  const contentType = headers.get('Content-Type');
+  headers.delete('Content-Type');
+  const body = typeof init?.body === 'string' ? init.body : null;
+
+  const headerArray = Array.from(headers.entries())
+    .map(([k, v]) => `extensions.http_header(${escapeLiteral(k)}, ${escapeLiteral(v)})`)
+    .join(', ');
+
+  const rows = await sql`
+    SELECT status, content
+    FROM extensions.http((
+      ${method},
+      ${url},
+      ${sql.unsafe(headerArray ? `ARRAY[${headerArray}]` : 'ARRAY[]::extensions.http_header[]')},
+      ${contentType},
+      ${body}
+    )::extensions.http_request)
+  `;
+
+  const row = rows[0];
+  return new Response(row.content as string, { status: row.status as number });
+}
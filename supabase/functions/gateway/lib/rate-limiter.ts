@@ -1,38 +0,0 @@
-import type { RateLimitConfig } from '../providers/types.ts';
-
-export class TokenBucketRateLimiter {
-  private tokens: number;
-  private lastRefill: number;
-  private readonly maxTokens: number;
-  private readonly refillRateMs: number;
-
-  constructor(config: RateLimitConfig) {
-    this.maxTokens = config.maxRequests;
-    this.tokens = config.maxRequests;
-    this.refillRateMs = config.windowMs / config.maxRequests;
-    this.lastRefill = Date.now();
-  }
-
-  private refill(): void {
-    const now = Date.now();
-    const elapsed = now - this.lastRefill;
-    const newTokens = Math.floor(elapsed / this.refillRateMs);
-    if (newTokens > 0) {
-      this.tokens = Math.min(this.maxTokens, this.tokens + newTokens);
-      this.lastRefill = now;
-    }
-  }
-
-  async acquire(): Promise<void> {
-    this.refill();
-    if (this.tokens > 0) {
-      this.tokens--;
-      return;
-    }
-
-    const waitMs = this.refillRateMs - (Date.now() - this.lastRefill);
-    await new Promise((resolve) => setTimeout(resolve, Math.max(0, waitMs)));
-    this.refill();
-    this.tokens--;
-  }
-}
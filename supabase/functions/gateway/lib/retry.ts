@@ -1,45 +0,0 @@
-export interface RetryOptions {
-  maxAttempts?: number;
-  initialDelayMs?: number;
-  maxDelayMs?: number;
-  backoffMultiplier?: number;
-  shouldRetry?: (error: unknown, attempt: number) => boolean;
-}
-
-const DEFAULT_OPTIONS = {
-  maxAttempts: 3,
-  initialDelayMs: 1000,
-  maxDelayMs: 30_000,
-  backoffMultiplier: 2,
-};
-
-export async function withRetry<T>(
-  fn: () => Promise<T>,
-  options?: RetryOptions,
-): Promise<T> {
-  const opts = { ...DEFAULT_OPTIONS, ...options };
-  let lastError: unknown;
-
-  for (let attempt = 1; attempt <= opts.maxAttempts; attempt++) {
-    try {
-      return await fn();
-    } catch (error) {
-      lastError = error;
-
-      if (attempt === opts.maxAttempts) break;
-
-      if (options?.shouldRetry && !options.shouldRetry(error, attempt)) {
-        break;
-      }
-
-      const delay = Math.min(
-        opts.initialDelayMs * opts.backoffMultiplier ** (attempt - 1),
-        opts.maxDelayMs,
-      );
-
-      await new Promise((resolve) => setTimeout(resolve, delay));
-    }
-  }
-
-  throw lastError;
-}
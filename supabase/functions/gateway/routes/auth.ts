@@ -1,53 +1,21 @@
 import { Hono } from 'hono';
 import { getDb } from '../lib/db.ts';
-import type { OAuthConfig, TokenResponse } from '../providers/types.ts';
-import { buildFortnoxAuthUrl, exchangeFortnoxCode, refreshFortnoxToken, revokeFortnoxToken } from '../providers/fortnox/oauth.ts';
-import { buildVismaAuthUrl, exchangeVismaCode, refreshVismaToken, revokeVismaToken } from '../providers/visma/oauth.ts';
-import { exchangeBrioxCode, refreshBrioxToken } from '../providers/briox/oauth.ts';
-import { storeBokioToken } from '../providers/bokio/oauth.ts';
-import { storeBjornLundenToken, refreshBjornLundenToken } from '../providers/bjornlunden/oauth.ts';
+import {
+  buildFortnoxAuthUrl,
+  buildVismaAuthUrl,
+  exchangeBrioxCode,
+  exchangeFortnoxCode,
+  exchangeVismaCode,
+  refreshConsentTokens,
+  revokeFortnoxToken,
+  revokeVismaToken,
+} from '@arcim-sync/core/gateway';
+import { consentTokenStore } from '../lib/consent-tokens.ts';
+import type { TokenResponse } from '../lib/oauth.ts';
+import { fetchBjornLundenAccessToken, getOAuthConfigs, tokenRefreshOptions } from '../lib/oauth.ts';
 
 const app = new Hono();
 
-function getOAuthConfig(provider: string): OAuthConfig {
-  if (provider === 'fortnox') {
-    return {
-      clientId: Deno.env.get('FORTNOX_CLIENT_ID') ?? '',
-      clientSecret: Deno.env.get('FORTNOX_CLIENT_SECRET') ?? '',
-      redirectUri: Deno.env.get('FORTNOX_REDIRECT_URI') ?? '',
-    };
-  }
-  if (provider === 'visma') {
-    return {
-      clientId: Deno.env.get('VISMA_CLIENT_ID') ?? '',
-      clientSecret: Deno.env.get('VISMA_CLIENT_SECRET') ?? '',
-      redirectUri: Deno.env.get('VISMA_REDIRECT_URI') ?? '',
-    };
-  }
-  if (provider === 'briox') {
-    return {
-      clientId: Deno.env.get('BRIOX_CLIENT_ID') ?? '',
-      clientSecret: '',
-      redirectUri: '',
-    };
-  }
-  if (provider === 'bokio') {
-    return {
-      clientId: '',
-      clientSecret: '',
-      redirectUri: '',
-    };
-  }
-  if (provider === 'bjornlunden') {
-    return {
-      clientId: Deno.env.get('BJORN_LUNDEN_CLIENT_ID') ?? '',
-      clientSecret: Deno.env.get('BJORN_LUNDEN_CLIENT_SECRET') ?? '',
-      redirectUri: '',
-    };
-  }
-  throw new Error(`Unknown provider: ${provider}`);
-}
-
 function validateProvider(provider: string): boolean {
   return provider === 'fortnox' || provider === 'visma' || provider === 'briox' || provider === 'bokio' || provider === 'bjornlunden';
 }
@@ -71,15 +39,15 @@ app.get('/:provider/url', async (c) => {
     return c.json({ error: 'Björn Lunden uses client credentials. Use the callback endpoint with a company key.' }, 400);
   }
 
-  const config = getOAuthConfig(provider);
+  const oauth = getOAuthConfigs();
   const scopes = c.req.query('scopes')?.split(',');
   const state = c.req.query('state');
 
   let url: string;
   if (provider === 'fortnox') {
-    url = buildFortnoxAuthUrl(config, { scopes, state });
+    url = buildFortnoxAuthUrl(oauth.fortnox, { scopes, state });
   } else {
-    url = buildVismaAuthUrl(config, { scopes, state });
+    url = buildVismaAuthUrl(oauth.visma, { scopes, state });
   }
 
   return c.json({ url });
@@ -98,7 +66,7 @@ app.post('/:provider/exchange', async (c) => {
     return c.json({ error: 'code is required' }, 400);
   }
 
-  const config = getOAuthConfig(provider);
+  const oauth = getOAuthConfigs();
   let tokens: TokenResponse;
 
   if (provider === 'bokio') {
@@ -110,11 +78,11 @@ app.post('/:provider/exchange', async (c) => {
   }
 
   if (provider === 'fortnox') {
-    tokens = await exchangeFortnoxCode(config, code);
+    tokens = await exchangeFortnoxCode(oauth.fortnox, code);
   } else if (provider === 'briox') {
-    tokens = await exchangeBrioxCode(config.clientId, code);
+    tokens = await exchangeBrioxCode(oauth.briox, code);
   } else {
-    tokens = await exchangeVismaCode(config, code);
+    tokens = await exchangeVismaCode(oauth.visma, code);
   }
 
   return c.json({
@@ -167,7 +135,8 @@ app.post('/:provider/callback', async (c) => {
       return c.json({ error: 'companyId is required for Bokio' }, 400);
     }
 
-    tokens = storeBokioToken(code);
+    // Private API tokens don't expire
+    tokens = { access_token: code, refresh_token: '', token_type: 'Bearer', expires_in: 0 };
 
     // Store tokens with provider_company_id
     await sql`
@@ -186,7 +155,7 @@ app.post('/:provider/callback', async (c) => {
       return c.json({ error: 'companyId is required for Björn Lunden' }, 400);
     }
 
-    tokens = await storeBjornLundenToken();
+    tokens = await fetchBjornLundenAccessToken();
     const expiresAt = new Date(Date.now() + tokens.expires_in * 1000).toISOString();
 
     await sql`
@@ -199,14 +168,14 @@ app.post('/:provider/callback', async (c) => {
         provider_company_id = ${companyId}
     `;
   } else {
-    const config = getOAuthConfig(provider);
+    const oauth = getOAuthConfigs();
 
     if (provider === 'fortnox') {
-      tokens = await exchangeFortnoxCode(config, code);
+      tokens = await exchangeFortnoxCode(oauth.fortnox, code);
     } else if (provider === 'briox') {
-      tokens = await exchangeBrioxCode(config.clientId, code);
+      tokens = await exchangeBrioxCode(oauth.briox, code);
     } else {
-      tokens = await exchangeVismaCode(config, code);
+      tokens = await exchangeVismaCode(oauth.visma, code);
     }
 
     // Calculate token expiry
@@ -262,51 +231,17 @@ app.post('/:provider/refresh', async (c) => {
     return c.json({ error: 'Bokio uses private API tokens that do not expire. No refresh needed.' }, 400);
   }
 
-  if (provider === 'bjornlunden') {
-    // BL uses client credentials — no refresh_token, just get a new access token
-    const tokens = await refreshBjornLundenToken();
-    const expiresAt = new Date(Date.now() + tokens.expires_in * 1000).toISOString();
-
-    await sql`
-      UPDATE consent_tokens SET
-        access_token = ${tokens.access_token},
-        token_expires_at = ${expiresAt}
-      WHERE consent_id = ${consentId}
-    `;
-
-    return c.json({ success: true, expires_in: tokens.expires_in });
-  }
-
-  // Get current tokens
-  const tokenRows = await sql`
-    SELECT refresh_token FROM consent_tokens WHERE consent_id = ${consentId} LIMIT 1
-  `;
-  if (tokenRows.length === 0 || !tokenRows[0].refresh_token) {
+  // Get current tokens. BL uses client credentials, so it needs no refresh_token.
+  const store = consentTokenStore();
+  const stored = await store.getConsentTokens(consentId);
+  if (!stored || (provider !== 'bjornlunden' && !stored.refreshToken)) {
     return c.json({ error: 'No refresh token found' }, 400);
   }
 
-  const config = getOAuthConfig(provider);
-  let tokens: TokenResponse;
-
-  if (provider === 'fortnox') {
-    tokens = await refreshFortnoxToken(config, tokenRows[0].refresh_token);
-  } else if (provider === 'briox') {
-    tokens = await refreshBrioxToken(config.clientId, tokenRows[0].refresh_token);
-  } else {
-    tokens = await refreshVismaToken(config, tokenRows[0].refresh_token);
-  }
-
-  const expiresAt = new Date(Date.now() + tokens.expires_in * 1000).toISOString();
-
-  await sql`
-    UPDATE consent_tokens SET
-      access_token = ${tokens.access_token},
-      refresh_token = ${tokens.refresh_token},
-      token_expires_at = ${expiresAt}
-    WHERE consent_id = ${consentId}
-  `;
+  const tokens = await refreshConsentTokens(store, stored, tokenRefreshOptions(provider));
+  const expiresIn = Math.round((new Date(tokens.tokenExpiresAt!).getTime() - Date.now()) / 1000);
 
-  return c.json({ success: true, expires_in: tokens.expires_in });
+  return c.json({ success: true, expires_in: expiresIn });
 });
 
 // POST /api/v1/auth/:provider/revoke — revoke tokens
@@ -339,11 +274,11 @@ app.post('/:provider/revoke', async (c) => {
   `;
 
   if (tokenRows.length > 0 && tokenRows[0].refresh_token) {
-    const config = getOAuthConfig(provider);
+    const oauth = getOAuthConfigs();
     if (provider === 'fortnox') {
-      await revokeFortnoxToken(config, tokenRows[0].refresh_token);
+      await revokeFortnoxToken(oauth.fortnox, tokenRows[0].refresh_token);
     } else if (provider === 'visma') {
-      await revokeVismaToken(config, tokenRows[0].refresh_token);
+      await revokeVismaToken(oauth.visma, tokenRows[0].refresh_token);
     }
     // Briox/Bokio: no revocation endpoint — just delete stored tokens
   }